@@ -22,6 +22,7 @@ export function registerInitCommand(program: Command): void {
           workflows: DEFAULT_CONFIG.directories.workflows,
           agents: DEFAULT_CONFIG.directories.agents,
           mcps: DEFAULT_CONFIG.directories.mcps,
+          schedules: DEFAULT_CONFIG.directories.schedules,
           cache: DEFAULT_CONFIG.directories.cache,
         },
         browser: {
@@ -0,0 +1,224 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { JobScheduleRecord, MissedRunPolicy } from "@workglow/job-queue";
+import type { TaskInput, WorkflowRunJobInput } from "@workglow/task-graph";
+import { scanGraphForCredentials, WorkflowScheduler } from "@workglow/task-graph";
+import type { Command } from "commander";
+import { registerCliBrowserDeps } from "../browser";
+import { loadConfig, type CliConfig } from "../config";
+import { readJsonInput } from "../input";
+import { ensureCredentialStoreUnlocked } from "../keyring";
+import { createScheduleRepository, createWorkflowRepository } from "../storage";
+import { renderSelectPrompt } from "../ui/render";
+import { formatError, formatTable, parseDuration } from "../util";
+
+const MISSED_RUN_POLICIES: readonly MissedRunPolicy[] = ["skip", "run-once", "catch-up"];
+
+async function createScheduler(config: CliConfig): Promise<WorkflowScheduler> {
+  const graphRepository = createWorkflowRepository(config);
+  await graphRepository.setupDatabase();
+  const scheduleRepository = createScheduleRepository(config);
+  await scheduleRepository.setupDatabase();
+  return new WorkflowScheduler({ graphRepository, scheduleRepository });
+}
+
+function describeTiming(record: JobScheduleRecord<WorkflowRunJobInput>): string {
+  if (record.cron) {
+    return record.timezone === "UTC" ? record.cron : `${record.cron} (${record.timezone})`;
+  }
+  return `every ${record.intervalMs}ms`;
+}
+
+export function registerWorkflowScheduleCommand(workflow: Command): void {
+  const schedule = workflow
+    .command("schedule")
+    .description("Run saved workflows on cron expressions or intervals");
+
+  schedule
+    .command("add")
+    .argument("<workflow>", "identifier of the saved workflow to run")
+    .description("Schedule a saved workflow")
+    .option("--cron <expression>", "Five-field cron expression, or a macro such as @daily")
+    .option("--every <duration>", "Fixed interval such as 30s, 15m, 2h or 1d")
+    .option(
+      "--timezone <tz>",
+      "IANA timezone the cron expression is evaluated in",
+      Intl.DateTimeFormat().resolvedOptions().timeZone
+    )
+    .option("--missed <policy>", "Missed runs: skip, run-once or catch-up", "skip")
+    .option("--allow-overlap", "Start a run even when the previous one is still going")
+    .option("--id <id>", "Schedule identifier (default: generated)")
+    .option("--description <text>", "Description shown in listings")
+    .option("--input-json <json>", "Workflow input as JSON string")
+    .option("--input-json-file <path>", "Workflow input from JSON file")
+    .action(async (workflowId: string, opts: Record<string, string | boolean | undefined>) => {
+      if (Boolean(opts.cron) === Boolean(opts.every)) {
+        console.error("Error: specify exactly one of --cron or --every.");
+        process.exit(1);
+      }
+      let intervalMs: number | undefined;
+      if (opts.every) {
+        intervalMs = parseDuration(opts.every as string);
+        if (intervalMs === undefined) {
+          console.error(`Error: invalid duration "${opts.every}".`);
+          process.exit(1);
+        }
+      }
+      const missedRunPolicy = opts.missed as MissedRunPolicy;
+      if (!MISSED_RUN_POLICIES.includes(missedRunPolicy)) {
+        console.error(`Error: --missed must be one of ${MISSED_RUN_POLICIES.join(", ")}.`);
+        process.exit(1);
+      }
+
+      let input: TaskInput | undefined;
+      if (opts.inputJson || opts.inputJsonFile) {
+        input = (await readJsonInput({
+          inputJson: opts.inputJson as string | undefined,
+          inputJsonFile: opts.inputJsonFile as string | undefined,
+        })) as TaskInput;
+      }
+
+      const config = await loadConfig();
+      const graphRepository = createWorkflowRepository(config);
+      await graphRepository.setupDatabase();
+      if (!(await graphRepository.tabularRepository.get({ key: workflowId }))) {
+        console.error(`Workflow "${workflowId}" not found.`);
+        process.exit(1);
+      }
+
+      const scheduler = await createScheduler(config);
+      try {
+        const record = await scheduler.scheduleWorkflow(workflowId, {
+          scheduleId: opts.id as string | undefined,
+          description: opts.description as string | undefined,
+          cron: opts.cron as string | undefined,
+          intervalMs,
+          timezone: opts.timezone as string,
+          missedRunPolicy,
+          allowOverlap: Boolean(opts.allowOverlap),
+          input,
+        });
+        console.log(`Schedule "${record.scheduleId}" added (${describeTiming(record)}).`);
+      } catch (err) {
+        console.error(`Error: ${formatError(err)}`);
+        process.exit(1);
+      }
+    });
+
+  schedule
+    .command("list")
+    .description("List workflow schedules")
+    .action(async () => {
+      const config = await loadConfig();
+      const scheduler = await createScheduler(config);
+      const all = await scheduler.listSchedules();
+      if (all.length === 0) {
+        console.log("No schedules found.");
+        return;
+      }
+
+      const rows = all.map((record) => ({
+        id: record.scheduleId,
+        workflow: record.input.graphKey,
+        schedule: describeTiming(record),
+        missed: record.missedRunPolicy,
+        overlap: record.allowOverlap ? "yes" : "no",
+        "last run": record.lastRunAt ?? "",
+        status: record.lastStatus ?? "",
+      }));
+
+      console.log(
+        formatTable(rows, ["id", "workflow", "schedule", "missed", "overlap", "last run", "status"])
+      );
+    });
+
+  schedule
+    .command("remove")
+    .argument("[id]", "schedule identifier to remove")
+    .description("Remove a workflow schedule")
+    .action(async (id: string | undefined) => {
+      const config = await loadConfig();
+      const scheduler = await createScheduler(config);
+
+      let targetId = id;
+      if (!targetId) {
+        if (!process.stdin.isTTY) {
+          console.error("Error: specify an id or run interactively.");
+          process.exit(1);
+        }
+        const all = await scheduler.listSchedules();
+        if (all.length === 0) {
+          console.log("No schedules to remove.");
+          return;
+        }
+        const options = all.map((record) => ({
+          label: `${record.scheduleId} (${record.input.graphKey}, ${describeTiming(record)})`,
+          value: record.scheduleId,
+        }));
+        const selected = await renderSelectPrompt(options, "Select schedule to remove:");
+        if (!selected) return;
+        targetId = selected;
+      }
+
+      try {
+        await scheduler.removeSchedule(targetId);
+      } catch (err) {
+        console.error(`Error: ${formatError(err)}`);
+        process.exit(1);
+      }
+      console.log(`Schedule "${targetId}" removed.`);
+    });
+
+  schedule
+    .command("start")
+    .description(
+      "Run scheduled workflows in the foreground until interrupted; restart it to pick up schedule changes"
+    )
+    .action(async () => {
+      const config = await loadConfig();
+      const graphRepository = createWorkflowRepository(config);
+      await graphRepository.setupDatabase();
+      const scheduler = await createScheduler(config);
+
+      const all = await scheduler.listSchedules();
+      if (all.length === 0) {
+        console.log("No schedules found.");
+        return;
+      }
+
+      // Unlock encrypted credentials up front: scheduled runs cannot prompt
+      for (const record of all) {
+        const graph = await graphRepository.getTaskGraph(record.input.graphKey);
+        if (graph && scanGraphForCredentials(graph).needsCredentials) {
+          await ensureCredentialStoreUnlocked();
+          break;
+        }
+      }
+      await registerCliBrowserDeps(config);
+
+      scheduler.on("schedule_enqueued", (scheduleId, _jobId, scheduledFor) => {
+        console.log(`[${scheduleId}] next run at ${scheduledFor.toISOString()}`);
+      });
+      scheduler.on("schedule_skipped", (scheduleId, skipped) => {
+        console.log(`[${scheduleId}] skipped ${skipped} missed run(s)`);
+      });
+      scheduler.on("schedule_run_finished", async (scheduleId, _jobId, status) => {
+        const record = await scheduler.getSchedule(scheduleId);
+        const detail = status === "FAILED" && record?.lastError ? `: ${record.lastError}` : "";
+        console.log(`[${scheduleId}] run ${status.toLowerCase()}${detail}`);
+      });
+
+      await scheduler.start();
+      console.log(`Scheduler running ${all.length} schedule(s). Press Ctrl-C to stop.`);
+
+      await new Promise<void>((resolve) => {
+        process.once("SIGINT", () => resolve());
+        process.once("SIGTERM", () => resolve());
+      });
+      await scheduler.stop();
+    });
+}
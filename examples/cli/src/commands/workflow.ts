@@ -30,6 +30,7 @@ import { withCli } from "../run-interactive";
 import { createWorkflowRepository } from "../storage";
 import { renderSelectPrompt } from "../ui/render";
 import { formatError, formatTable, outputResult } from "../util";
+import { registerWorkflowScheduleCommand } from "./schedule";
 
 /**
  * Collects `task.defaults` from all root (no-incoming-edge) tasks in the graph
@@ -392,4 +393,6 @@ export function registerWorkflowCommand(program: Command): void {
         process.exit(1);
       }
     });
+
+  registerWorkflowScheduleCommand(workflow);
 }
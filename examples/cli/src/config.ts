@@ -15,6 +15,7 @@ export interface CliConfig {
     readonly workflows: string;
     readonly agents: string;
     readonly mcps: string;
+    readonly schedules: string;
     readonly cache: string;
   };
   readonly browser?: {
@@ -32,6 +33,7 @@ export const DEFAULT_CONFIG: CliConfig = {
     workflows: join(DEFAULT_BASE, "definition", "workflow"),
     agents: join(DEFAULT_BASE, "definition", "agent"),
     mcps: join(DEFAULT_BASE, "definition", "mcp"),
+    schedules: join(DEFAULT_BASE, "definition", "schedule"),
     cache: join(DEFAULT_BASE, "cache"),
   },
 };
@@ -61,6 +63,7 @@ export async function loadConfig(): Promise<CliConfig> {
         workflows: resolvePath(dirs?.workflows ?? DEFAULT_CONFIG.directories.workflows),
         agents: resolvePath(dirs?.agents ?? DEFAULT_CONFIG.directories.agents),
         mcps: resolvePath(dirs?.mcps ?? DEFAULT_CONFIG.directories.mcps),
+        schedules: resolvePath(dirs?.schedules ?? DEFAULT_CONFIG.directories.schedules),
         cache: resolvePath(dirs?.cache ?? DEFAULT_CONFIG.directories.cache),
       },
       browser,
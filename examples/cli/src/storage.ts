@@ -5,11 +5,17 @@
  */
 
 import { ModelRepository, ModelPrimaryKeyNames, ModelRecordSchema } from "@workglow/ai";
+import {
+  JobSchedulePrimaryKeyNames,
+  JobScheduleSchema,
+  JobScheduleTabularRepository,
+} from "@workglow/job-queue";
 import { FsFolderTabularStorage } from "@workglow/storage";
 import {
   TaskGraphTabularRepository,
   TaskGraphSchema,
   TaskGraphPrimaryKeyNames,
+  type WorkflowRunJobInput,
 } from "@workglow/task-graph";
 import { mcpServerConfigSchema } from "@workglow/tasks";
 import type { CliConfig } from "./config";
@@ -55,6 +61,18 @@ export function createAgentRepository(config: CliConfig): TaskGraphTabularReposi
   });
 }
 
+export function createScheduleRepository(
+  config: CliConfig
+): JobScheduleTabularRepository<WorkflowRunJobInput> {
+  return new JobScheduleTabularRepository({
+    tabularRepository: new FsFolderTabularStorage(
+      config.directories.schedules,
+      JobScheduleSchema,
+      JobSchedulePrimaryKeyNames
+    ),
+  });
+}
+
 export function createMcpStorage(
   config: CliConfig
 ): FsFolderTabularStorage<typeof McpServerRecordSchema, typeof McpServerPrimaryKeyNames> {
@@ -48,6 +48,7 @@ describe.skipIf(!chromeAvailable)("Browser workflow end-to-end", () => {
         workflows: join(tmpDir, "workflows"),
         agents: join(tmpDir, "agents"),
         mcps: join(tmpDir, "mcps"),
+        schedules: join(tmpDir, "schedules"),
         cache: join(tmpDir, "cache"),
       },
       browser: {
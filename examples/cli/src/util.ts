@@ -89,6 +89,25 @@ export function formatError(err: unknown): string {
   return message;
 }
 
+const DURATION_UNITS_MS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+};
+
+/**
+ * Parse a duration such as `500ms`, `30s`, `15m`, `2h` or `1d` into milliseconds.
+ * A bare number is taken as milliseconds. Returns undefined if malformed.
+ */
+export function parseDuration(value: string): number | undefined {
+  const match = /^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)?$/.exec(value.trim());
+  if (!match) return undefined;
+  const ms = Number(match[1]) * DURATION_UNITS_MS[match[2] ?? "ms"];
+  return ms > 0 ? ms : undefined;
+}
+
 /**
  * Format an array of objects as a simple aligned table.
  */
@@ -27,7 +27,8 @@ const TASK_TO_PIPELINES: Record<string, string[]> = {
   ObjectDetectionTask: ["object-detection", "zero-shot-object-detection"],
   DepthEstimationTask: ["depth-estimation"],
   AudioClassificationTask: ["audio-classification"],
-  SpeechRecognitionTask: ["automatic-speech-recognition"],
+  AutomaticSpeechRecognitionTask: ["automatic-speech-recognition"],
+  TextToSpeechTask: ["text-to-speech", "text-to-audio"],
 };
 
 /** Convert an app task type to its primary HuggingFace pipeline name. */
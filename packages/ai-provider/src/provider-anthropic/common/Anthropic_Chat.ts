@@ -10,8 +10,15 @@ import type {
   AiProviderRunFn,
   AiProviderStreamFn,
 } from "@workglow/ai";
+import { type AiProviderUsage, withAiUsage } from "@workglow/ai/worker";
 import type { StreamEvent } from "@workglow/task-graph";
-import { getClient, getMaxTokens, getModelName } from "./Anthropic_Client";
+import {
+  getClient,
+  getMaxTokens,
+  getModelName,
+  getUsage,
+  trackStreamUsage,
+} from "./Anthropic_Client";
 import { buildAnthropicMessages } from "./Anthropic_ToolCalling";
 import type { AnthropicModelConfig } from "./Anthropic_ModelSchema";
 
@@ -65,7 +72,7 @@ export const Anthropic_Chat: AiProviderRunFn<
     .map((b) => b.text as string)
     .join("");
   update_progress(100, "Turn complete");
-  return { text };
+  return withAiUsage({ text }, getUsage((response as any).usage));
 };
 
 export const Anthropic_Chat_Stream: AiProviderStreamFn<
@@ -82,11 +89,13 @@ export const Anthropic_Chat_Stream: AiProviderStreamFn<
   const client = await getClient(model);
   const params = buildParams(input, model, sessionId);
   const stream = (client.messages.stream as any)(params, { signal });
+  let usage: AiProviderUsage | undefined;
   for await (const event of stream) {
+    usage = trackStreamUsage(event, usage);
     const e = event as { type: string; delta?: { type?: string; text?: string } };
     if (e.type === "content_block_delta" && e.delta?.type === "text_delta") {
       yield { type: "text-delta", port: "text", textDelta: e.delta.text ?? "" };
     }
   }
-  yield { type: "finish", data: {} as AiChatProviderOutput };
+  yield { type: "finish", data: withAiUsage({} as AiChatProviderOutput, usage) };
 };
@@ -4,6 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import type { AiProviderUsage } from "@workglow/ai/worker";
 import type { AnthropicModelConfig } from "./Anthropic_ModelSchema";
 
 let _sdk: typeof import("@anthropic-ai/sdk") | undefined;
@@ -69,3 +70,32 @@ export function getMaxTokens(
 ): number {
   return input.maxTokens ?? model?.provider_config?.max_tokens ?? 1024;
 }
+
+/**
+ * Token counts of a message. Anthropic's `input_tokens` excludes prompt cache
+ * reads and writes, so they are added back to get the full prompt size.
+ */
+export function getUsage(usage: any): AiProviderUsage | undefined {
+  if (!usage) return undefined;
+  const cached = usage.cache_read_input_tokens ?? 0;
+  return {
+    inputTokens: (usage.input_tokens ?? 0) + cached + (usage.cache_creation_input_tokens ?? 0),
+    outputTokens: usage.output_tokens ?? 0,
+    cachedInputTokens: cached,
+  };
+}
+
+/**
+ * Folds a message stream event into the usage seen so far: `message_start`
+ * carries the prompt counts, `message_delta` the cumulative output count
+ */
+export function trackStreamUsage(
+  event: any,
+  usage: AiProviderUsage | undefined
+): AiProviderUsage | undefined {
+  if (event?.type === "message_start") return getUsage(event.message?.usage);
+  if (event?.type === "message_delta" && event.usage?.output_tokens !== undefined) {
+    return { ...usage, outputTokens: event.usage.output_tokens };
+  }
+  return usage;
+}
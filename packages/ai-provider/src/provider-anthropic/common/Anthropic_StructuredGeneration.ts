@@ -10,10 +10,17 @@ import type {
   StructuredGenerationTaskInput,
   StructuredGenerationTaskOutput,
 } from "@workglow/ai";
+import { type AiProviderUsage, withAiUsage } from "@workglow/ai/worker";
 import type { StreamEvent } from "@workglow/task-graph";
 import { parsePartialJson } from "@workglow/util/worker";
 import type { AnthropicModelConfig } from "./Anthropic_ModelSchema";
-import { getClient, getMaxTokens, getModelName } from "./Anthropic_Client";
+import {
+  getClient,
+  getMaxTokens,
+  getModelName,
+  getUsage,
+  trackStreamUsage,
+} from "./Anthropic_Client";
 
 export const Anthropic_StructuredGeneration: AiProviderRunFn<
   StructuredGenerationTaskInput,
@@ -47,7 +54,7 @@ export const Anthropic_StructuredGeneration: AiProviderRunFn<
   const object = toolBlock?.input ?? {};
 
   update_progress(100, "Completed Anthropic structured generation");
-  return { object };
+  return withAiUsage({ object }, getUsage(response.usage));
 };
 
 export const Anthropic_StructuredGeneration_Stream: AiProviderStreamFn<
@@ -83,7 +90,9 @@ export const Anthropic_StructuredGeneration_Stream: AiProviderStreamFn<
   );
 
   let accumulatedJson = "";
+  let usage: AiProviderUsage | undefined;
   for await (const event of stream) {
+    usage = trackStreamUsage(event, usage);
     if (event.type === "content_block_delta" && event.delta.type === "input_json_delta") {
       accumulatedJson += event.delta.partial_json;
       const partial = parsePartialJson(accumulatedJson);
@@ -99,5 +108,8 @@ export const Anthropic_StructuredGeneration_Stream: AiProviderStreamFn<
   } catch {
     finalObject = parsePartialJson(accumulatedJson) ?? {};
   }
-  yield { type: "finish", data: { object: finalObject } as StructuredGenerationTaskOutput };
+  yield {
+    type: "finish",
+    data: withAiUsage({ object: finalObject } as StructuredGenerationTaskOutput, usage),
+  };
 };
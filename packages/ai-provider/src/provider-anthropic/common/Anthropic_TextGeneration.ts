@@ -10,10 +10,17 @@ import type {
   TextGenerationTaskInput,
   TextGenerationTaskOutput,
 } from "@workglow/ai";
+import { type AiProviderUsage, withAiUsage } from "@workglow/ai/worker";
 import type { StreamEvent } from "@workglow/task-graph";
 import { getLogger } from "@workglow/util/worker";
 import type { AnthropicModelConfig } from "./Anthropic_ModelSchema";
-import { getClient, getMaxTokens, getModelName } from "./Anthropic_Client";
+import {
+  getClient,
+  getMaxTokens,
+  getModelName,
+  getUsage,
+  trackStreamUsage,
+} from "./Anthropic_Client";
 
 export const Anthropic_TextGeneration: AiProviderRunFn<
   TextGenerationTaskInput,
@@ -55,7 +62,7 @@ export const Anthropic_TextGeneration: AiProviderRunFn<
 
   update_progress(100, "Completed Anthropic text generation");
   logger.timeEnd(timerLabel, { model: model?.provider_config?.model_name });
-  return { text };
+  return withAiUsage({ text }, getUsage(response.usage));
 };
 
 export const Anthropic_TextGeneration_Stream: AiProviderStreamFn<
@@ -93,10 +100,12 @@ export const Anthropic_TextGeneration_Stream: AiProviderStreamFn<
 
   const stream = client.messages.stream(params, { signal });
 
+  let usage: AiProviderUsage | undefined;
   for await (const event of stream) {
+    usage = trackStreamUsage(event, usage);
     if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
       yield { type: "text-delta", port: "text", textDelta: event.delta.text };
     }
   }
-  yield { type: "finish", data: {} as TextGenerationTaskOutput };
+  yield { type: "finish", data: withAiUsage({} as TextGenerationTaskOutput, usage) };
 };
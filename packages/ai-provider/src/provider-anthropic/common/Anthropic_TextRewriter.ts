@@ -10,8 +10,15 @@ import type {
   TextRewriterTaskInput,
   TextRewriterTaskOutput,
 } from "@workglow/ai";
+import { type AiProviderUsage, withAiUsage } from "@workglow/ai/worker";
 import type { StreamEvent } from "@workglow/task-graph";
-import { getClient, getMaxTokens, getModelName } from "./Anthropic_Client";
+import {
+  getClient,
+  getMaxTokens,
+  getModelName,
+  getUsage,
+  trackStreamUsage,
+} from "./Anthropic_Client";
 import type { AnthropicModelConfig } from "./Anthropic_ModelSchema";
 
 export const Anthropic_TextRewriter: AiProviderRunFn<
@@ -36,7 +43,7 @@ export const Anthropic_TextRewriter: AiProviderRunFn<
   const text = response.content[0]?.type === "text" ? response.content[0].text : "";
 
   update_progress(100, "Completed Anthropic text rewriting");
-  return { text };
+  return withAiUsage({ text }, getUsage(response.usage));
 };
 
 export const Anthropic_TextRewriter_Stream: AiProviderStreamFn<
@@ -57,10 +64,12 @@ export const Anthropic_TextRewriter_Stream: AiProviderStreamFn<
     { signal }
   );
 
+  let usage: AiProviderUsage | undefined;
   for await (const event of stream) {
+    usage = trackStreamUsage(event, usage);
     if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
       yield { type: "text-delta", port: "text", textDelta: event.delta.text };
     }
   }
-  yield { type: "finish", data: {} as TextRewriterTaskOutput };
+  yield { type: "finish", data: withAiUsage({} as TextRewriterTaskOutput, usage) };
 };
@@ -10,8 +10,15 @@ import type {
   TextSummaryTaskInput,
   TextSummaryTaskOutput,
 } from "@workglow/ai";
+import { type AiProviderUsage, withAiUsage } from "@workglow/ai/worker";
 import type { StreamEvent } from "@workglow/task-graph";
-import { getClient, getMaxTokens, getModelName } from "./Anthropic_Client";
+import {
+  getClient,
+  getMaxTokens,
+  getModelName,
+  getUsage,
+  trackStreamUsage,
+} from "./Anthropic_Client";
 import type { AnthropicModelConfig } from "./Anthropic_ModelSchema";
 
 export const Anthropic_TextSummary: AiProviderRunFn<
@@ -36,7 +43,7 @@ export const Anthropic_TextSummary: AiProviderRunFn<
   const text = response.content[0]?.type === "text" ? response.content[0].text : "";
 
   update_progress(100, "Completed Anthropic text summarization");
-  return { text };
+  return withAiUsage({ text }, getUsage(response.usage));
 };
 
 export const Anthropic_TextSummary_Stream: AiProviderStreamFn<
@@ -57,10 +64,12 @@ export const Anthropic_TextSummary_Stream: AiProviderStreamFn<
     { signal }
   );
 
+  let usage: AiProviderUsage | undefined;
   for await (const event of stream) {
+    usage = trackStreamUsage(event, usage);
     if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
       yield { type: "text-delta", port: "text", textDelta: event.delta.text };
     }
   }
-  yield { type: "finish", data: {} as TextSummaryTaskOutput };
+  yield { type: "finish", data: withAiUsage({} as TextSummaryTaskOutput, usage) };
 };
@@ -14,10 +14,21 @@ import type {
   ToolCalls,
   ToolDefinition,
 } from "@workglow/ai";
-import { buildToolDescription, filterValidToolCalls } from "@workglow/ai/worker";
+import {
+  buildToolDescription,
+  filterValidToolCalls,
+  withAiUsage,
+  type AiProviderUsage,
+} from "@workglow/ai/worker";
 import type { StreamEvent } from "@workglow/task-graph";
 import { parsePartialJson } from "@workglow/util/worker";
-import { getClient, getMaxTokens, getModelName } from "./Anthropic_Client";
+import {
+  getClient,
+  getMaxTokens,
+  getModelName,
+  getUsage,
+  trackStreamUsage,
+} from "./Anthropic_Client";
 import type { AnthropicModelConfig } from "./Anthropic_ModelSchema";
 
 export function buildAnthropicMessages(
@@ -166,7 +177,10 @@ export const Anthropic_ToolCalling: AiProviderRunFn<
     });
 
   update_progress(100, "Completed Anthropic tool calling");
-  return { text, toolCalls: filterValidToolCalls(toolCalls, input.tools) };
+  return withAiUsage(
+    { text, toolCalls: filterValidToolCalls(toolCalls, input.tools) },
+    getUsage(response.usage)
+  );
 };
 
 export const Anthropic_ToolCalling_Stream: AiProviderStreamFn<
@@ -238,7 +252,9 @@ export const Anthropic_ToolCalling_Stream: AiProviderStreamFn<
   const toolCallsInStreamOrder = (): ToolCall[] =>
     [...toolCallsByBlockIndex.entries()].sort((a, b) => a[0] - b[0]).map(([, tc]) => tc);
 
+  let usage: AiProviderUsage | undefined;
   for await (const event of stream) {
+    usage = trackStreamUsage(event, usage);
     if (event.type === "content_block_start") {
       const block = event.content_block;
       const index = event.index as number;
@@ -302,5 +318,8 @@ export const Anthropic_ToolCalling_Stream: AiProviderStreamFn<
     }
   }
 
-  yield { type: "finish", data: { text: "", toolCalls: [] } as ToolCallingTaskOutput };
+  yield {
+    type: "finish",
+    data: withAiUsage({ text: "", toolCalls: [] } as ToolCallingTaskOutput, usage),
+  };
 };
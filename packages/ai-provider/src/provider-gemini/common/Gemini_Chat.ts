@@ -10,9 +10,10 @@ import type {
   AiProviderRunFn,
   AiProviderStreamFn,
 } from "@workglow/ai";
+import { type AiProviderUsage, withAiUsage } from "@workglow/ai/worker";
 import type { StreamEvent } from "@workglow/task-graph";
 import type { GeminiModelConfig } from "./Gemini_ModelSchema";
-import { getApiKey, getModelName, loadGeminiSDK } from "./Gemini_Client";
+import { getApiKey, getModelName, getUsage, loadGeminiSDK } from "./Gemini_Client";
 import { buildGeminiContents } from "./Gemini_ToolCalling";
 
 export const Gemini_Chat: AiProviderRunFn<
@@ -37,7 +38,7 @@ export const Gemini_Chat: AiProviderRunFn<
   const result = await genModel.generateContent({ contents });
   const text = result.response.text() ?? "";
   update_progress(100, "Turn complete");
-  return { text };
+  return withAiUsage({ text }, getUsage(result.response.usageMetadata));
 };
 
 export const Gemini_Chat_Stream: AiProviderStreamFn<
@@ -60,11 +61,13 @@ export const Gemini_Chat_Stream: AiProviderStreamFn<
 
   const result = await genModel.generateContentStream({ contents }, { signal });
 
+  let usage: AiProviderUsage | undefined;
   for await (const chunk of result.stream) {
+    if (chunk.usageMetadata) usage = getUsage(chunk.usageMetadata);
     const text = chunk.text();
     if (text) {
       yield { type: "text-delta", port: "text", textDelta: text };
     }
   }
-  yield { type: "finish", data: {} as AiChatProviderOutput };
+  yield { type: "finish", data: withAiUsage({} as AiChatProviderOutput, usage) };
 };
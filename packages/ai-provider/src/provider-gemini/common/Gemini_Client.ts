@@ -4,6 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import type { AiProviderUsage } from "@workglow/ai/worker";
 import type { GeminiModelConfig } from "./Gemini_ModelSchema";
 
 let _sdk: typeof import("@google/generative-ai") | undefined;
@@ -51,3 +52,13 @@ export function getModelName(model: GeminiModelConfig | undefined): string {
   }
   return name;
 }
+
+/** Token counts from a response's (or the last stream chunk's) `usageMetadata` */
+export function getUsage(usageMetadata: any): AiProviderUsage | undefined {
+  if (!usageMetadata) return undefined;
+  return {
+    inputTokens: usageMetadata.promptTokenCount,
+    outputTokens: usageMetadata.candidatesTokenCount,
+    cachedInputTokens: usageMetadata.cachedContentTokenCount,
+  };
+}
@@ -10,10 +10,11 @@ import type {
   StructuredGenerationTaskInput,
   StructuredGenerationTaskOutput,
 } from "@workglow/ai";
+import { type AiProviderUsage, withAiUsage } from "@workglow/ai/worker";
 import type { StreamEvent } from "@workglow/task-graph";
 import { parsePartialJson } from "@workglow/util/worker";
 import type { GeminiModelConfig } from "./Gemini_ModelSchema";
-import { getApiKey, getModelName, loadGeminiSDK } from "./Gemini_Client";
+import { getApiKey, getModelName, getUsage, loadGeminiSDK } from "./Gemini_Client";
 import { sanitizeSchemaForGemini } from "./Gemini_Schema";
 
 export const Gemini_StructuredGeneration: AiProviderRunFn<
@@ -45,7 +46,7 @@ export const Gemini_StructuredGeneration: AiProviderRunFn<
 
   const text = result.response.text();
   update_progress(100, "Completed Gemini structured generation");
-  return { object: JSON.parse(text) };
+  return withAiUsage({ object: JSON.parse(text) }, getUsage(result.response.usageMetadata));
 };
 
 export const Gemini_StructuredGeneration_Stream: AiProviderStreamFn<
@@ -81,7 +82,9 @@ export const Gemini_StructuredGeneration_Stream: AiProviderStreamFn<
   );
 
   let accumulatedJson = "";
+  let usage: AiProviderUsage | undefined;
   for await (const chunk of result.stream) {
+    if (chunk.usageMetadata) usage = getUsage(chunk.usageMetadata);
     const text = chunk.text();
     if (text) {
       accumulatedJson += text;
@@ -98,5 +101,8 @@ export const Gemini_StructuredGeneration_Stream: AiProviderStreamFn<
   } catch {
     finalObject = parsePartialJson(accumulatedJson) ?? {};
   }
-  yield { type: "finish", data: { object: finalObject } as StructuredGenerationTaskOutput };
+  yield {
+    type: "finish",
+    data: withAiUsage({ object: finalObject } as StructuredGenerationTaskOutput, usage),
+  };
 };
@@ -10,10 +10,11 @@ import type {
   TextGenerationTaskInput,
   TextGenerationTaskOutput,
 } from "@workglow/ai";
+import { type AiProviderUsage, withAiUsage } from "@workglow/ai/worker";
 import type { StreamEvent } from "@workglow/task-graph";
 import { getLogger } from "@workglow/util/worker";
 import type { GeminiModelConfig } from "./Gemini_ModelSchema";
-import { getApiKey, getModelName, loadGeminiSDK } from "./Gemini_Client";
+import { getApiKey, getModelName, getUsage, loadGeminiSDK } from "./Gemini_Client";
 
 export const Gemini_TextGeneration: AiProviderRunFn<
   TextGenerationTaskInput,
@@ -43,7 +44,7 @@ export const Gemini_TextGeneration: AiProviderRunFn<
   const text = result.response.text();
   update_progress(100, "Completed Gemini text generation");
   logger.timeEnd(timerLabel, { model: model?.provider_config?.model_name });
-  return { text };
+  return withAiUsage({ text }, getUsage(result.response.usageMetadata));
 };
 
 export const Gemini_TextGeneration_Stream: AiProviderStreamFn<
@@ -67,11 +68,13 @@ export const Gemini_TextGeneration_Stream: AiProviderStreamFn<
     { signal }
   );
 
+  let usage: AiProviderUsage | undefined;
   for await (const chunk of result.stream) {
+    if (chunk.usageMetadata) usage = getUsage(chunk.usageMetadata);
     const text = chunk.text();
     if (text) {
       yield { type: "text-delta", port: "text", textDelta: text };
     }
   }
-  yield { type: "finish", data: {} as TextGenerationTaskOutput };
+  yield { type: "finish", data: withAiUsage({} as TextGenerationTaskOutput, usage) };
 };
@@ -10,9 +10,10 @@ import type {
   TextSummaryTaskInput,
   TextSummaryTaskOutput,
 } from "@workglow/ai";
+import { type AiProviderUsage, withAiUsage } from "@workglow/ai/worker";
 import type { StreamEvent } from "@workglow/task-graph";
 import type { GeminiModelConfig } from "./Gemini_ModelSchema";
-import { getApiKey, getModelName, loadGeminiSDK } from "./Gemini_Client";
+import { getApiKey, getModelName, getUsage, loadGeminiSDK } from "./Gemini_Client";
 
 export const Gemini_TextSummary: AiProviderRunFn<
   TextSummaryTaskInput,
@@ -33,7 +34,7 @@ export const Gemini_TextSummary: AiProviderRunFn<
 
   const text = result.response.text();
   update_progress(100, "Completed Gemini text summarization");
-  return { text };
+  return withAiUsage({ text }, getUsage(result.response.usageMetadata));
 };
 
 export const Gemini_TextSummary_Stream: AiProviderStreamFn<
@@ -53,11 +54,13 @@ export const Gemini_TextSummary_Stream: AiProviderStreamFn<
     { signal }
   );
 
+  let usage: AiProviderUsage | undefined;
   for await (const chunk of result.stream) {
+    if (chunk.usageMetadata) usage = getUsage(chunk.usageMetadata);
     const text = chunk.text();
     if (text) {
       yield { type: "text-delta", port: "text", textDelta: text };
     }
   }
-  yield { type: "finish", data: {} as TextSummaryTaskOutput };
+  yield { type: "finish", data: withAiUsage({} as TextSummaryTaskOutput, usage) };
 };
@@ -5,7 +5,12 @@
  */
 
 import type { FunctionCallingMode } from "@google/generative-ai";
-import { buildToolDescription, filterValidToolCalls } from "@workglow/ai/worker";
+import {
+  buildToolDescription,
+  filterValidToolCalls,
+  withAiUsage,
+  type AiProviderUsage,
+} from "@workglow/ai/worker";
 import type {
   AiProviderRunFn,
   AiProviderStreamFn,
@@ -17,7 +22,7 @@ import type {
 } from "@workglow/ai";
 import type { StreamEvent } from "@workglow/task-graph";
 import type { GeminiModelConfig } from "./Gemini_ModelSchema";
-import { getApiKey, getModelName, loadGeminiSDK } from "./Gemini_Client";
+import { getApiKey, getModelName, getUsage, loadGeminiSDK } from "./Gemini_Client";
 import { sanitizeSchemaForGemini } from "./Gemini_Schema";
 
 export function buildGeminiContents(
@@ -160,7 +165,10 @@ export const Gemini_ToolCalling: AiProviderRunFn<
   }
 
   update_progress(100, "Completed Gemini tool calling");
-  return { text: textParts.join(""), toolCalls: filterValidToolCalls(toolCalls, input.tools) };
+  return withAiUsage(
+    { text: textParts.join(""), toolCalls: filterValidToolCalls(toolCalls, input.tools) },
+    getUsage(result.response.usageMetadata)
+  );
 };
 
 export const Gemini_ToolCalling_Stream: AiProviderStreamFn<
@@ -196,7 +204,9 @@ export const Gemini_ToolCalling_Stream: AiProviderStreamFn<
 
   let callIndex = 0;
 
+  let usage: AiProviderUsage | undefined;
   for await (const chunk of result.stream) {
+    if (chunk.usageMetadata) usage = getUsage(chunk.usageMetadata);
     const parts = chunk.candidates?.[0]?.content?.parts ?? [];
     for (const part of parts) {
       if ("text" in part && part.text) {
@@ -219,5 +229,8 @@ export const Gemini_ToolCalling_Stream: AiProviderStreamFn<
     }
   }
 
-  yield { type: "finish", data: { text: "", toolCalls: [] } as ToolCallingTaskOutput };
+  yield {
+    type: "finish",
+    data: withAiUsage({ text: "", toolCalls: [] } as ToolCallingTaskOutput, usage),
+  };
 };
@@ -5,6 +5,7 @@
  */
 
 import type { InferenceProviderOrPolicy } from "@huggingface/inference";
+import type { AiProviderUsage } from "@workglow/ai/worker";
 import type { HfInferenceModelConfig } from "./HFI_ModelSchema";
 
 let _sdk: typeof import("@huggingface/inference") | undefined;
@@ -63,3 +64,16 @@ export function getProvider(
 ): InferenceProviderOrPolicy | undefined {
   return model?.provider_config?.provider as InferenceProviderOrPolicy | undefined;
 }
+
+/**
+ * Token counts of a chat completion, or of a stream chunk when the serving
+ * provider reports them
+ */
+export function getUsage(usage: any): AiProviderUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    inputTokens: usage.prompt_tokens,
+    outputTokens: usage.completion_tokens,
+    cachedInputTokens: usage.prompt_tokens_details?.cached_tokens,
+  };
+}
@@ -10,10 +10,11 @@ import type {
   TextGenerationTaskInput,
   TextGenerationTaskOutput,
 } from "@workglow/ai";
+import { type AiProviderUsage, withAiUsage } from "@workglow/ai/worker";
 import type { StreamEvent } from "@workglow/task-graph";
 import { getLogger } from "@workglow/util/worker";
 import type { HfInferenceModelConfig } from "./HFI_ModelSchema";
-import { getClient, getModelName, getProvider } from "./HFI_Client";
+import { getClient, getModelName, getProvider, getUsage } from "./HFI_Client";
 
 export const HFI_TextGeneration: AiProviderRunFn<
   TextGenerationTaskInput,
@@ -44,7 +45,10 @@ export const HFI_TextGeneration: AiProviderRunFn<
 
   update_progress(100, "Completed HF Inference text generation");
   logger.timeEnd(timerLabel, { model: model?.provider_config?.model_name });
-  return { text: response.choices[0]?.message?.content ?? "" };
+  return withAiUsage(
+    { text: response.choices[0]?.message?.content ?? "" },
+    getUsage(response.usage)
+  );
 };
 
 export const HFI_TextGeneration_Stream: AiProviderStreamFn<
@@ -69,11 +73,13 @@ export const HFI_TextGeneration_Stream: AiProviderStreamFn<
     { signal }
   );
 
+  let usage: AiProviderUsage | undefined;
   for await (const chunk of stream) {
+    if (chunk.usage) usage = getUsage(chunk.usage);
     const delta = chunk.choices[0]?.delta?.content ?? "";
     if (delta) {
       yield { type: "text-delta", port: "text", textDelta: delta };
     }
   }
-  yield { type: "finish", data: {} as TextGenerationTaskOutput };
+  yield { type: "finish", data: withAiUsage({} as TextGenerationTaskOutput, usage) };
 };
@@ -10,9 +10,10 @@ import type {
   TextRewriterTaskInput,
   TextRewriterTaskOutput,
 } from "@workglow/ai";
+import { type AiProviderUsage, withAiUsage } from "@workglow/ai/worker";
 import type { StreamEvent } from "@workglow/task-graph";
 import type { HfInferenceModelConfig } from "./HFI_ModelSchema";
-import { getClient, getModelName, getProvider } from "./HFI_Client";
+import { getClient, getModelName, getProvider, getUsage } from "./HFI_Client";
 
 export const HFI_TextRewriter: AiProviderRunFn<
   TextRewriterTaskInput,
@@ -37,7 +38,10 @@ export const HFI_TextRewriter: AiProviderRunFn<
   );
 
   update_progress(100, "Completed HF Inference text rewriting");
-  return { text: response.choices[0]?.message?.content ?? "" };
+  return withAiUsage(
+    { text: response.choices[0]?.message?.content ?? "" },
+    getUsage(response.usage)
+  );
 };
 
 export const HFI_TextRewriter_Stream: AiProviderStreamFn<
@@ -61,11 +65,13 @@ export const HFI_TextRewriter_Stream: AiProviderStreamFn<
     { signal }
   );
 
+  let usage: AiProviderUsage | undefined;
   for await (const chunk of stream) {
+    if (chunk.usage) usage = getUsage(chunk.usage);
     const delta = chunk.choices[0]?.delta?.content ?? "";
     if (delta) {
       yield { type: "text-delta", port: "text", textDelta: delta };
     }
   }
-  yield { type: "finish", data: {} as TextRewriterTaskOutput };
+  yield { type: "finish", data: withAiUsage({} as TextRewriterTaskOutput, usage) };
 };
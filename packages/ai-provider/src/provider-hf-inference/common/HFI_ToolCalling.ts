@@ -4,7 +4,13 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { buildToolDescription, filterValidToolCalls, toOpenAIMessages } from "@workglow/ai/worker";
+import {
+  buildToolDescription,
+  filterValidToolCalls,
+  toOpenAIMessages,
+  withAiUsage,
+  type AiProviderUsage,
+} from "@workglow/ai/worker";
 import type {
   AiProviderRunFn,
   AiProviderStreamFn,
@@ -16,7 +22,7 @@ import type {
 import type { StreamEvent } from "@workglow/task-graph";
 import { parsePartialJson } from "@workglow/util/worker";
 import type { HfInferenceModelConfig } from "./HFI_ModelSchema";
-import { getClient, getModelName, getProvider } from "./HFI_Client";
+import { getClient, getModelName, getProvider, getUsage } from "./HFI_Client";
 
 function mapHFIToolChoice(
   toolChoice: string | undefined
@@ -87,7 +93,10 @@ export const HFI_ToolCalling: AiProviderRunFn<
   });
 
   update_progress(100, "Completed HF Inference tool calling");
-  return { text, toolCalls: filterValidToolCalls(toolCalls, input.tools) };
+  return withAiUsage(
+    { text, toolCalls: filterValidToolCalls(toolCalls, input.tools) },
+    getUsage(response.usage)
+  );
 };
 
 export const HFI_ToolCalling_Stream: AiProviderStreamFn<
@@ -130,7 +139,9 @@ export const HFI_ToolCalling_Stream: AiProviderStreamFn<
   let accumulatedText = "";
   const toolCallAccumulator = new Map<number, { id: string; name: string; arguments: string }>();
 
+  let usage: AiProviderUsage | undefined;
   for await (const chunk of stream) {
+    if (chunk.usage) usage = getUsage(chunk.usage);
     const choice = chunk.choices[0];
     if (!choice) continue;
 
@@ -186,6 +197,9 @@ export const HFI_ToolCalling_Stream: AiProviderStreamFn<
   const validToolCalls = filterValidToolCalls(toolCalls, input.tools);
   yield {
     type: "finish",
-    data: { text: accumulatedText, toolCalls: validToolCalls } as ToolCallingTaskOutput,
+    data: withAiUsage(
+      { text: accumulatedText, toolCalls: validToolCalls } as ToolCallingTaskOutput,
+      usage
+    ),
   };
 };
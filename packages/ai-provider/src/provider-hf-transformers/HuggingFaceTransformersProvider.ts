@@ -52,6 +52,8 @@ export class HuggingFaceTransformersProvider extends AiProvider<HfTransformersOn
     "ImageEmbeddingTask",
     "ImageClassificationTask",
     "ObjectDetectionTask",
+    "AutomaticSpeechRecognitionTask",
+    "TextToSpeechTask",
     "ToolCallingTask",
     "StructuredGenerationTask",
     "ModelSearchTask",
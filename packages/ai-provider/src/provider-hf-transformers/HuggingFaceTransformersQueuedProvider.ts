@@ -94,6 +94,8 @@ export class HuggingFaceTransformersQueuedProvider extends QueuedAiProvider<HfTr
     "ImageEmbeddingTask",
     "ImageClassificationTask",
     "ObjectDetectionTask",
+    "AutomaticSpeechRecognitionTask",
+    "TextToSpeechTask",
     "ToolCallingTask",
     "StructuredGenerationTask",
     "ModelSearchTask",
@@ -0,0 +1,143 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  AutomaticSpeechRecognitionOutput,
+  AutomaticSpeechRecognitionPipeline,
+} from "@huggingface/transformers";
+import type {
+  AiProviderRunFn,
+  AiProviderStreamFn,
+  AutomaticSpeechRecognitionTaskInput,
+  AutomaticSpeechRecognitionTaskOutput,
+} from "@workglow/ai";
+import type { StreamEvent } from "@workglow/task-graph";
+import type { AudioBinary } from "@workglow/util/media";
+import {
+  audioDuration,
+  audioToMono,
+  resampleAudio,
+  wavDataUriToAudioBinary,
+} from "@workglow/util/media";
+import type { HfTransformersOnnxModelConfig } from "./HFT_ModelSchema";
+import { getPipeline, loadTransformersSDK } from "./HFT_Pipeline";
+import { createStreamEventQueue } from "./HFT_Streaming";
+
+/** Whisper-style models see 30 second windows; longer audio is chunked */
+const WINDOW_SECONDS = 30;
+
+/**
+ * Converts the task's audio to the mono Float32 samples at the feature
+ * extractor's sampling rate that the pipeline expects.
+ */
+function toPipelineAudio(
+  recognizer: AutomaticSpeechRecognitionPipeline,
+  audio: AutomaticSpeechRecognitionTaskInput["audio"]
+): { samples: Float32Array; seconds: number } {
+  const binary =
+    typeof audio === "string" ? wavDataUriToAudioBinary(audio) : (audio as unknown as AudioBinary);
+  const samplingRate: number =
+    (recognizer as any).processor?.feature_extractor?.config?.sampling_rate ?? 16000;
+  const mono = resampleAudio(audioToMono(binary), samplingRate);
+  return { samples: mono.data, seconds: audioDuration(mono) };
+}
+
+function buildOptions(input: AutomaticSpeechRecognitionTaskInput, seconds: number) {
+  return {
+    return_timestamps: input.returnTimestamps ?? true,
+    ...(input.language ? { language: input.language } : {}),
+    ...(seconds > WINDOW_SECONDS ? { chunk_length_s: WINDOW_SECONDS } : {}),
+  };
+}
+
+function toTaskOutput(
+  result: AutomaticSpeechRecognitionOutput | AutomaticSpeechRecognitionOutput[]
+): AutomaticSpeechRecognitionTaskOutput {
+  const output = Array.isArray(result) ? result[0] : result;
+  const text = (output?.text ?? "").trim();
+  if (!output?.chunks) return { text };
+  return {
+    text,
+    segments: output.chunks.map((chunk) => ({
+      text: chunk.text.trim(),
+      start: chunk.timestamp[0] ?? 0,
+      // The last chunk of a cut-off window may have no end time
+      end: chunk.timestamp[1] ?? chunk.timestamp[0] ?? 0,
+    })),
+  };
+}
+
+/**
+ * Core implementation for speech recognition using Hugging Face Transformers
+ * (Whisper and other automatic-speech-recognition pipelines).
+ */
+export const HFT_AutomaticSpeechRecognition: AiProviderRunFn<
+  AutomaticSpeechRecognitionTaskInput,
+  AutomaticSpeechRecognitionTaskOutput,
+  HfTransformersOnnxModelConfig
+> = async (input, model, onProgress, signal) => {
+  const recognizer: AutomaticSpeechRecognitionPipeline = await getPipeline(
+    model!,
+    onProgress,
+    {},
+    signal
+  );
+  const { samples, seconds } = toPipelineAudio(recognizer, input.audio);
+  const result = await recognizer(samples, buildOptions(input, seconds));
+  return toTaskOutput(result);
+};
+
+/**
+ * Streams the transcript as it is decoded; the segments come with the finish event.
+ */
+export const HFT_AutomaticSpeechRecognition_Stream: AiProviderStreamFn<
+  AutomaticSpeechRecognitionTaskInput,
+  AutomaticSpeechRecognitionTaskOutput,
+  HfTransformersOnnxModelConfig
+> = async function* (
+  input,
+  model,
+  signal
+): AsyncIterable<StreamEvent<AutomaticSpeechRecognitionTaskOutput>> {
+  const noopProgress = () => {};
+  const recognizer: AutomaticSpeechRecognitionPipeline = await getPipeline(
+    model!,
+    noopProgress,
+    {},
+    signal
+  );
+  const { WhisperTextStreamer, InterruptableStoppingCriteria } = await loadTransformersSDK();
+  const { samples, seconds } = toPipelineAudio(recognizer, input.audio);
+
+  const queue = createStreamEventQueue<StreamEvent<AutomaticSpeechRecognitionTaskOutput>>();
+  const streamer = new WhisperTextStreamer(recognizer.tokenizer as any, {
+    callback_function: (text: string) => {
+      queue.push({ type: "text-delta", port: "text", textDelta: text });
+    },
+  });
+  const stopping_criteria = new InterruptableStoppingCriteria();
+  if (signal) {
+    signal.addEventListener("abort", () => stopping_criteria.interrupt(), { once: true });
+  }
+
+  let result: AutomaticSpeechRecognitionOutput | AutomaticSpeechRecognitionOutput[] | undefined;
+  const pipelinePromise = recognizer(samples, {
+    ...buildOptions(input, seconds),
+    streamer,
+    stopping_criteria: [stopping_criteria],
+  } as any).then(
+    (output) => {
+      result = output;
+      queue.done();
+    },
+    (err: Error) => queue.error(err)
+  );
+
+  yield* queue.iterable;
+  await pipelinePromise;
+  // The finish event adds the segments to the streamed text
+  yield { type: "finish", data: toTaskOutput(result ?? { text: "" }) };
+};
@@ -8,6 +8,10 @@ import type { AiProviderPreviewRunFn, AiProviderRunFn, AiProviderStreamFn } from
 import type { HfTransformersOnnxModelConfig } from "./HFT_ModelSchema";
 import { HFT_ModelSearch } from "./HFT_ModelSearch";
 
+import {
+  HFT_AutomaticSpeechRecognition,
+  HFT_AutomaticSpeechRecognition_Stream,
+} from "./HFT_AutomaticSpeechRecognition";
 import { HFT_BackgroundRemoval } from "./HFT_BackgroundRemoval";
 import { HFT_Chat, HFT_Chat_Stream } from "./HFT_Chat";
 import { HFT_CountTokens, HFT_CountTokens_Preview } from "./HFT_CountTokens";
@@ -31,6 +35,7 @@ import { HFT_TextNamedEntityRecognition } from "./HFT_TextNamedEntityRecognition
 import { HFT_TextQuestionAnswer, HFT_TextQuestionAnswer_Stream } from "./HFT_TextQuestionAnswer";
 import { HFT_TextRewriter, HFT_TextRewriter_Stream } from "./HFT_TextRewriter";
 import { HFT_TextSummary, HFT_TextSummary_Stream } from "./HFT_TextSummary";
+import { HFT_TextToSpeech } from "./HFT_TextToSpeech";
 import { HFT_TextTranslation, HFT_TextTranslation_Stream } from "./HFT_TextTranslation";
 import { HFT_ToolCalling, HFT_ToolCalling_Stream } from "./HFT_ToolCalling";
 import { HFT_Unload } from "./HFT_Unload";
@@ -62,6 +67,8 @@ export const HFT_TASKS: Record<string, AiProviderRunFn<any, any, HfTransformersO
   ImageEmbeddingTask: HFT_ImageEmbedding,
   ImageClassificationTask: HFT_ImageClassification,
   ObjectDetectionTask: HFT_ObjectDetection,
+  AutomaticSpeechRecognitionTask: HFT_AutomaticSpeechRecognition,
+  TextToSpeechTask: HFT_TextToSpeech,
   ToolCallingTask: HFT_ToolCalling,
   StructuredGenerationTask: HFT_StructuredGeneration,
   ModelSearchTask: HFT_ModelSearch,
@@ -80,6 +87,7 @@ export const HFT_STREAM_TASKS: Record<
   TextSummaryTask: HFT_TextSummary_Stream,
   TextQuestionAnswerTask: HFT_TextQuestionAnswer_Stream,
   TextTranslationTask: HFT_TextTranslation_Stream,
+  AutomaticSpeechRecognitionTask: HFT_AutomaticSpeechRecognition_Stream,
   ToolCallingTask: HFT_ToolCalling_Stream,
   StructuredGenerationTask: HFT_StructuredGeneration_Stream,
 };
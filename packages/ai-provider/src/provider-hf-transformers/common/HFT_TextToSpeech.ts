@@ -0,0 +1,31 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { RawAudio, TextToAudioPipeline } from "@huggingface/transformers";
+import type { AiProviderRunFn, TextToSpeechTaskInput, TextToSpeechTaskOutput } from "@workglow/ai";
+import type { HfTransformersOnnxModelConfig } from "./HFT_ModelSchema";
+import { getPipeline } from "./HFT_Pipeline";
+
+/**
+ * Core implementation for text to speech using Hugging Face Transformers.
+ * The voice is passed as the speaker embeddings (a URL to an embeddings file)
+ * for models such as SpeechT5 that need them.
+ */
+export const HFT_TextToSpeech: AiProviderRunFn<
+  TextToSpeechTaskInput,
+  TextToSpeechTaskOutput,
+  HfTransformersOnnxModelConfig
+> = async (input, model, onProgress, signal) => {
+  const synthesizer: TextToAudioPipeline = await getPipeline(model!, onProgress, {}, signal);
+  const result = (await synthesizer(input.text, {
+    ...(input.voice ? { speaker_embeddings: input.voice } : {}),
+    ...(input.speed !== undefined ? { speed: input.speed } : {}),
+  })) as RawAudio;
+
+  return {
+    audio: { data: result.data, sampleRate: result.sampling_rate, channels: 1 },
+  };
+};
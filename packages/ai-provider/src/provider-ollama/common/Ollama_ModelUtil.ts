@@ -4,6 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import type { AiProviderUsage } from "@workglow/ai/worker";
 import type { OllamaModelConfig } from "./Ollama_ModelSchema";
 
 export function getOllamaModelName(model: OllamaModelConfig | undefined): string {
@@ -13,3 +14,14 @@ export function getOllamaModelName(model: OllamaModelConfig | undefined): string
   }
   return name;
 }
+
+/** Token counts of a response, or of the final (`done`) chunk of a stream */
+export function getOllamaUsage(response: any): AiProviderUsage | undefined {
+  if (response?.prompt_eval_count === undefined && response?.eval_count === undefined) {
+    return undefined;
+  }
+  return {
+    inputTokens: response.prompt_eval_count,
+    outputTokens: response.eval_count,
+  };
+}
@@ -9,8 +9,9 @@ import type {
   TextEmbeddingTaskInput,
   TextEmbeddingTaskOutput,
 } from "@workglow/ai";
+import { withAiUsage } from "@workglow/ai/worker";
 import type { OllamaModelConfig } from "./Ollama_ModelSchema";
-import { getOllamaModelName } from "./Ollama_ModelUtil";
+import { getOllamaModelName, getOllamaUsage } from "./Ollama_ModelUtil";
 
 type GetClient = (model: OllamaModelConfig | undefined) => Promise<any>;
 
@@ -32,10 +33,14 @@ export function createOllamaTextEmbedding(
     update_progress(100, "Completed Ollama text embedding");
 
     if (Array.isArray(input.text)) {
-      return {
-        vector: response.embeddings.map((e: number[]) => new Float32Array(e)),
-      };
+      return withAiUsage(
+        { vector: response.embeddings.map((e: number[]) => new Float32Array(e)) },
+        getOllamaUsage(response)
+      );
     }
-    return { vector: new Float32Array(response.embeddings[0]) };
+    return withAiUsage(
+      { vector: new Float32Array(response.embeddings[0]) },
+      getOllamaUsage(response)
+    );
   };
 }
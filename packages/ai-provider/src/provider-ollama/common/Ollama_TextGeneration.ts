@@ -10,9 +10,10 @@ import type {
   TextGenerationTaskInput,
   TextGenerationTaskOutput,
 } from "@workglow/ai";
+import { type AiProviderUsage, withAiUsage } from "@workglow/ai/worker";
 import type { StreamEvent } from "@workglow/task-graph";
 import type { OllamaModelConfig } from "./Ollama_ModelSchema";
-import { getOllamaModelName } from "./Ollama_ModelUtil";
+import { getOllamaModelName, getOllamaUsage } from "./Ollama_ModelUtil";
 
 type GetClient = (model: OllamaModelConfig | undefined) => Promise<any>;
 
@@ -41,7 +42,7 @@ export function createOllamaTextGeneration(
     });
 
     update_progress(100, "Completed Ollama text generation");
-    return { text: response.message.content };
+    return withAiUsage({ text: response.message.content }, getOllamaUsage(response));
   };
   return run;
 }
@@ -72,14 +73,16 @@ export function createOllamaTextGenerationStream(
 
     const onAbort = () => stream.abort();
     signal.addEventListener("abort", onAbort, { once: true });
+    let usage: AiProviderUsage | undefined;
     try {
       for await (const chunk of stream) {
+        if (chunk.done) usage = getOllamaUsage(chunk);
         const delta = chunk.message.content;
         if (delta) {
           yield { type: "text-delta", port: "text", textDelta: delta };
         }
       }
-      yield { type: "finish", data: {} as TextGenerationTaskOutput };
+      yield { type: "finish", data: withAiUsage({} as TextGenerationTaskOutput, usage) };
     } finally {
       signal.removeEventListener("abort", onAbort);
     }
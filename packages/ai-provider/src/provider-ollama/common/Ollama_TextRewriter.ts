@@ -10,9 +10,10 @@ import type {
   TextRewriterTaskInput,
   TextRewriterTaskOutput,
 } from "@workglow/ai";
+import { type AiProviderUsage, withAiUsage } from "@workglow/ai/worker";
 import type { StreamEvent } from "@workglow/task-graph";
 import type { OllamaModelConfig } from "./Ollama_ModelSchema";
-import { getOllamaModelName } from "./Ollama_ModelUtil";
+import { getOllamaModelName, getOllamaUsage } from "./Ollama_ModelUtil";
 
 type GetClient = (model: OllamaModelConfig | undefined) => Promise<any>;
 
@@ -37,7 +38,7 @@ export function createOllamaTextRewriter(
     });
 
     update_progress(100, "Completed Ollama text rewriting");
-    return { text: response.message.content };
+    return withAiUsage({ text: response.message.content }, getOllamaUsage(response));
   };
   return run;
 }
@@ -64,14 +65,16 @@ export function createOllamaTextRewriterStream(
 
     const onAbort = () => stream.abort();
     signal.addEventListener("abort", onAbort, { once: true });
+    let usage: AiProviderUsage | undefined;
     try {
       for await (const chunk of stream) {
+        if (chunk.done) usage = getOllamaUsage(chunk);
         const delta = chunk.message.content;
         if (delta) {
           yield { type: "text-delta", port: "text", textDelta: delta };
         }
       }
-      yield { type: "finish", data: {} as TextRewriterTaskOutput };
+      yield { type: "finish", data: withAiUsage({} as TextRewriterTaskOutput, usage) };
     } finally {
       signal.removeEventListener("abort", onAbort);
     }
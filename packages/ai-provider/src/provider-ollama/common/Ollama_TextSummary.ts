@@ -10,9 +10,10 @@ import type {
   TextSummaryTaskInput,
   TextSummaryTaskOutput,
 } from "@workglow/ai";
+import { type AiProviderUsage, withAiUsage } from "@workglow/ai/worker";
 import type { StreamEvent } from "@workglow/task-graph";
 import type { OllamaModelConfig } from "./Ollama_ModelSchema";
-import { getOllamaModelName } from "./Ollama_ModelUtil";
+import { getOllamaModelName, getOllamaUsage } from "./Ollama_ModelUtil";
 
 type GetClient = (model: OllamaModelConfig | undefined) => Promise<any>;
 
@@ -37,7 +38,7 @@ export function createOllamaTextSummary(
     });
 
     update_progress(100, "Completed Ollama text summarization");
-    return { text: response.message.content };
+    return withAiUsage({ text: response.message.content }, getOllamaUsage(response));
   };
   return run;
 }
@@ -60,14 +61,16 @@ export function createOllamaTextSummaryStream(
 
     const onAbort = () => stream.abort();
     signal.addEventListener("abort", onAbort, { once: true });
+    let usage: AiProviderUsage | undefined;
     try {
       for await (const chunk of stream) {
+        if (chunk.done) usage = getOllamaUsage(chunk);
         const delta = chunk.message.content;
         if (delta) {
           yield { type: "text-delta", port: "text", textDelta: delta };
         }
       }
-      yield { type: "finish", data: {} as TextSummaryTaskOutput };
+      yield { type: "finish", data: withAiUsage({} as TextSummaryTaskOutput, usage) };
     } finally {
       signal.removeEventListener("abort", onAbort);
     }
@@ -4,7 +4,12 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { buildToolDescription, filterValidToolCalls } from "@workglow/ai/worker";
+import {
+  buildToolDescription,
+  filterValidToolCalls,
+  withAiUsage,
+  type AiProviderUsage,
+} from "@workglow/ai/worker";
 import type {
   AiProviderRunFn,
   AiProviderStreamFn,
@@ -16,7 +21,7 @@ import type {
 import type { StreamEvent } from "@workglow/task-graph";
 import { parsePartialJson } from "@workglow/util/worker";
 import type { OllamaModelConfig } from "./Ollama_ModelSchema";
-import { getOllamaModelName } from "./Ollama_ModelUtil";
+import { getOllamaModelName, getOllamaUsage } from "./Ollama_ModelUtil";
 
 type GetClient = (model: OllamaModelConfig | undefined) => Promise<any>;
 
@@ -82,7 +87,10 @@ export function createOllamaToolCalling(
     });
 
     update_progress(100, "Completed Ollama tool calling");
-    return { text, toolCalls: filterValidToolCalls(toolCalls, input.tools) };
+    return withAiUsage(
+      { text, toolCalls: filterValidToolCalls(toolCalls, input.tools) },
+      getOllamaUsage(response)
+    );
   };
   return run;
 }
@@ -117,8 +125,10 @@ export function createOllamaToolCallingStream(
     const toolCalls: ToolCalls = [];
     let callIndex = 0;
 
+    let usage: AiProviderUsage | undefined;
     try {
       for await (const chunk of stream) {
+        if (chunk.done) usage = getOllamaUsage(chunk);
         const delta = chunk.message.content;
         if (delta) {
           accumulatedText += delta;
@@ -150,7 +160,10 @@ export function createOllamaToolCallingStream(
       const validToolCalls = filterValidToolCalls(toolCalls, input.tools);
       yield {
         type: "finish",
-        data: { text: accumulatedText, toolCalls: validToolCalls } as ToolCallingTaskOutput,
+        data: withAiUsage(
+          { text: accumulatedText, toolCalls: validToolCalls } as ToolCallingTaskOutput,
+          usage
+        ),
       };
     } finally {
       signal.removeEventListener("abort", onAbort);
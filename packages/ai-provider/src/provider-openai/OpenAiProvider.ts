@@ -16,7 +16,8 @@ import type { OpenAiModelConfig } from "./common/OpenAI_ModelSchema";
 /**
  * AI provider for OpenAI cloud models.
  *
- * Supports text generation, text embedding, text rewriting, and text summarization
+ * Supports text generation, text embedding, text rewriting, text summarization,
+ * speech recognition and text to speech
  * via the OpenAI API using the `openai` SDK.
  *
  * Task run functions are injected via the constructor so that the `openai` SDK
@@ -38,6 +39,8 @@ export class OpenAiProvider extends AiProvider<OpenAiModelConfig> {
     "ModelInfoTask",
     "StructuredGenerationTask",
     "ToolCallingTask",
+    "AutomaticSpeechRecognitionTask",
+    "TextToSpeechTask",
     "ModelSearchTask",
   ] as const;
 
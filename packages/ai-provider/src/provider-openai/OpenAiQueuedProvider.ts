@@ -25,6 +25,8 @@ export class OpenAiQueuedProvider extends AiProvider<OpenAiModelConfig> {
     "ModelInfoTask",
     "StructuredGenerationTask",
     "ToolCallingTask",
+    "AutomaticSpeechRecognitionTask",
+    "TextToSpeechTask",
     "ModelSearchTask",
   ] as const;
 
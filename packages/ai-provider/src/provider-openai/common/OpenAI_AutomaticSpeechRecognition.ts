@@ -0,0 +1,139 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  AiProviderRunFn,
+  AiProviderStreamFn,
+  AutomaticSpeechRecognitionTaskInput,
+  AutomaticSpeechRecognitionTaskOutput,
+} from "@workglow/ai";
+import { type AiProviderUsage, withAiUsage } from "@workglow/ai/worker";
+import type { StreamEvent } from "@workglow/task-graph";
+import type { AudioBinary } from "@workglow/util/media";
+import { encodeWav, parseDataUri } from "@workglow/util/media";
+import type { OpenAiModelConfig } from "./OpenAI_ModelSchema";
+import { getClient, getModelName } from "./OpenAI_Client";
+
+/** File extensions the API recognizes, by MIME type */
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  "audio/wav": "wav",
+  "audio/x-wav": "wav",
+  "audio/wave": "wav",
+  "audio/mpeg": "mp3",
+  "audio/mp3": "mp3",
+  "audio/mp4": "m4a",
+  "audio/x-m4a": "m4a",
+  "audio/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/flac": "flac",
+};
+
+/**
+ * Wraps the task's audio as an upload: data URIs keep their own encoding,
+ * raw PCM is sent as 16-bit WAV.
+ */
+function toAudioFile(audio: AutomaticSpeechRecognitionTaskInput["audio"]): File {
+  if (typeof audio === "string") {
+    const { mimeType, base64 } = parseDataUri(audio);
+    const decoded = atob(base64);
+    const bytes = new Uint8Array(decoded.length);
+    for (let i = 0; i < decoded.length; i++) bytes[i] = decoded.charCodeAt(i);
+    return new File([bytes], `audio.${AUDIO_EXTENSIONS[mimeType] ?? "wav"}`, { type: mimeType });
+  }
+  const bytes = encodeWav(audio as unknown as AudioBinary);
+  return new File([bytes.buffer as ArrayBuffer], "audio.wav", { type: "audio/wav" });
+}
+
+/** Only the whisper models return timed segments (`verbose_json`) */
+function supportsSegments(modelName: string): boolean {
+  return modelName.startsWith("whisper");
+}
+
+/** Transcription usage is reported in tokens by the gpt-4o models, in seconds by whisper */
+function getTranscriptionUsage(usage: any): AiProviderUsage | undefined {
+  if (usage?.type !== "tokens") return undefined;
+  return { inputTokens: usage.input_tokens, outputTokens: usage.output_tokens };
+}
+
+export const OpenAI_AutomaticSpeechRecognition: AiProviderRunFn<
+  AutomaticSpeechRecognitionTaskInput,
+  AutomaticSpeechRecognitionTaskOutput,
+  OpenAiModelConfig
+> = async (input, model, update_progress, signal) => {
+  update_progress(0, "Starting OpenAI speech recognition");
+  const client = await getClient(model);
+  const modelName = getModelName(model);
+  const withSegments = (input.returnTimestamps ?? true) && supportsSegments(modelName);
+
+  const response: any = await client.audio.transcriptions.create(
+    {
+      model: modelName,
+      file: toAudioFile(input.audio),
+      ...(input.language ? { language: input.language } : {}),
+      ...(withSegments
+        ? { response_format: "verbose_json", timestamp_granularities: ["segment"] }
+        : { response_format: "json" }),
+    },
+    { signal }
+  );
+
+  update_progress(100, "Completed OpenAI speech recognition");
+  const output: AutomaticSpeechRecognitionTaskOutput = { text: (response.text ?? "").trim() };
+  if (withSegments && Array.isArray(response.segments)) {
+    output.segments = response.segments.map(
+      (segment: { text: string; start: number; end: number }) => ({
+        text: segment.text.trim(),
+        start: segment.start,
+        end: segment.end,
+      })
+    );
+  }
+  return withAiUsage(output, getTranscriptionUsage(response.usage));
+};
+
+/**
+ * Streams the transcript with the gpt-4o transcription models. The whisper
+ * models cannot stream, so their transcript (with segments) arrives at once.
+ */
+export const OpenAI_AutomaticSpeechRecognition_Stream: AiProviderStreamFn<
+  AutomaticSpeechRecognitionTaskInput,
+  AutomaticSpeechRecognitionTaskOutput,
+  OpenAiModelConfig
+> = async function* (
+  input,
+  model,
+  signal
+): AsyncIterable<StreamEvent<AutomaticSpeechRecognitionTaskOutput>> {
+  const modelName = getModelName(model);
+  if (supportsSegments(modelName)) {
+    const output = await OpenAI_AutomaticSpeechRecognition(input, model, () => {}, signal);
+    yield { type: "text-delta", port: "text", textDelta: output.text };
+    yield { type: "finish", data: output };
+    return;
+  }
+
+  const client = await getClient(model);
+  const stream = await client.audio.transcriptions.create(
+    {
+      model: modelName,
+      file: toAudioFile(input.audio),
+      ...(input.language ? { language: input.language } : {}),
+      response_format: "json",
+      stream: true,
+    },
+    { signal }
+  );
+
+  let usage: AiProviderUsage | undefined;
+  for await (const event of stream) {
+    if (event.type === "transcript.text.delta" && event.delta) {
+      yield { type: "text-delta", port: "text", textDelta: event.delta };
+    } else if (event.type === "transcript.text.done") {
+      usage = getTranscriptionUsage(event.usage);
+    }
+  }
+  yield { type: "finish", data: withAiUsage({} as AutomaticSpeechRecognitionTaskOutput, usage) };
+};
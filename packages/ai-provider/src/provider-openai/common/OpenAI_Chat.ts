@@ -10,9 +10,9 @@ import type {
   AiProviderRunFn,
   AiProviderStreamFn,
 } from "@workglow/ai";
-import { toOpenAIMessages } from "@workglow/ai/worker";
+import { toOpenAIMessages, withAiUsage, type AiProviderUsage } from "@workglow/ai/worker";
 import type { StreamEvent } from "@workglow/task-graph";
-import { getClient, getModelName } from "./OpenAI_Client";
+import { getClient, getModelName, getUsage } from "./OpenAI_Client";
 import type { OpenAiModelConfig } from "./OpenAI_ModelSchema";
 
 function buildParams(
@@ -48,7 +48,7 @@ export const OpenAI_Chat: AiProviderRunFn<
   });
   const text = (response as any).choices?.[0]?.message?.content ?? "";
   update_progress(100, "Turn complete");
-  return { text };
+  return withAiUsage({ text }, getUsage((response as any).usage));
 };
 
 export const OpenAI_Chat_Stream: AiProviderStreamFn<
@@ -58,12 +58,14 @@ export const OpenAI_Chat_Stream: AiProviderStreamFn<
 > = async function* (input, model, signal): AsyncIterable<StreamEvent<AiChatProviderOutput>> {
   const client = await getClient(model);
   const stream = await client.chat.completions.create(
-    { ...buildParams(input, model), stream: true } as any,
+    { ...buildParams(input, model), stream: true, stream_options: { include_usage: true } } as any,
     { signal }
   );
+  let usage: AiProviderUsage | undefined;
   for await (const chunk of stream as any) {
+    if (chunk.usage) usage = getUsage(chunk.usage);
     const delta = (chunk as any).choices?.[0]?.delta?.content as string | undefined;
     if (delta) yield { type: "text-delta", port: "text", textDelta: delta };
   }
-  yield { type: "finish", data: {} as AiChatProviderOutput };
+  yield { type: "finish", data: withAiUsage({} as AiChatProviderOutput, usage) };
 };
@@ -4,6 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import type { AiProviderUsage } from "@workglow/ai/worker";
 import type { OpenAiModelConfig } from "./OpenAI_ModelSchema";
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -63,3 +64,16 @@ export function getModelName(model: OpenAiModelConfig | undefined): string {
   }
   return name;
 }
+
+/**
+ * Token counts of a completion, or of the final chunk of a stream created with
+ * `stream_options: { include_usage: true }`
+ */
+export function getUsage(usage: any): AiProviderUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    inputTokens: usage.prompt_tokens,
+    outputTokens: usage.completion_tokens,
+    cachedInputTokens: usage.prompt_tokens_details?.cached_tokens,
+  };
+}
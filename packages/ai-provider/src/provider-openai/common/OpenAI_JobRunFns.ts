@@ -10,6 +10,10 @@ import { OpenAI_ModelSearch } from "./OpenAI_ModelSearch";
 
 export { loadOpenAISDK, getClient, getModelName } from "./OpenAI_Client";
 
+import {
+  OpenAI_AutomaticSpeechRecognition,
+  OpenAI_AutomaticSpeechRecognition_Stream,
+} from "./OpenAI_AutomaticSpeechRecognition";
 import { OpenAI_Chat, OpenAI_Chat_Stream } from "./OpenAI_Chat";
 import { OpenAI_CountTokens, OpenAI_CountTokens_Preview } from "./OpenAI_CountTokens";
 import { OpenAI_ModelInfo } from "./OpenAI_ModelInfo";
@@ -21,6 +25,7 @@ import { OpenAI_TextEmbedding } from "./OpenAI_TextEmbedding";
 import { OpenAI_TextGeneration, OpenAI_TextGeneration_Stream } from "./OpenAI_TextGeneration";
 import { OpenAI_TextRewriter, OpenAI_TextRewriter_Stream } from "./OpenAI_TextRewriter";
 import { OpenAI_TextSummary, OpenAI_TextSummary_Stream } from "./OpenAI_TextSummary";
+import { OpenAI_TextToSpeech } from "./OpenAI_TextToSpeech";
 import { OpenAI_ToolCalling, OpenAI_ToolCalling_Stream } from "./OpenAI_ToolCalling";
 
 export const OPENAI_TASKS: Record<string, AiProviderRunFn<any, any, OpenAiModelConfig>> = {
@@ -33,6 +38,8 @@ export const OPENAI_TASKS: Record<string, AiProviderRunFn<any, any, OpenAiModelC
   CountTokensTask: OpenAI_CountTokens,
   StructuredGenerationTask: OpenAI_StructuredGeneration,
   ToolCallingTask: OpenAI_ToolCalling,
+  AutomaticSpeechRecognitionTask: OpenAI_AutomaticSpeechRecognition,
+  TextToSpeechTask: OpenAI_TextToSpeech,
   ModelSearchTask: OpenAI_ModelSearch,
 };
 
@@ -46,6 +53,7 @@ export const OPENAI_STREAM_TASKS: Record<
   TextSummaryTask: OpenAI_TextSummary_Stream,
   StructuredGenerationTask: OpenAI_StructuredGeneration_Stream,
   ToolCallingTask: OpenAI_ToolCalling_Stream,
+  AutomaticSpeechRecognitionTask: OpenAI_AutomaticSpeechRecognition_Stream,
 };
 
 export const OPENAI_PREVIEW_TASKS: Record<
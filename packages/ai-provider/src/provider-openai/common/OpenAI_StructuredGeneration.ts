@@ -10,10 +10,11 @@ import type {
   StructuredGenerationTaskInput,
   StructuredGenerationTaskOutput,
 } from "@workglow/ai";
+import { type AiProviderUsage, withAiUsage } from "@workglow/ai/worker";
 import type { StreamEvent } from "@workglow/task-graph";
 import { parsePartialJson } from "@workglow/util/worker";
 import type { OpenAiModelConfig } from "./OpenAI_ModelSchema";
-import { getClient, getModelName } from "./OpenAI_Client";
+import { getClient, getModelName, getUsage } from "./OpenAI_Client";
 
 export const OpenAI_StructuredGeneration: AiProviderRunFn<
   StructuredGenerationTaskInput,
@@ -46,7 +47,7 @@ export const OpenAI_StructuredGeneration: AiProviderRunFn<
 
   const content = response.choices[0]?.message?.content ?? "{}";
   update_progress(100, "Completed OpenAI structured generation");
-  return { object: JSON.parse(content) };
+  return withAiUsage({ object: JSON.parse(content) }, getUsage(response.usage));
 };
 
 export const OpenAI_StructuredGeneration_Stream: AiProviderStreamFn<
@@ -79,12 +80,15 @@ export const OpenAI_StructuredGeneration_Stream: AiProviderStreamFn<
       max_completion_tokens: input.maxTokens,
       temperature: input.temperature,
       stream: true,
+      stream_options: { include_usage: true },
     },
     { signal }
   );
 
   let accumulatedJson = "";
+  let usage: AiProviderUsage | undefined;
   for await (const chunk of stream) {
+    if (chunk.usage) usage = getUsage(chunk.usage);
     const delta = chunk.choices[0]?.delta?.content ?? "";
     if (delta) {
       accumulatedJson += delta;
@@ -101,5 +105,8 @@ export const OpenAI_StructuredGeneration_Stream: AiProviderStreamFn<
   } catch {
     finalObject = parsePartialJson(accumulatedJson) ?? {};
   }
-  yield { type: "finish", data: { object: finalObject } as StructuredGenerationTaskOutput };
+  yield {
+    type: "finish",
+    data: withAiUsage({ object: finalObject } as StructuredGenerationTaskOutput, usage),
+  };
 };
@@ -9,9 +9,10 @@ import type {
   TextEmbeddingTaskInput,
   TextEmbeddingTaskOutput,
 } from "@workglow/ai";
+import { withAiUsage } from "@workglow/ai/worker";
 import { getLogger } from "@workglow/util/worker";
 import type { OpenAiModelConfig } from "./OpenAI_ModelSchema";
-import { getClient, getModelName } from "./OpenAI_Client";
+import { getClient, getModelName, getUsage } from "./OpenAI_Client";
 
 export const OpenAI_TextEmbedding: AiProviderRunFn<
   TextEmbeddingTaskInput,
@@ -38,11 +39,17 @@ export const OpenAI_TextEmbedding: AiProviderRunFn<
   logger.timeEnd(timerLabel, { model: model?.provider_config?.model_name });
 
   if (Array.isArray(input.text)) {
-    return {
-      vector: response.data.map(
-        (item: { embedding: number[] }) => new Float32Array(item.embedding)
-      ),
-    };
+    return withAiUsage(
+      {
+        vector: response.data.map(
+          (item: { embedding: number[] }) => new Float32Array(item.embedding)
+        ),
+      },
+      getUsage(response.usage)
+    );
   }
-  return { vector: new Float32Array(response.data[0].embedding) };
+  return withAiUsage(
+    { vector: new Float32Array(response.data[0].embedding) },
+    getUsage(response.usage)
+  );
 };
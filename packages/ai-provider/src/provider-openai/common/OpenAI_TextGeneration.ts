@@ -10,10 +10,11 @@ import type {
   TextGenerationTaskInput,
   TextGenerationTaskOutput,
 } from "@workglow/ai";
+import { type AiProviderUsage, withAiUsage } from "@workglow/ai/worker";
 import type { StreamEvent } from "@workglow/task-graph";
 import { getLogger } from "@workglow/util/worker";
 import type { OpenAiModelConfig } from "./OpenAI_ModelSchema";
-import { getClient, getModelName } from "./OpenAI_Client";
+import { getClient, getModelName, getUsage } from "./OpenAI_Client";
 
 export const OpenAI_TextGeneration: AiProviderRunFn<
   TextGenerationTaskInput,
@@ -43,7 +44,10 @@ export const OpenAI_TextGeneration: AiProviderRunFn<
 
   update_progress(100, "Completed OpenAI text generation");
   logger.timeEnd(timerLabel, { model: model?.provider_config?.model_name });
-  return { text: response.choices[0]?.message?.content ?? "" };
+  return withAiUsage(
+    { text: response.choices[0]?.message?.content ?? "" },
+    getUsage(response.usage)
+  );
 };
 
 export const OpenAI_TextGeneration_Stream: AiProviderStreamFn<
@@ -64,15 +68,18 @@ export const OpenAI_TextGeneration_Stream: AiProviderStreamFn<
       frequency_penalty: input.frequencyPenalty,
       presence_penalty: input.presencePenalty,
       stream: true,
+      stream_options: { include_usage: true },
     },
     { signal }
   );
 
+  let usage: AiProviderUsage | undefined;
   for await (const chunk of stream) {
+    if (chunk.usage) usage = getUsage(chunk.usage);
     const delta = chunk.choices[0]?.delta?.content ?? "";
     if (delta) {
       yield { type: "text-delta", port: "text", textDelta: delta };
     }
   }
-  yield { type: "finish", data: {} as TextGenerationTaskOutput };
+  yield { type: "finish", data: withAiUsage({} as TextGenerationTaskOutput, usage) };
 };
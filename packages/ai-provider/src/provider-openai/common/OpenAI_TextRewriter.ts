@@ -10,9 +10,10 @@ import type {
   TextRewriterTaskInput,
   TextRewriterTaskOutput,
 } from "@workglow/ai";
+import { type AiProviderUsage, withAiUsage } from "@workglow/ai/worker";
 import type { StreamEvent } from "@workglow/task-graph";
 import type { OpenAiModelConfig } from "./OpenAI_ModelSchema";
-import { getClient, getModelName } from "./OpenAI_Client";
+import { getClient, getModelName, getUsage } from "./OpenAI_Client";
 
 export const OpenAI_TextRewriter: AiProviderRunFn<
   TextRewriterTaskInput,
@@ -35,7 +36,10 @@ export const OpenAI_TextRewriter: AiProviderRunFn<
   );
 
   update_progress(100, "Completed OpenAI text rewriting");
-  return { text: response.choices[0]?.message?.content ?? "" };
+  return withAiUsage(
+    { text: response.choices[0]?.message?.content ?? "" },
+    getUsage(response.usage)
+  );
 };
 
 export const OpenAI_TextRewriter_Stream: AiProviderStreamFn<
@@ -54,15 +58,18 @@ export const OpenAI_TextRewriter_Stream: AiProviderStreamFn<
         { role: "user", content: input.text },
       ],
       stream: true,
+      stream_options: { include_usage: true },
     },
     { signal }
   );
 
+  let usage: AiProviderUsage | undefined;
   for await (const chunk of stream) {
+    if (chunk.usage) usage = getUsage(chunk.usage);
     const delta = chunk.choices[0]?.delta?.content ?? "";
     if (delta) {
       yield { type: "text-delta", port: "text", textDelta: delta };
     }
   }
-  yield { type: "finish", data: {} as TextRewriterTaskOutput };
+  yield { type: "finish", data: withAiUsage({} as TextRewriterTaskOutput, usage) };
 };
@@ -0,0 +1,43 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AiProviderRunFn, TextToSpeechTaskInput, TextToSpeechTaskOutput } from "@workglow/ai";
+import type { OpenAiModelConfig } from "./OpenAI_ModelSchema";
+import { getClient, getModelName } from "./OpenAI_Client";
+
+/** The `pcm` response format is 24 kHz, 16-bit signed little-endian, mono */
+const PCM_SAMPLE_RATE = 24000;
+const DEFAULT_VOICE = "alloy";
+
+export const OpenAI_TextToSpeech: AiProviderRunFn<
+  TextToSpeechTaskInput,
+  TextToSpeechTaskOutput,
+  OpenAiModelConfig
+> = async (input, model, update_progress, signal) => {
+  update_progress(0, "Starting OpenAI text to speech");
+  const client = await getClient(model);
+  const modelName = getModelName(model);
+
+  const response = await client.audio.speech.create(
+    {
+      model: modelName,
+      input: input.text,
+      voice: input.voice ?? DEFAULT_VOICE,
+      response_format: "pcm",
+      ...(input.speed !== undefined ? { speed: input.speed } : {}),
+    },
+    { signal }
+  );
+  const bytes = new DataView(await response.arrayBuffer());
+
+  const data = new Float32Array(Math.floor(bytes.byteLength / 2));
+  for (let i = 0; i < data.length; i++) {
+    data[i] = bytes.getInt16(i * 2, true) / 0x8000;
+  }
+
+  update_progress(100, "Completed OpenAI text to speech");
+  return { audio: { data, sampleRate: PCM_SAMPLE_RATE, channels: 1 } };
+};
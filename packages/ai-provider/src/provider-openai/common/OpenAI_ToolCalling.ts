@@ -4,7 +4,13 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { buildToolDescription, filterValidToolCalls, toOpenAIMessages } from "@workglow/ai/worker";
+import {
+  buildToolDescription,
+  filterValidToolCalls,
+  toOpenAIMessages,
+  withAiUsage,
+  type AiProviderUsage,
+} from "@workglow/ai/worker";
 import type {
   AiProviderRunFn,
   AiProviderStreamFn,
@@ -16,7 +22,7 @@ import type {
 import type { StreamEvent } from "@workglow/task-graph";
 import { parsePartialJson } from "@workglow/util/worker";
 import type { OpenAiModelConfig } from "./OpenAI_ModelSchema";
-import { getClient, getModelName } from "./OpenAI_Client";
+import { getClient, getModelName, getUsage } from "./OpenAI_Client";
 
 function mapOpenAIToolChoice(
   toolChoice: string | undefined
@@ -87,7 +93,10 @@ export const OpenAI_ToolCalling: AiProviderRunFn<
   }
 
   update_progress(100, "Completed OpenAI tool calling");
-  return { text, toolCalls: filterValidToolCalls(toolCalls, input.tools) };
+  return withAiUsage(
+    { text, toolCalls: filterValidToolCalls(toolCalls, input.tools) },
+    getUsage(response.usage)
+  );
 };
 
 export const OpenAI_ToolCalling_Stream: AiProviderStreamFn<
@@ -119,6 +128,7 @@ export const OpenAI_ToolCalling_Stream: AiProviderStreamFn<
       max_completion_tokens: input.maxTokens,
       temperature: input.temperature,
       stream: true,
+      stream_options: { include_usage: true },
       ...toolOptions,
     },
     { signal }
@@ -126,7 +136,9 @@ export const OpenAI_ToolCalling_Stream: AiProviderStreamFn<
 
   const toolCallAccumulator = new Map<number, { id: string; name: string; arguments: string }>();
 
+  let usage: AiProviderUsage | undefined;
   for await (const chunk of stream) {
+    if (chunk.usage) usage = getUsage(chunk.usage);
     const choice = chunk.choices[0];
     if (!choice) continue;
 
@@ -167,5 +179,8 @@ export const OpenAI_ToolCalling_Stream: AiProviderStreamFn<
     }
   }
 
-  yield { type: "finish", data: { text: "", toolCalls: [] } as ToolCallingTaskOutput };
+  yield {
+    type: "finish",
+    data: withAiUsage({ text: "", toolCalls: [] } as ToolCallingTaskOutput, usage),
+  };
 };
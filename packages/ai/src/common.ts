@@ -8,7 +8,11 @@ export * from "./execution/IAiExecutionStrategy";
 export * from "./execution/DirectExecutionStrategy";
 export * from "./execution/QueuedExecutionStrategy";
 
+export * from "./eval/HashingEmbeddingProvider";
+export * from "./eval/RetrievalEvaluation";
+
 export * from "./job/AiJob";
+export * from "./job/EmbeddingMigrationJob";
 
 export * from "./task/ToolCallingUtils";
 
@@ -19,6 +23,7 @@ export * from "./model/ModelSchema";
 
 export * from "./provider/AiProvider";
 export * from "./provider/AiProviderRegistry";
+export * from "./provider/AiProviderUsage";
 export * from "./provider/QueuedAiProvider";
 
 export * from "./task";
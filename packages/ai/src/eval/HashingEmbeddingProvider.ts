@@ -0,0 +1,96 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ModelConfig } from "../model/ModelSchema";
+import { AiProvider } from "../provider/AiProvider";
+import type { AiProviderRegisterOptions } from "../provider/AiProvider";
+import type { AiProviderRunFn } from "../provider/AiProviderRegistry";
+
+/** Name of the {@link HashingEmbeddingProvider} */
+export const HASHING_EMBEDDING_PROVIDER = "hashing-embedding";
+
+const DEFAULT_DIMENSIONS = 256;
+
+/**
+ * A model config for the {@link HashingEmbeddingProvider}; set
+ * `provider_config.native_dimensions` for another vector size
+ */
+export const HASHING_EMBEDDING_MODEL = {
+  model_id: "hashing-embedding:default",
+  title: "Hashing Embedding",
+  description: "Deterministic bag-of-words embedding for offline tests and evaluation",
+  provider: HASHING_EMBEDDING_PROVIDER,
+  tasks: ["TextEmbeddingTask"],
+  provider_config: { native_dimensions: DEFAULT_DIMENSIONS },
+} as const satisfies ModelConfig;
+
+/** 32-bit FNV-1a hash of a string */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Embeds text by feature hashing its lowercased words into `dimensions`
+ * buckets with a hash-derived sign, then L2-normalizing. The same text always
+ * gives the same vector and texts that share words are similar, which is
+ * enough to exercise retrieval without a real model.
+ */
+export function hashingEmbedding(text: string, dimensions = DEFAULT_DIMENSIONS): Float32Array {
+  const vector = new Float32Array(dimensions);
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+    const hash = fnv1a(word);
+    vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+  }
+  let norm = 0;
+  for (const value of vector) norm += value * value;
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < dimensions; i++) vector[i] /= norm;
+  }
+  return vector;
+}
+
+const HashingEmbedding_TextEmbedding: AiProviderRunFn<any, any, ModelConfig> = async (
+  input: { text: string | string[] },
+  model
+) => {
+  const dimensions = model?.provider_config?.native_dimensions ?? DEFAULT_DIMENSIONS;
+  const vector = Array.isArray(input.text)
+    ? input.text.map((text) => hashingEmbedding(text, dimensions))
+    : hashingEmbedding(input.text, dimensions);
+  return { vector };
+};
+
+/**
+ * In-process provider with a deterministic, offline `TextEmbeddingTask`
+ * (see {@link hashingEmbedding}). Meant for tests and retrieval evaluation,
+ * not for production search.
+ */
+export class HashingEmbeddingProvider extends AiProvider {
+  readonly name = HASHING_EMBEDDING_PROVIDER;
+  readonly displayName = "Hashing Embedding";
+  readonly isLocal = true;
+  readonly supportsBrowser = true;
+  readonly taskTypes = ["TextEmbeddingTask"] as const;
+
+  constructor() {
+    super({ TextEmbeddingTask: HashingEmbedding_TextEmbedding });
+  }
+}
+
+/**
+ * Registers the {@link HashingEmbeddingProvider} inline
+ */
+export async function registerHashingEmbeddingProvider(
+  options?: AiProviderRegisterOptions
+): Promise<void> {
+  await new HashingEmbeddingProvider().register(options);
+}
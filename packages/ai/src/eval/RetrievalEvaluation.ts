@@ -0,0 +1,282 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ChunkRecord, KnowledgeBase } from "@workglow/knowledge-base";
+import { getTabularRepository } from "@workglow/storage";
+import type { ITabularStorage } from "@workglow/storage";
+import type { Workflow } from "@workglow/task-graph";
+import type { DataPortSchemaObject, FromSchema } from "@workglow/util/schema";
+
+/**
+ * Schema of one query of a retrieval evaluation dataset, for storing datasets
+ * in tabular storage (see `TypeTabularStorage`). A query lists the chunks or,
+ * more coarsely, the documents that a good retrieval returns for it.
+ */
+export const RetrievalEvalQuerySchema = {
+  type: "object",
+  properties: {
+    query_id: { type: "string" },
+    query: { type: "string" },
+    /** Stored chunk IDs (or ChunkRecord `chunkId`s) relevant to the query */
+    relevant_chunk_ids: { type: "array", items: { type: "string" } },
+    /** Document IDs relevant to the query, used when no chunk IDs are given */
+    relevant_doc_ids: { type: "array", items: { type: "string" } },
+  },
+  required: ["query_id", "query"],
+  additionalProperties: false,
+} as const satisfies DataPortSchemaObject;
+
+export type RetrievalEvalQuery = FromSchema<typeof RetrievalEvalQuerySchema>;
+export const RetrievalEvalQueryPrimaryKey = ["query_id"] as const;
+
+export type RetrievalEvalDatasetStorage = ITabularStorage<
+  typeof RetrievalEvalQuerySchema,
+  typeof RetrievalEvalQueryPrimaryKey
+>;
+
+/**
+ * One retrieval setup to evaluate
+ */
+export interface RetrievalEvalConfig {
+  /** Name of the configuration in the report */
+  readonly name: string;
+  /** Knowledge base to search, overriding the one of the evaluation */
+  readonly knowledgeBase?: KnowledgeBase | string;
+  /**
+   * Builds the retrieval graph for one query. The workflow must end in a
+   * single task whose output has `metadata` (ChunkRecords, best first) and
+   * optionally `chunk_ids`, such as `ChunkRetrievalTask`, `HierarchyJoinTask`
+   * or `RerankerTask`.
+   */
+  readonly workflow: (query: string, knowledgeBase: KnowledgeBase | string | undefined) => Workflow;
+}
+
+export interface RetrievalEvalOptions {
+  /** The queries, as records, a tabular storage or the ID of a registered one */
+  readonly dataset: readonly RetrievalEvalQuery[] | RetrievalEvalDatasetStorage | string;
+  readonly configurations: readonly RetrievalEvalConfig[];
+  /**
+   * Knowledge base passed to each configuration's workflow builder; use the ID
+   * of a registered knowledge base for workflows
+   */
+  readonly knowledgeBase?: KnowledgeBase | string;
+  /** Cut-off rank for recall, MRR and nDCG (default 5) */
+  readonly k?: number;
+}
+
+export interface RetrievalEvalQueryResult {
+  readonly query_id: string;
+  /** Retrieved chunk IDs, or document IDs for document-level queries, best first */
+  readonly retrieved: string[];
+  readonly recall: number;
+  readonly reciprocalRank: number;
+  readonly ndcg: number;
+  readonly latencyMs: number;
+  /** Set when the retrieval failed; the query then scores 0 */
+  readonly error?: string;
+}
+
+export interface RetrievalEvalRun {
+  readonly name: string;
+  readonly queryCount: number;
+  /** Mean recall@k */
+  readonly recall: number;
+  /** Mean reciprocal rank of the first relevant result within the top k */
+  readonly mrr: number;
+  /** Mean nDCG@k with binary relevance */
+  readonly ndcg: number;
+  readonly meanLatencyMs: number;
+  readonly p50LatencyMs: number;
+  readonly p95LatencyMs: number;
+  readonly failures: number;
+  readonly results: RetrievalEvalQueryResult[];
+}
+
+export interface RetrievalEvalReport {
+  readonly k: number;
+  readonly runs: RetrievalEvalRun[];
+}
+
+/**
+ * Fraction of the relevant items found in the first `k` retrieved
+ */
+export function recallAtK(retrieved: readonly string[], relevant: ReadonlySet<string>, k: number) {
+  if (relevant.size === 0) return 0;
+  const found = new Set(retrieved.slice(0, k).filter((id) => relevant.has(id)));
+  return found.size / relevant.size;
+}
+
+/**
+ * 1 / rank of the first relevant item in the first `k` retrieved, or 0
+ */
+export function reciprocalRankAtK(
+  retrieved: readonly string[],
+  relevant: ReadonlySet<string>,
+  k: number
+) {
+  const index = retrieved.slice(0, k).findIndex((id) => relevant.has(id));
+  return index < 0 ? 0 : 1 / (index + 1);
+}
+
+/**
+ * Normalized discounted cumulative gain of the first `k` retrieved, with
+ * binary relevance; repeats of an item gain nothing
+ */
+export function ndcgAtK(retrieved: readonly string[], relevant: ReadonlySet<string>, k: number) {
+  const seen = new Set<string>();
+  let dcg = 0;
+  retrieved.slice(0, k).forEach((id, i) => {
+    if (relevant.has(id) && !seen.has(id)) {
+      seen.add(id);
+      dcg += 1 / Math.log2(i + 2);
+    }
+  });
+  let ideal = 0;
+  for (let i = 0; i < Math.min(relevant.size, k); i++) {
+    ideal += 1 / Math.log2(i + 2);
+  }
+  return ideal === 0 ? 0 : dcg / ideal;
+}
+
+/**
+ * Runs every configuration over every query of the dataset, one query at a
+ * time, and scores the rankings. Queries with `relevant_chunk_ids` are
+ * judged by chunk; the others by document, over the retrieved documents in
+ * order of their first chunk. A failed retrieval scores 0 and is counted in
+ * `failures`.
+ *
+ * @throws Error if the dataset is empty or a query lists nothing relevant
+ */
+export async function evaluateRetrieval(
+  options: RetrievalEvalOptions
+): Promise<RetrievalEvalReport> {
+  const { configurations, knowledgeBase, k = 5 } = options;
+  if (!Number.isInteger(k) || k < 1) {
+    throw new Error(`evaluateRetrieval: k must be a positive integer, got ${k}`);
+  }
+  const queries = await loadDataset(options.dataset);
+  if (queries.length === 0) {
+    throw new Error("evaluateRetrieval: the dataset has no queries");
+  }
+  for (const query of queries) {
+    if (!query.relevant_chunk_ids?.length && !query.relevant_doc_ids?.length) {
+      throw new Error(
+        `evaluateRetrieval: query "${query.query_id}" lists no relevant chunk or document IDs`
+      );
+    }
+  }
+
+  const runs: RetrievalEvalRun[] = [];
+  for (const config of configurations) {
+    const results: RetrievalEvalQueryResult[] = [];
+    for (const query of queries) {
+      results.push(await evaluateQuery(config, config.knowledgeBase ?? knowledgeBase, query, k));
+    }
+    runs.push(summarize(config.name, results));
+  }
+  return { k, runs };
+}
+
+/**
+ * Renders a report as a markdown table, one row per configuration
+ */
+export function formatRetrievalEvalReport(report: RetrievalEvalReport): string {
+  const { k } = report;
+  const rows = [
+    `| Configuration | Recall@${k} | MRR@${k} | nDCG@${k} | Mean ms | p50 ms | p95 ms | Failed |`,
+    "| --- | ---: | ---: | ---: | ---: | ---: | ---: | ---: |",
+  ];
+  for (const run of report.runs) {
+    rows.push(
+      `| ${run.name} | ${run.recall.toFixed(3)} | ${run.mrr.toFixed(3)} | ${run.ndcg.toFixed(3)} | ` +
+        `${run.meanLatencyMs.toFixed(1)} | ${run.p50LatencyMs.toFixed(1)} | ` +
+        `${run.p95LatencyMs.toFixed(1)} | ${run.failures} |`
+    );
+  }
+  return rows.join("\n");
+}
+
+async function loadDataset(
+  dataset: RetrievalEvalOptions["dataset"]
+): Promise<readonly RetrievalEvalQuery[]> {
+  if (Array.isArray(dataset)) return dataset;
+  if (typeof dataset === "string") {
+    const storage = getTabularRepository(dataset);
+    if (!storage) {
+      throw new Error(`evaluateRetrieval: tabular storage "${dataset}" not found in registry`);
+    }
+    return ((await storage.getAll()) ?? []) as RetrievalEvalQuery[];
+  }
+  return (await (dataset as RetrievalEvalDatasetStorage).getAll()) ?? [];
+}
+
+async function evaluateQuery(
+  config: RetrievalEvalConfig,
+  knowledgeBase: KnowledgeBase | string | undefined,
+  query: RetrievalEvalQuery,
+  k: number
+): Promise<RetrievalEvalQueryResult> {
+  const byChunk = !!query.relevant_chunk_ids?.length;
+  const relevant = new Set(byChunk ? query.relevant_chunk_ids : query.relevant_doc_ids);
+
+  const startedAt = performance.now();
+  let output: { metadata?: ChunkRecord[]; chunk_ids?: string[] };
+  try {
+    output = (await config.workflow(query.query, knowledgeBase).run()) as typeof output;
+  } catch (err) {
+    return {
+      query_id: query.query_id,
+      retrieved: [],
+      recall: 0,
+      reciprocalRank: 0,
+      ndcg: 0,
+      latencyMs: performance.now() - startedAt,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+  const latencyMs = performance.now() - startedAt;
+
+  const metadata = output.metadata ?? [];
+  let retrieved: string[];
+  if (byChunk) {
+    // A result matches by stored chunk ID or by the ChunkRecord's own chunkId
+    retrieved = metadata.map((meta, i) => {
+      const ids = [output.chunk_ids?.[i], meta?.chunkId].filter((id) => id !== undefined);
+      return ids.find((id) => relevant.has(id)) ?? ids[0] ?? "";
+    });
+  } else {
+    retrieved = [...new Set(metadata.map((meta) => meta?.doc_id ?? ""))];
+  }
+
+  return {
+    query_id: query.query_id,
+    retrieved,
+    recall: recallAtK(retrieved, relevant, k),
+    reciprocalRank: reciprocalRankAtK(retrieved, relevant, k),
+    ndcg: ndcgAtK(retrieved, relevant, k),
+    latencyMs,
+  };
+}
+
+function summarize(name: string, results: RetrievalEvalQueryResult[]): RetrievalEvalRun {
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const latencies = results.map((r) => r.latencyMs).sort((a, b) => a - b);
+  // Nearest-rank percentile
+  const percentile = (p: number) =>
+    latencies[Math.min(latencies.length - 1, Math.ceil((p / 100) * latencies.length) - 1)];
+  return {
+    name,
+    queryCount: results.length,
+    recall: mean(results.map((r) => r.recall)),
+    mrr: mean(results.map((r) => r.reciprocalRank)),
+    ndcg: mean(results.map((r) => r.ndcg)),
+    meanLatencyMs: mean(latencies),
+    p50LatencyMs: percentile(50),
+    p95LatencyMs: percentile(95),
+    failures: results.filter((r) => r.error !== undefined).length,
+    results,
+  };
+}
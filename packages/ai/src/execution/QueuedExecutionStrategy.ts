@@ -67,6 +67,7 @@ export class QueuedExecutionStrategy implements IAiExecutionStrategy {
     const handle = await client.submit(jobInput, {
       jobRunId: runnerId,
       maxRetries: 10,
+      priority: context.priority,
     });
 
     // Wire the task abort signal to the queued job so that aborting the task
@@ -0,0 +1,327 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  AbortSignalJobError,
+  ConcurrencyLimiter,
+  IJobExecuteContext,
+  Job,
+  JobQueueClient,
+  JobQueueServer,
+  PermanentJobError,
+  RetryableJobError,
+} from "@workglow/job-queue";
+import type { JobHandle } from "@workglow/job-queue";
+import { getGlobalKnowledgeBaseRepository, getKnowledgeBase } from "@workglow/knowledge-base";
+import type {
+  ChunkVectorEntity,
+  ChunkVectorStorage,
+  KnowledgeBaseRecord,
+} from "@workglow/knowledge-base";
+import { InMemoryQueueStorage } from "@workglow/storage";
+import { getTaskQueueRegistry } from "@workglow/task-graph";
+import type { RegisteredQueue } from "@workglow/task-graph";
+import type { TypedArray } from "@workglow/util/schema";
+import type { ModelConfig } from "../model/ModelSchema";
+import { TextEmbeddingTask } from "../task/TextEmbeddingTask";
+
+/** Name of the job queue that runs embedding migrations */
+export const EMBEDDING_MIGRATION_QUEUE = "embedding-migration";
+
+const DEFAULT_BATCH_SIZE = 64;
+
+/**
+ * Input of an {@link EmbeddingMigrationJob}
+ */
+export interface EmbeddingMigrationJobInput {
+  /** ID of a registered knowledge base with a pending migration to `model` */
+  readonly kb_id: string;
+  /** The new embedding model, by model_id or as a config with a `model_id` */
+  readonly model: string | ModelConfig;
+  /** Chunks embedded per call to the model (default 64) */
+  readonly batchSize?: number;
+}
+
+/**
+ * Output of an {@link EmbeddingMigrationJob}
+ */
+export interface EmbeddingMigrationJobOutput {
+  readonly kb_id: string;
+  readonly embedding_model: string;
+  /** Chunks embedded into the new storage, counting re-embedded changed chunks */
+  readonly embedded: number;
+  /** Chunks deleted from the new storage because they were deleted meanwhile */
+  readonly deleted: number;
+}
+
+/**
+ * The model_id of a model given by ID or config
+ */
+export function getEmbeddingModelId(model: string | ModelConfig): string | undefined {
+  return typeof model === "string" ? model : model.model_id;
+}
+
+/**
+ * Re-embeds every chunk of a knowledge base into the storage of its pending
+ * embedding migration (see `KnowledgeBase.beginEmbeddingMigration`), then
+ * refreshes the chunks written or deleted meanwhile until none are left and
+ * switches the knowledge base to the new storage and model once its record
+ * names them. Search keeps using the old storage until the switch, after which
+ * the old storage instance is destroyed; its table is left in place.
+ *
+ * When the job fails for good the migration is abandoned; the knowledge base
+ * keeps its current storage and the new storage is left as it is.
+ */
+export class EmbeddingMigrationJob extends Job<
+  EmbeddingMigrationJobInput,
+  EmbeddingMigrationJobOutput
+> {
+  override async execute(
+    input: EmbeddingMigrationJobInput,
+    context: IJobExecuteContext
+  ): Promise<EmbeddingMigrationJobOutput> {
+    const { kb_id, model, batchSize = DEFAULT_BATCH_SIZE } = input;
+    const embedding_model = getEmbeddingModelId(model);
+    const kb = getKnowledgeBase(kb_id);
+    if (!kb) {
+      throw new PermanentJobError(`Knowledge base "${kb_id}" not found in registry`);
+    }
+    const pending = kb.pendingEmbeddingMigration;
+    if (!pending || pending.embeddingModel !== embedding_model) {
+      throw new PermanentJobError(
+        `Knowledge base "${kb_id}" has no pending migration to embedding model "${embedding_model}"`
+      );
+    }
+
+    try {
+      let embedded = 0;
+      let deleted = 0;
+      const migrate = async (chunks: ChunkVectorEntity[], total: number) => {
+        for (let start = 0; start < chunks.length; start += batchSize) {
+          if (context.signal.aborted) {
+            throw new AbortSignalJobError("Embedding migration aborted");
+          }
+          const batch = chunks.slice(start, start + batchSize);
+          await this.embedInto(pending.storage, batch, model);
+          embedded += batch.length;
+          await context.updateProgress(
+            Math.min(99, Math.round((embedded / Math.max(total, 1)) * 100)),
+            `Embedded ${embedded} of ${total} chunks`
+          );
+        }
+      };
+
+      const chunks = (await kb.getAllChunks()) ?? [];
+      await migrate(chunks, chunks.length);
+
+      // The switch is recorded before the knowledge base makes it, so a failure
+      // to record it leaves both on the current storage
+      const persistSwitch = () =>
+        updateKnowledgeBaseRecord(kb_id, (record) => {
+          const {
+            pending_embedding_model,
+            pending_chunk_table,
+            pending_vector_dimensions,
+            ...rest
+          } = record;
+          return {
+            ...rest,
+            embedding_model: embedding_model!,
+            chunk_table: pending_chunk_table ?? record.chunk_table,
+            vector_dimensions: pending_vector_dimensions ?? pending.storage.getVectorDimensions(),
+          };
+        });
+
+      // Chunks written during the copy are refreshed until none are left; the
+      // switch waits for writes still in flight, and refuses if they changed chunks
+      let previous: ChunkVectorStorage | undefined;
+      for (;;) {
+        const ids = kb.takeStaleMigrationChunks();
+        if (ids.length === 0) {
+          previous = await kb.completeEmbeddingMigration(persistSwitch);
+          if (previous) break;
+          continue;
+        }
+        const changed: ChunkVectorEntity[] = [];
+        for (const chunk_id of ids) {
+          const chunk = await kb.getChunk(chunk_id);
+          if (chunk) {
+            changed.push(chunk);
+          } else {
+            await pending.storage.delete({ chunk_id });
+            deleted++;
+          }
+        }
+        await migrate(changed, chunks.length + changed.length);
+      }
+      previous.destroy();
+
+      return { kb_id, embedding_model: embedding_model!, embedded, deleted };
+    } catch (err) {
+      if (!(err instanceof RetryableJobError)) {
+        kb.abortEmbeddingMigration();
+        await clearPendingMigration(kb_id);
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Embeds the text of each chunk with `model` and stores the vectors under the
+   * same chunk IDs in `storage`
+   */
+  private async embedInto(
+    storage: ChunkVectorStorage,
+    chunks: ChunkVectorEntity[],
+    model: string | ModelConfig
+  ): Promise<void> {
+    if (chunks.length === 0) return;
+    const text = chunks.map((chunk) => {
+      if (typeof chunk.metadata.text !== "string") {
+        throw new PermanentJobError(`Chunk "${chunk.chunk_id}" has no text to embed`);
+      }
+      return chunk.metadata.text;
+    });
+    const { vector } = await new TextEmbeddingTask().run({ text, model });
+    const vectors = (Array.isArray(vector) ? vector : [vector]) as TypedArray[];
+    const dimensions = storage.getVectorDimensions();
+    if (vectors.length !== chunks.length) {
+      throw new PermanentJobError(
+        `Embedded ${chunks.length} chunks but got ${vectors.length} vectors`
+      );
+    }
+    if (dimensions > 0 && vectors.some((v) => v.length !== dimensions)) {
+      throw new PermanentJobError(
+        `Vector dimension mismatch: the new storage expects ${dimensions} dimensions`
+      );
+    }
+    await storage.putBulk(
+      chunks.map((chunk, i) => ({
+        chunk_id: chunk.chunk_id,
+        doc_id: chunk.doc_id,
+        vector: vectors[i],
+        metadata: chunk.metadata,
+      }))
+    );
+  }
+}
+
+/**
+ * Options for {@link startEmbeddingMigration}
+ */
+export interface EmbeddingMigrationOptions {
+  /** The new embedding model, by model_id or as a config with a `model_id` */
+  readonly model: string | ModelConfig;
+  /** Vector storage for the new vectors, typically a new table sized for the model */
+  readonly storage: ChunkVectorStorage;
+  /** Name of the new chunk table, recorded in the knowledge base record */
+  readonly chunkTable?: string;
+  /** Chunks embedded per call to the model (default 64) */
+  readonly batchSize?: number;
+}
+
+/**
+ * Starts migrating a registered knowledge base to another embedding model.
+ * The migration is recorded in the knowledge base record (`pending_*` fields)
+ * and an {@link EmbeddingMigrationJob} is queued on
+ * {@link EMBEDDING_MIGRATION_QUEUE}, created in memory unless already
+ * registered. Search keeps using the current vectors until the job switches
+ * the knowledge base over; queries embedded with the new model are refused
+ * until then.
+ *
+ * @returns A handle on the migration job
+ * @throws Error if the knowledge base is not registered, already uses the
+ *   model or is already migrating
+ */
+export async function startEmbeddingMigration(
+  kb_id: string,
+  options: EmbeddingMigrationOptions
+): Promise<JobHandle<EmbeddingMigrationJobOutput>> {
+  const { model, storage, chunkTable, batchSize } = options;
+  const kb = getKnowledgeBase(kb_id);
+  if (!kb) {
+    throw new Error(`Knowledge base "${kb_id}" not found in registry`);
+  }
+  const embedding_model = getEmbeddingModelId(model);
+  if (!embedding_model) {
+    throw new Error("startEmbeddingMigration: the model config needs a model_id");
+  }
+  if (embedding_model === kb.embeddingModel) {
+    throw new Error(`Knowledge base "${kb_id}" already uses embedding model "${embedding_model}"`);
+  }
+
+  await storage.setupDatabase();
+  kb.beginEmbeddingMigration(embedding_model, storage);
+  try {
+    await updateKnowledgeBaseRecord(kb_id, (record) => ({
+      ...record,
+      pending_embedding_model: embedding_model,
+      ...(chunkTable !== undefined ? { pending_chunk_table: chunkTable } : {}),
+      pending_vector_dimensions: storage.getVectorDimensions(),
+    }));
+    const { client } = await ensureEmbeddingMigrationQueue();
+    return await client.submit({ kb_id, model, batchSize }, { maxRetries: 3 });
+  } catch (err) {
+    kb.abortEmbeddingMigration();
+    await clearPendingMigration(kb_id);
+    throw err;
+  }
+}
+
+/**
+ * Applies `update` to the persisted record of a knowledge base, if there is one
+ */
+async function updateKnowledgeBaseRecord(
+  kb_id: string,
+  update: (record: KnowledgeBaseRecord) => KnowledgeBaseRecord
+): Promise<void> {
+  const repo = getGlobalKnowledgeBaseRepository();
+  const record = await repo.getKnowledgeBase(kb_id);
+  if (!record) return;
+  await repo.updateKnowledgeBase({ ...update(record), updated_at: new Date().toISOString() });
+}
+
+function clearPendingMigration(kb_id: string): Promise<void> {
+  return updateKnowledgeBaseRecord(kb_id, (record) => {
+    const { pending_embedding_model, pending_chunk_table, pending_vector_dimensions, ...rest } =
+      record;
+    return rest;
+  });
+}
+
+async function ensureEmbeddingMigrationQueue(): Promise<
+  RegisteredQueue<EmbeddingMigrationJobInput, EmbeddingMigrationJobOutput>
+> {
+  const registry = getTaskQueueRegistry();
+  const existing = registry.getQueue<EmbeddingMigrationJobInput, EmbeddingMigrationJobOutput>(
+    EMBEDDING_MIGRATION_QUEUE
+  );
+  if (existing) {
+    if (!existing.server.isRunning()) {
+      await existing.server.start();
+    }
+    return existing;
+  }
+
+  const storage = new InMemoryQueueStorage<EmbeddingMigrationJobInput, EmbeddingMigrationJobOutput>(
+    EMBEDDING_MIGRATION_QUEUE
+  );
+  await storage.setupDatabase();
+  const server = new JobQueueServer<EmbeddingMigrationJobInput, EmbeddingMigrationJobOutput>(
+    EmbeddingMigrationJob,
+    { storage, queueName: EMBEDDING_MIGRATION_QUEUE, limiter: new ConcurrencyLimiter(1) }
+  );
+  const client = new JobQueueClient<EmbeddingMigrationJobInput, EmbeddingMigrationJobOutput>({
+    storage,
+    queueName: EMBEDDING_MIGRATION_QUEUE,
+  });
+  client.attach(server);
+
+  const queue = { server, client, storage };
+  registry.registerQueue(queue);
+  await server.start();
+  return queue;
+}
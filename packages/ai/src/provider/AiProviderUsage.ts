@@ -0,0 +1,209 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { IExecuteContext, TaskBudgetReservation, TaskUsage } from "@workglow/task-graph";
+
+import type { ModelConfig } from "../model/ModelSchema";
+import { getAiProviderRegistry } from "./AiProviderRegistry";
+
+/**
+ * Raw token counts reported by a provider for one call.
+ *
+ * Run functions attach this to their output, and stream functions to the data of
+ * their `finish` event, under the reserved {@link AI_USAGE_KEY} key. It is plain
+ * data so it survives the worker boundary; {@link AiTask} strips it from the
+ * output and reports a normalized {@link TaskUsage} record instead.
+ */
+export interface AiProviderUsage {
+  /** Prompt tokens, including cached ones */
+  inputTokens?: number;
+  /** Completion tokens */
+  outputTokens?: number;
+  /** Prompt tokens served from the provider's prompt cache */
+  cachedInputTokens?: number;
+}
+
+/** Output key under which providers attach {@link AiProviderUsage} */
+export const AI_USAGE_KEY = "usage";
+
+/**
+ * Per-model price table, read from `metadata.pricing` of the model record:
+ *
+ * ```ts
+ * metadata: { pricing: { inputPerMillion: 2.5, outputPerMillion: 10, cachedInputPerMillion: 1.25 } }
+ * ```
+ */
+export interface ModelPricing {
+  /** Price per million uncached prompt tokens */
+  inputPerMillion: number;
+  /** Price per million completion tokens */
+  outputPerMillion: number;
+  /** Price per million cached prompt tokens; defaults to `inputPerMillion` */
+  cachedInputPerMillion?: number;
+  /** Currency of the prices; defaults to "USD" */
+  currency?: string;
+}
+
+/**
+ * Attaches provider usage to a run function output or finish event payload
+ */
+export function withAiUsage<T>(output: T, usage: AiProviderUsage | undefined): T {
+  if (!usage) return output;
+  return { ...output, [AI_USAGE_KEY]: usage };
+}
+
+/**
+ * Splits the provider usage off an output. Returns the output without the usage
+ * key (a copy when it was present) and the usage, if any.
+ */
+export function takeAiUsage<T>(output: T): { output: T; usage: AiProviderUsage | undefined } {
+  if (!output || typeof output !== "object" || !(AI_USAGE_KEY in output)) {
+    return { output, usage: undefined };
+  }
+  const { [AI_USAGE_KEY]: usage, ...rest } = output as Record<string, unknown>;
+  return {
+    output: rest as T,
+    usage: usage && typeof usage === "object" ? (usage as AiProviderUsage) : undefined,
+  };
+}
+
+/**
+ * Reads the price table from a model's metadata, if it has a valid one
+ */
+export function getModelPricing(model: ModelConfig): ModelPricing | undefined {
+  const pricing = (model.metadata as Record<string, unknown> | undefined)?.pricing as
+    | Partial<ModelPricing>
+    | undefined;
+  if (
+    !pricing ||
+    typeof pricing.inputPerMillion !== "number" ||
+    typeof pricing.outputPerMillion !== "number"
+  ) {
+    return undefined;
+  }
+  return pricing as ModelPricing;
+}
+
+/**
+ * Computes the cost of a call from its token counts and a price table.
+ * Cached prompt tokens are billed at the cached rate, the rest at the input rate.
+ */
+export function computeUsageCost(
+  usage: Pick<TaskUsage, "inputTokens" | "outputTokens" | "cachedInputTokens">,
+  pricing: ModelPricing
+): number {
+  const cached = Math.min(usage.cachedInputTokens, usage.inputTokens);
+  const cachedRate = pricing.cachedInputPerMillion ?? pricing.inputPerMillion;
+  return (
+    ((usage.inputTokens - cached) * pricing.inputPerMillion +
+      cached * cachedRate +
+      usage.outputTokens * pricing.outputPerMillion) /
+    1_000_000
+  );
+}
+
+/**
+ * Normalizes provider usage into a {@link TaskUsage} record, pricing it when the
+ * model has a price table
+ */
+export function normalizeAiUsage(
+  model: ModelConfig,
+  taskType: string,
+  usage: AiProviderUsage | undefined,
+  latencyMs: number
+): TaskUsage {
+  const counts = {
+    inputTokens: usage?.inputTokens ?? 0,
+    outputTokens: usage?.outputTokens ?? 0,
+    cachedInputTokens: usage?.cachedInputTokens ?? 0,
+  };
+  const pricing = getModelPricing(model);
+  const modelName =
+    model.model_id ??
+    (model.provider_config as Record<string, unknown> | undefined)?.model_name ??
+    (model.provider_config as Record<string, unknown> | undefined)?.model_path;
+  return {
+    provider: model.provider,
+    model: typeof modelName === "string" ? modelName : "",
+    taskType,
+    ...counts,
+    latencyMs,
+    ...(pricing
+      ? { cost: computeUsageCost(counts, pricing), currency: pricing.currency ?? "USD" }
+      : {}),
+  };
+}
+
+/**
+ * Extracts the prompt text of a task input for token estimation: string fields
+ * as is, structured fields (messages, tools) as JSON. Binary data is skipped.
+ */
+function promptText(input: Record<string, unknown>): string {
+  const parts: string[] = [];
+  for (const [key, value] of Object.entries(input)) {
+    if (key === "model" || value === null || value === undefined) continue;
+    if (typeof value === "string") {
+      if (!value.startsWith("data:")) parts.push(value);
+    } else if (typeof value === "object" && !ArrayBuffer.isView(value)) {
+      if (value instanceof ArrayBuffer || value instanceof Blob) continue;
+      parts.push(JSON.stringify(value));
+    }
+  }
+  return parts.join("\n");
+}
+
+/**
+ * Estimates the prompt tokens of a call. Uses the provider's tokenizer (its
+ * CountTokensTask run function) when it has one, otherwise about four
+ * characters per token.
+ * @param model - Model the call is made with
+ * @param input - Task input of the call
+ * @param signal - Abort signal of the calling task
+ */
+export async function estimateAiInputTokens(
+  model: ModelConfig,
+  input: Record<string, unknown>,
+  signal: AbortSignal
+): Promise<number> {
+  const text = promptText(input);
+  if (!text) return 0;
+  const countTokens = getAiProviderRegistry()
+    .runFnRegistry.get("CountTokensTask")
+    ?.get(model.provider);
+  if (countTokens) {
+    try {
+      const { count } = (await countTokens({ text, model }, model, () => {}, signal)) as {
+        count?: unknown;
+      };
+      if (typeof count === "number") return count;
+    } catch {
+      // Fall through to the heuristic
+    }
+  }
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Admits one model call against the run's budget, if it has one. The prompt is
+ * only tokenized when the budget limits tokens. Settle the returned reservation
+ * with the call's usage record once the call is done (or without one when it
+ * failed).
+ * @param model - Model the call is made with
+ * @param input - Task input of the call
+ * @param context - Execute context of the calling task
+ */
+export async function reserveAiCall(
+  model: ModelConfig,
+  input: Record<string, unknown>,
+  context: IExecuteContext
+): Promise<TaskBudgetReservation | undefined> {
+  const budget = context.budget;
+  if (!budget) return undefined;
+  const inputTokens = budget.limitsTokens
+    ? await estimateAiInputTokens(model, input, context.signal)
+    : undefined;
+  return budget.reserve({ inputTokens }, context.signal);
+}
@@ -0,0 +1,513 @@
+/**
+ * @license
+ * Copyright 2026 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { estimateTokens } from "@workglow/knowledge-base";
+import type {
+  IExecuteContext,
+  ITask,
+  StreamEvent,
+  TaskConfig,
+  TaskEntitlements,
+} from "@workglow/task-graph";
+import {
+  createGraphFromGraphJSON,
+  CreateWorkflow,
+  ENTITLEMENT_ENFORCER,
+  formatEntitlementDenial,
+  getTaskConstructors,
+  GraphAsTask,
+  mergeEntitlements,
+  TaskConfigurationError,
+  TaskEntitlementError,
+  Workflow,
+} from "@workglow/task-graph";
+import type { ServiceRegistry } from "@workglow/util";
+import type { DataPortSchema, FromSchema } from "@workglow/util/schema";
+import type { ModelConfig } from "../model/ModelSchema";
+import { getAiProviderRegistry } from "../provider/AiProviderRegistry";
+import { normalizeAiUsage, reserveAiCall, takeAiUsage } from "../provider/AiProviderUsage";
+import { TypeModel } from "./base/AiTaskSchemas";
+import { StreamingAiTask } from "./base/StreamingAiTask";
+import type { ChatMessage, ContentBlock, ContentBlockToolResult } from "./ChatMessage";
+import { ChatMessageSchema } from "./ChatMessage";
+import { ToolCallingInputSchema } from "./ToolCallingTask";
+import type { ToolCallingTaskInput, ToolCallingTaskOutput } from "./ToolCallingTask";
+import type { ToolCall, ToolDefinition } from "./ToolCallingUtils";
+
+// ========================================================================
+// Schemas
+// ========================================================================
+
+const modelSchema = TypeModel("model:ToolCallingTask");
+
+// Separates the text of consecutive turns on the `text` port
+const TURN_SEPARATOR = "\n\n";
+
+export const AgentInputSchema = {
+  type: "object",
+  properties: {
+    model: modelSchema,
+    prompt: ToolCallingInputSchema.properties.prompt,
+    systemPrompt: {
+      type: "string",
+      title: "System Prompt",
+      description: "Optional system instructions for the agent",
+    },
+    tools: {
+      ...ToolCallingInputSchema.properties.tools,
+      description:
+        "Tools the agent may call: task type names, tool definitions backed by a task (such as McpToolCallTask), or sub-graphs",
+    },
+    maxIterations: {
+      type: "number",
+      title: "Max Iterations",
+      description: "Maximum number of model turns before the agent stops",
+      minimum: 1,
+      default: 10,
+      "x-ui-group": "Configuration",
+    },
+    tokenBudget: {
+      type: "number",
+      title: "Token Budget",
+      description:
+        "Stop before the next model turn once the transcript is estimated to exceed this many tokens",
+      minimum: 1,
+      "x-ui-group": "Configuration",
+    },
+    maxTokens: {
+      type: "number",
+      title: "Max Tokens",
+      description: "Per-turn token limit",
+      minimum: 1,
+      "x-ui-group": "Configuration",
+    },
+    temperature: {
+      type: "number",
+      title: "Temperature",
+      description: "Sampling temperature",
+      minimum: 0,
+      maximum: 2,
+      "x-ui-group": "Configuration",
+    },
+  },
+  required: ["model", "prompt", "tools"],
+  additionalProperties: false,
+} as const satisfies DataPortSchema;
+
+export const AgentOutputSchema = {
+  type: "object",
+  properties: {
+    text: {
+      type: "string",
+      title: "Text",
+      description: "Text of every assistant turn, separated by blank lines",
+      "x-stream": "append",
+    },
+    messages: {
+      type: "array",
+      title: "Messages",
+      description: "Full transcript, including tool calls and tool results",
+      items: ChatMessageSchema,
+      "x-stream": "object",
+    },
+    iterations: {
+      type: "number",
+      title: "Iterations",
+      description: "Number of model turns",
+    },
+    stopReason: {
+      type: "string",
+      enum: ["done", "max-iterations", "token-budget"],
+      title: "Stop Reason",
+      description: "Why the agent stopped: the model stopped calling tools, or a limit was reached",
+    },
+  },
+  required: ["text", "messages", "iterations", "stopReason"],
+  additionalProperties: false,
+} as const satisfies DataPortSchema;
+
+// ========================================================================
+// Runtime types
+// ========================================================================
+
+/**
+ * Runtime input type for AgentTask. As for {@link ToolCallingTaskInput}, the
+ * input resolver turns task type names into {@link ToolDefinition} objects
+ * before execution.
+ */
+export type AgentTaskInput = Omit<FromSchema<typeof AgentInputSchema>, "tools"> & {
+  readonly tools: ToolDefinition[];
+};
+
+export type AgentTaskOutput = Omit<FromSchema<typeof AgentOutputSchema>, "messages"> & {
+  readonly messages: ChatMessage[];
+};
+export type AgentTaskConfig = TaskConfig<AgentTaskInput>;
+
+export type AgentStopReason = AgentTaskOutput["stopReason"];
+
+// ========================================================================
+// Task class
+// ========================================================================
+
+/**
+ * Runs a tool-using agent loop: the model is prompted with the tools, every
+ * tool it calls is run and its result appended to the transcript, and the
+ * model is prompted again until it answers without calling a tool or
+ * `maxIterations` / `tokenBudget` is reached.
+ *
+ * Each model turn runs the provider's `ToolCallingTask` function. Tools are
+ * run as owned tasks: registered task types, tool definitions with a
+ * `taskType` and `config` (e.g. `McpToolCallTask`), `"graph"` tools that carry
+ * a serialized sub-graph, or definitions with an `execute` function. When an
+ * {@link ENTITLEMENT_ENFORCER} is registered, each tool task is checked before
+ * it runs; denied calls and tool errors are returned to the model as error
+ * results rather than failing the run.
+ */
+export class AgentTask extends StreamingAiTask<AgentTaskInput, AgentTaskOutput, AgentTaskConfig> {
+  public static override type = "AgentTask";
+  public static runtype = "ToolCallingTask";
+  public static override category = "AI Text Model";
+  public static override title = "Agent";
+  public static override description =
+    "Runs a language model in a loop, calling the tools it requests until it produces a final answer";
+  public static override cacheable = false;
+
+  public static override inputSchema(): DataPortSchema {
+    return AgentInputSchema as DataPortSchema;
+  }
+
+  public static override outputSchema(): DataPortSchema {
+    return AgentOutputSchema as DataPortSchema;
+  }
+
+  /**
+   * Adds the entitlements of every task-backed tool to the model's, so the
+   * preflight check covers what the agent may call.
+   */
+  public override entitlements(): TaskEntitlements {
+    let entitlements = super.entitlements();
+    const tools = (this.runInputData?.tools ?? this.defaults.tools ?? []) as ReadonlyArray<
+      ToolDefinition | string
+    >;
+    for (const tool of tools) {
+      const definition = typeof tool === "string" ? { name: tool } : tool;
+      try {
+        const task = createToolTask(definition as ToolDefinition, this.runConfig.registry);
+        if (task) entitlements = mergeEntitlements(entitlements, task.entitlements());
+      } catch {
+        // Unknown tools fail when they are called, not while computing entitlements
+      }
+    }
+    return entitlements;
+  }
+
+  override async *executeStream(
+    input: AgentTaskInput,
+    context: IExecuteContext
+  ): AsyncIterable<StreamEvent<AgentTaskOutput>> {
+    const model = input.model as ModelConfig;
+    if (!model || typeof model !== "object") {
+      throw new TaskConfigurationError("AgentTask: model was not resolved to ModelConfig");
+    }
+    const strategy = getAiProviderRegistry().getStrategy(model);
+    const maxIterations = input.maxIterations ?? 10;
+    // Only the parts the model needs; functions and sub-graphs stay local
+    const providerTools: ToolDefinition[] = input.tools.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: tool.inputSchema,
+      ...(tool.outputSchema ? { outputSchema: tool.outputSchema } : {}),
+    }));
+
+    const firstUserBlocks: ContentBlock[] =
+      typeof input.prompt === "string"
+        ? [{ type: "text", text: input.prompt }]
+        : input.prompt.map((item) =>
+            typeof item === "string" ? { type: "text", text: item } : (item as ContentBlock)
+          );
+    const history: ChatMessage[] = [{ role: "user", content: firstUserBlocks }];
+
+    // As in AiChatTask, messages are yielded as deltas (ChatMessage has no id to upsert by)
+    yield {
+      type: "object-delta",
+      port: "messages",
+      objectDelta: [...history],
+    } as StreamEvent<AgentTaskOutput>;
+
+    let iterations = 0;
+    // Text of the current turn, and of all turns as streamed on `text`
+    let text = "";
+    let streamedText = "";
+    const streamText = (textDelta: string): StreamEvent<AgentTaskOutput> => {
+      if (streamedText && !text) textDelta = TURN_SEPARATOR + textDelta;
+      streamedText += textDelta;
+      return { type: "text-delta", port: "text", textDelta };
+    };
+    let stopReason: AgentStopReason = "max-iterations";
+    while (iterations < maxIterations) {
+      if (
+        input.tokenBudget !== undefined &&
+        estimateTranscriptTokens(input.systemPrompt, history) > input.tokenBudget
+      ) {
+        stopReason = "token-budget";
+        break;
+      }
+
+      const turnInput: ToolCallingTaskInput = {
+        model: input.model,
+        prompt: input.prompt,
+        systemPrompt: input.systemPrompt,
+        tools: providerTools,
+        messages: [...history],
+        maxTokens: input.maxTokens,
+        temperature: input.temperature,
+      };
+      const jobInput = await this.getJobInput(turnInput as unknown as AgentTaskInput);
+
+      text = "";
+      const toolCalls = new Map<string, ToolCall>();
+      const reservation = await reserveAiCall(
+        model,
+        turnInput as unknown as Record<string, unknown>,
+        context
+      );
+      const startedAt = performance.now();
+      try {
+        for await (const event of strategy.executeStream(
+          jobInput as any,
+          context,
+          this.runConfig.runnerId
+        )) {
+          if (event.type === "text-delta") {
+            const textDelta = (event as any).textDelta as string;
+            if (textDelta) {
+              yield streamText(textDelta);
+              text += textDelta;
+            }
+          } else if (event.type === "object-delta" && (event as any).port === "toolCalls") {
+            addToolCalls(toolCalls, (event as any).objectDelta);
+          } else if (event.type === "finish") {
+            const { output, usage } = takeAiUsage((event as any).data);
+            const record = normalizeAiUsage(
+              model,
+              jobInput.taskType,
+              usage,
+              performance.now() - startedAt
+            );
+            context.reportUsage?.(record);
+            reservation?.settle(record);
+            const data = output as Partial<ToolCallingTaskOutput> | undefined;
+            if (!text && data?.text) {
+              // Providers that do not stream deltas only report the text here
+              yield streamText(data.text);
+              text = data.text;
+            }
+            addToolCalls(toolCalls, data?.toolCalls);
+          }
+        }
+      } finally {
+        // Releases the token estimate of a turn that ended without a finish event
+        reservation?.settle();
+      }
+      iterations++;
+
+      const calls = [...toolCalls.values()];
+      const assistantMsg: ChatMessage = {
+        role: "assistant",
+        content: [
+          ...(text ? [{ type: "text" as const, text }] : []),
+          ...calls.map((call) => ({
+            type: "tool_use" as const,
+            id: call.id,
+            name: call.name,
+            input: call.input,
+          })),
+        ],
+      };
+      history.push(assistantMsg);
+      yield {
+        type: "object-delta",
+        port: "messages",
+        objectDelta: [assistantMsg],
+      } as StreamEvent<AgentTaskOutput>;
+
+      if (calls.length === 0) {
+        stopReason = "done";
+        break;
+      }
+
+      const results: ContentBlockToolResult[] = [];
+      for (const call of calls) {
+        results.push(await this.callTool(call, input.tools, context));
+      }
+      const toolMsg: ChatMessage = { role: "tool", content: results };
+      history.push(toolMsg);
+      yield {
+        type: "object-delta",
+        port: "messages",
+        objectDelta: [toolMsg],
+      } as StreamEvent<AgentTaskOutput>;
+    }
+
+    yield {
+      type: "finish",
+      data: { text: streamedText, messages: [...history], iterations, stopReason },
+    } as StreamEvent<AgentTaskOutput>;
+  }
+
+  override async execute(
+    input: AgentTaskInput,
+    context: IExecuteContext
+  ): Promise<AgentTaskOutput | undefined> {
+    let result: AgentTaskOutput | undefined;
+    for await (const event of this.executeStream(input, context)) {
+      if (event.type === "finish") {
+        result = (event as { type: "finish"; data: AgentTaskOutput }).data;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Runs one tool call and converts its output, or its error, to a tool result.
+   * Aborting the agent aborts the tool and ends the run.
+   */
+  protected async callTool(
+    call: ToolCall,
+    tools: ReadonlyArray<ToolDefinition>,
+    context: IExecuteContext
+  ): Promise<ContentBlockToolResult> {
+    const tool = tools.find((t) => t.name === call.name);
+    try {
+      if (!tool) {
+        throw new TaskConfigurationError(`Unknown tool "${call.name}"`);
+      }
+      let output: unknown;
+      if (tool.type === "function" || (tool.type === undefined && tool.execute)) {
+        if (!tool.execute) {
+          throw new TaskConfigurationError(`Tool "${tool.name}" has no execute function`);
+        }
+        output = await tool.execute(call.input);
+      } else {
+        const task = createToolTask(tool, context.registry);
+        if (!task) {
+          throw new TaskConfigurationError(`Tool "${tool.name}" is not backed by a task`);
+        }
+        await checkToolEntitlements(tool, task, context.registry);
+        output = await context.own(task).run(call.input);
+      }
+      return toolResult(call.id, JSON.stringify(output ?? null), false);
+    } catch (err) {
+      if (context.signal.aborted) throw err;
+      return toolResult(call.id, err instanceof Error ? err.message : String(err), true);
+    }
+  }
+}
+
+// ========================================================================
+// Helpers
+// ========================================================================
+
+/**
+ * Creates the task that runs a tool: a GraphAsTask for `"graph"` tools,
+ * otherwise the registered task named by `taskType` (see `taskTypesToTools`)
+ * or by the tool name. Returns undefined for function-only tools.
+ *
+ * @param taskConfig - Extra task configuration (such as `id` or `defaults`),
+ *   merged over the tool's own `config`
+ */
+export function createToolTask(
+  tool: ToolDefinition,
+  registry?: ServiceRegistry,
+  taskConfig: Record<string, unknown> = {}
+): ITask<any, any, any> | undefined {
+  if (tool.type === "graph" || (tool.type === undefined && tool.graph)) {
+    if (!tool.graph) {
+      throw new TaskConfigurationError(`Tool "${tool.name}" has no graph`);
+    }
+    return new GraphAsTask({
+      ...taskConfig,
+      subGraph: createGraphFromGraphJSON(tool.graph, registry),
+    });
+  }
+  if (tool.type === "function" || (tool.type === undefined && tool.execute)) {
+    return undefined;
+  }
+  const taskType = (tool as { taskType?: string }).taskType ?? tool.name;
+  const ctor = getTaskConstructors(registry).get(taskType);
+  if (!ctor) {
+    throw new TaskConfigurationError(`Unknown task type "${taskType}" for tool "${tool.name}"`);
+  }
+  return new ctor({ ...tool.config, ...taskConfig });
+}
+
+async function checkToolEntitlements(
+  tool: ToolDefinition,
+  task: ITask,
+  registry: ServiceRegistry
+): Promise<void> {
+  if (!registry.has(ENTITLEMENT_ENFORCER)) return;
+  const denied = await registry.get(ENTITLEMENT_ENFORCER).checkTask(task);
+  if (denied.length > 0) {
+    throw new TaskEntitlementError(
+      `Tool "${tool.name}" denied entitlements: ${denied.map(formatEntitlementDenial).join(", ")}`
+    );
+  }
+}
+
+/** Merges streamed tool calls, which providers send as snapshots or per-call updates. */
+function addToolCalls(toolCalls: Map<string, ToolCall>, delta: unknown): void {
+  if (!delta) return;
+  for (const call of (Array.isArray(delta) ? delta : [delta]) as ToolCall[]) {
+    if (call?.id && call.name) toolCalls.set(call.id, call);
+  }
+}
+
+function toolResult(toolUseId: string, text: string, isError: boolean): ContentBlockToolResult {
+  return {
+    type: "tool_result",
+    tool_use_id: toolUseId,
+    content: [{ type: "text", text }],
+    is_error: isError,
+  };
+}
+
+function estimateTranscriptTokens(
+  systemPrompt: string | undefined,
+  history: ReadonlyArray<ChatMessage>
+): number {
+  let tokens = systemPrompt ? estimateTokens(systemPrompt) : 0;
+  for (const message of history) {
+    for (const block of message.content) {
+      if (block.type === "text") {
+        tokens += estimateTokens(block.text);
+      } else if (block.type === "tool_use") {
+        tokens += estimateTokens(JSON.stringify(block.input));
+      } else if (block.type === "tool_result") {
+        for (const inner of block.content) {
+          if (inner.type === "text") tokens += estimateTokens(inner.text);
+        }
+      }
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Convenience function to run an agent.
+ */
+export const agent = (input: AgentTaskInput, config?: AgentTaskConfig) => {
+  return new AgentTask(config).run(input);
+};
+
+declare module "@workglow/task-graph" {
+  interface Workflow {
+    agent: CreateWorkflow<AgentTaskInput, AgentTaskOutput, AgentTaskConfig>;
+  }
+}
+
+Workflow.prototype.agent = CreateWorkflow(AgentTask);
@@ -10,6 +10,7 @@ import type { DataPortSchema, FromSchema } from "@workglow/util/schema";
 import type { AiJobInput } from "../job/AiJob";
 import type { ModelConfig } from "../model/ModelSchema";
 import { getAiProviderRegistry } from "../provider/AiProviderRegistry";
+import { normalizeAiUsage, reserveAiCall, takeAiUsage } from "../provider/AiProviderUsage";
 import { TypeModel } from "./base/AiTaskSchemas";
 import { StreamingAiTask } from "./base/StreamingAiTask";
 import type { ChatMessage, ContentBlock } from "./ChatMessage";
@@ -254,22 +255,38 @@ export class AiChatTask extends StreamingAiTask<AiChatTaskInput, AiChatTaskOutpu
       const turnJobInput = await this.getJobInput(perTurnInput);
 
       let assistantText = "";
-      for await (const event of strategy.executeStream(
-        turnJobInput as any,
-        context,
-        this.runConfig.runnerId
-      )) {
-        if (event.type === "text-delta") {
-          assistantText += (event as any).textDelta;
-          yield {
-            ...event,
-            port: (event as any).port ?? "text",
-          } as StreamEvent<AiChatTaskOutput>;
-        } else if (event.type === "finish") {
-          // swallow — we emit our own finish at the end
-        } else {
-          yield event as StreamEvent<AiChatTaskOutput>;
+      const reservation = await reserveAiCall(model, perTurnInput, context);
+      const startedAt = performance.now();
+      try {
+        for await (const event of strategy.executeStream(
+          turnJobInput as any,
+          context,
+          this.runConfig.runnerId
+        )) {
+          if (event.type === "text-delta") {
+            assistantText += (event as any).textDelta;
+            yield {
+              ...event,
+              port: (event as any).port ?? "text",
+            } as StreamEvent<AiChatTaskOutput>;
+          } else if (event.type === "finish") {
+            // swallow (we emit our own finish at the end), but report the turn's usage
+            const { usage } = takeAiUsage((event as any).data);
+            const record = normalizeAiUsage(
+              model,
+              turnJobInput.taskType,
+              usage,
+              performance.now() - startedAt
+            );
+            context.reportUsage?.(record);
+            reservation?.settle(record);
+          } else {
+            yield event as StreamEvent<AiChatTaskOutput>;
+          }
         }
+      } finally {
+        // Releases the token estimate of a turn that ended without a finish event
+        reservation?.settle();
       }
 
       iterations++;
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CreateWorkflow, Workflow } from "@workglow/task-graph";
+import type { TaskConfig } from "@workglow/task-graph";
+import { DataPortSchema, FromSchema, TypedArraySchemaOptions } from "@workglow/util/schema";
+import { TypeAudioBinary, TypeAudioInput, TypeLanguage, TypeModel } from "./base/AiTaskSchemas";
+import { StreamingAiTask } from "./base/StreamingAiTask";
+
+const modelSchema = TypeModel("model:AutomaticSpeechRecognitionTask");
+
+export const AutomaticSpeechRecognitionInputSchema = {
+  type: "object",
+  properties: {
+    audio: {
+      oneOf: [TypeAudioInput, TypeAudioBinary],
+      title: "Audio",
+      description: "The speech to transcribe, as a WAV data URI or raw PCM audio",
+    },
+    model: modelSchema,
+    language: TypeLanguage({
+      title: "Language",
+      description: "Language spoken in the audio (detected by the model when omitted)",
+      "x-ui-group": "Configuration",
+    }),
+    returnTimestamps: {
+      type: "boolean",
+      title: "Return Timestamps",
+      description: "Whether to return timed segments of the transcript",
+      default: true,
+      "x-ui-group": "Configuration",
+    },
+  },
+  required: ["audio", "model"],
+  additionalProperties: false,
+} as const satisfies DataPortSchema;
+
+export const AutomaticSpeechRecognitionOutputSchema = {
+  type: "object",
+  properties: {
+    text: {
+      type: "string",
+      title: "Text",
+      description: "The transcript",
+      "x-stream": "append",
+    },
+    segments: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          text: { type: "string", title: "Text" },
+          start: { type: "number", title: "Start", description: "Start time in seconds" },
+          end: { type: "number", title: "End", description: "End time in seconds" },
+        },
+        required: ["text", "start", "end"],
+        additionalProperties: false,
+      },
+      title: "Segments",
+      description: "Timed segments of the transcript, when timestamps were requested",
+    },
+  },
+  required: ["text"],
+  additionalProperties: false,
+} as const satisfies DataPortSchema;
+
+export type AutomaticSpeechRecognitionTaskInput = FromSchema<
+  typeof AutomaticSpeechRecognitionInputSchema,
+  TypedArraySchemaOptions
+>;
+export type AutomaticSpeechRecognitionTaskOutput = FromSchema<
+  typeof AutomaticSpeechRecognitionOutputSchema
+>;
+export type AutomaticSpeechRecognitionTaskConfig = TaskConfig<AutomaticSpeechRecognitionTaskInput>;
+export type TranscriptSegment = NonNullable<
+  AutomaticSpeechRecognitionTaskOutput["segments"]
+>[number];
+
+/**
+ * Transcribes speech to text. Streaming providers emit the transcript as it
+ * is recognized; the timed segments arrive with the final result.
+ */
+export class AutomaticSpeechRecognitionTask extends StreamingAiTask<
+  AutomaticSpeechRecognitionTaskInput,
+  AutomaticSpeechRecognitionTaskOutput,
+  AutomaticSpeechRecognitionTaskConfig
+> {
+  public static override type = "AutomaticSpeechRecognitionTask";
+  public static override category = "AI Audio Model";
+  public static override title = "Speech Recognition";
+  public static override description =
+    "Transcribes speech in audio to text, with optional timed segments";
+  public static override inputSchema(): DataPortSchema {
+    return AutomaticSpeechRecognitionInputSchema as DataPortSchema;
+  }
+  public static override outputSchema(): DataPortSchema {
+    return AutomaticSpeechRecognitionOutputSchema as DataPortSchema;
+  }
+}
+
+/**
+ * Convenience function to run speech recognition tasks.
+ * @param input The audio to transcribe and the model
+ * @returns Promise resolving to the transcript and its segments
+ */
+export const automaticSpeechRecognition = async (
+  input: AutomaticSpeechRecognitionTaskInput,
+  config?: AutomaticSpeechRecognitionTaskConfig
+) => {
+  return new AutomaticSpeechRecognitionTask(config).run(input);
+};
+
+declare module "@workglow/task-graph" {
+  interface Workflow {
+    automaticSpeechRecognition: CreateWorkflow<
+      AutomaticSpeechRecognitionTaskInput,
+      AutomaticSpeechRecognitionTaskOutput,
+      AutomaticSpeechRecognitionTaskConfig
+    >;
+  }
+}
+
+Workflow.prototype.automaticSpeechRecognition = CreateWorkflow(AutomaticSpeechRecognitionTask);
@@ -16,6 +16,8 @@ import {
   TypedArraySchema,
   TypedArraySchemaOptions,
 } from "@workglow/util/schema";
+import { getEmbeddingModelId } from "../job/EmbeddingMigrationJob";
+import type { ModelConfig } from "../model/ModelSchema";
 import { TypeModel } from "./base/AiTaskSchemas";
 import { TextEmbeddingTask } from "./TextEmbeddingTask";
 import type { ChunkSearchResult } from "@workglow/knowledge-base";
@@ -61,7 +63,9 @@ const inputSchema = {
     filter: {
       type: "object",
       title: "Metadata Filter",
-      description: "Filter results by metadata fields",
+      description:
+        "Filter results by metadata: an object of field values to match, or a filter expression such as { op: 'in', field: 'doc_id', values: [...] } (ops: eq, ne, in, range, exists, contains, and, or, not)",
+      additionalProperties: true,
     },
     scoreThreshold: {
       type: "number",
@@ -71,15 +75,30 @@ const inputSchema = {
       maximum: 1,
       default: 0,
     },
+    fusion: {
+      type: "string",
+      enum: ["weighted", "rrf"],
+      title: "Fusion",
+      description:
+        "For hybrid method: how vector and BM25 text rankings are combined — 'weighted' (weighted sum of normalized scores) or 'rrf' (reciprocal rank fusion)",
+      default: "weighted",
+    },
     vectorWeight: {
       type: "number",
       title: "Vector Weight",
       description:
-        "For hybrid method: weight for vector similarity (0-1), remainder goes to text relevance",
+        "For weighted fusion: weight for vector similarity (0-1), remainder goes to text relevance",
       minimum: 0,
       maximum: 1,
       default: 0.7,
     },
+    rrfK: {
+      type: "number",
+      title: "RRF K",
+      description: "For rrf fusion: rank constant; larger values flatten the rank differences",
+      minimum: 1,
+      default: 60,
+    },
     returnVectors: {
       type: "boolean",
       title: "Return Vectors",
@@ -167,7 +186,10 @@ export type ChunkRetrievalTaskConfig = TaskConfig<ChunkRetrievalTaskInput>;
 
 /**
  * End-to-end retrieval task that combines query embedding (if needed), vector
- * search, and optional hybrid full-text search in a single step.
+ * search, and optional hybrid full-text search in a single step. Hybrid
+ * retrieval fuses the vector and BM25 rankings by weighted score or by
+ * reciprocal rank fusion (`fusion`). A string query is refused when `model`
+ * is not the knowledge base's embedding model.
  */
 export class ChunkRetrievalTask extends Task<
   ChunkRetrievalTaskInput,
@@ -200,7 +222,9 @@ export class ChunkRetrievalTask extends Task<
       filter,
       model,
       method = "similarity",
+      fusion = "weighted",
       vectorWeight = 0.7,
+      rrfK = 60,
       scoreThreshold = 0,
       returnVectors = false,
     } = input;
@@ -231,6 +255,8 @@ export class ChunkRetrievalTask extends Task<
         );
       }
       queryText = query;
+      const modelId = getEmbeddingModelId(model as string | ModelConfig);
+      if (modelId !== undefined) kb.assertEmbeddingModel(modelId);
       const embeddingTask = context.own(new TextEmbeddingTask());
       const embeddingResult = await embeddingTask.run({ text: query, model });
       const vec = embeddingResult.vector;
@@ -251,7 +277,9 @@ export class ChunkRetrievalTask extends Task<
             topK,
             filter,
             scoreThreshold,
+            fusion,
             vectorWeight,
+            rrfK,
           })
         : await kb.similaritySearch(searchVector, {
             topK,
@@ -0,0 +1,169 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ChunkRecord, KnowledgeBase } from "@workglow/knowledge-base";
+import { ChunkRecordArraySchema, TypeKnowledgeBase } from "@workglow/knowledge-base";
+import { CreateWorkflow, IExecuteContext, Task, Workflow } from "@workglow/task-graph";
+import type { TaskConfig } from "@workglow/task-graph";
+import { DataPortSchema, FromSchema, TypedArray } from "@workglow/util/schema";
+import { getEmbeddingModelId } from "../job/EmbeddingMigrationJob";
+import type { ModelConfig } from "../model/ModelSchema";
+import { TypeModel } from "./base/AiTaskSchemas";
+import { TextEmbeddingTask } from "./TextEmbeddingTask";
+
+const inputSchema = {
+  type: "object",
+  properties: {
+    knowledgeBase: TypeKnowledgeBase({
+      title: "Knowledge Base",
+      description: "The knowledge base holding the document's chunks",
+    }),
+    doc_id: {
+      type: "string",
+      title: "Document ID",
+      description: "The document whose chunks are replaced",
+    },
+    chunks: ChunkRecordArraySchema,
+    model: TypeModel("model:TextEmbeddingTask", {
+      title: "Embedding Model",
+      description: "Model used to embed new and changed chunks",
+    }),
+    doc_title: {
+      type: "string",
+      title: "Document Title",
+      description: "Optional human-readable title stamped onto each chunk's metadata",
+    },
+  },
+  required: ["knowledgeBase", "doc_id", "chunks", "model"],
+  additionalProperties: false,
+} as const satisfies DataPortSchema;
+
+const outputSchema = {
+  type: "object",
+  properties: {
+    doc_id: {
+      type: "string",
+      title: "Document ID",
+      description: "The document ID (passed through)",
+    },
+    chunk_ids: {
+      type: "array",
+      items: { type: "string" },
+      title: "Chunk IDs",
+      description: "Chunk IDs of the stored chunks, aligned with the input chunks",
+    },
+    count: {
+      type: "number",
+      title: "Count",
+      description: "Number of chunks stored",
+    },
+    reused: {
+      type: "number",
+      title: "Reused",
+      description: "Unchanged chunks whose stored vector was reused",
+    },
+    embedded: {
+      type: "number",
+      title: "Embedded",
+      description: "New or changed chunks that were embedded",
+    },
+    deleted: {
+      type: "number",
+      title: "Deleted",
+      description: "Stored chunks no longer in the document, which were deleted",
+    },
+  },
+  required: ["doc_id", "chunk_ids", "count", "reused", "embedded", "deleted"],
+  additionalProperties: false,
+} as const satisfies DataPortSchema;
+
+export type ChunkVectorReindexTaskInput = FromSchema<typeof inputSchema>;
+export type ChunkVectorReindexTaskOutput = FromSchema<typeof outputSchema>;
+export type ChunkVectorReindexTaskConfig = TaskConfig<ChunkVectorReindexTaskInput>;
+
+/**
+ * Incremental alternative to `TextEmbeddingTask` + `ChunkVectorUpsertTask` for
+ * documents that were indexed before. Consumes the output of
+ * `HierarchicalChunkerTask` and, via `KnowledgeBase.reindexDocumentChunks`,
+ * embeds only the chunks whose `contentHash` is not already stored for the
+ * document, reuses the vectors of the rest and deletes chunks that are gone.
+ */
+export class ChunkVectorReindexTask extends Task<
+  ChunkVectorReindexTaskInput,
+  ChunkVectorReindexTaskOutput,
+  ChunkVectorReindexTaskConfig
+> {
+  public static override type = "ChunkVectorReindexTask";
+  public static override category = "Vector Store";
+  public static override title = "Reindex Document Chunks";
+  public static override description =
+    "Store a new version of a document's chunks, embedding only the chunks that changed";
+  public static override cacheable = false; // Has side effects
+
+  public static override inputSchema(): DataPortSchema {
+    return inputSchema as DataPortSchema;
+  }
+
+  public static override outputSchema(): DataPortSchema {
+    return outputSchema as DataPortSchema;
+  }
+
+  override async execute(
+    input: ChunkVectorReindexTaskInput,
+    context: IExecuteContext
+  ): Promise<ChunkVectorReindexTaskOutput> {
+    const { knowledgeBase, doc_id, chunks, model, doc_title } = input;
+    const kb = knowledgeBase as KnowledgeBase;
+    const modelId = getEmbeddingModelId(model as string | ModelConfig);
+    if (modelId !== undefined) kb.assertEmbeddingModel(modelId);
+
+    const records = (chunks as ChunkRecord[]).map((chunk) => {
+      const leafNodeId = chunk.leafNodeId ?? chunk.nodePath[chunk.nodePath.length - 1] ?? undefined;
+      return {
+        ...chunk,
+        ...(leafNodeId !== undefined ? { leafNodeId } : {}),
+        ...(doc_title ? { doc_title } : {}),
+      };
+    });
+
+    await context.updateProgress(1, "Reindexing chunks");
+
+    const result = await kb.reindexDocumentChunks(doc_id, records, async (text) => {
+      await context.updateProgress(10, `Embedding ${text.length} of ${records.length} chunks`);
+      const embeddingTask = context.own(new TextEmbeddingTask());
+      const { vector } = await embeddingTask.run({ text, model });
+      return (Array.isArray(vector) ? vector : [vector]) as TypedArray[];
+    });
+
+    return {
+      doc_id,
+      chunk_ids: result.chunk_ids,
+      count: result.chunk_ids.length,
+      reused: result.reused,
+      embedded: result.embedded,
+      deleted: result.deleted,
+    };
+  }
+}
+
+export const chunkVectorReindex = (
+  input: ChunkVectorReindexTaskInput,
+  config?: ChunkVectorReindexTaskConfig
+) => {
+  return new ChunkVectorReindexTask(config).run(input);
+};
+
+declare module "@workglow/task-graph" {
+  interface Workflow {
+    chunkVectorReindex: CreateWorkflow<
+      ChunkVectorReindexTaskInput,
+      ChunkVectorReindexTaskOutput,
+      ChunkVectorReindexTaskConfig
+    >;
+  }
+}
+
+Workflow.prototype.chunkVectorReindex = CreateWorkflow(ChunkVectorReindexTask);
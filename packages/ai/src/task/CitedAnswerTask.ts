@@ -0,0 +1,349 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ChunkRecordArraySchema, TypeKnowledgeBase } from "@workglow/knowledge-base";
+import type { ChunkRecord, KnowledgeBase } from "@workglow/knowledge-base";
+import { CreateWorkflow, IExecuteContext, Task, Workflow } from "@workglow/task-graph";
+import type { TaskConfig } from "@workglow/task-graph";
+import { DataPortSchema, FromSchema } from "@workglow/util/schema";
+import { TypeModel } from "./base/AiTaskSchemas";
+import { TextGenerationTask } from "./TextGenerationTask";
+
+const inputSchema = {
+  type: "object",
+  properties: {
+    knowledgeBase: TypeKnowledgeBase({
+      title: "Knowledge Base",
+      description: "The knowledge base the chunks were retrieved from, used to verify citations",
+    }),
+    question: {
+      type: "string",
+      title: "Question",
+      description: "The question to answer",
+    },
+    model: TypeModel("model:TextGenerationTask", {
+      title: "Model",
+      description: "Model that writes the answer",
+    }),
+    metadata: ChunkRecordArraySchema,
+    chunks: {
+      type: "array",
+      items: { type: "string" },
+      title: "Chunks",
+      description: "Retrieved text chunks (optional, defaults to the text in metadata)",
+    },
+    chunk_ids: {
+      type: "array",
+      items: { type: "string" },
+      title: "Chunk IDs",
+      description: "IDs of retrieved chunks",
+    },
+    maxTokens: {
+      type: "number",
+      title: "Max Tokens",
+      description: "The maximum number of tokens to generate",
+      minimum: 1,
+      maximum: 4096,
+    },
+  },
+  required: ["knowledgeBase", "question", "model", "metadata"],
+  additionalProperties: false,
+} as const satisfies DataPortSchema;
+
+const citationSchema = {
+  type: "object",
+  properties: {
+    source: {
+      type: "integer",
+      title: "Source",
+      description: "Number of the source in the context, as cited in the answer",
+    },
+    chunk_id: { type: "string", title: "Chunk ID" },
+    doc_id: { type: "string", title: "Document ID" },
+    nodeId: {
+      type: "string",
+      title: "Node ID",
+      description: "ID of the document node holding the chunk",
+    },
+    nodePath: {
+      type: "array",
+      items: { type: "string" },
+      title: "Node Path",
+      description: "Node IDs from the document root to the node",
+    },
+    sectionTitles: {
+      type: "array",
+      items: { type: "string" },
+      title: "Section Titles",
+      description: "Titles of the sections containing the node",
+    },
+    startOffset: {
+      type: "integer",
+      title: "Start Offset",
+      description:
+        "Character offset of the chunk text in the source document (of the node, for markup sources)",
+    },
+    endOffset: {
+      type: "integer",
+      title: "End Offset",
+      description: "Character offset just past the cited text in the source document",
+    },
+    text: {
+      type: "string",
+      title: "Text",
+      description: "The cited chunk text",
+    },
+    verified: {
+      type: "boolean",
+      title: "Verified",
+      description: "Whether the node still exists in the knowledge base and contains the text",
+    },
+  },
+  required: ["source", "doc_id", "text", "verified"],
+  additionalProperties: false,
+} as const satisfies DataPortSchema;
+
+const outputSchema = {
+  type: "object",
+  properties: {
+    text: {
+      type: "string",
+      title: "Answer",
+      description: "The answer, with citation markers such as [1]",
+    },
+    citations: {
+      type: "array",
+      items: citationSchema,
+      title: "Citations",
+      description: "The cited sources, in order of their number",
+    },
+    unsupportedClaims: {
+      type: "array",
+      items: { type: "string" },
+      title: "Unsupported Claims",
+      description: "Sentences of the answer without a verified citation",
+    },
+    hasUnsupportedClaims: {
+      type: "boolean",
+      title: "Has Unsupported Claims",
+      description: "Whether any sentence of the answer lacks a verified citation",
+    },
+    invalidCitations: {
+      type: "array",
+      items: { type: "integer" },
+      title: "Invalid Citations",
+      description: "Cited numbers that match no source in the context",
+    },
+  },
+  required: ["text", "citations", "unsupportedClaims", "hasUnsupportedClaims", "invalidCitations"],
+  additionalProperties: false,
+} as const satisfies DataPortSchema;
+
+export type CitedAnswerTaskInput = FromSchema<typeof inputSchema>;
+export type CitedAnswerTaskOutput = FromSchema<typeof outputSchema>;
+export type CitedAnswerTaskConfig = TaskConfig<CitedAnswerTaskInput>;
+export type Citation = FromSchema<typeof citationSchema>;
+
+/**
+ * A sentence of an answer and the source numbers it cites
+ */
+export interface CitedClaim {
+  readonly text: string;
+  readonly sources: number[];
+}
+
+const MARKER = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+const LEADING_MARKERS = /^(?:\[\d+(?:\s*,\s*\d+)*\]\s*)+/;
+
+/**
+ * Splits an answer into sentences and collects the `[n]` / `[n, m]` markers
+ * of each. Markers placed after a sentence's full stop count for that
+ * sentence. Fragments without letters or digits (list bullets, stray
+ * punctuation) are dropped.
+ */
+export function parseCitedClaims(answer: string): CitedClaim[] {
+  const claims: string[] = [];
+  for (const line of answer.split(/\n+/)) {
+    const start = claims.length;
+    for (let part of line.split(/(?<=[.!?])\s+/)) {
+      const lead = part.match(LEADING_MARKERS);
+      if (lead && claims.length > start) {
+        claims[claims.length - 1] += ` ${lead[0].trim()}`;
+        part = part.slice(lead[0].length);
+      }
+      if (part.trim()) claims.push(part.trim());
+    }
+  }
+
+  return claims
+    .filter((text) => /[\p{L}\p{N}]/u.test(text.replace(MARKER, "")))
+    .map((text) => ({
+      text,
+      sources: Array.from(text.matchAll(MARKER)).flatMap((m) =>
+        m[1].split(",").map((n) => Number.parseInt(n.trim(), 10))
+      ),
+    }));
+}
+
+/**
+ * Answers a question from retrieved chunks with inline citations. The chunks
+ * are numbered in the prompt and the model is asked to cite them as `[n]`.
+ * Each cited number is resolved to its chunk and checked against the
+ * knowledge base: the chunk's node must still exist (`getNode`) and contain
+ * the chunk text, which gives the character span in the document; the
+ * section titles come from `getAncestors`. Sentences that cite no verified
+ * source are returned as unsupported claims.
+ *
+ * Consumes the `metadata` port of `ChunkRetrievalTask` (or `HierarchyJoinTask`),
+ * i.e. the `ChunkSearchResult`s of a search.
+ */
+export class CitedAnswerTask extends Task<
+  CitedAnswerTaskInput,
+  CitedAnswerTaskOutput,
+  CitedAnswerTaskConfig
+> {
+  public static override type = "CitedAnswerTask";
+  public static override category = "RAG";
+  public static override title = "Cited Answer";
+  public static override description =
+    "Answer a question from retrieved chunks, citing and verifying the sources used";
+  public static override cacheable = false; // Verification reads the knowledge base
+
+  public static override inputSchema(): DataPortSchema {
+    return inputSchema as DataPortSchema;
+  }
+
+  public static override outputSchema(): DataPortSchema {
+    return outputSchema as DataPortSchema;
+  }
+
+  override async execute(
+    input: CitedAnswerTaskInput,
+    context: IExecuteContext
+  ): Promise<CitedAnswerTaskOutput> {
+    const { knowledgeBase, question, model, chunks, chunk_ids, maxTokens } = input;
+    const kb = knowledgeBase as KnowledgeBase;
+    const metadata = input.metadata as ChunkRecord[];
+    const texts = metadata.map((meta, i) => chunks?.[i] ?? meta?.text ?? "");
+
+    const prompt = CitedAnswerTask.buildPrompt(question, texts);
+    const generation = context.own(new TextGenerationTask());
+    const { text } = await generation.run({
+      model,
+      prompt,
+      ...(maxTokens !== undefined ? { maxTokens } : {}),
+    });
+    const answer = (text as string).trim();
+
+    const claims = parseCitedClaims(answer);
+    const cited = new Set(claims.flatMap((claim) => claim.sources));
+    const invalidCitations = [...cited]
+      .filter((n) => n < 1 || n > texts.length)
+      .sort((a, b) => a - b);
+
+    const citations: Citation[] = [];
+    for (const source of [...cited].sort((a, b) => a - b)) {
+      if (source < 1 || source > texts.length) continue;
+      const meta = metadata[source - 1];
+      citations.push(
+        await this.resolveCitation(kb, source, meta, texts[source - 1], chunk_ids?.[source - 1])
+      );
+    }
+
+    const verified = new Set(citations.filter((c) => c.verified).map((c) => c.source));
+    const unsupportedClaims = claims
+      .filter((claim) => !claim.sources.some((n) => verified.has(n)))
+      .map((claim) => claim.text);
+
+    return {
+      text: answer,
+      citations,
+      unsupportedClaims,
+      hasUnsupportedClaims: unsupportedClaims.length > 0,
+      invalidCitations,
+    };
+  }
+
+  /**
+   * Builds the prompt: instructions, the chunks numbered from 1, the question
+   */
+  static buildPrompt(question: string, chunks: readonly string[]): string {
+    const sources = chunks.map((chunk, i) => `[${i + 1}] ${chunk}`).join("\n\n");
+    return [
+      "Answer the question using only the numbered sources below.",
+      "After each sentence, cite the sources that support it by number in square brackets, e.g. [1] or [1, 3].",
+      "Do not cite a source that does not support the sentence.",
+      "If the sources do not contain the answer, say so.",
+      "",
+      "Sources:",
+      sources,
+      "",
+      `Question: ${question}`,
+      "",
+      "Answer:",
+    ].join("\n");
+  }
+
+  /**
+   * Locates a cited chunk in its document
+   */
+  private async resolveCitation(
+    kb: KnowledgeBase,
+    source: number,
+    meta: ChunkRecord | undefined,
+    text: string,
+    chunk_id: string | undefined
+  ): Promise<Citation> {
+    const doc_id = meta?.doc_id ?? "";
+    const nodeId = meta?.leafNodeId ?? meta?.nodePath?.[meta.nodePath.length - 1];
+    const citation: Citation = {
+      source,
+      doc_id,
+      text,
+      verified: false,
+      ...(chunk_id !== undefined ? { chunk_id } : {}),
+      ...(nodeId !== undefined ? { nodeId } : {}),
+    };
+    if (!doc_id || !nodeId) return citation;
+
+    const node = await kb.getNode(doc_id, nodeId);
+    if (!node) return citation;
+    const ancestors = await kb.getAncestors(doc_id, nodeId);
+    citation.nodePath = ancestors.map((ancestor) => ancestor.nodeId);
+    const sectionTitles = ancestors
+      .filter((ancestor) => ancestor.kind === "section" && "title" in ancestor)
+      .map((ancestor) => (ancestor as { title: string }).title);
+    if (sectionTitles.length > 0) citation.sectionTitles = sectionTitles;
+
+    const offset = node.text.indexOf(text);
+    if (text && offset >= 0) {
+      const { startOffset, endOffset } = node.range;
+      if (endOffset - startOffset === node.text.length) {
+        citation.startOffset = startOffset + offset;
+        citation.endOffset = citation.startOffset + text.length;
+      } else {
+        // The node text is extracted from markup (e.g. HTML), so only the
+        // node's own range is known in the source
+        citation.startOffset = startOffset;
+        citation.endOffset = endOffset;
+      }
+      citation.verified = true;
+    }
+    return citation;
+  }
+}
+
+export const citedAnswer = (input: CitedAnswerTaskInput, config?: CitedAnswerTaskConfig) => {
+  return new CitedAnswerTask(config).run(input);
+};
+
+declare module "@workglow/task-graph" {
+  interface Workflow {
+    citedAnswer: CreateWorkflow<CitedAnswerTaskInput, CitedAnswerTaskOutput, CitedAnswerTaskConfig>;
+  }
+}
+
+Workflow.prototype.citedAnswer = CreateWorkflow(CitedAnswerTask);
@@ -61,6 +61,7 @@ export class CountTokensTask extends AiTask<
   public static override description =
     "Counts the number of tokens in a text string using the model's tokenizer";
   public static override cacheable = true;
+  public static override metered = false;
   public static override inputSchema(): DataPortSchema {
     return CountTokensInputSchema as DataPortSchema;
   }
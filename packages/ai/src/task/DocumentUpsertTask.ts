@@ -4,7 +4,12 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { Document, KnowledgeBase, TypeKnowledgeBase } from "@workglow/knowledge-base";
+import {
+  Document,
+  hashDocumentTree,
+  KnowledgeBase,
+  TypeKnowledgeBase,
+} from "@workglow/knowledge-base";
 import { DocumentMetadataSchema } from "@workglow/knowledge-base";
 import type { DocumentMetadata, DocumentNode } from "@workglow/knowledge-base";
 import type { TaskConfig } from "@workglow/task-graph";
@@ -61,8 +66,13 @@ const outputSchema = {
       title: "Document ID",
       description: "The document ID (passed through after persistence)",
     },
+    changed: {
+      type: "boolean",
+      title: "Changed",
+      description: "False when the stored document already had the same content hash",
+    },
   },
-  required: ["doc_id"],
+  required: ["doc_id", "changed"],
   additionalProperties: false,
 } as const satisfies DataPortSchema;
 
@@ -78,6 +88,9 @@ export type DocumentUpsertTaskConfig = TaskConfig<DocumentUpsertTaskInput>;
  *
  * Pure side-effect task: input `doc_id` is preserved on the output so
  * downstream tasks can chain on the upsert completing successfully.
+ *
+ * Every node of the stored tree gets a `contentHash` (see `hashDocumentTree`),
+ * and `changed` reports whether the content differs from the stored version.
  */
 export class DocumentUpsertTask extends Task<
   DocumentUpsertTaskInput,
@@ -120,11 +133,14 @@ export class DocumentUpsertTask extends Task<
 
     await context.updateProgress(1, "Upserting document");
 
-    const document = new Document(documentTree as DocumentNode, merged, [], doc_id);
+    const root = await hashDocumentTree(documentTree as DocumentNode);
+    const previous = await kb.getDocument(doc_id);
+    const document = new Document(root, merged, [], doc_id);
     const stored = await kb.upsertDocument(document);
 
     return {
       doc_id: stored.doc_id ?? doc_id,
+      changed: previous?.root.contentHash !== root.contentHash,
     };
   }
 }
@@ -57,6 +57,7 @@ export class DownloadModelTask extends AiTask<
     return DownloadModelOutputSchema satisfies DataPortSchema;
   }
   public static override cacheable = false;
+  public static override metered = false;
 
   public files: { file: string; progress: number }[] = [];
 
@@ -9,6 +9,7 @@ import {
   DocumentRootNode,
   estimateTokens,
   getChildren,
+  hashChunkText,
   hasChildren,
 } from "@workglow/knowledge-base";
 
@@ -111,6 +112,8 @@ export type HierarchicalChunkerTaskConfig = TaskConfig<HierarchicalChunkerTaskIn
 
 /**
  * Task for hierarchical chunking that respects token budgets and document structure.
+ * Each chunk carries the `contentHash` of its text, so re-indexing a new
+ * version of the document can reuse the vectors of unchanged chunks.
  * Pass a `model` in the input to use {@link CountTokensTask} for accurate token
  * counting; when omitted, the task falls back to the character-based estimate
  * provided by {@link estimateTokens}.
@@ -258,6 +261,7 @@ export class HierarchicalChunkerTask extends Task<
         text,
         nodePath,
         depth: nodePath.length,
+        contentHash: await hashChunkText(text),
       });
       return;
     }
@@ -290,12 +294,14 @@ export class HierarchicalChunkerTask extends Task<
       // include that character anyway (the chunk may be slightly oversize).
       const endOffset = Math.max(Math.min(boundary, text.length), startOffset + 1);
 
+      const chunkText = text.substring(startOffset, endOffset);
       chunks.push({
         chunkId: uuid4(),
         doc_id,
-        text: text.substring(startOffset, endOffset),
+        text: chunkText,
         nodePath,
         depth: nodePath.length,
+        contentHash: await hashChunkText(chunkText),
       });
 
       if (endOffset >= text.length) break;
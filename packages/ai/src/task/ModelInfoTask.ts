@@ -85,6 +85,7 @@ export class ModelInfoTask extends AiTask<
   public static override type = "ModelInfoTask";
   public static override category = "AI Model";
   public static override cacheable = false;
+  public static override metered = false;
   public static override title = "Model Info";
   public static override description =
     "Returns runtime information about a model including locality, cache status, and file sizes";
@@ -25,9 +25,10 @@ const inputSchema = {
     },
     format: {
       type: "string",
-      enum: ["markdown", "text", "auto"],
+      enum: ["markdown", "text", "html", "pdf", "auto"],
       title: "Format",
-      description: "Document format (auto-detects if not specified)",
+      description:
+        "Document format (auto-detects if not specified); pdf expects extracted text with form feeds between pages",
       default: "auto",
     },
     sourceUri: {
@@ -77,7 +78,7 @@ export type StructuralParserTaskConfig = TaskConfig<StructuralParserTaskInput>;
 
 /**
  * Task for parsing documents into hierarchical tree structure
- * Supports markdown and plain text with automatic format detection
+ * Supports markdown, HTML, PDF text and plain text with automatic format detection
  */
 export class StructuralParserTask extends Task<
   StructuralParserTaskInput,
@@ -114,6 +115,10 @@ export class StructuralParserTask extends Task<
       documentTree = await StructuralParser.parseMarkdown(doc_id, text, title);
     } else if (format === "text") {
       documentTree = await StructuralParser.parsePlainText(doc_id, text, title);
+    } else if (format === "html") {
+      documentTree = await StructuralParser.parseHtml(doc_id, text, title);
+    } else if (format === "pdf") {
+      documentTree = await StructuralParser.parsePdf(doc_id, text, title);
     } else {
       // Auto-detect
       documentTree = await StructuralParser.parse(doc_id, text, title);
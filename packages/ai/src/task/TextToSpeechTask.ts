@@ -0,0 +1,102 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CreateWorkflow, Workflow } from "@workglow/task-graph";
+import type { TaskConfig } from "@workglow/task-graph";
+import { DataPortSchema, FromSchema, TypedArraySchemaOptions } from "@workglow/util/schema";
+import { AiTask } from "./base/AiTask";
+import { TypeAudioBinary, TypeModel } from "./base/AiTaskSchemas";
+
+const modelSchema = TypeModel("model:TextToSpeechTask");
+
+export const TextToSpeechInputSchema = {
+  type: "object",
+  properties: {
+    text: {
+      type: "string",
+      title: "Text",
+      description: "The text to speak",
+    },
+    model: modelSchema,
+    voice: {
+      type: "string",
+      title: "Voice",
+      description:
+        "Voice to speak with, as named by the provider (e.g. an OpenAI voice or a speaker embeddings URL)",
+      "x-ui-group": "Configuration",
+    },
+    speed: {
+      type: "number",
+      title: "Speed",
+      description: "Speaking rate, 1 being normal speed",
+      minimum: 0.25,
+      maximum: 4,
+      "x-ui-group": "Configuration",
+    },
+  },
+  required: ["text", "model"],
+  additionalProperties: false,
+} as const satisfies DataPortSchema;
+
+export const TextToSpeechOutputSchema = {
+  type: "object",
+  properties: {
+    audio: TypeAudioBinary,
+  },
+  required: ["audio"],
+  additionalProperties: false,
+} as const satisfies DataPortSchema;
+
+export type TextToSpeechTaskInput = FromSchema<typeof TextToSpeechInputSchema>;
+export type TextToSpeechTaskOutput = FromSchema<
+  typeof TextToSpeechOutputSchema,
+  TypedArraySchemaOptions
+>;
+export type TextToSpeechTaskConfig = TaskConfig<TextToSpeechTaskInput>;
+
+/**
+ * Synthesizes speech from text as raw PCM audio
+ */
+export class TextToSpeechTask extends AiTask<
+  TextToSpeechTaskInput,
+  TextToSpeechTaskOutput,
+  TextToSpeechTaskConfig
+> {
+  public static override type = "TextToSpeechTask";
+  public static override category = "AI Audio Model";
+  public static override title = "Text to Speech";
+  public static override description = "Synthesizes spoken audio from text";
+  public static override inputSchema(): DataPortSchema {
+    return TextToSpeechInputSchema as DataPortSchema;
+  }
+  public static override outputSchema(): DataPortSchema {
+    return TextToSpeechOutputSchema as DataPortSchema;
+  }
+}
+
+/**
+ * Convenience function to run text to speech tasks.
+ * @param input The text to speak and the model
+ * @returns Promise resolving to the synthesized audio
+ */
+export const textToSpeech = async (
+  input: TextToSpeechTaskInput,
+  config?: TextToSpeechTaskConfig
+) => {
+  return new TextToSpeechTask(config).run(input);
+};
+
+declare module "@workglow/task-graph" {
+  interface Workflow {
+    textToSpeech: CreateWorkflow<
+      TextToSpeechTaskInput,
+      TextToSpeechTaskOutput,
+      TextToSpeechTaskConfig
+    >;
+  }
+}
+
+Workflow.prototype.textToSpeech = CreateWorkflow(TextToSpeechTask);
@@ -4,6 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import type { TaskGraphJson } from "@workglow/task-graph";
 import { getLogger } from "@workglow/util/worker";
 import type { JsonSchema } from "@workglow/util/worker";
 
@@ -28,15 +29,18 @@ export interface ToolDefinition {
    * duck-typing heuristics:
    * - `"function"` — uses the `execute` function directly
    * - `"task"` — looks up the task by `name` in the TaskRegistry
+   * - `"graph"` — runs {@link graph} as a sub-graph
    *
    * When omitted, resolution falls back to the existing heuristic
    * (check `execute`, then registry lookup, then stub).
    */
-  type?: "function" | "task";
+  type?: "function" | "task" | "graph";
   /** JSON Schema describing the task's configuration options. */
   configSchema?: JsonSchema;
   /** Concrete configuration values matching {@link configSchema}. */
   config?: Record<string, unknown>;
+  /** Serialized sub-graph run by `"graph"` tools; its inputs are the tool's input. */
+  graph?: TaskGraphJson;
   /**
    * Optional custom executor function. When provided, the tool is executed
    * by calling this function directly instead of instantiating a Task.
@@ -0,0 +1,171 @@
+/**
+ * @license
+ * Copyright 2026 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { GraphToWorkflowCodeOptions, TaskGraphRepository } from "@workglow/task-graph";
+import {
+  Dataflow,
+  graphToWorkflowCode,
+  TaskConfigurationError,
+  TaskGraph,
+} from "@workglow/task-graph";
+import type { ServiceRegistry } from "@workglow/util";
+import { deepEqual } from "@workglow/util";
+import { createToolTask } from "./AgentTask";
+import type { ChatMessage, ContentBlockToolResult, ContentBlockToolUse } from "./ChatMessage";
+import type { ToolDefinition } from "./ToolCallingUtils";
+
+/**
+ * Options for {@link transcriptToGraph}.
+ */
+export interface TranscriptToGraphOptions {
+  /**
+   * The tools the transcript was recorded with. Tool names map to the task
+   * type and config that backed them (as for `AgentTask`); calls to tools not
+   * listed here are looked up as task types by name.
+   */
+  readonly tools?: ReadonlyArray<ToolDefinition>;
+  /** Service registry for task constructor lookup. */
+  readonly registry?: ServiceRegistry;
+  /** Keep calls whose result was an error. @default false */
+  readonly includeFailedCalls?: boolean;
+}
+
+interface RecordedCall {
+  readonly use: ContentBlockToolUse;
+  readonly output: Record<string, unknown> | undefined;
+}
+
+/**
+ * Converts a recorded tool-calling transcript (such as `AgentTask`'s
+ * `messages` output) into a `TaskGraph` that replays the tool calls without
+ * the model.
+ *
+ * Each `tool_use` block becomes a task, with the call's id as task id. When an
+ * input value of a call equals an output port value of an earlier call's
+ * `tool_result`, the two are connected by a `Dataflow` (the most recent
+ * producer wins); the remaining input values become the task's defaults. Tool
+ * results are read as JSON objects, as `AgentTask` records them. Failed calls
+ * are left out unless `includeFailedCalls` is set.
+ *
+ * @throws {TaskConfigurationError} If a call cannot be replayed, e.g. because
+ *   its tool is an `execute` function or its task type is not registered
+ */
+export function transcriptToGraph(
+  messages: ReadonlyArray<ChatMessage>,
+  options: TranscriptToGraphOptions = {}
+): TaskGraph {
+  const results = new Map<string, ContentBlockToolResult>();
+  const uses: ContentBlockToolUse[] = [];
+  for (const message of messages) {
+    for (const block of message.content) {
+      if (block.type === "tool_use") uses.push(block);
+      else if (block.type === "tool_result") results.set(block.tool_use_id, block);
+    }
+  }
+
+  const graph = new TaskGraph();
+  const recorded: RecordedCall[] = [];
+  for (const use of uses) {
+    const result = results.get(use.id);
+    if (result?.is_error && !options.includeFailedCalls) continue;
+
+    const dataflows: Dataflow[] = [];
+    const defaults: Record<string, unknown> = {};
+    for (const [port, value] of Object.entries(use.input)) {
+      const source = isLinkable(value) ? findProducer(recorded, value) : undefined;
+      if (source) {
+        dataflows.push(new Dataflow(source.use.id, source.port, use.id, port));
+      } else {
+        defaults[port] = value;
+      }
+    }
+
+    const tool = options.tools?.find((t) => t.name === use.name) ?? {
+      name: use.name,
+      description: "",
+      inputSchema: {},
+    };
+    const task = createToolTask(tool, options.registry, { id: use.id, defaults });
+    if (!task) {
+      throw new TaskConfigurationError(
+        `Tool "${use.name}" runs a function and cannot be replayed as a task`
+      );
+    }
+    graph.addTask(task);
+    for (const dataflow of dataflows) graph.addDataflow(dataflow);
+    recorded.push({ use, output: parseToolOutput(result) });
+  }
+  return graph;
+}
+
+/**
+ * Converts a recorded transcript into Workflow builder code.
+ * See {@link transcriptToGraph} and `graphToWorkflowCode`.
+ */
+export function transcriptToWorkflowCode(
+  messages: ReadonlyArray<ChatMessage>,
+  options: TranscriptToGraphOptions & GraphToWorkflowCodeOptions = {}
+): string {
+  return graphToWorkflowCode(transcriptToGraph(messages, options), options);
+}
+
+/**
+ * Converts a recorded transcript into a graph and saves it under `key`.
+ * See {@link transcriptToGraph}.
+ */
+export async function saveTranscriptAsGraph(
+  repository: TaskGraphRepository,
+  key: string,
+  messages: ReadonlyArray<ChatMessage>,
+  options: TranscriptToGraphOptions = {}
+): Promise<TaskGraph> {
+  const graph = transcriptToGraph(messages, options);
+  await repository.saveTaskGraph(key, graph);
+  return graph;
+}
+
+// ========================================================================
+// Helpers
+// ========================================================================
+
+/** Values too common to link on: a match would most likely be a coincidence. */
+function isLinkable(value: unknown): boolean {
+  if (value === null || value === undefined || typeof value === "boolean") return false;
+  if (typeof value === "string") return value.length > 0;
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === "object") return Object.keys(value).length > 0;
+  return true;
+}
+
+function findProducer(
+  recorded: ReadonlyArray<RecordedCall>,
+  value: unknown
+): { use: ContentBlockToolUse; port: string } | undefined {
+  for (let i = recorded.length - 1; i >= 0; i--) {
+    const output = recorded[i].output;
+    if (!output) continue;
+    for (const [port, produced] of Object.entries(output)) {
+      if (deepEqual(produced, value)) return { use: recorded[i].use, port };
+    }
+  }
+  return undefined;
+}
+
+function parseToolOutput(
+  result: ContentBlockToolResult | undefined
+): Record<string, unknown> | undefined {
+  if (!result || result.is_error) return undefined;
+  const text = result.content
+    .filter((block) => block.type === "text")
+    .map((block) => block.text)
+    .join("");
+  try {
+    const output = JSON.parse(text);
+    return output && typeof output === "object" && !Array.isArray(output) ? output : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -57,6 +57,7 @@ export class UnloadModelTask extends AiTask<
     return UnloadModelOutputSchema satisfies DataPortSchema;
   }
   public static override cacheable = false;
+  public static override metered = false;
 }
 
 /**
@@ -34,6 +34,7 @@ import { MODEL_REPOSITORY } from "../../model/ModelRegistry";
 import type { ModelRepository } from "../../model/ModelRepository";
 import type { ModelConfig } from "../../model/ModelSchema";
 import { getAiProviderRegistry } from "../../provider/AiProviderRegistry";
+import { normalizeAiUsage, reserveAiCall, takeAiUsage } from "../../provider/AiProviderUsage";
 
 function schemaFormat(schema: JsonSchema): string | undefined {
   return typeof schema === "object" && schema !== null && "format" in schema
@@ -67,6 +68,12 @@ export class AiTask<
 > extends Task<Input, Output, Config> {
   public static override type: string = "AiTask";
   public static override hasDynamicEntitlements: boolean = true;
+  /**
+   * Whether the task makes billable model calls: metered tasks reserve each call
+   * against the run's budget and report its usage. False for model management
+   * and tokenizer tasks.
+   */
+  public static metered: boolean = true;
 
   public static override entitlements(): TaskEntitlements {
     return {
@@ -118,7 +125,28 @@ export class AiTask<
     const jobInput = await this.getJobInput(input);
     const strategy = getAiProviderRegistry().getStrategy(model);
 
-    const output = await strategy.execute(jobInput, executeContext, this.runConfig.runnerId);
+    const metered = (this.constructor as typeof AiTask).metered;
+    const reservation = metered ? await reserveAiCall(model, input, executeContext) : undefined;
+    const startedAt = performance.now();
+    let result: TaskOutput;
+    try {
+      result = await strategy.execute(jobInput, executeContext, this.runConfig.runnerId);
+    } catch (err) {
+      // A failed call still counts, but releases its token estimate
+      reservation?.settle();
+      throw err;
+    }
+    const { output, usage } = takeAiUsage(result);
+    if (metered) {
+      const record = normalizeAiUsage(
+        model,
+        jobInput.taskType,
+        usage,
+        performance.now() - startedAt
+      );
+      executeContext.reportUsage?.(record);
+      reservation?.settle(record);
+    }
 
     // Register a disposer so the caller can unload the model when done.
     if (executeContext.resourceScope) {
@@ -197,6 +225,7 @@ export class AiTask<
     const job = new AiJob<AiJobInput<Input>, Output>({
       queueName: resolvedQueueName,
       jobRunId: this.runConfig.runnerId,
+      priority: this.runConfig.priority,
       input: jobInput,
     });
     return job;
@@ -240,6 +269,14 @@ export class AiTask<
   // Validation
   // ========================================================================
 
+  /**
+   * The task type a model has to support to run this task: the provider run
+   * function type (`runtype`) when the task runs another task's, else its own type.
+   */
+  protected modelTaskType(): string {
+    return (this.constructor as any).runtype ?? this.type;
+  }
+
   /**
    * Validates that model inputs are valid ModelConfig objects.
    */
@@ -255,15 +292,16 @@ export class AiTask<
     const modelTaskProperties = Object.entries<JsonSchema>(
       (inputSchema.properties || {}) as Record<string, JsonSchema>
     ).filter(([key, schema]) => schemaFormat(schema)?.startsWith("model:"));
+    const taskType = this.modelTaskType();
 
     for (const [key] of modelTaskProperties) {
       const model = input[key];
       if (typeof model === "object" && model !== null) {
         const tasks = (model as ModelConfig).tasks;
-        if (Array.isArray(tasks) && tasks.length > 0 && !tasks.includes(this.type)) {
+        if (Array.isArray(tasks) && tasks.length > 0 && !tasks.includes(taskType)) {
           const modelId = (model as ModelConfig).model_id ?? "(inline config)";
           throw new TaskConfigurationError(
-            `AiTask: Model "${modelId}" for '${key}' is not compatible with task '${this.type}'. ` +
+            `AiTask: Model "${modelId}" for '${key}' is not compatible with task '${taskType}'. ` +
               `Model supports: [${tasks.join(", ")}]`
           );
         }
@@ -309,7 +347,8 @@ export class AiTask<
       // Fetch models for this task type from the repository associated with the given registry.
       // Note: we intentionally avoid using a shared cache here to prevent mixing results
       // from different ServiceRegistry / ModelRepository instances.
-      const taskModels: ModelConfig[] = (await modelRepo.findModelsByTask(this.type)) ?? [];
+      const taskType = this.modelTaskType();
+      const taskModels: ModelConfig[] = (await modelRepo.findModelsByTask(taskType)) ?? [];
 
       for (const [key] of modelTaskProperties) {
         const requestedModel = input[key];
@@ -322,7 +361,7 @@ export class AiTask<
         } else if (typeof requestedModel === "object" && requestedModel !== null) {
           const model = requestedModel as ModelConfig;
           const tasks = model.tasks;
-          if (Array.isArray(tasks) && tasks.length > 0 && !tasks.includes(this.type)) {
+          if (Array.isArray(tasks) && tasks.length > 0 && !tasks.includes(taskType)) {
             (input as any)[key] = undefined;
           }
         }
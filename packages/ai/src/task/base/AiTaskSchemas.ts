@@ -4,7 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { DataPortSchemaNonBoolean, JsonSchema } from "@workglow/util/schema";
+import { DataPortSchemaNonBoolean, JsonSchema, TypedArraySchema } from "@workglow/util/schema";
 import { ModelConfigSchema } from "../../model/ModelSchema";
 
 export const TypeLanguage = (annotations: Record<string, unknown> = {}) =>
@@ -87,7 +87,8 @@ export const TypeImageInput = {
   type: "object",
   properties: {},
   title: "Image",
-  description: "Image as data URI, Blob, ImageBitmap, ImageBinary, or GpuImage — hydrated to GpuImage by the runner",
+  description:
+    "Image as data URI, Blob, ImageBitmap, ImageBinary, or GpuImage — hydrated to GpuImage by the runner",
   format: "image",
 } as const satisfies JsonSchema;
 
@@ -101,6 +102,37 @@ export const TypeAudioInput = {
   description: "Audio as data-uri, or Blob",
 } as const satisfies JsonSchema;
 
+/**
+ * Raw PCM audio schema: an `AudioBinary` from `@workglow/util/media`, with
+ * interleaved samples in [-1, 1] and their sample rate
+ */
+export const TypeAudioBinary = {
+  type: "object",
+  properties: {
+    data: TypedArraySchema({
+      title: "Samples",
+      description: "Interleaved Float32 PCM samples in [-1, 1]",
+    }),
+    sampleRate: {
+      type: "number",
+      title: "Sample Rate",
+      description: "Samples per second of each channel",
+      minimum: 1,
+    },
+    channels: {
+      type: "integer",
+      title: "Channels",
+      description: "Number of interleaved channels",
+      minimum: 1,
+    },
+  },
+  required: ["data", "sampleRate", "channels"],
+  additionalProperties: false,
+  title: "Audio",
+  description: "Raw PCM audio with its sample rate",
+  format: "audio:pcm",
+} as const satisfies JsonSchema;
+
 /**
  * Bounding box coordinates
  */
@@ -15,6 +15,7 @@ import type { TaskConfig, IExecuteContext, StreamEvent, TaskOutput } from "@work
 import { AiTask } from "./AiTask";
 import type { AiTaskInput } from "./AiTask";
 import { getAiProviderRegistry } from "../../provider/AiProviderRegistry";
+import { normalizeAiUsage, reserveAiCall, takeAiUsage } from "../../provider/AiProviderUsage";
 import type { ModelConfig } from "../../model/ModelSchema";
 
 /**
@@ -83,14 +84,37 @@ export class StreamingAiTask<
       }
     }
 
-    for await (const event of strategy.executeStream(jobInput, context, this.runConfig.runnerId)) {
-      if (event.type === "text-delta") {
-        yield { ...event, port: event.port ?? defaultPort } as StreamEvent<Output>;
-      } else if (event.type === "object-delta") {
-        yield { ...event, port: event.port ?? defaultPort } as StreamEvent<Output>;
-      } else {
-        yield event as StreamEvent<Output>;
+    // Provider usage arrives on the finish event; report it once the stream is done
+    const reservation = await reserveAiCall(model, input, context);
+    const startedAt = performance.now();
+    try {
+      for await (const event of strategy.executeStream(
+        jobInput,
+        context,
+        this.runConfig.runnerId
+      )) {
+        if (event.type === "finish") {
+          const { output, usage } = takeAiUsage(event.data);
+          const record = normalizeAiUsage(
+            model,
+            jobInput.taskType,
+            usage,
+            performance.now() - startedAt
+          );
+          context.reportUsage?.(record);
+          reservation?.settle(record);
+          yield { ...event, data: output } as StreamEvent<Output>;
+        } else if (event.type === "text-delta") {
+          yield { ...event, port: event.port ?? defaultPort } as StreamEvent<Output>;
+        } else if (event.type === "object-delta") {
+          yield { ...event, port: event.port ?? defaultPort } as StreamEvent<Output>;
+        } else {
+          yield event as StreamEvent<Output>;
+        }
       }
+    } finally {
+      // Releases the token estimate of a stream that ended without a finish event
+      reservation?.settle();
     }
   }
 }
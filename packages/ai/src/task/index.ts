@@ -5,10 +5,14 @@
  */
 
 import { TaskRegistry } from "@workglow/task-graph";
+import { AgentTask } from "./AgentTask";
 import { AiChatTask } from "./AiChatTask";
+import { AutomaticSpeechRecognitionTask } from "./AutomaticSpeechRecognitionTask";
 import { BackgroundRemovalTask } from "./BackgroundRemovalTask";
 import { ChunkRetrievalTask } from "./ChunkRetrievalTask";
+import { ChunkVectorReindexTask } from "./ChunkVectorReindexTask";
 import { ChunkVectorUpsertTask } from "./ChunkVectorUpsertTask";
+import { CitedAnswerTask } from "./CitedAnswerTask";
 import { ContextBuilderTask } from "./ContextBuilderTask";
 import { CountTokensTask } from "./CountTokensTask";
 import { DocumentEnricherTask } from "./DocumentEnricherTask";
@@ -43,6 +47,7 @@ import { TextNamedEntityRecognitionTask } from "./TextNamedEntityRecognitionTask
 import { TextQuestionAnswerTask } from "./TextQuestionAnswerTask";
 import { TextRewriterTask } from "./TextRewriterTask";
 import { TextSummaryTask } from "./TextSummaryTask";
+import { TextToSpeechTask } from "./TextToSpeechTask";
 import { TextTranslationTask } from "./TextTranslationTask";
 import { ToolCallingTask } from "./ToolCallingTask";
 import { TopicSegmenterTask } from "./TopicSegmenterTask";
@@ -55,14 +60,18 @@ import { VectorSimilarityTask } from "./VectorSimilarityTask";
 // and prevents tree-shaking issues.
 export const registerAiTasks = () => {
   const tasks = [
+    AgentTask,
     AiChatTask,
+    AutomaticSpeechRecognitionTask,
     BackgroundRemovalTask,
     CountTokensTask,
     ContextBuilderTask,
     DocumentEnricherTask,
     DocumentUpsertTask,
     ChunkRetrievalTask,
+    ChunkVectorReindexTask,
     ChunkVectorUpsertTask,
+    CitedAnswerTask,
     DownloadModelTask,
     FaceDetectorTask,
     FaceLandmarkerTask,
@@ -93,6 +102,7 @@ export const registerAiTasks = () => {
     TextQuestionAnswerTask,
     TextRewriterTask,
     TextSummaryTask,
+    TextToSpeechTask,
     TextTranslationTask,
     ToolCallingTask,
     TopicSegmenterTask,
@@ -104,14 +114,18 @@ export const registerAiTasks = () => {
   return tasks;
 };
 
+export * from "./AgentTask";
 export * from "./AiChatTask";
+export * from "./AutomaticSpeechRecognitionTask";
 export * from "./ChatMessage";
 export * from "./BackgroundRemovalTask";
 export * from "./base/AiTask";
 export * from "./base/AiTaskSchemas";
 export * from "./base/StreamingAiTask";
 export * from "./ChunkRetrievalTask";
+export * from "./ChunkVectorReindexTask";
 export * from "./ChunkVectorUpsertTask";
+export * from "./CitedAnswerTask";
 export * from "./ContextBuilderTask";
 export * from "./CountTokensTask";
 export * from "./DocumentEnricherTask";
@@ -147,9 +161,11 @@ export * from "./TextNamedEntityRecognitionTask";
 export * from "./TextQuestionAnswerTask";
 export * from "./TextRewriterTask";
 export * from "./TextSummaryTask";
+export * from "./TextToSpeechTask";
 export * from "./TextTranslationTask";
 export * from "./ToolCallingTask";
 export * from "./ToolCallingUtils";
+export * from "./TranscriptToGraph";
 export * from "./TopicSegmenterTask";
 export * from "./UnloadModelTask";
 export * from "./VectorQuantizeTask";
@@ -17,6 +17,7 @@
 
 export * from "./provider/AiProvider";
 export * from "./provider/AiProviderRegistry";
+export * from "./provider/AiProviderUsage";
 
 export * from "./task/ToolCallingUtils";
 export * from "./task/MessageConversion";
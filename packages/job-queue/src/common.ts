@@ -19,3 +19,8 @@ export * from "./limiter/EvenlySpacedRateLimiter";
 export * from "./limiter/ILimiter";
 export * from "./limiter/NullLimiter";
 export * from "./limiter/RateLimiter";
+export * from "./schedule/CronExpression";
+export * from "./schedule/JobSchedule";
+export * from "./schedule/JobScheduler";
+export * from "./schedule/JobScheduleRepository";
+export * from "./schedule/JobScheduleTabularRepository";
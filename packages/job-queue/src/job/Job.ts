@@ -4,7 +4,12 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { JobStatus } from "@workglow/storage";
+import {
+  DEFAULT_JOB_DEPENDENCY_FAILURE_POLICY,
+  JobAttemptError,
+  JobDependencyFailurePolicy,
+  JobStatus,
+} from "@workglow/storage";
 import { JobError } from "./JobError";
 import type { JobProgressListener } from "./JobQueueEventListeners";
 
@@ -33,8 +38,12 @@ export type JobConstructorParam<Input, Output> = {
   output?: Output | null;
   error?: string | null;
   errorCode?: string | null;
+  /** Errors of every failed attempt, oldest first */
+  errorHistory?: JobAttemptError[];
   fingerprint?: string;
   maxRetries?: number;
+  /** Higher values are claimed first by queue workers (default 0) */
+  priority?: number;
   status?: JobStatus;
   createdAt?: Date;
   deadlineAt?: Date | null;
@@ -47,6 +56,10 @@ export type JobConstructorParam<Input, Output> = {
   progressDetails?: Record<string, any> | null;
   /** The ID of the worker that claimed this job, null if unclaimed */
   workerId?: string | null;
+  /** IDs of jobs in the same queue that have to complete before this job runs */
+  dependsOn?: unknown[];
+  /** What happens when one of those jobs fails (default "cancel") */
+  onDependencyFailure?: JobDependencyFailurePolicy;
 };
 
 export type JobClass<Input, Output> = new (
@@ -65,6 +78,8 @@ export class Job<Input, Output> {
   public queueName: string | undefined;
   public input: Input;
   public maxRetries: number;
+  /** Higher values are claimed first by queue workers */
+  public priority: number;
   public createdAt: Date;
   public fingerprint: string | undefined;
   public status: JobStatus = JobStatus.PENDING;
@@ -76,11 +91,17 @@ export class Job<Input, Output> {
   public deadlineAt: Date | null = null;
   public error: string | null = null;
   public errorCode: string | null = null;
+  /** Errors of every failed attempt, oldest first */
+  public errorHistory: JobAttemptError[] = [];
   public progress: number = 0;
   public progressMessage: string = "";
   public progressDetails: Record<string, any> | null = null;
   /** The ID of the worker that claimed this job */
   public workerId: string | null = null;
+  /** IDs of jobs in the same queue that have to complete before this job runs */
+  public dependsOn: unknown[] = [];
+  /** What happens when one of those jobs fails */
+  public onDependencyFailure: JobDependencyFailurePolicy = DEFAULT_JOB_DEPENDENCY_FAILURE_POLICY;
 
   constructor({
     queueName,
@@ -89,9 +110,11 @@ export class Job<Input, Output> {
     id,
     error = null,
     errorCode = null,
+    errorHistory = [],
     fingerprint = undefined,
     output = null,
     maxRetries = 10,
+    priority = 0,
     createdAt = new Date(),
     completedAt = null,
     status = JobStatus.PENDING,
@@ -103,6 +126,8 @@ export class Job<Input, Output> {
     progressMessage = "",
     progressDetails = null,
     workerId = null,
+    dependsOn = [],
+    onDependencyFailure = DEFAULT_JOB_DEPENDENCY_FAILURE_POLICY,
   }: JobConstructorParam<Input, Output>) {
     this.runAfter = runAfter ?? new Date();
     this.createdAt = createdAt ?? new Date();
@@ -117,14 +142,18 @@ export class Job<Input, Output> {
     this.fingerprint = fingerprint;
     this.input = input;
     this.maxRetries = maxRetries;
+    this.priority = priority;
     this.runAttempts = runAttempts;
     this.output = output;
     this.error = error;
     this.errorCode = errorCode;
+    this.errorHistory = errorHistory;
     this.progress = progress;
     this.progressMessage = progressMessage;
     this.progressDetails = progressDetails;
     this.workerId = workerId ?? null;
+    this.dependsOn = dependsOn;
+    this.onDependencyFailure = onDependencyFailure;
   }
 
   async execute(_input: Input, _context: IJobExecuteContext): Promise<Output> {
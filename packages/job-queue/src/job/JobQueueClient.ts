@@ -4,7 +4,13 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { IQueueStorage, JobStatus, JobStorageFormat, QueueChangePayload } from "@workglow/storage";
+import {
+  IQueueStorage,
+  JobDependencyFailurePolicy,
+  JobStatus,
+  JobStorageFormat,
+  QueueChangePayload,
+} from "@workglow/storage";
 import { EventEmitter } from "@workglow/util";
 import { Job } from "./Job";
 import {
@@ -42,6 +48,11 @@ export interface JobHandle<Output> {
 export interface JobQueueClientOptions<Input, Output> {
   readonly storage: IQueueStorage<Input, Output>;
   readonly queueName: string;
+  /**
+   * Dead-letter storage used by the dead-letter APIs. Defaults to the
+   * `deadLetterStorage` of the attached server.
+   */
+  readonly deadLetterStorage?: IQueueStorage<Input, Output>;
 }
 
 /**
@@ -52,6 +63,7 @@ export interface JobQueueClientOptions<Input, Output> {
 export class JobQueueClient<Input, Output> {
   public readonly queueName: string;
   protected readonly storage: IQueueStorage<Input, Output>;
+  protected readonly deadLetterStorage?: IQueueStorage<Input, Output>;
   protected readonly events = new EventEmitter<JobQueueEventListeners<Input, Output>>();
   protected server: JobQueueServer<Input, Output> | null = null;
   protected storageUnsubscribe: (() => void) | null = null;
@@ -87,6 +99,7 @@ export class JobQueueClient<Input, Output> {
   constructor(options: JobQueueClientOptions<Input, Output>) {
     this.queueName = options.queueName;
     this.storage = options.storage;
+    this.deadLetterStorage = options.deadLetterStorage;
   }
 
   /**
@@ -159,6 +172,12 @@ export class JobQueueClient<Input, Output> {
       readonly maxRetries?: number;
       readonly runAfter?: Date;
       readonly deadlineAt?: Date;
+      /** Higher values are claimed first (default 0) */
+      readonly priority?: number;
+      /** IDs of jobs in this queue that have to complete before this job runs */
+      readonly dependsOn?: readonly unknown[];
+      /** Whether this job is cancelled (default) or run anyway when one of those jobs fails */
+      readonly onDependencyFailure?: JobDependencyFailurePolicy;
     }
   ): Promise<JobHandle<Output>> {
     const job: JobStorageFormat<Input, Output> = {
@@ -167,10 +186,13 @@ export class JobQueueClient<Input, Output> {
       job_run_id: options?.jobRunId,
       fingerprint: options?.fingerprint,
       max_retries: options?.maxRetries ?? 10,
+      priority: options?.priority ?? 0,
       run_after: options?.runAfter?.toISOString() ?? new Date().toISOString(),
       deadline_at: options?.deadlineAt?.toISOString() ?? null,
       completed_at: null,
       status: JobStatus.PENDING,
+      depends_on: options?.dependsOn?.length ? [...options.dependsOn] : null,
+      on_dependency_failure: options?.onDependencyFailure,
     };
 
     const id = await this.storage.add(job);
@@ -186,6 +208,9 @@ export class JobQueueClient<Input, Output> {
     options?: {
       readonly jobRunId?: string;
       readonly maxRetries?: number;
+      readonly priority?: number;
+      readonly dependsOn?: readonly unknown[];
+      readonly onDependencyFailure?: JobDependencyFailurePolicy;
     }
   ): Promise<readonly JobHandle<Output>[]> {
     const handles: JobHandle<Output>[] = [];
@@ -291,6 +316,81 @@ export class JobQueueClient<Input, Output> {
     );
   }
 
+  // ========================================================================
+  // Dead-letter queue
+  // ========================================================================
+
+  /**
+   * List dead-lettered jobs, oldest first
+   */
+  public async listDeadLetters(num?: number): Promise<readonly Job<Input, Output>[]> {
+    const jobs = await this.getDeadLetterStorage().peek(JobStatus.FAILED, num);
+    return jobs.map((job) => this.storageToClass(job));
+  }
+
+  /**
+   * Get a dead-lettered job by its dead-letter ID, including its error history
+   */
+  public async getDeadLetter(id: unknown): Promise<Job<Input, Output> | undefined> {
+    if (!id) throw new JobNotFoundError("Cannot get undefined dead-lettered job");
+    const job = await this.getDeadLetterStorage().get(id);
+    if (!job) return undefined;
+    return this.storageToClass(job);
+  }
+
+  /**
+   * Submit a dead-lettered job to this queue again with its original input,
+   * then remove it from the dead-letter storage
+   */
+  public async requeueDeadLetter(
+    id: unknown,
+    options?: {
+      readonly maxRetries?: number;
+      readonly runAfter?: Date;
+      readonly priority?: number;
+    }
+  ): Promise<JobHandle<Output>> {
+    const job = await this.getDeadLetter(id);
+    if (!job) throw new JobNotFoundError(`Dead-lettered job ${id} not found`);
+    const handle = await this.submit(job.input, {
+      jobRunId: job.jobRunId,
+      maxRetries: options?.maxRetries ?? job.maxRetries,
+      runAfter: options?.runAfter,
+      priority: options?.priority ?? job.priority,
+    });
+    await this.getDeadLetterStorage().delete(id);
+    return handle;
+  }
+
+  /**
+   * Permanently delete a dead-lettered job
+   */
+  public async deleteDeadLetter(id: unknown): Promise<void> {
+    if (!id) throw new JobNotFoundError("Cannot delete undefined dead-lettered job");
+    await this.getDeadLetterStorage().delete(id);
+  }
+
+  /**
+   * Permanently delete dead-lettered jobs
+   * @param olderThanMs - Only delete jobs dead-lettered more than this many milliseconds ago
+   */
+  public async purgeDeadLetters(olderThanMs?: number): Promise<void> {
+    const storage = this.getDeadLetterStorage();
+    if (olderThanMs === undefined) {
+      await storage.deleteAll();
+    } else {
+      await storage.deleteJobsByStatusAndAge(JobStatus.FAILED, olderThanMs);
+    }
+  }
+
+  protected getDeadLetterStorage(): IQueueStorage<Input, Output> {
+    const storage = this.deadLetterStorage ?? this.server?.getDeadLetterStorage();
+    if (!storage) {
+      throw new Error(`No dead-letter storage configured for queue ${this.queueName}`);
+    }
+    return storage;
+  }
+
   /**
    * Subscribe to progress updates for a specific job
    */
@@ -23,6 +23,7 @@ export interface JobQueueStats {
   readonly abortedJobs: number;
   readonly retriedJobs: number;
   readonly disabledJobs: number;
+  readonly deadLetteredJobs: number;
   readonly averageProcessingTime?: number;
   readonly lastUpdateTime: Date;
 }
@@ -38,6 +39,7 @@ export type JobQueueServerEventListeners<Input, Output> = {
   job_error: (queueName: string, jobId: unknown, error: string) => void;
   job_disabled: (queueName: string, jobId: unknown) => void;
   job_retry: (queueName: string, jobId: unknown, runAfter: Date) => void;
+  job_dead_lettered: (queueName: string, jobId: unknown, deadLetterId: unknown) => void;
   job_progress: (
     queueName: string,
     jobId: unknown,
@@ -62,6 +64,20 @@ export interface JobQueueServerOptions<Input, Output> {
   readonly deleteAfterFailureMs?: number;
   readonly deleteAfterDisabledMs?: number;
   readonly cleanupIntervalMs?: number;
+  /**
+   * Destination for jobs that fail permanently (retries exhausted or a permanent error).
+   * Usually the same backend created for another queue name, e.g. `${queueName}_dead_letter`.
+   * Dead-lettered jobs keep their original input and error history and are removed from
+   * `storage`, so they are not swept by `deleteAfterFailureMs`. Aborted jobs are not dead-lettered.
+   */
+  readonly deadLetterStorage?: IQueueStorage<Input, Output>;
+  /**
+   * How long a claimed job stays leased to its worker without a heartbeat. Jobs of
+   * workers that die are reclaimed by any server sharing the storage once the lease expires.
+   */
+  readonly leaseDurationMs?: number;
+  /** How often workers renew the lease of running jobs */
+  readonly heartbeatIntervalMs?: number;
 }
 
 /**
@@ -83,6 +99,9 @@ export class JobQueueServer<
   protected readonly deleteAfterFailureMs?: number;
   protected readonly deleteAfterDisabledMs?: number;
   protected readonly cleanupIntervalMs: number;
+  protected readonly deadLetterStorage?: IQueueStorage<Input, Output>;
+  protected readonly leaseDurationMs?: number;
+  protected readonly heartbeatIntervalMs?: number;
 
   protected readonly events = new EventEmitter<JobQueueServerEventListeners<Input, Output>>();
   protected readonly workers: JobQueueWorker<Input, Output, QueueJob>[] = [];
@@ -99,6 +118,7 @@ export class JobQueueServer<
     abortedJobs: 0,
     retriedJobs: 0,
     disabledJobs: 0,
+    deadLetteredJobs: 0,
     lastUpdateTime: new Date(),
   };
 
@@ -113,6 +133,9 @@ export class JobQueueServer<
     this.deleteAfterFailureMs = options.deleteAfterFailureMs;
     this.deleteAfterDisabledMs = options.deleteAfterDisabledMs;
     this.cleanupIntervalMs = options.cleanupIntervalMs ?? 10000;
+    this.deadLetterStorage = options.deadLetterStorage;
+    this.leaseDurationMs = options.leaseDurationMs;
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs;
 
     this.initializeWorkers();
   }
@@ -201,6 +224,13 @@ export class JobQueueServer<
     return this.storage;
   }
 
+  /**
+   * Get the dead-letter storage instance, if one is configured
+   */
+  public getDeadLetterStorage(): IQueueStorage<Input, Output> | undefined {
+    return this.deadLetterStorage;
+  }
+
   /**
    * Scale the number of workers
    */
@@ -311,6 +341,8 @@ export class JobQueueServer<
       queueName: this.queueName,
       limiter: this.limiter,
       pollIntervalMs: this.pollIntervalMs,
+      leaseDurationMs: this.leaseDurationMs,
+      heartbeatIntervalMs: this.heartbeatIntervalMs,
     });
 
     // Forward worker events to server and clients
@@ -342,8 +374,12 @@ export class JobQueueServer<
       this.events.emit("job_error", this.queueName, jobId, error);
       this.forwardToClients("handleJobError", jobId, error, errorCode);
 
-      // Immediate deletion when configured
-      if (this.deleteAfterFailureMs === 0) {
+      if (this.deadLetterStorage && errorCode !== "AbortSignalJobError") {
+        this.moveToDeadLetter(jobId).catch((err) => {
+          console.error("Error moving job to dead-letter storage:", err);
+        });
+      } else if (this.deleteAfterFailureMs === 0) {
+        // Immediate deletion when configured
         this.storage.delete(jobId).catch((err) => {
           console.error("Error deleting job after error:", err);
         });
@@ -479,7 +515,8 @@ export class JobQueueServer<
   /**
    * Fix stuck jobs from previous server runs.
    * Jobs in PROCESSING or ABORTING state that are not owned by any of the current
-   * server's workers are considered orphaned and will be reset.
+   * server's workers and whose lease is no longer renewed are considered orphaned
+   * and will be reset.
    */
   protected async fixupJobs(): Promise<void> {
     try {
@@ -495,6 +532,10 @@ export class JobQueueServer<
         if (jobData.worker_id && currentWorkerIds.has(jobData.worker_id)) {
           continue;
         }
+        // Skip jobs whose lease is still being renewed by a worker of another server
+        if (jobData.lease_expires_at && new Date(jobData.lease_expires_at).getTime() > Date.now()) {
+          continue;
+        }
 
         const job = this.storageToClass(jobData);
         if (job.runAttempts >= job.maxRetries) {
@@ -515,12 +556,49 @@ export class JobQueueServer<
         }
 
         await this.storage.complete(this.classToStorage(job));
+        if (job.status === JobStatus.FAILED) {
+          // Cancel dependents while the failed job is still in the queue
+          const cancelled = await this.storage.cancelFailedDependents();
+          if (this.deadLetterStorage) {
+            await this.moveToDeadLetter(job.id);
+            for (const dependent of cancelled) {
+              await this.moveToDeadLetter(dependent.id);
+            }
+          }
+        }
       }
     } catch (error) {
       console.error("Error in fixupJobs:", error);
     }
   }
 
+  /**
+   * Move a failed job to the dead-letter storage. The dead-letter record is a copy
+   * of the job as it failed: input, attempts, timestamps, progress, dependencies,
+   * the final error and the error history of every attempt. The copy and the
+   * delete from the queue storage run in one transaction when both storages share
+   * a database; otherwise the copy commits first, so a crash in between leaves the
+   * job in both storages rather than in neither.
+   */
+  protected async moveToDeadLetter(jobId: unknown): Promise<void> {
+    const deadLetterStorage = this.deadLetterStorage;
+    if (!deadLetterStorage) return;
+
+    const deadLetterId = await this.storage.withTransaction(() =>
+      deadLetterStorage.withTransaction(async () => {
+        const job = await this.storage.get(jobId);
+        if (!job || job.status !== JobStatus.FAILED) return undefined;
+        const id = await deadLetterStorage.addFinished(job);
+        await this.storage.delete(jobId);
+        return id;
+      })
+    );
+    if (deadLetterId === undefined) return;
+
+    this.stats = { ...this.stats, deadLetteredJobs: this.stats.deadLetteredJobs + 1 };
+    this.events.emit("job_dead_lettered", this.queueName, jobId, deadLetterId);
+  }
+
   /**
    * Convert storage format to Job class
    */
@@ -4,7 +4,14 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { IQueueStorage, JobStatus, JobStorageFormat } from "@workglow/storage";
+import {
+  DEFAULT_JOB_LEASE_MS,
+  IQueueStorage,
+  JOB_DEPENDENCY_FAILED_ERROR,
+  JOB_DEPENDENCY_FAILED_ERROR_CODE,
+  JobStatus,
+  JobStorageFormat,
+} from "@workglow/storage";
 import {
   EventEmitter,
   getLogger,
@@ -61,6 +68,14 @@ export interface JobQueueWorkerOptions<Input, Output> {
    * Use a persistent ID if you want the worker to reclaim its own jobs after restart.
    */
   readonly workerId?: string | null;
+  /**
+   * How long a claimed job stays leased to this worker without a heartbeat
+   * (default {@link DEFAULT_JOB_LEASE_MS}). If the worker dies, the job is
+   * reclaimed by another worker once the lease expires.
+   */
+  readonly leaseDurationMs?: number;
+  /** How often the lease of a running job is renewed (default a third of the lease) */
+  readonly heartbeatIntervalMs?: number;
 }
 
 /**
@@ -78,6 +93,8 @@ export class JobQueueWorker<
   protected readonly jobClass: JobClass<Input, Output>;
   protected readonly limiter: ILimiter;
   protected readonly pollIntervalMs: number;
+  protected readonly leaseDurationMs: number;
+  protected readonly heartbeatIntervalMs: number;
   protected readonly events = new EventEmitter<JobQueueWorkerEventListeners<Input, Output>>();
 
   protected running = false;
@@ -94,6 +111,11 @@ export class JobQueueWorker<
    */
   protected readonly activeJobAbortControllers: Map<unknown, AbortController> = new Map();
 
+  /**
+   * Running jobs whose lease was taken over; their results are no longer written back
+   */
+  protected readonly lostLeaseJobIds: Set<unknown> = new Set();
+
   /**
    * Processing times for statistics
    */
@@ -106,6 +128,9 @@ export class JobQueueWorker<
     this.jobClass = jobClass;
     this.limiter = options.limiter ?? new NullLimiter();
     this.pollIntervalMs = options.pollIntervalMs ?? 100;
+    this.leaseDurationMs = options.leaseDurationMs ?? DEFAULT_JOB_LEASE_MS;
+    this.heartbeatIntervalMs =
+      options.heartbeatIntervalMs ?? Math.max(1, Math.floor(this.leaseDurationMs / 3));
   }
 
   /**
@@ -166,7 +191,8 @@ export class JobQueueWorker<
   }
 
   /**
-   * Process a single job manually (useful for testing or manual control)
+   * Process a single job manually (useful for testing or manual control). Jobs whose
+   * lease expired are reclaimed first, as in the processing loop.
    */
   public async processNext(): Promise<boolean> {
     const canProceed = await this.limiter.canProceed();
@@ -174,6 +200,7 @@ export class JobQueueWorker<
       return false;
     }
 
+    await this.reclaimExpiredLeases();
     const job = await this.next();
     if (!job) {
       return false;
@@ -232,7 +259,7 @@ export class JobQueueWorker<
    * Get the next job from the queue
    */
   protected async next(): Promise<QueueJob | undefined> {
-    const job = await this.storage.next(this.workerId);
+    const job = await this.storage.next(this.workerId, this.leaseDurationMs);
     if (!job) return undefined;
     return this.storageToClass(job) as QueueJob;
   }
@@ -254,6 +281,10 @@ export class JobQueueWorker<
       try {
         // Check for aborting jobs
         await this.checkForAbortingJobs();
+        // Retry or fail jobs of workers that stopped renewing their lease
+        await this.reclaimExpiredLeases();
+        // Cancel jobs whose prerequisites failed
+        await this.cancelFailedDependents();
 
         const canProceed = await this.limiter.canProceed();
         if (canProceed) {
@@ -327,6 +358,39 @@ export class JobQueueWorker<
     });
   }
 
+  /**
+   * Cancel pending jobs whose prerequisites failed, and report each one as failed
+   */
+  protected async cancelFailedDependents(): Promise<void> {
+    const cancelled = await this.storage.cancelFailedDependents();
+    for (const jobData of cancelled) {
+      this.events.emit(
+        "job_error",
+        jobData.id,
+        jobData.error ?? JOB_DEPENDENCY_FAILED_ERROR,
+        jobData.error_code ?? JOB_DEPENDENCY_FAILED_ERROR_CODE
+      );
+    }
+  }
+
+  /**
+   * Reclaim jobs whose lease expired, and report the ones whose retries are exhausted as failed
+   */
+  protected async reclaimExpiredLeases(): Promise<void> {
+    const failed = await this.storage.reclaimExpiredLeases();
+    if (failed.length === 0) return;
+    // Dependents are reported before the jobs themselves, which may be moved out of the queue
+    await this.cancelFailedDependents();
+    for (const jobData of failed) {
+      this.events.emit(
+        "job_error",
+        jobData.id,
+        jobData.error ?? "Max retries reached",
+        jobData.error_code ?? "MAX_RETRIES_REACHED"
+      );
+    }
+  }
+
   /**
    * Check for jobs that have been marked for abort and trigger their abort controllers
    */
@@ -364,6 +428,8 @@ export class JobQueueWorker<
         })
       : undefined;
 
+    const heartbeat = this.startHeartbeat(job.id);
+
     try {
       await this.validateJobState(job);
       await this.limiter.recordJobStart();
@@ -372,7 +438,13 @@ export class JobQueueWorker<
       this.events.emit("job_start", job.id);
 
       const output = await this.executeJob(job, abortController.signal);
-      await this.completeJob(job, output);
+      if (!this.lostLeaseJobIds.has(job.id)) {
+        await this.completeJob(job, output);
+      }
+      // The lease can also turn out lost when the output is written back
+      if (this.lostLeaseJobIds.has(job.id)) {
+        throw new AbortSignalJobError(`Job ${job.id} lost its lease`);
+      }
 
       const elapsed = Date.now() - startTime;
       this.processingTimes.set(job.id, elapsed);
@@ -384,12 +456,17 @@ export class JobQueueWorker<
     } catch (err: unknown) {
       const error = this.normalizeError(err);
       let spanErrorMessage = error.message;
-      if (error instanceof RetryableJobError) {
+      if (this.lostLeaseJobIds.has(job.id)) {
+        // The job is another worker's now; writing this attempt back would clobber its run
+        spanErrorMessage = "Lost the lease";
+        span?.setStatus(SpanStatusCode.ERROR, spanErrorMessage);
+      } else if (error instanceof RetryableJobError) {
         const currentJob = await this.getJob(job.id);
         if (!currentJob) {
           throw new JobNotFoundError(`Job ${job.id} not found`);
         }
 
+        this.recordAttemptError(currentJob, error);
         if (currentJob.runAttempts >= currentJob.maxRetries) {
           spanErrorMessage = "Max retries reached";
           await this.failJob(currentJob, new PermanentJobError(spanErrorMessage));
@@ -402,16 +479,57 @@ export class JobQueueWorker<
           span?.setStatus(SpanStatusCode.UNSET);
         }
       } else {
+        this.recordAttemptError(job, error);
         await this.failJob(job, error);
         span?.setStatus(SpanStatusCode.ERROR, error.message);
       }
       span?.setAttributes({ "workglow.job.error": spanErrorMessage });
     } finally {
+      clearInterval(heartbeat);
+      if (this.lostLeaseJobIds.delete(job.id)) {
+        this.cleanupJob(job.id);
+      }
       span?.end();
       await this.limiter.recordJobCompletion();
     }
   }
 
+  /**
+   * Periodically renew the lease of a running job so it is not reclaimed
+   * by other workers while it is still being processed. If the lease was
+   * reclaimed anyway, the job is aborted and its outcome is not written back.
+   */
+  protected startHeartbeat(jobId: unknown): ReturnType<typeof setInterval> {
+    const heartbeat = setInterval(async () => {
+      try {
+        const renewed = await this.storage.renewLease(jobId, this.workerId, this.leaseDurationMs);
+        if (!renewed) {
+          clearInterval(heartbeat);
+          this.handleLostLease(jobId);
+        }
+      } catch (err) {
+        getLogger().error("renewLease errored:", { error: err });
+      }
+    }, this.heartbeatIntervalMs);
+    return heartbeat;
+  }
+
+  /**
+   * Abort a running job that another worker took over. Nothing more of its
+   * attempt is written back; a job that already finished is left alone.
+   */
+  protected handleLostLease(jobId: unknown): void {
+    const controller = this.activeJobAbortControllers.get(jobId);
+    if (!controller || this.lostLeaseJobIds.has(jobId)) return;
+    getLogger().warn("Lost the lease of a running job, aborting it", {
+      jobId,
+      workerId: this.workerId,
+      queueName: this.queueName,
+    });
+    this.lostLeaseJobIds.add(jobId);
+    controller.abort();
+  }
+
   /**
    * Execute a job with the provided abort signal
    */
@@ -435,10 +553,29 @@ export class JobQueueWorker<
     // Validate progress value
     progress = Math.max(0, Math.min(100, progress));
 
-    await this.storage.saveProgress(jobId, progress, message, details);
+    if (!(await this.storage.saveProgress(jobId, progress, message, details, this.workerId))) {
+      this.handleLostLease(jobId);
+      return;
+    }
     this.events.emit("job_progress", jobId, progress, message, details);
   }
 
+  /**
+   * Append the error of the current attempt to the job's error history
+   */
+  protected recordAttemptError(job: Job<Input, Output>, error: JobError): void {
+    job.errorHistory = [
+      ...(job.errorHistory ?? []),
+      {
+        attempt: (job.runAttempts ?? 0) + 1,
+        error: error.message,
+        error_code: error?.constructor?.name ?? null,
+        worker_id: this.workerId,
+        failed_at: new Date().toISOString(),
+      },
+    ];
+  }
+
   /**
    * Mark a job as completed
    */
@@ -453,7 +590,10 @@ export class JobQueueWorker<
       job.error = null;
       job.errorCode = null;
 
-      await this.storage.complete(this.classToStorage(job));
+      if (!(await this.storage.complete(this.classToStorage(job), this.workerId))) {
+        this.handleLostLease(job.id);
+        return;
+      }
       this.events.emit("job_complete", job.id, output as Output);
     } catch (err) {
       getLogger().error("completeJob errored:", { error: err });
@@ -475,7 +615,12 @@ export class JobQueueWorker<
       job.error = error.message;
       job.errorCode = error?.constructor?.name ?? null;
 
-      await this.storage.complete(this.classToStorage(job));
+      if (!(await this.storage.complete(this.classToStorage(job), this.workerId))) {
+        this.handleLostLease(job.id);
+        return;
+      }
+      // Dependents are reported before the job itself, which may be moved out of the queue
+      await this.cancelFailedDependents();
       this.events.emit("job_error", job.id, error.message, error.constructor.name);
     } catch (err) {
       getLogger().error("failJob errored:", { error: err });
@@ -495,7 +640,11 @@ export class JobQueueWorker<
       job.progressMessage = "";
       job.progressDetails = null;
 
-      await this.storage.complete(this.classToStorage(job));
+      if (!(await this.storage.complete(this.classToStorage(job), this.workerId))) {
+        this.handleLostLease(job.id);
+        return;
+      }
+      await this.cancelFailedDependents();
       this.events.emit("job_disabled", job.id);
     } catch (err) {
       getLogger().error("disableJob errored:", { error: err });
@@ -519,7 +668,10 @@ export class JobQueueWorker<
       // The storage layer will read from DB and increment, so this keeps them aligned
       job.runAttempts = (job.runAttempts ?? 0) + 1;
 
-      await this.storage.complete(this.classToStorage(job));
+      if (!(await this.storage.complete(this.classToStorage(job), this.workerId))) {
+        this.handleLostLease(job.id);
+        return;
+      }
       this.events.emit("job_retry", job.id, job.runAfter);
     } catch (err) {
       getLogger().error("rescheduleJob errored:", { error: err });
@@ -546,6 +698,8 @@ export class JobQueueWorker<
    * Handle job abort
    */
   protected async handleAbort(jobId: unknown): Promise<void> {
+    // The job was reclaimed, so its failure is not ours to record
+    if (this.lostLeaseJobIds.has(jobId)) return;
     const job = await this.getJob(jobId);
     if (!job) {
       getLogger().error("handleAbort: job not found", { jobId });
@@ -4,7 +4,11 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { JobStatus, JobStorageFormat } from "@workglow/storage";
+import {
+  DEFAULT_JOB_DEPENDENCY_FAILURE_POLICY,
+  JobStatus,
+  JobStorageFormat,
+} from "@workglow/storage";
 import { Job, JobClass } from "./Job";
 
 /**
@@ -53,8 +57,12 @@ export function storageToClass<Input, Output>(
     status: details.status as JobStatus,
     error: details.error ?? null,
     errorCode: details.error_code ?? null,
+    errorHistory: details.error_history ?? [],
     runAttempts: details.run_attempts ?? 0,
     maxRetries: details.max_retries ?? 10,
+    priority: details.priority ?? 0,
+    dependsOn: details.depends_on ?? [],
+    onDependencyFailure: details.on_dependency_failure ?? DEFAULT_JOB_DEPENDENCY_FAILURE_POLICY,
     ...(includeWorkerId ? { workerId: details.worker_id ?? null } : {}),
   });
 }
@@ -77,8 +85,10 @@ export function classToStorage<Input, Output>(
     output: job.output ?? null,
     error: job.error === null ? null : String(job.error),
     error_code: job.errorCode || null,
+    error_history: job.errorHistory?.length ? job.errorHistory : null,
     run_attempts: job.runAttempts ?? 0,
     max_retries: job.maxRetries ?? 10,
+    priority: job.priority ?? 0,
     run_after: dateToISOString(job.runAfter) ?? now,
     created_at: dateToISOString(job.createdAt) ?? now,
     deadline_at: dateToISOString(job.deadlineAt),
@@ -88,5 +98,7 @@ export function classToStorage<Input, Output>(
     progress_message: job.progressMessage ?? "",
     progress_details: job.progressDetails ?? null,
     worker_id: job.workerId ?? null,
+    depends_on: job.dependsOn?.length ? job.dependsOn : null,
+    on_dependency_failure: job.onDependencyFailure,
   };
 }
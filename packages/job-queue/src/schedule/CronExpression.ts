@@ -0,0 +1,286 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { BaseError } from "@workglow/util";
+
+/**
+ * Error thrown for malformed cron expressions, interval specs and unknown timezones
+ */
+export class ScheduleError extends BaseError {
+  public static override type: string = "ScheduleError";
+}
+
+const MINUTE_MS = 60_000;
+
+/** Search horizon for the next matching time; covers leap-day schedules */
+const MAX_SEARCH_YEARS = 8;
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = [
+  "JAN",
+  "FEB",
+  "MAR",
+  "APR",
+  "MAY",
+  "JUN",
+  "JUL",
+  "AUG",
+  "SEP",
+  "OCT",
+  "NOV",
+  "DEC",
+];
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+type FieldSpec = {
+  readonly name: string;
+  readonly min: number;
+  readonly max: number;
+  readonly names?: readonly string[];
+  /** Offset added to the index of a name (months are 1-based) */
+  readonly nameOffset?: number;
+};
+
+const FIELDS: readonly FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  // 7 is accepted as an alias for Sunday and folded into 0
+  { name: "day of week", min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 },
+];
+
+function parseValue(raw: string, field: FieldSpec, expression: string): number {
+  const upper = raw.toUpperCase();
+  const nameIndex = field.names?.indexOf(upper) ?? -1;
+  if (nameIndex >= 0) {
+    return nameIndex + (field.nameOffset ?? 0);
+  }
+  if (!/^\d+$/.test(raw)) {
+    throw new ScheduleError(`Invalid ${field.name} "${raw}" in cron expression "${expression}"`);
+  }
+  const value = Number(raw);
+  if (value < field.min || value > field.max) {
+    throw new ScheduleError(
+      `${field.name} ${value} out of range ${field.min}-${field.max} in cron expression "${expression}"`
+    );
+  }
+  return value;
+}
+
+function parseField(raw: string, field: FieldSpec, expression: string): Set<number> {
+  const values = new Set<number>();
+  for (const part of raw.split(",")) {
+    const [rangePart, stepPart, ...rest] = part.split("/");
+    if (rest.length > 0 || rangePart === "" || stepPart === "") {
+      throw new ScheduleError(`Invalid ${field.name} "${part}" in cron expression "${expression}"`);
+    }
+    let step = 1;
+    if (stepPart !== undefined) {
+      if (!/^\d+$/.test(stepPart) || Number(stepPart) === 0) {
+        throw new ScheduleError(
+          `Invalid step "${stepPart}" for ${field.name} in cron expression "${expression}"`
+        );
+      }
+      step = Number(stepPart);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === "*") {
+      start = field.min;
+      end = field.max;
+    } else if (rangePart.includes("-")) {
+      const [from, to] = rangePart.split("-");
+      start = parseValue(from, field, expression);
+      end = parseValue(to, field, expression);
+      if (end < start) {
+        throw new ScheduleError(
+          `Invalid ${field.name} range "${rangePart}" in cron expression "${expression}"`
+        );
+      }
+    } else {
+      start = parseValue(rangePart, field, expression);
+      // "5/15" means "from 5 to the end of the range, every 15"
+      end = stepPart !== undefined ? field.max : start;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Returns true if the timezone is a valid IANA timezone name
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Returns the wall-clock time of `instant` in `timezone`, expressed as a UTC
+ * timestamp (so that the UTC getters of a Date built from it read the local fields).
+ */
+function toWallClock(instant: number, timezone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timezone).formatToParts(new Date(instant))) {
+    if (part.type !== "literal") {
+      parts[part.type] = Number(part.value);
+    }
+  }
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+/**
+ * Converts a wall-clock time in `timezone` back to an instant. Returns undefined
+ * when the wall-clock time does not exist (skipped by a daylight saving change).
+ * Ambiguous times (repeated by a daylight saving change) resolve to the first occurrence.
+ */
+function fromWallClock(wall: number, timezone: string): number | undefined {
+  const firstGuess = wall - (toWallClock(wall, timezone) - wall);
+  const candidates = [firstGuess, wall - (toWallClock(firstGuess, timezone) - firstGuess)];
+  const matches = candidates.filter((instant) => toWallClock(instant, timezone) === wall);
+  return matches.length > 0 ? Math.min(...matches) : undefined;
+}
+
+/**
+ * A parsed five-field cron expression (`minute hour day-of-month month day-of-week`).
+ *
+ * Supports `*`, lists (`1,15`), ranges (`1-5`), steps (`*\/15`, `0-30/10`, `5/15`),
+ * month and weekday names (`JAN`, `MON-FRI`) and the `@yearly`, `@monthly`,
+ * `@weekly`, `@daily`, `@midnight` and `@hourly` macros. As in Vixie cron, when
+ * both day-of-month and day-of-week are restricted a day matches if either does.
+ *
+ * Times are evaluated as wall-clock time in the given IANA timezone. Wall-clock
+ * times skipped by a daylight saving change do not fire.
+ */
+export class CronExpression {
+  public readonly minutes: ReadonlySet<number>;
+  public readonly hours: ReadonlySet<number>;
+  public readonly daysOfMonth: ReadonlySet<number>;
+  public readonly months: ReadonlySet<number>;
+  public readonly daysOfWeek: ReadonlySet<number>;
+  protected readonly dayOfMonthRestricted: boolean;
+  protected readonly dayOfWeekRestricted: boolean;
+
+  constructor(
+    public readonly expression: string,
+    public readonly timezone: string = "UTC"
+  ) {
+    if (!isValidTimezone(timezone)) {
+      throw new ScheduleError(`Unknown timezone "${timezone}"`);
+    }
+    const normalized = expression.trim();
+    const source = MACROS[normalized.toLowerCase()] ?? normalized;
+    const fields = source.split(/\s+/);
+    if (fields.length !== FIELDS.length) {
+      throw new ScheduleError(
+        `Cron expression "${expression}" must have ${FIELDS.length} fields (minute hour day-of-month month day-of-week)`
+      );
+    }
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((raw, i) =>
+      parseField(raw, FIELDS[i], expression)
+    );
+    if (daysOfWeek.delete(7)) {
+      daysOfWeek.add(0);
+    }
+    this.minutes = minutes;
+    this.hours = hours;
+    this.daysOfMonth = daysOfMonth;
+    this.months = months;
+    this.daysOfWeek = daysOfWeek;
+    this.dayOfMonthRestricted = !fields[2].startsWith("*");
+    this.dayOfWeekRestricted = !fields[4].startsWith("*");
+  }
+
+  protected matchesDay(wall: Date): boolean {
+    const dom = this.daysOfMonth.has(wall.getUTCDate());
+    const dow = this.daysOfWeek.has(wall.getUTCDay());
+    if (this.dayOfMonthRestricted && this.dayOfWeekRestricted) {
+      return dom || dow;
+    }
+    return dom && dow;
+  }
+
+  /**
+   * Returns the first time strictly after `after` that matches the expression
+   * @throws ScheduleError if the expression never matches (e.g. `0 0 30 2 *`)
+   */
+  public next(after: Date): Date {
+    // Start at the next whole minute in local wall-clock time
+    const startWall = toWallClock(after.getTime(), this.timezone);
+    let wall = new Date(Math.floor(startWall / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+    const limit = startWall + MAX_SEARCH_YEARS * 366 * 24 * 60 * MINUTE_MS;
+
+    while (wall.getTime() <= limit) {
+      if (!this.months.has(wall.getUTCMonth() + 1)) {
+        wall = new Date(Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth() + 1, 1));
+        continue;
+      }
+      if (!this.matchesDay(wall)) {
+        wall = new Date(Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate() + 1));
+        continue;
+      }
+      if (!this.hours.has(wall.getUTCHours())) {
+        wall = new Date(
+          Date.UTC(
+            wall.getUTCFullYear(),
+            wall.getUTCMonth(),
+            wall.getUTCDate(),
+            wall.getUTCHours() + 1
+          )
+        );
+        continue;
+      }
+      if (!this.minutes.has(wall.getUTCMinutes())) {
+        wall = new Date(wall.getTime() + MINUTE_MS);
+        continue;
+      }
+      const instant = fromWallClock(wall.getTime(), this.timezone);
+      if (instant !== undefined && instant > after.getTime()) {
+        return new Date(instant);
+      }
+      wall = new Date(wall.getTime() + MINUTE_MS);
+    }
+    throw new ScheduleError(`Cron expression "${this.expression}" never matches`);
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CronExpression, ScheduleError } from "./CronExpression";
+
+/**
+ * What to do with ticks that came due while nothing could run them
+ * (the scheduler was down, or the previous run was still going):
+ *
+ * - `skip`: drop them and wait for the next future tick
+ * - `run-once`: run once right away for all of them, then resume the normal cadence
+ * - `catch-up`: run every missed tick, one after another
+ */
+export type MissedRunPolicy = "skip" | "run-once" | "catch-up";
+
+/**
+ * When a schedule fires: either a cron expression or a fixed interval.
+ */
+export type ScheduleTiming = {
+  /** Five-field cron expression or macro such as `@daily` */
+  readonly cron?: string | null;
+  /** Fixed interval between ticks, anchored at the schedule's creation time */
+  readonly intervalMs?: number | null;
+  /** IANA timezone the cron expression is evaluated in (default UTC) */
+  readonly timezone?: string;
+};
+
+/**
+ * Status of the last run of a schedule
+ */
+export type JobScheduleRunStatus = "COMPLETED" | "FAILED";
+
+/**
+ * A persisted recurring schedule that enqueues `input` into a job queue.
+ */
+export type JobScheduleRecord<Input = unknown> = {
+  scheduleId: string;
+  /** Free-form description shown in listings */
+  description?: string;
+  input: Input;
+  cron: string | null;
+  intervalMs: number | null;
+  timezone: string;
+  missedRunPolicy: MissedRunPolicy;
+  /** Allow a tick to start while the previous run is still going (default false) */
+  allowOverlap: boolean;
+  /** Retries of each scheduled job */
+  maxRetries: number;
+  enabled: boolean;
+  /** Scheduled time of the tick that is currently enqueued */
+  nextRunAt: string | null;
+  /** Scheduled time of the last tick that started running */
+  lastRunAt: string | null;
+  lastStatus: JobScheduleRunStatus | null;
+  lastError: string | null;
+  /** Id of the most recently enqueued job */
+  lastJobId: unknown;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/**
+ * Validates the timing of a schedule
+ * @throws ScheduleError if neither or both of cron and interval are set, or either is invalid
+ */
+export function validateScheduleTiming(timing: ScheduleTiming): void {
+  const hasCron = timing.cron !== undefined && timing.cron !== null;
+  const hasInterval = timing.intervalMs !== undefined && timing.intervalMs !== null;
+  if (hasCron === hasInterval) {
+    throw new ScheduleError("A schedule needs exactly one of a cron expression or an interval");
+  }
+  if (hasCron) {
+    new CronExpression(timing.cron!, timing.timezone ?? "UTC");
+  } else if (!Number.isFinite(timing.intervalMs) || timing.intervalMs! <= 0) {
+    throw new ScheduleError(`Invalid schedule interval ${timing.intervalMs}`);
+  }
+}
+
+/**
+ * Returns the first tick of a schedule strictly after `after`
+ * @param timing The schedule timing
+ * @param after The time to search from
+ * @param anchor The time interval schedules count from
+ */
+export function nextScheduledTime(timing: ScheduleTiming, after: Date, anchor: Date): Date {
+  if (timing.cron !== undefined && timing.cron !== null) {
+    return new CronExpression(timing.cron, timing.timezone ?? "UTC").next(after);
+  }
+  const intervalMs = timing.intervalMs!;
+  const elapsed = after.getTime() - anchor.getTime();
+  const ticks = elapsed < 0 ? 0 : Math.floor(elapsed / intervalMs) + 1;
+  return new Date(anchor.getTime() + ticks * intervalMs);
+}
+
+/**
+ * The next tick to enqueue for a schedule
+ */
+export type PlannedScheduleRun = {
+  /** The tick this run stands for */
+  readonly scheduledFor: Date;
+  /** When the job may start (`now` for a missed tick that is run late) */
+  readonly runAfter: Date;
+  /** Number of missed ticks that were dropped by the policy */
+  readonly skipped: number;
+};
+
+/**
+ * Plans the next run of a schedule, applying its missed-run policy to the ticks
+ * that fell between the last handled tick and `now`.
+ * @param schedule The schedule
+ * @param lastTick The last tick that was run (or the schedule's creation time)
+ * @param now The current time
+ */
+export function planScheduledRun(
+  schedule: Pick<
+    JobScheduleRecord,
+    "cron" | "intervalMs" | "timezone" | "missedRunPolicy" | "createdAt"
+  >,
+  lastTick: Date,
+  now: Date
+): PlannedScheduleRun {
+  const anchor = new Date(schedule.createdAt);
+  let tick = nextScheduledTime(schedule, lastTick, anchor);
+  if (tick.getTime() > now.getTime()) {
+    return { scheduledFor: tick, runAfter: tick, skipped: 0 };
+  }
+
+  switch (schedule.missedRunPolicy) {
+    case "catch-up":
+      return { scheduledFor: tick, runAfter: now, skipped: 0 };
+    case "run-once":
+    case "skip": {
+      let latestMissed = tick;
+      let missed = 1;
+      if (schedule.intervalMs) {
+        // Interval ticks are evenly spaced, so count them instead of walking them
+        const upcoming = nextScheduledTime(schedule, now, anchor);
+        latestMissed = new Date(upcoming.getTime() - schedule.intervalMs);
+        missed += (latestMissed.getTime() - tick.getTime()) / schedule.intervalMs;
+        tick = upcoming;
+      } else {
+        tick = nextScheduledTime(schedule, tick, anchor);
+        while (tick.getTime() <= now.getTime()) {
+          latestMissed = tick;
+          missed++;
+          tick = nextScheduledTime(schedule, tick, anchor);
+        }
+      }
+      if (schedule.missedRunPolicy === "run-once") {
+        return { scheduledFor: latestMissed, runAfter: now, skipped: missed - 1 };
+      }
+      return { scheduledFor: tick, runAfter: tick, skipped: missed };
+    }
+    default:
+      throw new ScheduleError(`Unknown missed run policy "${schedule.missedRunPolicy}"`);
+  }
+}
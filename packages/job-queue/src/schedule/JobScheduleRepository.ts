@@ -0,0 +1,122 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createServiceToken, EventEmitter, EventParameters } from "@workglow/util";
+import type { JobScheduleRecord } from "./JobSchedule";
+
+/**
+ * Service token for JobScheduleRepository
+ */
+export const JOB_SCHEDULE_REPOSITORY = createServiceToken<JobScheduleRepository>(
+  "jobqueue.jobScheduleRepository"
+);
+
+export type JobScheduleEventListeners = {
+  schedule_saved: (scheduleId: string) => void;
+  schedule_deleted: (scheduleId: string) => void;
+  schedule_cleared: () => void;
+};
+
+export type JobScheduleEvents = keyof JobScheduleEventListeners;
+
+export type JobScheduleEventListener<Event extends JobScheduleEvents> =
+  JobScheduleEventListeners[Event];
+
+export type JobScheduleEventParameters<Event extends JobScheduleEvents> = EventParameters<
+  JobScheduleEventListeners,
+  Event
+>;
+
+/**
+ * Abstract class for persisting recurring schedules used by {@link JobScheduler}.
+ */
+export abstract class JobScheduleRepository<Input = unknown> {
+  /**
+   * The type of the repository
+   */
+  public type = "JobScheduleRepository";
+
+  private get events() {
+    if (!this._events) {
+      this._events = new EventEmitter<JobScheduleEventListeners>();
+    }
+    return this._events;
+  }
+  private _events: EventEmitter<JobScheduleEventListeners> | undefined;
+
+  /**
+   * Registers an event listener for a specific event
+   * @param name The event name to listen for
+   * @param fn The callback function to execute when the event occurs
+   */
+  on<Event extends JobScheduleEvents>(name: Event, fn: JobScheduleEventListener<Event>) {
+    this.events.on(name, fn);
+  }
+
+  /**
+   * Removes an event listener for a specific event
+   * @param name The event name to stop listening for
+   * @param fn The callback function to remove
+   */
+  off<Event extends JobScheduleEvents>(name: Event, fn: JobScheduleEventListener<Event>) {
+    this.events.off(name, fn);
+  }
+
+  /**
+   * Returns a promise that resolves when the event is emitted
+   * @param name The event name to listen for
+   * @returns a promise that resolves to the event parameters
+   */
+  waitOn<Event extends JobScheduleEvents>(name: Event) {
+    return this.events.waitOn(name) as Promise<JobScheduleEventParameters<Event>>;
+  }
+
+  /**
+   * Emits an event (if there are listeners)
+   * @param name The event name to emit
+   * @param args The event parameters
+   */
+  emit<Event extends JobScheduleEvents>(name: Event, ...args: JobScheduleEventParameters<Event>) {
+    this._events?.emit(name, ...args);
+  }
+
+  /**
+   * Saves (inserts or replaces) a schedule
+   * @param record The schedule to save
+   * @emits schedule_saved when the operation completes
+   */
+  abstract saveSchedule(record: JobScheduleRecord<Input>): Promise<void>;
+
+  /**
+   * Retrieves a schedule
+   * @param scheduleId The id of the schedule
+   * @returns The schedule, or undefined if not found
+   */
+  abstract getSchedule(scheduleId: string): Promise<JobScheduleRecord<Input> | undefined>;
+
+  /**
+   * Retrieves all schedules
+   */
+  abstract getAllSchedules(): Promise<JobScheduleRecord<Input>[]>;
+
+  /**
+   * Deletes a schedule
+   * @param scheduleId The id of the schedule
+   * @emits schedule_deleted when the operation completes
+   */
+  abstract deleteSchedule(scheduleId: string): Promise<void>;
+
+  /**
+   * Clears all schedules from the repository
+   * @emits schedule_cleared when the operation completes
+   */
+  abstract clear(): Promise<void>;
+
+  /**
+   * Returns the number of schedules stored in the repository
+   */
+  abstract size(): Promise<number>;
+}
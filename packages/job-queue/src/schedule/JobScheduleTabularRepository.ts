@@ -0,0 +1,129 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { BaseTabularStorage } from "@workglow/storage";
+import { DataPortSchemaObject } from "@workglow/util/schema";
+import type { JobScheduleRecord } from "./JobSchedule";
+import { JobScheduleRepository } from "./JobScheduleRepository";
+
+export const JobScheduleSchema = {
+  type: "object",
+  properties: {
+    scheduleId: { type: "string" },
+    value: { type: "string" },
+    createdAt: { type: "string", format: "date-time" },
+    updatedAt: { type: "string", format: "date-time" },
+  },
+  additionalProperties: false,
+} satisfies DataPortSchemaObject;
+
+export const JobSchedulePrimaryKeyNames = ["scheduleId"] as const;
+
+export type JobScheduleRepositoryStorage = BaseTabularStorage<
+  typeof JobScheduleSchema,
+  typeof JobSchedulePrimaryKeyNames
+>;
+
+export type JobScheduleRepositoryOptions = {
+  tabularRepository: JobScheduleRepositoryStorage;
+};
+
+/**
+ * Schedule repository backed by a tabular storage. The schedule is stored as
+ * JSON in the `value` column.
+ */
+export class JobScheduleTabularRepository<Input = unknown> extends JobScheduleRepository<Input> {
+  /**
+   * The type of the repository
+   */
+  public override type = "JobScheduleTabularRepository";
+
+  /**
+   * The tabular repository for the schedules
+   */
+  tabularRepository: JobScheduleRepositoryStorage;
+
+  /**
+   * Constructor for the JobScheduleTabularRepository
+   * @param options The options for the repository
+   */
+  constructor({ tabularRepository }: JobScheduleRepositoryOptions) {
+    super();
+    this.tabularRepository = tabularRepository;
+  }
+
+  /**
+   * Sets up the database for the repository.
+   * Must be called before using any other methods.
+   */
+  async setupDatabase(): Promise<void> {
+    await this.tabularRepository.setupDatabase?.();
+  }
+
+  /**
+   * Saves (inserts or replaces) a schedule
+   * @param record The schedule to save
+   * @emits schedule_saved when the operation completes
+   */
+  async saveSchedule(record: JobScheduleRecord<Input>): Promise<void> {
+    await this.tabularRepository.put({
+      scheduleId: record.scheduleId,
+      value: JSON.stringify(record),
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    });
+    this.emit("schedule_saved", record.scheduleId);
+  }
+
+  /**
+   * Retrieves a schedule
+   * @param scheduleId The id of the schedule
+   * @returns The schedule, or undefined if not found
+   */
+  async getSchedule(scheduleId: string): Promise<JobScheduleRecord<Input> | undefined> {
+    const row = await this.tabularRepository.get({ scheduleId });
+    if (!row?.value) {
+      return undefined;
+    }
+    return JSON.parse(row.value) as JobScheduleRecord<Input>;
+  }
+
+  /**
+   * Retrieves all schedules
+   */
+  async getAllSchedules(): Promise<JobScheduleRecord<Input>[]> {
+    const rows = (await this.tabularRepository.getAll()) ?? [];
+    return rows
+      .filter((row) => row.value)
+      .map((row) => JSON.parse(row.value!) as JobScheduleRecord<Input>);
+  }
+
+  /**
+   * Deletes a schedule
+   * @param scheduleId The id of the schedule
+   * @emits schedule_deleted when the operation completes
+   */
+  async deleteSchedule(scheduleId: string): Promise<void> {
+    await this.tabularRepository.delete({ scheduleId });
+    this.emit("schedule_deleted", scheduleId);
+  }
+
+  /**
+   * Clears all schedules from the repository
+   * @emits schedule_cleared when the operation completes
+   */
+  async clear(): Promise<void> {
+    await this.tabularRepository.deleteAll();
+    this.emit("schedule_cleared");
+  }
+
+  /**
+   * Returns the number of schedules stored in the repository
+   */
+  async size(): Promise<number> {
+    return await this.tabularRepository.size();
+  }
+}
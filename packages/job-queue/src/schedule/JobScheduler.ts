@@ -0,0 +1,463 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { IQueueStorage, JobStatus, JobStorageFormat } from "@workglow/storage";
+import { EventEmitter, getLogger, uuid4 } from "@workglow/util";
+import type { JobQueueServer } from "../job/JobQueueServer";
+import { ScheduleError } from "./CronExpression";
+import {
+  JobScheduleRecord,
+  JobScheduleRunStatus,
+  MissedRunPolicy,
+  nextScheduledTime,
+  planScheduledRun,
+  ScheduleTiming,
+  validateScheduleTiming,
+} from "./JobSchedule";
+import type { JobScheduleRepository } from "./JobScheduleRepository";
+
+/**
+ * Events emitted by JobScheduler
+ */
+export type JobSchedulerEventListeners = {
+  /** A tick was enqueued as a job */
+  schedule_enqueued: (scheduleId: string, jobId: unknown, scheduledFor: Date) => void;
+  /** Missed ticks were dropped by the schedule's missed-run policy */
+  schedule_skipped: (scheduleId: string, skipped: number) => void;
+  /** A scheduled job finished */
+  schedule_run_finished: (scheduleId: string, jobId: unknown, status: JobScheduleRunStatus) => void;
+};
+
+export type JobSchedulerEvents = keyof JobSchedulerEventListeners;
+
+/**
+ * Options for creating a JobScheduler
+ */
+export interface JobSchedulerOptions<Input, Output> {
+  /** The queue the scheduled jobs are enqueued into; it is started and stopped by the caller */
+  readonly server: JobQueueServer<Input, Output>;
+  readonly repository: JobScheduleRepository<Input>;
+}
+
+/**
+ * Options for adding a schedule
+ */
+export type AddScheduleOptions<Input> = ScheduleTiming & {
+  readonly scheduleId?: string;
+  readonly description?: string;
+  readonly input: Input;
+  /** Default `skip` */
+  readonly missedRunPolicy?: MissedRunPolicy;
+  /** Default false: a tick waits for the previous run to finish */
+  readonly allowOverlap?: boolean;
+  /** Retries of each scheduled job (default 0) */
+  readonly maxRetries?: number;
+  readonly enabled?: boolean;
+};
+
+const ACTIVE_STATUSES: readonly JobStatus[] = [
+  JobStatus.PENDING,
+  JobStatus.PROCESSING,
+  JobStatus.ABORTING,
+];
+
+/** Locks on the run ids of ticks being enqueued, shared by the schedulers of each queue storage */
+const tickLocks = new WeakMap<object, Map<string, Promise<void>>>();
+
+/**
+ * Runs `fn` after all earlier calls holding the same key in `locks` have settled
+ */
+function runLocked<T>(
+  locks: Map<string, Promise<void>>,
+  key: string,
+  fn: () => Promise<T>
+): Promise<T> {
+  const previous = locks.get(key) ?? Promise.resolve();
+  const result = previous.then(fn);
+  const tail = result.then(
+    () => {},
+    () => {}
+  );
+  locks.set(key, tail);
+  tail.then(() => {
+    if (locks.get(key) === tail) {
+      locks.delete(key);
+    }
+  });
+  return result;
+}
+
+/**
+ * Enqueues jobs for recurring schedules (cron expressions or fixed intervals).
+ *
+ * Each schedule has at most one tick waiting in the queue at a time, submitted
+ * with `run_after` set to the tick's time so the queue's workers start it when
+ * it is due. The next tick is enqueued when the previous run finishes (or, with
+ * `allowOverlap`, when it starts), so runs of the same schedule never overlap
+ * by default. Ticks that came due in the meantime are handled by the schedule's
+ * {@link MissedRunPolicy}. Each tick uses `${scheduleId}:${scheduledFor}` as its
+ * job run id, and a tick is only added if no job has its run id yet. Schedulers
+ * sharing a queue storage instance lock the run id across that check and the
+ * add. Both also run in one storage transaction, so schedulers in other
+ * processes using the same SQLite database do not enqueue a tick twice either.
+ */
+export class JobScheduler<Input, Output> {
+  protected readonly server: JobQueueServer<Input, Output>;
+  protected readonly repository: JobScheduleRepository<Input>;
+  protected readonly events = new EventEmitter<JobSchedulerEventListeners>();
+
+  /** Enqueued jobs by job id */
+  protected readonly jobs = new Map<string, { scheduleId: string; scheduledFor: string }>();
+  /** Serializes the updates of each schedule */
+  protected readonly locks = new Map<string, Promise<void>>();
+  protected running = false;
+
+  constructor(options: JobSchedulerOptions<Input, Output>) {
+    this.server = options.server;
+    this.repository = options.repository;
+  }
+
+  protected get storage(): IQueueStorage<Input, Output> {
+    return this.server.getStorage();
+  }
+
+  /**
+   * Start enqueuing ticks. Schedules whose ticks were missed while the scheduler
+   * was stopped are handled according to their missed-run policy.
+   */
+  public async start(): Promise<this> {
+    if (this.running) {
+      return this;
+    }
+    this.running = true;
+    this.server.on("job_start", this.handleJobStart);
+    this.server.on("job_complete", this.handleJobComplete);
+    this.server.on("job_error", this.handleJobError);
+    this.server.on("job_disabled", this.handleJobDisabled);
+
+    const schedules = await this.repository.getAllSchedules();
+    for (const schedule of schedules) {
+      if (schedule.enabled) {
+        await this.withLock(schedule.scheduleId, () => this.resume(schedule.scheduleId));
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Stop enqueuing ticks. Jobs already in the queue are left alone and are
+   * picked up again by the next {@link start}.
+   */
+  public async stop(): Promise<this> {
+    if (!this.running) {
+      return this;
+    }
+    this.running = false;
+    this.server.off("job_start", this.handleJobStart);
+    this.server.off("job_complete", this.handleJobComplete);
+    this.server.off("job_error", this.handleJobError);
+    this.server.off("job_disabled", this.handleJobDisabled);
+    await Promise.all(this.locks.values());
+    this.jobs.clear();
+    return this;
+  }
+
+  public isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Adds (or replaces) a schedule and, if the scheduler is running, enqueues its first tick
+   * @throws ScheduleError if the timing is invalid
+   */
+  public async addSchedule(options: AddScheduleOptions<Input>): Promise<JobScheduleRecord<Input>> {
+    validateScheduleTiming(options);
+    const scheduleId = options.scheduleId ?? uuid4();
+    const now = new Date().toISOString();
+    const record: JobScheduleRecord<Input> = {
+      scheduleId,
+      description: options.description,
+      input: options.input,
+      cron: options.cron ?? null,
+      intervalMs: options.intervalMs ?? null,
+      timezone: options.timezone ?? "UTC",
+      missedRunPolicy: options.missedRunPolicy ?? "skip",
+      allowOverlap: options.allowOverlap ?? false,
+      maxRetries: options.maxRetries ?? 0,
+      enabled: options.enabled ?? true,
+      nextRunAt: null,
+      lastRunAt: null,
+      lastStatus: null,
+      lastError: null,
+      lastJobId: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    return await this.withLock(scheduleId, async () => {
+      const existing = await this.repository.getSchedule(scheduleId);
+      if (existing) {
+        await this.removePendingJob(existing);
+      }
+      await this.repository.saveSchedule(record);
+      if (this.running && record.enabled) {
+        await this.enqueueNext(record, new Date());
+      }
+      return record;
+    });
+  }
+
+  /**
+   * Removes a schedule and its pending tick. A run that already started is not aborted.
+   */
+  public async removeSchedule(scheduleId: string): Promise<void> {
+    await this.withLock(scheduleId, async () => {
+      const record = await this.repository.getSchedule(scheduleId);
+      if (!record) {
+        throw new ScheduleError(`Schedule "${scheduleId}" not found`);
+      }
+      await this.removePendingJob(record);
+      await this.repository.deleteSchedule(scheduleId);
+    });
+  }
+
+  public async getSchedule(scheduleId: string): Promise<JobScheduleRecord<Input> | undefined> {
+    return await this.repository.getSchedule(scheduleId);
+  }
+
+  public async listSchedules(): Promise<JobScheduleRecord<Input>[]> {
+    return await this.repository.getAllSchedules();
+  }
+
+  public on<Event extends JobSchedulerEvents>(
+    event: Event,
+    listener: JobSchedulerEventListeners[Event]
+  ): void {
+    this.events.on(event, listener);
+  }
+
+  public off<Event extends JobSchedulerEvents>(
+    event: Event,
+    listener: JobSchedulerEventListeners[Event]
+  ): void {
+    this.events.off(event, listener);
+  }
+
+  // ========================================================================
+  // Protected methods
+  // ========================================================================
+
+  /**
+   * Runs `fn` after all earlier updates of the same schedule have settled
+   */
+  protected withLock<T>(scheduleId: string, fn: () => Promise<T>): Promise<T> {
+    return runLocked(this.locks, scheduleId, fn);
+  }
+
+  /**
+   * Returns the job already holding the run id of `job`, or adds `job` if there
+   * is none
+   */
+  protected findOrAddTick(
+    job: JobStorageFormat<Input, Output> & { job_run_id: string }
+  ): Promise<JobStorageFormat<Input, Output>> {
+    const storage = this.storage;
+    let locks = tickLocks.get(storage);
+    if (!locks) {
+      locks = new Map();
+      tickLocks.set(storage, locks);
+    }
+    return runLocked(locks, job.job_run_id, () =>
+      storage.withTransaction(async () => {
+        const [existing] = await storage.getByRunId(job.job_run_id);
+        if (existing) return existing;
+        return { ...job, id: await storage.add(job) };
+      })
+    );
+  }
+
+  /**
+   * Picks a schedule back up on start: keeps its queued job if it is still
+   * current, otherwise plans the next tick.
+   */
+  protected async resume(scheduleId: string): Promise<void> {
+    const record = await this.repository.getSchedule(scheduleId);
+    if (!record) return;
+    const now = new Date();
+
+    if (record.lastJobId !== null && record.lastJobId !== undefined) {
+      const job = await this.storage.get(record.lastJobId);
+      if (job && ACTIVE_STATUSES.includes(job.status as JobStatus)) {
+        const scheduledFor = record.nextRunAt ?? record.lastRunAt;
+        if (job.status === JobStatus.PENDING && record.nextRunAt && this.isStale(record, now)) {
+          // Later ticks came due while we were down; let the policy decide what runs
+          await this.storage.delete(record.lastJobId);
+        } else {
+          if (scheduledFor) {
+            this.jobs.set(String(record.lastJobId), { scheduleId, scheduledFor });
+          }
+          if (job.status === JobStatus.PENDING || !record.allowOverlap) {
+            return;
+          }
+        }
+      }
+    }
+    await this.enqueueNext(record, now);
+  }
+
+  /**
+   * True if a tick after the queued one is already due
+   */
+  protected isStale(record: JobScheduleRecord<Input>, now: Date): boolean {
+    const following = nextScheduledTime(
+      record,
+      new Date(record.nextRunAt!),
+      new Date(record.createdAt)
+    );
+    return following.getTime() <= now.getTime();
+  }
+
+  /**
+   * Plans the next tick of a schedule from its last run and enqueues it
+   */
+  protected async enqueueNext(record: JobScheduleRecord<Input>, now: Date): Promise<void> {
+    let lastTick = new Date(record.lastRunAt ?? record.createdAt);
+    for (;;) {
+      const plan = planScheduledRun(record, lastTick, now);
+      if (plan.skipped > 0) {
+        this.events.emit("schedule_skipped", record.scheduleId, plan.skipped);
+      }
+      const scheduledFor = plan.scheduledFor.toISOString();
+      const jobRunId = `${record.scheduleId}:${scheduledFor}`;
+
+      const tick = await this.findOrAddTick({
+        queue: this.server.queueName,
+        input: record.input,
+        job_run_id: jobRunId,
+        max_retries: record.maxRetries,
+        run_after: plan.runAfter.toISOString(),
+        deadline_at: null,
+        completed_at: null,
+        status: JobStatus.PENDING,
+      });
+      if (!ACTIVE_STATUSES.includes(tick.status as JobStatus)) {
+        // This tick already ran (e.g. enqueued by another scheduler); move past it
+        lastTick = plan.scheduledFor;
+        continue;
+      }
+      const jobId = tick.id;
+
+      record.nextRunAt = scheduledFor;
+      record.lastJobId = jobId;
+      record.updatedAt = new Date().toISOString();
+      await this.repository.saveSchedule(record);
+      this.jobs.set(String(jobId), { scheduleId: record.scheduleId, scheduledFor });
+      this.events.emit("schedule_enqueued", record.scheduleId, jobId, plan.scheduledFor);
+      return;
+    }
+  }
+
+  /**
+   * Deletes the queued tick of a schedule if it has not started yet
+   */
+  protected async removePendingJob(record: JobScheduleRecord<Input>): Promise<void> {
+    if (record.lastJobId === null || record.lastJobId === undefined) return;
+    const job = await this.storage.get(record.lastJobId);
+    if (job?.status === JobStatus.PENDING) {
+      await this.storage.delete(record.lastJobId);
+    }
+    this.jobs.delete(String(record.lastJobId));
+  }
+
+  /**
+   * Returns the schedule tick of a job. A fast worker can start a job before
+   * the update that enqueued it has recorded it, so wait for pending updates
+   * before giving up.
+   */
+  protected async lookupJob(
+    jobId: unknown
+  ): Promise<{ scheduleId: string; scheduledFor: string } | undefined> {
+    const entry = this.jobs.get(String(jobId));
+    if (entry || this.locks.size === 0) {
+      return entry;
+    }
+    await Promise.all(this.locks.values());
+    return this.jobs.get(String(jobId));
+  }
+
+  protected async onJobStart(jobId: unknown): Promise<void> {
+    const entry = await this.lookupJob(jobId);
+    if (!entry) return;
+    await this.withLock(entry.scheduleId, async () => {
+      const record = await this.repository.getSchedule(entry.scheduleId);
+      if (!record) return;
+      record.lastRunAt = laterOf(record.lastRunAt, entry.scheduledFor);
+      if (record.nextRunAt === entry.scheduledFor) {
+        record.nextRunAt = null;
+      }
+      record.updatedAt = new Date().toISOString();
+      await this.repository.saveSchedule(record);
+      if (this.running && record.enabled && record.allowOverlap) {
+        await this.enqueueNext(record, new Date());
+      }
+    });
+  }
+
+  protected async onJobFinished(
+    jobId: unknown,
+    status: JobScheduleRunStatus,
+    error: string | null
+  ): Promise<void> {
+    const entry = await this.lookupJob(jobId);
+    if (!entry) return;
+    this.jobs.delete(String(jobId));
+    await this.withLock(entry.scheduleId, async () => {
+      const record = await this.repository.getSchedule(entry.scheduleId);
+      if (!record) return;
+      record.lastRunAt = laterOf(record.lastRunAt, entry.scheduledFor);
+      if (record.nextRunAt === entry.scheduledFor) {
+        record.nextRunAt = null;
+      }
+      record.lastStatus = status;
+      record.lastError = error;
+      record.updatedAt = new Date().toISOString();
+      await this.repository.saveSchedule(record);
+      this.events.emit("schedule_run_finished", record.scheduleId, jobId, status);
+      // With overlap allowed the next tick was already enqueued when this one started
+      if (this.running && record.enabled && String(record.lastJobId) === String(jobId)) {
+        await this.enqueueNext(record, new Date());
+      }
+    });
+  }
+
+  protected readonly handleJobStart = (_queueName: string, jobId: unknown): void => {
+    this.onJobStart(jobId).catch((err) => {
+      getLogger().error("Error updating schedule on job start:", { error: err });
+    });
+  };
+
+  protected readonly handleJobComplete = (_queueName: string, jobId: unknown): void => {
+    this.onJobFinished(jobId, "COMPLETED", null).catch((err) => {
+      getLogger().error("Error scheduling next run:", { error: err });
+    });
+  };
+
+  protected readonly handleJobError = (_queueName: string, jobId: unknown, error: string): void => {
+    this.onJobFinished(jobId, "FAILED", error).catch((err) => {
+      getLogger().error("Error scheduling next run:", { error: err });
+    });
+  };
+
+  protected readonly handleJobDisabled = (_queueName: string, jobId: unknown): void => {
+    this.onJobFinished(jobId, "FAILED", "Job disabled").catch((err) => {
+      getLogger().error("Error scheduling next run:", { error: err });
+    });
+  };
+}
+
+function laterOf(a: string | null, b: string): string {
+  return a && new Date(a).getTime() > new Date(b).getTime() ? a : b;
+}
@@ -69,6 +69,11 @@ export const ChunkRecordSchema = () =>
         title: "Section Titles",
         description: "Titles of ancestor section nodes",
       },
+      contentHash: {
+        type: "string",
+        title: "Content Hash",
+        description: "SHA-256 of the chunk text, used to reuse its vector when re-indexing",
+      },
       doc_title: {
         type: "string",
         title: "Document Title",
@@ -4,6 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { sha256 } from "@workglow/util";
 import { NodeKind } from "./DocumentSchema";
 import type {
   DocumentNode,
@@ -121,3 +122,40 @@ export function getDocumentRange(root: DocumentNode, nodePath: string[]): NodeRa
 
   return currentNode.range;
 }
+
+/**
+ * Content hash of a chunk's text. Chunks with equal hashes embed to the same
+ * vector, which lets re-indexing reuse vectors for unchanged chunks.
+ */
+export function hashChunkText(text: string): Promise<string> {
+  return sha256(text);
+}
+
+/**
+ * Returns a copy of the tree with `contentHash` set on every node. A node's
+ * hash covers its kind, title, level, text and its children's hashes, but not
+ * `nodeId`, `range` or `enrichment`, so an unchanged node keeps its hash when
+ * the document is re-parsed or edited elsewhere, and a changed node changes
+ * the hashes of all its ancestors.
+ */
+export async function hashDocumentTree<T extends DocumentNode>(
+  node: T,
+  depth: number = 0
+): Promise<T> {
+  if (depth > MAX_TRAVERSAL_DEPTH) {
+    throw new Error(`Document tree exceeds maximum depth of ${MAX_TRAVERSAL_DEPTH}`);
+  }
+  const children = hasChildren(node)
+    ? await Promise.all(node.children.map((child) => hashDocumentTree(child, depth + 1)))
+    : undefined;
+  const contentHash = await sha256(
+    JSON.stringify([
+      node.kind,
+      "title" in node ? node.title : null,
+      "level" in node ? node.level : null,
+      node.text,
+      children?.map((child) => child.contentHash) ?? null,
+    ])
+  );
+  return { ...node, ...(children ? { children } : {}), contentHash };
+}
@@ -129,6 +129,11 @@ export const DocumentNodeBaseSchema = {
       description: "Text content of the node",
     },
     enrichment: NodeEnrichmentSchema,
+    contentHash: {
+      type: "string",
+      title: "Content Hash",
+      description: "SHA-256 of the node's content and its descendants' (see hashDocumentTree)",
+    },
   },
   required: ["nodeId", "kind", "range", "text"],
   additionalProperties: true,
@@ -304,6 +309,7 @@ interface DocumentNodeBase {
   readonly range: NodeRange;
   readonly text: string;
   readonly enrichment?: NodeEnrichment;
+  readonly contentHash?: string;
 }
 
 /**
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { uuid4 } from "@workglow/util";
+import { NodeKind } from "./DocumentSchema";
+import type { DocumentRootNode, ParagraphNode, SectionNode } from "./DocumentSchema";
+
+/**
+ * Builds a DocumentNode tree from a flat sequence of headings and paragraphs,
+ * nesting paragraphs under the most recent section and sections by level.
+ * Used by the parsers that do not work line by line (HTML, PDF text).
+ */
+export class DocumentTreeBuilder {
+  private readonly root: DocumentRootNode;
+  private readonly stack: Array<DocumentRootNode | SectionNode>;
+
+  constructor(title: string, textLength: number) {
+    this.root = {
+      nodeId: uuid4(),
+      kind: NodeKind.DOCUMENT,
+      range: { startOffset: 0, endOffset: textLength },
+      text: title,
+      title,
+      children: [],
+    };
+    this.stack = [this.root];
+  }
+
+  /**
+   * Opens a section, closing open sections of the same or a deeper level at its start
+   */
+  openSection(level: number, title: string, startOffset: number): void {
+    this.closeSections(level, startOffset);
+    const section: SectionNode = {
+      nodeId: uuid4(),
+      kind: NodeKind.SECTION,
+      level,
+      title,
+      // endOffset is set when the section is closed
+      range: { startOffset, endOffset: startOffset },
+      text: title,
+      children: [],
+    };
+    this.stack[this.stack.length - 1].children.push(section);
+    this.stack.push(section);
+  }
+
+  /**
+   * Adds a paragraph to the current section (or the document root)
+   */
+  addParagraph(text: string, startOffset: number, endOffset: number): void {
+    if (!text) return;
+    const paragraph: ParagraphNode = {
+      nodeId: uuid4(),
+      kind: NodeKind.PARAGRAPH,
+      range: { startOffset, endOffset },
+      text,
+    };
+    this.stack[this.stack.length - 1].children.push(paragraph);
+  }
+
+  /**
+   * Closes the remaining sections at `endOffset` and returns the tree
+   */
+  finish(endOffset: number): DocumentRootNode {
+    this.closeSections(0, endOffset);
+    return this.root;
+  }
+
+  private closeSections(level: number, endOffset: number): void {
+    while (this.stack.length > 1) {
+      const top = this.stack[this.stack.length - 1] as SectionNode;
+      if (top.level < level) break;
+      top.range.endOffset = endOffset;
+      this.stack.pop();
+    }
+  }
+}
@@ -0,0 +1,501 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { DocumentRootNode } from "./DocumentSchema";
+import { DocumentTreeBuilder } from "./DocumentTreeBuilder";
+
+// =============================================================================
+// Lightweight HTML tree
+// =============================================================================
+
+interface HtmlElement {
+  readonly type: "element";
+  readonly name: string;
+  readonly attrs: Record<string, string>;
+  /** Offset of the start tag */
+  readonly start: number;
+  /** Offset just past the end tag (or where the element was implicitly closed) */
+  end: number;
+  readonly children: HtmlNode[];
+}
+
+interface HtmlText {
+  readonly type: "text";
+  readonly text: string;
+  readonly start: number;
+  readonly end: number;
+}
+
+type HtmlNode = HtmlElement | HtmlText;
+
+const VOID_ELEMENTS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "param",
+  "source",
+  "track",
+  "wbr",
+]);
+
+/** Elements whose content is not markup */
+const RAW_TEXT_ELEMENTS = new Set(["script", "style", "textarea", "title"]);
+
+/** Elements that close an open <p> */
+const CLOSES_PARAGRAPH = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "details",
+  "div",
+  "dl",
+  "figure",
+  "footer",
+  "form",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "main",
+  "nav",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "table",
+  "ul",
+]);
+
+/** Implicitly closed elements: the open element to close, up to (not past) a scope element */
+const IMPLICIT_CLOSE: Record<string, { close: readonly string[]; scope: readonly string[] }> = {
+  li: { close: ["li"], scope: ["ul", "ol"] },
+  dt: { close: ["dt", "dd"], scope: ["dl"] },
+  dd: { close: ["dt", "dd"], scope: ["dl"] },
+  tr: { close: ["tr"], scope: ["table", "thead", "tbody", "tfoot"] },
+  td: { close: ["td", "th"], scope: ["tr", "table"] },
+  th: { close: ["td", "th"], scope: ["tr", "table"] },
+  thead: { close: ["thead", "tbody", "tfoot"], scope: ["table"] },
+  tbody: { close: ["thead", "tbody", "tfoot"], scope: ["table"] },
+  tfoot: { close: ["thead", "tbody", "tfoot"], scope: ["table"] },
+};
+
+const TAG_PATTERN =
+  /<(\/?)([a-zA-Z][a-zA-Z0-9:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>/y;
+const ATTR_PATTERN = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(ATTR_PATTERN)) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+  }
+  return attrs;
+}
+
+/**
+ * Parses HTML into a tree of elements and text nodes with source offsets.
+ * Tolerant of unclosed and mismatched tags; not a conforming HTML5 parser.
+ */
+function parseHtmlTree(html: string): HtmlElement {
+  const root: HtmlElement = {
+    type: "element",
+    name: "#root",
+    attrs: {},
+    start: 0,
+    end: html.length,
+    children: [],
+  };
+  const stack: HtmlElement[] = [root];
+  const top = () => stack[stack.length - 1];
+  const popTo = (index: number, end: number) => {
+    while (stack.length > index) {
+      stack.pop()!.end = end;
+    }
+  };
+  const indexOfOpen = (names: readonly string[], scope: readonly string[]) => {
+    for (let i = stack.length - 1; i > 0; i--) {
+      if (names.includes(stack[i].name)) return i;
+      if (scope.includes(stack[i].name)) return -1;
+    }
+    return -1;
+  };
+
+  const lower = html.toLowerCase();
+  let pos = 0;
+  while (pos < html.length) {
+    const lt = html.indexOf("<", pos);
+    const textEnd = lt === -1 ? html.length : lt;
+    if (textEnd > pos) {
+      top().children.push({
+        type: "text",
+        text: html.slice(pos, textEnd),
+        start: pos,
+        end: textEnd,
+      });
+      pos = textEnd;
+      continue;
+    }
+
+    // Comments, doctype, processing instructions
+    if (html.startsWith("<!--", pos)) {
+      const close = html.indexOf("-->", pos + 4);
+      pos = close === -1 ? html.length : close + 3;
+      continue;
+    }
+    if (html.startsWith("<!", pos) || html.startsWith("<?", pos)) {
+      const close = html.indexOf(">", pos);
+      pos = close === -1 ? html.length : close + 1;
+      continue;
+    }
+
+    TAG_PATTERN.lastIndex = pos;
+    const match = TAG_PATTERN.exec(html);
+    if (!match) {
+      // A stray "<" is text
+      top().children.push({ type: "text", text: "<", start: pos, end: pos + 1 });
+      pos++;
+      continue;
+    }
+    const tagStart = pos;
+    const tagEnd = pos + match[0].length;
+    const name = match[2].toLowerCase();
+    pos = tagEnd;
+
+    if (match[1]) {
+      const index = stack.map((e) => e.name).lastIndexOf(name);
+      if (index > 0) popTo(index, tagEnd);
+      continue;
+    }
+
+    if (CLOSES_PARAGRAPH.has(name) && top().name === "p") popTo(stack.length - 1, tagStart);
+    const implicit = IMPLICIT_CLOSE[name];
+    if (implicit) {
+      const index = indexOfOpen(implicit.close, implicit.scope);
+      if (index > 0) popTo(index, tagStart);
+    }
+
+    const element: HtmlElement = {
+      type: "element",
+      name,
+      attrs: parseAttributes(match[3]),
+      start: tagStart,
+      end: tagEnd,
+      children: [],
+    };
+    top().children.push(element);
+    if (VOID_ELEMENTS.has(name) || match[4]) continue;
+
+    if (RAW_TEXT_ELEMENTS.has(name)) {
+      const close = lower.indexOf(`</${name}`, pos);
+      const contentEnd = close === -1 ? html.length : close;
+      if (contentEnd > pos) {
+        element.children.push({
+          type: "text",
+          text: html.slice(pos, contentEnd),
+          start: pos,
+          end: contentEnd,
+        });
+      }
+      const closeTagEnd = close === -1 ? -1 : html.indexOf(">", close);
+      const closeEnd = closeTagEnd === -1 ? html.length : closeTagEnd + 1;
+      element.end = closeEnd;
+      pos = closeEnd;
+      continue;
+    }
+    stack.push(element);
+  }
+  popTo(1, html.length);
+  return root;
+}
+
+// =============================================================================
+// Text helpers
+// =============================================================================
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  middot: "·",
+  bull: "•",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, body: string) => {
+    if (body[0] === "#") {
+      const code =
+        body[1] === "x" || body[1] === "X" ? parseInt(body.slice(2), 16) : parseInt(body.slice(1));
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[body.toLowerCase()] ?? entity;
+  });
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+// =============================================================================
+// Structure extraction
+// =============================================================================
+
+/** Elements that never contain document content */
+const SKIPPED_ELEMENTS = new Set([
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "svg",
+  "canvas",
+  "iframe",
+  "head",
+  "title",
+  "button",
+  "select",
+  "textarea",
+]);
+
+/** Page chrome: navigation, sidebars and forms */
+const BOILERPLATE_ELEMENTS = new Set(["nav", "aside", "form"]);
+
+/** Page-level header/footer; kept when inside an article or section */
+const PAGE_CHROME_ELEMENTS = new Set(["header", "footer"]);
+
+const BOILERPLATE_ROLES = new Set([
+  "navigation",
+  "banner",
+  "contentinfo",
+  "complementary",
+  "search",
+  "menu",
+  "menubar",
+]);
+
+const HEADING = /^h([1-6])$/;
+
+function isHidden(element: HtmlElement): boolean {
+  return "hidden" in element.attrs || element.attrs["aria-hidden"] === "true";
+}
+
+function isBoilerplate(element: HtmlElement, inContent: boolean): boolean {
+  if (SKIPPED_ELEMENTS.has(element.name) || BOILERPLATE_ELEMENTS.has(element.name)) return true;
+  if (PAGE_CHROME_ELEMENTS.has(element.name) && !inContent) return true;
+  const role = element.attrs.role;
+  return (role !== undefined && BOILERPLATE_ROLES.has(role)) || isHidden(element);
+}
+
+/** Collapsed text content of an element, skipping the given descendant elements */
+function inlineText(element: HtmlElement, exclude: ReadonlySet<string> = new Set()): string {
+  const parts: string[] = [];
+  const visit = (node: HtmlNode) => {
+    if (node.type === "text") {
+      parts.push(decodeEntities(node.text));
+      return;
+    }
+    if (SKIPPED_ELEMENTS.has(node.name) || exclude.has(node.name) || isHidden(node)) return;
+    if (node.name === "br" || node.name === "td" || node.name === "th") parts.push(" ");
+    for (const child of node.children) visit(child);
+  };
+  for (const child of element.children) visit(child);
+  return collapseWhitespace(parts.join(""));
+}
+
+/** Uncollapsed text content, for preformatted blocks */
+function rawText(element: HtmlElement): string {
+  let text = "";
+  const visit = (node: HtmlNode) => {
+    if (node.type === "text") text += decodeEntities(node.text);
+    else if (node.name === "br") text += "\n";
+    else for (const child of node.children) visit(child);
+  };
+  for (const child of element.children) visit(child);
+  return text.replace(/^\r?\n/, "").replace(/\s+$/, "");
+}
+
+function findAll(element: HtmlElement, names: ReadonlySet<string>, stopAt?: string): HtmlElement[] {
+  const found: HtmlElement[] = [];
+  const visit = (node: HtmlNode) => {
+    if (node.type !== "element") return;
+    if (names.has(node.name)) {
+      found.push(node);
+      return;
+    }
+    if (node.name === stopAt) return;
+    for (const child of node.children) visit(child);
+  };
+  for (const child of element.children) visit(child);
+  return found;
+}
+
+const LISTS = new Set(["ul", "ol"]);
+const LIST_ITEMS = new Set(["li"]);
+
+/** Renders a list as indented markdown-style lines */
+function listText(list: HtmlElement, depth = 0): string[] {
+  const lines: string[] = [];
+  const indent = "  ".repeat(depth);
+  let n = Number.parseInt(list.attrs.start ?? "1", 10) || 1;
+  for (const item of findAll(list, LIST_ITEMS, list.name)) {
+    const text = inlineText(item, LISTS);
+    const marker = list.name === "ol" ? `${n++}. ` : "- ";
+    if (text) lines.push(indent + marker + text);
+    for (const nested of findAll(item, LISTS)) {
+      lines.push(...listText(nested, depth + 1));
+    }
+  }
+  return lines;
+}
+
+const TABLE_ROWS = new Set(["tr"]);
+const TABLE_CELLS = new Set(["td", "th"]);
+
+/** Renders a table as one line per row, cells separated by " | " */
+function tableText(table: HtmlElement): string[] {
+  const lines: string[] = [];
+  const caption = findAll(table, new Set(["caption"]), "table")[0];
+  if (caption) lines.push(inlineText(caption));
+  for (const row of findAll(table, TABLE_ROWS, "table")) {
+    const cells = findAll(row, TABLE_CELLS, "table").map((cell) => inlineText(cell));
+    if (cells.some((cell) => cell)) lines.push(cells.join(" | "));
+  }
+  return lines;
+}
+
+/** Elements that sectioning header/footer are kept inside of */
+const CONTENT_ELEMENTS = new Set(["main", "article", "section"]);
+
+/** Elements whose text flows into the surrounding paragraph */
+const INLINE_ELEMENTS = new Set([
+  "a",
+  "abbr",
+  "b",
+  "bdi",
+  "bdo",
+  "cite",
+  "code",
+  "data",
+  "del",
+  "dfn",
+  "em",
+  "font",
+  "i",
+  "img",
+  "ins",
+  "kbd",
+  "label",
+  "mark",
+  "q",
+  "s",
+  "samp",
+  "small",
+  "span",
+  "strong",
+  "sub",
+  "sup",
+  "time",
+  "u",
+  "var",
+  "wbr",
+]);
+
+/**
+ * Parses HTML into a DocumentNode tree: headings become sections, text blocks,
+ * lists, tables and preformatted code become paragraphs. Scripts, styles,
+ * navigation, sidebars, forms, hidden elements and page-level header/footer are
+ * dropped; when the page has a `<main>` element only its content is parsed.
+ *
+ * Node ranges are offsets into the HTML source (UTF-16 code units): paragraphs
+ * span their text (or the whole list/table/pre element), sections run from
+ * their heading to the next heading of the same or a higher level.
+ */
+export function parseHtmlDocument(html: string, title: string): DocumentRootNode {
+  const tree = parseHtmlTree(html);
+  const builder = new DocumentTreeBuilder(title, html.length);
+  const main = findAll(tree, new Set(["main"]))[0] ?? tree;
+
+  let buffer: string[] = [];
+  let bufferStart = -1;
+  let bufferEnd = -1;
+  const flush = () => {
+    const text = collapseWhitespace(buffer.join(""));
+    if (text) builder.addParagraph(text, bufferStart, bufferEnd);
+    buffer = [];
+    bufferStart = -1;
+  };
+
+  const visit = (node: HtmlNode, inContent: boolean) => {
+    if (node.type === "text") {
+      if (!node.text.trim()) {
+        if (buffer.length > 0) buffer.push(" ");
+        return;
+      }
+      const leading = node.text.length - node.text.trimStart().length;
+      const trailing = node.text.length - node.text.trimEnd().length;
+      if (bufferStart < 0) bufferStart = node.start + leading;
+      bufferEnd = node.end - trailing;
+      buffer.push(decodeEntities(node.text));
+      return;
+    }
+    if (isBoilerplate(node, inContent)) return;
+
+    const heading = HEADING.exec(node.name);
+    if (heading) {
+      flush();
+      const text = inlineText(node);
+      if (text) builder.openSection(Number(heading[1]), text, node.start);
+      return;
+    }
+
+    let block: string[] | undefined;
+    if (LISTS.has(node.name)) block = listText(node);
+    else if (node.name === "table") block = tableText(node);
+    else if (node.name === "pre") block = [rawText(node)];
+    if (block) {
+      flush();
+      const text = block.filter((line) => line).join("\n");
+      if (text) builder.addParagraph(text, node.start, node.end);
+      return;
+    }
+
+    if (node.name === "br") {
+      buffer.push(" ");
+      return;
+    }
+    const isBlock = !INLINE_ELEMENTS.has(node.name);
+    if (isBlock) flush();
+    const childInContent = inContent || CONTENT_ELEMENTS.has(node.name);
+    for (const child of node.children) visit(child, childInContent);
+    if (isBlock) flush();
+  };
+
+  visit(main, main !== tree);
+  flush();
+  return builder.finish(html.length);
+}
@@ -0,0 +1,209 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { DocumentRootNode } from "./DocumentSchema";
+import { DocumentTreeBuilder } from "./DocumentTreeBuilder";
+
+/** Page separator emitted by PDF text extractors (pdftotext, pdf.js page joins) */
+export const PDF_PAGE_BREAK = "\f";
+
+interface Line {
+  readonly text: string;
+  readonly start: number;
+  readonly end: number;
+}
+
+interface Block {
+  readonly lines: Line[];
+  readonly page: number;
+}
+
+interface Heading {
+  readonly level: number;
+  readonly title: string;
+}
+
+const PAGE_NUMBER = /^(?:page\s+)?[-–]?\s*\d+\s*[-–]?(?:\s*(?:of|\/)\s*\d+)?$/i;
+const CHAPTER_HEADING = /^(?:chapter|part|appendix)\s+(?:\d+|[IVXLC]+|[A-Z])\b/i;
+const NUMBERED_HEADING = /^((?:\d{1,2}\.)*\d{1,2})\.?\s+\p{Lu}/u;
+const TERMINAL_PUNCTUATION = /[.!?;,:"”')\]]$/;
+
+/**
+ * Detects a heading from a line of extracted PDF text. PDF text carries no font
+ * sizes, so this relies on numbering ("2.3 Results"), chapter markers
+ * ("Chapter 4", "Appendix A") and short all-caps lines.
+ */
+function detectHeading(text: string): Heading | undefined {
+  if (text.length > 80 || TERMINAL_PUNCTUATION.test(text)) return undefined;
+
+  if (CHAPTER_HEADING.test(text)) return { level: 1, title: text };
+
+  const numbered = NUMBERED_HEADING.exec(text);
+  if (numbered) {
+    return { level: Math.min(numbered[1].split(".").length, 6), title: text };
+  }
+
+  const letters = text.replace(/[^\p{L}]/gu, "");
+  if (letters.length >= 3 && letters === letters.toUpperCase() && /\p{Lu}/u.test(letters)) {
+    return { level: 1, title: text };
+  }
+  return undefined;
+}
+
+/** Normalized form of a line for comparing running headers/footers across pages */
+function lineSignature(text: string): string {
+  return text.toLowerCase().replace(/\d+/g, "#").replace(/\s+/g, " ");
+}
+
+/**
+ * Finds running headers and footers: the first or last line of a page that
+ * repeats (ignoring numbers) on at least half of the pages
+ */
+function findRunningLines(pages: Line[][]): Set<string> {
+  const running = new Set<string>();
+  if (pages.length < 3) return running;
+  const counts = new Map<string, number>();
+  for (const lines of pages) {
+    const edges = new Set(
+      [lines[0], lines[lines.length - 1]].filter(Boolean).map((l) => lineSignature(l.text))
+    );
+    for (const signature of edges) counts.set(signature, (counts.get(signature) ?? 0) + 1);
+  }
+  for (const [signature, count] of counts) {
+    if (count >= Math.max(3, Math.ceil(pages.length / 2))) running.add(signature);
+  }
+  return running;
+}
+
+function joinLines(lines: readonly Line[]): string {
+  let text = "";
+  for (const line of lines) {
+    if (!text) text = line.text;
+    else if (/\p{L}-$/u.test(text) && /^\p{Ll}/u.test(line.text))
+      text = text.slice(0, -1) + line.text;
+    else text += " " + line.text;
+  }
+  return text;
+}
+
+/**
+ * Parses text extracted from a PDF into a DocumentNode tree. Pages are separated
+ * by form feeds ({@link PDF_PAGE_BREAK}); lines are separated by newlines and
+ * paragraphs by blank lines.
+ *
+ * Running headers/footers and page numbers are dropped, hyphenated line breaks
+ * are joined and paragraphs continue across page breaks. Headings are detected
+ * from numbering, chapter markers and all-caps lines. When no heading is found
+ * each page of a multi-page document becomes a level-1 section "Page N".
+ *
+ * Node ranges are offsets into the extracted text (UTF-16 code units).
+ */
+export function parsePdfDocument(text: string, title: string): DocumentRootNode {
+  // Split into pages of non-blank lines; blank lines are kept as paragraph breaks (null)
+  const pages: Array<Array<Line | null>> = [];
+  const pageStarts: number[] = [];
+  let offset = 0;
+  for (const pageText of text.split(PDF_PAGE_BREAK)) {
+    pageStarts.push(offset);
+    const page: Array<Line | null> = [];
+    let lineStart = offset;
+    for (const raw of pageText.split("\n")) {
+      const trimmed = raw.trim();
+      if (trimmed) {
+        const start = lineStart + raw.indexOf(trimmed);
+        page.push({ text: trimmed.replace(/\s+/g, " "), start, end: start + trimmed.length });
+      } else {
+        page.push(null);
+      }
+      lineStart += raw.length + 1;
+    }
+    pages.push(page);
+    offset += pageText.length + PDF_PAGE_BREAK.length;
+  }
+
+  // Drop running headers/footers and page numbers at the top or bottom of pages
+  const contentLines = pages.map((page) => page.filter((line): line is Line => line !== null));
+  const running = findRunningLines(contentLines);
+  for (let p = 0; p < pages.length; p++) {
+    const lines = contentLines[p];
+    const edges = new Set([lines[0], lines[lines.length - 1]]);
+    pages[p] = pages[p].map((line) =>
+      line &&
+      edges.has(line) &&
+      (PAGE_NUMBER.test(line.text) || running.has(lineSignature(line.text)))
+        ? null
+        : line
+    );
+  }
+
+  // Group lines into blocks, splitting off headings that start a block
+  const blocks: Block[] = [];
+  const headings = new Map<Block, Heading>();
+  for (let p = 0; p < pages.length; p++) {
+    let current: Line[] = [];
+    const push = () => {
+      if (current.length > 0) blocks.push({ lines: current, page: p });
+      current = [];
+    };
+    for (const line of pages[p]) {
+      if (!line) {
+        push();
+        continue;
+      }
+      const heading = current.length === 0 ? detectHeading(line.text) : undefined;
+      if (heading) {
+        const block: Block = { lines: [line], page: p };
+        blocks.push(block);
+        headings.set(block, heading);
+        continue;
+      }
+      current.push(line);
+    }
+    push();
+  }
+
+  const builder = new DocumentTreeBuilder(title, text.length);
+
+  if (headings.size === 0 && pages.length > 1) {
+    for (let p = 0; p < pages.length; p++) {
+      builder.openSection(1, `Page ${p + 1}`, pageStarts[p]);
+      for (const block of blocks.filter((b) => b.page === p)) {
+        const { lines } = block;
+        builder.addParagraph(joinLines(lines), lines[0].start, lines[lines.length - 1].end);
+      }
+    }
+    return builder.finish(text.length);
+  }
+
+  let pending: Line[] = [];
+  const flush = () => {
+    if (pending.length > 0) {
+      builder.addParagraph(joinLines(pending), pending[0].start, pending[pending.length - 1].end);
+    }
+    pending = [];
+  };
+  for (let i = 0; i < blocks.length; i++) {
+    const block = blocks[i];
+    const heading = headings.get(block);
+    if (heading) {
+      flush();
+      builder.openSection(heading.level, heading.title, block.lines[0].start);
+      continue;
+    }
+    // A paragraph that runs off the end of a page continues on the next one
+    const previous = blocks[i - 1];
+    const continues =
+      pending.length > 0 &&
+      previous !== undefined &&
+      previous.page < block.page &&
+      !TERMINAL_PUNCTUATION.test(pending[pending.length - 1].text) &&
+      /^\p{Ll}/u.test(block.lines[0].text);
+    if (!continues) flush();
+    pending.push(...block.lines);
+  }
+  flush();
+  return builder.finish(text.length);
+}
@@ -7,9 +7,16 @@
 import { uuid4 } from "@workglow/util";
 import { NodeKind } from "./DocumentSchema";
 import type { DocumentRootNode, ParagraphNode, SectionNode } from "./DocumentSchema";
+import { parseHtmlDocument } from "./HtmlStructuralParser";
+import { parsePdfDocument } from "./PdfStructuralParser";
 
 /**
- * Parse markdown into a hierarchical DocumentNode tree
+ * Source formats understood by {@link StructuralParser.parse}
+ */
+export type StructuralParserFormat = "markdown" | "text" | "html" | "pdf";
+
+/**
+ * Parse markdown, HTML, PDF text or plain text into a hierarchical DocumentNode tree
  */
 export class StructuralParser {
   /**
@@ -41,10 +48,12 @@ export class StructuralParser {
 
     const flushTextBuffer = async () => {
       if (textBuffer.length > 0) {
-        const content = textBuffer.join("\n").trim();
+        const raw = textBuffer.join("\n");
+        const content = raw.trim();
         if (content) {
-          const paragraphStartOffset = textBufferStartOffset;
-          const paragraphEndOffset = currentOffset;
+          // The range covers the trimmed text, like the paragraphs of parsePlainText
+          const paragraphStartOffset = textBufferStartOffset + raw.length - raw.trimStart().length;
+          const paragraphEndOffset = paragraphStartOffset + content.length;
 
           const paragraph: ParagraphNode = {
             nodeId: uuid4(),
@@ -218,20 +227,60 @@ export class StructuralParser {
   }
 
   /**
-   * Auto-detect format and parse
+   * Parse HTML into a hierarchical document tree. Headings become sections;
+   * text blocks, lists, tables and code blocks become paragraphs. Navigation,
+   * sidebars, scripts and other page chrome are dropped.
+   *
+   * Offsets point into the HTML source.
+   */
+  static async parseHtml(doc_id: string, text: string, title: string): Promise<DocumentRootNode> {
+    return parseHtmlDocument(text, title);
+  }
+
+  /**
+   * Parse text extracted from a PDF (pages separated by form feeds) into a
+   * hierarchical document tree, detecting headings from numbering, chapter
+   * markers and all-caps lines and dropping running headers/footers.
+   *
+   * Offsets point into the extracted text.
+   */
+  static async parsePdf(doc_id: string, text: string, title: string): Promise<DocumentRootNode> {
+    return parsePdfDocument(text, title);
+  }
+
+  /**
+   * Auto-detect format and parse. PDF text is only parsed as such when the
+   * format is given, as it cannot be told apart from plain text reliably.
    */
   static parse(
     doc_id: string,
     text: string,
     title: string,
-    format?: "markdown" | "text"
+    format?: StructuralParserFormat
   ): Promise<DocumentRootNode> {
+    if (format === "html" || (!format && this.looksLikeHtml(text))) {
+      return this.parseHtml(doc_id, text, title);
+    }
+    if (format === "pdf") {
+      return this.parsePdf(doc_id, text, title);
+    }
     if (format === "markdown" || (!format && this.looksLikeMarkdown(text))) {
       return this.parseMarkdown(doc_id, text, title);
     }
     return this.parsePlainText(doc_id, text, title);
   }
 
+  /**
+   * Check if text is an HTML document or fragment
+   * Looks for a doctype or html/head/body tag, or markup with closed block elements
+   */
+  private static looksLikeHtml(text: string): boolean {
+    if (/^\s*<(?:!doctype\s+html|html|head|body)\b/i.test(text)) return true;
+    return (
+      /^\s*</.test(text) && /<\/(?:p|div|h[1-6]|li|td|article|section)>/i.test(text.slice(0, 4096))
+    );
+  }
+
   /**
    * Check if text contains markdown header patterns
    * Looks for lines starting with 1-6 hash symbols followed by whitespace
@@ -4,7 +4,12 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import type { HybridSearchOptions, VectorSearchOptions } from "@workglow/storage";
+import type {
+  HybridFusion,
+  HybridSearchOptions,
+  VectorFilter,
+  VectorSearchOptions,
+} from "@workglow/storage";
 import type { TypedArray } from "@workglow/util/schema";
 import type { ChunkRecord } from "../chunk/ChunkSchema";
 import type {
@@ -14,6 +19,7 @@ import type {
   InsertChunkVectorEntity,
 } from "../chunk/ChunkVectorStorageSchema";
 import { Document } from "../document/Document";
+import { hashChunkText } from "../document/DocumentNode";
 import type { DocumentNode } from "../document/DocumentSchema";
 import type {
   DocumentStorageEntity,
@@ -24,13 +30,21 @@ import type {
 /**
  * Options passed through `kb.search()` to the `onSearch` callback.
  * The callback decides how to interpret them (similarity vs hybrid, etc.).
- * `filter` is intentionally a loose record — the callback and its backing
- * vector storage define the allowed keys.
+ * `filter` is an equality record or a filter expression (`in`, `range`,
+ * `contains`, ...). Its fields are intentionally loose — the callback and its
+ * backing vector storage define the allowed keys.
+ *
+ * `method`, `fusion`, `vectorWeight` and `rrfK` select and tune hybrid
+ * (vector + BM25) search; see {@link HybridSearchOptions}.
  */
 export interface ISearchOptions {
   readonly topK?: number;
-  readonly filter?: Readonly<Record<string, unknown>>;
+  readonly filter?: Readonly<VectorFilter>;
   readonly scoreThreshold?: number;
+  readonly method?: "similarity" | "hybrid";
+  readonly fusion?: HybridFusion;
+  readonly vectorWeight?: number;
+  readonly rrfK?: number;
 }
 
 /**
@@ -55,9 +69,39 @@ export type OnSearchCallback = (
   options?: ISearchOptions
 ) => Promise<ChunkSearchResult[]>;
 
+/**
+ * Embeds chunk texts for `reindexDocumentChunks`: one vector per text, in order.
+ */
+export type ChunkEmbedFn = (texts: string[]) => Promise<TypedArray[]>;
+
+/**
+ * Outcome of `reindexDocumentChunks`
+ */
+export interface ChunkReindexResult {
+  /** IDs of the stored chunks, aligned with the chunks passed in */
+  readonly chunk_ids: string[];
+  /** Chunks whose stored vector was reused */
+  readonly reused: number;
+  /** Chunks that were embedded */
+  readonly embedded: number;
+  /** Stored chunks no longer in the document, which were deleted */
+  readonly deleted: number;
+}
+
+/**
+ * Embedding migration in progress: chunks are being re-embedded with
+ * `embeddingModel` into `storage`, while search keeps using the current storage
+ */
+export interface PendingEmbeddingMigration {
+  readonly embeddingModel: string;
+  readonly storage: ChunkVectorStorage;
+}
+
 export interface KnowledgeBaseOptions {
   readonly title?: string;
   readonly description?: string;
+  /** model_id of the embedding model that produces the chunk vectors */
+  readonly embeddingModel?: string;
   readonly onDocumentUpsert?: OnDocumentUpsertCallback;
   readonly onDocumentDelete?: OnDocumentDeleteCallback;
   readonly onSearch?: OnSearchCallback;
@@ -72,7 +116,14 @@ export class KnowledgeBase {
   readonly title: string = "";
   readonly description: string = "";
   private readonly tabularStorage: DocumentTabularStorage;
-  private readonly chunkStorage: ChunkVectorStorage;
+  private chunkStorage: ChunkVectorStorage;
+  private currentEmbeddingModel: string | undefined;
+  private migration:
+    | (PendingEmbeddingMigration & { readonly staleChunks: Set<string> })
+    | undefined;
+  private readonly chunkWritesInFlight = new Set<Promise<unknown>>();
+  /** Settles once a switch to a migrated storage is done; chunk writes wait for it */
+  private switchingStorage: Promise<unknown> | undefined;
 
   /**
    * Called after `upsertDocument` successfully writes to storage.
@@ -104,6 +155,7 @@ export class KnowledgeBase {
     if (typeof options === "object" && options !== null) {
       this.title = options.title ?? name;
       this.description = options.description ?? "";
+      this.currentEmbeddingModel = options.embeddingModel;
       this.onDocumentUpsert = options.onDocumentUpsert;
       this.onDocumentDelete = options.onDocumentDelete;
       this.onSearch = options.onSearch;
@@ -261,37 +313,46 @@ export class KnowledgeBase {
    * Upsert a single chunk vector entity
    */
   async upsertChunk(chunk: InsertChunkVectorEntity): Promise<ChunkVectorEntity> {
-    const expected = this.getVectorDimensions();
-    if (expected > 0 && chunk.vector.length !== expected) {
-      throw new Error(
-        `Vector dimension mismatch: expected ${expected}, got ${chunk.vector.length}.`
-      );
-    }
-    return this.chunkStorage.put(chunk);
+    return this.writeChunks(async () => {
+      // Checked against the storage the write goes to, which a switch may change
+      const expected = this.getVectorDimensions();
+      if (expected > 0 && chunk.vector.length !== expected) {
+        throw new Error(
+          `Vector dimension mismatch: expected ${expected}, got ${chunk.vector.length}.`
+        );
+      }
+      return this.trackChunkWrites(await this.chunkStorage.put(chunk));
+    });
   }
 
   /**
    * Upsert multiple chunk vector entities
    */
   async upsertChunksBulk(chunks: InsertChunkVectorEntity[]): Promise<ChunkVectorEntity[]> {
-    const expected = this.getVectorDimensions();
-    if (expected > 0) {
-      for (const chunk of chunks) {
-        if (chunk.vector.length !== expected) {
-          throw new Error(
-            `Vector dimension mismatch: expected ${expected}, got ${chunk.vector.length}.`
-          );
+    return this.writeChunks(async () => {
+      const expected = this.getVectorDimensions();
+      if (expected > 0) {
+        for (const chunk of chunks) {
+          if (chunk.vector.length !== expected) {
+            throw new Error(
+              `Vector dimension mismatch: expected ${expected}, got ${chunk.vector.length}.`
+            );
+          }
         }
       }
-    }
-    return this.chunkStorage.putBulk(chunks);
+      return this.trackChunkWrites(await this.chunkStorage.putBulk(chunks));
+    });
   }
 
   /**
    * Delete all chunks for a specific document
    */
   async deleteChunksForDocument(doc_id: string): Promise<void> {
-    await this.chunkStorage.deleteSearch({ doc_id });
+    await this.writeChunks(async () => {
+      const deleted = this.migration ? await this.getChunksForDocument(doc_id) : [];
+      await this.chunkStorage.deleteSearch({ doc_id });
+      this.trackChunkWrites(deleted);
+    });
   }
 
   /**
@@ -320,7 +381,8 @@ export class KnowledgeBase {
   }
 
   /**
-   * Hybrid search combining vector similarity and full-text search. Canonical
+   * Hybrid search combining vector similarity and full-text (BM25) search,
+   * fused by weighted score or reciprocal rank (`options.fusion`). Canonical
    * scope-aware entry point; subclasses override for filter injection.
    *
    * @throws Error if the configured storage backend does not support hybrid search.
@@ -378,18 +440,174 @@ export class KnowledgeBase {
    * access to low-level vector operations — e.g. bulk maintenance, metrics,
    * or behavior that explicitly should bypass any subclass scoping. For
    * normal search, prefer `kb.similaritySearch()` / `kb.hybridSearch()`,
-   * which subclasses can override to inject scope.
+   * which subclasses can override to inject scope. Writes through it are not
+   * seen by an embedding migration in progress.
    */
   get vectorStorage(): ChunkVectorStorage {
     return this.chunkStorage;
   }
 
+  // ===========================================================================
+  // Embedding model
+  // ===========================================================================
+
+  /**
+   * model_id of the embedding model that produced the chunk vectors, if known
+   */
+  get embeddingModel(): string | undefined {
+    return this.currentEmbeddingModel;
+  }
+
+  /**
+   * Throws unless query vectors from `model_id` can be compared with the stored
+   * chunk vectors, i.e. unless it is the knowledge base's embedding model (or
+   * that model is unknown). During a migration the old model stays current
+   * until the switch.
+   */
+  assertEmbeddingModel(model_id: string): void {
+    const current = this.currentEmbeddingModel;
+    if (current !== undefined && model_id !== current) {
+      const pending = this.migration?.embeddingModel;
+      throw new Error(
+        `Knowledge base "${this.name}" holds vectors from embedding model "${current}", ` +
+          `not "${model_id}".` +
+          (pending === model_id ? " Its migration to that model has not completed yet." : "")
+      );
+    }
+  }
+
+  /**
+   * The embedding migration in progress, if any
+   */
+  get pendingEmbeddingMigration(): PendingEmbeddingMigration | undefined {
+    const migration = this.migration;
+    return migration && { embeddingModel: migration.embeddingModel, storage: migration.storage };
+  }
+
+  /**
+   * Start migrating to another embedding model. `storage` is the (set up, empty
+   * or partially filled) vector storage for the new vectors; the caller fills it
+   * while search keeps using the current storage. From now on the IDs of chunks
+   * written or deleted are collected, see {@link takeStaleMigrationChunks}.
+   *
+   * @throws Error if a migration is already in progress
+   */
+  beginEmbeddingMigration(embeddingModel: string, storage: ChunkVectorStorage): void {
+    if (this.migration) {
+      throw new Error(
+        `Knowledge base "${this.name}" is already migrating to embedding model "${this.migration.embeddingModel}"`
+      );
+    }
+    this.migration = { embeddingModel, storage, staleChunks: new Set() };
+  }
+
+  /**
+   * IDs of the chunks written or deleted since the migration began or since the
+   * previous call; their migrated copies have to be refreshed or deleted.
+   */
+  takeStaleMigrationChunks(): string[] {
+    const migration = this.requireMigration();
+    const ids = [...migration.staleChunks];
+    migration.staleChunks.clear();
+    return ids;
+  }
+
+  /**
+   * Switch to the migrated storage and embedding model. Chunk writes in flight
+   * still go to the current storage, so they are waited for first. `persist`
+   * then records the switch, e.g. in the knowledge base record, while new chunk
+   * writes wait; only once it resolves does the switch happen, so a failure to
+   * record it leaves the knowledge base on its current storage.
+   *
+   * @param persist Records the switch before it happens
+   * @returns The previous chunk storage, which the caller may drop, or
+   *   undefined if chunks changed since the last {@link takeStaleMigrationChunks};
+   *   refresh those and call again
+   * @throws Error if there is no migration, or it was abandoned meanwhile, or
+   *   what `persist` throws, in which case the migration is still in progress
+   */
+  async completeEmbeddingMigration(
+    persist?: () => Promise<void>
+  ): Promise<ChunkVectorStorage | undefined> {
+    const migration = this.requireMigration();
+    while (this.chunkWritesInFlight.size > 0) {
+      await Promise.allSettled(this.chunkWritesInFlight);
+    }
+    if (this.migration !== migration) {
+      throw new Error(`Knowledge base "${this.name}" abandoned the embedding migration`);
+    }
+    if (migration.staleChunks.size > 0) return undefined;
+    const switched = (async () => {
+      await persist?.();
+      if (this.migration !== migration) {
+        throw new Error(`Knowledge base "${this.name}" abandoned the embedding migration`);
+      }
+      const previous = this.chunkStorage;
+      this.chunkStorage = migration.storage;
+      this.currentEmbeddingModel = migration.embeddingModel;
+      this.migration = undefined;
+      return previous;
+    })();
+    this.switchingStorage = switched;
+    try {
+      return await switched;
+    } finally {
+      this.switchingStorage = undefined;
+    }
+  }
+
+  /**
+   * Abandon the migration in progress, if any, keeping the current storage
+   *
+   * @returns The storage that was being migrated to
+   */
+  abortEmbeddingMigration(): ChunkVectorStorage | undefined {
+    const storage = this.migration?.storage;
+    this.migration = undefined;
+    return storage;
+  }
+
+  private requireMigration() {
+    if (!this.migration) {
+      throw new Error(`Knowledge base "${this.name}" has no embedding migration in progress`);
+    }
+    return this.migration;
+  }
+
+  /**
+   * Runs a chunk write against the current storage. Writes in flight hold off
+   * the switch to a migrated storage, and writes made while it is recorded run
+   * after it, see {@link completeEmbeddingMigration}.
+   */
+  private writeChunks<T>(write: () => Promise<T>): Promise<T> {
+    const switching = this.switchingStorage;
+    const pending = switching ? switching.then(write, write) : write();
+    this.chunkWritesInFlight.add(pending);
+    const settled = () => this.chunkWritesInFlight.delete(pending);
+    pending.then(settled, settled);
+    return pending;
+  }
+
+  /**
+   * Records written or deleted chunks for the migration in progress
+   */
+  private trackChunkWrites<T extends ChunkVectorEntity | ChunkVectorEntity[]>(written: T): T {
+    if (this.migration) {
+      for (const chunk of Array.isArray(written) ? written : [written]) {
+        this.migration.staleChunks.add(chunk.chunk_id);
+      }
+    }
+    return written;
+  }
+
   // ===========================================================================
   // Lifecycle
   // ===========================================================================
 
   /**
    * Prepare a document for re-indexing: deletes all chunks but keeps the document.
+   * Every chunk must then be embedded again; `reindexDocumentChunks` only
+   * embeds the chunks that changed.
    * @returns The document if found, undefined otherwise
    */
   async prepareReindex(doc_id: string): Promise<Document | undefined> {
@@ -401,6 +619,82 @@ export class KnowledgeBase {
     return doc;
   }
 
+  /**
+   * Replace the stored chunks of a document with a new version of them,
+   * embedding only what changed. Chunks are matched to stored chunks by
+   * `contentHash` (computed from the text when missing, on either side):
+   * a match keeps its `chunk_id` and vector and takes the new metadata,
+   * unmatched chunks are embedded with `embed`, and stored chunks left
+   * unmatched are deleted.
+   *
+   * Nothing is written until `embed` succeeds, and orphans are deleted only
+   * after the new chunks are stored.
+   */
+  async reindexDocumentChunks(
+    doc_id: string,
+    chunks: readonly ChunkRecord[],
+    embed: ChunkEmbedFn
+  ): Promise<ChunkReindexResult> {
+    const hashOf = (chunk: ChunkRecord) => chunk.contentHash ?? hashChunkText(chunk.text);
+
+    const stored = new Map<string, ChunkVectorEntity[]>();
+    for (const entity of await this.getChunksForDocument(doc_id)) {
+      const hash = await hashOf(entity.metadata);
+      const matches = stored.get(hash);
+      if (matches) matches.push(entity);
+      else stored.set(hash, [entity]);
+    }
+
+    const metadata: ChunkRecord[] = [];
+    const reused = new Map<number, ChunkVectorEntity>();
+    for (const chunk of chunks) {
+      if (chunk.doc_id !== doc_id) {
+        throw new Error(
+          `reindexDocumentChunks: chunk ${JSON.stringify(chunk.chunkId)} has doc_id ${JSON.stringify(chunk.doc_id)}, expected ${JSON.stringify(doc_id)}`
+        );
+      }
+      const contentHash = await hashOf(chunk);
+      const match = stored.get(contentHash)?.shift();
+      if (match) reused.set(metadata.length, match);
+      metadata.push({ ...chunk, contentHash });
+    }
+
+    const changed = metadata.filter((_, i) => !reused.has(i));
+    const vectors = changed.length > 0 ? await embed(changed.map((chunk) => chunk.text)) : [];
+    if (vectors.length !== changed.length) {
+      throw new Error(
+        `reindexDocumentChunks: embedded ${changed.length} chunks but got ${vectors.length} vectors`
+      );
+    }
+
+    let next = 0;
+    const entities: InsertChunkVectorEntity[] = metadata.map((chunk, i) => {
+      const match = reused.get(i);
+      return match
+        ? { chunk_id: match.chunk_id, doc_id, vector: match.vector, metadata: chunk }
+        : { doc_id, vector: vectors[next++], metadata: chunk };
+    });
+    const results = entities.length > 0 ? await this.upsertChunksBulk(entities) : [];
+
+    let deleted = 0;
+    for (const orphans of stored.values()) {
+      for (const orphan of orphans) {
+        await this.writeChunks(async () => {
+          await this.chunkStorage.delete({ chunk_id: orphan.chunk_id });
+          this.trackChunkWrites(orphan);
+        });
+        deleted++;
+      }
+    }
+
+    return {
+      chunk_ids: results.map((r) => r.chunk_id),
+      reused: reused.size,
+      embedded: changed.length,
+      deleted,
+    };
+  }
+
   /**
    * Setup the underlying databases
    */
@@ -415,6 +709,7 @@ export class KnowledgeBase {
   destroy(): void {
     this.tabularStorage.destroy();
     this.chunkStorage.destroy();
+    this.abortEmbeddingMigration()?.destroy();
   }
 
   async [Symbol.asyncDispose](): Promise<void> {
@@ -440,14 +735,16 @@ export class KnowledgeBase {
    * Store a single chunk (alias for upsertChunk)
    */
   async put(chunk: InsertChunkVectorEntity): Promise<ChunkVectorEntity> {
-    return this.chunkStorage.put(chunk);
+    return this.writeChunks(async () => this.trackChunkWrites(await this.chunkStorage.put(chunk)));
   }
 
   /**
    * Store multiple chunks (alias for upsertChunksBulk)
    */
   async putBulk(chunks: InsertChunkVectorEntity[]): Promise<ChunkVectorEntity[]> {
-    return this.chunkStorage.putBulk(chunks);
+    return this.writeChunks(async () =>
+      this.trackChunkWrites(await this.chunkStorage.putBulk(chunks))
+    );
   }
 
   /**
@@ -468,7 +765,11 @@ export class KnowledgeBase {
    * Clear all chunks
    */
   async clearChunks(): Promise<void> {
-    return this.chunkStorage.deleteAll();
+    await this.writeChunks(async () => {
+      const deleted = this.migration ? ((await this.getAllChunks()) ?? []) : [];
+      await this.chunkStorage.deleteAll();
+      this.trackChunkWrites(deleted);
+    });
   }
 
   /**
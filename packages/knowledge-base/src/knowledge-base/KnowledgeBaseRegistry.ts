@@ -122,6 +122,7 @@ export function registerKnowledgeBase(
       vector_dimensions: kb.getVectorDimensions(),
       document_table: tableNames.documentTable,
       chunk_table: tableNames.chunkTable,
+      ...(kb.embeddingModel !== undefined ? { embedding_model: kb.embeddingModel } : {}),
       created_at: now,
       updated_at: now,
     };
@@ -98,6 +98,20 @@ export class KnowledgeBaseRepository {
     return record;
   }
 
+  /**
+   * Updates an existing knowledge base record
+   * @throws if no record with the same kb_id exists
+   */
+  async updateKnowledgeBase(record: KnowledgeBaseRecord): Promise<KnowledgeBaseRecord> {
+    const existing = await this.storage.get({ kb_id: record.kb_id });
+    if (!existing) {
+      throw new Error(`KnowledgeBase with id "${record.kb_id}" not found`);
+    }
+    await this.storage.put(record);
+    this.events.emit("knowledge_base_updated", record);
+    return record;
+  }
+
   /**
    * Removes a knowledge base record from the repository
    */
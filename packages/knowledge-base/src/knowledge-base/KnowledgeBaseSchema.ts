@@ -19,6 +19,12 @@ export const KnowledgeBaseRecordSchema = {
     vector_dimensions: { type: "integer" },
     document_table: { type: "string" },
     chunk_table: { type: "string" },
+    /** model_id of the embedding model that produced the vectors in `chunk_table` */
+    embedding_model: { type: "string" },
+    /** Embedding migration in progress: the model, table and dimensions being migrated to */
+    pending_embedding_model: { type: "string" },
+    pending_chunk_table: { type: "string" },
+    pending_vector_dimensions: { type: "integer" },
     created_at: { type: "string" },
     updated_at: { type: "string" },
   },
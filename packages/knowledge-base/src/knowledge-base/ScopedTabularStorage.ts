@@ -5,6 +5,9 @@
  */
 
 import type {
+  AggregateOptions,
+  AggregateResult,
+  AggregateSpec,
   AnyTabularStorage,
   DeleteSearchCriteria,
   ITabularStorage,
@@ -97,19 +100,26 @@ export class ScopedTabularStorage<
     this.events.emit("clearall");
   }
 
-  // O(n) — ITabularStorage has no count() method. Uses pagination to limit peak memory.
   async size(): Promise<number> {
-    let count = 0;
-    const pageSize = 1000;
-    let offset = 0;
-    while (true) {
-      const page = await this.inner.query({ kb_id: this.kbId } as any, { offset, limit: pageSize });
-      if (!page || page.length === 0) break;
-      count += page.length;
-      if (page.length < pageSize) break;
-      offset += pageSize;
-    }
-    return count;
+    return await this.inner.count({ kb_id: this.kbId } as any);
+  }
+
+  async count(criteria?: SearchCriteria<Entity>): Promise<number> {
+    return await this.inner.count({ ...(criteria as any), kb_id: this.kbId });
+  }
+
+  async aggregate<Aggregates extends Record<string, AggregateSpec<Entity>>>(
+    aggregates: Aggregates,
+    options?: AggregateOptions<Entity>
+  ): Promise<Array<AggregateResult<Entity, Aggregates>>> {
+    return (await this.inner.aggregate(aggregates as any, {
+      ...(options as any),
+      criteria: { ...(options?.criteria as any), kb_id: this.kbId },
+    })) as Array<AggregateResult<Entity, Aggregates>>;
+  }
+
+  async withTransaction<T>(fn: () => Promise<T>): Promise<T> {
+    return await this.inner.withTransaction(fn);
   }
 
   async query(
@@ -25,6 +25,8 @@ export interface CreateKnowledgeBaseOptions {
   readonly register?: boolean;
   readonly title?: string;
   readonly description?: string;
+  /** model_id of the embedding model that produces the chunk vectors */
+  readonly embeddingModel?: string;
   readonly onDocumentUpsert?: OnDocumentUpsertCallback;
   readonly onDocumentDelete?: OnDocumentDeleteCallback;
   readonly onSearch?: OnSearchCallback;
@@ -51,6 +53,7 @@ export async function createKnowledgeBase(
     register: shouldRegister = true,
     title,
     description,
+    embeddingModel,
     onDocumentUpsert,
     onDocumentDelete,
     onSearch,
@@ -85,7 +88,7 @@ export async function createKnowledgeBase(
     name,
     tabularStorage as unknown as DocumentTabularStorage,
     vectorStorage as unknown as ChunkVectorStorage,
-    { title, description, onDocumentUpsert, onDocumentDelete, onSearch }
+    { title, description, embeddingModel, onDocumentUpsert, onDocumentDelete, onSearch }
   );
 
   if (shouldRegister) {
@@ -29,6 +29,9 @@ export * from "./vector/PostgresVectorStorage";
 export * from "./vector/SqliteVectorStorage";
 export * from "./vector/SqliteAiVectorStorage";
 
+export * from "./util/PostgresTransaction";
+export * from "./util/SqliteTransaction";
+
 // testing
 export * from "./kv/IndexedDbKvStorage";
 export * from "./queue-limiter/IndexedDbRateLimiterStorage";
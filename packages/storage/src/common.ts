@@ -10,6 +10,7 @@ export * from "./tabular/HuggingFaceTabularStorage";
 export * from "./tabular/InMemoryTabularStorage";
 export * from "./tabular/ITabularStorage";
 export * from "./tabular/StorageError";
+export * from "./tabular/TabularMigration";
 export * from "./tabular/TabularStorageRegistry";
 export * from "./tabular/TelemetryTabularStorage";
 
@@ -30,9 +31,15 @@ export * from "./util/HybridSubscriptionManager";
 export * from "./util/PollingSubscriptionManager";
 export * from "./util/traced";
 
+export * from "./vector/Bm25Index";
+export * from "./vector/HnswIndex";
+export * from "./vector/HybridFusion";
 export * from "./vector/InMemoryVectorStorage";
 export * from "./vector/IVectorStorage";
 export * from "./vector/TelemetryVectorStorage";
 
+export * from "./sync/SyncConflictPolicy";
+export * from "./sync/TabularSyncEngine";
+
 export * from "./credentials/EncryptedKvCredentialStore";
 export * from "./credentials/LazyEncryptedCredentialStore";
@@ -6,18 +6,22 @@
 
 import { JsonSchema } from "@workglow/util/schema";
 import { createServiceToken } from "@workglow/util";
-import { mkdir, readFile, rm, unlink, writeFile } from "fs/promises";
+import { mkdir, readdir, readFile, rm, unlink, writeFile } from "fs/promises";
 import path from "path";
-import { IKvStorage } from "./IKvStorage";
+import { IKvStorage, KvBulkItem, KvPutOptions } from "./IKvStorage";
 import { KvStorage } from "./KvStorage";
 
 export const FS_FOLDER_KV_REPOSITORY = createServiceToken<IKvStorage<string, any, any>>(
   "storage.kvRepository.fsFolder"
 );
 
+/** Suffix of the sidecar file recording the key and expiry of an entry with a time to live */
+const EXPIRY_SUFFIX = ".expires.json";
+
 /**
  * A key-value repository implementation that stores each value as a file in a specified folder.
- * Uses the file system for persistence, with each key mapped to a file path.
+ * Uses the file system for persistence, with each key mapped to a file path. Entries with a
+ * time to live get a sidecar file next to the value holding their expiry.
  *
  * @template Key - The type of the primary key
  * @template Value - The type of the value being stored
@@ -61,8 +65,10 @@ export class FsFolderKvStorage<
    * Stores a row in the repository.
    * @param key - The primary key
    * @param value - The value to store
+   * @param options - Optional time to live; without one, any earlier expiry is cleared
    */
-  public async put(key: Key, value: Value): Promise<void> {
+  public async put(key: Key, value: Value, options?: KvPutOptions): Promise<void> {
+    const expiresAt = this.expiresAt(options?.ttlMs);
     const localPath = path.join(this.folderPath, this.pathWriter(key).replaceAll("..", "_"));
 
     let content: string;
@@ -85,15 +91,20 @@ export class FsFolderKvStorage<
 
     await mkdir(path.dirname(localPath), { recursive: true });
     await writeFile(localPath, content);
+    if (expiresAt === null) {
+      await rm(localPath + EXPIRY_SUFFIX, { force: true });
+    } else {
+      await writeFile(localPath + EXPIRY_SUFFIX, JSON.stringify({ key, expiresAt }));
+    }
   }
 
   /**
    * Stores multiple rows in the repository in a bulk operation.
-   * @param items - Array of key-value pairs to store
+   * @param items - Array of key-value pairs to store, each with an optional time to live
    */
-  public async putBulk(items: Array<{ key: Key; value: Value }>): Promise<void> {
+  public async putBulk(items: Array<KvBulkItem<Key, Value>>): Promise<void> {
     await this.setupDirectory();
-    await Promise.all(items.map(async ({ key, value }) => this.put(key, value)));
+    await Promise.all(items.map(async ({ key, value, ttlMs }) => this.put(key, value, { ttlMs })));
   }
 
   /**
@@ -105,6 +116,9 @@ export class FsFolderKvStorage<
    */
   public async get(key: Key): Promise<Value | undefined> {
     const localPath = path.join(this.folderPath, this.pathWriter(key).replaceAll("..", "_"));
+    if (await this.removeIfExpired(localPath + EXPIRY_SUFFIX, Date.now())) {
+      return undefined;
+    }
     const typeDef = this.valueSchema;
     try {
       const encoding =
@@ -148,6 +162,7 @@ export class FsFolderKvStorage<
   public async delete(key: Key): Promise<void> {
     const localPath = path.join(this.folderPath, this.pathWriter(key).replaceAll("..", "_"));
     await unlink(localPath);
+    await rm(localPath + EXPIRY_SUFFIX, { force: true });
   }
 
   /**
@@ -173,4 +188,44 @@ export class FsFolderKvStorage<
   public async size(): Promise<number> {
     throw new Error("Not implemented");
   }
+
+  /**
+   * Removes every expired entry, found through the sidecar files, emitting
+   * `expired` for each
+   * @returns The number of entries removed
+   */
+  public async sweepExpired(): Promise<number> {
+    let files: string[];
+    try {
+      files = await readdir(this.folderPath, { recursive: true });
+    } catch {
+      return 0; // Nothing has been stored yet
+    }
+    const now = Date.now();
+    let removed = 0;
+    for (const file of files) {
+      if (!file.endsWith(EXPIRY_SUFFIX)) continue;
+      if (await this.removeIfExpired(path.join(this.folderPath, file), now)) removed++;
+    }
+    return removed;
+  }
+
+  /**
+   * Reads an expiry sidecar file and, if its entry has expired, deletes the
+   * entry and the sidecar and emits `expired`
+   * @returns Whether the entry was expired
+   */
+  private async removeIfExpired(expiryPath: string, now: number): Promise<boolean> {
+    let expiry: { key: Key; expiresAt: number };
+    try {
+      expiry = JSON.parse(await readFile(expiryPath, "utf-8"));
+    } catch {
+      return false; // No time to live
+    }
+    if (expiry.expiresAt > now) return false;
+    await rm(expiryPath.slice(0, -EXPIRY_SUFFIX.length), { force: true });
+    await rm(expiryPath, { force: true });
+    this.events.emit("expired", expiry.key);
+    return true;
+  }
 }
@@ -16,6 +16,8 @@ export const DefaultKeyValueSchema = {
   properties: {
     key: { type: "string" },
     value: {},
+    /** Epoch milliseconds after which the entry is expired; absent or null never expires */
+    expires_at: { anyOf: [{ type: "integer", minimum: 0 }, { type: "null" }] },
   },
   additionalProperties: false,
 } as const satisfies DataPortSchemaObject;
@@ -30,8 +32,23 @@ export type KvEventListeners<Key, Value, Combined> = {
   getAll: (results: Combined[] | undefined) => void;
   delete: (key: unknown) => void;
   deleteall: () => void;
+  /** An expired entry was removed, on read or by a sweep */
+  expired: (key: Key) => void;
 };
 
+/**
+ * Options for storing a single entry
+ */
+export interface KvPutOptions {
+  /** Milliseconds until the entry expires; omit for an entry that never expires */
+  readonly ttlMs?: number;
+}
+
+/**
+ * An entry for putBulk(), optionally with its own time to live
+ */
+export type KvBulkItem<Key, Value> = { key: Key; value: Value } & KvPutOptions;
+
 export type KvEventName = keyof KvEventListeners<any, any, any>;
 export type KvEventListener<Event extends KvEventName, Key, Value, Combined> = KvEventListeners<
   Key,
@@ -59,14 +76,27 @@ export interface IKvStorage<
   Combined = { key: Key; value: Value },
 > {
   // Core methods
-  put(key: Key, value: Value): Promise<void>;
-  putBulk(items: Array<{ key: Key; value: Value }>): Promise<void>;
+  put(key: Key, value: Value, options?: KvPutOptions): Promise<void>;
+  putBulk(items: Array<KvBulkItem<Key, Value>>): Promise<void>;
+  /** Returns undefined for a missing or expired entry; expired entries are removed */
   get(key: Key): Promise<Value | undefined>;
   delete(key: Key): Promise<void>;
   getAll(): Promise<Combined[] | undefined>;
   deleteAll(): Promise<void>;
   size(): Promise<number>;
 
+  /**
+   * Removes every expired entry, emitting `expired` for each
+   * @returns The number of entries removed
+   */
+  sweepExpired(): Promise<number>;
+
+  /**
+   * Runs `fn` so that its writes commit or roll back together, with the
+   * semantics of the backing tabular storage's `withTransaction()`.
+   */
+  withTransaction<T>(fn: () => Promise<T>): Promise<T>;
+
   getObjectAsIdString(object: JSONValue): Promise<string>;
 
   // Event handling methods
@@ -5,14 +5,17 @@
  */
 
 import { JsonSchema } from "@workglow/util/schema";
-import { createServiceToken, EventEmitter, makeFingerprint } from "@workglow/util";
+import { createServiceToken, EventEmitter, getLogger, makeFingerprint } from "@workglow/util";
 import { JSONValue } from "../tabular/ITabularStorage";
+import { StorageValidationError } from "../tabular/StorageError";
 import {
   IKvStorage,
+  KvBulkItem,
   KvEventListener,
   KvEventListeners,
   KvEventName,
   KvEventParameters,
+  KvPutOptions,
 } from "./IKvStorage";
 
 export const KV_REPOSITORY = createServiceToken<IKvStorage<any, any, any>>("storage.kvRepository");
@@ -32,6 +35,8 @@ export abstract class KvStorage<
 > implements IKvStorage<Key, Value, Combined> {
   /** Event emitter for repository events */
   protected events = new EventEmitter<KvEventListeners<Key, Value, Combined>>();
+  /** Timer of the running expiry sweeper, if any */
+  private sweeperIntervalId: ReturnType<typeof setInterval> | null = null;
 
   /**
    * Creates a new KvStorage instance
@@ -45,14 +50,15 @@ export abstract class KvStorage<
    * Stores a row in the repository.
    * @param key - The primary key
    * @param value - The value to store
+   * @param options - Optional time to live of the entry
    */
-  abstract put(key: Key, value: Value): Promise<void>;
+  abstract put(key: Key, value: Value, options?: KvPutOptions): Promise<void>;
 
   /**
    * Stores multiple rows in the repository in a bulk operation.
-   * @param items - Array of key-value pairs to store
+   * @param items - Array of key-value pairs to store, each with an optional time to live
    */
-  abstract putBulk(items: Array<{ key: Key; value: Value }>): Promise<void>;
+  abstract putBulk(items: Array<KvBulkItem<Key, Value>>): Promise<void>;
 
   /**
    * Retrieves a value by its key.
@@ -86,6 +92,58 @@ export abstract class KvStorage<
    */
   abstract size(): Promise<number>;
 
+  /**
+   * Removes every expired entry, emitting `expired` for each
+   * @returns The number of entries removed
+   */
+  abstract sweepExpired(): Promise<number>;
+
+  /**
+   * Sweeps expired entries every `intervalMs` until stopped. Reads already
+   * skip expired entries; the sweeper reclaims the ones nobody reads.
+   * Restarting replaces the previous interval.
+   *
+   * @returns Function that stops the sweeper
+   */
+  public startExpirySweeper(intervalMs: number = 60_000): () => void {
+    this.stopExpirySweeper();
+    this.sweeperIntervalId = setInterval(() => {
+      this.sweepExpired().catch((error) => {
+        getLogger().warn("Failed to sweep expired KV entries:", { error });
+      });
+    }, intervalMs);
+    return () => this.stopExpirySweeper();
+  }
+
+  public stopExpirySweeper(): void {
+    if (this.sweeperIntervalId) {
+      clearInterval(this.sweeperIntervalId);
+      this.sweeperIntervalId = null;
+    }
+  }
+
+  /**
+   * Converts a time to live into the epoch milliseconds at which the entry
+   * expires, or null for no expiry
+   *
+   * @throws StorageValidationError if `ttlMs` is not a positive finite number
+   */
+  protected expiresAt(ttlMs: number | undefined): number | null {
+    if (ttlMs === undefined) return null;
+    if (!Number.isFinite(ttlMs) || ttlMs <= 0) {
+      throw new StorageValidationError(`ttlMs must be a positive number, got ${ttlMs}`);
+    }
+    return Math.ceil(Date.now() + ttlMs);
+  }
+
+  /**
+   * Runs `fn`, applying each write as it happens; nothing is rolled back.
+   * Storages backed by a transactional store override this.
+   */
+  public async withTransaction<T>(fn: () => Promise<T>): Promise<T> {
+    return await fn();
+  }
+
   /**
    * Generates a consistent string identifier for a given key.
    *
@@ -5,7 +5,7 @@
  */
 
 import type { BaseTabularStorage } from "../tabular/BaseTabularStorage";
-import { DefaultKeyValueKey, DefaultKeyValueSchema } from "./IKvStorage";
+import { DefaultKeyValueKey, DefaultKeyValueSchema, KvBulkItem, KvPutOptions } from "./IKvStorage";
 import { KvStorage } from "./KvStorage";
 
 /**
@@ -19,6 +19,10 @@ import { KvStorage } from "./KvStorage";
 /** Schema types that are stored as-is without JSON serialization */
 const PRIMITIVE_SCHEMA_TYPES = new Set(["number", "boolean", "string", "blob"]);
 
+function isExpired(expiresAt: number | null | undefined, now: number): boolean {
+  return expiresAt !== null && expiresAt !== undefined && expiresAt <= now;
+}
+
 export abstract class KvViaTabularStorage<
   Key extends string = string,
   Value extends any = any,
@@ -56,22 +60,25 @@ export abstract class KvViaTabularStorage<
    * Stores a row in the repository.
    * @param key - The primary key
    * @param value - The value to store
+   * @param options - Optional time to live; without one, any earlier expiry is cleared
    */
-  public async put(key: Key, value: Value): Promise<void> {
+  public async put(key: Key, value: Value, options?: KvPutOptions): Promise<void> {
     if (this.needsJsonSerialization) {
       value = JSON.stringify(value) as Value;
     }
-    await this.tabularRepository.put({ key, value });
+    await this.tabularRepository.put({ key, value, expires_at: this.expiresAt(options?.ttlMs) });
   }
 
   /**
    * Stores multiple rows in the repository in a bulk operation.
-   * @param items - Array of key-value pairs to store
+   * @param items - Array of key-value pairs to store, each with an optional time to live
    */
-  public async putBulk(items: Array<{ key: Key; value: Value }>): Promise<void> {
-    const entities = this.needsJsonSerialization
-      ? items.map(({ key, value }) => ({ key, value: JSON.stringify(value) as Value }))
-      : items;
+  public async putBulk(items: Array<KvBulkItem<Key, Value>>): Promise<void> {
+    const entities = items.map(({ key, value, ttlMs }) => ({
+      key,
+      value: this.needsJsonSerialization ? (JSON.stringify(value) as Value) : value,
+      expires_at: this.expiresAt(ttlMs),
+    }));
 
     await this.tabularRepository.putBulk(entities);
   }
@@ -86,6 +93,11 @@ export abstract class KvViaTabularStorage<
   public async get(key: Key): Promise<Value | undefined> {
     const result = await this.tabularRepository.get({ key });
     if (!result) return undefined;
+    const now = Date.now();
+    if (isExpired(result.expires_at, now)) {
+      await this.removeExpired([key], now);
+      return undefined;
+    }
 
     if (this.needsJsonSerialization) {
       try {
@@ -110,8 +122,17 @@ export abstract class KvViaTabularStorage<
    * @returns An array of all rows in the repository or undefined if empty
    */
   public async getAll(): Promise<Combined[] | undefined> {
-    const values = await this.tabularRepository.getAll();
-    if (values) {
+    const now = Date.now();
+    const all = await this.tabularRepository.getAll();
+    const values = all?.filter((value) => !isExpired(value.expires_at, now));
+    if (all && values && values.length < all.length) {
+      const expired = all.filter((value) => isExpired(value.expires_at, now));
+      await this.removeExpired(
+        expired.map((value) => value.key as Key),
+        now
+      );
+    }
+    if (values && values.length > 0) {
       return values.map(
         (value) =>
           ({
@@ -140,16 +161,64 @@ export abstract class KvViaTabularStorage<
 
   /**
    * Retrieves the number of rows in the repository.
-   * @returns The number of rows in the repository
+   * @returns The number of unexpired rows in the repository
    */
   public async size(): Promise<number> {
-    return await this.tabularRepository.size();
+    return await this.tabularRepository.count({
+      $or: [
+        { expires_at: { operator: "IS NULL" } },
+        { expires_at: { operator: ">", value: Date.now() } },
+      ],
+    });
+  }
+
+  /**
+   * Removes every expired row, emitting `expired` for each
+   * @returns The number of rows removed
+   */
+  public async sweepExpired(): Promise<number> {
+    const now = Date.now();
+    const expired = await this.tabularRepository.query({
+      expires_at: { operator: "<=", value: now },
+    });
+    if (!expired) return 0;
+    return await this.removeExpired(
+      expired.map((value) => value.key as Key),
+      now
+    );
+  }
+
+  /**
+   * Deletes rows that were expired as of `now` and emits `expired` for their
+   * keys. Rows rewritten since with a later expiry are left alone. Rows are
+   * deleted by key since not every tabular backend supports deleteSearch.
+   */
+  private async removeExpired(keys: Key[], now: number): Promise<number> {
+    if (keys.length === 0) return 0;
+    const expired =
+      (await this.tabularRepository.query({
+        key: keys.length === 1 ? keys[0] : { operator: "IN", value: keys },
+        expires_at: { operator: "<=", value: now },
+      })) ?? [];
+    for (const { key } of expired) {
+      await this.tabularRepository.delete({ key });
+      this.events.emit("expired", key as Key);
+    }
+    return expired.length;
+  }
+
+  /**
+   * Runs `fn` in a transaction of the underlying tabular repository
+   */
+  public override async withTransaction<T>(fn: () => Promise<T>): Promise<T> {
+    return await this.tabularRepository.withTransaction(fn);
   }
 
   /**
    * Destroys the repository and frees up resources.
    */
   destroy(): void {
+    this.stopExpirySweeper();
     this.tabularRepository.destroy();
   }
 }
@@ -6,7 +6,14 @@
 
 import type { JSONValue } from "../tabular/ITabularStorage";
 import { traced } from "../util/traced";
-import type { IKvStorage, KvEventListener, KvEventName, KvEventParameters } from "./IKvStorage";
+import type {
+  IKvStorage,
+  KvBulkItem,
+  KvEventListener,
+  KvEventName,
+  KvEventParameters,
+  KvPutOptions,
+} from "./IKvStorage";
 
 /**
  * Telemetry wrapper for any IKvStorage implementation.
@@ -22,10 +29,12 @@ export class TelemetryKvStorage<
     private readonly inner: IKvStorage<Key, Value, Combined>
   ) {}
 
-  put(key: Key, value: Value): Promise<void> {
-    return traced("workglow.storage.kv.put", this.storageName, () => this.inner.put(key, value));
+  put(key: Key, value: Value, options?: KvPutOptions): Promise<void> {
+    return traced("workglow.storage.kv.put", this.storageName, () =>
+      this.inner.put(key, value, options)
+    );
   }
-  putBulk(items: Array<{ key: Key; value: Value }>): Promise<void> {
+  putBulk(items: Array<KvBulkItem<Key, Value>>): Promise<void> {
     return traced("workglow.storage.kv.putBulk", this.storageName, () => this.inner.putBulk(items));
   }
   get(key: Key): Promise<Value | undefined> {
@@ -43,6 +52,16 @@ export class TelemetryKvStorage<
   size(): Promise<number> {
     return traced("workglow.storage.kv.size", this.storageName, () => this.inner.size());
   }
+  sweepExpired(): Promise<number> {
+    return traced("workglow.storage.kv.sweepExpired", this.storageName, () =>
+      this.inner.sweepExpired()
+    );
+  }
+  withTransaction<T>(fn: () => Promise<T>): Promise<T> {
+    return traced("workglow.storage.kv.transaction", this.storageName, () =>
+      this.inner.withTransaction(fn)
+    );
+  }
   getObjectAsIdString(object: JSONValue): Promise<string> {
     return this.inner.getObjectAsIdString(object);
   }
@@ -4,7 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { createServiceToken } from "@workglow/util";
+import { createServiceToken, uuid4 } from "@workglow/util";
 
 export const QUEUE_STORAGE = createServiceToken<IQueueStorage<any, any>>("jobqueue.storage");
 
@@ -31,6 +31,254 @@ export interface QueueStorageOptions {
   readonly prefixes?: readonly PrefixColumn[];
   /** The values for each prefix column */
   readonly prefixValues?: Readonly<Record<string, string | number>>;
+  /**
+   * Milliseconds a pending job has to wait to gain one priority level
+   * (default {@link DEFAULT_JOB_PRIORITY_AGING_MS}, 0 disables aging)
+   */
+  readonly priorityAgingMs?: number;
+}
+
+/**
+ * Priority given to jobs that are submitted without one. Higher values are claimed first.
+ */
+export const DEFAULT_JOB_PRIORITY = 0;
+
+/**
+ * Default aging interval for job priorities. A pending job gains one priority level
+ * for every interval it has been eligible to run, so low-priority jobs are not
+ * starved by a steady stream of higher-priority ones.
+ */
+export const DEFAULT_JOB_PRIORITY_AGING_MS = 60_000;
+
+/**
+ * Resolves the priority aging interval from the storage options
+ * @param options - The queue storage options
+ * @returns A non-negative integer number of milliseconds (0 = no aging)
+ */
+export function getPriorityAgingMs(options?: QueueStorageOptions): number {
+  const agingMs = Number(options?.priorityAgingMs ?? DEFAULT_JOB_PRIORITY_AGING_MS);
+  if (!Number.isFinite(agingMs) || agingMs <= 0) {
+    return 0;
+  }
+  return Math.floor(agingMs);
+}
+
+/**
+ * Computes the priority a pending job is claimed with: its own priority plus
+ * one level per aging interval it has been waiting since `run_after`.
+ * @param job - The pending job
+ * @param now - The current time in milliseconds since the epoch
+ * @param agingMs - The aging interval (0 = no aging)
+ */
+export function effectiveJobPriority(
+  job: Pick<JobStorageFormat<unknown, unknown>, "priority" | "run_after">,
+  now: number,
+  agingMs: number
+): number {
+  const priority = job.priority ?? DEFAULT_JOB_PRIORITY;
+  if (agingMs <= 0 || !job.run_after) {
+    return priority;
+  }
+  const waitedMs = now - new Date(job.run_after).getTime();
+  return waitedMs > 0 ? priority + Math.floor(waitedMs / agingMs) : priority;
+}
+
+/**
+ * Default duration of the lease a worker gets when it claims a job. Workers renew the
+ * lease with a heartbeat; a PROCESSING job whose lease has expired is considered
+ * abandoned (e.g. its worker was killed) and is put back in the queue by the next call
+ * to `reclaimExpiredLeases()`.
+ */
+export const DEFAULT_JOB_LEASE_MS = 30_000;
+
+/**
+ * Error recorded for an attempt whose lease expired before the job completed
+ */
+export const JOB_LEASE_EXPIRED_ERROR = "Job lease expired";
+export const JOB_LEASE_EXPIRED_ERROR_CODE = "JobLeaseExpiredError";
+
+/**
+ * Reclaims a PROCESSING job whose lease has expired. The abandoned run counts as a
+ * failed attempt: it is added to `error_history` and `run_attempts` is incremented.
+ * The job goes back to PENDING, or to FAILED once its retries are exhausted.
+ * Used by storages that update jobs in application code; SQL storages do the same in a query.
+ * @param job - The job to reclaim (mutated in place)
+ * @param now - The current time as an ISO string
+ */
+export function reclaimExpiredJobLease<T extends JobStorageFormat<unknown, unknown>>(
+  job: T,
+  now: string
+): T {
+  const attempts = job.run_attempts ?? 0;
+  job.error_history = [
+    ...(job.error_history ?? []),
+    {
+      attempt: attempts + 1,
+      error: JOB_LEASE_EXPIRED_ERROR,
+      error_code: JOB_LEASE_EXPIRED_ERROR_CODE,
+      worker_id: job.worker_id ?? null,
+      failed_at: now,
+    },
+  ];
+  job.run_attempts = attempts + 1;
+  job.worker_id = null;
+  job.lease_expires_at = null;
+  job.progress_message = "";
+  job.progress_details = null;
+  if (attempts >= (job.max_retries ?? 10)) {
+    job.status = JobStatus.FAILED;
+    job.error = "Max retries reached";
+    job.error_code = "MAX_RETRIES_REACHED";
+    job.progress = 100;
+    job.completed_at = now;
+  } else {
+    job.status = JobStatus.PENDING;
+    job.error = JOB_LEASE_EXPIRED_ERROR;
+    job.error_code = JOB_LEASE_EXPIRED_ERROR_CODE;
+    job.progress = 0;
+  }
+  return job;
+}
+
+/**
+ * Whether a job is PROCESSING under a lease that expired before `now`
+ */
+export function isJobLeaseExpired(
+  job: Pick<JobStorageFormat<unknown, unknown>, "status" | "lease_expires_at">,
+  now: string
+): boolean {
+  return (
+    job.status === JobStatus.PROCESSING && !!job.lease_expires_at && job.lease_expires_at < now
+  );
+}
+
+/**
+ * What happens to a job when a job it depends on fails or is disabled:
+ * - `"cancel"`: the job fails as well, without running (default)
+ * - `"run"`: the job runs anyway once all of its prerequisites have finished
+ */
+export type JobDependencyFailurePolicy = "cancel" | "run";
+
+export const DEFAULT_JOB_DEPENDENCY_FAILURE_POLICY: JobDependencyFailurePolicy = "cancel";
+
+/**
+ * Error recorded for a job that was cancelled because a job it depends on did not complete
+ */
+export const JOB_DEPENDENCY_FAILED_ERROR = "Job dependency failed";
+export const JOB_DEPENDENCY_FAILED_ERROR_CODE = "JobDependencyFailedError";
+
+type JobDependencyFields = Pick<
+  JobStorageFormat<unknown, unknown>,
+  "depends_on" | "on_dependency_failure"
+>;
+
+/**
+ * The status a prerequisite counts as. One that no longer exists in the queue, such as
+ * a job moved to dead-letter storage or deleted, counts as FAILED.
+ */
+function dependencyStatus(id: unknown, statusOf: (id: unknown) => JobStatus | undefined) {
+  return statusOf(id) ?? JobStatus.FAILED;
+}
+
+/**
+ * Whether the prerequisites of a pending job allow it to be claimed: all of them
+ * COMPLETED, or with the `"run"` policy, finished in any way. Prerequisites that no
+ * longer exist (e.g. dead-lettered or deleted) count as failed.
+ * Used by storages that select jobs in application code; SQL storages do the same in a query.
+ * @param job - The pending job
+ * @param statusOf - Looks up the status of a job in the same queue by ID
+ */
+export function areJobDependenciesMet(
+  job: JobDependencyFields,
+  statusOf: (id: unknown) => JobStatus | undefined
+): boolean {
+  if (!job.depends_on?.length) {
+    return true;
+  }
+  const runOnFailure = job.on_dependency_failure === "run";
+  return job.depends_on.every((id) => {
+    const status = dependencyStatus(id, statusOf);
+    return (
+      status === JobStatus.COMPLETED ||
+      (runOnFailure && (status === JobStatus.FAILED || status === JobStatus.DISABLED))
+    );
+  });
+}
+
+/**
+ * Whether a pending job has to be cancelled because a job it depends on failed, was
+ * disabled or no longer exists (never true for the `"run"` policy)
+ * @param job - The pending job
+ * @param statusOf - Looks up the status of a job in the same queue by ID
+ */
+export function isJobDependencyFailed(
+  job: JobDependencyFields,
+  statusOf: (id: unknown) => JobStatus | undefined
+): boolean {
+  if (!job.depends_on?.length || job.on_dependency_failure === "run") {
+    return false;
+  }
+  return job.depends_on.some((id) => {
+    const status = dependencyStatus(id, statusOf);
+    return status === JobStatus.FAILED || status === JobStatus.DISABLED;
+  });
+}
+
+/**
+ * Fails a pending job, without running it, because a job it depends on did not complete.
+ * Used by storages that update jobs in application code; SQL storages do the same in a query.
+ * @param job - The job to cancel (mutated in place)
+ * @param now - The current time as an ISO string
+ */
+export function cancelJobForFailedDependency<T extends JobStorageFormat<unknown, unknown>>(
+  job: T,
+  now: string
+): T {
+  job.status = JobStatus.FAILED;
+  job.error = JOB_DEPENDENCY_FAILED_ERROR;
+  job.error_code = JOB_DEPENDENCY_FAILED_ERROR_CODE;
+  job.progress = 100;
+  job.progress_message = "";
+  job.progress_details = null;
+  job.completed_at = now;
+  return job;
+}
+
+/**
+ * The record that {@link IQueueStorage.addFinished} stores for a finished job: a copy
+ * of the job as it is, with the fields it lacks filled in and no id or lease.
+ * Storages set `queue` and `fingerprint` themselves.
+ * @param job - The finished job
+ * @param now - The current time as an ISO string
+ */
+export function finishedJobRecord<Input, Output>(
+  job: JobStorageFormat<Input, Output>,
+  now: string
+): JobStorageFormat<Input, Output> {
+  return {
+    input: job.input,
+    output: job.output ?? null,
+    job_run_id: job.job_run_id ?? uuid4(),
+    status: job.status ?? JobStatus.FAILED,
+    error: job.error ?? null,
+    error_code: job.error_code ?? null,
+    error_history: job.error_history ?? null,
+    max_retries: job.max_retries ?? 10,
+    priority: job.priority ?? DEFAULT_JOB_PRIORITY,
+    created_at: job.created_at ?? now,
+    deadline_at: job.deadline_at ?? null,
+    last_ran_at: job.last_ran_at ?? null,
+    run_after: job.run_after ?? now,
+    completed_at: job.completed_at ?? now,
+    run_attempts: job.run_attempts ?? 0,
+    progress: job.progress ?? 100,
+    progress_message: job.progress_message ?? "",
+    progress_details: job.progress_details ?? null,
+    worker_id: job.worker_id ?? null,
+    lease_expires_at: null,
+    depends_on: job.depends_on?.length ? [...job.depends_on] : null,
+    on_dependency_failure: job.on_dependency_failure ?? DEFAULT_JOB_DEPENDENCY_FAILURE_POLICY,
+  };
 }
 
 export type JobStatus = "PENDING" | "PROCESSING" | "COMPLETED" | "ABORTING" | "FAILED" | "DISABLED";
@@ -86,6 +334,20 @@ export interface QueueSubscribeOptions {
   readonly prefixFilter?: Readonly<Record<string, string | number>>;
 }
 
+/**
+ * A single failed run of a job. Jobs keep one entry per failed attempt in
+ * `error_history` so the errors of earlier retries are not overwritten.
+ */
+export type JobAttemptError = {
+  /** 1-based number of the run that failed */
+  attempt: number;
+  error: string;
+  error_code: string | null;
+  /** Worker that ran the attempt */
+  worker_id: string | null;
+  failed_at: string;
+};
+
 /**
  * Details about a job that reflect the structure in the database.
  */
@@ -97,8 +359,12 @@ export type JobStorageFormat<Input, Output> = {
   output?: Output | null;
   error?: string | null;
   error_code?: string | null;
+  /** Errors of every failed attempt, oldest first */
+  error_history?: JobAttemptError[] | null;
   fingerprint?: string;
   max_retries?: number;
+  /** Higher values are claimed first (default {@link DEFAULT_JOB_PRIORITY}) */
+  priority?: number;
   status?: JobStatus;
   created_at?: string;
   deadline_at?: string | null;
@@ -110,6 +376,12 @@ export type JobStorageFormat<Input, Output> = {
   progress_message?: string;
   progress_details?: Record<string, any> | null;
   worker_id?: string | null;
+  /** When the claiming worker's lease ends unless renewed (null when not claimed) */
+  lease_expires_at?: string | null;
+  /** IDs of jobs in the same queue that have to complete before this job is claimed */
+  depends_on?: unknown[] | null;
+  /** What happens when a prerequisite fails (default {@link DEFAULT_JOB_DEPENDENCY_FAILURE_POLICY}) */
+  on_dependency_failure?: JobDependencyFailurePolicy;
 };
 
 /**
@@ -117,12 +389,22 @@ export type JobStorageFormat<Input, Output> = {
  */
 export interface IQueueStorage<Input, Output> {
   /**
-   * Adds a job to the queue storage
+   * Adds a job to the queue storage. The job is not claimed before its
+   * `run_after` (defaults to now).
    * @param job - The job to add to the queue storage
    * @returns The ID of the job
    */
   add(job: JobStorageFormat<Input, Output>): Promise<unknown>;
 
+  /**
+   * Adds a job that has already finished, as it is: unlike {@link add}, its status,
+   * attempts, timestamps, errors, progress and dependencies are kept (see
+   * {@link finishedJobRecord}). Used to move failed jobs to a dead-letter storage.
+   * @param job - The finished job; its `id` is not reused
+   * @returns The ID of the new record
+   */
+  addFinished(job: JobStorageFormat<Input, Output>): Promise<unknown>;
+
   /**
    * Gets a job from the queue storage by ID
    * @param id - The ID of the job to get
@@ -131,11 +413,44 @@ export interface IQueueStorage<Input, Output> {
   get(id: unknown): Promise<JobStorageFormat<Input, Output> | undefined>;
 
   /**
-   * Gets the next job from the queue storage
+   * Gets the next job from the queue storage. Among the jobs that are ready to run,
+   * the one with the highest effective priority (see {@link effectiveJobPriority})
+   * is claimed first; ties are broken by `run_after`. Jobs with `depends_on` are
+   * only claimed once their prerequisites are met (see {@link areJobDependenciesMet}).
+   * Jobs whose lease expired are not claimed again until {@link reclaimExpiredLeases}
+   * puts them back in the queue, so callers of `next` have to call it as well.
    * @param workerId - Worker ID to associate with the job (required)
+   * @param leaseMs - Duration of the claim's lease (default {@link DEFAULT_JOB_LEASE_MS})
    * @returns The next job from the queue storage
    */
-  next(workerId: string): Promise<JobStorageFormat<Input, Output> | undefined>;
+  next(workerId: string, leaseMs?: number): Promise<JobStorageFormat<Input, Output> | undefined>;
+
+  /**
+   * Extends the lease of a job that is still claimed by the given worker
+   * @param id - The ID of the job
+   * @param workerId - The worker that holds the lease
+   * @param leaseMs - New lease duration from now (default {@link DEFAULT_JOB_LEASE_MS})
+   * @returns false if the worker no longer holds the job (e.g. it was reclaimed)
+   */
+  renewLease(id: unknown, workerId: string, leaseMs?: number): Promise<boolean>;
+
+  /**
+   * Reclaims the PROCESSING jobs whose lease has expired (see {@link reclaimExpiredJobLease})
+   * so that jobs of dead workers are retried. `next` does not do this itself: workers call
+   * this before claiming the next job.
+   * @returns The jobs that failed because their retries are exhausted, so the caller
+   * can report them and cancel their dependents like any other failed job
+   */
+  reclaimExpiredLeases(): Promise<Array<JobStorageFormat<Input, Output>>>;
+
+  /**
+   * Fails the PENDING jobs that can no longer run because a job they depend on failed or
+   * was disabled (see {@link JobDependencyFailurePolicy}), and in turn the jobs that depend
+   * on those. Workers call this while polling and right after a job fails, before the
+   * failed job can be dead-lettered or deleted.
+   * @returns The cancelled jobs
+   */
+  cancelFailedDependents(): Promise<Array<JobStorageFormat<Input, Output>>>;
 
   /**
    * Peeks at the next job(s) from the queue storage without removing them
@@ -155,8 +470,12 @@ export interface IQueueStorage<Input, Output> {
   /**
    * Completes a job in the queue storage
    * @param job - The job to complete
+   * @param workerId - The worker finishing the job. When given, the job is only written
+   * while that worker still holds it, so a worker whose lease was reclaimed cannot
+   * overwrite the run of the worker that took the job over
+   * @returns false if nothing was written, e.g. because `workerId` no longer holds the job
    */
-  complete(job: JobStorageFormat<Input, Output>): Promise<void>;
+  complete(job: JobStorageFormat<Input, Output>, workerId?: string): Promise<boolean>;
 
   /**
    * Deletes all jobs from the queue storage
@@ -189,13 +508,17 @@ export interface IQueueStorage<Input, Output> {
    * @param progress - The progress of the job
    * @param message - The message of the job
    * @param details - The details of the job
+   * @param workerId - The worker running the job; when given, the progress is only saved
+   * while that worker still holds the job
+   * @returns false if nothing was saved, e.g. because `workerId` no longer holds the job
    */
   saveProgress(
     id: unknown,
     progress: number,
     message: string,
-    details: Record<string, any> | null
-  ): Promise<void>;
+    details: Record<string, any> | null,
+    workerId?: string
+  ): Promise<boolean>;
 
   /**
    * Deletes a job by its ID from the queue storage
@@ -217,6 +540,17 @@ export interface IQueueStorage<Input, Output> {
    */
   setupDatabase(): Promise<void>;
 
+  /**
+   * Runs `fn` so that its writes commit or roll back together. SQLite and
+   * PostgreSQL queues use a transaction on their connection, shared with any
+   * tabular or KV storage on the same connection, so a job can be enqueued
+   * atomically with other writes. The in-memory queue restores its jobs if
+   * `fn` rejects; other backends roll nothing back.
+   *
+   * @returns The result of `fn`
+   */
+  withTransaction<T>(fn: () => Promise<T>): Promise<T>;
+
   /**
    * Subscribes to changes in the queue (including remote changes).
    * @param callback - Function called when a change occurs
@@ -12,13 +12,25 @@ import {
   sleep,
   uuid4,
 } from "@workglow/util";
+import { runSerialized } from "../util/TransactionScope";
 import {
+  areJobDependenciesMet,
+  cancelJobForFailedDependency,
+  DEFAULT_JOB_DEPENDENCY_FAILURE_POLICY,
+  DEFAULT_JOB_LEASE_MS,
+  DEFAULT_JOB_PRIORITY,
+  effectiveJobPriority,
+  finishedJobRecord,
+  getPriorityAgingMs,
   IQueueStorage,
+  isJobDependencyFailed,
+  isJobLeaseExpired,
   JobStatus,
   JobStorageFormat,
   QueueChangePayload,
   QueueStorageOptions,
   QueueSubscribeOptions,
+  reclaimExpiredJobLease,
 } from "./IQueueStorage";
 
 /**
@@ -39,6 +51,8 @@ export const IN_MEMORY_QUEUE_STORAGE = createServiceToken<IQueueStorage<any, any
 export class InMemoryQueueStorage<Input, Output> implements IQueueStorage<Input, Output> {
   /** The prefix values for filtering jobs */
   protected readonly prefixValues: Readonly<Record<string, string | number>>;
+  /** Milliseconds a pending job waits to gain one priority level (0 = no aging) */
+  protected readonly priorityAgingMs: number;
   /** Event emitter for change notifications */
   protected readonly events = new EventEmitter<QueueEventListeners<Input, Output>>();
 
@@ -53,6 +67,7 @@ export class InMemoryQueueStorage<Input, Output> implements IQueueStorage<Input,
   ) {
     this.jobQueue = [];
     this.prefixValues = options?.prefixValues ?? {};
+    this.priorityAgingMs = getPriorityAgingMs(options);
   }
 
   /** Internal array storing all jobs */
@@ -70,17 +85,38 @@ export class InMemoryQueueStorage<Input, Output> implements IQueueStorage<Input,
     return true;
   }
 
+  /**
+   * Returns a lookup of the status of every job matching the current prefix values
+   */
+  private statusLookup(): (id: unknown) => JobStatus | undefined {
+    const statuses = new Map<unknown, JobStatus | undefined>();
+    for (const job of this.jobQueue) {
+      if (this.matchesPrefixes(job)) {
+        statuses.set(job.id, job.status);
+      }
+    }
+    return (id) => statuses.get(id);
+  }
+
   /**
    * Returns a filtered and sorted list of pending jobs that are ready to run
-   * Sorts by creation time to maintain FIFO order
+   * Sorts by effective (aged) priority, then by run time to maintain FIFO order
    */
   private pendingQueue(): Array<JobStorageFormat<Input, Output> & Record<string, unknown>> {
-    const now = new Date().toISOString();
+    const nowMs = Date.now();
+    const now = new Date(nowMs).toISOString();
+    const statusOf = this.statusLookup();
     return this.jobQueue
       .filter((job) => this.matchesPrefixes(job))
       .filter((job) => job.status === JobStatus.PENDING)
       .filter((job) => !job.run_after || job.run_after <= now)
-      .sort((a, b) => (a.run_after || "").localeCompare(b.run_after || ""));
+      .filter((job) => areJobDependenciesMet(job, statusOf))
+      .sort(
+        (a, b) =>
+          effectiveJobPriority(b, nowMs, this.priorityAgingMs) -
+            effectiveJobPriority(a, nowMs, this.priorityAgingMs) ||
+          (a.run_after || "").localeCompare(b.run_after || "")
+      );
   }
 
   /**
@@ -88,28 +124,62 @@ export class InMemoryQueueStorage<Input, Output> implements IQueueStorage<Input,
    * Generates an ID and fingerprint if not provided
    */
   public async add(job: JobStorageFormat<Input, Output>): Promise<unknown> {
-    await sleep(0);
-    const now = new Date().toISOString();
-    const jobWithPrefixes = job as JobStorageFormat<Input, Output> & Record<string, unknown>;
-    jobWithPrefixes.id = jobWithPrefixes.id ?? uuid4();
-    jobWithPrefixes.job_run_id = jobWithPrefixes.job_run_id ?? uuid4();
-    jobWithPrefixes.queue = this.queueName;
-    jobWithPrefixes.fingerprint = await makeFingerprint(jobWithPrefixes.input);
-    jobWithPrefixes.status = JobStatus.PENDING;
-    jobWithPrefixes.progress = 0;
-    jobWithPrefixes.progress_message = "";
-    jobWithPrefixes.progress_details = null;
-    jobWithPrefixes.created_at = now;
-    jobWithPrefixes.run_after = now;
-
-    // Add prefix values to the job
-    for (const [key, value] of Object.entries(this.prefixValues)) {
-      jobWithPrefixes[key] = value;
-    }
+    return await runSerialized(this, this, async () => {
+      await sleep(0);
+      const now = new Date().toISOString();
+      const jobWithPrefixes = job as JobStorageFormat<Input, Output> & Record<string, unknown>;
+      jobWithPrefixes.id = jobWithPrefixes.id ?? uuid4();
+      jobWithPrefixes.job_run_id = jobWithPrefixes.job_run_id ?? uuid4();
+      jobWithPrefixes.queue = this.queueName;
+      jobWithPrefixes.fingerprint = await makeFingerprint(jobWithPrefixes.input);
+      jobWithPrefixes.priority = jobWithPrefixes.priority ?? DEFAULT_JOB_PRIORITY;
+      jobWithPrefixes.status = JobStatus.PENDING;
+      jobWithPrefixes.progress = 0;
+      jobWithPrefixes.progress_message = "";
+      jobWithPrefixes.progress_details = null;
+      jobWithPrefixes.created_at = now;
+      jobWithPrefixes.run_after = jobWithPrefixes.run_after ?? now;
+      jobWithPrefixes.depends_on = jobWithPrefixes.depends_on?.length
+        ? [...jobWithPrefixes.depends_on]
+        : null;
+      jobWithPrefixes.on_dependency_failure =
+        jobWithPrefixes.on_dependency_failure ?? DEFAULT_JOB_DEPENDENCY_FAILURE_POLICY;
+
+      // Add prefix values to the job
+      for (const [key, value] of Object.entries(this.prefixValues)) {
+        jobWithPrefixes[key] = value;
+      }
+
+      this.jobQueue.push(jobWithPrefixes);
+      this.events.emit("change", { type: "INSERT", new: jobWithPrefixes });
+      return jobWithPrefixes.id;
+    });
+  }
+
+  /**
+   * Adds a job that has already finished, keeping its status, attempts and timestamps
+   * @param job - The finished job
+   * @returns The id of the new record
+   */
+  public async addFinished(job: JobStorageFormat<Input, Output>): Promise<unknown> {
+    return await runSerialized(this, this, async () => {
+      await sleep(0);
+      const record = finishedJobRecord(job, new Date().toISOString()) as JobStorageFormat<
+        Input,
+        Output
+      > &
+        Record<string, unknown>;
+      record.id = uuid4();
+      record.queue = this.queueName;
+      record.fingerprint = await makeFingerprint(record.input);
+      for (const [key, value] of Object.entries(this.prefixValues)) {
+        record[key] = value;
+      }
 
-    this.jobQueue.push(jobWithPrefixes);
-    this.events.emit("change", { type: "INSERT", new: jobWithPrefixes });
-    return jobWithPrefixes.id;
+      this.jobQueue.push(record);
+      this.events.emit("change", { type: "INSERT", new: record });
+      return record.id;
+    });
   }
 
   /**
@@ -149,21 +219,109 @@ export class InMemoryQueueStorage<Input, Output> implements IQueueStorage<Input,
    * Retrieves the next available job that is ready to be processed
    * Updates the job status to PROCESSING before returning
    * @param workerId - Worker ID to associate with the job
+   * @param leaseMs - Duration of the claim's lease
    * @returns The next job or undefined if no job is available
    */
-  public async next(workerId: string): Promise<JobStorageFormat<Input, Output> | undefined> {
-    await sleep(0);
-    const top = this.pendingQueue();
+  public async next(
+    workerId: string,
+    leaseMs: number = DEFAULT_JOB_LEASE_MS
+  ): Promise<JobStorageFormat<Input, Output> | undefined> {
+    return await runSerialized(this, this, async () => {
+      await sleep(0);
+      const top = this.pendingQueue();
+
+      const job = top[0];
+      if (job) {
+        const oldJob = { ...job };
+        const nowMs = Date.now();
+        job.status = JobStatus.PROCESSING;
+        job.last_ran_at = new Date(nowMs).toISOString();
+        job.worker_id = workerId;
+        job.lease_expires_at = new Date(nowMs + leaseMs).toISOString();
+        this.events.emit("change", { type: "UPDATE", old: oldJob, new: job });
+        return job;
+      }
+    });
+  }
 
-    const job = top[0];
-    if (job) {
-      const oldJob = { ...job };
-      job.status = JobStatus.PROCESSING;
-      job.last_ran_at = new Date().toISOString();
-      job.worker_id = workerId;
-      this.events.emit("change", { type: "UPDATE", old: oldJob, new: job });
-      return job;
-    }
+  /**
+   * Extends the lease of a job that is still claimed by the given worker
+   * @param id - The id of the job
+   * @param workerId - The worker that holds the lease
+   * @param leaseMs - New lease duration from now
+   * @returns false if the worker no longer holds the job
+   */
+  public async renewLease(
+    id: unknown,
+    workerId: string,
+    leaseMs: number = DEFAULT_JOB_LEASE_MS
+  ): Promise<boolean> {
+    return await runSerialized(this, this, async () => {
+      await sleep(0);
+      const job = this.jobQueue.find((j) => j.id === id && this.matchesPrefixes(j));
+      if (
+        !job ||
+        job.worker_id !== workerId ||
+        (job.status !== JobStatus.PROCESSING && job.status !== JobStatus.ABORTING)
+      ) {
+        return false;
+      }
+      job.lease_expires_at = new Date(Date.now() + leaseMs).toISOString();
+      return true;
+    });
+  }
+
+  /**
+   * Puts PROCESSING jobs whose lease has expired back in the queue (or fails them
+   * once their retries are exhausted)
+   * @returns The jobs that failed
+   */
+  public async reclaimExpiredLeases(): Promise<Array<JobStorageFormat<Input, Output>>> {
+    return await runSerialized(this, this, async () => {
+      await sleep(0);
+      const now = new Date().toISOString();
+      const failed: Array<JobStorageFormat<Input, Output>> = [];
+      for (const job of this.jobQueue) {
+        if (this.matchesPrefixes(job) && isJobLeaseExpired(job, now)) {
+          const oldJob = { ...job };
+          reclaimExpiredJobLease(job, now);
+          this.events.emit("change", { type: "UPDATE", old: oldJob, new: job });
+          if (job.status === JobStatus.FAILED) failed.push({ ...job });
+        }
+      }
+      return failed;
+    });
+  }
+
+  /**
+   * Fails pending jobs whose prerequisites failed, repeating until no more dependents are affected
+   * @returns The cancelled jobs
+   */
+  public async cancelFailedDependents(): Promise<Array<JobStorageFormat<Input, Output>>> {
+    return await runSerialized(this, this, async () => {
+      await sleep(0);
+      const now = new Date().toISOString();
+      const cancelled: Array<JobStorageFormat<Input, Output>> = [];
+      let changed = true;
+      while (changed) {
+        changed = false;
+        const statusOf = this.statusLookup();
+        for (const job of this.jobQueue) {
+          if (
+            this.matchesPrefixes(job) &&
+            job.status === JobStatus.PENDING &&
+            isJobDependencyFailed(job, statusOf)
+          ) {
+            const oldJob = { ...job };
+            cancelJobForFailedDependency(job, now);
+            this.events.emit("change", { type: "UPDATE", old: oldJob, new: job });
+            cancelled.push(job);
+            changed = true;
+          }
+        }
+      }
+      return cancelled;
+    });
   }
 
   /**
@@ -182,46 +340,55 @@ export class InMemoryQueueStorage<Input, Output> implements IQueueStorage<Input,
    * @param progress - The progress of the job.
    * @param message - The message of the job.
    * @param details - The details of the job.
+   * @param workerId - If given, the worker that has to hold the job
+   * @returns false if the progress was not saved
    */
   public async saveProgress(
     id: unknown,
     progress: number,
     message: string,
-    details: Record<string, any> | null
-  ): Promise<void> {
-    await sleep(0);
-    const job = this.jobQueue.find((j) => j.id === id && this.matchesPrefixes(j));
-    if (!job) {
-      // Job not found - this can happen if the job was already completed/removed
-      // or if there's a race condition. Silently ignore progress updates for missing jobs.
-      const jobWithAnyPrefix = this.jobQueue.find((j) => j.id === id);
-      getLogger().warn("Job not found for progress update", {
-        id,
-        reason: jobWithAnyPrefix ? "prefix_mismatch" : "missing",
-        existingStatus: jobWithAnyPrefix?.status,
-        queueName: this.queueName,
-        prefixValues: this.prefixValues,
-      });
-      return;
-    }
+    details: Record<string, any> | null,
+    workerId?: string
+  ): Promise<boolean> {
+    return await runSerialized(this, this, async () => {
+      await sleep(0);
+      const job = this.jobQueue.find((j) => j.id === id && this.matchesPrefixes(j));
+      if (!job) {
+        // Job not found - this can happen if the job was already completed/removed
+        // or if there's a race condition. Silently ignore progress updates for missing jobs.
+        const jobWithAnyPrefix = this.jobQueue.find((j) => j.id === id);
+        getLogger().warn("Job not found for progress update", {
+          id,
+          reason: jobWithAnyPrefix ? "prefix_mismatch" : "missing",
+          existingStatus: jobWithAnyPrefix?.status,
+          queueName: this.queueName,
+          prefixValues: this.prefixValues,
+        });
+        return false;
+      }
+      if (workerId !== undefined && job.worker_id !== workerId) {
+        return false;
+      }
 
-    // Skip progress updates for jobs that are already completed or failed
-    // to avoid unnecessary updates and potential race conditions
-    if (job.status === JobStatus.COMPLETED || job.status === JobStatus.FAILED) {
-      getLogger().warn("Job already completed or failed for progress update", {
-        id,
-        status: job.status,
-        completedAt: job.completed_at,
-        error: job.error,
-      });
-      return;
-    }
+      // Skip progress updates for jobs that are already completed or failed
+      // to avoid unnecessary updates and potential race conditions
+      if (job.status === JobStatus.COMPLETED || job.status === JobStatus.FAILED) {
+        getLogger().warn("Job already completed or failed for progress update", {
+          id,
+          status: job.status,
+          completedAt: job.completed_at,
+          error: job.error,
+        });
+        return false;
+      }
 
-    const oldJob = { ...job };
-    job.progress = progress;
-    job.progress_message = message;
-    job.progress_details = details;
-    this.events.emit("change", { type: "UPDATE", old: oldJob, new: job });
+      const oldJob = { ...job };
+      job.progress = progress;
+      job.progress_message = message;
+      job.progress_details = details;
+      this.events.emit("change", { type: "UPDATE", old: oldJob, new: job });
+      return true;
+    });
   }
 
   /**
@@ -230,22 +397,32 @@ export class InMemoryQueueStorage<Input, Output> implements IQueueStorage<Input,
    * @param id - ID of the job to complete
    * @param output - Result of the job execution
    * @param error - Optional error message if job failed
+   * @param workerId - If given, the worker that has to hold the job
+   * @returns false if the job was not written
    */
-  public async complete(job: JobStorageFormat<Input, Output>) {
-    await sleep(0);
-    const jobWithPrefixes = job as JobStorageFormat<Input, Output> & Record<string, unknown>;
-    const index = this.jobQueue.findIndex((j) => j.id === job.id && this.matchesPrefixes(j));
-    if (index !== -1) {
+  public async complete(job: JobStorageFormat<Input, Output>, workerId?: string): Promise<boolean> {
+    return await runSerialized(this, this, async () => {
+      await sleep(0);
+      const jobWithPrefixes = job as JobStorageFormat<Input, Output> & Record<string, unknown>;
+      const index = this.jobQueue.findIndex((j) => j.id === job.id && this.matchesPrefixes(j));
+      if (index === -1) {
+        return false;
+      }
       const existing = this.jobQueue[index];
-      const currentAttempts = existing?.run_attempts ?? 0;
+      if (workerId !== undefined && existing.worker_id !== workerId) {
+        return false;
+      }
+      const currentAttempts = existing.run_attempts ?? 0;
       jobWithPrefixes.run_attempts = currentAttempts + 1;
+      jobWithPrefixes.lease_expires_at = null;
       // Preserve prefix values from the existing job
       for (const [key, value] of Object.entries(this.prefixValues)) {
         jobWithPrefixes[key] = value;
       }
       this.jobQueue[index] = jobWithPrefixes;
       this.events.emit("change", { type: "UPDATE", old: existing, new: jobWithPrefixes });
-    }
+      return true;
+    });
   }
 
   /**
@@ -253,13 +430,15 @@ export class InMemoryQueueStorage<Input, Output> implements IQueueStorage<Input,
    * @param id - The id of the job to abort.
    */
   public async abort(id: unknown): Promise<void> {
-    await sleep(0);
-    const job = this.jobQueue.find((j) => j.id === id && this.matchesPrefixes(j));
-    if (job) {
-      const oldJob = { ...job };
-      job.status = JobStatus.ABORTING;
-      this.events.emit("change", { type: "UPDATE", old: oldJob, new: job });
-    }
+    return await runSerialized(this, this, async () => {
+      await sleep(0);
+      const job = this.jobQueue.find((j) => j.id === id && this.matchesPrefixes(j));
+      if (job) {
+        const oldJob = { ...job };
+        job.status = JobStatus.ABORTING;
+        this.events.emit("change", { type: "UPDATE", old: oldJob, new: job });
+      }
+    });
   }
 
   /**
@@ -276,12 +455,14 @@ export class InMemoryQueueStorage<Input, Output> implements IQueueStorage<Input,
    * Deletes all jobs from the queue that match the current prefix values.
    */
   public async deleteAll(): Promise<void> {
-    await sleep(0);
-    const deletedJobs = this.jobQueue.filter((job) => this.matchesPrefixes(job));
-    this.jobQueue = this.jobQueue.filter((job) => !this.matchesPrefixes(job));
-    for (const job of deletedJobs) {
-      this.events.emit("change", { type: "DELETE", old: job });
-    }
+    return await runSerialized(this, this, async () => {
+      await sleep(0);
+      const deletedJobs = this.jobQueue.filter((job) => this.matchesPrefixes(job));
+      this.jobQueue = this.jobQueue.filter((job) => !this.matchesPrefixes(job));
+      for (const job of deletedJobs) {
+        this.events.emit("change", { type: "DELETE", old: job });
+      }
+    });
   }
 
   /**
@@ -307,12 +488,14 @@ export class InMemoryQueueStorage<Input, Output> implements IQueueStorage<Input,
    * Deletes a job by its ID
    */
   public async delete(id: unknown): Promise<void> {
-    await sleep(0);
-    const deletedJob = this.jobQueue.find((job) => job.id === id && this.matchesPrefixes(job));
-    this.jobQueue = this.jobQueue.filter((job) => !(job.id === id && this.matchesPrefixes(job)));
-    if (deletedJob) {
-      this.events.emit("change", { type: "DELETE", old: deletedJob });
-    }
+    return await runSerialized(this, this, async () => {
+      await sleep(0);
+      const deletedJob = this.jobQueue.find((job) => job.id === id && this.matchesPrefixes(job));
+      this.jobQueue = this.jobQueue.filter((job) => !(job.id === id && this.matchesPrefixes(job)));
+      if (deletedJob) {
+        this.events.emit("change", { type: "DELETE", old: deletedJob });
+      }
+    });
   }
 
   /**
@@ -321,25 +504,48 @@ export class InMemoryQueueStorage<Input, Output> implements IQueueStorage<Input,
    * @param olderThanMs - Delete jobs completed more than this many milliseconds ago
    */
   public async deleteJobsByStatusAndAge(status: JobStatus, olderThanMs: number): Promise<void> {
-    await sleep(0);
-    const cutoffDate = new Date(Date.now() - olderThanMs).toISOString();
-    const deletedJobs = this.jobQueue.filter(
-      (job) =>
-        this.matchesPrefixes(job) &&
-        job.status === status &&
-        job.completed_at &&
-        job.completed_at <= cutoffDate
-    );
-    this.jobQueue = this.jobQueue.filter(
-      (job) =>
-        !this.matchesPrefixes(job) ||
-        job.status !== status ||
-        !job.completed_at ||
-        job.completed_at > cutoffDate
-    );
-    for (const job of deletedJobs) {
-      this.events.emit("change", { type: "DELETE", old: job });
-    }
+    return await runSerialized(this, this, async () => {
+      await sleep(0);
+      const cutoffDate = new Date(Date.now() - olderThanMs).toISOString();
+      const deletedJobs = this.jobQueue.filter(
+        (job) =>
+          this.matchesPrefixes(job) &&
+          job.status === status &&
+          job.completed_at &&
+          job.completed_at <= cutoffDate
+      );
+      this.jobQueue = this.jobQueue.filter(
+        (job) =>
+          !this.matchesPrefixes(job) ||
+          job.status !== status ||
+          !job.completed_at ||
+          job.completed_at > cutoffDate
+      );
+      for (const job of deletedJobs) {
+        this.events.emit("change", { type: "DELETE", old: job });
+      }
+    });
+  }
+
+  /**
+   * Runs `fn` and, if it rejects, restores the jobs of this queue to what they
+   * were before. Writes from other callers wait until `fn` settles, as they do
+   * on a SQL connection, so the restore only undoes the writes of `fn`; reads
+   * are not held back and can see them. Browsers cannot tell callers apart, so
+   * there writes are not held back and a restore also undoes writes that other
+   * callers made while `fn` ran. Events already emitted stand, and other
+   * storages used by `fn` are not restored.
+   */
+  public async withTransaction<T>(fn: () => Promise<T>): Promise<T> {
+    return await runSerialized(this, this, async () => {
+      const jobQueue = this.jobQueue.map((job) => ({ ...job }));
+      try {
+        return await fn();
+      } catch (error) {
+        this.jobQueue = jobQueue;
+        throw error;
+      }
+    });
   }
 
   /**
@@ -12,13 +12,24 @@ import {
   MigrationOptions,
 } from "../util/IndexedDbTable";
 import {
+  areJobDependenciesMet,
+  cancelJobForFailedDependency,
+  DEFAULT_JOB_DEPENDENCY_FAILURE_POLICY,
+  DEFAULT_JOB_LEASE_MS,
+  DEFAULT_JOB_PRIORITY,
+  effectiveJobPriority,
+  finishedJobRecord,
+  getPriorityAgingMs,
   IQueueStorage,
+  isJobDependencyFailed,
+  isJobLeaseExpired,
   JobStatus,
   JobStorageFormat,
   PrefixColumn,
   QueueChangePayload,
   QueueStorageOptions,
   QueueSubscribeOptions,
+  reclaimExpiredJobLease,
 } from "./IQueueStorage";
 
 export const INDEXED_DB_QUEUE_STORAGE = createServiceToken<IQueueStorage<any, any>>(
@@ -47,6 +58,8 @@ export class IndexedDbQueueStorage<Input, Output> implements IQueueStorage<Input
   protected readonly prefixes: readonly PrefixColumn[];
   /** The prefix values for filtering */
   protected readonly prefixValues: Readonly<Record<string, string | number>>;
+  /** Milliseconds a pending job waits to gain one priority level (0 = no aging) */
+  protected readonly priorityAgingMs: number;
   /** Shared hybrid subscription manager */
   private hybridManager: HybridSubscriptionManager<
     JobStorageFormat<Input, Output>,
@@ -66,6 +79,7 @@ export class IndexedDbQueueStorage<Input, Output> implements IQueueStorage<Input
     this.migrationOptions = options;
     this.prefixes = options.prefixes ?? [];
     this.prefixValues = options.prefixValues ?? {};
+    this.priorityAgingMs = getPriorityAgingMs(options);
     this.hybridOptions = {
       useBroadcastChannel: options.useBroadcastChannel ?? true,
       backupPollingIntervalMs: options.backupPollingIntervalMs ?? 5000,
@@ -111,6 +125,15 @@ export class IndexedDbQueueStorage<Input, Output> implements IQueueStorage<Input
     return this.db!;
   }
 
+  /**
+   * Runs `fn` without atomicity. IndexedDB commits a transaction as soon as it
+   * has no pending requests, so one cannot stay open across the awaits in
+   * `fn`; each write applies as it happens and none are rolled back.
+   */
+  public async withTransaction<T>(fn: () => Promise<T>): Promise<T> {
+    return await fn();
+  }
+
   /**
    * Sets up the IndexedDB database table with the required schema and indexes.
    * Must be called before using any other methods.
@@ -167,12 +190,18 @@ export class IndexedDbQueueStorage<Input, Output> implements IQueueStorage<Input
     jobWithPrefixes.job_run_id = jobWithPrefixes.job_run_id ?? uuid4();
     jobWithPrefixes.queue = this.queueName;
     jobWithPrefixes.fingerprint = await makeFingerprint(jobWithPrefixes.input);
+    jobWithPrefixes.priority = jobWithPrefixes.priority ?? DEFAULT_JOB_PRIORITY;
     jobWithPrefixes.status = JobStatus.PENDING;
     jobWithPrefixes.progress = 0;
     jobWithPrefixes.progress_message = "";
     jobWithPrefixes.progress_details = null;
     jobWithPrefixes.created_at = now;
-    jobWithPrefixes.run_after = now;
+    jobWithPrefixes.run_after = jobWithPrefixes.run_after ?? now;
+    jobWithPrefixes.depends_on = jobWithPrefixes.depends_on?.length
+      ? [...jobWithPrefixes.depends_on]
+      : null;
+    jobWithPrefixes.on_dependency_failure =
+      jobWithPrefixes.on_dependency_failure ?? DEFAULT_JOB_DEPENDENCY_FAILURE_POLICY;
 
     // Add prefix values to the job
     for (const [key, value] of Object.entries(this.prefixValues)) {
@@ -196,6 +225,40 @@ export class IndexedDbQueueStorage<Input, Output> implements IQueueStorage<Input
     });
   }
 
+  /**
+   * Adds a job that has already finished, keeping its status, attempts and timestamps.
+   * @param job - The finished job
+   * @returns The id of the new record
+   */
+  public async addFinished(job: JobStorageFormat<Input, Output>): Promise<unknown> {
+    const db = await this.getDb();
+    const record = finishedJobRecord(job, new Date().toISOString()) as JobStorageFormat<
+      Input,
+      Output
+    > &
+      Record<string, unknown>;
+    record.id = uuid4();
+    record.queue = this.queueName;
+    record.fingerprint = await makeFingerprint(record.input);
+    for (const [key, value] of Object.entries(this.prefixValues)) {
+      record[key] = value;
+    }
+
+    const tx = db.transaction(this.tableName, "readwrite");
+    const store = tx.objectStore(this.tableName);
+
+    return new Promise((resolve, reject) => {
+      const request = store.add(record);
+      tx.oncomplete = () => {
+        // Notify hybrid manager of local change
+        this.hybridManager?.notifyLocalChange();
+        resolve(record.id);
+      };
+      tx.onerror = () => reject(tx.error);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
   /**
    * Retrieves a job from the queue by its id.
    * @param id - The id of the job to retrieve.
@@ -279,15 +342,23 @@ export class IndexedDbQueueStorage<Input, Output> implements IQueueStorage<Input
    * 2. After the transaction completes, re-reads the job to verify the claim succeeded
    * 3. If another worker claimed it first (different claim token), returns undefined
    *
+   * All ready jobs are scanned (in `run_after` order) and the one with the highest
+   * effective priority whose prerequisites are met is claimed.
+   *
    * @param workerId - Worker ID to associate with the job (required)
+   * @param leaseMs - Duration of the claim's lease
    * @returns A promise that resolves to the next job or undefined if the queue is empty.
    */
-  public async next(workerId: string): Promise<JobStorageFormat<Input, Output> | undefined> {
+  public async next(
+    workerId: string,
+    leaseMs: number = DEFAULT_JOB_LEASE_MS
+  ): Promise<JobStorageFormat<Input, Output> | undefined> {
     const db = await this.getDb();
     const tx = db.transaction(this.tableName, "readwrite");
     const store = tx.objectStore(this.tableName);
     const index = store.index("queue_status_run_after");
-    const now = new Date().toISOString();
+    const nowMs = Date.now();
+    const now = new Date(nowMs).toISOString();
     const prefixKeyValues = this.getPrefixKeyValues();
 
     // This ensures we can verify that we actually won the race to claim this job
@@ -300,55 +371,87 @@ export class IndexedDbQueueStorage<Input, Output> implements IQueueStorage<Input
             [...prefixKeyValues, this.queueName, JobStatus.PENDING, ""],
             [...prefixKeyValues, this.queueName, JobStatus.PENDING, now],
             false,
-            true
+            false
           )
         );
 
         let claimedJob: JobStorageFormat<Input, Output> | undefined;
-        let cursorStopped = false;
-
-        cursorRequest.onsuccess = (e) => {
-          const cursor = (e.target as IDBRequest<IDBCursorWithValue>).result;
-          if (!cursor) {
-            // Cursor exhausted - resolve with whatever we found (or undefined)
-            return;
-          }
+        const candidates: Array<JobStorageFormat<Input, Output> & Record<string, unknown>> = [];
 
-          // If we already found and updated a job, stop iterating
-          if (cursorStopped) {
+        // Claim the best candidate whose prerequisites are met with our unique token
+        const claimFirstReady = (statusOf: (id: unknown) => JobStatus | undefined) => {
+          const job = candidates.find((candidate) => areJobDependenciesMet(candidate, statusOf));
+          if (!job) {
             return;
           }
-
-          const job = cursor.value as JobStorageFormat<Input, Output> & Record<string, unknown>;
-          // Verify the job belongs to this queue, matches prefixes, and is still in PENDING state
-          if (
-            job.queue !== this.queueName ||
-            job.status !== JobStatus.PENDING ||
-            !this.matchesPrefixes(job)
-          ) {
-            cursor.continue();
-            return;
-          }
-
-          // Claim the job with our unique token
           job.status = JobStatus.PROCESSING;
           job.last_ran_at = now;
           job.worker_id = claimToken;
+          job.lease_expires_at = new Date(nowMs + leaseMs).toISOString();
 
           try {
             const updateRequest = store.put(job);
             updateRequest.onsuccess = () => {
               claimedJob = job;
-              cursorStopped = true;
-              // Stop cursor iteration - we've claimed a job
             };
             updateRequest.onerror = (err) => {
               console.error("Failed to update job status:", err);
-              cursor.continue();
             };
           } catch (err) {
             console.error("Error updating job:", err);
+          }
+        };
+
+        cursorRequest.onsuccess = (e) => {
+          const cursor = (e.target as IDBRequest<IDBCursorWithValue>).result;
+          if (cursor) {
+            const job = cursor.value as JobStorageFormat<Input, Output> & Record<string, unknown>;
+            // Verify the job belongs to this queue, matches prefixes, and is still in PENDING state
+            if (
+              job.queue === this.queueName &&
+              job.status === JobStatus.PENDING &&
+              this.matchesPrefixes(job)
+            ) {
+              candidates.push(job);
+            }
             cursor.continue();
+            return;
+          }
+
+          // Cursor exhausted - rank by effective priority (the sort is stable, so jobs
+          // of equal priority stay in run_after order)
+          candidates.sort(
+            (a, b) =>
+              effectiveJobPriority(b, nowMs, this.priorityAgingMs) -
+              effectiveJobPriority(a, nowMs, this.priorityAgingMs)
+          );
+          const dependencyIds = new Set(candidates.flatMap((job) => job.depends_on ?? []));
+          if (dependencyIds.size === 0) {
+            claimFirstReady(() => undefined);
+            return;
+          }
+
+          // Look up the status of the prerequisites within the same transaction
+          const statuses = new Map<unknown, JobStatus | undefined>();
+          let remaining = dependencyIds.size;
+          for (const id of dependencyIds) {
+            const getRequest = store.get(id as string);
+            getRequest.onsuccess = () => {
+              const dependency = getRequest.result as
+                | (JobStorageFormat<Input, Output> & Record<string, unknown>)
+                | undefined;
+              if (
+                dependency &&
+                dependency.queue === this.queueName &&
+                this.matchesPrefixes(dependency)
+              ) {
+                statuses.set(id, dependency.status);
+              }
+              remaining--;
+              if (remaining === 0) {
+                claimFirstReady((dependencyId) => statuses.get(dependencyId));
+              }
+            };
           }
         };
 
@@ -395,6 +498,134 @@ export class IndexedDbQueueStorage<Input, Output> implements IQueueStorage<Input
     return verifiedJob;
   }
 
+  /**
+   * Extends the lease of a job that is still claimed by the given worker
+   * @param id - The ID of the job
+   * @param workerId - The worker that holds the lease
+   * @param leaseMs - New lease duration from now
+   * @returns false if the worker no longer holds the job
+   */
+  public async renewLease(
+    id: unknown,
+    workerId: string,
+    leaseMs: number = DEFAULT_JOB_LEASE_MS
+  ): Promise<boolean> {
+    const db = await this.getDb();
+    const tx = db.transaction(this.tableName, "readwrite");
+    const store = tx.objectStore(this.tableName);
+
+    return new Promise((resolve, reject) => {
+      let renewed = false;
+      const getReq = store.get(id as string);
+      getReq.onsuccess = () => {
+        const job = getReq.result as
+          | (JobStorageFormat<Input, Output> & Record<string, unknown>)
+          | undefined;
+        if (
+          !job ||
+          job.queue !== this.queueName ||
+          !this.matchesPrefixes(job) ||
+          job.worker_id !== workerId ||
+          (job.status !== JobStatus.PROCESSING && job.status !== JobStatus.ABORTING)
+        ) {
+          return;
+        }
+        job.lease_expires_at = new Date(Date.now() + leaseMs).toISOString();
+        const putReq = store.put(job);
+        putReq.onsuccess = () => {
+          renewed = true;
+        };
+        putReq.onerror = () => reject(putReq.error);
+      };
+      getReq.onerror = () => reject(getReq.error);
+      tx.oncomplete = () => resolve(renewed);
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  /**
+   * Puts PROCESSING jobs whose lease has expired back in the queue, counting the
+   * abandoned run as a failed attempt (or fails them once their retries are exhausted)
+   * @returns The jobs that failed
+   */
+  public async reclaimExpiredLeases(): Promise<Array<JobStorageFormat<Input, Output>>> {
+    const db = await this.getDb();
+    const tx = db.transaction(this.tableName, "readwrite");
+    const index = tx.objectStore(this.tableName).index("queue_status");
+    const now = new Date().toISOString();
+    const prefixKeyValues = this.getPrefixKeyValues();
+
+    return new Promise((resolve, reject) => {
+      let reclaimed = false;
+      const failed: Array<JobStorageFormat<Input, Output>> = [];
+      const cursorRequest = index.openCursor(
+        IDBKeyRange.only([...prefixKeyValues, this.queueName, JobStatus.PROCESSING])
+      );
+      cursorRequest.onsuccess = (e) => {
+        const cursor = (e.target as IDBRequest<IDBCursorWithValue>).result;
+        if (!cursor) return;
+        const job = cursor.value as JobStorageFormat<Input, Output> & Record<string, unknown>;
+        if (this.matchesPrefixes(job) && isJobLeaseExpired(job, now)) {
+          cursor.update(reclaimExpiredJobLease(job, now));
+          reclaimed = true;
+          if (job.status === JobStatus.FAILED) failed.push(job);
+        }
+        cursor.continue();
+      };
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+      tx.oncomplete = () => {
+        if (reclaimed) {
+          this.hybridManager?.notifyLocalChange();
+        }
+        resolve(failed);
+      };
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  /**
+   * Fails pending jobs whose prerequisites failed, repeating until no more dependents are affected
+   * @returns The cancelled jobs
+   */
+  public async cancelFailedDependents(): Promise<Array<JobStorageFormat<Input, Output>>> {
+    const waiting = (await this.peek(JobStatus.PENDING, Number.MAX_SAFE_INTEGER)).filter(
+      (job) => job.depends_on?.length && job.on_dependency_failure !== "run"
+    );
+    if (waiting.length === 0) {
+      return [];
+    }
+
+    const statuses = new Map<unknown, JobStatus | undefined>();
+    for (const job of waiting) {
+      statuses.set(job.id, job.status);
+    }
+    for (const id of new Set(waiting.flatMap((job) => job.depends_on ?? []))) {
+      if (!statuses.has(id)) {
+        statuses.set(id, (await this.get(id))?.status);
+      }
+    }
+    const statusOf = (id: unknown) => statuses.get(id);
+
+    const now = new Date().toISOString();
+    const cancelled: Array<JobStorageFormat<Input, Output>> = [];
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const job of waiting) {
+        if (job.status === JobStatus.PENDING && isJobDependencyFailed(job, statusOf)) {
+          cancelJobForFailedDependency(job, now);
+          statuses.set(job.id, job.status);
+          cancelled.push(job);
+          changed = true;
+        }
+      }
+    }
+    for (const job of cancelled) {
+      await this.put(job);
+    }
+    return cancelled;
+  }
+
   /**
    * Retrieves the number of jobs in the queue.
    * Returns the count of jobs in the queue.
@@ -416,14 +647,16 @@ export class IndexedDbQueueStorage<Input, Output> implements IQueueStorage<Input
   }
 
   /**
-   * Marks a job as complete with its output or error.
+   * Marks a job as complete with its output or error. With a `workerId`, the job is
+   * left alone unless that worker still holds it.
    */
-  public async complete(job: JobStorageFormat<Input, Output>): Promise<void> {
+  public async complete(job: JobStorageFormat<Input, Output>, workerId?: string): Promise<boolean> {
     const db = await this.getDb();
     const tx = db.transaction(this.tableName, "readwrite");
     const store = tx.objectStore(this.tableName);
 
     return new Promise((resolve, reject) => {
+      let written = false;
       const getReq = store.get(job.id as string);
       getReq.onsuccess = () => {
         const existing = getReq.result as
@@ -436,8 +669,12 @@ export class IndexedDbQueueStorage<Input, Output> implements IQueueStorage<Input
           );
           return;
         }
+        if (workerId !== undefined && existing.worker_id !== workerId) {
+          return;
+        }
         const currentAttempts = existing.run_attempts ?? 0;
         job.run_attempts = currentAttempts + 1;
+        job.lease_expires_at = null;
         // Ensure queue is set correctly
         job.queue = this.queueName;
 
@@ -448,7 +685,9 @@ export class IndexedDbQueueStorage<Input, Output> implements IQueueStorage<Input
         }
 
         const putReq = store.put(jobWithPrefixes);
-        putReq.onsuccess = () => {};
+        putReq.onsuccess = () => {
+          written = true;
+        };
         putReq.onerror = () => reject(putReq.error);
       };
       getReq.onerror = () => reject(getReq.error);
@@ -456,8 +695,8 @@ export class IndexedDbQueueStorage<Input, Output> implements IQueueStorage<Input
       // Don't resolve until transaction is complete
       tx.oncomplete = () => {
         // Notify hybrid manager of local change
-        this.hybridManager?.notifyLocalChange();
-        resolve();
+        if (written) this.hybridManager?.notifyLocalChange();
+        resolve(written);
       };
       tx.onerror = () => reject(tx.error);
     });
@@ -582,22 +821,51 @@ export class IndexedDbQueueStorage<Input, Output> implements IQueueStorage<Input
   }
 
   /**
-   * Saves progress updates for a job.
+   * Saves progress updates for a job. With a `workerId`, the progress is only saved
+   * while that worker still holds the job.
    */
   public async saveProgress(
     id: unknown,
     progress: number,
     message: string,
-    details: Record<string, any> | null
-  ): Promise<void> {
-    const job = await this.get(id);
-    if (!job) throw new Error(`Job ${id} not found`);
-
-    job.progress = progress;
-    job.progress_message = message;
-    job.progress_details = details;
+    details: Record<string, any> | null,
+    workerId?: string
+  ): Promise<boolean> {
+    const db = await this.getDb();
+    const tx = db.transaction(this.tableName, "readwrite");
+    const store = tx.objectStore(this.tableName);
 
-    await this.put(job);
+    return new Promise((resolve, reject) => {
+      let saved = false;
+      const getReq = store.get(id as string);
+      getReq.onsuccess = () => {
+        const job = getReq.result as
+          | (JobStorageFormat<Input, Output> & Record<string, unknown>)
+          | undefined;
+        if (!job || job.queue !== this.queueName || !this.matchesPrefixes(job)) {
+          reject(new Error(`Job ${id} not found`));
+          return;
+        }
+        if (workerId !== undefined && job.worker_id !== workerId) {
+          return;
+        }
+        job.progress = progress;
+        job.progress_message = message;
+        job.progress_details = details;
+        const putReq = store.put(job);
+        putReq.onsuccess = () => {
+          saved = true;
+        };
+        putReq.onerror = () => reject(putReq.error);
+      };
+      getReq.onerror = () => reject(getReq.error);
+      tx.oncomplete = () => {
+        // Notify hybrid manager of local change
+        if (saved) this.hybridManager?.notifyLocalChange();
+        resolve(saved);
+      };
+      tx.onerror = () => reject(tx.error);
+    });
   }
 
   /**
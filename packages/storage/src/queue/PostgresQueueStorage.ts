@@ -6,8 +6,18 @@
 
 import { createServiceToken, makeFingerprint, uuid4 } from "@workglow/util";
 import type { Pool } from "@workglow/storage/postgres";
+import { postgresConnection, runPostgresTransaction } from "../util/PostgresTransaction";
 import {
+  DEFAULT_JOB_DEPENDENCY_FAILURE_POLICY,
+  DEFAULT_JOB_LEASE_MS,
+  DEFAULT_JOB_PRIORITY,
+  finishedJobRecord,
+  getPriorityAgingMs,
   IQueueStorage,
+  JOB_DEPENDENCY_FAILED_ERROR,
+  JOB_DEPENDENCY_FAILED_ERROR_CODE,
+  JOB_LEASE_EXPIRED_ERROR,
+  JOB_LEASE_EXPIRED_ERROR_CODE,
   JobStatus,
   JobStorageFormat,
   PrefixColumn,
@@ -20,6 +30,18 @@ export const POSTGRES_QUEUE_STORAGE = createServiceToken<IQueueStorage<any, any>
   "jobqueue.storage.postgres"
 );
 
+// Status of a prerequisite in a dependency join: one that no longer exists counts as failed
+const DEPENDENCY_STATUS_SQL = `COALESCE(dep.status, '${JobStatus.FAILED}')`;
+
+// Columns added after the first table layout; setupDatabase() adds them to older tables
+const ADDED_COLUMNS: ReadonlyArray<readonly [name: string, definition: string]> = [
+  ["priority", "integer NOT NULL default 0"],
+  ["error_history", "jsonb"],
+  ["lease_expires_at", "timestamp with time zone"],
+  ["depends_on", "jsonb"],
+  ["on_dependency_failure", "text NOT NULL default 'cancel'"],
+];
+
 /** Regex for safe SQL identifiers: starts with a letter, then alphanumeric/underscores */
 const SAFE_IDENTIFIER = /^[a-zA-Z][a-zA-Z0-9_]*$/;
 
@@ -34,14 +56,17 @@ export class PostgresQueueStorage<Input, Output> implements IQueueStorage<Input,
   protected readonly prefixValues: Readonly<Record<string, string | number>>;
   /** The table name for the job queue */
   protected readonly tableName: string;
+  /** Milliseconds a pending job waits to gain one priority level (0 = no aging) */
+  protected readonly priorityAgingMs: number;
 
   constructor(
-    protected readonly db: Pool,
+    private readonly pool: Pool,
     protected readonly queueName: string,
     options?: QueueStorageOptions
   ) {
     this.prefixes = options?.prefixes ?? [];
     this.prefixValues = options?.prefixValues ?? {};
+    this.priorityAgingMs = getPriorityAgingMs(options);
 
     // Validate prefix column names to prevent SQL injection in DDL statements
     for (const prefix of this.prefixes) {
@@ -111,6 +136,74 @@ export class PostgresQueueStorage<Input, Output> implements IQueueStorage<Input,
     return this.prefixes.map((p) => this.prefixValues[p.name]);
   }
 
+  /**
+   * Builds the WHERE condition that limits a write to a job still held by the
+   * given worker (no condition when `workerId` is undefined)
+   * @param param - The parameter number to use for the worker id
+   */
+  private buildWorkerWhereClause(
+    workerId: string | undefined,
+    param: number
+  ): { conditions: string; params: string[] } {
+    if (workerId === undefined) {
+      return { conditions: "", params: [] };
+    }
+    return { conditions: ` AND worker_id = $${param}`, params: [workerId] };
+  }
+
+  /**
+   * Builds the ORDER BY expression used to pick the next job: highest priority
+   * first, where a job gains one level per aging interval it has been waiting.
+   */
+  private buildNextOrderBy(): string {
+    if (this.priorityAgingMs === 0) {
+      return "priority DESC, run_after ASC";
+    }
+    // priorityAgingMs is a validated integer, so it is safe to inline
+    return `priority + FLOOR(EXTRACT(EPOCH FROM (NOW() - run_after)) * 1000 / ${this.priorityAgingMs}) DESC, run_after ASC`;
+  }
+
+  /**
+   * Builds the FROM clause that joins the jobs a job of this table depends on (as `dep`),
+   * restricted to the same queue and prefix values. A prerequisite that no longer exists
+   * (e.g. dead-lettered or deleted) yields a row whose `dep` columns are NULL.
+   */
+  private buildDependencyJoinSql(): string {
+    const prefixJoin = this.getPrefixColumnNames()
+      .map((name) => ` AND dep.${name} = ${this.tableName}.${name}`)
+      .join("");
+    return `FROM jsonb_array_elements_text(${this.tableName}.depends_on) AS d(dep_id)
+          LEFT JOIN ${this.tableName} AS dep ON dep.id::text = d.dep_id
+            AND dep.queue = ${this.tableName}.queue${prefixJoin}`;
+  }
+
+  /**
+   * Builds the condition that the prerequisites of a job are met: none of them is
+   * unfinished, or with the "cancel" policy, anything but COMPLETED. Prerequisites
+   * that no longer exist count as failed.
+   */
+  private buildDependenciesMetSql(): string {
+    return `(depends_on IS NULL OR NOT EXISTS (
+          SELECT 1 ${this.buildDependencyJoinSql()}
+          WHERE ${DEPENDENCY_STATUS_SQL} <> '${JobStatus.COMPLETED}'
+          AND (${this.tableName}.on_dependency_failure <> 'run'
+            OR ${DEPENDENCY_STATUS_SQL} NOT IN ('${JobStatus.FAILED}', '${JobStatus.DISABLED}'))
+        ))`;
+  }
+
+  /** Connection for queries: the client of the caller's transaction, or the pool */
+  protected get db(): Pool {
+    return postgresConnection(this.pool);
+  }
+
+  /**
+   * Runs `fn` in a transaction on the pool; storages built on the same pool
+   * take part in it
+   */
+  public async withTransaction<T>(fn: () => Promise<T>): Promise<T> {
+    return await runPostgresTransaction(this.pool, fn);
+  }
+
   public async setupDatabase(): Promise<void> {
     let sql: string;
     try {
@@ -143,6 +236,7 @@ export class PostgresQueueStorage<Input, Output> implements IQueueStorage<Input,
       output jsonb,
       run_attempts integer default 0,
       max_retries integer default 20,
+      priority integer NOT NULL default 0,
       run_after timestamp with time zone DEFAULT now(),
       last_ran_at timestamp with time zone,
       created_at timestamp with time zone DEFAULT now(),
@@ -153,11 +247,22 @@ export class PostgresQueueStorage<Input, Output> implements IQueueStorage<Input,
       progress real DEFAULT 0,
       progress_message text DEFAULT '',
       progress_details jsonb,
-      worker_id text
+      error_history jsonb,
+      worker_id text,
+      lease_expires_at timestamp with time zone,
+      depends_on jsonb,
+      on_dependency_failure text NOT NULL default 'cancel'
     )`;
 
     await this.db.query(sql);
 
+    // CREATE TABLE IF NOT EXISTS leaves tables of older versions without the newer columns
+    for (const [name, definition] of ADDED_COLUMNS) {
+      await this.db.query(
+        `ALTER TABLE ${this.tableName} ADD COLUMN IF NOT EXISTS ${name} ${definition}`
+      );
+    }
+
     // Create indexes with prefix columns prepended
     const indexSuffix = prefixColumnNames.length > 0 ? "_" + prefixColumnNames.join("_") : "";
 
@@ -187,12 +292,15 @@ export class PostgresQueueStorage<Input, Output> implements IQueueStorage<Input,
     job.queue = this.queueName;
     job.job_run_id = job.job_run_id ?? uuid4();
     job.fingerprint = await makeFingerprint(job.input);
+    job.priority = job.priority ?? DEFAULT_JOB_PRIORITY;
     job.status = JobStatus.PENDING;
     job.progress = 0;
     job.progress_message = "";
     job.progress_details = null;
     job.created_at = now;
-    job.run_after = now;
+    job.run_after = job.run_after ?? now;
+    job.depends_on = job.depends_on?.length ? [...job.depends_on] : null;
+    job.on_dependency_failure = job.on_dependency_failure ?? DEFAULT_JOB_DEPENDENCY_FAILURE_POLICY;
 
     const prefixColumnNames = this.getPrefixColumnNames();
     const prefixColumnsInsert =
@@ -216,10 +324,13 @@ export class PostgresQueueStorage<Input, Output> implements IQueueStorage<Input,
         job_run_id, 
         progress, 
         progress_message, 
-        progress_details
+        progress_details,
+        priority,
+        depends_on,
+        on_dependency_failure
       )
       VALUES 
-        (${prefixParamPlaceholders}$${baseParamStart},$${baseParamStart + 1},$${baseParamStart + 2},$${baseParamStart + 3},$${baseParamStart + 4},$${baseParamStart + 5},$${baseParamStart + 6},$${baseParamStart + 7},$${baseParamStart + 8},$${baseParamStart + 9},$${baseParamStart + 10})
+        (${prefixParamPlaceholders}$${baseParamStart},$${baseParamStart + 1},$${baseParamStart + 2},$${baseParamStart + 3},$${baseParamStart + 4},$${baseParamStart + 5},$${baseParamStart + 6},$${baseParamStart + 7},$${baseParamStart + 8},$${baseParamStart + 9},$${baseParamStart + 10},$${baseParamStart + 11},$${baseParamStart + 12},$${baseParamStart + 13})
       RETURNING id`;
     const params = [
       ...prefixParamValues,
@@ -234,6 +345,9 @@ export class PostgresQueueStorage<Input, Output> implements IQueueStorage<Input,
       job.progress,
       job.progress_message,
       job.progress_details ? JSON.stringify(job.progress_details) : null,
+      job.priority,
+      job.depends_on ? JSON.stringify(job.depends_on) : null,
+      job.on_dependency_failure,
     ];
     const result = await this.db.query(sql, params);
 
@@ -242,6 +356,80 @@ export class PostgresQueueStorage<Input, Output> implements IQueueStorage<Input,
     return job.id;
   }
 
+  /**
+   * Adds a job that has already finished, keeping its status, attempts and timestamps.
+   * @param job - The finished job
+   * @returns The ID of the added job
+   */
+  public async addFinished(job: JobStorageFormat<Input, Output>): Promise<unknown> {
+    const record = finishedJobRecord(job, new Date().toISOString());
+    const fingerprint = await makeFingerprint(record.input);
+
+    const prefixColumnNames = this.getPrefixColumnNames();
+    const prefixColumnsInsert =
+      prefixColumnNames.length > 0 ? prefixColumnNames.join(", ") + ", " : "";
+    const params = [
+      ...this.getPrefixParamValues(),
+      this.queueName,
+      fingerprint,
+      record.job_run_id,
+      record.status,
+      JSON.stringify(record.input),
+      record.output !== null ? JSON.stringify(record.output) : null,
+      record.run_attempts,
+      record.max_retries,
+      record.priority,
+      record.run_after,
+      record.last_ran_at,
+      record.created_at,
+      record.completed_at,
+      record.deadline_at,
+      record.error,
+      record.error_code,
+      record.progress,
+      record.progress_message,
+      record.progress_details ? JSON.stringify(record.progress_details) : null,
+      record.error_history ? JSON.stringify(record.error_history) : null,
+      record.worker_id,
+      record.depends_on ? JSON.stringify(record.depends_on) : null,
+      record.on_dependency_failure,
+    ];
+    const placeholders = params.map((_, i) => `$${i + 1}`).join(",");
+
+    const sql = `
+      INSERT INTO ${this.tableName}(
+        ${prefixColumnsInsert}queue,
+        fingerprint,
+        job_run_id,
+        status,
+        input,
+        output,
+        run_attempts,
+        max_retries,
+        priority,
+        run_after,
+        last_ran_at,
+        created_at,
+        completed_at,
+        deadline_at,
+        error,
+        error_code,
+        progress,
+        progress_message,
+        progress_details,
+        error_history,
+        worker_id,
+        depends_on,
+        on_dependency_failure
+      )
+      VALUES (${placeholders})
+      RETURNING id`;
+    const result = await this.db.query(sql, params);
+
+    if (!result) throw new Error("Failed to add to queue");
+    return result.rows[0].id;
+  }
+
   /**
    * Retrieves a job by its ID.
    * @param id - The ID of the job to retrieve
@@ -296,16 +484,20 @@ export class PostgresQueueStorage<Input, Output> implements IQueueStorage<Input,
    * @param workerId - Worker ID to associate with the job (required)
    * @returns The next job or undefined if no job is available
    */
-  public async next(workerId: string): Promise<JobStorageFormat<Input, Output> | undefined> {
-    // Parameters: $1=status, $2=queue, $3=status, $4=worker_id, $5+=prefix params
-    const { conditions: prefixConditions, params: prefixParams } = this.buildPrefixWhereClause(5);
+  public async next(
+    workerId: string,
+    leaseMs: number = DEFAULT_JOB_LEASE_MS
+  ): Promise<JobStorageFormat<Input, Output> | undefined> {
+    // Parameters: $1=status, $2=queue, $3=status, $4=worker_id, $5=lease ms, $6+=prefix params
+    const { conditions: prefixConditions, params: prefixParams } = this.buildPrefixWhereClause(6);
     const result = await this.db.query<
       JobStorageFormat<Input, Output>,
       Array<string | number | JobStatus | null>
     >(
       `
       UPDATE ${this.tableName} 
-      SET status = $1, last_ran_at = NOW() AT TIME ZONE 'UTC', worker_id = $4
+      SET status = $1, last_ran_at = NOW() AT TIME ZONE 'UTC', worker_id = $4,
+        lease_expires_at = NOW() AT TIME ZONE 'UTC' + ($5::double precision * INTERVAL '1 millisecond')
       WHERE id = (
         SELECT id 
         FROM ${this.tableName} 
@@ -313,17 +505,146 @@ export class PostgresQueueStorage<Input, Output> implements IQueueStorage<Input,
         AND status = $3
         ${prefixConditions}
         AND run_after <= NOW() AT TIME ZONE 'UTC'
-        ORDER BY run_after ASC 
+        AND ${this.buildDependenciesMetSql()}
+        ORDER BY ${this.buildNextOrderBy()} 
         FOR UPDATE SKIP LOCKED 
         LIMIT 1
       )
       RETURNING *`,
-      [JobStatus.PROCESSING, this.queueName, JobStatus.PENDING, workerId, ...prefixParams]
+      [JobStatus.PROCESSING, this.queueName, JobStatus.PENDING, workerId, leaseMs, ...prefixParams]
     );
 
     return result?.rows?.[0] ?? undefined;
   }
 
+  /**
+   * Extends the lease of a job that is still claimed by the given worker
+   * @param jobId - The ID of the job
+   * @param workerId - The worker that holds the lease
+   * @param leaseMs - New lease duration from now
+   * @returns false if the worker no longer holds the job
+   */
+  public async renewLease(
+    jobId: unknown,
+    workerId: string,
+    leaseMs: number = DEFAULT_JOB_LEASE_MS
+  ): Promise<boolean> {
+    const { conditions: prefixConditions, params: prefixParams } = this.buildPrefixWhereClause(7);
+    const result = await this.db.query(
+      `
+      UPDATE ${this.tableName} 
+      SET lease_expires_at = NOW() AT TIME ZONE 'UTC' + ($1::double precision * INTERVAL '1 millisecond')
+      WHERE id = $2 AND queue = $3 AND worker_id = $4 AND status IN ($5, $6)${prefixConditions}
+      RETURNING id`,
+      [
+        leaseMs,
+        jobId,
+        this.queueName,
+        workerId,
+        JobStatus.PROCESSING,
+        JobStatus.ABORTING,
+        ...prefixParams,
+      ]
+    );
+    return (result?.rows?.length ?? 0) > 0;
+  }
+
+  /**
+   * Puts PROCESSING jobs whose lease has expired back in the queue, counting the
+   * abandoned run as a failed attempt (or fails them once their retries are exhausted)
+   * @returns The jobs that failed
+   */
+  public async reclaimExpiredLeases(): Promise<Array<JobStorageFormat<Input, Output>>> {
+    const { conditions: prefixConditions, params: prefixParams } = this.buildPrefixWhereClause(7);
+    const result = await this.db.query<
+      JobStorageFormat<Input, Output>,
+      Array<string | number | JobStatus>
+    >(
+      `
+      UPDATE ${this.tableName} 
+      SET status = (CASE WHEN run_attempts >= max_retries THEN $1 ELSE $2 END)::job_status,
+        error = CASE WHEN run_attempts >= max_retries THEN 'Max retries reached' ELSE $3 END,
+        error_code = CASE WHEN run_attempts >= max_retries THEN 'MAX_RETRIES_REACHED' ELSE $4 END,
+        completed_at = CASE
+          WHEN run_attempts >= max_retries THEN NOW() AT TIME ZONE 'UTC'
+          ELSE completed_at
+        END,
+        progress = CASE WHEN run_attempts >= max_retries THEN 100 ELSE 0 END,
+        progress_message = '',
+        progress_details = NULL,
+        error_history = COALESCE(error_history, '[]'::jsonb) || jsonb_build_array(
+          jsonb_build_object(
+            'attempt', run_attempts + 1,
+            'error', $3::text,
+            'error_code', $4::text,
+            'worker_id', worker_id,
+            'failed_at', NOW()
+          )
+        ),
+        run_attempts = run_attempts + 1,
+        worker_id = NULL,
+        lease_expires_at = NULL
+      WHERE queue = $5 AND status = $6
+        AND lease_expires_at < NOW() AT TIME ZONE 'UTC'${prefixConditions}
+      RETURNING *`,
+      [
+        JobStatus.FAILED,
+        JobStatus.PENDING,
+        JOB_LEASE_EXPIRED_ERROR,
+        JOB_LEASE_EXPIRED_ERROR_CODE,
+        this.queueName,
+        JobStatus.PROCESSING,
+        ...prefixParams,
+      ]
+    );
+    return (result?.rows ?? []).filter((job) => job.status === JobStatus.FAILED);
+  }
+
+  /**
+   * Fails pending jobs whose prerequisites failed, repeating until no more dependents are affected
+   * @returns The cancelled jobs
+   */
+  public async cancelFailedDependents(): Promise<Array<JobStorageFormat<Input, Output>>> {
+    const { conditions: prefixConditions, params: prefixParams } = this.buildPrefixWhereClause(8);
+    const cancelled: Array<JobStorageFormat<Input, Output>> = [];
+    while (true) {
+      const result = await this.db.query<
+        JobStorageFormat<Input, Output>,
+        Array<string | number | JobStatus>
+      >(
+        `
+        UPDATE ${this.tableName}
+        SET status = $1,
+          error = $2,
+          error_code = $3,
+          progress = 100,
+          progress_message = '',
+          progress_details = NULL,
+          completed_at = NOW() AT TIME ZONE 'UTC'
+        WHERE queue = $4 AND status = $5 AND depends_on IS NOT NULL
+          AND on_dependency_failure <> 'run'${prefixConditions}
+          AND EXISTS (
+            SELECT 1 ${this.buildDependencyJoinSql()}
+            WHERE ${DEPENDENCY_STATUS_SQL} IN ($6, $7)
+          )
+        RETURNING *`,
+        [
+          JobStatus.FAILED,
+          JOB_DEPENDENCY_FAILED_ERROR,
+          JOB_DEPENDENCY_FAILED_ERROR_CODE,
+          this.queueName,
+          JobStatus.PENDING,
+          JobStatus.FAILED,
+          JobStatus.DISABLED,
+          ...prefixParams,
+        ]
+      );
+      if (!result || result.rows.length === 0) break;
+      cancelled.push(...result.rows);
+    }
+    return cancelled;
+  }
+
   /**
    * Retrieves the number of jobs in the queue with a specific status.
    * @param status - The status of the jobs to count
@@ -348,51 +669,66 @@ export class PostgresQueueStorage<Input, Output> implements IQueueStorage<Input,
    * Enhanced error handling:
    * - For a retryable error, increments run_attempts and updates run_after.
    * - Marks a job as FAILED immediately for permanent or generic errors.
+   * With a `workerId`, the job is left alone unless that worker still holds it.
    */
-  public async complete(jobDetails: JobStorageFormat<Input, Output>): Promise<void> {
+  public async complete(
+    jobDetails: JobStorageFormat<Input, Output>,
+    workerId?: string
+  ): Promise<boolean> {
     const prefixParams = this.getPrefixParamValues();
 
+    let result;
     if (jobDetails.status === JobStatus.DISABLED) {
       const { conditions: prefixConditions } = this.buildPrefixWhereClause(4);
-      await this.db.query(
+      const worker = this.buildWorkerWhereClause(workerId, 4 + prefixParams.length);
+      result = await this.db.query(
         `UPDATE ${this.tableName} 
           SET 
             status = $1, 
             progress = 100,
             progress_message = '',
             progress_details = NULL,
+            lease_expires_at = NULL,
             completed_at = NOW() AT TIME ZONE 'UTC'
-          WHERE id = $2 AND queue = $3${prefixConditions}`,
-        [jobDetails.status, jobDetails.id, this.queueName, ...prefixParams]
+          WHERE id = $2 AND queue = $3${prefixConditions}${worker.conditions}
+          RETURNING id`,
+        [jobDetails.status, jobDetails.id, this.queueName, ...prefixParams, ...worker.params]
       );
     } else if (jobDetails.status === JobStatus.PENDING) {
-      const { conditions: prefixConditions } = this.buildPrefixWhereClause(7);
-      await this.db.query(
+      const { conditions: prefixConditions } = this.buildPrefixWhereClause(8);
+      const worker = this.buildWorkerWhereClause(workerId, 8 + prefixParams.length);
+      result = await this.db.query(
         `UPDATE ${this.tableName} 
           SET 
             error = $1, 
             error_code = $2,
             status = $3, 
             run_after = $4, 
+            error_history = $5,
             progress = 0,
             progress_message = '',
             progress_details = NULL,
+            lease_expires_at = NULL,
             run_attempts = run_attempts + 1, 
             last_ran_at = NOW() AT TIME ZONE 'UTC'
-          WHERE id = $5 AND queue = $6${prefixConditions}`,
+          WHERE id = $6 AND queue = $7${prefixConditions}${worker.conditions}
+          RETURNING id`,
         [
           jobDetails.error,
           jobDetails.error_code,
           jobDetails.status,
           jobDetails.run_after,
+          jobDetails.error_history ? JSON.stringify(jobDetails.error_history) : null,
           jobDetails.id,
           this.queueName,
           ...prefixParams,
+          ...worker.params,
         ]
       );
     } else {
-      const { conditions: prefixConditions } = this.buildPrefixWhereClause(7);
-      await this.db.query(
+      const { conditions: prefixConditions } = this.buildPrefixWhereClause(8);
+      const worker = this.buildWorkerWhereClause(workerId, 8 + prefixParams.length);
+      result = await this.db.query(
         `
           UPDATE ${this.tableName} 
             SET 
@@ -400,24 +736,30 @@ export class PostgresQueueStorage<Input, Output> implements IQueueStorage<Input,
               error = $2, 
               error_code = $3,
               status = $4, 
+              error_history = $5,
               progress = 100,
               progress_message = '',
               progress_details = NULL,
+              lease_expires_at = NULL,
               run_attempts = run_attempts + 1, 
               completed_at = NOW() AT TIME ZONE 'UTC',
               last_ran_at = NOW() AT TIME ZONE 'UTC'
-          WHERE id = $5 AND queue = $6${prefixConditions}`,
+          WHERE id = $6 AND queue = $7${prefixConditions}${worker.conditions}
+          RETURNING id`,
         [
           jobDetails.output ? JSON.stringify(jobDetails.output) : null,
           jobDetails.error ?? null,
           jobDetails.error_code ?? null,
           jobDetails.status,
+          jobDetails.error_history ? JSON.stringify(jobDetails.error_history) : null,
           jobDetails.id,
           this.queueName,
           ...prefixParams,
+          ...worker.params,
         ]
       );
     }
+    return (result?.rows?.length ?? 0) > 0;
   }
 
   /**
@@ -486,22 +828,26 @@ export class PostgresQueueStorage<Input, Output> implements IQueueStorage<Input,
   }
 
   /**
-   * Implements the abstract saveProgress method from JobQueue
+   * Implements the abstract saveProgress method from JobQueue. With a `workerId`, the
+   * progress is only saved while that worker still holds the job.
    */
   public async saveProgress(
     jobId: unknown,
     progress: number,
     message: string,
-    details: Record<string, any>
-  ): Promise<void> {
+    details: Record<string, any>,
+    workerId?: string
+  ): Promise<boolean> {
     const { conditions: prefixConditions, params: prefixParams } = this.buildPrefixWhereClause(6);
-    await this.db.query(
+    const worker = this.buildWorkerWhereClause(workerId, 6 + prefixParams.length);
+    const result = await this.db.query(
       `
       UPDATE ${this.tableName} 
       SET progress = $1,
           progress_message = $2,
           progress_details = $3
-      WHERE id = $4 AND queue = $5${prefixConditions}`,
+      WHERE id = $4 AND queue = $5${prefixConditions}${worker.conditions}
+      RETURNING id`,
       [
         progress,
         message,
@@ -509,8 +855,10 @@ export class PostgresQueueStorage<Input, Output> implements IQueueStorage<Input,
         jobId,
         this.queueName,
         ...prefixParams,
+        ...worker.params,
       ]
     );
+    return (result?.rows?.length ?? 0) > 0;
   }
 
   /**
@@ -6,8 +6,18 @@
 
 import type { Sqlite } from "@workglow/storage/sqlite";
 import { createServiceToken, makeFingerprint, sleep, uuid4 } from "@workglow/util";
+import { runSqliteTransaction, runSqliteWrite } from "../util/SqliteTransaction";
 import {
+  DEFAULT_JOB_DEPENDENCY_FAILURE_POLICY,
+  DEFAULT_JOB_LEASE_MS,
+  DEFAULT_JOB_PRIORITY,
+  finishedJobRecord,
+  getPriorityAgingMs,
   IQueueStorage,
+  JOB_DEPENDENCY_FAILED_ERROR,
+  JOB_DEPENDENCY_FAILED_ERROR_CODE,
+  JOB_LEASE_EXPIRED_ERROR,
+  JOB_LEASE_EXPIRED_ERROR_CODE,
   JobStatus,
   JobStorageFormat,
   PrefixColumn,
@@ -19,10 +29,24 @@ import {
 export const SQLITE_QUEUE_STORAGE =
   createServiceToken<IQueueStorage<any, any>>("jobqueue.storage.sqlite");
 
+// Status of a prerequisite in a dependency join: one that no longer exists counts as failed
+const DEPENDENCY_STATUS_SQL = `COALESCE(dep.status, '${JobStatus.FAILED}')`;
+
+// Columns added after the first table layout; setupDatabase() adds them to older tables
+const ADDED_COLUMNS: ReadonlyArray<readonly [name: string, definition: string]> = [
+  ["priority", "INTEGER NOT NULL default 0"],
+  ["error_history", "TEXT NULL"],
+  ["lease_expires_at", "TEXT"],
+  ["depends_on", "TEXT NULL"],
+  ["on_dependency_failure", "TEXT NOT NULL default 'cancel'"],
+];
+
 type JobRowWithJsonStrings<Input, Output> = JobStorageFormat<Input, Output> & {
   input: string;
   output: string | null;
   progress_details: string | null;
+  error_history: string | null;
+  depends_on: string | null;
 };
 
 /**
@@ -44,6 +68,8 @@ export class SqliteQueueStorage<Input, Output> implements IQueueStorage<Input, O
   protected readonly prefixValues: Readonly<Record<string, string | number>>;
   /** The table name for the job queue */
   protected readonly tableName: string;
+  /** Milliseconds a pending job waits to gain one priority level (0 = no aging) */
+  protected readonly priorityAgingMs: number;
 
   constructor(
     protected db: Sqlite.Database,
@@ -52,6 +78,7 @@ export class SqliteQueueStorage<Input, Output> implements IQueueStorage<Input, O
   ) {
     this.prefixes = options?.prefixes ?? [];
     this.prefixValues = options?.prefixValues ?? {};
+    this.priorityAgingMs = getPriorityAgingMs(options);
     // Generate table name based on prefix configuration to avoid column conflicts
     if (this.prefixes.length > 0) {
       const prefixNames = this.prefixes.map((p) => p.name).join("_");
@@ -106,6 +133,68 @@ export class SqliteQueueStorage<Input, Output> implements IQueueStorage<Input, O
     return this.prefixes.map((p) => this.prefixValues[p.name]);
   }
 
+  /**
+   * Builds the WHERE condition that limits a write to a job still held by the
+   * given worker (no condition when `workerId` is undefined)
+   */
+  private buildWorkerWhereClause(workerId: string | undefined): {
+    conditions: string;
+    params: string[];
+  } {
+    if (workerId === undefined) {
+      return { conditions: "", params: [] };
+    }
+    return { conditions: " AND worker_id = ?", params: [workerId] };
+  }
+
+  /**
+   * Builds the ORDER BY expression used to pick the next job: highest priority
+   * first, where a job gains one level per aging interval it has been waiting.
+   */
+  private buildNextOrderBy(): string {
+    if (this.priorityAgingMs === 0) {
+      return "priority DESC, run_after ASC";
+    }
+    // priorityAgingMs is a validated integer, so it is safe to inline
+    return `priority + CAST((julianday('now') - julianday(run_after)) * 86400000 / ${this.priorityAgingMs} AS INTEGER) DESC, run_after ASC`;
+  }
+
+  /**
+   * Builds the FROM clause that joins the jobs a job of this table depends on (as `dep`),
+   * restricted to the same queue and prefix values. A prerequisite that no longer exists
+   * (e.g. dead-lettered or deleted) yields a row whose `dep` columns are NULL.
+   */
+  private buildDependencyJoinSql(): string {
+    const prefixJoin = this.getPrefixColumnNames()
+      .map((name) => ` AND dep.${name} = ${this.tableName}.${name}`)
+      .join("");
+    return `FROM json_each(${this.tableName}.depends_on) AS d
+          LEFT JOIN ${this.tableName} AS dep ON dep.id = d.value
+            AND dep.queue = ${this.tableName}.queue${prefixJoin}`;
+  }
+
+  /**
+   * Builds the condition that the prerequisites of a job are met: none of them is
+   * unfinished, or with the "cancel" policy, anything but COMPLETED. Prerequisites
+   * that no longer exist count as failed.
+   */
+  private buildDependenciesMetSql(): string {
+    return `(depends_on IS NULL OR NOT EXISTS (
+          SELECT 1 ${this.buildDependencyJoinSql()}
+          WHERE ${DEPENDENCY_STATUS_SQL} <> '${JobStatus.COMPLETED}'
+          AND (${this.tableName}.on_dependency_failure <> 'run'
+            OR ${DEPENDENCY_STATUS_SQL} NOT IN ('${JobStatus.FAILED}', '${JobStatus.DISABLED}'))
+        ))`;
+  }
+
+  /**
+   * Runs `fn` in a transaction on the SQLite connection, shared with every
+   * storage that uses it
+   */
+  public async withTransaction<T>(fn: () => Promise<T>): Promise<T> {
+    return await runSqliteTransaction(this.db, fn);
+  }
+
   public async setupDatabase(): Promise<void> {
     await sleep(0);
     const prefixColumnsSql = this.buildPrefixColumnsSql();
@@ -125,6 +214,7 @@ export class SqliteQueueStorage<Input, Output> implements IQueueStorage<Input, O
         output TEXT,
         run_attempts INTEGER default 0,
         max_retries INTEGER default 23,
+        priority INTEGER NOT NULL default 0,
         run_after TEXT NOT NULL,
         last_ran_at TEXT,
         created_at TEXT NOT NULL,
@@ -135,13 +225,36 @@ export class SqliteQueueStorage<Input, Output> implements IQueueStorage<Input, O
         progress REAL DEFAULT 0,
         progress_message TEXT DEFAULT '',
         progress_details TEXT NULL,
-        worker_id TEXT
+        error_history TEXT NULL,
+        worker_id TEXT,
+        lease_expires_at TEXT,
+        depends_on TEXT NULL,
+        on_dependency_failure TEXT NOT NULL default 'cancel'
       );
       
       CREATE INDEX IF NOT EXISTS job_queue_fetcher${indexSuffix}_idx ON ${this.tableName} (${prefixIndexPrefix}queue, status, run_after);
       CREATE INDEX IF NOT EXISTS job_queue_fingerprint${indexSuffix}_idx ON ${this.tableName} (${prefixIndexPrefix}queue, fingerprint, status);
       CREATE INDEX IF NOT EXISTS job_queue_job_run_id${indexSuffix}_idx ON ${this.tableName} (${prefixIndexPrefix}queue, job_run_id);
     `);
+    this.addMissingColumns();
+  }
+
+  /**
+   * Adds the columns of {@link ADDED_COLUMNS} that a table created by an older
+   * version lacks, as CREATE TABLE IF NOT EXISTS leaves existing tables alone
+   */
+  private addMissingColumns(): void {
+    const existing = new Set(
+      this.db
+        .prepare<[], { name: string }>(`PRAGMA table_info(${this.tableName})`)
+        .all()
+        .map((column) => column.name)
+    );
+    for (const [name, definition] of ADDED_COLUMNS) {
+      if (!existing.has(name)) {
+        this.db.exec(`ALTER TABLE ${this.tableName} ADD COLUMN ${name} ${definition}`);
+      }
+    }
   }
 
   /**
@@ -154,12 +267,15 @@ export class SqliteQueueStorage<Input, Output> implements IQueueStorage<Input, O
     job.job_run_id = job.job_run_id ?? uuid4();
     job.queue = this.queueName;
     job.fingerprint = await makeFingerprint(job.input);
+    job.priority = job.priority ?? DEFAULT_JOB_PRIORITY;
     job.status = JobStatus.PENDING;
     job.progress = 0;
     job.progress_message = "";
     job.progress_details = null;
     job.created_at = now;
-    job.run_after = now;
+    job.run_after = job.run_after ?? now;
+    job.depends_on = job.depends_on?.length ? [...job.depends_on] : null;
+    job.on_dependency_failure = job.on_dependency_failure ?? DEFAULT_JOB_DEPENDENCY_FAILURE_POLICY;
 
     const prefixColumnNames = this.getPrefixColumnNames();
     const prefixColumnsInsert =
@@ -176,34 +292,119 @@ export class SqliteQueueStorage<Input, Output> implements IQueueStorage<Input, O
         run_after, 
         deadline_at, 
         max_retries, 
+        priority,
         job_run_id, 
         progress, 
         progress_message, 
         progress_details,
-        created_at
+        created_at,
+        depends_on,
+        on_dependency_failure
+      )
+      VALUES (${prefixPlaceholders}?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      RETURNING id`;
+
+    return await runSqliteWrite(this.db, () => {
+      const stmt = this.db.prepare<unknown[], { id: string }>(AddQuery);
+
+      const result = stmt.get(
+        ...prefixParamValues,
+        job.queue,
+        job.fingerprint,
+        JSON.stringify(job.input),
+        job.run_after,
+        job.deadline_at ?? null,
+        job.max_retries!,
+        job.priority,
+        job.job_run_id,
+        job.progress,
+        job.progress_message,
+        job.progress_details ? JSON.stringify(job.progress_details) : null,
+        job.created_at,
+        job.depends_on ? JSON.stringify(job.depends_on) : null,
+        job.on_dependency_failure
+      ) as { id: string } | undefined;
+
+      job.id = result?.id;
+      return result?.id;
+    });
+  }
+
+  /**
+   * Adds a job that has already finished, keeping its status, attempts and timestamps.
+   * @param job - The finished job
+   * @returns The ID of the added job
+   */
+  public async addFinished(job: JobStorageFormat<Input, Output>): Promise<unknown> {
+    const record = finishedJobRecord(job, new Date().toISOString());
+    const fingerprint = await makeFingerprint(record.input);
+
+    const prefixColumnNames = this.getPrefixColumnNames();
+    const prefixColumnsInsert =
+      prefixColumnNames.length > 0 ? prefixColumnNames.join(", ") + ", " : "";
+    const prefixPlaceholders =
+      prefixColumnNames.length > 0 ? prefixColumnNames.map(() => "?").join(", ") + ", " : "";
+    const prefixParamValues = this.getPrefixParamValues();
+
+    const AddFinishedQuery = `
+      INSERT INTO ${this.tableName}(
+        ${prefixColumnsInsert}queue,
+        fingerprint,
+        job_run_id,
+        status,
+        input,
+        output,
+        run_attempts,
+        max_retries,
+        priority,
+        run_after,
+        last_ran_at,
+        created_at,
+        completed_at,
+        deadline_at,
+        error,
+        error_code,
+        progress,
+        progress_message,
+        progress_details,
+        error_history,
+        worker_id,
+        depends_on,
+        on_dependency_failure
       )
-      VALUES (${prefixPlaceholders}?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      VALUES (${prefixPlaceholders}?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       RETURNING id`;
 
-    const stmt = this.db.prepare<unknown[], { id: string }>(AddQuery);
-
-    const result = stmt.get(
-      ...prefixParamValues,
-      job.queue,
-      job.fingerprint,
-      JSON.stringify(job.input),
-      job.run_after,
-      job.deadline_at ?? null,
-      job.max_retries!,
-      job.job_run_id,
-      job.progress,
-      job.progress_message,
-      job.progress_details ? JSON.stringify(job.progress_details) : null,
-      job.created_at
-    ) as { id: string } | undefined;
-
-    job.id = result?.id;
-    return result?.id;
+    return await runSqliteWrite(this.db, () => {
+      const stmt = this.db.prepare<unknown[], { id: string }>(AddFinishedQuery);
+      const result = stmt.get(
+        ...prefixParamValues,
+        this.queueName,
+        fingerprint,
+        record.job_run_id,
+        record.status,
+        JSON.stringify(record.input),
+        record.output !== null ? JSON.stringify(record.output) : null,
+        record.run_attempts,
+        record.max_retries,
+        record.priority,
+        record.run_after,
+        record.last_ran_at,
+        record.created_at,
+        record.completed_at,
+        record.deadline_at,
+        record.error,
+        record.error_code,
+        record.progress,
+        record.progress_message,
+        record.progress_details ? JSON.stringify(record.progress_details) : null,
+        record.error_history ? JSON.stringify(record.error_history) : null,
+        record.worker_id,
+        record.depends_on ? JSON.stringify(record.depends_on) : null,
+        record.on_dependency_failure
+      ) as { id: string } | undefined;
+      return result?.id;
+    });
   }
 
   /**
@@ -226,6 +427,8 @@ export class SqliteQueueStorage<Input, Output> implements IQueueStorage<Input, O
         input: string;
         output: string | null;
         progress_details: string | null;
+        error_history: string | null;
+        depends_on: string | null;
       }
     >(JobQuery);
     const result = stmt.get(String(id), this.queueName, ...prefixParams);
@@ -235,6 +438,8 @@ export class SqliteQueueStorage<Input, Output> implements IQueueStorage<Input, O
     if (result.input) result.input = JSON.parse(result.input);
     if (result.output) result.output = JSON.parse(result.output);
     if (result.progress_details) result.progress_details = JSON.parse(result.progress_details);
+    if (result.error_history) result.error_history = JSON.parse(result.error_history);
+    if (result.depends_on) result.depends_on = JSON.parse(result.depends_on);
     return result;
   }
 
@@ -264,6 +469,8 @@ export class SqliteQueueStorage<Input, Output> implements IQueueStorage<Input, O
         input: string;
         output: string | null;
         progress_details: string | null;
+        error_history: string | null;
+        depends_on: string | null;
       }
     >(FutureJobQuery);
     const result = stmt.all(this.queueName, status, ...prefixParams);
@@ -272,6 +479,8 @@ export class SqliteQueueStorage<Input, Output> implements IQueueStorage<Input, O
       if (details.input) details.input = JSON.parse(details.input);
       if (details.output) details.output = JSON.parse(details.output);
       if (details.progress_details) details.progress_details = JSON.parse(details.progress_details);
+      if (details.error_history) details.error_history = JSON.parse(details.error_history);
+      if (details.depends_on) details.depends_on = JSON.parse(details.depends_on);
 
       return details;
     });
@@ -291,8 +500,10 @@ export class SqliteQueueStorage<Input, Output> implements IQueueStorage<Input, O
       UPDATE ${this.tableName}
         SET status = ?  
         WHERE id = ? AND queue = ?${prefixConditions}`;
-    const stmt = this.db.prepare(AbortQuery);
-    stmt.run(JobStatus.ABORTING, String(jobId), this.queueName, ...prefixParams);
+    await runSqliteWrite(this.db, () => {
+      const stmt = this.db.prepare(AbortQuery);
+      stmt.run(JobStatus.ABORTING, String(jobId), this.queueName, ...prefixParams);
+    });
   }
 
   /**
@@ -314,6 +525,8 @@ export class SqliteQueueStorage<Input, Output> implements IQueueStorage<Input, O
         input: string;
         output: string | null;
         progress_details: string | null;
+        error_history: string | null;
+        depends_on: string | null;
       }
     >(JobsByRunIdQuery);
     const result = stmt.all(job_run_id, this.queueName, ...prefixParams);
@@ -322,6 +535,8 @@ export class SqliteQueueStorage<Input, Output> implements IQueueStorage<Input, O
       if (details.input) details.input = JSON.parse(details.input);
       if (details.output) details.output = JSON.parse(details.output);
       if (details.progress_details) details.progress_details = JSON.parse(details.progress_details);
+      if (details.error_history) details.error_history = JSON.parse(details.error_history);
+      if (details.depends_on) details.depends_on = JSON.parse(details.depends_on);
 
       return details;
     });
@@ -332,53 +547,119 @@ export class SqliteQueueStorage<Input, Output> implements IQueueStorage<Input, O
    * and updates its status to PROCESSING.
    *
    * @param workerId - Worker ID to associate with the job
+   * @param leaseMs - Duration of the claim's lease
    * @returns The next job or undefined if no job is available
    */
-  public async next(workerId: string): Promise<JobStorageFormat<Input, Output> | undefined> {
-    const now = new Date().toISOString();
+  public async next(
+    workerId: string,
+    leaseMs: number = DEFAULT_JOB_LEASE_MS
+  ): Promise<JobStorageFormat<Input, Output> | undefined> {
+    const nowMs = Date.now();
+    const now = new Date(nowMs).toISOString();
+    const leaseExpiresAt = new Date(nowMs + leaseMs).toISOString();
     const prefixConditions = this.buildPrefixWhereClause();
     const prefixParams = this.getPrefixParamValues();
 
-    // Then, get the next job to process
-    const stmt = this.db.prepare<
-      unknown[],
-      JobStorageFormat<Input, Output> & {
-        input: string;
-        output: string | null;
-        progress_details: string | null;
-      }
-    >(
-      `
-      UPDATE ${this.tableName} 
-      SET status = ?, last_ran_at = ?, worker_id = ?
-      WHERE id = (
-        SELECT id 
-        FROM ${this.tableName} 
-        WHERE queue = ? 
-        AND status = ?${prefixConditions}
-        AND run_after <= ? 
-        ORDER BY run_after ASC 
-        LIMIT 1
-      )
-      RETURNING *`
-    );
-    const result = stmt.get(
-      JobStatus.PROCESSING,
-      now,
-      workerId,
-      this.queueName,
-      JobStatus.PENDING,
-      ...prefixParams,
-      now
-    );
-    if (!result) return undefined;
+    return await runSqliteWrite(this.db, () => {
+      const stmt = this.db.prepare<
+        unknown[],
+        JobStorageFormat<Input, Output> & {
+          input: string;
+          output: string | null;
+          progress_details: string | null;
+          error_history: string | null;
+          depends_on: string | null;
+        }
+      >(
+        `
+        UPDATE ${this.tableName} 
+        SET status = ?, last_ran_at = ?, worker_id = ?, lease_expires_at = ?
+        WHERE id = (
+          SELECT id 
+          FROM ${this.tableName} 
+          WHERE queue = ? 
+          AND status = ?${prefixConditions}
+          AND run_after <= ? 
+          AND ${this.buildDependenciesMetSql()}
+          ORDER BY ${this.buildNextOrderBy()} 
+          LIMIT 1
+        )
+        RETURNING *`
+      );
+      const result = stmt.get(
+        JobStatus.PROCESSING,
+        now,
+        workerId,
+        leaseExpiresAt,
+        this.queueName,
+        JobStatus.PENDING,
+        ...prefixParams,
+        now
+      );
+      if (!result) return undefined;
 
-    // Parse JSON fields
-    if (result.input) result.input = JSON.parse(result.input);
-    if (result.output) result.output = JSON.parse(result.output);
-    if (result.progress_details) result.progress_details = JSON.parse(result.progress_details);
+      // Parse JSON fields
+      if (result.input) result.input = JSON.parse(result.input);
+      if (result.output) result.output = JSON.parse(result.output);
+      if (result.progress_details) result.progress_details = JSON.parse(result.progress_details);
+      if (result.error_history) result.error_history = JSON.parse(result.error_history);
+      if (result.depends_on) result.depends_on = JSON.parse(result.depends_on);
 
-    return result;
+      return result;
+    });
+  }
+
+  /**
+   * Fails pending jobs whose prerequisites failed, repeating until no more dependents are affected
+   * @returns The cancelled jobs
+   */
+  public async cancelFailedDependents(): Promise<Array<JobStorageFormat<Input, Output>>> {
+    const prefixConditions = this.buildPrefixWhereClause();
+    const prefixParams = this.getPrefixParamValues();
+
+    const CancelQuery = `
+      UPDATE ${this.tableName}
+        SET status = ?,
+            error = ?,
+            error_code = ?,
+            progress = 100,
+            progress_message = '',
+            progress_details = NULL,
+            completed_at = ?
+        WHERE queue = ? AND status = ? AND depends_on IS NOT NULL
+          AND on_dependency_failure <> 'run'${prefixConditions}
+          AND EXISTS (
+            SELECT 1 ${this.buildDependencyJoinSql()}
+            WHERE ${DEPENDENCY_STATUS_SQL} IN (?, ?)
+          )
+        RETURNING *`;
+    return await runSqliteWrite(this.db, () => {
+      const stmt = this.db.prepare<unknown[], JobRowWithJsonStrings<Input, Output>>(CancelQuery);
+
+      const cancelled: Array<JobStorageFormat<Input, Output>> = [];
+      while (true) {
+        const rows = stmt.all(
+          JobStatus.FAILED,
+          JOB_DEPENDENCY_FAILED_ERROR,
+          JOB_DEPENDENCY_FAILED_ERROR_CODE,
+          new Date().toISOString(),
+          this.queueName,
+          JobStatus.PENDING,
+          ...prefixParams,
+          JobStatus.FAILED,
+          JobStatus.DISABLED
+        );
+        if (rows.length === 0) break;
+        for (const details of rows) {
+          if (details.input) details.input = JSON.parse(details.input);
+          if (details.output) details.output = JSON.parse(details.output);
+          if (details.error_history) details.error_history = JSON.parse(details.error_history);
+          if (details.depends_on) details.depends_on = JSON.parse(details.depends_on);
+          cancelled.push(details);
+        }
+      }
+      return cancelled;
+    });
   }
 
   /**
@@ -407,11 +688,13 @@ export class SqliteQueueStorage<Input, Output> implements IQueueStorage<Input, O
    * - For a retryable error, updates run_after with the retry date.
    * - Marks the job as FAILED for permanent or generic errors.
    * - Marks the job as DISABLED for disabled jobs.
+   * With a `workerId`, the job is left alone unless that worker still holds it.
    */
-  public async complete(job: JobStorageFormat<Input, Output>): Promise<void> {
+  public async complete(job: JobStorageFormat<Input, Output>, workerId?: string): Promise<boolean> {
     const now = new Date().toISOString();
     const prefixConditions = this.buildPrefixWhereClause();
     const prefixParams = this.getPrefixParamValues();
+    const worker = this.buildWorkerWhereClause(workerId);
 
     let updateQuery: string;
     let params: Array<string | number | null>;
@@ -423,9 +706,17 @@ export class SqliteQueueStorage<Input, Output> implements IQueueStorage<Input, O
               progress = 100, 
               progress_message = '', 
               progress_details = NULL, 
+              lease_expires_at = NULL, 
               completed_at = ?  
-            WHERE id = ? AND queue = ?${prefixConditions}`;
-      params = [job.status, now, job.id as string, this.queueName, ...prefixParams];
+            WHERE id = ? AND queue = ?${prefixConditions}${worker.conditions}`;
+      params = [
+        job.status,
+        now,
+        job.id as string,
+        this.queueName,
+        ...prefixParams,
+        ...worker.params,
+      ];
     } else {
       updateQuery = `
           UPDATE ${this.tableName} 
@@ -433,28 +724,34 @@ export class SqliteQueueStorage<Input, Output> implements IQueueStorage<Input, O
               output = ?, 
               error = ?, 
               error_code = ?, 
+              error_history = ?, 
               status = ?, 
               progress = 100, 
               progress_message = '', 
               progress_details = NULL, 
+              lease_expires_at = NULL, 
               last_ran_at = ?,
               completed_at = ?,
               run_attempts = run_attempts + 1
-            WHERE id = ? AND queue = ?${prefixConditions}`;
+            WHERE id = ? AND queue = ?${prefixConditions}${worker.conditions}`;
       params = [
         job.output ? JSON.stringify(job.output) : null,
         job.error ?? null,
         job.error_code ?? null,
+        job.error_history ? JSON.stringify(job.error_history) : null,
         job.status!,
         now,
         now,
         job.id as string,
         this.queueName,
         ...prefixParams,
+        ...worker.params,
       ];
     }
-    const stmt = this.db.prepare(updateQuery);
-    stmt.run(...params);
+    return await runSqliteWrite(this.db, () => {
+      const stmt = this.db.prepare(updateQuery);
+      return stmt.run(...params).changes > 0;
+    });
   }
 
   public async deleteAll(): Promise<void> {
@@ -464,8 +761,10 @@ export class SqliteQueueStorage<Input, Output> implements IQueueStorage<Input, O
     const ClearQuery = `
       DELETE FROM ${this.tableName}
         WHERE queue = ?${prefixConditions}`;
-    const stmt = this.db.prepare(ClearQuery);
-    stmt.run(this.queueName, ...prefixParams);
+    await runSqliteWrite(this.db, () => {
+      const stmt = this.db.prepare(ClearQuery);
+      stmt.run(this.queueName, ...prefixParams);
+    });
   }
 
   /**
@@ -488,33 +787,140 @@ export class SqliteQueueStorage<Input, Output> implements IQueueStorage<Input, O
   }
 
   /**
-   * Implements the abstract saveProgress method from JobQueue
+   * Implements the abstract saveProgress method from JobQueue. With a `workerId`, the
+   * progress is only saved while that worker still holds the job.
    */
   public async saveProgress(
     jobId: unknown,
     progress: number,
     message: string,
-    details: Record<string, any>
-  ): Promise<void> {
+    details: Record<string, any>,
+    workerId?: string
+  ): Promise<boolean> {
     const prefixConditions = this.buildPrefixWhereClause();
     const prefixParams = this.getPrefixParamValues();
+    const worker = this.buildWorkerWhereClause(workerId);
 
     const UpdateProgressQuery = `
       UPDATE ${this.tableName}
         SET progress = ?,
             progress_message = ?,
             progress_details = ?
-        WHERE id = ? AND queue = ?${prefixConditions}`;
+        WHERE id = ? AND queue = ?${prefixConditions}${worker.conditions}`;
+
+    return await runSqliteWrite(this.db, () => {
+      const stmt = this.db.prepare(UpdateProgressQuery);
+      const result = stmt.run(
+        progress,
+        message,
+        JSON.stringify(details),
+        String(jobId),
+        this.queueName,
+        ...prefixParams,
+        ...worker.params
+      );
+      return result.changes > 0;
+    });
+  }
 
-    const stmt = this.db.prepare(UpdateProgressQuery);
-    stmt.run(
-      progress,
-      message,
-      JSON.stringify(details),
-      String(jobId),
-      this.queueName,
-      ...prefixParams
-    );
+  /**
+   * Extends the lease of a job that is still claimed by the given worker
+   * @param jobId - The ID of the job
+   * @param workerId - The worker that holds the lease
+   * @param leaseMs - New lease duration from now
+   * @returns false if the worker no longer holds the job
+   */
+  public async renewLease(
+    jobId: unknown,
+    workerId: string,
+    leaseMs: number = DEFAULT_JOB_LEASE_MS
+  ): Promise<boolean> {
+    const prefixConditions = this.buildPrefixWhereClause();
+    const prefixParams = this.getPrefixParamValues();
+
+    const RenewLeaseQuery = `
+      UPDATE ${this.tableName}
+        SET lease_expires_at = ?
+        WHERE id = ? AND queue = ? AND worker_id = ? AND status IN (?, ?)${prefixConditions}`;
+
+    return await runSqliteWrite(this.db, () => {
+      const stmt = this.db.prepare(RenewLeaseQuery);
+      const result = stmt.run(
+        new Date(Date.now() + leaseMs).toISOString(),
+        String(jobId),
+        this.queueName,
+        workerId,
+        JobStatus.PROCESSING,
+        JobStatus.ABORTING,
+        ...prefixParams
+      );
+      return result.changes > 0;
+    });
+  }
+
+  /**
+   * Puts PROCESSING jobs whose lease has expired back in the queue, counting the
+   * abandoned run as a failed attempt (or fails them once their retries are exhausted)
+   * @returns The jobs that failed
+   */
+  public async reclaimExpiredLeases(): Promise<Array<JobStorageFormat<Input, Output>>> {
+    const now = new Date().toISOString();
+    const prefixConditions = this.buildPrefixWhereClause();
+    const prefixParams = this.getPrefixParamValues();
+
+    const ReclaimQuery = `
+      UPDATE ${this.tableName}
+        SET status = CASE WHEN run_attempts >= max_retries THEN ? ELSE ? END,
+            error = CASE WHEN run_attempts >= max_retries THEN 'Max retries reached' ELSE ? END,
+            error_code = CASE WHEN run_attempts >= max_retries THEN 'MAX_RETRIES_REACHED' ELSE ? END,
+            completed_at = CASE WHEN run_attempts >= max_retries THEN ? ELSE completed_at END,
+            progress = CASE WHEN run_attempts >= max_retries THEN 100 ELSE 0 END,
+            progress_message = '',
+            progress_details = NULL,
+            error_history = json_insert(
+              COALESCE(error_history, '[]'),
+              '$[#]',
+              json_object(
+                'attempt', run_attempts + 1,
+                'error', ?,
+                'error_code', ?,
+                'worker_id', worker_id,
+                'failed_at', ?
+              )
+            ),
+            run_attempts = run_attempts + 1,
+            worker_id = NULL,
+            lease_expires_at = NULL
+        WHERE queue = ? AND status = ? AND lease_expires_at < ?${prefixConditions}
+        RETURNING *`;
+
+    return await runSqliteWrite(this.db, () => {
+      const stmt = this.db.prepare<unknown[], JobRowWithJsonStrings<Input, Output>>(ReclaimQuery);
+      const rows = stmt.all(
+        JobStatus.FAILED,
+        JobStatus.PENDING,
+        JOB_LEASE_EXPIRED_ERROR,
+        JOB_LEASE_EXPIRED_ERROR_CODE,
+        now,
+        JOB_LEASE_EXPIRED_ERROR,
+        JOB_LEASE_EXPIRED_ERROR_CODE,
+        now,
+        this.queueName,
+        JobStatus.PROCESSING,
+        now,
+        ...prefixParams
+      );
+      const failed: Array<JobStorageFormat<Input, Output>> = [];
+      for (const details of rows) {
+        if (details.status !== JobStatus.FAILED) continue;
+        if (details.input) details.input = JSON.parse(details.input);
+        if (details.output) details.output = JSON.parse(details.output);
+        if (details.error_history) details.error_history = JSON.parse(details.error_history);
+        if (details.depends_on) details.depends_on = JSON.parse(details.depends_on);
+        failed.push(details);
+      }
+      return failed;
+    });
   }
 
   /**
@@ -527,8 +933,10 @@ export class SqliteQueueStorage<Input, Output> implements IQueueStorage<Input, O
     const DeleteQuery = `
       DELETE FROM ${this.tableName}
         WHERE id = ? AND queue = ?${prefixConditions}`;
-    const stmt = this.db.prepare(DeleteQuery);
-    stmt.run(String(jobId), this.queueName, ...prefixParams);
+    await runSqliteWrite(this.db, () => {
+      const stmt = this.db.prepare(DeleteQuery);
+      stmt.run(String(jobId), this.queueName, ...prefixParams);
+    });
   }
 
   /**
@@ -547,8 +955,10 @@ export class SqliteQueueStorage<Input, Output> implements IQueueStorage<Input, O
         AND status = ?
         AND completed_at IS NOT NULL
         AND completed_at <= ?${prefixConditions}`;
-    const stmt = this.db.prepare(DeleteQuery);
-    stmt.run(this.queueName, status, cutoffDate, ...prefixParams);
+    await runSqliteWrite(this.db, () => {
+      const stmt = this.db.prepare(DeleteQuery);
+      stmt.run(this.queueName, status, cutoffDate, ...prefixParams);
+    });
   }
 
   /**
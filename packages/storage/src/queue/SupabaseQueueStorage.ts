@@ -8,7 +8,16 @@ import type { RealtimeChannel, SupabaseClient } from "@supabase/supabase-js";
 import { createServiceToken, deepEqual, makeFingerprint, uuid4 } from "@workglow/util";
 import { PollingSubscriptionManager } from "../util/PollingSubscriptionManager";
 import {
+  DEFAULT_JOB_DEPENDENCY_FAILURE_POLICY,
+  DEFAULT_JOB_LEASE_MS,
+  DEFAULT_JOB_PRIORITY,
+  finishedJobRecord,
+  getPriorityAgingMs,
   IQueueStorage,
+  JOB_DEPENDENCY_FAILED_ERROR,
+  JOB_DEPENDENCY_FAILED_ERROR_CODE,
+  JOB_LEASE_EXPIRED_ERROR,
+  JOB_LEASE_EXPIRED_ERROR_CODE,
   JobStatus,
   JobStorageFormat,
   PrefixColumn,
@@ -22,6 +31,18 @@ export const SUPABASE_QUEUE_STORAGE = createServiceToken<IQueueStorage<any, any>
   "jobqueue.storage.supabase"
 );
 
+// Status of a prerequisite in a dependency join: one that no longer exists counts as failed
+const DEPENDENCY_STATUS_SQL = `COALESCE(dep.status, '${JobStatus.FAILED}')`;
+
+// Columns added after the first table layout; setupDatabase() adds them to older tables
+const ADDED_COLUMNS: ReadonlyArray<readonly [name: string, definition: string]> = [
+  ["priority", "integer NOT NULL default 0"],
+  ["error_history", "jsonb"],
+  ["lease_expires_at", "timestamp with time zone"],
+  ["depends_on", "jsonb"],
+  ["on_dependency_failure", "text NOT NULL default 'cancel'"],
+];
+
 /**
  * Supabase implementation of a job queue.
  * Provides storage and retrieval for job execution states using Supabase.
@@ -31,6 +52,8 @@ export class SupabaseQueueStorage<Input, Output> implements IQueueStorage<Input,
   protected readonly prefixes: readonly PrefixColumn[];
   protected readonly prefixValues: Readonly<Record<string, string | number>>;
   protected readonly tableName: string;
+  /** Milliseconds a pending job waits to gain one priority level (0 = no aging) */
+  protected readonly priorityAgingMs: number;
   private realtimeChannel: RealtimeChannel | null = null;
   private pollingManager: PollingSubscriptionManager<
     JobStorageFormat<Input, Output>,
@@ -46,6 +69,7 @@ export class SupabaseQueueStorage<Input, Output> implements IQueueStorage<Input,
     this.client = client as SupabaseClient;
     this.prefixes = options?.prefixes ?? [];
     this.prefixValues = options?.prefixValues ?? {};
+    this.priorityAgingMs = getPriorityAgingMs(options);
     // Generate table name based on prefix configuration to avoid column conflicts
     if (this.prefixes.length > 0) {
       const prefixNames = this.prefixes.map((p) => p.name).join("_");
@@ -92,6 +116,20 @@ export class SupabaseQueueStorage<Input, Output> implements IQueueStorage<Input,
     return result as T;
   }
 
+  /**
+   * Runs an update of one job, limited to a job still held by `workerId` when it is given
+   * @returns Whether the job was updated
+   */
+  private async runJobUpdate<T>(query: T, workerId: string | undefined): Promise<boolean> {
+    let result = this.applyPrefixFilters(query) as any;
+    if (workerId !== undefined) {
+      result = result.eq("worker_id", workerId);
+    }
+    const { data, error } = await result.select("id");
+    if (error) throw error;
+    return Array.isArray(data) && data.length > 0;
+  }
+
   /**
    * Gets prefix values as an object for inserts
    */
@@ -128,6 +166,46 @@ export class SupabaseQueueStorage<Input, Output> implements IQueueStorage<Input,
     return " AND " + conditions;
   }
 
+  /**
+   * Builds the ORDER BY expression used to pick the next job: highest priority
+   * first, where a job gains one level per aging interval it has been waiting.
+   */
+  private buildNextOrderBy(): string {
+    if (this.priorityAgingMs === 0) {
+      return "priority DESC, run_after ASC";
+    }
+    // priorityAgingMs is a validated integer, so it is safe to inline
+    return `priority + FLOOR(EXTRACT(EPOCH FROM (NOW() - run_after)) * 1000 / ${this.priorityAgingMs}) DESC, run_after ASC`;
+  }
+
+  /**
+   * Builds the FROM clause that joins the jobs a job of this table depends on (as `dep`),
+   * restricted to the same queue and prefix values. A prerequisite that no longer exists
+   * (e.g. dead-lettered or deleted) yields a row whose `dep` columns are NULL.
+   */
+  private buildDependencyJoinSql(): string {
+    const prefixJoin = this.getPrefixColumnNames()
+      .map((name) => ` AND dep.${name} = ${this.tableName}.${name}`)
+      .join("");
+    return `FROM jsonb_array_elements_text(${this.tableName}.depends_on) AS d(dep_id)
+          LEFT JOIN ${this.tableName} AS dep ON dep.id::text = d.dep_id
+            AND dep.queue = ${this.tableName}.queue${prefixJoin}`;
+  }
+
+  /**
+   * Builds the condition that the prerequisites of a job are met: none of them is
+   * unfinished, or with the "cancel" policy, anything but COMPLETED. Prerequisites
+   * that no longer exist count as failed.
+   */
+  private buildDependenciesMetSql(): string {
+    return `(depends_on IS NULL OR NOT EXISTS (
+          SELECT 1 ${this.buildDependencyJoinSql()}
+          WHERE ${DEPENDENCY_STATUS_SQL} <> '${JobStatus.COMPLETED}'
+          AND (${this.tableName}.on_dependency_failure <> 'run'
+            OR ${DEPENDENCY_STATUS_SQL} NOT IN ('${JobStatus.FAILED}', '${JobStatus.DISABLED}'))
+        ))`;
+  }
+
   /**
    * Regex for validating SQL literal-safe strings.
    * Used for quoted values (e.g. queue names/IDs) and only allows alphanumeric
@@ -155,6 +233,14 @@ export class SupabaseQueueStorage<Input, Output> implements IQueueStorage<Input,
     return value.replace(/'/g, "''");
   }
 
+  /**
+   * Runs `fn` without a transaction: the Supabase client sends each request
+   * on its own, so writes apply as they happen and none are rolled back.
+   */
+  public async withTransaction<T>(fn: () => Promise<T>): Promise<T> {
+    return await fn();
+  }
+
   public async setupDatabase(): Promise<void> {
     // Note: For Supabase, table creation should typically be done through migrations
     // This setup assumes the table already exists or uses exec_sql RPC function
@@ -185,6 +271,7 @@ export class SupabaseQueueStorage<Input, Output> implements IQueueStorage<Input,
       output jsonb,
       run_attempts integer default 0,
       max_retries integer default 20,
+      priority integer NOT NULL default 0,
       run_after timestamp with time zone DEFAULT now(),
       last_ran_at timestamp with time zone,
       created_at timestamp with time zone DEFAULT now(),
@@ -195,7 +282,11 @@ export class SupabaseQueueStorage<Input, Output> implements IQueueStorage<Input,
       progress real DEFAULT 0,
       progress_message text DEFAULT '',
       progress_details jsonb,
-      worker_id text
+      error_history jsonb,
+      worker_id text,
+      lease_expires_at timestamp with time zone,
+      depends_on jsonb,
+      on_dependency_failure text NOT NULL default 'cancel'
     )`;
 
     const { error: tableError } = await this.client.rpc("exec_sql", { query: createTableSql });
@@ -206,6 +297,14 @@ export class SupabaseQueueStorage<Input, Output> implements IQueueStorage<Input,
       }
     }
 
+    // CREATE TABLE IF NOT EXISTS leaves tables of older versions without the newer columns
+    for (const [name, definition] of ADDED_COLUMNS) {
+      const { error: columnError } = await this.client.rpc("exec_sql", {
+        query: `ALTER TABLE ${this.tableName} ADD COLUMN IF NOT EXISTS ${name} ${definition}`,
+      });
+      if (columnError) throw columnError;
+    }
+
     // Create indexes with prefix columns prepended
     const indexes = [
       `CREATE INDEX IF NOT EXISTS job_fetcher${indexSuffix}_idx ON ${this.tableName} (${prefixIndexPrefix}id, status, run_after)`,
@@ -229,12 +328,15 @@ export class SupabaseQueueStorage<Input, Output> implements IQueueStorage<Input,
     job.queue = this.queueName;
     job.job_run_id = job.job_run_id ?? uuid4();
     job.fingerprint = await makeFingerprint(job.input);
+    job.priority = job.priority ?? DEFAULT_JOB_PRIORITY;
     job.status = JobStatus.PENDING;
     job.progress = 0;
     job.progress_message = "";
     job.progress_details = null;
     job.created_at = now;
-    job.run_after = now;
+    job.run_after = job.run_after ?? now;
+    job.depends_on = job.depends_on?.length ? [...job.depends_on] : null;
+    job.on_dependency_failure = job.on_dependency_failure ?? DEFAULT_JOB_DEPENDENCY_FAILURE_POLICY;
 
     const prefixInsertValues = this.getPrefixInsertValues();
 
@@ -249,10 +351,13 @@ export class SupabaseQueueStorage<Input, Output> implements IQueueStorage<Input,
         created_at: job.created_at,
         deadline_at: job.deadline_at,
         max_retries: job.max_retries,
+        priority: job.priority,
         job_run_id: job.job_run_id,
         progress: job.progress,
         progress_message: job.progress_message,
         progress_details: job.progress_details,
+        depends_on: job.depends_on,
+        on_dependency_failure: job.on_dependency_failure,
       })
       .select("id")
       .single();
@@ -264,6 +369,31 @@ export class SupabaseQueueStorage<Input, Output> implements IQueueStorage<Input,
     return job.id;
   }
 
+  /**
+   * Adds a job that has already finished, keeping its status, attempts and timestamps.
+   * @param job - The finished job
+   * @returns The ID of the added job
+   */
+  public async addFinished(job: JobStorageFormat<Input, Output>): Promise<unknown> {
+    const record = finishedJobRecord(job, new Date().toISOString());
+    const fingerprint = await makeFingerprint(record.input);
+
+    const { data, error } = await this.client
+      .from(this.tableName)
+      .insert({
+        ...this.getPrefixInsertValues(),
+        ...record,
+        queue: this.queueName,
+        fingerprint,
+      })
+      .select("id")
+      .single();
+
+    if (error) throw error;
+    if (!data) throw new Error("Failed to add to queue");
+    return data.id;
+  }
+
   /**
    * Retrieves a job by its ID.
    * @param id - The ID of the job to retrieve
@@ -320,8 +450,12 @@ export class SupabaseQueueStorage<Input, Output> implements IQueueStorage<Input,
    * @param workerId - Worker ID to associate with the job (required)
    * @returns The next job or undefined if no job is available
    */
-  public async next(workerId: string): Promise<JobStorageFormat<Input, Output> | undefined> {
+  public async next(
+    workerId: string,
+    leaseMs: number = DEFAULT_JOB_LEASE_MS
+  ): Promise<JobStorageFormat<Input, Output> | undefined> {
     const prefixConditions = this.buildPrefixWhereSql();
+    const validatedLeaseMs = Math.max(0, Math.floor(Number(leaseMs) || 0));
     const validatedQueueName = this.validateSqlValue(this.queueName, "queueName");
     const validatedWorkerId = this.validateSqlValue(workerId, "workerId");
     const escapedQueueName = this.escapeSqlString(validatedQueueName);
@@ -330,7 +464,8 @@ export class SupabaseQueueStorage<Input, Output> implements IQueueStorage<Input,
     // Use the same atomic UPDATE...WHERE id = (SELECT...FOR UPDATE SKIP LOCKED) pattern as PostgresQueueStorage
     const sql = `
       UPDATE ${this.tableName}
-      SET status = '${JobStatus.PROCESSING}', last_ran_at = NOW() AT TIME ZONE 'UTC', worker_id = '${escapedWorkerId}'
+      SET status = '${JobStatus.PROCESSING}', last_ran_at = NOW() AT TIME ZONE 'UTC', worker_id = '${escapedWorkerId}',
+        lease_expires_at = NOW() AT TIME ZONE 'UTC' + INTERVAL '${validatedLeaseMs} milliseconds'
       WHERE id = (
         SELECT id
         FROM ${this.tableName}
@@ -338,7 +473,8 @@ export class SupabaseQueueStorage<Input, Output> implements IQueueStorage<Input,
         AND status = '${JobStatus.PENDING}'
         ${prefixConditions}
         AND run_after <= NOW() AT TIME ZONE 'UTC'
-        ORDER BY run_after ASC
+        AND ${this.buildDependenciesMetSql()}
+        ORDER BY ${this.buildNextOrderBy()}
         FOR UPDATE SKIP LOCKED
         LIMIT 1
       )
@@ -356,6 +492,140 @@ export class SupabaseQueueStorage<Input, Output> implements IQueueStorage<Input,
     return data[0] as JobStorageFormat<Input, Output>;
   }
 
+  /**
+   * Extends the lease of a job that is still claimed by the given worker
+   * @param jobId - The ID of the job
+   * @param workerId - The worker that holds the lease
+   * @param leaseMs - New lease duration from now
+   * @returns false if the worker no longer holds the job
+   */
+  public async renewLease(
+    jobId: unknown,
+    workerId: string,
+    leaseMs: number = DEFAULT_JOB_LEASE_MS
+  ): Promise<boolean> {
+    const id = Number(jobId);
+    if (!Number.isFinite(id)) {
+      return false;
+    }
+    const prefixConditions = this.buildPrefixWhereSql();
+    const escapedQueueName = this.escapeSqlString(
+      this.validateSqlValue(this.queueName, "queueName")
+    );
+    const escapedWorkerId = this.escapeSqlString(this.validateSqlValue(workerId, "workerId"));
+    const validatedLeaseMs = Math.max(0, Math.floor(Number(leaseMs) || 0));
+
+    const sql = `
+      UPDATE ${this.tableName}
+      SET lease_expires_at = NOW() AT TIME ZONE 'UTC' + INTERVAL '${validatedLeaseMs} milliseconds'
+      WHERE id = ${id}
+        AND queue = '${escapedQueueName}'
+        AND worker_id = '${escapedWorkerId}'
+        AND status IN ('${JobStatus.PROCESSING}', '${JobStatus.ABORTING}')
+        ${prefixConditions}
+      RETURNING id`;
+
+    const { data, error } = await this.client.rpc("exec_sql", { query: sql });
+    if (error) throw error;
+    return Array.isArray(data) && data.length > 0;
+  }
+
+  /**
+   * Puts PROCESSING jobs whose lease has expired back in the queue, counting the
+   * abandoned run as a failed attempt (or fails them once their retries are exhausted)
+   * @returns The jobs that failed
+   */
+  public async reclaimExpiredLeases(): Promise<Array<JobStorageFormat<Input, Output>>> {
+    const prefixConditions = this.buildPrefixWhereSql();
+    const escapedQueueName = this.escapeSqlString(
+      this.validateSqlValue(this.queueName, "queueName")
+    );
+    const sql = `
+      UPDATE ${this.tableName}
+      SET status = (CASE
+          WHEN run_attempts >= max_retries THEN '${JobStatus.FAILED}'
+          ELSE '${JobStatus.PENDING}'
+        END)::job_status,
+        error = CASE
+          WHEN run_attempts >= max_retries THEN 'Max retries reached'
+          ELSE '${JOB_LEASE_EXPIRED_ERROR}'
+        END,
+        error_code = CASE
+          WHEN run_attempts >= max_retries THEN 'MAX_RETRIES_REACHED'
+          ELSE '${JOB_LEASE_EXPIRED_ERROR_CODE}'
+        END,
+        completed_at = CASE
+          WHEN run_attempts >= max_retries THEN NOW() AT TIME ZONE 'UTC'
+          ELSE completed_at
+        END,
+        progress = CASE WHEN run_attempts >= max_retries THEN 100 ELSE 0 END,
+        progress_message = '',
+        progress_details = NULL,
+        error_history = COALESCE(error_history, '[]'::jsonb) || jsonb_build_array(
+          jsonb_build_object(
+            'attempt', run_attempts + 1,
+            'error', '${JOB_LEASE_EXPIRED_ERROR}'::text,
+            'error_code', '${JOB_LEASE_EXPIRED_ERROR_CODE}'::text,
+            'worker_id', worker_id,
+            'failed_at', NOW()
+          )
+        ),
+        run_attempts = run_attempts + 1,
+        worker_id = NULL,
+        lease_expires_at = NULL
+      WHERE queue = '${escapedQueueName}'
+        AND status = '${JobStatus.PROCESSING}'
+        ${prefixConditions}
+        AND lease_expires_at < NOW() AT TIME ZONE 'UTC'
+      RETURNING *`;
+
+    const { data, error } = await this.client.rpc("exec_sql", { query: sql });
+    if (error) throw error;
+    if (!data || !Array.isArray(data)) return [];
+    return (data as Array<JobStorageFormat<Input, Output>>).filter(
+      (job) => job.status === JobStatus.FAILED
+    );
+  }
+
+  /**
+   * Fails pending jobs whose prerequisites failed, repeating until no more dependents are affected
+   * @returns The cancelled jobs
+   */
+  public async cancelFailedDependents(): Promise<Array<JobStorageFormat<Input, Output>>> {
+    const prefixConditions = this.buildPrefixWhereSql();
+    const escapedQueueName = this.escapeSqlString(
+      this.validateSqlValue(this.queueName, "queueName")
+    );
+    const sql = `
+      UPDATE ${this.tableName}
+      SET status = '${JobStatus.FAILED}',
+        error = '${JOB_DEPENDENCY_FAILED_ERROR}',
+        error_code = '${JOB_DEPENDENCY_FAILED_ERROR_CODE}',
+        progress = 100,
+        progress_message = '',
+        progress_details = NULL,
+        completed_at = NOW() AT TIME ZONE 'UTC'
+      WHERE queue = '${escapedQueueName}'
+        AND status = '${JobStatus.PENDING}'
+        AND depends_on IS NOT NULL
+        AND on_dependency_failure <> 'run'
+        ${prefixConditions}
+        AND EXISTS (
+          SELECT 1 ${this.buildDependencyJoinSql()}
+          WHERE ${DEPENDENCY_STATUS_SQL} IN ('${JobStatus.FAILED}', '${JobStatus.DISABLED}')
+        )
+      RETURNING *`;
+
+    const cancelled: Array<JobStorageFormat<Input, Output>> = [];
+    while (true) {
+      const { data, error } = await this.client.rpc("exec_sql", { query: sql });
+      if (error) throw error;
+      if (!data || !Array.isArray(data) || data.length === 0) break;
+      cancelled.push(...(data as Array<JobStorageFormat<Input, Output>>));
+    }
+    return cancelled;
+  }
+
   /**
    * Retrieves the number of jobs in the queue with a specific status.
    * @param status - The status of the jobs to count
@@ -398,28 +668,30 @@ export class SupabaseQueueStorage<Input, Output> implements IQueueStorage<Input,
    * Enhanced error handling:
    * - For a retryable error, increments run_attempts and updates run_after.
    * - Marks a job as FAILED immediately for permanent or generic errors.
+   * With a `workerId`, the job is left alone unless that worker still holds it.
    */
-  public async complete(jobDetails: JobStorageFormat<Input, Output>): Promise<void> {
+  public async complete(
+    jobDetails: JobStorageFormat<Input, Output>,
+    workerId?: string
+  ): Promise<boolean> {
     const now = new Date().toISOString();
 
     // Handle disabled without changing attempts
     if (jobDetails.status === JobStatus.DISABLED) {
-      let query = this.client
+      const query = this.client
         .from(this.tableName)
         .update({
           status: jobDetails.status,
           progress: 100,
           progress_message: "",
           progress_details: null,
+          lease_expires_at: null,
           completed_at: now,
           last_ran_at: now,
         })
         .eq("id", jobDetails.id)
         .eq("queue", this.queueName);
-      query = this.applyPrefixFilters(query);
-      const { error } = await query;
-      if (error) throw error;
-      return;
+      return await this.runJobUpdate(query, workerId);
     }
 
     // Read current attempts to compute next value deterministically
@@ -439,73 +711,70 @@ export class SupabaseQueueStorage<Input, Output> implements IQueueStorage<Input,
       // Check if the next attempt would exceed max retries
       if (nextAttempts > maxRetries) {
         // Update to FAILED status instead of rescheduling
-        let failQuery = this.client
+        const failQuery = this.client
           .from(this.tableName)
           .update({
             status: JobStatus.FAILED,
             error: "Max retries reached",
             error_code: "MAX_RETRIES_REACHED",
+            error_history: jobDetails.error_history ?? null,
             progress: 100,
             progress_message: "",
             progress_details: null,
+            lease_expires_at: null,
             completed_at: now,
             last_ran_at: now,
           })
           .eq("id", jobDetails.id)
           .eq("queue", this.queueName);
-        failQuery = this.applyPrefixFilters(failQuery);
-        const { error: failError } = await failQuery;
-        if (failError) throw failError;
-        return;
+        return await this.runJobUpdate(failQuery, workerId);
       }
 
       // Reschedule the job
-      let query = this.client
+      const query = this.client
         .from(this.tableName)
         .update({
           error: jobDetails.error ?? null,
           error_code: jobDetails.error_code ?? null,
+          error_history: jobDetails.error_history ?? null,
           status: jobDetails.status,
           run_after: jobDetails.run_after!,
           progress: 0,
           progress_message: "",
           progress_details: null,
+          lease_expires_at: null,
           run_attempts: nextAttempts,
           last_ran_at: now,
         })
         .eq("id", jobDetails.id)
         .eq("queue", this.queueName);
-      query = this.applyPrefixFilters(query);
-      const { error } = await query;
-      if (error) throw error;
-      return;
+      return await this.runJobUpdate(query, workerId);
     }
 
     if (jobDetails.status === JobStatus.COMPLETED || jobDetails.status === JobStatus.FAILED) {
-      let query = this.client
+      const query = this.client
         .from(this.tableName)
         .update({
           output: jobDetails.output ?? null,
           error: jobDetails.error ?? null,
           error_code: jobDetails.error_code ?? null,
+          error_history: jobDetails.error_history ?? null,
           status: jobDetails.status,
           progress: 100,
           progress_message: "",
           progress_details: null,
+          lease_expires_at: null,
           run_attempts: nextAttempts,
           completed_at: now,
           last_ran_at: now,
         })
         .eq("id", jobDetails.id)
         .eq("queue", this.queueName);
-      query = this.applyPrefixFilters(query);
-      const { error } = await query;
-      if (error) throw error;
-      return;
+      return await this.runJobUpdate(query, workerId);
     }
 
     // Transitional states: PROCESSING/ABORTING etc - increment attempts like other stores
-    let query = this.client
+    const query = this.client
       .from(this.tableName)
       .update({
         status: jobDetails.status,
@@ -518,9 +787,7 @@ export class SupabaseQueueStorage<Input, Output> implements IQueueStorage<Input,
       })
       .eq("id", jobDetails.id)
       .eq("queue", this.queueName);
-    query = this.applyPrefixFilters(query);
-    const { error } = await query;
-    if (error) throw error;
+    return await this.runJobUpdate(query, workerId);
   }
 
   /**
@@ -600,15 +867,17 @@ export class SupabaseQueueStorage<Input, Output> implements IQueueStorage<Input,
   }
 
   /**
-   * Implements the saveProgress method
+   * Implements the saveProgress method. With a `workerId`, the progress is only saved
+   * while that worker still holds the job.
    */
   public async saveProgress(
     jobId: unknown,
     progress: number,
     message: string,
-    details: Record<string, any>
-  ): Promise<void> {
-    let query = this.client
+    details: Record<string, any>,
+    workerId?: string
+  ): Promise<boolean> {
+    const query = this.client
       .from(this.tableName)
       .update({
         progress,
@@ -618,10 +887,7 @@ export class SupabaseQueueStorage<Input, Output> implements IQueueStorage<Input,
       .eq("id", jobId)
       .eq("queue", this.queueName);
 
-    query = this.applyPrefixFilters(query);
-    const { error } = await query;
-
-    if (error) throw error;
+    return await this.runJobUpdate(query, workerId);
   }
 
   /**
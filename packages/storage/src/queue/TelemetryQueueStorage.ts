@@ -26,11 +26,33 @@ export class TelemetryQueueStorage<Input, Output> implements IQueueStorage<Input
   add(job: JobStorageFormat<Input, Output>): Promise<unknown> {
     return traced("workglow.storage.queue.add", this.storageName, () => this.inner.add(job));
   }
+  addFinished(job: JobStorageFormat<Input, Output>): Promise<unknown> {
+    return traced("workglow.storage.queue.addFinished", this.storageName, () =>
+      this.inner.addFinished(job)
+    );
+  }
   get(id: unknown): Promise<JobStorageFormat<Input, Output> | undefined> {
     return traced("workglow.storage.queue.get", this.storageName, () => this.inner.get(id));
   }
-  next(workerId: string): Promise<JobStorageFormat<Input, Output> | undefined> {
-    return traced("workglow.storage.queue.next", this.storageName, () => this.inner.next(workerId));
+  next(workerId: string, leaseMs?: number): Promise<JobStorageFormat<Input, Output> | undefined> {
+    return traced("workglow.storage.queue.next", this.storageName, () =>
+      this.inner.next(workerId, leaseMs)
+    );
+  }
+  renewLease(id: unknown, workerId: string, leaseMs?: number): Promise<boolean> {
+    return traced("workglow.storage.queue.renewLease", this.storageName, () =>
+      this.inner.renewLease(id, workerId, leaseMs)
+    );
+  }
+  reclaimExpiredLeases(): Promise<Array<JobStorageFormat<Input, Output>>> {
+    return traced("workglow.storage.queue.reclaimExpiredLeases", this.storageName, () =>
+      this.inner.reclaimExpiredLeases()
+    );
+  }
+  cancelFailedDependents(): Promise<Array<JobStorageFormat<Input, Output>>> {
+    return traced("workglow.storage.queue.cancelFailedDependents", this.storageName, () =>
+      this.inner.cancelFailedDependents()
+    );
   }
   peek(status?: JobStatus, num?: number): Promise<Array<JobStorageFormat<Input, Output>>> {
     return traced("workglow.storage.queue.peek", this.storageName, () =>
@@ -40,9 +62,9 @@ export class TelemetryQueueStorage<Input, Output> implements IQueueStorage<Input
   size(status?: JobStatus): Promise<number> {
     return traced("workglow.storage.queue.size", this.storageName, () => this.inner.size(status));
   }
-  complete(job: JobStorageFormat<Input, Output>): Promise<void> {
+  complete(job: JobStorageFormat<Input, Output>, workerId?: string): Promise<boolean> {
     return traced("workglow.storage.queue.complete", this.storageName, () =>
-      this.inner.complete(job)
+      this.inner.complete(job, workerId)
     );
   }
   deleteAll(): Promise<void> {
@@ -67,10 +89,11 @@ export class TelemetryQueueStorage<Input, Output> implements IQueueStorage<Input
     id: unknown,
     progress: number,
     message: string,
-    details: Record<string, any> | null
-  ): Promise<void> {
+    details: Record<string, any> | null,
+    workerId?: string
+  ): Promise<boolean> {
     return traced("workglow.storage.queue.saveProgress", this.storageName, () =>
-      this.inner.saveProgress(id, progress, message, details)
+      this.inner.saveProgress(id, progress, message, details, workerId)
     );
   }
   delete(id: unknown): Promise<void> {
@@ -84,6 +107,11 @@ export class TelemetryQueueStorage<Input, Output> implements IQueueStorage<Input
   setupDatabase(): Promise<void> {
     return this.inner.setupDatabase();
   }
+  withTransaction<T>(fn: () => Promise<T>): Promise<T> {
+    return traced("workglow.storage.queue.transaction", this.storageName, () =>
+      this.inner.withTransaction(fn)
+    );
+  }
   subscribeToChanges(
     callback: (change: QueueChangePayload<Input, Output>) => void,
     options?: QueueSubscribeOptions
@@ -131,17 +131,19 @@ export class BrowserDatabase implements SqliteApi.Database {
 
   /**
    * Same contract as better-sqlite3 / Bun: returns a function that runs `fn` inside a single
-   * SQL transaction (BEGIN → COMMIT or ROLLBACK).
+   * SQL transaction (BEGIN → COMMIT or ROLLBACK), or a savepoint when a transaction is
+   * already open.
    */
   transaction<T extends unknown[]>(fn: (...args: T) => void): (...args: T) => void {
     return (...args: T) => {
-      this.exec("BEGIN");
+      const nested = this.inTransaction;
+      this.exec(nested ? "SAVEPOINT workglow_tx" : "BEGIN");
       try {
         fn(...args);
-        this.exec("COMMIT");
+        this.exec(nested ? "RELEASE workglow_tx" : "COMMIT");
       } catch (err) {
         try {
-          this.exec("ROLLBACK");
+          this.exec(nested ? "ROLLBACK TO workglow_tx; RELEASE workglow_tx" : "ROLLBACK");
         } catch {
           // prefer the original error if rollback fails
         }
@@ -150,6 +152,10 @@ export class BrowserDatabase implements SqliteApi.Database {
     };
   }
 
+  get inTransaction(): boolean {
+    return assertWasmLoaded().capi.sqlite3_get_autocommit(this.inner) === 0;
+  }
+
   close(): void {
     this.inner.close();
   }
@@ -101,6 +101,10 @@ export class BunSqliteDatabase implements SqliteApi.Database {
     };
   }
 
+  get inTransaction(): boolean {
+    return this.#db.inTransaction;
+  }
+
   close(): void {
     this.#db.close();
   }
@@ -38,6 +38,8 @@ export namespace SqliteApi {
       sql: string
     ): Statement<BindParameters, Result>;
     transaction<T extends unknown[]>(fn: (...args: T) => void): (...args: T) => void;
+    /** True while a transaction is open on this connection */
+    readonly inTransaction: boolean;
     close(): void;
     loadExtension(path: string, entryPoint?: string): void;
   }
@@ -72,6 +72,10 @@ export class NodeSqliteDatabase implements SqliteApi.Database {
     };
   }
 
+  get inTransaction(): boolean {
+    return this.#inner.inTransaction;
+  }
+
   close(): void {
     this.#inner.close();
   }
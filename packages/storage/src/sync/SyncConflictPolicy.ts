@@ -0,0 +1,51 @@
+/**
+ * @license
+ * Copyright 2026 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * A row changed on both replicas since they last agreed on it. `undefined`
+ * stands for a row that is deleted on that side.
+ */
+export interface SyncConflict<Entity> {
+  /** Primary key of the row */
+  readonly key: Partial<Entity>;
+  /** The row as the local replica has it */
+  readonly local: Entity | undefined;
+  /** The row as the remote replica has it */
+  readonly remote: Entity | undefined;
+  /** The row as both replicas last agreed on it, in its JSON form */
+  readonly base: Entity | undefined;
+  /** Epoch milliseconds of the local change */
+  readonly localUpdatedAt: number;
+  /** Epoch milliseconds of the remote change */
+  readonly remoteUpdatedAt: number;
+}
+
+/**
+ * Decides what a conflicting row becomes on both replicas. Returning
+ * `undefined` deletes the row; anything else is written to both sides, so a
+ * custom merge can combine fields of `local`, `remote` and `base`.
+ */
+export type SyncConflictPolicy<Entity> = (
+  conflict: SyncConflict<Entity>
+) => Entity | undefined | Promise<Entity | undefined>;
+
+/**
+ * Keeps whichever side changed last; the remote side wins ties so that every
+ * replica settles on the same row.
+ */
+export function lastWriterWins<Entity>(conflict: SyncConflict<Entity>): Entity | undefined {
+  return conflict.localUpdatedAt > conflict.remoteUpdatedAt ? conflict.local : conflict.remote;
+}
+
+/** Always keeps the local row */
+export function localWins<Entity>(conflict: SyncConflict<Entity>): Entity | undefined {
+  return conflict.local;
+}
+
+/** Always keeps the remote row */
+export function remoteWins<Entity>(conflict: SyncConflict<Entity>): Entity | undefined {
+  return conflict.remote;
+}
@@ -0,0 +1,531 @@
+/**
+ * @license
+ * Copyright 2026 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { EventEmitter, EventParameters } from "@workglow/util";
+import { DataPortSchemaObject, FromSchema, TypedArraySchemaOptions } from "@workglow/util/schema";
+import { InMemoryTabularStorage } from "../tabular/InMemoryTabularStorage";
+import {
+  ITabularStorage,
+  SimplifyPrimaryKey,
+  TabularChangePayload,
+  TabularSubscribeOptions,
+} from "../tabular/ITabularStorage";
+import { lastWriterWins, SyncConflict, SyncConflictPolicy } from "./SyncConflictPolicy";
+
+/**
+ * Per-row sync state kept on the local side. A row has state while it has
+ * local changes to push (`pending`) or exists on the remote (`base`).
+ */
+export const TabularSyncStateSchema = {
+  type: "object",
+  properties: {
+    /** JSON array of the row's primary key values */
+    key: { type: "string" },
+    /** Revision of the row on this replica, bumped by every local or pulled change */
+    version: { type: "integer", minimum: 0 },
+    /** Epoch milliseconds of the last change */
+    updated_at: { type: "integer", minimum: 0 },
+    /** Tombstone: the row was deleted locally */
+    deleted: { type: "boolean" },
+    /** The row has local changes not yet pushed to the remote */
+    pending: { type: "boolean" },
+    /** JSON of the row as both replicas last agreed on it, or null if the remote lacks it */
+    base: { anyOf: [{ type: "string" }, { type: "null" }] },
+  },
+  required: ["key", "version", "updated_at", "deleted", "pending", "base"],
+  additionalProperties: false,
+} as const satisfies DataPortSchemaObject;
+
+export const TabularSyncStatePrimaryKeyNames = ["key"] as const;
+
+export type TabularSyncState = FromSchema<typeof TabularSyncStateSchema>;
+
+export type TabularSyncStateStorage = ITabularStorage<
+  typeof TabularSyncStateSchema,
+  typeof TabularSyncStatePrimaryKeyNames
+>;
+
+export type TabularSyncEventListeners<Entity> = {
+  /** A local change reached the remote */
+  push: (key: Partial<Entity>) => void;
+  /** A remote change reached the local replica */
+  pull: (key: Partial<Entity>) => void;
+  conflict: (conflict: SyncConflict<Entity>, resolved: Entity | undefined) => void;
+  /** A sync triggered by a change notification failed; the rows stay pending */
+  error: (error: unknown) => void;
+};
+
+export type TabularSyncEventName = keyof TabularSyncEventListeners<any>;
+
+export interface TabularSyncOptions<Entity> {
+  /**
+   * Storage for the per-row sync state. Defaults to in-memory; persist it
+   * (e.g. in IndexedDB) to keep queued offline writes across restarts.
+   */
+  readonly state?: TabularSyncStateStorage;
+  /** How to settle rows changed on both sides. Defaults to lastWriterWins. */
+  readonly conflictPolicy?: SyncConflictPolicy<Entity>;
+  /**
+   * Column in which writers record when a row changed, as epoch milliseconds
+   * or a date string. Without it a remote change is dated when this replica
+   * first sees it.
+   */
+  readonly updatedAtColumn?: keyof Entity;
+  /** Whether the remote is reachable at start. Defaults to true. */
+  readonly online?: boolean;
+  /** Passed to subscribeToChanges of both storages */
+  readonly subscribeOptions?: TabularSubscribeOptions;
+}
+
+/**
+ * Replicates a table between a local storage, which the application reads
+ * and writes, and a remote storage shared with other replicas.
+ *
+ * Local changes are picked up through subscribeToChanges and queued as
+ * pending rows; while online they are pushed as they happen, while offline
+ * they wait for the next sync. Remote changes are pulled the same way. A row
+ * changed on both sides since they last agreed is settled by the conflict
+ * policy.
+ *
+ * Conflicts are found by comparing rows, so the remote needs no extra
+ * columns. Rows must have client-generated primary keys.
+ */
+export class TabularSyncEngine<
+  Schema extends DataPortSchemaObject,
+  PrimaryKeyNames extends ReadonlyArray<keyof Schema["properties"]>,
+  // computed types
+  Entity = FromSchema<Schema, TypedArraySchemaOptions>,
+  PrimaryKey = SimplifyPrimaryKey<Entity, PrimaryKeyNames>,
+> {
+  public readonly state: TabularSyncStateStorage;
+  protected events = new EventEmitter<TabularSyncEventListeners<Entity>>();
+  private readonly conflictPolicy: SyncConflictPolicy<Entity>;
+  private _online: boolean;
+  private unsubscribeLocal: (() => void) | null = null;
+  private unsubscribeRemote: (() => void) | null = null;
+  /** Every read and write of sync state runs on this chain, one at a time */
+  private work: Promise<void> = Promise.resolve();
+  private pushScheduled = false;
+  /** When remote changes not yet settled were first seen, by row key */
+  private readonly remoteSeenAt = new Map<string, number>();
+
+  /**
+   * @param local - Storage the application uses
+   * @param remote - Storage shared with other replicas
+   * @param primaryKeyNames - Primary key columns of both storages
+   * @param options - Sync state storage, conflict policy and connectivity
+   */
+  constructor(
+    private readonly local: ITabularStorage<Schema, PrimaryKeyNames, Entity, PrimaryKey>,
+    private readonly remote: ITabularStorage<Schema, PrimaryKeyNames, Entity, PrimaryKey>,
+    private readonly primaryKeyNames: PrimaryKeyNames,
+    private readonly options: TabularSyncOptions<Entity> = {}
+  ) {
+    this.state =
+      options.state ??
+      new InMemoryTabularStorage(TabularSyncStateSchema, TabularSyncStatePrimaryKeyNames);
+    this.conflictPolicy = options.conflictPolicy ?? lastWriterWins;
+    this._online = options.online ?? true;
+  }
+
+  public get online(): boolean {
+    return this._online;
+  }
+
+  /**
+   * Starts watching both storages. Local rows changed while the engine was
+   * stopped are queued, then a sync runs if online.
+   */
+  public async start(): Promise<void> {
+    if (this.unsubscribeLocal) return;
+    await this.state.setupDatabase();
+    this.unsubscribeLocal = this.local.subscribeToChanges(
+      (change) => this.onLocalChange(change),
+      this.options.subscribeOptions
+    );
+    await this.enqueue(() => this.scanLocal());
+    if (this._online) {
+      await this.connect();
+    }
+  }
+
+  /**
+   * Stops watching both storages. Pending rows stay queued in the sync state.
+   */
+  public stop(): void {
+    this.unsubscribeLocal?.();
+    this.unsubscribeLocal = null;
+    this.disconnect();
+  }
+
+  /**
+   * Marks the remote reachable or not, e.g. from the browser's online and
+   * offline events. Going online syncs everything queued meanwhile.
+   */
+  public async setOnline(online: boolean): Promise<void> {
+    if (online === this._online) return;
+    this._online = online;
+    if (!this.unsubscribeLocal) return;
+    if (online) {
+      await this.connect();
+    } else {
+      this.disconnect();
+    }
+  }
+
+  /**
+   * Pushes pending local changes, then pulls every remote row. Does nothing
+   * while offline.
+   *
+   * @throws The first remote error; rows not yet pushed stay pending
+   */
+  public async sync(): Promise<void> {
+    if (!this._online) return;
+    await this.enqueue(() => this.pushPending());
+    await this.enqueue(() => this.pull());
+  }
+
+  /** Resolves once every change notified so far has been handled */
+  public async whenIdle(): Promise<void> {
+    let work: Promise<void>;
+    do {
+      work = this.work;
+      await work;
+    } while (work !== this.work);
+  }
+
+  /** Number of rows with local changes not yet pushed */
+  public async pendingCount(): Promise<number> {
+    return await this.state.count({ pending: true });
+  }
+
+  /** Sync state of a row, or undefined if it is neither pending nor on the remote */
+  public async getRowState(key: PrimaryKey): Promise<TabularSyncState | undefined> {
+    return await this.state.get({ key: this.keyOf(key) });
+  }
+
+  on<Event extends TabularSyncEventName>(
+    name: Event,
+    fn: TabularSyncEventListeners<Entity>[Event]
+  ): void {
+    this.events.on(name, fn);
+  }
+
+  off<Event extends TabularSyncEventName>(
+    name: Event,
+    fn: TabularSyncEventListeners<Entity>[Event]
+  ): void {
+    this.events.off(name, fn);
+  }
+
+  once<Event extends TabularSyncEventName>(
+    name: Event,
+    fn: TabularSyncEventListeners<Entity>[Event]
+  ): void {
+    this.events.once(name, fn);
+  }
+
+  waitOn<Event extends TabularSyncEventName>(
+    name: Event
+  ): Promise<EventParameters<TabularSyncEventListeners<Entity>, Event>> {
+    return this.events.waitOn(name) as Promise<
+      EventParameters<TabularSyncEventListeners<Entity>, Event>
+    >;
+  }
+
+  private async connect(): Promise<void> {
+    this.unsubscribeRemote = this.remote.subscribeToChanges(
+      (change) => this.onRemoteChange(change),
+      this.options.subscribeOptions
+    );
+    await this.sync();
+  }
+
+  private disconnect(): void {
+    this.unsubscribeRemote?.();
+    this.unsubscribeRemote = null;
+  }
+
+  private enqueue<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.work.then(fn);
+    this.work = result.then(
+      () => undefined,
+      () => undefined
+    );
+    return result;
+  }
+
+  private report(job: Promise<unknown>): void {
+    job.catch((error) => this.events.emit("error", error));
+  }
+
+  private onLocalChange(change: TabularChangePayload<Entity>): void {
+    // Only the key is used; the row is read again so stale notifications do no harm
+    const row = change.new ?? change.old;
+    this.report(
+      this.enqueue(async () => {
+        if (row) {
+          const key = this.keyOf(row);
+          await this.recordLocalChange(key, await this.local.get(this.primaryKeyOf(key)));
+        } else {
+          await this.scanLocal();
+        }
+        // Queued behind this job, so a push already under way cannot miss the change
+        this.schedulePush();
+      })
+    );
+  }
+
+  private onRemoteChange(change: TabularChangePayload<Entity>): void {
+    const row = change.new ?? change.old;
+    this.report(
+      this.enqueue(async () => {
+        if (row) {
+          const key = this.keyOf(row);
+          await this.applyRemote(key, await this.remote.get(this.primaryKeyOf(key)));
+        } else {
+          await this.pull();
+        }
+      })
+    );
+  }
+
+  private schedulePush(): void {
+    if (!this._online || this.pushScheduled) return;
+    this.pushScheduled = true;
+    this.report(this.enqueue(() => this.pushPending()));
+  }
+
+  /**
+   * Queues the local row for pushing if it differs from what the remote last
+   * had. A row changed back to that is no longer pending.
+   */
+  private async recordLocalChange(
+    key: string,
+    current: Entity | undefined
+  ): Promise<TabularSyncState | undefined> {
+    const state = await this.state.get({ key });
+    const base = state?.base ?? null;
+    if (rowJson(current) === base) {
+      if (state?.pending) {
+        return await this.saveSynced(key, state.version, base);
+      }
+      return state;
+    }
+    return await this.state.put({
+      key,
+      version: (state?.version ?? 0) + 1,
+      updated_at: Date.now(),
+      deleted: current === undefined,
+      pending: true,
+      base,
+    });
+  }
+
+  /** Records local changes made while no one was watching */
+  private async scanLocal(): Promise<void> {
+    const seen = new Set<string>();
+    for await (const row of this.local.records()) {
+      const key = this.keyOf(row);
+      seen.add(key);
+      await this.recordLocalChange(key, row);
+    }
+    for (const state of (await this.state.getAll()) ?? []) {
+      if (!seen.has(state.key)) {
+        await this.recordLocalChange(state.key, undefined);
+      }
+    }
+  }
+
+  private async pushPending(): Promise<void> {
+    this.pushScheduled = false;
+    if (!this._online) return;
+    const pending = await this.state.query(
+      { pending: true },
+      { orderBy: [{ column: "updated_at", direction: "ASC" }] }
+    );
+    for (const state of pending ?? []) {
+      if (!this._online) return;
+      await this.pushRow(state);
+    }
+  }
+
+  private async pushRow(state: TabularSyncState): Promise<void> {
+    const key = this.primaryKeyOf(state.key);
+    const local = await this.local.get(key);
+    const remote = await this.remote.get(key);
+    const remoteJson = rowJson(remote);
+    let resolved = local;
+    if (remoteJson !== state.base && remoteJson !== rowJson(local)) {
+      resolved = await this.resolveConflict(state, local, remote);
+    }
+    await this.settle(state, local, remote, resolved);
+    this.events.emit("push", key as Partial<Entity>);
+  }
+
+  /** Brings every remote row, and every row deleted remotely, to the local side */
+  private async pull(): Promise<void> {
+    const seen = new Set<string>();
+    for (const row of (await this.remote.getAll()) ?? []) {
+      const key = this.keyOf(row);
+      seen.add(key);
+      await this.applyRemote(key, row);
+    }
+    const synced = await this.state.query({ base: { operator: "IS NOT NULL" } });
+    for (const state of synced ?? []) {
+      if (!seen.has(state.key)) {
+        await this.applyRemote(state.key, undefined);
+      }
+    }
+  }
+
+  private async applyRemote(key: string, remote: Entity | undefined): Promise<void> {
+    const state = await this.state.get({ key });
+    const base = state?.base ?? null;
+    const remoteJson = rowJson(remote);
+    if (remoteJson === base) return;
+    if (!this.remoteSeenAt.has(key)) {
+      this.remoteSeenAt.set(key, Date.now());
+    }
+
+    const primaryKey = this.primaryKeyOf(key);
+    const local = await this.local.get(primaryKey);
+    const localJson = rowJson(local);
+    if (localJson === remoteJson) {
+      await this.saveSynced(key, state?.version ?? 0, remoteJson);
+      return;
+    }
+    if (state?.pending || localJson !== base) {
+      // Changed on both sides, though the local change may not have been notified yet
+      const pending = state?.pending ? state : await this.recordLocalChange(key, local);
+      await this.pushRow(pending!);
+      return;
+    }
+
+    if (remote === undefined) {
+      await this.local.delete(primaryKey);
+    } else {
+      await this.local.put(remote as any);
+    }
+    await this.saveSynced(key, (state?.version ?? 0) + 1, remoteJson);
+    this.events.emit("pull", primaryKey as Partial<Entity>);
+  }
+
+  private async resolveConflict(
+    state: TabularSyncState,
+    local: Entity | undefined,
+    remote: Entity | undefined
+  ): Promise<Entity | undefined> {
+    const conflict: SyncConflict<Entity> = {
+      key: this.primaryKeyOf(state.key) as Partial<Entity>,
+      local,
+      remote,
+      base: state.base === null ? undefined : (JSON.parse(state.base) as Entity),
+      localUpdatedAt: this.updatedAtOf(local) ?? state.updated_at,
+      remoteUpdatedAt: this.updatedAtOf(remote) ?? this.remoteSeenAt.get(state.key) ?? Date.now(),
+    };
+    const resolved = await this.conflictPolicy(conflict);
+    this.events.emit("conflict", conflict, resolved);
+    return resolved;
+  }
+
+  /** Writes the resolved row to whichever sides differ from it */
+  private async settle(
+    state: TabularSyncState,
+    local: Entity | undefined,
+    remote: Entity | undefined,
+    resolved: Entity | undefined
+  ): Promise<void> {
+    const key = this.primaryKeyOf(state.key);
+    let settled = resolved;
+    if (rowJson(resolved) !== rowJson(remote)) {
+      if (resolved === undefined) {
+        await this.remote.delete(key);
+      } else {
+        // The remote may fill in columns, e.g. defaults
+        settled = await this.remote.put(resolved as any);
+      }
+    }
+    const settledJson = rowJson(settled);
+    const localChanged = settledJson !== rowJson(local);
+    if (localChanged) {
+      if (settled === undefined) {
+        await this.local.delete(key);
+      } else {
+        await this.local.put(settled as any);
+      }
+    }
+    await this.saveSynced(state.key, state.version + (localChanged ? 1 : 0), settledJson);
+  }
+
+  /** Records that both sides hold `base`, dropping the state of a row neither has */
+  private async saveSynced(
+    key: string,
+    version: number,
+    base: string | null
+  ): Promise<TabularSyncState | undefined> {
+    this.remoteSeenAt.delete(key);
+    if (base === null) {
+      await this.state.delete({ key });
+      return undefined;
+    }
+    return await this.state.put({
+      key,
+      version,
+      updated_at: Date.now(),
+      deleted: false,
+      pending: false,
+      base,
+    });
+  }
+
+  private updatedAtOf(row: Entity | undefined): number | undefined {
+    const column = this.options.updatedAtColumn;
+    if (row === undefined || column === undefined) return undefined;
+    const value = (row as Record<keyof Entity, unknown>)[column];
+    if (typeof value === "number") return value;
+    if (typeof value === "string") {
+      const time = Date.parse(value);
+      return Number.isNaN(time) ? undefined : time;
+    }
+    return undefined;
+  }
+
+  private keyOf(row: PrimaryKey | Entity): string {
+    return JSON.stringify(this.primaryKeyNames.map((name) => (row as any)[name]));
+  }
+
+  private primaryKeyOf(key: string): PrimaryKey {
+    const values = JSON.parse(key) as unknown[];
+    return Object.fromEntries(
+      this.primaryKeyNames.map((name, index) => [name, values[index]])
+    ) as PrimaryKey;
+  }
+}
+
+/**
+ * JSON of a row that is equal for equal rows: object keys are sorted and
+ * null columns dropped, since backends differ in key order and in returning
+ * missing optional columns as null.
+ */
+function rowJson(row: unknown): string | null {
+  if (row === undefined || row === null) return null;
+  return JSON.stringify(row, (_key, value) => {
+    if (typeof value === "bigint") return value.toString();
+    if (ArrayBuffer.isView(value)) return Array.from(value as unknown as ArrayLike<number>);
+    if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+      const sorted: Record<string, unknown> = {};
+      for (const name of Object.keys(value).sort()) {
+        const column = (value as Record<string, unknown>)[name];
+        if (column !== null && column !== undefined) {
+          sorted[name] = column;
+        }
+      }
+      return sorted;
+    }
+    return value;
+  });
+}
@@ -12,11 +12,16 @@ import {
 } from "@workglow/util/schema";
 import { BaseTabularStorage, ClientProvidedKeysOption } from "./BaseTabularStorage";
 import {
+  AggregateSpec,
+  AggregateValue,
   AutoGeneratedKeys,
   InsertEntity,
+  isSearchCondition,
+  SearchCriteria,
   SimplifyPrimaryKey,
   ValueOptionType,
 } from "./ITabularStorage";
+import { schemaDefault } from "./TabularMigration";
 
 // BaseTabularStorage is a tabular store that uses SQLite and Postgres use as common code
 
@@ -111,6 +116,47 @@ export abstract class BaseSqlTabularStorage<
     return cached;
   }
 
+  /**
+   * Generates the definition of a column added to an existing table by a
+   * migration. Existing rows take the schema `default` when there is one;
+   * otherwise the column is nullable even if required, as those rows have no
+   * value for it.
+   */
+  protected migrationColumnDefinition(
+    name: string,
+    typeDef: JsonSchema,
+    required: boolean,
+    $delimiter: string = ""
+  ): string {
+    const fallback = schemaDefault(typeDef);
+    const literal =
+      fallback === undefined
+        ? undefined
+        : this.sqlLiteral(this.jsToSqlValue(name, fallback as Entity[keyof Entity]));
+    const nullable = !required || this.isNullable(typeDef) || literal === undefined;
+    const defaultClause = literal === undefined ? "" : ` DEFAULT ${literal}`;
+    return `${$delimiter}${name}${$delimiter} ${this.mapTypeToSQL(typeDef)}${nullable ? " NULL" : " NOT NULL"}${defaultClause}`;
+  }
+
+  /**
+   * Formats a value as a SQL literal for DDL, where parameters cannot be
+   * bound. Returns undefined for values without a portable literal form.
+   */
+  protected sqlLiteral(value: ValueOptionType): string | undefined {
+    if (value === null) return "NULL";
+    switch (typeof value) {
+      case "number":
+      case "bigint":
+        return String(value);
+      case "boolean":
+        return value ? "TRUE" : "FALSE";
+      case "string":
+        return `'${value.replace(/'/g, "''")}'`;
+      default:
+        return undefined;
+    }
+  }
+
   /**
    * Determines if a schema type allows null values
    * @param typeDef - The schema type definition
@@ -315,6 +361,149 @@ export abstract class BaseSqlTabularStorage<
     }
   }
 
+  /**
+   * SQL condition for a case-insensitive LIKE match of a column against a
+   * bound pattern. Dialects differ in how they spell this.
+   */
+  protected abstract likeCondition(column: string, placeholder: string): string;
+
+  /**
+   * SQL condition for a case-sensitive prefix match of a column against a
+   * bound string.
+   */
+  protected abstract startsWithCondition(column: string, placeholder: string): string;
+
+  /**
+   * Builds a SQL condition from search criteria, descending into `$or` groups.
+   * Values are passed to `bind`, which records them as parameters and returns
+   * the placeholder to use in the SQL.
+   *
+   * @param criteria - The search criteria object
+   * @param $delimiter - Identifier quote character of the dialect
+   * @param bind - Records a parameter value and returns its placeholder
+   * @returns The condition, without a leading WHERE
+   */
+  protected buildCriteriaCondition(
+    criteria: SearchCriteria<Entity>,
+    $delimiter: string,
+    bind: (value: ValueOptionType) => string
+  ): string {
+    const conditions: string[] = [];
+    for (const column of Object.keys(criteria) as Array<keyof Entity | "$or">) {
+      if (column === "$or") {
+        const alternatives = (criteria.$or ?? []).map(
+          (alternative) => `(${this.buildCriteriaCondition(alternative, $delimiter, bind)})`
+        );
+        conditions.push(alternatives.length > 0 ? `(${alternatives.join(" OR ")})` : "1 = 0");
+        continue;
+      }
+      if (!(column in this.schema.properties)) {
+        throw new Error(`Schema must have a ${String(column)} field to use deleteSearch`);
+      }
+
+      const name = String(column);
+      const col = `${$delimiter}${name}${$delimiter}`;
+      const criterion = criteria[column];
+      if (!isSearchCondition<Entity[keyof Entity]>(criterion)) {
+        conditions.push(
+          criterion === null
+            ? `${col} IS NULL`
+            : `${col} = ${bind(this.jsToSqlValue(name, criterion as Entity[keyof Entity]))}`
+        );
+        continue;
+      }
+
+      switch (criterion.operator) {
+        case "IS NULL":
+        case "IS NOT NULL":
+          conditions.push(`${col} ${criterion.operator}`);
+          break;
+        case "IN":
+        case "NOT IN": {
+          const values = criterion.value.map((value) => bind(this.jsToSqlValue(name, value)));
+          if (values.length === 0) {
+            // An empty list matches nothing; NOT IN still excludes NULLs
+            conditions.push(criterion.operator === "IN" ? "1 = 0" : `${col} IS NOT NULL`);
+          } else {
+            conditions.push(`${col} ${criterion.operator} (${values.join(", ")})`);
+          }
+          break;
+        }
+        case "LIKE":
+          conditions.push(this.likeCondition(col, bind(criterion.value)));
+          break;
+        case "STARTS WITH":
+          conditions.push(this.startsWithCondition(col, bind(criterion.value)));
+          break;
+        default:
+          conditions.push(
+            `${col} ${criterion.operator} ${bind(this.jsToSqlValue(name, criterion.value as Entity[keyof Entity]))}`
+          );
+      }
+    }
+    return conditions.join(" AND ");
+  }
+
+  /**
+   * Builds the select list and GROUP BY/ORDER BY clauses of an aggregate query.
+   * Groups are ordered by their columns with NULLs first, matching the
+   * in-memory fallback.
+   */
+  protected buildAggregateClauses(
+    aggregates: Record<string, AggregateSpec<Entity>>,
+    groupBy: ReadonlyArray<keyof Entity>,
+    $delimiter: string
+  ): { select: string; groupBy: string } {
+    const quote = (name: string) => `${$delimiter}${name}${$delimiter}`;
+    const groupColumns = groupBy.map((column) => quote(String(column)));
+    const selections = [
+      ...groupColumns,
+      ...Object.entries(aggregates).map(([name, { fn, column }]) => {
+        const argument = column === undefined ? "*" : quote(String(column));
+        return `${fn.toUpperCase()}(${argument}) AS ${quote(name)}`;
+      }),
+    ];
+    return {
+      select: selections.join(", "),
+      groupBy:
+        groupColumns.length > 0
+          ? ` GROUP BY ${groupColumns.join(", ")} ORDER BY ${groupColumns
+              .map((column) => `${column} ASC NULLS FIRST`)
+              .join(", ")}`
+          : "",
+    };
+  }
+
+  /**
+   * Converts a row returned by an aggregate query: group columns are converted
+   * like entity columns, counts/sums/averages become numbers (drivers may
+   * return them as strings or bigints), and min/max take their column's type.
+   */
+  protected aggregateRowToJs(
+    row: Record<string, unknown>,
+    aggregates: Record<string, AggregateSpec<Entity>>,
+    groupBy: ReadonlyArray<keyof Entity>
+  ): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (const column of groupBy) {
+      const name = String(column);
+      result[name] = this.sqlToJsValue(name, (row[name] ?? null) as ValueOptionType) ?? null;
+    }
+    for (const [name, { fn, column }] of Object.entries(aggregates)) {
+      const value = row[name];
+      let converted: AggregateValue;
+      if (value === null || value === undefined) {
+        converted = fn === "count" ? 0 : null;
+      } else if (fn === "min" || fn === "max") {
+        converted = this.sqlToJsValue(String(column), value as ValueOptionType) as AggregateValue;
+      } else {
+        converted = Number(value);
+      }
+      result[name] = converted;
+    }
+    return result;
+  }
+
   /**
    * Validates table name and schema configurations
    * Checks for:
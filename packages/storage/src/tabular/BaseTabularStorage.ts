@@ -5,8 +5,17 @@
  */
 
 import { createServiceToken, EventEmitter, makeFingerprint } from "@workglow/util";
-import { DataPortSchemaObject, FromSchema, TypedArraySchemaOptions } from "@workglow/util/schema";
 import {
+  DataPortSchemaObject,
+  FromSchema,
+  JsonSchema,
+  TypedArraySchemaOptions,
+} from "@workglow/util/schema";
+import {
+  AggregateOptions,
+  AggregateResult,
+  AggregateSpec,
+  AggregateValue,
   AnyTabularStorage,
   AutoGeneratedKeys,
   DeleteSearchCriteria,
@@ -14,6 +23,8 @@ import {
   isSearchCondition,
   ITabularStorage,
   QueryOptions,
+  SEARCH_OPERATORS,
+  SearchCondition,
   SearchCriteria,
   SimplifyPrimaryKey,
   TabularChangePayload,
@@ -30,6 +41,11 @@ import {
   StorageInvalidLimitError,
   StorageValidationError,
 } from "./StorageError";
+import {
+  sortTabularMigrations,
+  TabularMigration,
+  TabularMigrationTarget,
+} from "./TabularMigration";
 
 export const TABULAR_REPOSITORY = createServiceToken<AnyTabularStorage>(
   "storage.tabularRepository"
@@ -76,6 +92,8 @@ export abstract class BaseTabularStorage<
   protected autoGeneratedKeyStrategy: KeyGenerationStrategy | null = null;
   /** How to handle client-provided values for auto-generated keys */
   protected clientProvidedKeys: ClientProvidedKeysOption;
+  /** Registered schema migrations, in version order */
+  protected migrations: TabularMigration<this>[] = [];
 
   /**
    * Creates a new BaseTabularStorage instance
@@ -324,6 +342,42 @@ export abstract class BaseTabularStorage<
     options?: QueryOptions<Entity>
   ): Promise<Entity[] | undefined>;
 
+  /**
+   * Computes aggregates over the entries matching the optional criteria.
+   * This fallback fetches the matching entries and aggregates them in memory;
+   * SQL-backed storages override it to aggregate in the database.
+   *
+   * @param aggregates - Aggregates to compute, keyed by the name they are returned under
+   * @param options - Optional criteria and groupBy columns
+   * @returns One row per group, ordered by the groupBy columns
+   */
+  async aggregate<Aggregates extends Record<string, AggregateSpec<Entity>>>(
+    aggregates: Aggregates,
+    options?: AggregateOptions<Entity>
+  ): Promise<Array<AggregateResult<Entity, Aggregates>>> {
+    this.validateAggregateParams(aggregates, options);
+    const entities = options?.criteria ? await this.query(options.criteria) : await this.getAll();
+    return this.aggregateEntities(entities ?? [], aggregates, options?.groupBy);
+  }
+
+  /**
+   * Counts the entries matching the criteria, or all entries without criteria.
+   */
+  async count(criteria?: SearchCriteria<Entity>): Promise<number> {
+    if (!criteria) return await this.size();
+    const [row] = await this.aggregate({ count: { fn: "count" } }, { criteria });
+    return Number(row.count);
+  }
+
+  /**
+   * Runs `fn` so that its writes commit or roll back together. The default
+   * has no transaction: each write applies as it happens and nothing is rolled
+   * back. Backends that can do better override this.
+   */
+  async withTransaction<T>(fn: () => Promise<T>): Promise<T> {
+    return await fn();
+  }
+
   /**
    * Abstract method to fetch a page of records.
    * @param offset - Number of records to skip
@@ -426,37 +480,206 @@ export abstract class BaseTabularStorage<
       throw new StorageValidationError(`Query offset must be non-negative, got ${options.offset}`);
     }
 
-    // Validate criteria column names exist in schema
-    for (const column of criteriaKeys) {
+    this.validateCriteria(criteria);
+
+    // Validate orderBy column names
+    if (options?.orderBy) {
+      const validDirections = ["ASC", "DESC"];
+      for (const { column, direction } of options.orderBy) {
+        if (!(column in this.schema.properties)) {
+          throw new StorageInvalidColumnError(String(column));
+        }
+        if (!validDirections.includes(direction)) {
+          throw new StorageValidationError(
+            `Invalid sort direction "${direction}". Must be "ASC" or "DESC"`
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Validates criteria column names, operators and operator values, descending
+   * into `$or` groups.
+   * @throws StorageInvalidColumnError if any column name is not in the schema
+   * @throws StorageValidationError if an operator or its value is invalid
+   */
+  protected validateCriteria(criteria: SearchCriteria<Entity>): void {
+    for (const column of Object.keys(criteria) as Array<keyof Entity | "$or">) {
+      if (column === "$or") {
+        const group = criteria.$or;
+        if (!Array.isArray(group) || group.length === 0) {
+          throw new StorageValidationError(`"$or" must be a non-empty array of criteria`);
+        }
+        for (const alternative of group) {
+          if (Object.keys(alternative).length === 0) {
+            throw new StorageEmptyCriteriaError();
+          }
+          this.validateCriteria(alternative);
+        }
+        continue;
+      }
       if (!(column in this.schema.properties)) {
         throw new StorageInvalidColumnError(String(column));
       }
       // Validate operator values at runtime
       const criterion = criteria[column];
       if (isSearchCondition(criterion)) {
-        const validOperators = ["=", "<", "<=", ">", ">="];
-        if (!validOperators.includes(criterion.operator)) {
+        const { operator, value } = criterion;
+        if (!SEARCH_OPERATORS.includes(operator)) {
           throw new StorageValidationError(
-            `Invalid operator "${criterion.operator}". Must be one of: ${validOperators.join(", ")}`
+            `Invalid operator "${operator}". Must be one of: ${SEARCH_OPERATORS.join(", ")}`
           );
         }
+        if ((operator === "IN" || operator === "NOT IN") && !Array.isArray(value)) {
+          throw new StorageValidationError(`Operator "${operator}" requires an array value`);
+        }
+        if ((operator === "LIKE" || operator === "STARTS WITH") && typeof value !== "string") {
+          throw new StorageValidationError(`Operator "${operator}" requires a string value`);
+        }
       }
     }
+  }
 
-    // Validate orderBy column names
-    if (options?.orderBy) {
-      const validDirections = ["ASC", "DESC"];
-      for (const { column, direction } of options.orderBy) {
-        if (!(column in this.schema.properties)) {
-          throw new StorageInvalidColumnError(String(column));
+  /**
+   * Validates aggregate() parameters.
+   * @throws StorageInvalidColumnError if a column is not in the schema
+   * @throws StorageValidationError if an aggregate is malformed
+   */
+  protected validateAggregateParams(
+    aggregates: Record<string, AggregateSpec<Entity>>,
+    options?: AggregateOptions<Entity>
+  ): void {
+    const names = Object.keys(aggregates);
+    if (names.length === 0) {
+      throw new StorageValidationError("aggregate() requires at least one aggregate");
+    }
+    for (const name of names) {
+      // Names become SQL column aliases
+      if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name)) {
+        throw new StorageValidationError(`Invalid aggregate name "${name}"`);
+      }
+      if (name in this.schema.properties) {
+        throw new StorageValidationError(
+          `Aggregate name "${name}" collides with a column of the same name`
+        );
+      }
+      const { fn, column } = aggregates[name];
+      if (!["count", "sum", "avg", "min", "max"].includes(fn)) {
+        throw new StorageValidationError(`Invalid aggregate function "${fn}"`);
+      }
+      if (column === undefined) {
+        if (fn !== "count") {
+          throw new StorageValidationError(`Aggregate "${fn}" requires a column`);
         }
-        if (!validDirections.includes(direction)) {
-          throw new StorageValidationError(
-            `Invalid sort direction "${direction}". Must be "ASC" or "DESC"`
-          );
+      } else if (!(column in this.schema.properties)) {
+        throw new StorageInvalidColumnError(String(column));
+      }
+    }
+    for (const column of options?.groupBy ?? []) {
+      if (!(column in this.schema.properties)) {
+        throw new StorageInvalidColumnError(String(column));
+      }
+    }
+    if (options?.criteria) {
+      if (Object.keys(options.criteria).length === 0) {
+        throw new StorageEmptyCriteriaError();
+      }
+      this.validateCriteria(options.criteria);
+    }
+  }
+
+  /**
+   * Checks whether an entity matches search criteria, with the same semantics
+   * as the SQL implementations. Used by storages that filter in memory.
+   */
+  protected matchesCriteria(entity: Entity, criteria: SearchCriteria<Entity>): boolean {
+    for (const column of Object.keys(criteria) as Array<keyof Entity | "$or">) {
+      if (column === "$or") {
+        const group = criteria.$or ?? [];
+        if (!group.some((alternative) => this.matchesCriteria(entity, alternative))) {
+          return false;
         }
+        continue;
+      }
+      const criterion = criteria[column];
+      const condition: SearchCondition<Entity[keyof Entity]> = isSearchCondition<
+        Entity[keyof Entity]
+      >(criterion)
+        ? criterion
+        : criterion === null
+          ? { operator: "IS NULL" }
+          : { operator: "=", value: criterion as Entity[keyof Entity] };
+      if (!matchesCondition(entity[column], condition)) {
+        return false;
       }
     }
+    return true;
+  }
+
+  /**
+   * Applies ordering, offset and limit to entities filtered in memory.
+   */
+  protected applyQueryOptions(entities: Entity[], options?: QueryOptions<Entity>): Entity[] {
+    let results = entities;
+    if (options?.orderBy && options.orderBy.length > 0) {
+      results = [...results].sort((a, b) => {
+        for (const { column, direction } of options.orderBy!) {
+          const order = compareValues(a[column], b[column]);
+          if (order !== 0) return direction === "ASC" ? order : -order;
+        }
+        return 0;
+      });
+    }
+    if (options?.offset !== undefined) {
+      results = results.slice(options.offset);
+    }
+    if (options?.limit !== undefined) {
+      results = results.slice(0, options.limit);
+    }
+    return results;
+  }
+
+  /**
+   * Groups entities and computes aggregates over them in memory.
+   */
+  protected aggregateEntities<Aggregates extends Record<string, AggregateSpec<Entity>>>(
+    entities: readonly Entity[],
+    aggregates: Aggregates,
+    groupBy: ReadonlyArray<keyof Entity> = []
+  ): Array<AggregateResult<Entity, Aggregates>> {
+    const groups = new Map<string, Entity[]>();
+    if (groupBy.length === 0) {
+      groups.set("", [...entities]);
+    } else {
+      for (const entity of entities) {
+        const groupKey = JSON.stringify(groupBy.map((column) => entity[column] ?? null));
+        const group = groups.get(groupKey);
+        if (group) group.push(entity);
+        else groups.set(groupKey, [entity]);
+      }
+    }
+
+    const rows: Array<Record<string, unknown>> = [];
+    for (const members of groups.values()) {
+      const row: Record<string, unknown> = {};
+      for (const column of groupBy) {
+        row[column as string] = members[0][column] ?? null;
+      }
+      for (const [name, { fn, column }] of Object.entries(aggregates)) {
+        row[name] = computeAggregate(members, fn, column);
+      }
+      rows.push(row);
+    }
+
+    rows.sort((a, b) => {
+      for (const column of groupBy) {
+        const order = compareValues(a[column as string], b[column as string]);
+        if (order !== 0) return order;
+      }
+      return 0;
+    });
+    return rows as Array<AggregateResult<Entity, Aggregates>>;
   }
 
   /**
@@ -672,6 +895,98 @@ export abstract class BaseTabularStorage<
     );
   }
 
+  /**
+   * Registers versioned migration steps, run by `setupDatabase()` on backends
+   * that persist tables. Call before `setupDatabase()`.
+   *
+   * @param migrations - Steps with unique positive integer versions
+   * @returns This storage, for chaining
+   */
+  withMigrations(migrations: readonly TabularMigration<this>[]): this {
+    this.migrations = sortTabularMigrations(migrations);
+    return this;
+  }
+
+  /**
+   * Version of the schema: the highest registered migration version, or 0
+   */
+  get schemaVersion(): number {
+    return this.migrations.at(-1)?.version ?? 0;
+  }
+
+  /**
+   * Versions of the registered migrations recorded as applied to the table,
+   * in ascending order. Empty for backends without persistent tables.
+   */
+  async appliedMigrationVersions(): Promise<number[]> {
+    const target = this.migrationTarget();
+    if (!target) return [];
+    return [...(await target.readAppliedVersions())].sort((a, b) => a - b);
+  }
+
+  /**
+   * Live-table operations for the migration runner, or undefined for
+   * backends whose tables do not outlive the process
+   */
+  protected migrationTarget(): TabularMigrationTarget | undefined {
+    return undefined;
+  }
+
+  /**
+   * Brings an existing table up to the schema: applies renames from pending
+   * migrations, adds columns missing from the table, then runs the pending
+   * steps and records their versions. A table created by this setup already
+   * matches the schema, so its migrations are recorded without running.
+   *
+   * @param target - Live-table operations of the backend
+   * @param columns - Columns of the table before setup, or undefined if it was just created
+   */
+  protected async migrateTable(
+    target: TabularMigrationTarget,
+    columns: readonly string[] | undefined
+  ): Promise<void> {
+    if (columns === undefined) {
+      for (const { version } of this.migrations) {
+        await target.recordVersion(version);
+      }
+      return;
+    }
+
+    const applied = new Set(this.migrations.length > 0 ? await target.readAppliedVersions() : []);
+    const pending = this.migrations.filter(({ version }) => !applied.has(version));
+    const fromVersion = Math.max(0, ...applied);
+    const live = new Set(columns);
+
+    for (const migration of pending) {
+      for (const [from, to] of Object.entries(migration.renameColumns ?? {})) {
+        // Skip renames a partially applied earlier run already made
+        if (live.has(from) && !live.has(to)) {
+          await target.renameColumn(from, to);
+          live.delete(from);
+          live.add(to);
+        }
+      }
+    }
+
+    const primaryKeys = new Set<string>(this.primaryKeyNames as ReadonlyArray<string>);
+    const required = new Set<string>(this.schema.required ?? []);
+    for (const [name, typeDef] of Object.entries<JsonSchema>(this.schema.properties)) {
+      if (live.has(name)) continue;
+      if (primaryKeys.has(name)) {
+        throw new StorageValidationError(
+          `Cannot add primary key column "${name}" to existing table; recreate the table instead`
+        );
+      }
+      await target.addColumn(name, typeDef, required.has(name));
+      live.add(name);
+    }
+
+    for (const migration of pending) {
+      await migration.up?.({ storage: this, fromVersion });
+      await target.recordVersion(migration.version);
+    }
+  }
+
   /**
    * Sets up the database/storage for the repository.
    * Must be called before using any other methods (except for in-memory implementations).
@@ -696,3 +1011,111 @@ export abstract class BaseTabularStorage<
     this.destroy();
   }
 }
+
+/**
+ * Orders values the way the SQL storages do: NULLs first, then by value.
+ */
+function compareValues(a: unknown, b: unknown): number {
+  if (a == null && b == null) return 0;
+  if (a == null) return -1;
+  if (b == null) return 1;
+  const x = a as string | number;
+  const y = b as string | number;
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+const likePatternCache = new Map<string, RegExp>();
+
+/**
+ * Converts a LIKE pattern to a case-insensitive RegExp: `%` matches any run of
+ * characters, `_` one character, and `\` escapes the next character.
+ */
+function likeToRegExp(pattern: string): RegExp {
+  let regex = likePatternCache.get(pattern);
+  if (regex) return regex;
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "\\" && i + 1 < pattern.length) {
+      source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    } else if (char === "%") {
+      source += "[\\s\\S]*";
+    } else if (char === "_") {
+      source += "[\\s\\S]";
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  regex = new RegExp(`^${source}$`, "i");
+  if (likePatternCache.size >= 256) likePatternCache.clear();
+  likePatternCache.set(pattern, regex);
+  return regex;
+}
+
+function matchesCondition<T>(columnValue: T, condition: SearchCondition<T>): boolean {
+  const isNull = columnValue === null || columnValue === undefined;
+  switch (condition.operator) {
+    case "IS NULL":
+      return isNull;
+    case "IS NOT NULL":
+      return !isNull;
+    case "=":
+      return columnValue === condition.value;
+  }
+  // Like SQL, NULL never satisfies any other comparison
+  if (isNull) return false;
+  const cv = columnValue as unknown as string | number;
+  switch (condition.operator) {
+    case "!=":
+      return columnValue !== condition.value;
+    case "<":
+      return cv < (condition.value as unknown as string | number);
+    case "<=":
+      return cv <= (condition.value as unknown as string | number);
+    case ">":
+      return cv > (condition.value as unknown as string | number);
+    case ">=":
+      return cv >= (condition.value as unknown as string | number);
+    case "IN":
+      return condition.value.includes(columnValue);
+    case "NOT IN":
+      return !condition.value.includes(columnValue);
+    case "LIKE":
+      return likeToRegExp(condition.value).test(String(cv));
+    case "STARTS WITH":
+      return typeof cv === "string" && cv.startsWith(condition.value);
+    default:
+      return false;
+  }
+}
+
+function computeAggregate<Entity>(
+  entities: readonly Entity[],
+  fn: AggregateSpec<Entity>["fn"],
+  column: keyof Entity | undefined
+): AggregateValue {
+  if (column === undefined) return entities.length;
+  const values = entities
+    .map((entity) => entity[column])
+    .filter((value) => value !== null && value !== undefined);
+  switch (fn) {
+    case "count":
+      return values.length;
+    case "sum":
+    case "avg": {
+      if (values.length === 0) return null;
+      const sum = values.reduce((total, value) => total + Number(value), 0);
+      return fn === "sum" ? sum : sum / values.length;
+    }
+    case "min":
+    case "max": {
+      if (values.length === 0) return null;
+      let best = values[0];
+      for (const value of values) {
+        const order = compareValues(value, best);
+        if (fn === "min" ? order < 0 : order > 0) best = value;
+      }
+      return best as AggregateValue;
+    }
+  }
+}
@@ -9,6 +9,9 @@ import { createServiceToken, getLogger } from "@workglow/util";
 import { BaseTabularStorage, ClientProvidedKeysOption } from "./BaseTabularStorage";
 import { InMemoryTabularStorage } from "./InMemoryTabularStorage";
 import {
+  AggregateOptions,
+  AggregateResult,
+  AggregateSpec,
   AnyTabularStorage,
   AutoGeneratedKeys,
   DeleteSearchCriteria,
@@ -303,6 +306,21 @@ export class CachedTabularStorage<
     return await this.cache.query(criteria, options);
   }
 
+  /**
+   * Computes aggregates over the cache, which holds all data after initialization.
+   *
+   * @param aggregates - Aggregates to compute, keyed by the name they are returned under
+   * @param options - Optional criteria and groupBy columns
+   * @returns One row per group, ordered by the groupBy columns
+   */
+  override async aggregate<Aggregates extends Record<string, AggregateSpec<Entity>>>(
+    aggregates: Aggregates,
+    options?: AggregateOptions<Entity>
+  ): Promise<Array<AggregateResult<Entity, Aggregates>>> {
+    await this.initializeCache();
+    return await this.cache.aggregate(aggregates, options);
+  }
+
   /**
    * Deletes all entries matching the specified search criteria.
    * Supports multiple columns with optional comparison operators.
@@ -327,6 +345,19 @@ export class CachedTabularStorage<
     this.cacheInitialized = false;
   }
 
+  /**
+   * Runs `fn` in a transaction of the durable repository. If it rolls back,
+   * the cache is invalidated, since it already holds the rolled-back writes.
+   */
+  override async withTransaction<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await this.durable.withTransaction(fn);
+    } catch (error) {
+      await this.invalidateCache();
+      throw error;
+    }
+  }
+
   /**
    * Refreshes the cache by reloading all data from the durable repository
    */
@@ -32,7 +32,6 @@ import {
   TabularChangePayload,
   TabularSubscribeOptions,
 } from "./ITabularStorage";
-import { StorageUnsupportedError } from "./StorageError";
 
 export const FS_FOLDER_TABULAR_REPOSITORY = createServiceToken<AnyTabularStorage>(
   "storage.tabularRepository.fsFolder"
@@ -351,14 +350,26 @@ export class FsFolderTabularStorage<
   }
 
   /**
-   * Query is not supported for filesystem repository.
-   * @throws StorageUnsupportedError always
+   * Queries entries matching the specified search criteria with optional ordering, limit, and offset.
+   * The folder has no indexes, so every file is read and filtered in memory.
+   *
+   * @param criteria - Object with column names as keys and values or SearchConditions
+   * @param options - Optional ordering, limit, and offset options
+   * @returns Array of matching entities or undefined if no matches found
    */
   async query(
-    _criteria: SearchCriteria<Entity>,
-    _options?: QueryOptions<Entity>
+    criteria: SearchCriteria<Entity>,
+    options?: QueryOptions<Entity>
   ): Promise<Entity[] | undefined> {
-    throw new StorageUnsupportedError("query", "FsFolderTabularStorage");
+    this.validateQueryParams(criteria, options);
+    const all = (await this.getAll()) ?? [];
+    const results = this.applyQueryOptions(
+      all.filter((entity) => this.matchesCriteria(entity, criteria)),
+      options
+    );
+    const result = results.length > 0 ? results : undefined;
+    this.events.emit("query", criteria as Partial<Entity>, result);
+    return result;
   }
 
   /**
@@ -19,7 +19,6 @@ import {
   TabularChangePayload,
   TabularSubscribeOptions,
 } from "./ITabularStorage";
-import { StorageUnsupportedError } from "./StorageError";
 
 export const HF_TABULAR_REPOSITORY = createServiceToken<AnyTabularStorage>(
   "storage.tabularRepository.huggingface"
@@ -381,8 +380,10 @@ export class HuggingFaceTabularStorage<
   }
 
   /**
-   * Queries entities using the /filter endpoint for equality criteria.
-   * Non-equality operators are not supported by the HuggingFace API.
+   * Queries entities. Top-level equality criteria are pushed down to the
+   * /filter endpoint; other operators and `$or` groups, which the
+   * HuggingFace API cannot express, are applied in JS. Without any equality
+   * criteria this scans the whole dataset.
    *
    * @param criteria - Object with column names as keys and values or SearchConditions
    * @param options - Optional ordering, limit, and offset options
@@ -394,40 +395,47 @@ export class HuggingFaceTabularStorage<
   ): Promise<Entity[] | undefined> {
     this.validateQueryParams(criteria, options);
 
-    // Build WHERE clause — only equality is supported by HF API
+    // Build WHERE clause from the equality criteria — the only kind the HF API supports
     const whereConditions: string[] = [];
-    for (const [k, v] of Object.entries(criteria)) {
+    for (const [k, criterion] of Object.entries(criteria)) {
+      if (k === "$or") continue;
+      const v = isSearchCondition(criterion)
+        ? criterion.operator === "="
+          ? criterion.value
+          : undefined
+        : criterion;
       if (v === undefined || v === null) continue;
-      if (isSearchCondition(v)) {
-        if (v.operator !== "=") {
-          throw new StorageUnsupportedError(
-            `Operator "${v.operator}" in query`,
-            "HuggingFaceTabularStorage"
-          );
-        }
-        const val = v.value;
-        if (typeof val === "string") {
-          const escaped = val.replace(/\\/g, "\\\\").replace(/'/g, "\\'");
-          whereConditions.push(`${k}='${escaped}'`);
-        } else {
-          whereConditions.push(`${k}=${val}`);
-        }
+      if (typeof v === "string") {
+        const escaped = v.replace(/\\/g, "\\\\").replace(/'/g, "\\'");
+        whereConditions.push(`${k}='${escaped}'`);
       } else {
-        if (typeof v === "string") {
-          const escaped = v.replace(/\\/g, "\\\\").replace(/'/g, "\\'");
-          whereConditions.push(`${k}='${escaped}'`);
-        } else {
-          whereConditions.push(`${k}=${v}`);
-        }
+        whereConditions.push(`${k}=${v}`);
       }
     }
 
-    if (whereConditions.length === 0) {
+    const candidates =
+      whereConditions.length > 0
+        ? await this.fetchFiltered(whereConditions.join(" AND "))
+        : ((await this.getAll()) ?? []);
+    const results = this.applyQueryOptions(
+      candidates.filter((entity) => this.matchesCriteria(entity, criteria)),
+      options
+    );
+
+    if (results.length > 0) {
+      this.events.emit("query", criteria as Partial<Entity>, results);
+      return results;
+    } else {
+      this.events.emit("query", criteria as Partial<Entity>, undefined);
       return undefined;
     }
+  }
 
-    const where = whereConditions.join(" AND ");
-    const allEntities: Entity[] = [];
+  /**
+   * Fetches every row matching a /filter WHERE clause
+   */
+  private async fetchFiltered(where: string): Promise<Entity[]> {
+    const entities: Entity[] = [];
     let fetchOffset = 0;
     const fetchLimit = 100;
 
@@ -439,7 +447,7 @@ export class HuggingFaceTabularStorage<
       });
 
       for (const row of data.rows) {
-        allEntities.push(this.rowToEntity(row));
+        entities.push(this.rowToEntity(row));
       }
 
       fetchOffset += data.rows.length;
@@ -448,42 +456,7 @@ export class HuggingFaceTabularStorage<
         break;
       }
     }
-
-    let results = allEntities;
-
-    // Apply JS-side orderBy
-    if (options?.orderBy && options.orderBy.length > 0) {
-      results.sort((a, b) => {
-        for (const { column, direction } of options.orderBy!) {
-          const aVal = a[column] as string | number | null | undefined;
-          const bVal = b[column] as string | number | null | undefined;
-          if (aVal == null && bVal == null) continue;
-          if (aVal == null) return direction === "ASC" ? -1 : 1;
-          if (bVal == null) return direction === "ASC" ? 1 : -1;
-          if (aVal < bVal) return direction === "ASC" ? -1 : 1;
-          if (aVal > bVal) return direction === "ASC" ? 1 : -1;
-        }
-        return 0;
-      });
-    }
-
-    // Apply offset
-    if (options?.offset !== undefined) {
-      results = results.slice(options.offset);
-    }
-
-    // Apply limit
-    if (options?.limit !== undefined) {
-      results = results.slice(0, options.limit);
-    }
-
-    if (results.length > 0) {
-      this.events.emit("query", criteria as Partial<Entity>, results);
-      return results;
-    } else {
-      this.events.emit("query", criteria as Partial<Entity>, undefined);
-      return undefined;
-    }
+    return entities;
   }
 
   /**
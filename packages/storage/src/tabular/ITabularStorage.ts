@@ -66,20 +66,60 @@ export type JSONValue =
 
 /**
  * Comparison operators for search and deleteSearch operations
+ *
+ * - `=` `!=` `<` `<=` `>` `>=` compare with a single value; rows where the column
+ *   is NULL never match (except `=` with a direct `null` value)
+ * - `IN` / `NOT IN` test membership in an array of values
+ * - `LIKE` matches a pattern where `%` is any run of characters and `_` is one
+ *   character, ignoring case (SQLite folds ASCII letters only); `\` escapes a
+ *   literal `%` or `_`
+ * - `STARTS WITH` matches a case-sensitive string prefix
+ * - `IS NULL` / `IS NOT NULL` take no value
  */
-export type SearchOperator = "=" | "<" | "<=" | ">" | ">=";
+export type SearchOperator =
+  | "="
+  | "!="
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "IN"
+  | "NOT IN"
+  | "LIKE"
+  | "STARTS WITH"
+  | "IS NULL"
+  | "IS NOT NULL";
+
+export const SEARCH_OPERATORS: ReadonlyArray<SearchOperator> = [
+  "=",
+  "!=",
+  "<",
+  "<=",
+  ">",
+  ">=",
+  "IN",
+  "NOT IN",
+  "LIKE",
+  "STARTS WITH",
+  "IS NULL",
+  "IS NOT NULL",
+];
 
 /**
- * A search condition with a value and comparison operator
+ * A search condition with a comparison operator and, except for the NULL
+ * checks, the value to compare with
  */
-export interface SearchCondition<T> {
-  readonly value: T;
-  readonly operator: SearchOperator;
-}
+export type SearchCondition<T> =
+  | { readonly operator: "=" | "!=" | "<" | "<=" | ">" | ">="; readonly value: T }
+  | { readonly operator: "IN" | "NOT IN"; readonly value: ReadonlyArray<T> }
+  | { readonly operator: "LIKE" | "STARTS WITH"; readonly value: string }
+  | { readonly operator: "IS NULL" | "IS NOT NULL"; readonly value?: undefined };
 
 /**
- * Criteria for deleteSearch operations supporting multiple columns.
+ * Criteria for query and deleteSearch operations supporting multiple columns.
  * Each column can have either a direct value (equality) or a SearchCondition with an operator.
+ * All column conditions must match (AND); `$or` additionally requires at least one of
+ * its alternatives to match, and alternatives may nest their own `$or`.
  *
  * @example
  * // Equality match
@@ -90,9 +130,14 @@ export interface SearchCondition<T> {
  *
  * // Multiple columns
  * { category: "electronics", createdAt: { value: date, operator: "<" } }
+ *
+ * // OR group: electronics under 100, or anything on sale
+ * { $or: [{ category: "electronics", price: { value: 100, operator: "<" } }, { onSale: true }] }
  */
 export type DeleteSearchCriteria<Entity> = {
   readonly [K in keyof Entity]?: Entity[K] | SearchCondition<Entity[K]>;
+} & {
+  readonly $or?: ReadonlyArray<DeleteSearchCriteria<Entity>>;
 };
 
 export type SearchCriteria<Entity> = DeleteSearchCriteria<Entity>;
@@ -110,17 +155,46 @@ export interface QueryOptions<Entity> {
   readonly offset?: number;
 }
 
+/**
+ * Aggregate functions for aggregate(). `count` without a column counts rows;
+ * with a column it counts the rows where that column is not NULL. The other
+ * functions skip NULLs and return null when there is nothing to aggregate.
+ */
+export type AggregateFunction = "count" | "sum" | "avg" | "min" | "max";
+
+export interface AggregateSpec<Entity> {
+  readonly fn: AggregateFunction;
+  /** Column to aggregate; required for everything but `count` */
+  readonly column?: keyof Entity;
+}
+
+export interface AggregateOptions<Entity> {
+  /** Only aggregate the rows matching these criteria */
+  readonly criteria?: SearchCriteria<Entity>;
+  /** Columns to group by; each result row carries the group's values for them */
+  readonly groupBy?: ReadonlyArray<keyof Entity>;
+}
+
+export type AggregateValue = number | string | boolean | null;
+
+/**
+ * One result row of aggregate(): the groupBy column values plus one value per
+ * aggregate, keyed by the name it was requested under
+ */
+export type AggregateResult<Entity, Aggregates> = Partial<Entity> & {
+  readonly [K in keyof Aggregates]: AggregateValue;
+};
+
 /**
  * Type guard to check if a value is a SearchCondition
  */
 export function isSearchCondition<T>(value: unknown): value is SearchCondition<T> {
-  return (
-    typeof value === "object" &&
-    value !== null &&
-    "value" in value &&
-    "operator" in value &&
-    typeof (value as SearchCondition<T>).operator === "string"
-  );
+  if (typeof value !== "object" || value === null || !("operator" in value)) {
+    return false;
+  }
+  const { operator } = value as { operator: unknown };
+  if (typeof operator !== "string") return false;
+  return "value" in value || operator === "IS NULL" || operator === "IS NOT NULL";
 }
 
 /**
@@ -247,6 +321,42 @@ export interface ITabularStorage<
     options?: QueryOptions<Entity>
   ): Promise<Entity[] | undefined>;
 
+  /**
+   * Computes aggregates over the entries matching the optional criteria, one
+   * result row per group (or a single row without groupBy). Groups are ordered
+   * by the groupBy columns ascending, NULLs first.
+   *
+   * @param aggregates - Aggregates to compute, keyed by the name they are returned under
+   * @param options - Optional criteria and groupBy columns
+   * @example
+   * // Order count and revenue per category
+   * await repo.aggregate(
+   *   { orders: { fn: "count" }, revenue: { fn: "sum", column: "total" } },
+   *   { groupBy: ["category"] }
+   * );
+   */
+  aggregate<Aggregates extends Record<string, AggregateSpec<Entity>>>(
+    aggregates: Aggregates,
+    options?: AggregateOptions<Entity>
+  ): Promise<Array<AggregateResult<Entity, Aggregates>>>;
+
+  /**
+   * Counts the entries matching the criteria, or all entries without criteria.
+   */
+  count(criteria?: SearchCriteria<Entity>): Promise<number>;
+
+  /**
+   * Runs `fn` so that the writes it makes commit or roll back together.
+   *
+   * SQLite and PostgreSQL storages open a transaction on their connection, which
+   * covers every storage sharing that connection — tabular, KV and queue alike.
+   * In-memory storage restores its own entries if `fn` rejects. Other backends,
+   * IndexedDB included, apply each write as it happens and roll nothing back.
+   *
+   * @returns The result of `fn`
+   */
+  withTransaction<T>(fn: () => Promise<T>): Promise<T>;
+
   /**
    * Subscribes to changes in the repository (including remote changes).
    * @param callback - Function called when a change occurs
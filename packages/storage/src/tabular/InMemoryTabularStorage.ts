@@ -6,6 +6,7 @@
 
 import { DataPortSchemaObject, FromSchema, TypedArraySchemaOptions } from "@workglow/util/schema";
 import { createServiceToken, makeFingerprint, uuid4 } from "@workglow/util";
+import { runSerialized } from "../util/TransactionScope";
 import {
   BaseTabularStorage,
   ClientProvidedKeysOption,
@@ -16,7 +17,6 @@ import {
   AutoGeneratedKeys,
   DeleteSearchCriteria,
   InsertEntity,
-  isSearchCondition,
   QueryOptions,
   SearchCriteria,
   SimplifyPrimaryKey,
@@ -102,47 +102,49 @@ export class InMemoryTabularStorage<
    * @emits 'put' event with the stored entity when successful
    */
   async put(value: InsertType): Promise<Entity> {
-    let entityToStore = value as unknown as Entity;
-    const savedCounter = this.autoIncrementCounter;
-
-    try {
-      // Handle auto-generated keys
-      if (this.hasAutoGeneratedKey() && this.autoGeneratedKeyName) {
-        const keyName = this.autoGeneratedKeyName as string;
-        const clientProvidedValue = (value as Record<string, unknown>)[keyName];
-        const hasClientValue = clientProvidedValue !== undefined && clientProvidedValue !== null;
-
-        let shouldGenerate = false;
-        if (this.clientProvidedKeys === "never") {
-          shouldGenerate = true;
-        } else if (this.clientProvidedKeys === "always") {
-          if (!hasClientValue) {
-            throw new Error(
-              `Auto-generated key "${keyName}" is required when clientProvidedKeys is "always"`
-            );
+    return await runSerialized(this, this, async () => {
+      let entityToStore = value as unknown as Entity;
+      const savedCounter = this.autoIncrementCounter;
+
+      try {
+        // Handle auto-generated keys
+        if (this.hasAutoGeneratedKey() && this.autoGeneratedKeyName) {
+          const keyName = this.autoGeneratedKeyName as string;
+          const clientProvidedValue = (value as Record<string, unknown>)[keyName];
+          const hasClientValue = clientProvidedValue !== undefined && clientProvidedValue !== null;
+
+          let shouldGenerate = false;
+          if (this.clientProvidedKeys === "never") {
+            shouldGenerate = true;
+          } else if (this.clientProvidedKeys === "always") {
+            if (!hasClientValue) {
+              throw new Error(
+                `Auto-generated key "${keyName}" is required when clientProvidedKeys is "always"`
+              );
+            }
+            shouldGenerate = false;
+          } else {
+            shouldGenerate = !hasClientValue;
           }
-          shouldGenerate = false;
-        } else {
-          shouldGenerate = !hasClientValue;
-        }
 
-        if (shouldGenerate) {
-          const generatedValue = this.generateKeyValue(keyName, this.autoGeneratedKeyStrategy!);
-          entityToStore = { ...value, [keyName]: generatedValue } as Entity;
+          if (shouldGenerate) {
+            const generatedValue = this.generateKeyValue(keyName, this.autoGeneratedKeyStrategy!);
+            entityToStore = { ...value, [keyName]: generatedValue } as Entity;
+          }
         }
-      }
 
-      const { key } = this.separateKeyValueFromCombined(entityToStore);
-      const id = await makeFingerprint(key);
-      this._lastPutWasInsert = !this.values.has(id);
-      this.values.set(id, entityToStore);
-    } catch (e) {
-      this.autoIncrementCounter = savedCounter;
-      throw e;
-    }
+        const { key } = this.separateKeyValueFromCombined(entityToStore);
+        const id = await makeFingerprint(key);
+        this._lastPutWasInsert = !this.values.has(id);
+        this.values.set(id, entityToStore);
+      } catch (e) {
+        this.autoIncrementCounter = savedCounter;
+        throw e;
+      }
 
-    this.events.emit("put", entityToStore);
-    return entityToStore;
+      this.events.emit("put", entityToStore);
+      return entityToStore;
+    });
   }
 
   /**
@@ -174,10 +176,12 @@ export class InMemoryTabularStorage<
    * @emits 'delete' event with the fingerprint ID when successful
    */
   async delete(value: PrimaryKey | Entity): Promise<void> {
-    const { key } = this.separateKeyValueFromCombined(value as Entity);
-    const id = await makeFingerprint(key);
-    this.values.delete(id);
-    this.events.emit("delete", key as keyof Entity);
+    return await runSerialized(this, this, async () => {
+      const { key } = this.separateKeyValueFromCombined(value as Entity);
+      const id = await makeFingerprint(key);
+      this.values.delete(id);
+      this.events.emit("delete", key as keyof Entity);
+    });
   }
 
   /**
@@ -185,8 +189,32 @@ export class InMemoryTabularStorage<
    * @emits 'clearall' event when successful
    */
   async deleteAll(): Promise<void> {
-    this.values.clear();
-    this.events.emit("clearall");
+    return await runSerialized(this, this, async () => {
+      this.values.clear();
+      this.events.emit("clearall");
+    });
+  }
+
+  /**
+   * Runs `fn` and, if it rejects, restores the entries this storage held
+   * before. Writes from other callers wait until `fn` settles, so the restore
+   * only undoes the writes of `fn`; in browsers, which cannot tell callers
+   * apart, they do not wait and are undone as well. Only this storage is
+   * restored, and events already emitted stand; nest calls to cover several
+   * in-memory storages.
+   */
+  override async withTransaction<T>(fn: () => Promise<T>): Promise<T> {
+    return await runSerialized(this, this, async () => {
+      const values = new Map(this.values);
+      const autoIncrementCounter = this.autoIncrementCounter;
+      try {
+        return await fn();
+      } catch (error) {
+        this.values = values;
+        this.autoIncrementCounter = autoIncrementCounter;
+        throw error;
+      }
+    });
   }
 
   /**
@@ -263,58 +291,26 @@ export class InMemoryTabularStorage<
    * @param criteria - Object with column names as keys and values or SearchConditions
    */
   async deleteSearch(criteria: DeleteSearchCriteria<Entity>): Promise<void> {
-    const criteriaKeys = Object.keys(criteria) as Array<keyof Entity>;
-    if (criteriaKeys.length === 0) {
-      return;
-    }
+    return await runSerialized(this, this, async () => {
+      const criteriaKeys = Object.keys(criteria) as Array<keyof Entity>;
+      if (criteriaKeys.length === 0) {
+        return;
+      }
 
-    // Convert to array first to avoid iterator issues when modifying the Map
-    const entries = Array.from(this.values.entries());
-
-    const entriesToDelete = entries.filter(([_, entity]) => {
-      // All criteria must match (AND logic)
-      for (const column of criteriaKeys) {
-        const criterion = criteria[column];
-        const columnValue = entity[column];
-
-        if (isSearchCondition(criterion)) {
-          const { value, operator } = criterion;
-          // Cast needed for generic comparison operators across Entity value types
-          const v = value as string | number;
-          const cv = columnValue as string | number | null | undefined;
-          switch (operator) {
-            case "=":
-              if (cv !== v) return false;
-              break;
-            case "<":
-              if (cv === null || cv === undefined || !(cv < v)) return false;
-              break;
-            case "<=":
-              if (cv === null || cv === undefined || !(cv <= v)) return false;
-              break;
-            case ">":
-              if (cv === null || cv === undefined || !(cv > v)) return false;
-              break;
-            case ">=":
-              if (cv === null || cv === undefined || !(cv >= v)) return false;
-              break;
-            default:
-              return false;
-          }
-        } else {
-          // Direct value means equality
-          if (columnValue !== criterion) return false;
-        }
+      // Convert to array first to avoid iterator issues when modifying the Map
+      const entries = Array.from(this.values.entries());
+
+      const entriesToDelete = entries.filter(([_, entity]) =>
+        this.matchesCriteria(entity, criteria)
+      );
+
+      // Delete the filtered entries and emit events for each
+      for (const [id, entity] of entriesToDelete) {
+        this.values.delete(id);
+        const { key } = this.separateKeyValueFromCombined(entity);
+        this.events.emit("delete", key as keyof Entity);
       }
-      return true;
     });
-
-    // Delete the filtered entries and emit events for each
-    for (const [id, entity] of entriesToDelete) {
-      this.values.delete(id);
-      const { key } = this.separateKeyValueFromCombined(entity);
-      this.events.emit("delete", key as keyof Entity);
-    }
   }
 
   /**
@@ -330,65 +326,10 @@ export class InMemoryTabularStorage<
   ): Promise<Entity[] | undefined> {
     this.validateQueryParams(criteria, options);
 
-    const criteriaKeys = Object.keys(criteria) as Array<keyof Entity>;
-
-    let results: Entity[] = Array.from(this.values.values()).filter((entity) => {
-      for (const column of criteriaKeys) {
-        const criterion = criteria[column];
-        const columnValue = entity[column];
-
-        if (isSearchCondition(criterion)) {
-          const { value, operator } = criterion;
-          const v = value as string | number;
-          const cv = columnValue as string | number | null | undefined;
-          switch (operator) {
-            case "=":
-              if (cv !== v) return false;
-              break;
-            case "<":
-              if (cv === null || cv === undefined || !(cv < v)) return false;
-              break;
-            case "<=":
-              if (cv === null || cv === undefined || !(cv <= v)) return false;
-              break;
-            case ">":
-              if (cv === null || cv === undefined || !(cv > v)) return false;
-              break;
-            case ">=":
-              if (cv === null || cv === undefined || !(cv >= v)) return false;
-              break;
-            default:
-              return false;
-          }
-        } else {
-          if (columnValue !== criterion) return false;
-        }
-      }
-      return true;
-    });
-
-    if (options?.orderBy && options.orderBy.length > 0) {
-      results.sort((a, b) => {
-        for (const { column, direction } of options.orderBy!) {
-          const aVal = a[column] as string | number | null | undefined;
-          const bVal = b[column] as string | number | null | undefined;
-          if (aVal == null && bVal == null) continue;
-          if (aVal == null) return direction === "ASC" ? -1 : 1;
-          if (bVal == null) return direction === "ASC" ? 1 : -1;
-          if (aVal < bVal) return direction === "ASC" ? -1 : 1;
-          if (aVal > bVal) return direction === "ASC" ? 1 : -1;
-        }
-        return 0;
-      });
-    }
-
-    if (options?.offset !== undefined) {
-      results = results.slice(options.offset);
-    }
-
-    if (options?.limit !== undefined) {
-      results = results.slice(0, options.limit);
-    }
+    const results = this.applyQueryOptions(
+      Array.from(this.values.values()).filter((entity) => this.matchesCriteria(entity, criteria)),
+      options
+    );
 
     const result = results.length > 0 ? results : undefined;
     this.events.emit("query", criteria as Partial<Entity>, result);
@@ -411,8 +352,9 @@ export class InMemoryTabularStorage<
       callback({ type: this._lastPutWasInsert ? "INSERT" : "UPDATE", new: entity });
     };
 
-    const handleDelete = (_key: keyof Entity) => {
-      callback({ type: "DELETE" });
+    const handleDelete = (key: keyof Entity) => {
+      // Only the primary key columns of the deleted entity are known
+      callback({ type: "DELETE", old: key as unknown as Entity });
     };
 
     const handleClearAll = () => {
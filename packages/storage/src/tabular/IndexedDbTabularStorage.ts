@@ -11,6 +11,11 @@ import {
   ensureIndexedDbTable,
   ExpectedIndexDefinition,
   MigrationOptions,
+  readIndexedDbRecordKeys,
+  readTableMigrationState,
+  TableMigrationState,
+  updateIndexedDbRecords,
+  writeTableMigrationState,
 } from "../util/IndexedDbTable";
 import {
   BaseTabularStorage,
@@ -22,14 +27,14 @@ import {
   AutoGeneratedKeys,
   DeleteSearchCriteria,
   InsertEntity,
-  isSearchCondition,
   QueryOptions,
   SearchCriteria,
-  SearchOperator,
   SimplifyPrimaryKey,
   TabularChangePayload,
   TabularSubscribeOptions,
 } from "./ITabularStorage";
+import { StorageUnsupportedError } from "./StorageError";
+import { schemaDefault, TabularMigrationTarget } from "./TabularMigration";
 
 export const IDB_TABULAR_REPOSITORY = createServiceToken<AnyTabularStorage>(
   "storage.tabularRepository.indexedDb"
@@ -191,13 +196,90 @@ export class IndexedDbTabularStorage<
       pkColumns.length === 1;
 
     // Ensure that our table is created/upgraded only if the structure (indexes) has changed.
-    return await ensureIndexedDbTable(
+    const db = await ensureIndexedDbTable(
       this.table,
       primaryKey,
       expectedIndexes,
       this.migrationOptions,
       useAutoIncrement
     );
+
+    // Migration steps may use the storage API, which would otherwise wait on this setup
+    this.db = db;
+    try {
+      const target = this.createMigrationTarget(db);
+      await this.migrateTable(target, await target.readColumns());
+    } catch (error) {
+      this.db = undefined;
+      db.close();
+      throw error;
+    }
+    return db;
+  }
+
+  /**
+   * The migration target once the database is open. Columns and applied
+   * versions are kept in the metadata store; renames and defaults rewrite
+   * the stored records.
+   */
+  protected override migrationTarget(): TabularMigrationTarget | undefined {
+    return this.db ? this.createMigrationTarget(this.db) : undefined;
+  }
+
+  private createMigrationTarget(db: IDBDatabase): TabularMigrationTarget {
+    const table = this.table;
+    const pkColumns = this.primaryKeyColumns() as string[];
+    let state: TableMigrationState | undefined;
+    const update = async (change: (state: TableMigrationState) => void): Promise<void> => {
+      state ??= (await readTableMigrationState(db, table)) ?? { columns: [], versions: [] };
+      change(state);
+      await writeTableMigrationState(db, table, state);
+    };
+
+    return {
+      readColumns: async () => {
+        const stored = await readTableMigrationState(db, table);
+        if (stored) return stored.columns;
+        // No recorded state: an empty store is treated as new, otherwise the
+        // columns are inferred from the records written before migrations existed
+        const keys = await readIndexedDbRecordKeys(db, table);
+        const columns = keys.length > 0 ? keys : Object.keys(this.schema.properties);
+        await update((current) => (current.columns = columns));
+        return keys.length > 0 ? keys : undefined;
+      },
+      renameColumn: async (from, to) => {
+        if (pkColumns.includes(from) || pkColumns.includes(to)) {
+          throw new StorageUnsupportedError(
+            `Renaming primary key column "${from}"`,
+            "IndexedDbTabularStorage"
+          );
+        }
+        await updateIndexedDbRecords(db, table, (record) => {
+          if (!(from in record)) return undefined;
+          const { [from]: value, ...rest } = record;
+          return { ...rest, [to]: value };
+        });
+        await update((current) => {
+          current.columns = [...current.columns.filter((column) => column !== from), to];
+        });
+      },
+      addColumn: async (name, typeDef) => {
+        const value = schemaDefault(typeDef);
+        if (value !== undefined) {
+          await updateIndexedDbRecords(db, table, (record) =>
+            record[name] === undefined ? { ...record, [name]: value } : undefined
+          );
+        }
+        await update((current) => {
+          if (!current.columns.includes(name)) current.columns.push(name);
+        });
+      },
+      readAppliedVersions: async () => (await readTableMigrationState(db, table))?.versions ?? [],
+      recordVersion: async (version) =>
+        update((current) => {
+          if (!current.versions.includes(version)) current.versions.push(version);
+        }),
+    };
   }
 
   /**
@@ -509,55 +591,6 @@ export class IndexedDbTabularStorage<
     });
   }
 
-  /**
-   * Checks if a record matches all criteria conditions.
-   * @param record - The record to check
-   * @param criteria - The search criteria
-   * @returns true if all conditions match
-   */
-  private matchesCriteria(record: Entity, criteria: DeleteSearchCriteria<Entity>): boolean {
-    for (const column of Object.keys(criteria) as Array<keyof Entity>) {
-      const criterion = criteria[column];
-      const recordValue = record[column];
-
-      let operator: SearchOperator = "=";
-      let value: Entity[keyof Entity];
-
-      if (isSearchCondition(criterion)) {
-        operator = criterion.operator;
-        value = criterion.value as Entity[keyof Entity];
-      } else {
-        value = criterion as Entity[keyof Entity];
-      }
-
-      // Skip null values for comparison operators
-      if (operator !== "=" && (recordValue === null || recordValue === undefined)) {
-        return false;
-      }
-
-      switch (operator) {
-        case "=":
-          if (recordValue !== value) return false;
-          break;
-        case "<":
-          if (!(recordValue < value)) return false;
-          break;
-        case "<=":
-          if (!(recordValue <= value)) return false;
-          break;
-        case ">":
-          if (!(recordValue > value)) return false;
-          break;
-        case ">=":
-          if (!(recordValue >= value)) return false;
-          break;
-        default:
-          return false;
-      }
-    }
-    return true;
-  }
-
   /**
    * Deletes all entries matching the specified search criteria.
    * Supports multiple columns with optional comparison operators.
@@ -654,33 +687,11 @@ export class IndexedDbTabularStorage<
       getAllRequest.onsuccess = () => {
         const allRecords: Entity[] = getAllRequest.result;
 
-        let results: Entity[] = allRecords.filter((record) =>
-          this.matchesCriteria(record, criteria)
+        const results = this.applyQueryOptions(
+          allRecords.filter((record) => this.matchesCriteria(record, criteria)),
+          options
         );
 
-        if (options?.orderBy && options.orderBy.length > 0) {
-          results.sort((a, b) => {
-            for (const { column, direction } of options.orderBy!) {
-              const aVal = a[column] as string | number | null | undefined;
-              const bVal = b[column] as string | number | null | undefined;
-              if (aVal == null && bVal == null) continue;
-              if (aVal == null) return direction === "ASC" ? -1 : 1;
-              if (bVal == null) return direction === "ASC" ? 1 : -1;
-              if (aVal < bVal) return direction === "ASC" ? -1 : 1;
-              if (aVal > bVal) return direction === "ASC" ? 1 : -1;
-            }
-            return 0;
-          });
-        }
-
-        if (options?.offset !== undefined) {
-          results = results.slice(options.offset);
-        }
-
-        if (options?.limit !== undefined) {
-          results = results.slice(0, options.limit);
-        }
-
         const result = results.length > 0 ? results : undefined;
         this.events.emit("query", criteria as Partial<Entity>, result);
         resolve(result);
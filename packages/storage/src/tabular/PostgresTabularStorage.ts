@@ -13,22 +13,25 @@ import {
   JsonSchema,
   TypedArraySchemaOptions,
 } from "@workglow/util/schema";
+import { postgresConnection, runPostgresTransaction } from "../util/PostgresTransaction";
 import { BaseSqlTabularStorage } from "./BaseSqlTabularStorage";
 import { ClientProvidedKeysOption } from "./BaseTabularStorage";
 import {
+  AggregateOptions,
+  AggregateResult,
+  AggregateSpec,
   AnyTabularStorage,
   AutoGeneratedKeys,
   DeleteSearchCriteria,
   InsertEntity,
-  isSearchCondition,
   QueryOptions,
   SearchCriteria,
-  SearchOperator,
   SimplifyPrimaryKey,
   TabularChangePayload,
   TabularSubscribeOptions,
   ValueOptionType,
 } from "./ITabularStorage";
+import { TABULAR_MIGRATIONS_TABLE, TabularMigrationTarget } from "./TabularMigration";
 
 export const POSTGRES_TABULAR_REPOSITORY = createServiceToken<AnyTabularStorage>(
   "storage.tabularRepository.postgres"
@@ -54,7 +57,7 @@ export class PostgresTabularStorage<
     AutoGeneratedKeys<Schema>
   >,
 > extends BaseSqlTabularStorage<Schema, PrimaryKeyNames, Entity, PrimaryKey, Value, InsertType> {
-  protected db: Pool;
+  private readonly pool: Pool;
 
   /**
    * Creates a new PostgresTabularStorage instance.
@@ -76,12 +79,26 @@ export class PostgresTabularStorage<
     clientProvidedKeys: ClientProvidedKeysOption = "if-missing"
   ) {
     super(table, schema, primaryKeyNames, indexes, clientProvidedKeys);
-    this.db = db;
+    this.pool = db;
+  }
+
+  /** Connection for queries: the client of the caller's transaction, or the pool */
+  protected get db(): Pool {
+    return postgresConnection(this.pool);
+  }
+
+  /**
+   * Runs `fn` in a transaction on the pool. Tabular, KV and queue storages
+   * built on the same pool send the queries made from `fn` to it.
+   */
+  override async withTransaction<T>(fn: () => Promise<T>): Promise<T> {
+    return await runPostgresTransaction(this.pool, fn);
   }
 
   /**
    * Initializes the database table with the required schema.
-   * Creates the table if it doesn't exist with primary key and value columns.
+   * Creates the table if it doesn't exist with primary key and value columns,
+   * or migrates an existing table to the schema (see `withMigrations()`).
    * Must be called before using any other methods.
    */
   public override async setupDatabase(): Promise<void> {
@@ -91,7 +108,10 @@ export class PostgresTabularStorage<
         PRIMARY KEY (${this.primaryKeyColumnList()}) 
       )
     `;
+    const target = this.migrationTarget();
+    const columns = await target.readColumns();
     await this.db.query(sql);
+    await this.migrateTable(target, columns);
 
     // Create vector indexes if there are vector columns
     await this.createVectorIndexes();
@@ -136,6 +156,55 @@ export class PostgresTabularStorage<
     }
   }
 
+  protected override migrationTarget(): TabularMigrationTarget {
+    const db = this.db;
+    const table = this.table;
+    const ensureVersionTable = () =>
+      db.query(`
+        CREATE TABLE IF NOT EXISTS "${TABULAR_MIGRATIONS_TABLE}" (
+          table_name TEXT NOT NULL,
+          version INTEGER NOT NULL,
+          applied_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+          PRIMARY KEY (table_name, version)
+        )
+      `);
+    return {
+      readColumns: async () => {
+        const result = await db.query(
+          `SELECT column_name FROM information_schema.columns
+           WHERE table_schema = current_schema() AND table_name = $1`,
+          [table]
+        );
+        const rows = result.rows as Array<{ column_name: string }>;
+        return rows.length > 0 ? rows.map((row) => row.column_name) : undefined;
+      },
+      renameColumn: async (from, to) => {
+        await db.query(`ALTER TABLE "${table}" RENAME COLUMN "${from}" TO "${to}"`);
+      },
+      addColumn: async (name, typeDef, required) => {
+        await db.query(
+          `ALTER TABLE "${table}" ADD COLUMN ${this.migrationColumnDefinition(name, typeDef, required, '"')}`
+        );
+      },
+      readAppliedVersions: async () => {
+        await ensureVersionTable();
+        const result = await db.query(
+          `SELECT version FROM "${TABULAR_MIGRATIONS_TABLE}" WHERE table_name = $1`,
+          [table]
+        );
+        return (result.rows as Array<{ version: number }>).map((row) => Number(row.version));
+      },
+      recordVersion: async (version) => {
+        await ensureVersionTable();
+        await db.query(
+          `INSERT INTO "${TABULAR_MIGRATIONS_TABLE}" (table_name, version) VALUES ($1, $2)
+           ON CONFLICT DO NOTHING`,
+          [table, version]
+        );
+      },
+    };
+  }
+
   protected isVectorFormat(format?: string): boolean {
     if (!format) return false;
     return format.startsWith("TypedArray:") || format === "TypedArray";
@@ -226,6 +295,14 @@ export class PostgresTabularStorage<
         return "BOOLEAN";
 
       case "array":
+        // Handle vector format (pgvector extension); TypedArray schemas are arrays
+        if (this.isVectorFormat(actualType.format)) {
+          const dimension = this.getVectorDimensions(actualType);
+          if (typeof dimension === "number") {
+            return `vector(${dimension})`;
+          }
+        }
+
         // Handle array types (if items type is specified)
         if (
           actualType.items &&
@@ -836,35 +913,20 @@ export class PostgresTabularStorage<
     whereClause: string;
     params: ValueOptionType[];
   } {
-    const conditions: string[] = [];
     const params: ValueOptionType[] = [];
-    let paramIndex = 1;
-
-    for (const column of Object.keys(criteria) as Array<keyof Entity>) {
-      if (!(column in this.schema.properties)) {
-        throw new Error(`Schema must have a ${String(column)} field to use deleteSearch`);
-      }
-
-      const criterion = criteria[column];
-      let operator: SearchOperator = "=";
-      let value: Entity[keyof Entity];
-
-      if (isSearchCondition(criterion)) {
-        operator = criterion.operator;
-        value = criterion.value as Entity[keyof Entity];
-      } else {
-        value = criterion as Entity[keyof Entity];
-      }
+    const whereClause = this.buildCriteriaCondition(criteria, '"', (value) => {
+      params.push(value);
+      return `$${params.length}`;
+    });
+    return { whereClause, params };
+  }
 
-      conditions.push(`"${String(column)}" ${operator} $${paramIndex}`);
-      params.push(this.jsToSqlValue(column as string, value));
-      paramIndex++;
-    }
+  protected likeCondition(column: string, placeholder: string): string {
+    return `${column}::text ILIKE ${placeholder}`;
+  }
 
-    return {
-      whereClause: conditions.join(" AND "),
-      params,
-    };
+  protected startsWithCondition(column: string, placeholder: string): string {
+    return `starts_with(${column}::text, ${placeholder})`;
   }
 
   /**
@@ -934,6 +996,36 @@ export class PostgresTabularStorage<
     return undefined;
   }
 
+  /**
+   * Computes aggregates in PostgreSQL with a GROUP BY query.
+   *
+   * @param aggregates - Aggregates to compute, keyed by the name they are returned under
+   * @param options - Optional criteria and groupBy columns
+   * @returns One row per group, ordered by the groupBy columns
+   */
+  override async aggregate<Aggregates extends Record<string, AggregateSpec<Entity>>>(
+    aggregates: Aggregates,
+    options?: AggregateOptions<Entity>
+  ): Promise<Array<AggregateResult<Entity, Aggregates>>> {
+    this.validateAggregateParams(aggregates, options);
+    const groupBy = options?.groupBy ?? [];
+    const clauses = this.buildAggregateClauses(aggregates, groupBy, '"');
+
+    let sql = `SELECT ${clauses.select} FROM "${this.table}"`;
+    let params: ValueOptionType[] = [];
+    if (options?.criteria) {
+      const where = this.buildDeleteSearchWhere(options.criteria);
+      sql += ` WHERE ${where.whereClause}`;
+      params = where.params;
+    }
+    sql += clauses.groupBy;
+
+    const result = await this.db.query(sql, params);
+    return result.rows.map((row) =>
+      this.aggregateRowToJs(row as Record<string, unknown>, aggregates, groupBy)
+    ) as Array<AggregateResult<Entity, Aggregates>>;
+  }
+
   /**
    * Subscribes to changes in the repository.
    * NOT IMPLEMENTED for PostgreSQL storage.
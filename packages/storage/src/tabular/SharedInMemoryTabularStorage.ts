@@ -8,6 +8,9 @@ import { DataPortSchemaObject, FromSchema, TypedArraySchemaOptions } from "@work
 import { createServiceToken } from "@workglow/util";
 import { BaseTabularStorage, ClientProvidedKeysOption } from "./BaseTabularStorage";
 import {
+  AggregateOptions,
+  AggregateResult,
+  AggregateSpec,
   AnyTabularStorage,
   AutoGeneratedKeys,
   DeleteSearchCriteria,
@@ -369,6 +372,20 @@ export class SharedInMemoryTabularStorage<
     return await this.inMemoryRepo.query(criteria, options);
   }
 
+  /**
+   * Computes aggregates over the entries matching the optional criteria.
+   *
+   * @param aggregates - Aggregates to compute, keyed by the name they are returned under
+   * @param options - Optional criteria and groupBy columns
+   * @returns One row per group, ordered by the groupBy columns
+   */
+  override async aggregate<Aggregates extends Record<string, AggregateSpec<Entity>>>(
+    aggregates: Aggregates,
+    options?: AggregateOptions<Entity>
+  ): Promise<Array<AggregateResult<Entity, Aggregates>>> {
+    return await this.inMemoryRepo.aggregate(aggregates, options);
+  }
+
   /**
    * Deletes all entries matching the specified search criteria.
    * Supports multiple columns with optional comparison operators.
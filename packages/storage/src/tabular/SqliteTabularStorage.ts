@@ -12,22 +12,25 @@ import {
   JsonSchema,
   TypedArraySchemaOptions,
 } from "@workglow/util/schema";
+import { runSqliteTransaction, runSqliteWrite } from "../util/SqliteTransaction";
 import { BaseSqlTabularStorage } from "./BaseSqlTabularStorage";
 import { ClientProvidedKeysOption, KeyGenerationStrategy } from "./BaseTabularStorage";
 import {
+  AggregateOptions,
+  AggregateResult,
+  AggregateSpec,
   AnyTabularStorage,
   AutoGeneratedKeys,
   DeleteSearchCriteria,
   InsertEntity,
-  isSearchCondition,
   QueryOptions,
   SearchCriteria,
-  SearchOperator,
   SimplifyPrimaryKey,
   TabularChangePayload,
   TabularSubscribeOptions,
   ValueOptionType,
 } from "./ITabularStorage";
+import { TABULAR_MIGRATIONS_TABLE, TabularMigrationTarget } from "./TabularMigration";
 
 export const SQLITE_TABULAR_REPOSITORY = createServiceToken<AnyTabularStorage>(
   "storage.tabularRepository.sqlite"
@@ -87,6 +90,14 @@ export class SqliteTabularStorage<
     }
   }
 
+  /**
+   * Runs `fn` in a transaction on the SQLite connection. Tabular, KV and queue
+   * storages sharing the connection commit or roll back with it.
+   */
+  override async withTransaction<T>(fn: () => Promise<T>): Promise<T> {
+    return await runSqliteTransaction(this.db, fn);
+  }
+
   /**
    * Override to handle SQLite's INTEGER PRIMARY KEY for auto-increment
    */
@@ -106,7 +117,8 @@ export class SqliteTabularStorage<
   }
 
   /**
-   * Creates the database table if it doesn't exist with the defined schema.
+   * Creates the database table if it doesn't exist with the defined schema,
+   * or migrates an existing table to it (see `withMigrations()`).
    * Must be called before using any other methods.
    */
   public override async setupDatabase(): Promise<void> {
@@ -126,7 +138,10 @@ export class SqliteTabularStorage<
           PRIMARY KEY (${this.primaryKeyColumnList()}) 
         )
       `;
+    const target = this.migrationTarget();
+    const columns = await target.readColumns();
     this.db.exec(sql);
+    await this.migrateTable(target, columns);
 
     // Get primary key columns to avoid creating redundant indexes
     const pkColumns = this.primaryKeyColumns();
@@ -171,6 +186,49 @@ export class SqliteTabularStorage<
     }
   }
 
+  protected override migrationTarget(): TabularMigrationTarget {
+    const db = this.db;
+    const table = this.table;
+    const ensureVersionTable = () =>
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS \`${TABULAR_MIGRATIONS_TABLE}\` (
+          table_name TEXT NOT NULL,
+          version INTEGER NOT NULL,
+          applied_at TEXT NOT NULL,
+          PRIMARY KEY (table_name, version)
+        )
+      `);
+    return {
+      readColumns: async () => {
+        const rows = db.prepare<[], { name: string }>(`PRAGMA table_info(\`${table}\`)`).all();
+        return rows.length > 0 ? rows.map((row) => row.name) : undefined;
+      },
+      renameColumn: async (from, to) => {
+        db.exec(`ALTER TABLE \`${table}\` RENAME COLUMN \`${from}\` TO \`${to}\``);
+      },
+      addColumn: async (name, typeDef, required) => {
+        db.exec(
+          `ALTER TABLE \`${table}\` ADD COLUMN ${this.migrationColumnDefinition(name, typeDef, required, "`")}`
+        );
+      },
+      readAppliedVersions: async () => {
+        ensureVersionTable();
+        return db
+          .prepare<[string], { version: number }>(
+            `SELECT version FROM \`${TABULAR_MIGRATIONS_TABLE}\` WHERE table_name = ?`
+          )
+          .all(table)
+          .map((row) => Number(row.version));
+      },
+      recordVersion: async (version) => {
+        ensureVersionTable();
+        db.prepare(
+          `INSERT OR IGNORE INTO \`${TABULAR_MIGRATIONS_TABLE}\` (table_name, version, applied_at) VALUES (?, ?, ?)`
+        ).run(table, version, new Date().toISOString());
+      },
+    };
+  }
+
   /**
    * Convert JS values to SQLite-compatible values. Ensures booleans are stored as 0/1.
    */
@@ -385,190 +443,192 @@ export class SqliteTabularStorage<
    * @emits 'put' event when successful
    */
   async put(entity: InsertType): Promise<Entity> {
-    const db = this.db;
-    let entityToInsert = entity as unknown as Entity;
-
-    // Handle auto-generated keys
-    if (this.hasAutoGeneratedKey() && this.autoGeneratedKeyName) {
-      const keyName = String(this.autoGeneratedKeyName);
-      const entityRecord = entity as Record<string, unknown>;
-      const clientProvidedValue = entityRecord[keyName];
-      const hasClientValue = clientProvidedValue !== undefined && clientProvidedValue !== null;
-
-      let shouldUseClientValue = false;
-      if (this.clientProvidedKeys === "never") {
-        // Always generate, ignore client value
-        shouldUseClientValue = false;
-      } else if (this.clientProvidedKeys === "always") {
-        // Always use client value, error if missing
-        if (!hasClientValue) {
-          throw new Error(
-            `Auto-generated key "${keyName}" is required when clientProvidedKeys is "always"`
-          );
+    return await runSqliteWrite(this.db, () => {
+      const db = this.db;
+      let entityToInsert = entity as unknown as Entity;
+
+      // Handle auto-generated keys
+      if (this.hasAutoGeneratedKey() && this.autoGeneratedKeyName) {
+        const keyName = String(this.autoGeneratedKeyName);
+        const entityRecord = entity as Record<string, unknown>;
+        const clientProvidedValue = entityRecord[keyName];
+        const hasClientValue = clientProvidedValue !== undefined && clientProvidedValue !== null;
+
+        let shouldUseClientValue = false;
+        if (this.clientProvidedKeys === "never") {
+          // Always generate, ignore client value
+          shouldUseClientValue = false;
+        } else if (this.clientProvidedKeys === "always") {
+          // Always use client value, error if missing
+          if (!hasClientValue) {
+            throw new Error(
+              `Auto-generated key "${keyName}" is required when clientProvidedKeys is "always"`
+            );
+          }
+          shouldUseClientValue = true;
+        } else {
+          // "if-missing" - use client value if provided
+          shouldUseClientValue = hasClientValue;
         }
-        shouldUseClientValue = true;
-      } else {
-        // "if-missing" - use client value if provided
-        shouldUseClientValue = hasClientValue;
-      }
 
-      // For UUID strategy, generate client-side if needed
-      if (this.autoGeneratedKeyStrategy === "uuid" && !shouldUseClientValue) {
-        const generatedValue = this.generateKeyValue(keyName, "uuid");
-        entityToInsert = { ...entity, [keyName]: generatedValue } as Entity;
-      } else if (this.autoGeneratedKeyStrategy === "uuid" && shouldUseClientValue) {
-        // Client provided UUID, use it
-        entityToInsert = entity as unknown as Entity;
+        // For UUID strategy, generate client-side if needed
+        if (this.autoGeneratedKeyStrategy === "uuid" && !shouldUseClientValue) {
+          const generatedValue = this.generateKeyValue(keyName, "uuid");
+          entityToInsert = { ...entity, [keyName]: generatedValue } as Entity;
+        } else if (this.autoGeneratedKeyStrategy === "uuid" && shouldUseClientValue) {
+          // Client provided UUID, use it
+          entityToInsert = entity as unknown as Entity;
+        }
+        // For autoincrement strategy, we handle it differently below
       }
-      // For autoincrement strategy, we handle it differently below
-    }
 
-    // Determine which columns to include in INSERT
-    let columnsToInsert: string[] = [];
-    let paramsToInsert: ValueOptionType[] = [];
+      // Determine which columns to include in INSERT
+      let columnsToInsert: string[] = [];
+      let paramsToInsert: ValueOptionType[] = [];
 
-    // Handle primary key columns
-    const pkColumns = this.primaryKeyColumns();
-    for (const col of pkColumns) {
-      const colStr = String(col);
-      // Skip autoincrement keys that should be generated by database
-      if (
-        this.isAutoGeneratedKey(colStr) &&
-        this.autoGeneratedKeyStrategy === "autoincrement" &&
-        this.clientProvidedKeys !== "always"
-      ) {
-        const insertRecord = entityToInsert as Record<string, unknown>;
-        const clientProvidedValue = insertRecord[colStr];
-        const hasClientValue = clientProvidedValue !== undefined && clientProvidedValue !== null;
-        if (this.clientProvidedKeys === "if-missing" && hasClientValue) {
-          // Client provided value for autoincrement key in "if-missing" mode
-          columnsToInsert.push(colStr);
-          paramsToInsert.push(
-            this.jsToSqlValue(colStr, clientProvidedValue as Entity[keyof Entity])
-          );
+      // Handle primary key columns
+      const pkColumns = this.primaryKeyColumns();
+      for (const col of pkColumns) {
+        const colStr = String(col);
+        // Skip autoincrement keys that should be generated by database
+        if (
+          this.isAutoGeneratedKey(colStr) &&
+          this.autoGeneratedKeyStrategy === "autoincrement" &&
+          this.clientProvidedKeys !== "always"
+        ) {
+          const insertRecord = entityToInsert as Record<string, unknown>;
+          const clientProvidedValue = insertRecord[colStr];
+          const hasClientValue = clientProvidedValue !== undefined && clientProvidedValue !== null;
+          if (this.clientProvidedKeys === "if-missing" && hasClientValue) {
+            // Client provided value for autoincrement key in "if-missing" mode
+            columnsToInsert.push(colStr);
+            paramsToInsert.push(
+              this.jsToSqlValue(colStr, clientProvidedValue as Entity[keyof Entity])
+            );
+          }
+          // Otherwise skip it - let SQLite generate
+          continue;
         }
-        // Otherwise skip it - let SQLite generate
-        continue;
+        columnsToInsert.push(colStr);
+        const value = (entityToInsert as Record<string, unknown>)[colStr];
+        paramsToInsert.push(this.jsToSqlValue(colStr, value as Entity[keyof Entity]));
       }
-      columnsToInsert.push(colStr);
-      const value = (entityToInsert as Record<string, unknown>)[colStr];
-      paramsToInsert.push(this.jsToSqlValue(colStr, value as Entity[keyof Entity]));
-    }
 
-    // Handle value columns
-    const valueColumns = this.valueColumns();
-    const insertRecord = entityToInsert as Record<string, unknown>;
-    for (const col of valueColumns) {
-      const colStr = String(col);
-      columnsToInsert.push(colStr);
-      const value = insertRecord[colStr];
-      paramsToInsert.push(this.jsToSqlValue(colStr, value as Entity[keyof Entity]));
-    }
+      // Handle value columns
+      const valueColumns = this.valueColumns();
+      const insertRecord = entityToInsert as Record<string, unknown>;
+      for (const col of valueColumns) {
+        const colStr = String(col);
+        columnsToInsert.push(colStr);
+        const value = insertRecord[colStr];
+        paramsToInsert.push(this.jsToSqlValue(colStr, value as Entity[keyof Entity]));
+      }
 
-    const columnList = columnsToInsert.map((c) => `\`${c}\``).join(", ");
-    const placeholders = columnsToInsert.map(() => "?").join(", ");
+      const columnList = columnsToInsert.map((c) => `\`${c}\``).join(", ");
+      const placeholders = columnsToInsert.map(() => "?").join(", ");
 
-    const sql = `
-      INSERT OR REPLACE INTO \`${this.table}\` (${columnList})
-      VALUES (${placeholders})
-      RETURNING *
-    `;
-    const stmt = db.prepare(sql);
+      const sql = `
+        INSERT OR REPLACE INTO \`${this.table}\` (${columnList})
+        VALUES (${placeholders})
+        RETURNING *
+      `;
+      const stmt = db.prepare(sql);
 
-    const params = paramsToInsert;
+      const params = paramsToInsert;
 
-    // CRITICAL: Ensure all params are SQLite-compatible before binding
-    // SQLite only accepts: string, number, bigint, boolean, null, Uint8Array
-    for (let i = 0; i < params.length; i++) {
-      let param = params[i];
+      // CRITICAL: Ensure all params are SQLite-compatible before binding
+      // SQLite only accepts: string, number, bigint, boolean, null, Uint8Array
+      for (let i = 0; i < params.length; i++) {
+        let param = params[i];
 
-      // Convert undefined to null
-      if (param === undefined) {
-        params[i] = null;
-        continue;
-      }
-
-      // Convert objects/arrays to JSON string (except Uint8Array and Buffer)
-      if (param !== null && typeof param === "object") {
-        const paramObj = param as object;
-        if (paramObj instanceof Uint8Array) {
-          // Uint8Array is valid, keep as-is
+        // Convert undefined to null
+        if (param === undefined) {
+          params[i] = null;
           continue;
         }
-        if (typeof Buffer !== "undefined" && paramObj instanceof Buffer) {
-          // Buffer should be handled by jsToSqlValue, but convert to Uint8Array just in case
-          params[i] = new Uint8Array(paramObj) as ValueOptionType;
+
+        // Convert objects/arrays to JSON string (except Uint8Array and Buffer)
+        if (param !== null && typeof param === "object") {
+          const paramObj = param as object;
+          if (paramObj instanceof Uint8Array) {
+            // Uint8Array is valid, keep as-is
+            continue;
+          }
+          if (typeof Buffer !== "undefined" && paramObj instanceof Buffer) {
+            // Buffer should be handled by jsToSqlValue, but convert to Uint8Array just in case
+            params[i] = new Uint8Array(paramObj) as ValueOptionType;
+            continue;
+          }
+          // Convert ALL other objects/arrays to JSON string
+          try {
+            params[i] = JSON.stringify(paramObj) as ValueOptionType;
+          } catch (e) {
+            throw new Error(
+              `Failed to stringify param at index ${i} for column binding: ${String(e)}`
+            );
+          }
           continue;
         }
-        // Convert ALL other objects/arrays to JSON string
-        try {
-          params[i] = JSON.stringify(paramObj) as ValueOptionType;
-        } catch (e) {
-          throw new Error(
-            `Failed to stringify param at index ${i} for column binding: ${String(e)}`
-          );
-        }
-        continue;
-      }
-    }
-
-    // Final validation - ensure no objects/arrays remain and log for debugging
-    const invalidParams: Array<{ index: number; type: string; value: any }> = [];
-    for (let i = 0; i < params.length; i++) {
-      const param = params[i];
-      // Check if it's a valid SQLite type
-      if (
-        param === null ||
-        param === undefined ||
-        typeof param === "string" ||
-        typeof param === "number" ||
-        typeof param === "boolean" ||
-        typeof param === "bigint"
-      ) {
-        // Valid primitive types
-        continue;
       }
 
-      // For objects, check if it's Uint8Array or Buffer
-      if (typeof param === "object") {
-        const paramObj = param as object;
+      // Final validation - ensure no objects/arrays remain and log for debugging
+      const invalidParams: Array<{ index: number; type: string; value: any }> = [];
+      for (let i = 0; i < params.length; i++) {
+        const param = params[i];
+        // Check if it's a valid SQLite type
         if (
-          paramObj instanceof Uint8Array ||
-          (typeof Buffer !== "undefined" && paramObj instanceof Buffer)
+          param === null ||
+          param === undefined ||
+          typeof param === "string" ||
+          typeof param === "number" ||
+          typeof param === "boolean" ||
+          typeof param === "bigint"
         ) {
-          // Valid object types
+          // Valid primitive types
           continue;
         }
-        // Invalid object type
-        invalidParams.push({ index: i, type: typeof param, value: param });
-      } else {
-        // Invalid type
-        invalidParams.push({ index: i, type: typeof param, value: param });
+
+        // For objects, check if it's Uint8Array or Buffer
+        if (typeof param === "object") {
+          const paramObj = param as object;
+          if (
+            paramObj instanceof Uint8Array ||
+            (typeof Buffer !== "undefined" && paramObj instanceof Buffer)
+          ) {
+            // Valid object types
+            continue;
+          }
+          // Invalid object type
+          invalidParams.push({ index: i, type: typeof param, value: param });
+        } else {
+          // Invalid type
+          invalidParams.push({ index: i, type: typeof param, value: param });
+        }
       }
-    }
 
-    if (invalidParams.length > 0) {
-      console.error("Invalid params detected:", invalidParams);
-      console.error(
-        "All params:",
-        params.map((p, i) => ({ i, type: typeof p, value: p, isArray: Array.isArray(p) }))
-      );
-      throw new Error(
-        `Invalid SQLite params detected at indices: ${invalidParams.map((p) => p.index).join(", ")}`
-      );
-    }
+      if (invalidParams.length > 0) {
+        console.error("Invalid params detected:", invalidParams);
+        console.error(
+          "All params:",
+          params.map((p, i) => ({ i, type: typeof p, value: p, isArray: Array.isArray(p) }))
+        );
+        throw new Error(
+          `Invalid SQLite params detected at indices: ${invalidParams.map((p) => p.index).join(", ")}`
+        );
+      }
 
-    // @ts-ignore - SQLite typing for variadic bindings is overly strict for our union
-    const updatedEntity = stmt.get(...params) as Entity;
+      // @ts-ignore - SQLite typing for variadic bindings is overly strict for our union
+      const updatedEntity = stmt.get(...params) as Entity;
 
-    // Convert all columns according to schema
-    const updatedRecord = updatedEntity as Record<string, unknown>;
-    for (const k in this.schema.properties) {
-      updatedRecord[k] = this.sqlToJsValue(k, updatedRecord[k] as ValueOptionType);
-    }
+      // Convert all columns according to schema
+      const updatedRecord = updatedEntity as Record<string, unknown>;
+      for (const k in this.schema.properties) {
+        updatedRecord[k] = this.sqlToJsValue(k, updatedRecord[k] as ValueOptionType);
+      }
 
-    this.events.emit("put", updatedEntity);
-    return updatedEntity;
+      this.events.emit("put", updatedEntity);
+      return updatedEntity;
+    });
   }
 
   /**
@@ -697,15 +757,17 @@ export class SqliteTabularStorage<
    * @emits 'delete' event when successful
    */
   async delete(key: PrimaryKey): Promise<void> {
-    const db = this.db;
-    const whereClauses = (this.primaryKeyColumns() as string[])
-      .map((key) => `${key} = ?`)
-      .join(" AND ");
-    const params = this.getPrimaryKeyAsOrderedArray(key);
-    const stmt = db.prepare(`DELETE FROM \`${this.table}\` WHERE ${whereClauses}`);
-    // @ts-ignore - SQLite typing for variadic bindings is overly strict for our union
-    stmt.run(...(params as ValueOptionType[]));
-    this.events.emit("delete", key as keyof Entity);
+    await runSqliteWrite(this.db, () => {
+      const db = this.db;
+      const whereClauses = (this.primaryKeyColumns() as string[])
+        .map((key) => `${key} = ?`)
+        .join(" AND ");
+      const params = this.getPrimaryKeyAsOrderedArray(key);
+      const stmt = db.prepare(`DELETE FROM \`${this.table}\` WHERE ${whereClauses}`);
+      // @ts-ignore - SQLite typing for variadic bindings is overly strict for our union
+      stmt.run(...(params as ValueOptionType[]));
+      this.events.emit("delete", key as keyof Entity);
+    });
   }
 
   /**
@@ -756,9 +818,11 @@ export class SqliteTabularStorage<
    * @emits 'clearall' event when successful
    */
   async deleteAll(): Promise<void> {
-    const db = this.db;
-    db.exec(`DELETE FROM \`${this.table}\``);
-    this.events.emit("clearall");
+    await runSqliteWrite(this.db, () => {
+      const db = this.db;
+      db.exec(`DELETE FROM \`${this.table}\``);
+      this.events.emit("clearall");
+    });
   }
 
   /**
@@ -813,33 +877,21 @@ export class SqliteTabularStorage<
     whereClause: string;
     params: ValueOptionType[];
   } {
-    const conditions: string[] = [];
     const params: ValueOptionType[] = [];
+    const whereClause = this.buildCriteriaCondition(criteria, "`", (value) => {
+      params.push(value);
+      return "?";
+    });
+    return { whereClause, params };
+  }
 
-    for (const column of Object.keys(criteria) as Array<keyof Entity>) {
-      if (!(column in this.schema.properties)) {
-        throw new Error(`Schema must have a ${String(column)} field to use deleteSearch`);
-      }
-
-      const criterion = criteria[column];
-      let operator: SearchOperator = "=";
-      let value: Entity[keyof Entity];
-
-      if (isSearchCondition(criterion)) {
-        operator = criterion.operator;
-        value = criterion.value as Entity[keyof Entity];
-      } else {
-        value = criterion as Entity[keyof Entity];
-      }
-
-      conditions.push(`\`${String(column)}\` ${operator} ?`);
-      params.push(this.jsToSqlValue(column as string, value));
-    }
+  protected likeCondition(column: string, placeholder: string): string {
+    // SQLite's LIKE ignores ASCII case by default but has no escape character
+    return `${column} LIKE ${placeholder} ESCAPE '\\'`;
+  }
 
-    return {
-      whereClause: conditions.join(" AND "),
-      params,
-    };
+  protected startsWithCondition(column: string, placeholder: string): string {
+    return `instr(${column}, ${placeholder}) = 1`;
   }
 
   /**
@@ -854,12 +906,14 @@ export class SqliteTabularStorage<
       return;
     }
 
-    const db = this.db;
-    const { whereClause, params } = this.buildDeleteSearchWhere(criteria);
-    const stmt = db.prepare(`DELETE FROM \`${this.table}\` WHERE ${whereClause}`);
-    // @ts-ignore
-    stmt.run(...params);
-    this.events.emit("delete", criteriaKeys[0] as keyof Entity);
+    await runSqliteWrite(this.db, () => {
+      const db = this.db;
+      const { whereClause, params } = this.buildDeleteSearchWhere(criteria);
+      const stmt = db.prepare(`DELETE FROM \`${this.table}\` WHERE ${whereClause}`);
+      // @ts-ignore
+      stmt.run(...params);
+      this.events.emit("delete", criteriaKeys[0] as keyof Entity);
+    });
   }
 
   /**
@@ -916,6 +970,38 @@ export class SqliteTabularStorage<
     return undefined;
   }
 
+  /**
+   * Computes aggregates in SQLite with a GROUP BY query.
+   *
+   * @param aggregates - Aggregates to compute, keyed by the name they are returned under
+   * @param options - Optional criteria and groupBy columns
+   * @returns One row per group, ordered by the groupBy columns
+   */
+  override async aggregate<Aggregates extends Record<string, AggregateSpec<Entity>>>(
+    aggregates: Aggregates,
+    options?: AggregateOptions<Entity>
+  ): Promise<Array<AggregateResult<Entity, Aggregates>>> {
+    this.validateAggregateParams(aggregates, options);
+    const groupBy = options?.groupBy ?? [];
+    const clauses = this.buildAggregateClauses(aggregates, groupBy, "`");
+
+    let sql = `SELECT ${clauses.select} FROM \`${this.table}\``;
+    let params: ValueOptionType[] = [];
+    if (options?.criteria) {
+      const where = this.buildDeleteSearchWhere(options.criteria);
+      sql += ` WHERE ${where.whereClause}`;
+      params = where.params;
+    }
+    sql += clauses.groupBy;
+
+    const stmt = this.db.prepare(sql);
+    // @ts-ignore
+    const rows = stmt.all(...params) as Array<Record<string, unknown>>;
+    return rows.map((row) => this.aggregateRowToJs(row, aggregates, groupBy)) as Array<
+      AggregateResult<Entity, Aggregates>
+    >;
+  }
+
   /**
    * Subscribes to changes in the repository.
    * NOT IMPLEMENTED for SQLite storage.
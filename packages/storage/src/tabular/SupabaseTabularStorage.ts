@@ -15,14 +15,17 @@ import {
 import { BaseSqlTabularStorage } from "./BaseSqlTabularStorage";
 import { ClientProvidedKeysOption } from "./BaseTabularStorage";
 import {
+  AggregateOptions,
+  AggregateResult,
+  AggregateSpec,
   AnyTabularStorage,
   AutoGeneratedKeys,
   DeleteSearchCriteria,
   InsertEntity,
   isSearchCondition,
   QueryOptions,
+  SearchCondition,
   SearchCriteria,
-  SearchOperator,
   SimplifyPrimaryKey,
   TabularChangePayload,
   TabularChangeType,
@@ -354,6 +357,16 @@ export class SupabaseTabularStorage<
     return super.sqlToJsValue(column, value);
   }
 
+  // Supabase is PostgreSQL underneath; these match PostgresTabularStorage for
+  // SQL built by the base class. Queries themselves go through PostgREST.
+  protected likeCondition(column: string, placeholder: string): string {
+    return `${column}::text ILIKE ${placeholder}`;
+  }
+
+  protected startsWithCondition(column: string, placeholder: string): string {
+    return `starts_with(${column}::text, ${placeholder})`;
+  }
+
   /**
    * Determines if a field should be treated as unsigned based on schema properties
    * @param typeDef - The schema type definition
@@ -638,42 +651,7 @@ export class SupabaseTabularStorage<
       return;
     }
 
-    let query = this.client.from(this.table).delete();
-
-    for (const column of criteriaKeys) {
-      if (!(column in this.schema.properties)) {
-        throw new Error(`Schema must have a ${String(column)} field to use deleteSearch`);
-      }
-
-      const criterion = criteria[column];
-      let operator: SearchOperator = "=";
-      let value: Entity[keyof Entity];
-
-      if (isSearchCondition(criterion)) {
-        operator = criterion.operator;
-        value = criterion.value as Entity[keyof Entity];
-      } else {
-        value = criterion as Entity[keyof Entity];
-      }
-
-      switch (operator) {
-        case "=":
-          query = query.eq(String(column), value);
-          break;
-        case "<":
-          query = query.lt(String(column), value);
-          break;
-        case "<=":
-          query = query.lte(String(column), value);
-          break;
-        case ">":
-          query = query.gt(String(column), value);
-          break;
-        case ">=":
-          query = query.gte(String(column), value);
-          break;
-      }
-    }
+    const query = this.applyCriteria(this.client.from(this.table).delete(), criteria);
 
     const { error } = await query;
 
@@ -693,40 +671,8 @@ export class SupabaseTabularStorage<
     options?: QueryOptions<Entity>
   ): Promise<Entity[] | undefined> {
     this.validateQueryParams(criteria, options);
-    const criteriaKeys = Object.keys(criteria) as Array<keyof Entity>;
 
-    let query = this.client.from(this.table).select("*");
-
-    for (const column of criteriaKeys) {
-      const criterion = criteria[column];
-      let operator: SearchOperator = "=";
-      let value: Entity[keyof Entity];
-
-      if (isSearchCondition(criterion)) {
-        operator = criterion.operator;
-        value = criterion.value as Entity[keyof Entity];
-      } else {
-        value = criterion as Entity[keyof Entity];
-      }
-
-      switch (operator) {
-        case "=":
-          query = query.eq(String(column), value);
-          break;
-        case "<":
-          query = query.lt(String(column), value);
-          break;
-        case "<=":
-          query = query.lte(String(column), value);
-          break;
-        case ">":
-          query = query.gt(String(column), value);
-          break;
-        case ">=":
-          query = query.gte(String(column), value);
-          break;
-      }
-    }
+    let query = this.applyCriteria(this.client.from(this.table).select("*"), criteria);
 
     if (options?.orderBy) {
       for (const { column, direction } of options.orderBy) {
@@ -763,6 +709,171 @@ export class SupabaseTabularStorage<
     return undefined;
   }
 
+  /**
+   * Computes aggregates with PostgREST aggregate functions, e.g.
+   * `select=category,n:count(),total:amount.sum()`. Aggregate functions are
+   * disabled in PostgREST by default; enable `db-aggregates-enabled` to use
+   * this. Rows are grouped by the non-aggregated columns.
+   *
+   * @param aggregates - Aggregates to compute, keyed by the name they are returned under
+   * @param options - Optional criteria and groupBy columns
+   * @returns One row per group, ordered by the groupBy columns
+   */
+  override async aggregate<Aggregates extends Record<string, AggregateSpec<Entity>>>(
+    aggregates: Aggregates,
+    options?: AggregateOptions<Entity>
+  ): Promise<Array<AggregateResult<Entity, Aggregates>>> {
+    this.validateAggregateParams(aggregates, options);
+    const groupBy = options?.groupBy ?? [];
+    const select = [
+      ...groupBy.map(String),
+      ...Object.entries(aggregates).map(([name, { fn, column }]) =>
+        column === undefined ? `${name}:count()` : `${name}:${String(column)}.${fn}()`
+      ),
+    ].join(",");
+
+    let query = this.client.from(this.table).select(select);
+    if (options?.criteria) {
+      query = this.applyCriteria(query, options.criteria);
+    }
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const rows = ((data ?? []) as unknown as Array<Record<string, unknown>>).map((row) =>
+      this.aggregateRowToJs(row, aggregates, groupBy)
+    );
+    // PostgREST does not order grouped results
+    return this.applyQueryOptions(rows as Entity[], {
+      orderBy: groupBy.map((column) => ({ column, direction: "ASC" })),
+    }) as unknown as Array<AggregateResult<Entity, Aggregates>>;
+  }
+
+  /**
+   * Counts matching rows with an exact-count HEAD request, which works
+   * without PostgREST aggregate functions.
+   */
+  override async count(criteria?: SearchCriteria<Entity>): Promise<number> {
+    if (!criteria) return await this.size();
+    this.validateQueryParams(criteria);
+    const { count, error } = await this.applyCriteria(
+      this.client.from(this.table).select("*", { count: "exact", head: true }),
+      criteria
+    );
+    if (error) throw error;
+    return count ?? 0;
+  }
+
+  /**
+   * Adds search criteria to a PostgREST select or delete request. Top-level
+   * conditions use the builder's filter methods; `$or` groups are rendered
+   * as a logic tree for `.or()`.
+   */
+  protected applyCriteria<Query>(query: Query, criteria: SearchCriteria<Entity>): Query {
+    // Typed structurally: checking supabase-js's builder generics against the
+    // interface directly exceeds the compiler's instantiation depth
+    let builder = query as unknown as PostgrestFilterBuilder;
+    for (const column of Object.keys(criteria) as Array<keyof Entity | "$or">) {
+      if (column === "$or") {
+        builder = builder.or(this.orFilter(criteria.$or ?? []));
+        continue;
+      }
+      if (!(column in this.schema.properties)) {
+        throw new Error(`Schema must have a ${String(column)} field to use deleteSearch`);
+      }
+      const name = String(column);
+      const condition = toSearchCondition(criteria[column]);
+      switch (condition.operator) {
+        case "=":
+          builder = builder.eq(name, condition.value);
+          break;
+        case "!=":
+          builder = builder.neq(name, condition.value);
+          break;
+        case "<":
+          builder = builder.lt(name, condition.value);
+          break;
+        case "<=":
+          builder = builder.lte(name, condition.value);
+          break;
+        case ">":
+          builder = builder.gt(name, condition.value);
+          break;
+        case ">=":
+          builder = builder.gte(name, condition.value);
+          break;
+        case "IN":
+          builder = builder.in(name, condition.value);
+          break;
+        case "NOT IN":
+          builder = builder.not(name, "in", `(${condition.value.map(postgrestValue).join(",")})`);
+          break;
+        case "LIKE":
+          builder = builder.ilike(name, condition.value);
+          break;
+        case "STARTS WITH":
+          builder = builder.like(name, `${escapeLikePattern(condition.value)}%`);
+          break;
+        case "IS NULL":
+          builder = builder.is(name, null);
+          break;
+        case "IS NOT NULL":
+          builder = builder.not(name, "is", null);
+          break;
+      }
+    }
+    return builder as unknown as Query;
+  }
+
+  /**
+   * Renders `$or` alternatives as a PostgREST logic tree, e.g.
+   * `category.eq."a",and(value.gt.1,value.lt.5)`.
+   */
+  private orFilter(alternatives: ReadonlyArray<SearchCriteria<Entity>>): string {
+    return alternatives
+      .map((alternative) => {
+        const filters = this.logicFilters(alternative);
+        return filters.length === 1 ? filters[0] : `and(${filters.join(",")})`;
+      })
+      .join(",");
+  }
+
+  private logicFilters(criteria: SearchCriteria<Entity>): string[] {
+    const filters: string[] = [];
+    for (const column of Object.keys(criteria) as Array<keyof Entity | "$or">) {
+      if (column === "$or") {
+        filters.push(`or(${this.orFilter(criteria.$or ?? [])})`);
+        continue;
+      }
+      const name = String(column);
+      const condition = toSearchCondition(criteria[column]);
+      switch (condition.operator) {
+        case "IN":
+        case "NOT IN": {
+          const list = `in.(${condition.value.map(postgrestValue).join(",")})`;
+          filters.push(`${name}.${condition.operator === "IN" ? list : `not.${list}`}`);
+          break;
+        }
+        case "LIKE":
+          filters.push(`${name}.ilike.${postgrestValue(condition.value)}`);
+          break;
+        case "STARTS WITH":
+          filters.push(`${name}.like.${postgrestValue(`${escapeLikePattern(condition.value)}%`)}`);
+          break;
+        case "IS NULL":
+          filters.push(`${name}.is.null`);
+          break;
+        case "IS NOT NULL":
+          filters.push(`${name}.not.is.null`);
+          break;
+        default:
+          filters.push(
+            `${name}.${POSTGREST_OPERATORS[condition.operator]}.${postgrestValue(condition.value)}`
+          );
+      }
+    }
+    return filters;
+  }
+
   /**
    * Converts a row from Supabase realtime payload to an Entity with proper type conversions.
    *
@@ -837,3 +948,54 @@ export class SupabaseTabularStorage<
     }
   }
 }
+
+/**
+ * The subset of the PostgREST filter builder used to apply search criteria;
+ * shared by select and delete requests.
+ */
+interface PostgrestFilterBuilder {
+  eq(column: string, value: unknown): PostgrestFilterBuilder;
+  neq(column: string, value: unknown): PostgrestFilterBuilder;
+  lt(column: string, value: unknown): PostgrestFilterBuilder;
+  lte(column: string, value: unknown): PostgrestFilterBuilder;
+  gt(column: string, value: unknown): PostgrestFilterBuilder;
+  gte(column: string, value: unknown): PostgrestFilterBuilder;
+  in(column: string, values: readonly unknown[]): PostgrestFilterBuilder;
+  like(column: string, pattern: string): PostgrestFilterBuilder;
+  ilike(column: string, pattern: string): PostgrestFilterBuilder;
+  is(column: string, value: null): PostgrestFilterBuilder;
+  not(column: string, operator: string, value: unknown): PostgrestFilterBuilder;
+  or(filters: string): PostgrestFilterBuilder;
+}
+
+const POSTGREST_OPERATORS = {
+  "=": "eq",
+  "!=": "neq",
+  "<": "lt",
+  "<=": "lte",
+  ">": "gt",
+  ">=": "gte",
+} as const;
+
+/** Treats a bare value as equality, and a bare null as IS NULL */
+function toSearchCondition<T>(criterion: T | SearchCondition<T>): SearchCondition<T> {
+  if (isSearchCondition(criterion)) return criterion;
+  return criterion === null ? { operator: "IS NULL" } : { operator: "=", value: criterion };
+}
+
+/**
+ * Formats a value for a PostgREST filter string. Strings are double-quoted so
+ * that commas, dots and parentheses are not read as syntax.
+ */
+function postgrestValue(value: unknown): string {
+  if (value === null || value === undefined) return "null";
+  if (typeof value === "string") {
+    return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+  }
+  return String(value);
+}
+
+/** Escapes LIKE wildcards so that a string matches literally */
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&");
+}
@@ -0,0 +1,105 @@
+/**
+ * @license
+ * Copyright 2026 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { JsonSchema } from "@workglow/util/schema";
+import { StorageValidationError } from "./StorageError";
+
+/**
+ * A versioned step in the evolution of a table's schema. Steps are registered
+ * with `withMigrations()` and run by `setupDatabase()` in ascending version
+ * order, each at most once per table.
+ *
+ * Additive changes need no step: columns present in the schema but missing
+ * from the live table are added automatically. Steps cover what cannot be
+ * inferred from the schema alone — renames and backfills.
+ *
+ * @template Storage - The storage the step runs against
+ */
+export interface TabularMigration<Storage = unknown> {
+  /** Positive integer version this step brings the table to */
+  readonly version: number;
+  readonly description?: string;
+  /**
+   * Columns renamed in this version, old name to new name. Renames are applied
+   * before missing columns are added, so the new name is not created empty.
+   */
+  readonly renameColumns?: Readonly<Record<string, string>>;
+  /**
+   * Data changes such as backfills. Runs once the table has every column of
+   * the schema; use the storage API to read and write rows.
+   */
+  up?(context: TabularMigrationContext<Storage>): Promise<void>;
+}
+
+export interface TabularMigrationContext<Storage = unknown> {
+  readonly storage: Storage;
+  /** Version of the table before this run of migrations */
+  readonly fromVersion: number;
+}
+
+/**
+ * Operations on the live table that a backend provides to the migration runner
+ */
+export interface TabularMigrationTarget {
+  /**
+   * Column names of the table as it exists before setup, or undefined if the
+   * table does not exist yet
+   */
+  readColumns(): Promise<readonly string[] | undefined>;
+  renameColumn(from: string, to: string): Promise<void>;
+  /**
+   * Adds a column for an existing table. A schema `default` fills existing
+   * rows; required columns without one are added as nullable.
+   */
+  addColumn(name: string, typeDef: JsonSchema, required: boolean): Promise<void>;
+  /** Versions recorded as applied to this table */
+  readAppliedVersions(): Promise<readonly number[]>;
+  recordVersion(version: number): Promise<void>;
+}
+
+/**
+ * Validates migration steps and returns them in version order
+ *
+ * @throws StorageValidationError if a version is not a positive integer or is
+ *   repeated, or a renamed column is not a valid column name
+ */
+export function sortTabularMigrations<Storage>(
+  migrations: readonly TabularMigration<Storage>[]
+): TabularMigration<Storage>[] {
+  const seen = new Set<number>();
+  for (const { version } of migrations) {
+    if (!Number.isInteger(version) || version <= 0) {
+      throw new StorageValidationError(
+        `Migration version must be a positive integer, got ${version}`
+      );
+    }
+    if (seen.has(version)) {
+      throw new StorageValidationError(`Migration version ${version} is registered twice`);
+    }
+    seen.add(version);
+  }
+  for (const { version, renameColumns } of migrations) {
+    for (const column of Object.entries(renameColumns ?? {}).flat()) {
+      // Names are interpolated into DDL
+      if (!/^[a-zA-Z][a-zA-Z0-9_]*$/.test(column)) {
+        throw new StorageValidationError(
+          `Migration ${version} renames invalid column name "${column}"`
+        );
+      }
+    }
+  }
+  return [...migrations].sort((a, b) => a.version - b.version);
+}
+
+/**
+ * The schema `default` of a column, if it declares one
+ */
+export function schemaDefault(typeDef: JsonSchema): unknown {
+  return typeof typeDef === "object" ? typeDef.default : undefined;
+}
+
+/** Table in which SQL backends record the migration versions applied to each table */
+export const TABULAR_MIGRATIONS_TABLE = "_tabular_migrations";
@@ -10,6 +10,9 @@ import type {
   TypedArraySchemaOptions,
 } from "@workglow/util/schema";
 import type {
+  AggregateOptions,
+  AggregateResult,
+  AggregateSpec,
   AutoGeneratedKeys,
   DeleteSearchCriteria,
   InsertEntity,
@@ -104,6 +107,27 @@ export class TelemetryTabularStorage<
     );
   }
 
+  aggregate<Aggregates extends Record<string, AggregateSpec<Entity>>>(
+    aggregates: Aggregates,
+    options?: AggregateOptions<Entity>
+  ): Promise<Array<AggregateResult<Entity, Aggregates>>> {
+    return traced("workglow.storage.tabular.aggregate", this.storageName, () =>
+      this.inner.aggregate(aggregates, options)
+    );
+  }
+
+  count(criteria?: SearchCriteria<Entity>): Promise<number> {
+    return traced("workglow.storage.tabular.count", this.storageName, () =>
+      this.inner.count(criteria)
+    );
+  }
+
+  withTransaction<T>(fn: () => Promise<T>): Promise<T> {
+    return traced("workglow.storage.tabular.transaction", this.storageName, () =>
+      this.inner.withTransaction(fn)
+    );
+  }
+
   // Forwarded directly (async generators, not worth tracing)
   records(pageSize?: number): AsyncGenerator<Entity, void, undefined> {
     return this.inner.records(pageSize);
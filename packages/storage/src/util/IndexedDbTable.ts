@@ -634,3 +634,102 @@ export async function ensureIndexedDbTable(
 export async function dropIndexedDbTable(tableName: string): Promise<void> {
   return deleteIndexedDbTable(tableName);
 }
+
+/**
+ * Columns and applied migration versions of a table, kept in the metadata
+ * store for the tabular migration runner
+ */
+export interface TableMigrationState {
+  columns: string[];
+  versions: number[];
+}
+
+function migrationStateKey(tableName: string): string {
+  return `${tableName}:migrations`;
+}
+
+/**
+ * Reads the migration state of a table, or undefined if none was recorded
+ */
+export async function readTableMigrationState(
+  db: IDBDatabase,
+  tableName: string
+): Promise<TableMigrationState | undefined> {
+  if (!db.objectStoreNames.contains(METADATA_STORE_NAME)) return undefined;
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(METADATA_STORE_NAME, "readonly");
+    const request = transaction.objectStore(METADATA_STORE_NAME).get(migrationStateKey(tableName));
+    request.onsuccess = () => {
+      const record = request.result;
+      resolve(record ? { columns: record.columns, versions: record.versions } : undefined);
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Records the migration state of a table
+ */
+export async function writeTableMigrationState(
+  db: IDBDatabase,
+  tableName: string,
+  state: TableMigrationState
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(METADATA_STORE_NAME, "readwrite");
+    transaction.objectStore(METADATA_STORE_NAME).put({
+      tableName: migrationStateKey(tableName),
+      columns: state.columns,
+      versions: state.versions,
+    });
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Rewrites the records of a store in a single transaction. `update` returns
+ * the replacement record, or undefined to leave the record unchanged.
+ */
+export async function updateIndexedDbRecords(
+  db: IDBDatabase,
+  tableName: string,
+  update: (record: any) => any | undefined
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(tableName, "readwrite");
+    const request = transaction.objectStore(tableName).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      const replacement = update(cursor.value);
+      if (replacement !== undefined) cursor.update(replacement);
+      cursor.continue();
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Collects the property names used by the records of a store
+ */
+export async function readIndexedDbRecordKeys(
+  db: IDBDatabase,
+  tableName: string
+): Promise<string[]> {
+  const keys = new Set<string>();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(tableName, "readonly");
+    const request = transaction.objectStore(tableName).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      for (const key of Object.keys(cursor.value)) keys.add(key);
+      cursor.continue();
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+  return [...keys];
+}
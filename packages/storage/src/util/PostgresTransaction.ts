@@ -0,0 +1,88 @@
+/**
+ * @license
+ * Copyright 2026 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Pool } from "@workglow/storage/postgres";
+import type { PoolClient } from "pg";
+import { runInTransactionScope, runSerialized, scopedConnection } from "./TransactionScope";
+
+// Single-connection pools wrapped so their queries wait for open transactions
+const serializedConnections = new WeakMap<Pool, Pool>();
+
+/** Whether `pool` lends out clients, as a `pg` Pool does, rather than being one connection */
+function isClientPool(pool: Pool): boolean {
+  return "totalCount" in pool;
+}
+
+/**
+ * Wraps a single connection (PGlite or one client) so each query is queued
+ * behind the transactions open on it instead of running inside them
+ */
+function serializedConnection(pool: Pool): Pool {
+  let connection = serializedConnections.get(pool);
+  if (!connection) {
+    const query = pool.query as (...args: unknown[]) => Promise<unknown>;
+    connection = {
+      query: (...args: unknown[]) => runSerialized(pool, pool, () => query.apply(pool, args)),
+    } as unknown as Pool;
+    serializedConnections.set(pool, connection);
+  }
+  return connection;
+}
+
+/**
+ * The connection a storage built on `pool` should query. Calls made from the
+ * callback of {@link runPostgresTransaction} get the transaction's client.
+ * Other callers get the pool itself, or, when the pool is a single
+ * connection, a wrapper that holds their queries until open transactions
+ * settle.
+ */
+export function postgresConnection(pool: Pool): Pool {
+  const scoped = scopedConnection<Pool>(pool);
+  if (scoped) return scoped;
+  return isClientPool(pool) ? pool : serializedConnection(pool);
+}
+
+/**
+ * Runs `fn` inside one transaction on a PostgreSQL pool: it commits if `fn`
+ * resolves and rolls back if it rejects. A `pg` Pool lends a client for the
+ * duration, and queries that storages built on the pool make from `fn` go to
+ * that client, so tabular, KV and queue writes commit or roll back together.
+ * Queries from other callers keep using the pool, and overlapping
+ * transactions each lease their own client.
+ *
+ * PGlite and single clients are one connection already: transactions on them
+ * run one at a time, and queries from outside `fn` wait until they settle.
+ * A call made from within `fn` joins the transaction rather than nesting.
+ */
+export async function runPostgresTransaction<T>(pool: Pool, fn: () => Promise<T>): Promise<T> {
+  if (scopedConnection(pool)) return await fn();
+  if (!isClientPool(pool)) {
+    return await runSerialized(pool, pool, () => runInTransaction(pool, fn));
+  }
+  const client: PoolClient = await pool.connect();
+  try {
+    return await runInTransactionScope(pool, client, () => runInTransaction(client, fn));
+  } finally {
+    client.release();
+  }
+}
+
+async function runInTransaction<T>(
+  connection: Pool | PoolClient,
+  fn: () => Promise<T>
+): Promise<T> {
+  await connection.query("BEGIN");
+  try {
+    const result = await fn();
+    await connection.query("COMMIT");
+    return result;
+  } catch (err) {
+    await connection.query("ROLLBACK").catch(() => {
+      // prefer the original error if rollback fails
+    });
+    throw err;
+  }
+}
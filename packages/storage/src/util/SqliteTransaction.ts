@@ -0,0 +1,47 @@
+/**
+ * @license
+ * Copyright 2026 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Sqlite } from "@workglow/storage/sqlite";
+import { runSerialized } from "./TransactionScope";
+
+/**
+ * Runs `fn` inside one transaction on a SQLite connection: it commits if `fn`
+ * resolves and rolls back if it rejects. Every storage sharing the connection
+ * takes part, so tabular, KV and queue writes commit or roll back together.
+ *
+ * A call made from within `fn` joins the transaction rather than nesting.
+ * Overlapping calls from other callers queue until it settles, and so do
+ * writes that storages send through {@link runSqliteWrite}, since SQLite has
+ * one transaction per connection.
+ */
+export async function runSqliteTransaction<T>(
+  db: Sqlite.Database,
+  fn: () => Promise<T>
+): Promise<T> {
+  return await runSerialized(db, db, async () => {
+    if (db.inTransaction) return await fn();
+    // IMMEDIATE takes the write lock up front, so the commit cannot fail with SQLITE_BUSY
+    db.exec("BEGIN IMMEDIATE");
+    try {
+      const result = await fn();
+      db.exec("COMMIT");
+      return result;
+    } catch (err) {
+      if (db.inTransaction) db.exec("ROLLBACK");
+      throw err;
+    }
+  });
+}
+
+/**
+ * Runs the statements of one storage write on a SQLite connection. Inside a
+ * {@link runSqliteTransaction} callback they run at once as part of it; any
+ * other caller waits for open transactions to settle, so the write is neither
+ * committed nor rolled back with work it does not belong to.
+ */
+export async function runSqliteWrite<T>(db: Sqlite.Database, fn: () => T | Promise<T>): Promise<T> {
+  return await runSerialized(db, db, fn);
+}
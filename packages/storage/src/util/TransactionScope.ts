@@ -0,0 +1,81 @@
+/**
+ * @license
+ * Copyright 2026 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AsyncLocalStorage } from "node:async_hooks";
+
+interface ScopedConnection {
+  readonly connection: object;
+  active: boolean;
+}
+
+// Loaded at run time so that browser bundles, which have no async context, still load
+const asyncHooks = globalThis.process?.getBuiltinModule?.("node:async_hooks");
+
+// Connections held by the current async context, keyed by the database, pool or storage they belong to
+const scopes: AsyncLocalStorage<ReadonlyMap<object, ScopedConnection>> | undefined = asyncHooks
+  ? new asyncHooks.AsyncLocalStorage()
+  : undefined;
+
+// Tail of the work queued on each database, pool or storage
+const queues = new WeakMap<object, Promise<void>>();
+
+/**
+ * The connection the current caller holds on `key` through
+ * {@link runInTransactionScope} or {@link runSerialized}, if any. Work that
+ * outlives the scope it was started in no longer sees it.
+ */
+export function scopedConnection<C extends object>(key: object): C | undefined {
+  const scoped = scopes?.getStore()?.get(key);
+  return scoped?.active ? (scoped.connection as C) : undefined;
+}
+
+/**
+ * Runs `fn` holding `connection` for `key`: calls made from `fn`, and only
+ * those, see it through {@link scopedConnection}. Without async context, as
+ * in browsers, no call sees it.
+ */
+export async function runInTransactionScope<T>(
+  key: object,
+  connection: object,
+  fn: () => Promise<T>
+): Promise<T> {
+  if (!scopes) return await fn();
+  const scoped: ScopedConnection = { connection, active: true };
+  const store = new Map(scopes.getStore());
+  store.set(key, scoped);
+  try {
+    return await scopes.run(store, fn);
+  } finally {
+    scoped.active = false;
+  }
+}
+
+/**
+ * Runs `fn` once the work serialized on `key` before it has settled, holding
+ * `key` (as `connection`) until `fn` settles. A caller that already holds `key`
+ * runs `fn` at once, so nested calls do not wait on themselves; with nothing
+ * queued, `fn` starts synchronously. Without async context, as in browsers,
+ * callers cannot be told apart and every `fn` runs at once.
+ */
+export async function runSerialized<T>(
+  key: object,
+  connection: object,
+  fn: () => T | Promise<T>
+): Promise<T> {
+  if (!scopes || scopedConnection(key)) return await fn();
+  const previous = queues.get(key);
+  let release!: () => void;
+  const done = new Promise<void>((resolve) => (release = resolve));
+  const tail = previous ? previous.then(() => done) : done;
+  queues.set(key, tail);
+  try {
+    if (previous) await previous;
+    return await runInTransactionScope(key, connection, async () => await fn());
+  } finally {
+    release();
+    if (queues.get(key) === tail) queues.delete(key);
+  }
+}
@@ -0,0 +1,304 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Tuning parameters for {@link Bm25Index}
+ */
+export interface Bm25IndexOptions {
+  /** Term frequency saturation. @default 1.2 */
+  readonly k1?: number;
+  /** Document length normalization (0 = none, 1 = full). @default 0.75 */
+  readonly b?: number;
+}
+
+export interface Bm25SearchHit {
+  readonly id: string;
+  /** BM25 score; higher is more relevant */
+  readonly score: number;
+}
+
+/** English stopwords dropped from documents and queries (the Lucene default set) */
+const STOPWORDS: ReadonlySet<string> = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "but",
+  "by",
+  "for",
+  "if",
+  "in",
+  "into",
+  "is",
+  "it",
+  "no",
+  "not",
+  "of",
+  "on",
+  "or",
+  "such",
+  "that",
+  "the",
+  "their",
+  "then",
+  "there",
+  "these",
+  "they",
+  "this",
+  "to",
+  "was",
+  "will",
+  "with",
+]);
+
+// Porter stemmer (M.F. Porter, "An algorithm for suffix stripping", 1980)
+const CONSONANT = "[^aeiou]";
+const VOWEL = "[aeiouy]";
+const CONSONANTS = CONSONANT + "[^aeiouy]*";
+const VOWELS = VOWEL + "[aeiou]*";
+/** [C](VC){m}[V] with m > 0 */
+const MEASURE_GT_0 = new RegExp("^(" + CONSONANTS + ")?" + VOWELS + CONSONANTS);
+/** m = 1 */
+const MEASURE_EQ_1 = new RegExp(
+  "^(" + CONSONANTS + ")?" + VOWELS + CONSONANTS + "(" + VOWELS + ")?$"
+);
+/** m > 1 */
+const MEASURE_GT_1 = new RegExp(
+  "^(" + CONSONANTS + ")?" + VOWELS + CONSONANTS + VOWELS + CONSONANTS
+);
+const HAS_VOWEL = new RegExp("^(" + CONSONANTS + ")?" + VOWEL);
+/** Ends consonant-vowel-consonant, the last not w, x or y */
+const ENDS_CVC = new RegExp("^" + CONSONANTS + VOWEL + "[^aeiouwxy]$");
+
+const STEP2_SUFFIXES: Readonly<Record<string, string>> = {
+  ational: "ate",
+  tional: "tion",
+  enci: "ence",
+  anci: "ance",
+  izer: "ize",
+  bli: "ble",
+  alli: "al",
+  entli: "ent",
+  eli: "e",
+  ousli: "ous",
+  ization: "ize",
+  ation: "ate",
+  ator: "ate",
+  alism: "al",
+  iveness: "ive",
+  fulness: "ful",
+  ousness: "ous",
+  aliti: "al",
+  iviti: "ive",
+  biliti: "ble",
+  logi: "log",
+};
+const STEP2 = new RegExp("^(.+?)(" + Object.keys(STEP2_SUFFIXES).join("|") + ")$");
+
+const STEP3_SUFFIXES: Readonly<Record<string, string>> = {
+  icate: "ic",
+  ative: "",
+  alize: "al",
+  iciti: "ic",
+  ical: "ic",
+  ful: "",
+  ness: "",
+};
+const STEP3 = new RegExp("^(.+?)(" + Object.keys(STEP3_SUFFIXES).join("|") + ")$");
+
+const STEP4 = /^(.+?)(al|ance|ence|er|ic|able|ible|ant|ement|ment|ent|ou|ism|ate|iti|ous|ive|ize)$/;
+
+/**
+ * Reduces a lowercase English word to its Porter stem ("indexing" → "index",
+ * "relational" → "relat"). Words that are not plain a-z are returned unchanged.
+ */
+export function stemWord(word: string): string {
+  if (word.length < 3 || !/^[a-z]+$/.test(word)) return word;
+
+  // A leading y is a consonant; mark it so the vowel patterns skip it
+  const leadingY = word[0] === "y";
+  let w = leadingY ? "Y" + word.slice(1) : word;
+  let match: RegExpExecArray | null;
+
+  // Step 1a: plurals
+  if ((match = /^(.+?)(ss|i)es$/.exec(w))) w = match[1] + match[2];
+  else if ((match = /^(.+?)([^s])s$/.exec(w))) w = match[1] + match[2];
+
+  // Step 1b: -eed, -ed, -ing
+  if ((match = /^(.+?)eed$/.exec(w))) {
+    if (MEASURE_GT_0.test(match[1])) w = w.slice(0, -1);
+  } else if ((match = /^(.+?)(ed|ing)$/.exec(w))) {
+    if (HAS_VOWEL.test(match[1])) {
+      w = match[1];
+      if (/(at|bl|iz)$/.test(w)) w += "e";
+      else if (/([^aeiouylsz])\1$/.test(w)) w = w.slice(0, -1);
+      else if (ENDS_CVC.test(w)) w += "e";
+    }
+  }
+
+  // Step 1c: y → i
+  if ((match = /^(.+?)y$/.exec(w)) && HAS_VOWEL.test(match[1])) w = match[1] + "i";
+
+  // Steps 2 and 3: map double and derivational suffixes
+  if ((match = STEP2.exec(w)) && MEASURE_GT_0.test(match[1])) {
+    w = match[1] + STEP2_SUFFIXES[match[2]];
+  }
+  if ((match = STEP3.exec(w)) && MEASURE_GT_0.test(match[1])) {
+    w = match[1] + STEP3_SUFFIXES[match[2]];
+  }
+
+  // Step 4: drop suffixes from long stems
+  if ((match = STEP4.exec(w))) {
+    if (MEASURE_GT_1.test(match[1])) w = match[1];
+  } else if ((match = /^(.+?)([st])ion$/.exec(w))) {
+    if (MEASURE_GT_1.test(match[1] + match[2])) w = match[1] + match[2];
+  }
+
+  // Step 5: final -e and -ll
+  if ((match = /^(.+?)e$/.exec(w))) {
+    const stem = match[1];
+    if (MEASURE_GT_1.test(stem) || (MEASURE_EQ_1.test(stem) && !ENDS_CVC.test(stem))) w = stem;
+  }
+  if (/ll$/.test(w) && MEASURE_GT_1.test(w)) w = w.slice(0, -1);
+
+  return leadingY ? "y" + w.slice(1) : w;
+}
+
+/**
+ * Splits text into lowercase words without diacritics, dropping stopwords.
+ * Words contain only letters and digits, so they are safe to quote into the
+ * query syntax of the SQL full-text engines.
+ */
+export function searchTextWords(text: string): string[] {
+  const words =
+    text
+      .normalize("NFKD")
+      .replace(/\p{M}/gu, "")
+      .toLowerCase()
+      .match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words.filter((word) => !STOPWORDS.has(word));
+}
+
+/**
+ * Splits text into index terms: {@link searchTextWords} with English words
+ * stemmed. Documents and queries go through the same analysis.
+ */
+export function tokenizeSearchText(text: string): string[] {
+  return searchTextWords(text).map(stemWord);
+}
+
+/**
+ * Returns the text of a row's metadata that lexical search indexes: the `text`
+ * field when it is a string (as on knowledge-base chunks), otherwise the
+ * top-level string values joined by spaces.
+ */
+export function getVectorSearchText(metadata: Record<string, unknown> | undefined): string {
+  if (!metadata) return "";
+  if (typeof metadata.text === "string") return metadata.text;
+  return Object.values(metadata)
+    .filter((value): value is string => typeof value === "string")
+    .join(" ");
+}
+
+interface Bm25Document {
+  readonly terms: ReadonlyMap<string, number>;
+  readonly length: number;
+}
+
+/**
+ * In-memory inverted index scored with Okapi BM25. Used for the lexical half
+ * of hybrid search by the vector storages without a native full-text engine.
+ */
+export class Bm25Index {
+  private readonly k1: number;
+  private readonly b: number;
+  private readonly documents = new Map<string, Bm25Document>();
+  /** Term → document id → term frequency */
+  private readonly postings = new Map<string, Map<string, number>>();
+  private totalLength = 0;
+
+  constructor(options: Bm25IndexOptions = {}) {
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+  }
+
+  /** Number of indexed documents */
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Indexes a document, replacing any previous text under the same id
+   */
+  add(id: string, text: string): void {
+    this.remove(id);
+    const tokens = tokenizeSearchText(text);
+    const terms = new Map<string, number>();
+    for (const term of tokens) terms.set(term, (terms.get(term) ?? 0) + 1);
+    this.documents.set(id, { terms, length: tokens.length });
+    this.totalLength += tokens.length;
+    for (const [term, frequency] of terms) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(id, frequency);
+    }
+  }
+
+  remove(id: string): void {
+    const document = this.documents.get(id);
+    if (!document) return;
+    this.documents.delete(id);
+    this.totalLength -= document.length;
+    for (const term of document.terms.keys()) {
+      const posting = this.postings.get(term)!;
+      posting.delete(id);
+      if (posting.size === 0) this.postings.delete(term);
+    }
+  }
+
+  clear(): void {
+    this.documents.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+  }
+
+  /**
+   * Scores the documents containing at least one query term
+   * @param query - Query text, analyzed like the documents
+   * @param accept - Optional predicate on document ids (e.g. a metadata filter)
+   * @returns Hits sorted by score, highest first
+   */
+  search(query: string, accept?: (id: string) => boolean): Bm25SearchHit[] {
+    const count = this.documents.size;
+    if (count === 0) return [];
+    const averageLength = this.totalLength / count || 1;
+    const scores = new Map<string, number>();
+    const accepted = new Map<string, boolean>();
+    for (const term of new Set(tokenizeSearchText(query))) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+      const idf = Math.log(1 + (count - posting.size + 0.5) / (posting.size + 0.5));
+      for (const [id, frequency] of posting) {
+        if (accept) {
+          let ok = accepted.get(id);
+          if (ok === undefined) accepted.set(id, (ok = accept(id)));
+          if (!ok) continue;
+        }
+        const length = this.documents.get(id)!.length;
+        const norm = this.k1 * (1 - this.b + (this.b * length) / averageLength);
+        const score = (idf * frequency * (this.k1 + 1)) / (frequency + norm);
+        scores.set(id, (scores.get(id) ?? 0) + score);
+      }
+    }
+    return [...scores].map(([id, score]) => ({ id, score })).sort((a, b) => b.score - a.score);
+  }
+}
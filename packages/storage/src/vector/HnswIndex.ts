@@ -0,0 +1,525 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { TypedArray } from "@workglow/util/schema";
+
+/**
+ * Tuning parameters for {@link HnswIndex}
+ */
+export interface HnswIndexOptions {
+  /** Links per node on the upper layers (layer 0 keeps twice as many). @default 16 */
+  readonly m?: number;
+  /** Candidate list size while inserting; higher builds a better graph, slower. @default 200 */
+  readonly efConstruction?: number;
+  /** Candidate list size while searching; higher improves recall, slower. @default 64 */
+  readonly efSearch?: number;
+}
+
+/**
+ * Vector index selection for the in-memory and IndexedDB vector storages.
+ * `flat` scans every vector (exact); `hnsw` keeps an approximate
+ * nearest-neighbour graph that is updated on every put and delete.
+ */
+export type VectorIndexOptions =
+  | { readonly type: "flat" }
+  | ({ readonly type: "hnsw" } & HnswIndexOptions);
+
+/**
+ * Options shared by the vector storages that keep their own index
+ */
+export interface VectorStorageOptions {
+  /** Index used by `similaritySearch`. @default { type: "flat" } */
+  readonly index?: VectorIndexOptions;
+}
+
+/**
+ * Serialized form of one graph node, as persisted by the IndexedDB storage
+ */
+export interface HnswNodeRecord {
+  readonly id: string;
+  readonly level: number;
+  /** The normalized vector */
+  readonly vector: Float32Array;
+  /** Neighbour ids per layer, from layer 0 up to `level` */
+  readonly neighbors: ReadonlyArray<ReadonlyArray<string>>;
+}
+
+/**
+ * Graph-wide state persisted alongside the node records
+ */
+export interface HnswIndexState {
+  readonly entryPoint: string | undefined;
+  readonly maxLevel: number;
+}
+
+/**
+ * Nodes changed since the last call to {@link HnswIndex.takeChanges}
+ */
+export interface HnswIndexChanges {
+  readonly upserted: HnswNodeRecord[];
+  readonly removed: string[];
+  readonly state: HnswIndexState;
+}
+
+export interface HnswSearchHit {
+  readonly id: string;
+  /** Cosine similarity to the query */
+  readonly score: number;
+}
+
+interface HnswNode {
+  vector: Float32Array;
+  level: number;
+  neighbors: string[][];
+}
+
+interface Candidate {
+  readonly id: string;
+  /** Cosine distance (1 - similarity) */
+  readonly dist: number;
+}
+
+/**
+ * Hierarchical Navigable Small World graph for approximate nearest-neighbour
+ * search by cosine similarity (Malkov & Yashunin, 2016).
+ *
+ * Vectors are normalized and copied on insert. Nodes are identified by string
+ * ids chosen by the caller; adding an existing id replaces its vector.
+ * Deleting a node reconnects its neighbours to each other so the graph stays
+ * navigable without a rebuild.
+ */
+export class HnswIndex {
+  readonly m: number;
+  readonly efConstruction: number;
+  readonly efSearch: number;
+
+  private readonly nodes = new Map<string, HnswNode>();
+  private entryPoint: string | undefined = undefined;
+  private maxLevel = -1;
+  private readonly levelMultiplier: number;
+  private readonly dirty = new Set<string>();
+  private readonly removed = new Set<string>();
+
+  constructor(options: HnswIndexOptions = {}) {
+    this.m = Math.max(2, options.m ?? 16);
+    this.efConstruction = Math.max(this.m, options.efConstruction ?? 200);
+    this.efSearch = Math.max(1, options.efSearch ?? 64);
+    this.levelMultiplier = 1 / Math.log(this.m);
+  }
+
+  /**
+   * Recreates an index from persisted node records
+   */
+  static fromRecords(
+    records: Iterable<HnswNodeRecord>,
+    state: HnswIndexState,
+    options: HnswIndexOptions = {}
+  ): HnswIndex {
+    const index = new HnswIndex(options);
+    for (const record of records) {
+      index.nodes.set(record.id, {
+        vector: record.vector,
+        level: record.level,
+        neighbors: record.neighbors.map((layer) => [...layer]),
+      });
+    }
+    index.entryPoint =
+      state.entryPoint !== undefined && index.nodes.has(state.entryPoint)
+        ? state.entryPoint
+        : undefined;
+    index.maxLevel = index.entryPoint !== undefined ? state.maxLevel : -1;
+    if (index.entryPoint === undefined && index.nodes.size > 0) {
+      index.resetEntryPoint();
+    }
+    return index;
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  has(id: string): boolean {
+    return this.nodes.has(id);
+  }
+
+  /**
+   * Inserts a vector, replacing the vector of an existing id
+   */
+  add(id: string, vector: TypedArray): void {
+    if (this.nodes.has(id)) {
+      this.remove(id);
+    }
+    const normalized = normalize(vector);
+    const level = Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelMultiplier);
+    const node: HnswNode = {
+      vector: normalized,
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => []),
+    };
+    this.nodes.set(id, node);
+    this.removed.delete(id);
+    this.dirty.add(id);
+
+    if (this.entryPoint === undefined) {
+      this.entryPoint = id;
+      this.maxLevel = level;
+      return;
+    }
+
+    let entries: Candidate[] = [this.candidate(normalized, this.entryPoint)];
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      entries = this.searchLayer(normalized, entries, 1, layer).slice(0, 1);
+    }
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const found = this.searchLayer(normalized, entries, this.efConstruction, layer).filter(
+        (c) => c.id !== id
+      );
+      node.neighbors[layer] = this.selectNeighbors(found, this.maxLinks(layer));
+      for (const neighborId of node.neighbors[layer]) {
+        this.link(neighborId, id, layer);
+      }
+      entries = found;
+    }
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = id;
+    }
+  }
+
+  /**
+   * Removes a vector and reconnects its neighbours
+   */
+  remove(id: string): void {
+    const node = this.nodes.get(id);
+    if (!node) return;
+    this.nodes.delete(id);
+    this.dirty.delete(id);
+    this.removed.add(id);
+
+    for (let layer = 0; layer <= node.level; layer++) {
+      for (const neighborId of node.neighbors[layer]) {
+        const neighbor = this.nodes.get(neighborId);
+        if (!neighbor || neighbor.level < layer) continue;
+        const links = neighbor.neighbors[layer];
+        if (!links.includes(id)) continue;
+        // Offer the removed node's other neighbours as replacement links
+        const options = new Set([...links, ...node.neighbors[layer]]);
+        options.delete(id);
+        options.delete(neighborId);
+        const candidates = [...options]
+          .filter((candidateId) => this.nodes.has(candidateId))
+          .map((candidateId) => this.candidate(neighbor.vector, candidateId))
+          .sort(byDistance);
+        neighbor.neighbors[layer] = this.selectNeighbors(candidates, this.maxLinks(layer));
+        this.dirty.add(neighborId);
+      }
+    }
+
+    if (this.entryPoint === id) {
+      this.resetEntryPoint();
+    }
+  }
+
+  clear(): void {
+    this.nodes.clear();
+    this.dirty.clear();
+    this.removed.clear();
+    this.entryPoint = undefined;
+    this.maxLevel = -1;
+  }
+
+  /**
+   * Finds the approximate `k` nearest vectors by cosine similarity
+   * @param query - Query vector
+   * @param k - Number of results
+   * @param ef - Candidate list size (at least `k`); defaults to `efSearch`
+   * @returns Hits sorted by score, highest first
+   */
+  search(query: TypedArray, k: number, ef: number = this.efSearch): HnswSearchHit[] {
+    if (this.entryPoint === undefined || k <= 0) return [];
+    const normalized = normalize(query);
+    let entries: Candidate[] = [this.candidate(normalized, this.entryPoint)];
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      entries = this.searchLayer(normalized, entries, 1, layer).slice(0, 1);
+    }
+    return this.searchLayer(normalized, entries, Math.max(ef, k), 0)
+      .slice(0, k)
+      .map((c) => ({ id: c.id, score: 1 - c.dist }));
+  }
+
+  /**
+   * All nodes, for persisting the whole index
+   */
+  records(): HnswNodeRecord[] {
+    return [...this.nodes.keys()].map((id) => this.record(id));
+  }
+
+  state(): HnswIndexState {
+    return { entryPoint: this.entryPoint, maxLevel: this.maxLevel };
+  }
+
+  /**
+   * Returns the nodes added, changed and removed since the last call, for
+   * persisting the index incrementally
+   */
+  takeChanges(): HnswIndexChanges {
+    const changes: HnswIndexChanges = {
+      upserted: [...this.dirty].map((id) => this.record(id)),
+      removed: [...this.removed],
+      state: this.state(),
+    };
+    this.dirty.clear();
+    this.removed.clear();
+    return changes;
+  }
+
+  // ========================================================================
+  // Graph internals
+  // ========================================================================
+
+  private maxLinks(layer: number): number {
+    return layer === 0 ? this.m * 2 : this.m;
+  }
+
+  private candidate(vector: Float32Array, id: string): Candidate {
+    return { id, dist: 1 - dot(vector, this.nodes.get(id)!.vector) };
+  }
+
+  private record(id: string): HnswNodeRecord {
+    const node = this.nodes.get(id)!;
+    return { id, level: node.level, vector: node.vector, neighbors: node.neighbors };
+  }
+
+  private link(fromId: string, toId: string, layer: number): void {
+    const from = this.nodes.get(fromId);
+    if (!from || from.level < layer) return;
+    const links = from.neighbors[layer];
+    if (links.includes(toId)) return;
+    links.push(toId);
+    if (links.length > this.maxLinks(layer)) {
+      const candidates = links
+        .filter((id) => this.nodes.has(id))
+        .map((id) => this.candidate(from.vector, id))
+        .sort(byDistance);
+      from.neighbors[layer] = this.selectNeighbors(candidates, this.maxLinks(layer));
+    }
+    this.dirty.add(fromId);
+  }
+
+  private resetEntryPoint(): void {
+    this.entryPoint = undefined;
+    this.maxLevel = -1;
+    for (const [id, node] of this.nodes) {
+      if (node.level > this.maxLevel) {
+        this.entryPoint = id;
+        this.maxLevel = node.level;
+      }
+    }
+  }
+
+  /**
+   * Greedy beam search on one layer
+   * @returns Up to `ef` candidates sorted by distance
+   */
+  private searchLayer(
+    query: Float32Array,
+    entries: Candidate[],
+    ef: number,
+    layer: number
+  ): Candidate[] {
+    const visited = new Set(entries.map((c) => c.id));
+    const candidates = new BinaryHeap<Candidate>((a, b) => a.dist - b.dist);
+    const results = new BinaryHeap<Candidate>((a, b) => b.dist - a.dist);
+    for (const entry of entries) {
+      candidates.push(entry);
+      results.push(entry);
+      if (results.size > ef) results.pop();
+    }
+
+    while (candidates.size > 0) {
+      const current = candidates.pop()!;
+      if (results.size >= ef && current.dist > results.peek()!.dist) break;
+      const links = this.nodes.get(current.id)?.neighbors[layer] ?? [];
+      for (const neighborId of links) {
+        if (visited.has(neighborId)) continue;
+        visited.add(neighborId);
+        const neighbor = this.nodes.get(neighborId);
+        if (!neighbor) continue;
+        const dist = 1 - dot(query, neighbor.vector);
+        if (results.size < ef || dist < results.peek()!.dist) {
+          const next = { id: neighborId, dist };
+          candidates.push(next);
+          results.push(next);
+          if (results.size > ef) results.pop();
+        }
+      }
+    }
+    return results.toArray().sort(byDistance);
+  }
+
+  /**
+   * Neighbour selection heuristic: prefer candidates closer to the base than
+   * to any already selected neighbour, which keeps links spread across
+   * clusters; top up with the closest remaining candidates.
+   */
+  private selectNeighbors(sorted: Candidate[], max: number): string[] {
+    const selected: Candidate[] = [];
+    const skipped: Candidate[] = [];
+    for (const candidate of sorted) {
+      if (selected.length >= max) break;
+      const vector = this.nodes.get(candidate.id)!.vector;
+      const diverse = selected.every(
+        (s) => 1 - dot(vector, this.nodes.get(s.id)!.vector) > candidate.dist
+      );
+      (diverse ? selected : skipped).push(candidate);
+    }
+    for (const candidate of skipped) {
+      if (selected.length >= max) break;
+      selected.push(candidate);
+    }
+    return selected.map((c) => c.id);
+  }
+}
+
+/**
+ * Creates the HNSW index selected by the storage options, or undefined for
+ * the flat (brute-force) index
+ */
+export function createVectorIndex(options: VectorStorageOptions = {}): HnswIndex | undefined {
+  return options.index?.type === "hnsw" ? new HnswIndex(options.index) : undefined;
+}
+
+/**
+ * Node id for a row, built from its primary key values in column order
+ */
+export function hnswNodeId(keyValues: readonly unknown[]): string {
+  return JSON.stringify(keyValues.map((v) => (typeof v === "bigint" ? v.toString() : v)));
+}
+
+/**
+ * Runs an approximate search and resolves the hits to rows. When rows are
+ * filtered out by `accept`, the search is repeated with a wider candidate
+ * list until `topK` rows are found or the whole graph has been searched.
+ *
+ * @param load - Resolves ids to rows, in order (undefined for missing rows)
+ * @param accept - Optional row filter, e.g. a metadata filter
+ */
+export async function searchHnswIndex<Row>(
+  index: HnswIndex,
+  query: TypedArray,
+  topK: number,
+  scoreThreshold: number,
+  load: (ids: readonly string[]) => Promise<ReadonlyArray<Row | undefined>>,
+  accept?: (row: Row) => boolean
+): Promise<Array<{ row: Row; score: number }>> {
+  let ef = Math.max(index.efSearch, topK);
+  for (;;) {
+    const hits = index.search(query, accept ? ef : topK, ef);
+    const rows = await load(hits.map((hit) => hit.id));
+    const results: Array<{ row: Row; score: number }> = [];
+    let belowThreshold = false;
+    for (let i = 0; i < hits.length && results.length < topK; i++) {
+      if (hits[i].score < scoreThreshold) {
+        belowThreshold = true;
+        break;
+      }
+      const row = rows[i];
+      if (row !== undefined && (!accept || accept(row))) {
+        results.push({ row, score: hits[i].score });
+      }
+    }
+    if (
+      !accept ||
+      results.length >= topK ||
+      belowThreshold ||
+      hits.length < ef ||
+      ef >= index.size
+    ) {
+      return results;
+    }
+    ef = Math.min(ef * 4, index.size);
+  }
+}
+
+function normalize(vector: TypedArray): Float32Array {
+  const out = new Float32Array(vector.length);
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) {
+    const value = Number(vector[i]);
+    out[i] = value;
+    norm += value * value;
+  }
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < out.length; i++) out[i] /= norm;
+  }
+  return out;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  const length = Math.min(a.length, b.length);
+  let sum = 0;
+  for (let i = 0; i < length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+function byDistance(a: Candidate, b: Candidate): number {
+  return a.dist - b.dist;
+}
+
+/**
+ * Minimal binary heap; `compare(a, b) < 0` puts `a` on top
+ */
+class BinaryHeap<T> {
+  private readonly items: T[] = [];
+
+  constructor(private readonly compare: (a: T, b: T) => number) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.compare(items[i], items[parent]) >= 0) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last !== undefined) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let best = i;
+        if (left < items.length && this.compare(items[left], items[best]) < 0) best = left;
+        if (right < items.length && this.compare(items[right], items[best]) < 0) best = right;
+        if (best === i) break;
+        [items[i], items[best]] = [items[best], items[i]];
+        i = best;
+      }
+    }
+    return top;
+  }
+
+  toArray(): T[] {
+    return [...this.items];
+  }
+}
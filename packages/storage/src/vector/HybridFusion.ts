@@ -0,0 +1,77 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { HybridSearchOptions } from "./IVectorStorage";
+
+/** Default rank constant of reciprocal rank fusion (Cormack et al., 2009) */
+export const DEFAULT_RRF_K = 60;
+
+/**
+ * A row found by one half of a hybrid search
+ */
+export interface HybridSearchHit<Row> {
+  /** Identifies the row across both rankings (e.g. its serialized primary key) */
+  readonly key: string;
+  readonly row: Row;
+  /** Cosine similarity to the query vector, when known */
+  readonly vectorScore?: number;
+  /** Lexical relevance (BM25 or the engine's full-text rank); omitted when the row did not match */
+  readonly textScore?: number;
+}
+
+/**
+ * Combines a vector ranking and a lexical ranking into hybrid search results,
+ * following `options.fusion`, then applies `scoreThreshold` to the fused score
+ * and keeps the best `topK`.
+ *
+ * @param vectorHits - Rows ranked by vector similarity, best first
+ * @param textHits - Rows that matched the text query, best first; a
+ *   `vectorScore` on them is used for rows missing from `vectorHits`
+ */
+export function fuseHybridSearchHits<Row>(
+  vectorHits: ReadonlyArray<HybridSearchHit<Row>>,
+  textHits: ReadonlyArray<HybridSearchHit<Row>>,
+  options: Omit<HybridSearchOptions<any>, "textQuery" | "filter">
+): Array<Row & { score: number }> {
+  const {
+    topK = 10,
+    scoreThreshold = 0,
+    vectorWeight = 0.7,
+    fusion = "weighted",
+    rrfK = DEFAULT_RRF_K,
+  } = options;
+
+  const fused = new Map<string, { row: Row; score: number }>();
+  const add = (hit: HybridSearchHit<Row>, score: number) => {
+    const entry = fused.get(hit.key);
+    if (entry) entry.score += score;
+    else fused.set(hit.key, { row: hit.row, score });
+  };
+
+  if (fusion === "rrf") {
+    vectorHits.forEach((hit, rank) => add(hit, 1 / (rrfK + rank + 1)));
+    textHits.forEach((hit, rank) => add(hit, 1 / (rrfK + rank + 1)));
+  } else {
+    const maxTextScore = Math.max(0, ...textHits.map((hit) => hit.textScore ?? 0));
+    const ranked = new Set<string>();
+    for (const hit of vectorHits) {
+      ranked.add(hit.key);
+      add(hit, vectorWeight * (hit.vectorScore ?? 0));
+    }
+    for (const hit of textHits) {
+      const textScore = maxTextScore > 0 ? (hit.textScore ?? 0) / maxTextScore : 0;
+      const vectorScore = ranked.has(hit.key) ? 0 : vectorWeight * (hit.vectorScore ?? 0);
+      add(hit, vectorScore + (1 - vectorWeight) * textScore);
+    }
+  }
+
+  const results: Array<Row & { score: number }> = [];
+  for (const { row, score } of fused.values()) {
+    if (score >= scoreThreshold) results.push({ ...row, score });
+  }
+  results.sort((a, b) => b.score - a.score);
+  return results.slice(0, topK);
+}
@@ -12,6 +12,7 @@ import type {
   TypedArraySchemaOptions,
 } from "@workglow/util/schema";
 import type { EventParameters } from "@workglow/util";
+import { deepEqual } from "@workglow/util";
 import type {
   AutoGeneratedKeys,
   InsertEntity,
@@ -19,9 +20,87 @@ import type {
   SimplifyPrimaryKey,
   TabularEventListeners,
 } from "../tabular/ITabularStorage";
+import { StorageValidationError } from "../tabular/StorageError";
 
 export type AnyVectorStorage = IVectorStorage<any, any, any, any>;
 
+/**
+ * A metadata field a filter expression can test. Fields are top-level keys of
+ * the metadata object.
+ */
+export type VectorFilterField<
+  Metadata extends Record<string, unknown> | undefined = Record<string, unknown>,
+> = Metadata extends Record<string, unknown> ? Extract<keyof Metadata, string> : string;
+
+/**
+ * A JSON scalar a metadata field can be compared against
+ */
+export type VectorFilterValue = string | number | boolean | null;
+
+/**
+ * Filter expression over vector metadata.
+ *
+ * - `eq` / `ne`: the field equals / does not equal `value` (a missing field is `ne` anything)
+ * - `in`: the field equals one of `values`
+ * - `range`: the field is within the given bounds; numbers compare numerically
+ *   and strings (e.g. ISO dates) lexicographically, and a field of another type never matches
+ * - `exists`: the field is present and not null
+ * - `contains`: the field is an array with an element equal to `value`
+ * - `and` / `or` / `not`: combine other expressions
+ *
+ * @example
+ * {
+ *   op: "and",
+ *   filters: [
+ *     { op: "in", field: "doc_id", values: ["doc1", "doc2"] },
+ *     { op: "range", field: "published", gte: "2024-01-01", lt: "2025-01-01" },
+ *     { op: "not", filter: { op: "contains", field: "tags", value: "draft" } },
+ *   ],
+ * }
+ */
+export type VectorFilterExpression<
+  Metadata extends Record<string, unknown> | undefined = Record<string, unknown>,
+> =
+  | {
+      readonly op: "eq" | "ne";
+      readonly field: VectorFilterField<Metadata>;
+      readonly value: VectorFilterValue;
+    }
+  | {
+      readonly op: "in";
+      readonly field: VectorFilterField<Metadata>;
+      readonly values: ReadonlyArray<VectorFilterValue>;
+    }
+  | {
+      readonly op: "range";
+      readonly field: VectorFilterField<Metadata>;
+      readonly gt?: number | string;
+      readonly gte?: number | string;
+      readonly lt?: number | string;
+      readonly lte?: number | string;
+    }
+  | { readonly op: "exists"; readonly field: VectorFilterField<Metadata> }
+  | {
+      readonly op: "contains";
+      readonly field: VectorFilterField<Metadata>;
+      readonly value: VectorFilterValue;
+    }
+  | {
+      readonly op: "and" | "or";
+      readonly filters: ReadonlyArray<VectorFilterExpression<Metadata>>;
+    }
+  | { readonly op: "not"; readonly filter: VectorFilterExpression<Metadata> };
+
+export type VectorFilterOperator = VectorFilterExpression["op"];
+
+/**
+ * A metadata filter: either a filter expression, or an object of field values
+ * that must all be equal (shorthand for an `and` of `eq` expressions).
+ */
+export type VectorFilter<
+  Metadata extends Record<string, unknown> | undefined = Record<string, unknown>,
+> = VectorFilterExpression<Metadata> | Partial<Metadata>;
+
 /**
  * Options for vector search operations
  */
@@ -29,10 +108,20 @@ export interface VectorSearchOptions<
   Metadata extends Record<string, unknown> | undefined = Record<string, unknown>,
 > {
   readonly topK?: number;
-  readonly filter?: Partial<Metadata>;
+  readonly filter?: VectorFilter<Metadata>;
   readonly scoreThreshold?: number;
 }
 
+/**
+ * How hybrid search combines the vector and the lexical (BM25 / full-text)
+ * rankings:
+ *  - "weighted": `vectorWeight * cosine + (1 - vectorWeight) * text`, with the
+ *    text score scaled to 0-1 by the best text score among the candidates
+ *  - "rrf": reciprocal rank fusion, `Σ 1 / (rrfK + rank)` over both rankings;
+ *    ignores the raw scores, so it needs no tuning across score scales
+ */
+export type HybridFusion = "weighted" | "rrf";
+
 /**
  * Options for hybrid search (vector + full-text)
  */
@@ -40,7 +129,12 @@ export interface HybridSearchOptions<
   Metadata extends Record<string, unknown> | undefined = Record<string, unknown>,
 > extends VectorSearchOptions<Metadata> {
   readonly textQuery: string;
+  /** Weight of vector similarity in "weighted" fusion (0-1). @default 0.7 */
   readonly vectorWeight?: number;
+  /** @default "weighted" */
+  readonly fusion?: HybridFusion;
+  /** Rank constant of "rrf" fusion. @default 60 */
+  readonly rrfK?: number;
 }
 
 /**
@@ -150,3 +244,154 @@ export function getMetadataProperty<Schema extends DataPortSchemaObject>(
   }
   return undefined;
 }
+
+const VECTOR_FILTER_OPERATORS: ReadonlySet<string> = new Set<VectorFilterOperator>([
+  "eq",
+  "ne",
+  "in",
+  "range",
+  "exists",
+  "contains",
+  "and",
+  "or",
+  "not",
+]);
+
+/**
+ * Regex for metadata field names in filter expressions. SQL backends inline
+ * field names into JSON paths, so only plain identifiers are allowed.
+ */
+const FILTER_FIELD_RE = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+/**
+ * Type guard to check if a filter is a filter expression rather than an
+ * equality object
+ */
+export function isVectorFilterExpression<Metadata extends Record<string, unknown> | undefined>(
+  filter: VectorFilter<Metadata>
+): filter is VectorFilterExpression<Metadata> {
+  const op = (filter as { op?: unknown }).op;
+  return (
+    typeof op === "string" &&
+    VECTOR_FILTER_OPERATORS.has(op) &&
+    ("field" in filter || "filters" in filter || "filter" in filter)
+  );
+}
+
+/**
+ * Converts a filter to a filter expression and validates it.
+ * Equality objects become an `and` of `eq` expressions; keys whose value is
+ * `undefined` are ignored.
+ *
+ * @returns The expression, or undefined if the filter matches everything
+ * @throws {StorageValidationError} If a field name is not a plain identifier
+ *   or an operator is unknown
+ */
+export function normalizeVectorFilter<Metadata extends Record<string, unknown> | undefined>(
+  filter: VectorFilter<Metadata> | undefined
+): VectorFilterExpression<Metadata> | undefined {
+  if (!filter) return undefined;
+  let expression: VectorFilterExpression<Metadata>;
+  if (isVectorFilterExpression(filter)) {
+    expression = filter;
+  } else {
+    const filters = Object.entries(filter as Record<string, unknown>)
+      .filter(([, value]) => value !== undefined)
+      .map(([field, value]) => ({ op: "eq", field, value }) as VectorFilterExpression<Metadata>);
+    if (filters.length === 0) return undefined;
+    expression = filters.length === 1 ? filters[0] : { op: "and", filters };
+  }
+  validateVectorFilter(expression);
+  return expression;
+}
+
+function validateVectorFilter(expression: VectorFilterExpression<any>): void {
+  switch (expression.op) {
+    case "and":
+    case "or":
+      for (const child of expression.filters) validateVectorFilter(child);
+      return;
+    case "not":
+      validateVectorFilter(expression.filter);
+      return;
+    case "eq":
+    case "ne":
+    case "in":
+    case "range":
+    case "exists":
+    case "contains":
+      if (!FILTER_FIELD_RE.test(expression.field)) {
+        throw new StorageValidationError(
+          `Invalid metadata filter key: "${expression.field}". Keys must match /^[a-zA-Z_][a-zA-Z0-9_]*$/.`
+        );
+      }
+      return;
+    default:
+      throw new StorageValidationError(
+        `Unknown metadata filter operator: "${(expression as { op: unknown }).op}"`
+      );
+  }
+}
+
+/**
+ * Evaluates a filter against a metadata object. Backends without a native
+ * filter translation use this to filter rows in memory; the SQL translations
+ * follow the same semantics.
+ *
+ * @throws {StorageValidationError} If the filter is invalid (see {@link normalizeVectorFilter})
+ */
+export function matchesVectorFilter<Metadata extends Record<string, unknown> | undefined>(
+  metadata: Metadata,
+  filter: VectorFilter<Metadata> | undefined
+): boolean {
+  const expression = normalizeVectorFilter(filter);
+  return (
+    !expression || evaluateVectorFilter((metadata ?? {}) as Record<string, unknown>, expression)
+  );
+}
+
+function evaluateVectorFilter(
+  metadata: Record<string, unknown>,
+  expression: VectorFilterExpression<any>
+): boolean {
+  switch (expression.op) {
+    case "and":
+      return expression.filters.every((child) => evaluateVectorFilter(metadata, child));
+    case "or":
+      return expression.filters.some((child) => evaluateVectorFilter(metadata, child));
+    case "not":
+      return !evaluateVectorFilter(metadata, expression.filter);
+    case "eq":
+      return deepEqual(metadata[expression.field], expression.value);
+    case "ne":
+      return !deepEqual(metadata[expression.field], expression.value);
+    case "in": {
+      const value = metadata[expression.field];
+      return expression.values.some((candidate) => deepEqual(value, candidate));
+    }
+    case "exists":
+      return metadata[expression.field] !== undefined && metadata[expression.field] !== null;
+    case "contains": {
+      const value = metadata[expression.field];
+      return Array.isArray(value) && value.some((item) => deepEqual(item, expression.value));
+    }
+    case "range": {
+      const value = metadata[expression.field];
+      return (
+        inBound(value, expression.gt, (a, b) => a > b) &&
+        inBound(value, expression.gte, (a, b) => a >= b) &&
+        inBound(value, expression.lt, (a, b) => a < b) &&
+        inBound(value, expression.lte, (a, b) => a <= b)
+      );
+    }
+  }
+}
+
+function inBound<T extends number | string>(
+  value: unknown,
+  bound: T | undefined,
+  compare: (value: T, bound: T) => boolean
+): boolean {
+  if (bound === undefined) return true;
+  return typeof value === typeof bound && compare(value as T, bound);
+}
@@ -13,39 +13,24 @@ import type {
 } from "@workglow/util/schema";
 import { cosineSimilarity } from "@workglow/util/schema";
 import { InMemoryTabularStorage } from "../tabular/InMemoryTabularStorage";
+import type {
+  AutoGeneratedKeys,
+  DeleteSearchCriteria,
+  InsertEntity,
+  SimplifyPrimaryKey,
+} from "../tabular/ITabularStorage";
+import { Bm25Index, getVectorSearchText } from "./Bm25Index";
+import type { HnswIndex, VectorStorageOptions } from "./HnswIndex";
+import { createVectorIndex, hnswNodeId, searchHnswIndex } from "./HnswIndex";
+import type { HybridSearchHit } from "./HybridFusion";
+import { fuseHybridSearchHits } from "./HybridFusion";
 import type { HybridSearchOptions, IVectorStorage, VectorSearchOptions } from "./IVectorStorage";
-import { getMetadataProperty, getVectorProperty } from "./IVectorStorage";
-
-/**
- * Check if metadata matches filter
- */
-function matchesFilter<Metadata>(metadata: Metadata, filter: Partial<Metadata>): boolean {
-  for (const [key, value] of Object.entries(filter)) {
-    if (metadata[key as keyof Metadata] !== value) {
-      return false;
-    }
-  }
-  return true;
-}
-
-/**
- * Simple full-text search scoring (keyword matching)
- */
-function textRelevance(text: string, query: string): number {
-  const textLower = text.toLowerCase();
-  const queryLower = query.toLowerCase();
-  const queryWords = queryLower.split(/\s+/).filter((w) => w.length > 0);
-  if (queryWords.length === 0) {
-    return 0;
-  }
-  let matches = 0;
-  for (const word of queryWords) {
-    if (textLower.includes(word)) {
-      matches++;
-    }
-  }
-  return matches / queryWords.length;
-}
+import {
+  getMetadataProperty,
+  getVectorProperty,
+  matchesVectorFilter,
+  normalizeVectorFilter,
+} from "./IVectorStorage";
 
 /**
  * In-memory document chunk vector repository implementation.
@@ -53,6 +38,11 @@ function textRelevance(text: string, query: string): number {
  * Suitable for testing and small-scale browser applications.
  * Supports all vector types including quantized formats.
  *
+ * Similarity search scans every vector unless an HNSW index is selected with
+ * `options.index`; the index is kept up to date on every put and delete.
+ * Hybrid search ranks the metadata text with a BM25 inverted index that is
+ * maintained the same way.
+ *
  * @template Metadata - The metadata type for the document chunk
  * @template VectorCtor - Constructor for stored vectors (default {@link typeof Float32Array})
  */
@@ -68,6 +58,11 @@ export class InMemoryVectorStorage<
   private vectorDimensions: number;
   private vectorPropertyName: keyof Entity;
   private metadataPropertyName: keyof Entity | undefined;
+  private readonly index: HnswIndex | undefined;
+  /** Rows by index node id, for resolving index hits */
+  private readonly indexedRows = new Map<string, Entity>();
+  /** Lexical index over the metadata text, by node id */
+  private readonly textIndex = new Bm25Index();
 
   /**
    * Creates a new in-memory document chunk vector repository
@@ -76,13 +71,15 @@ export class InMemoryVectorStorage<
    * @param indexes - Array of columns or column arrays to make searchable
    * @param dimensions - The number of dimensions of the vector
    * @param _vectorCtor - TypedArray constructor (unused, for API compatibility)
+   * @param options - Vector index selection (defaults to a flat scan)
    */
   constructor(
     schema: Schema,
     primaryKeyNames: PrimaryKeyNames,
     indexes: readonly (keyof NoInfer<Entity> | readonly (keyof NoInfer<Entity>)[])[] = [],
     dimensions: number,
-    _vectorCtor: TypedArrayConstructor = Float32Array
+    _vectorCtor: TypedArrayConstructor = Float32Array,
+    options: VectorStorageOptions = {}
   ) {
     super(schema, primaryKeyNames, indexes);
 
@@ -95,6 +92,7 @@ export class InMemoryVectorStorage<
     }
     this.vectorPropertyName = vectorProp as keyof Entity;
     this.metadataPropertyName = getMetadataProperty(schema) as keyof Entity | undefined;
+    this.index = createVectorIndex(options);
   }
 
   /**
@@ -105,11 +103,84 @@ export class InMemoryVectorStorage<
     return this.vectorDimensions;
   }
 
+  override async put(value: InsertEntity<Entity, AutoGeneratedKeys<Schema>>): Promise<Entity> {
+    const entity = await super.put(value);
+    const id = this.nodeId(entity);
+    if (this.index) {
+      this.index.add(id, entity[this.vectorPropertyName] as TypedArray);
+      this.indexedRows.set(id, entity);
+    }
+    if (this.metadataPropertyName) {
+      this.textIndex.add(
+        id,
+        getVectorSearchText(entity[this.metadataPropertyName] as Record<string, unknown>)
+      );
+    }
+    return entity;
+  }
+
+  override async delete(
+    value: SimplifyPrimaryKey<Entity, PrimaryKeyNames> | Entity
+  ): Promise<void> {
+    await super.delete(value);
+    const id = this.nodeId(value as Entity);
+    if (this.index) {
+      this.index.remove(id);
+      this.indexedRows.delete(id);
+    }
+    this.textIndex.remove(id);
+  }
+
+  override async deleteAll(): Promise<void> {
+    await super.deleteAll();
+    this.index?.clear();
+    this.indexedRows.clear();
+    this.textIndex.clear();
+  }
+
+  override async deleteSearch(criteria: DeleteSearchCriteria<Entity>): Promise<void> {
+    const removed = (await this.query(criteria)) ?? [];
+    await super.deleteSearch(criteria);
+    for (const entity of removed) {
+      const id = this.nodeId(entity);
+      this.index?.remove(id);
+      this.indexedRows.delete(id);
+      this.textIndex.remove(id);
+    }
+  }
+
+  private nodeId(entity: Entity): string {
+    const row = entity as Record<string, unknown>;
+    return hnswNodeId(this.primaryKeyColumns().map((k) => row[k as string]));
+  }
+
   async similaritySearch(
     query: TypedArray,
     options: VectorSearchOptions<Record<string, unknown>> = {}
   ) {
     const { topK = 10, filter, scoreThreshold = 0 } = options;
+
+    if (this.index) {
+      const expression = normalizeVectorFilter(filter);
+      const hits = await searchHnswIndex(
+        this.index,
+        query,
+        topK,
+        scoreThreshold,
+        async (ids) => ids.map((id) => this.indexedRows.get(id)),
+        expression
+          ? (entity: Entity) =>
+              matchesVectorFilter(
+                this.metadataPropertyName
+                  ? (entity[this.metadataPropertyName] as Record<string, unknown>)
+                  : {},
+                expression
+              )
+          : undefined
+      );
+      return hits.map(({ row, score }) => ({ ...row, score }) as Entity & { score: number });
+    }
+
     const results: Array<Entity & { score: number }> = [];
 
     const allEntities = (await this.getAll()) || [];
@@ -121,7 +192,7 @@ export class InMemoryVectorStorage<
         : ({} as Metadata);
 
       // Apply filter if provided
-      if (filter && !matchesFilter(metadata, filter)) {
+      if (!matchesVectorFilter(metadata, filter)) {
         continue;
       }
 
@@ -147,14 +218,14 @@ export class InMemoryVectorStorage<
   }
 
   async hybridSearch(query: TypedArray, options: HybridSearchOptions<Record<string, unknown>>) {
-    const { topK = 10, filter, scoreThreshold = 0, textQuery, vectorWeight = 0.7 } = options;
+    const { topK = 10, filter, scoreThreshold = 0, textQuery } = options;
 
     if (!textQuery || textQuery.trim().length === 0) {
       // Fall back to regular vector search if no text query
       return this.similaritySearch(query, { topK, filter, scoreThreshold });
     }
 
-    const results: Array<Entity & { score: number }> = [];
+    const vectorHits: HybridSearchHit<Entity>[] = [];
     const allEntities = (await this.getAll()) || [];
 
     for (const entity of allEntities) {
@@ -165,37 +236,24 @@ export class InMemoryVectorStorage<
         : ({} as Metadata);
 
       // Apply filter if provided
-      if (filter && !matchesFilter(metadata, filter)) {
+      if (!matchesVectorFilter(metadata, filter)) {
         continue;
       }
 
-      // Calculate vector similarity
-      const vectorScore = cosineSimilarity(query, vector);
-
-      // Calculate text relevance (simple keyword matching)
-      const metadataText = Object.values(metadata ?? {})
-        .join(" ")
-        .toLowerCase();
-      const textScore = textRelevance(metadataText, textQuery);
-
-      // Combine scores
-      const combinedScore = vectorWeight * vectorScore + (1 - vectorWeight) * textScore;
-
-      // Apply threshold
-      if (combinedScore < scoreThreshold) {
-        continue;
-      }
-
-      results.push({
-        ...entity,
-        score: combinedScore,
-      } as Entity & { score: number });
+      vectorHits.push({
+        key: this.nodeId(entity),
+        row: entity,
+        vectorScore: cosineSimilarity(query, vector),
+      });
     }
+    vectorHits.sort((a, b) => b.vectorScore! - a.vectorScore!);
 
-    // Sort by combined score descending and take top K
-    results.sort((a, b) => b.score - a.score);
-    const topResults = results.slice(0, topK);
+    // Rank the filtered rows by BM25 over their metadata text
+    const candidates = new Map(vectorHits.map((hit) => [hit.key, hit]));
+    const textHits = this.textIndex
+      .search(textQuery, (id) => candidates.has(id))
+      .map(({ id, score }) => ({ ...candidates.get(id)!, textScore: score }));
 
-    return topResults;
+    return fuseHybridSearchHits(vectorHits, textHits, options);
   }
 }
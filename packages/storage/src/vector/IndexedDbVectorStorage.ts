@@ -15,49 +15,46 @@ import type {
 import { cosineSimilarity } from "@workglow/util/schema";
 import type { ClientProvidedKeysOption } from "../tabular/BaseTabularStorage";
 import { IndexedDbTabularStorage } from "../tabular/IndexedDbTabularStorage";
+import type {
+  AutoGeneratedKeys,
+  DeleteSearchCriteria,
+  InsertEntity,
+  SimplifyPrimaryKey,
+} from "../tabular/ITabularStorage";
 import type { MigrationOptions } from "../util/IndexedDbTable";
+import { ensureIndexedDbTable } from "../util/IndexedDbTable";
+import { Bm25Index, getVectorSearchText } from "./Bm25Index";
+import type {
+  HnswIndexChanges,
+  HnswIndexOptions,
+  HnswIndexState,
+  HnswNodeRecord,
+  VectorStorageOptions,
+} from "./HnswIndex";
+import { HnswIndex, hnswNodeId, searchHnswIndex } from "./HnswIndex";
+import type { HybridSearchHit } from "./HybridFusion";
+import { fuseHybridSearchHits } from "./HybridFusion";
 import type {
   AnyVectorStorage,
   HybridSearchOptions,
   IVectorStorage,
   VectorSearchOptions,
 } from "./IVectorStorage";
-import { getMetadataProperty, getVectorProperty } from "./IVectorStorage";
+import {
+  getMetadataProperty,
+  getVectorProperty,
+  matchesVectorFilter,
+  normalizeVectorFilter,
+} from "./IVectorStorage";
 
 export const IDB_VECTOR_REPOSITORY = createServiceToken<AnyVectorStorage>(
   "storage.vectorRepository.indexedDb"
 );
 
-/**
- * Check if metadata matches filter
- */
-function matchesFilter<Metadata>(metadata: Metadata, filter: Partial<Metadata>): boolean {
-  for (const [key, value] of Object.entries(filter)) {
-    if (metadata[key as keyof Metadata] !== value) {
-      return false;
-    }
-  }
-  return true;
-}
+/** Id of the record holding the graph-wide state in the index store */
+const HNSW_META_ID = "__meta__";
 
-/**
- * Simple full-text search scoring (keyword matching)
- */
-function textRelevance(text: string, query: string): number {
-  const textLower = text.toLowerCase();
-  const queryLower = query.toLowerCase();
-  const queryWords = queryLower.split(/\s+/).filter((w) => w.length > 0);
-  if (queryWords.length === 0) {
-    return 0;
-  }
-  let matches = 0;
-  for (const word of queryWords) {
-    if (textLower.includes(word)) {
-      matches++;
-    }
-  }
-  return matches / queryWords.length;
-}
+type HnswMetaRecord = HnswIndexState & { readonly id: typeof HNSW_META_ID };
 
 /**
  * IndexedDB vector storage implementation.
@@ -66,6 +63,17 @@ function textRelevance(text: string, query: string): number {
  * No vector serialization needed since IndexedDB supports TypedArrays
  * natively via structured clone.
  *
+ * With `options.index` set to `hnsw`, similarity search uses an HNSW graph
+ * that is updated on every put and delete and persisted node by node in a
+ * separate `${table}_hnsw` database, so reopening the storage does not
+ * rebuild it. The graph is rebuilt from the stored vectors when it is missing
+ * or its node count no longer matches the table; writes made to the table
+ * by other means (another tab, another storage instance) are not tracked.
+ *
+ * Hybrid search ranks the metadata text with a BM25 inverted index that is
+ * built from the stored rows on the first hybrid search and then kept up to
+ * date on every put and delete. It lives in memory only.
+ *
  * @template Schema - The schema definition for the entity
  * @template PrimaryKeyNames - The primary key names
  * @template Metadata - The metadata type for the vector
@@ -84,6 +92,10 @@ export class IndexedDbVectorStorage<
   private vectorDimensions: number;
   private vectorPropertyName: keyof Entity;
   private metadataPropertyName: keyof Entity | undefined;
+  private readonly indexOptions: HnswIndexOptions | undefined;
+  private indexPromise: Promise<HnswIndex> | undefined;
+  private indexDb: IDBDatabase | undefined;
+  private textIndexPromise: Promise<Bm25Index> | undefined;
 
   /**
    * Creates a new IndexedDB vector storage
@@ -95,6 +107,7 @@ export class IndexedDbVectorStorage<
    * @param _vectorCtor - TypedArray constructor (unused, IndexedDB stores typed arrays natively)
    * @param migrationOptions - Options for handling database schema migrations
    * @param clientProvidedKeys - How to handle client-provided values for auto-generated keys
+   * @param options - Vector index selection (defaults to a flat scan)
    */
   constructor(
     table: string = "vectors",
@@ -104,7 +117,8 @@ export class IndexedDbVectorStorage<
     dimensions: number,
     _vectorCtor: TypedArrayConstructor = Float32Array,
     migrationOptions: MigrationOptions = {},
-    clientProvidedKeys: ClientProvidedKeysOption = "if-missing"
+    clientProvidedKeys: ClientProvidedKeysOption = "if-missing",
+    options: VectorStorageOptions = {}
   ) {
     super(table, schema, primaryKeyNames, indexes, migrationOptions, clientProvidedKeys);
 
@@ -117,6 +131,7 @@ export class IndexedDbVectorStorage<
     }
     this.vectorPropertyName = vectorProp as keyof Entity;
     this.metadataPropertyName = getMetadataProperty(schema) as keyof Entity | undefined;
+    this.indexOptions = options.index?.type === "hnsw" ? options.index : undefined;
   }
 
   /**
@@ -127,11 +142,204 @@ export class IndexedDbVectorStorage<
     return this.vectorDimensions;
   }
 
+  // ========================================================================
+  // HNSW index maintenance
+  // ========================================================================
+
+  private get indexTable(): string {
+    return `${this.table}_hnsw`;
+  }
+
+  /**
+   * Returns the HNSW index, loading or rebuilding it on first use, or
+   * undefined when the storage uses a flat scan
+   */
+  private async getIndex(): Promise<HnswIndex | undefined> {
+    if (!this.indexOptions) return undefined;
+    this.indexPromise ??= this.loadIndex(this.indexOptions);
+    try {
+      return await this.indexPromise;
+    } catch (err) {
+      this.indexPromise = undefined;
+      throw err;
+    }
+  }
+
+  private async loadIndex(options: HnswIndexOptions): Promise<HnswIndex> {
+    const db = await ensureIndexedDbTable(this.indexTable, "id");
+    this.indexDb = db;
+    const stored = await new Promise<Array<HnswNodeRecord | HnswMetaRecord>>((resolve, reject) => {
+      const transaction = db.transaction(this.indexTable, "readonly");
+      const request = transaction.objectStore(this.indexTable).getAll();
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result);
+    });
+    const meta = stored.find((record): record is HnswMetaRecord => record.id === HNSW_META_ID);
+    const nodes = stored.filter((record): record is HnswNodeRecord => record.id !== HNSW_META_ID);
+    if (meta && nodes.length === (await this.size())) {
+      return HnswIndex.fromRecords(nodes, meta, options);
+    }
+
+    // Missing or out of date: rebuild from the stored vectors
+    const index = new HnswIndex(options);
+    for (const entity of (await this.getAll()) ?? []) {
+      index.add(this.nodeId(entity), entity[this.vectorPropertyName] as TypedArray);
+    }
+    await this.writeIndexChanges(index.takeChanges(), true);
+    return index;
+  }
+
+  /**
+   * Persists index changes in one transaction. Callers take the changes and
+   * call this synchronously so transactions commit in the order of the edits.
+   */
+  private writeIndexChanges(changes: HnswIndexChanges, replace: boolean = false): Promise<void> {
+    const db = this.indexDb!;
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.indexTable, "readwrite");
+      const store = transaction.objectStore(this.indexTable);
+      if (replace) store.clear();
+      for (const id of changes.removed) store.delete(id);
+      for (const record of changes.upserted) store.put(record);
+      store.put({ id: HNSW_META_ID, ...changes.state } satisfies HnswMetaRecord);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Returns the BM25 index over the metadata text, building it on first use
+   */
+  private async getTextIndex(): Promise<Bm25Index> {
+    this.textIndexPromise ??= this.buildTextIndex();
+    try {
+      return await this.textIndexPromise;
+    } catch (err) {
+      this.textIndexPromise = undefined;
+      throw err;
+    }
+  }
+
+  private async buildTextIndex(): Promise<Bm25Index> {
+    const index = new Bm25Index();
+    for (const entity of (await this.getAll()) ?? []) {
+      index.add(this.nodeId(entity), this.searchText(entity));
+    }
+    return index;
+  }
+
+  private searchText(entity: Entity): string {
+    return this.metadataPropertyName
+      ? getVectorSearchText(entity[this.metadataPropertyName] as Record<string, unknown>)
+      : "";
+  }
+
+  private nodeId(entity: Entity): string {
+    const row = entity as Record<string, unknown>;
+    return hnswNodeId(this.primaryKeyColumns().map((k) => row[k as string]));
+  }
+
+  private keyFromNodeId(id: string): SimplifyPrimaryKey<Entity, PrimaryKeyNames> {
+    const values = JSON.parse(id) as unknown[];
+    const key: Record<string, unknown> = {};
+    this.primaryKeyColumns().forEach((k, i) => (key[k as string] = values[i]));
+    return key as SimplifyPrimaryKey<Entity, PrimaryKeyNames>;
+  }
+
+  override async put(record: InsertEntity<Entity, AutoGeneratedKeys<Schema>>): Promise<Entity> {
+    const index = await this.getIndex();
+    const entity = await super.put(record);
+    if (index) {
+      index.add(this.nodeId(entity), entity[this.vectorPropertyName] as TypedArray);
+      await this.writeIndexChanges(index.takeChanges());
+    }
+    // Only maintained once built; a build in progress may have missed this row
+    if (this.textIndexPromise) {
+      (await this.getTextIndex()).add(this.nodeId(entity), this.searchText(entity));
+    }
+    return entity;
+  }
+
+  override async delete(key: SimplifyPrimaryKey<Entity, PrimaryKeyNames>): Promise<void> {
+    const index = await this.getIndex();
+    await super.delete(key);
+    if (index) {
+      index.remove(this.nodeId(key as Entity));
+      await this.writeIndexChanges(index.takeChanges());
+    }
+    if (this.textIndexPromise) {
+      (await this.getTextIndex()).remove(this.nodeId(key as Entity));
+    }
+  }
+
+  override async deleteAll(): Promise<void> {
+    const index = await this.getIndex();
+    await super.deleteAll();
+    if (index) {
+      index.clear();
+      await this.writeIndexChanges(index.takeChanges(), true);
+    }
+    if (this.textIndexPromise) {
+      (await this.getTextIndex()).clear();
+    }
+  }
+
+  override async deleteSearch(criteria: DeleteSearchCriteria<Entity>): Promise<void> {
+    const index = await this.getIndex();
+    const tracked = index !== undefined || this.textIndexPromise !== undefined;
+    const removed = tracked ? ((await this.query(criteria)) ?? []) : [];
+    await super.deleteSearch(criteria);
+    if (index && removed.length > 0) {
+      for (const entity of removed) {
+        index.remove(this.nodeId(entity));
+      }
+      await this.writeIndexChanges(index.takeChanges());
+    }
+    if (this.textIndexPromise) {
+      const textIndex = await this.getTextIndex();
+      for (const entity of removed) {
+        textIndex.remove(this.nodeId(entity));
+      }
+    }
+  }
+
+  /**
+   * Destroys this storage and closes the index database.
+   */
+  public override destroy(): void {
+    super.destroy();
+    this.indexDb?.close();
+  }
+
   async similaritySearch(
     query: TypedArray,
     options: VectorSearchOptions<Record<string, unknown>> = {}
   ) {
     const { topK = 10, filter, scoreThreshold = 0 } = options;
+
+    const index = await this.getIndex();
+    if (index) {
+      const expression = normalizeVectorFilter(filter);
+      const hits = await searchHnswIndex(
+        index,
+        query,
+        topK,
+        scoreThreshold,
+        (ids) => Promise.all(ids.map((id) => this.get(this.keyFromNodeId(id)))),
+        expression
+          ? (entity: Entity) =>
+              matchesVectorFilter(
+                this.metadataPropertyName
+                  ? (entity[this.metadataPropertyName] as Record<string, unknown>)
+                  : {},
+                expression
+              )
+          : undefined
+      );
+      return hits.map(({ row, score }) => ({ ...row, score }) as Entity & { score: number });
+    }
+
     const results: Array<Entity & { score: number }> = [];
 
     const allEntities = (await this.getAll()) || [];
@@ -144,7 +352,7 @@ export class IndexedDbVectorStorage<
         : ({} as Metadata);
 
       // Apply filter if provided
-      if (filter && !matchesFilter(metadata, filter)) {
+      if (!matchesVectorFilter(metadata, filter)) {
         continue;
       }
 
@@ -170,14 +378,15 @@ export class IndexedDbVectorStorage<
   }
 
   async hybridSearch(query: TypedArray, options: HybridSearchOptions<Record<string, unknown>>) {
-    const { topK = 10, filter, scoreThreshold = 0, textQuery, vectorWeight = 0.7 } = options;
+    const { topK = 10, filter, scoreThreshold = 0, textQuery } = options;
 
     if (!textQuery || textQuery.trim().length === 0) {
       // Fall back to regular vector search if no text query
       return this.similaritySearch(query, { topK, filter, scoreThreshold });
     }
 
-    const results: Array<Entity & { score: number }> = [];
+    const textIndex = await this.getTextIndex();
+    const vectorHits: HybridSearchHit<Entity>[] = [];
     const allEntities = (await this.getAll()) || [];
 
     for (const entity of allEntities) {
@@ -188,35 +397,24 @@ export class IndexedDbVectorStorage<
         : ({} as Metadata);
 
       // Apply filter if provided
-      if (filter && !matchesFilter(metadata, filter)) {
+      if (!matchesVectorFilter(metadata, filter)) {
         continue;
       }
 
-      // Calculate vector similarity
-      const vectorScore = cosineSimilarity(query, vector);
-
-      // Calculate text relevance (simple keyword matching)
-      const metadataText = Object.values(metadata).join(" ").toLowerCase();
-      const textScore = textRelevance(metadataText, textQuery);
-
-      // Combine scores
-      const combinedScore = vectorWeight * vectorScore + (1 - vectorWeight) * textScore;
-
-      // Apply threshold
-      if (combinedScore < scoreThreshold) {
-        continue;
-      }
-
-      results.push({
-        ...entity,
-        score: combinedScore,
-      } as Entity & { score: number });
+      vectorHits.push({
+        key: this.nodeId(entity),
+        row: entity,
+        vectorScore: cosineSimilarity(query, vector),
+      });
     }
+    vectorHits.sort((a, b) => b.vectorScore! - a.vectorScore!);
 
-    // Sort by combined score descending and take top K
-    results.sort((a, b) => b.score - a.score);
-    const topResults = results.slice(0, topK);
+    // Rank the filtered rows by BM25 over their metadata text
+    const candidates = new Map(vectorHits.map((hit) => [hit.key, hit]));
+    const textHits = textIndex
+      .search(textQuery, (id) => candidates.has(id))
+      .map(({ id, score }) => ({ ...candidates.get(id)!, textScore: score }));
 
-    return topResults;
+    return fuseHybridSearchHits(vectorHits, textHits, options);
   }
 }
@@ -15,8 +15,93 @@ import type {
 import { cosineSimilarity } from "@workglow/util/schema";
 import { PostgresTabularStorage } from "../tabular/PostgresTabularStorage";
 import { StorageValidationError } from "../tabular/StorageError";
-import type { HybridSearchOptions, IVectorStorage, VectorSearchOptions } from "./IVectorStorage";
-import { getMetadataProperty, getVectorProperty } from "./IVectorStorage";
+import { Bm25Index, getVectorSearchText, searchTextWords } from "./Bm25Index";
+import { hnswNodeId } from "./HnswIndex";
+import type { HybridSearchHit } from "./HybridFusion";
+import { fuseHybridSearchHits } from "./HybridFusion";
+import type {
+  HybridSearchOptions,
+  IVectorStorage,
+  VectorFilterExpression,
+  VectorSearchOptions,
+} from "./IVectorStorage";
+import {
+  getMetadataProperty,
+  getVectorProperty,
+  matchesVectorFilter,
+  normalizeVectorFilter,
+} from "./IVectorStorage";
+
+/**
+ * Translates a (normalized) filter expression into a PostgreSQL boolean
+ * expression over a JSONB metadata column. Bound values are appended to
+ * `params`; field names are validated by `normalizeVectorFilter` before they
+ * are inlined. Every comparison is wrapped so it is never NULL and can be
+ * negated safely.
+ */
+function buildPostgresVectorFilter(
+  column: string,
+  expression: VectorFilterExpression<any>,
+  params: unknown[]
+): string {
+  const bind = (value: unknown, cast: string) => {
+    params.push(value);
+    return `$${params.length}::${cast}`;
+  };
+  switch (expression.op) {
+    case "and":
+    case "or": {
+      if (expression.filters.length === 0) return expression.op === "and" ? "TRUE" : "FALSE";
+      const joiner = expression.op === "and" ? " AND " : " OR ";
+      return `(${expression.filters
+        .map((child) => buildPostgresVectorFilter(column, child, params))
+        .join(joiner)})`;
+    }
+    case "not":
+      return `(NOT ${buildPostgresVectorFilter(column, expression.filter, params)})`;
+    case "eq":
+      return `COALESCE(${column}->'${expression.field}' = ${bind(JSON.stringify(expression.value), "jsonb")}, FALSE)`;
+    case "ne":
+      return `(NOT COALESCE(${column}->'${expression.field}' = ${bind(JSON.stringify(expression.value), "jsonb")}, FALSE))`;
+    case "in": {
+      if (expression.values.length === 0) return "FALSE";
+      const values = expression.values.map((value) => bind(JSON.stringify(value), "jsonb"));
+      return `COALESCE(${column}->'${expression.field}' IN (${values.join(", ")}), FALSE)`;
+    }
+    case "exists":
+      return `(COALESCE(jsonb_typeof(${column}->'${expression.field}'), 'null') <> 'null')`;
+    case "contains":
+      return `COALESCE(jsonb_typeof(${column}->'${expression.field}') = 'array' AND ${column}->'${expression.field}' @> ${bind(JSON.stringify([expression.value]), "jsonb")}, FALSE)`;
+    case "range": {
+      const conditions: string[] = [];
+      const bounds = [
+        [">", expression.gt],
+        [">=", expression.gte],
+        ["<", expression.lt],
+        ["<=", expression.lte],
+      ] as const;
+      for (const [operator, bound] of bounds) {
+        if (bound === undefined) continue;
+        if (typeof bound === "number") {
+          // CASE guarantees the cast only runs on numbers
+          conditions.push(
+            `COALESCE(CASE WHEN jsonb_typeof(${column}->'${expression.field}') = 'number' THEN (${column}->>'${expression.field}')::float8 ${operator} ${bind(bound, "float8")} ELSE FALSE END, FALSE)`
+          );
+        } else {
+          conditions.push(
+            `COALESCE(jsonb_typeof(${column}->'${expression.field}') = 'string' AND (${column}->>'${expression.field}') COLLATE "C" ${operator} ${bind(bound, "text")}, FALSE)`
+          );
+        }
+      }
+      return conditions.length > 0 ? `(${conditions.join(" AND ")})` : "TRUE";
+    }
+  }
+}
+
+/**
+ * Rows each half of a native hybrid search ranks before fusion, per result
+ */
+const HYBRID_CANDIDATES_PER_RESULT = 5;
 
 /**
  * PostgreSQL vector repository implementation using pgvector extension.
@@ -27,15 +112,12 @@ import { getMetadataProperty, getVectorProperty } from "./IVectorStorage";
  * - PostgreSQL database with pgvector extension installed
  * - CREATE EXTENSION vector;
  *
+ * Hybrid search ranks the metadata text with PostgreSQL full-text search
+ * (english configuration, `ts_rank_cd`) backed by a GIN expression index.
+ *
  * @template Metadata - The metadata type
  * @template VectorCtor - Constructor for stored vectors (default {@link typeof Float32Array})
  */
-/**
- * Regex for validating metadata filter keys to prevent SQL injection.
- * Only allows alphanumeric characters and underscores, starting with a letter or underscore.
- */
-const SAFE_IDENTIFIER_RE = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
-
 export class PostgresVectorStorage<
   Schema extends DataPortSchemaObject,
   PrimaryKeyNames extends ReadonlyArray<keyof Schema["properties"]>,
@@ -87,6 +169,36 @@ export class PostgresVectorStorage<
     return this.vectorDimensions;
   }
 
+  /**
+   * Creates the table and, when the schema has a metadata column, a GIN index
+   * over the full-text vector of its text
+   */
+  public override async setupDatabase(): Promise<void> {
+    await super.setupDatabase();
+    if (!this.metadataPropertyName) return;
+    const indexName = `${this.table}_${String(this.metadataPropertyName)}_fts_idx`;
+    try {
+      await this.db.query(
+        `CREATE INDEX IF NOT EXISTS "${indexName}" ON "${this.table}" USING GIN (${this.searchVectorSql()})`
+      );
+    } catch (error) {
+      console.warn(
+        `Failed to create full-text index on ${String(this.metadataPropertyName)}:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * The tsvector of a row's metadata text: the `text` field when it is a
+   * string, otherwise the top-level string values. Queries must use this exact
+   * expression for the planner to pick the GIN index.
+   */
+  private searchVectorSql(): string {
+    const col = `"${String(this.metadataPropertyName)}"`;
+    return `to_tsvector('english'::regconfig, CASE WHEN jsonb_typeof(${col}->'text') = 'string' THEN ${col}->>'text' ELSE jsonb_path_query_array(${col}, 'strict $.* ? (@.type() == "string")')::text END)`;
+  }
+
   public async similaritySearch(
     query: TypedArray,
     options: VectorSearchOptions<Metadata> = {}
@@ -97,7 +209,6 @@ export class PostgresVectorStorage<
       // Try native pgvector search first
       const queryVector = `[${Array.from(query).join(",")}]`;
       const vectorCol = String(this.vectorPropertyName);
-      const metadataCol = this.metadataPropertyName ? String(this.metadataPropertyName) : null;
 
       let sql = `
         SELECT 
@@ -107,32 +218,18 @@ export class PostgresVectorStorage<
       `;
 
       const params: any[] = [queryVector];
-      let paramIndex = 2;
-
-      if (filter && Object.keys(filter).length > 0 && metadataCol) {
-        const conditions: string[] = [];
-        for (const [key, value] of Object.entries(filter)) {
-          if (!SAFE_IDENTIFIER_RE.test(key)) {
-            throw new StorageValidationError(
-              `Invalid metadata filter key: "${key}". Keys must match /^[a-zA-Z_][a-zA-Z0-9_]*$/.`
-            );
-          }
-          conditions.push(`${metadataCol}->>'${key}' = $${paramIndex}`);
-          params.push(String(value));
-          paramIndex++;
-        }
-        sql += ` WHERE ${conditions.join(" AND ")}`;
-      }
+      const conditions = this.buildFilterConditions(filter, params);
 
       if (scoreThreshold > 0) {
-        sql += filter ? " AND" : " WHERE";
-        sql += ` (1 - (${vectorCol} <=> $1::vector)) >= $${paramIndex}`;
         params.push(scoreThreshold);
-        paramIndex++;
+        conditions.push(`(1 - (${vectorCol} <=> $1::vector)) >= $${params.length}`);
+      }
+      if (conditions.length > 0) {
+        sql += ` WHERE ${conditions.join(" AND ")}`;
       }
 
-      sql += ` ORDER BY ${vectorCol} <=> $1::vector LIMIT $${paramIndex}`;
       params.push(topK);
+      sql += ` ORDER BY ${vectorCol} <=> $1::vector LIMIT $${params.length}`;
 
       const result = await this.db.query(sql, params);
 
@@ -165,66 +262,55 @@ export class PostgresVectorStorage<
   }
 
   async hybridSearch(query: TypedArray, options: HybridSearchOptions<Metadata>) {
-    const { topK = 10, filter, scoreThreshold = 0, textQuery, vectorWeight = 0.7 } = options;
+    const { topK = 10, filter, scoreThreshold = 0, textQuery } = options;
 
     if (!textQuery || textQuery.trim().length === 0) {
       return this.similaritySearch(query, { topK, filter, scoreThreshold });
     }
 
     try {
-      // Try native hybrid search with pgvector + full-text
+      // Rank by pgvector distance and by full-text relevance, then fuse
       const queryVector = `[${Array.from(query).join(",")}]`;
-      // Use plainto_tsquery via parameterized query to avoid tsquery injection
-      const tsQueryText = textQuery;
       const vectorCol = String(this.vectorPropertyName);
-      const metadataCol = this.metadataPropertyName ? String(this.metadataPropertyName) : null;
-
-      let sql = `
-        SELECT 
-          *,
-          (
-            $2 * (1 - (${vectorCol} <=> $1::vector)) +
-            $3 * ts_rank(to_tsvector('english', ${metadataCol || "''"}::text), plainto_tsquery('english', $4))
-          ) as score
-        FROM "${this.table}"
-      `;
-
-      const params: any[] = [queryVector, vectorWeight, 1 - vectorWeight, tsQueryText];
-      let paramIndex = 5;
-
-      if (filter && Object.keys(filter).length > 0 && metadataCol) {
-        const conditions: string[] = [];
-        for (const [key, value] of Object.entries(filter)) {
-          if (!SAFE_IDENTIFIER_RE.test(key)) {
-            throw new StorageValidationError(
-              `Invalid metadata filter key: "${key}". Keys must match /^[a-zA-Z_][a-zA-Z0-9_]*$/.`
-            );
-          }
-          conditions.push(`${metadataCol}->>'${key}' = $${paramIndex}`);
-          params.push(String(value));
-          paramIndex++;
-        }
-        sql += ` WHERE ${conditions.join(" AND ")}`;
-      }
-
-      if (scoreThreshold > 0) {
-        sql += filter ? " AND" : " WHERE";
-        sql += ` (
-          $2 * (1 - (${vectorCol} <=> $1::vector)) +
-          $3 * ts_rank(to_tsvector('english', ${metadataCol || "''"}::text), plainto_tsquery('english', $4))
-        ) >= $${paramIndex}`;
-        params.push(scoreThreshold);
-        paramIndex++;
+      const candidates = topK * HYBRID_CANDIDATES_PER_RESULT;
+
+      const vectorParams: any[] = [queryVector];
+      const vectorConditions = this.buildFilterConditions(filter, vectorParams);
+      vectorParams.push(candidates);
+      const vectorResult = await this.db.query(
+        `SELECT *, 1 - (${vectorCol} <=> $1::vector) as vector_score
+         FROM "${this.table}"
+         ${vectorConditions.length > 0 ? `WHERE ${vectorConditions.join(" AND ")}` : ""}
+         ORDER BY ${vectorCol} <=> $1::vector LIMIT $${vectorParams.length}`,
+        vectorParams
+      );
+      const vectorHits = vectorResult.rows.map((row) => this.hybridHit(row));
+
+      const textHits: HybridSearchHit<Entity>[] = [];
+      // Words are letters and digits only, so they are safe as tsquery terms
+      const words = searchTextWords(textQuery);
+      if (this.metadataPropertyName && words.length > 0) {
+        const textParams: any[] = [queryVector, words.join(" | ")];
+        const textConditions = [
+          `${this.searchVectorSql()} @@ to_tsquery('english', $2)`,
+          ...this.buildFilterConditions(filter, textParams),
+        ];
+        textParams.push(candidates);
+        const textResult = await this.db.query(
+          `SELECT *,
+             1 - (${vectorCol} <=> $1::vector) as vector_score,
+             ts_rank_cd(${this.searchVectorSql()}, to_tsquery('english', $2), 1) as text_score
+           FROM "${this.table}"
+           WHERE ${textConditions.join(" AND ")}
+           ORDER BY text_score DESC LIMIT $${textParams.length}`,
+          textParams
+        );
+        textHits.push(...textResult.rows.map((row) => this.hybridHit(row)));
       }
 
-      sql += ` ORDER BY score DESC LIMIT $${paramIndex}`;
-      params.push(topK);
-
-      const result = await this.db.query(sql, params);
-
       // Fetch vectors separately for each result
       const results: Array<Entity & { score: number }> = [];
-      for (const row of result.rows) {
+      for (const row of fuseHybridSearchHits(vectorHits, textHits, options)) {
         const vectorResult = await this.db.query(
           `SELECT ${vectorCol}::text FROM "${this.table}" WHERE ${this.getPrimaryKeyWhereClause()}`,
           this.getPrimaryKeyValues(row)
@@ -235,7 +321,6 @@ export class PostgresVectorStorage<
         results.push({
           ...row,
           [this.vectorPropertyName]: new this.vectorCtor(vectorArray),
-          score: parseFloat(row.score),
         } as Entity & { score: number });
       }
 
@@ -250,6 +335,19 @@ export class PostgresVectorStorage<
     }
   }
 
+  /**
+   * Splits the scores off a row of a native hybrid search query
+   */
+  private hybridHit(row: any): HybridSearchHit<Entity> {
+    const { vector_score, text_score, ...entity } = row;
+    return {
+      key: hnswNodeId(this.getPrimaryKeyValues(entity)),
+      row: entity as Entity,
+      vectorScore: parseFloat(vector_score),
+      textScore: text_score === undefined ? undefined : parseFloat(text_score),
+    };
+  }
+
   /**
    * Fallback search using in-memory cosine similarity
    */
@@ -264,7 +362,7 @@ export class PostgresVectorStorage<
         ? (row[this.metadataPropertyName] as Metadata)
         : ({} as Metadata);
 
-      if (filter && !this.matchesFilter(metadata, filter)) {
+      if (!matchesVectorFilter(metadata, filter)) {
         continue;
       }
 
@@ -282,15 +380,14 @@ export class PostgresVectorStorage<
   }
 
   /**
-   * Fallback hybrid search
+   * Fallback hybrid search, ranking the metadata text with an in-memory BM25 index
    */
   private async hybridSearchFallback(query: TypedArray, options: HybridSearchOptions<Metadata>) {
-    const { topK = 10, filter, scoreThreshold = 0, textQuery, vectorWeight = 0.7 } = options;
+    const { filter, textQuery } = options;
 
     const allRows = (await this.getAll()) || [];
-    const results: Array<Entity & { score: number }> = [];
-    const queryLower = textQuery.toLowerCase();
-    const queryWords = queryLower.split(/\s+/).filter((w) => w.length > 0);
+    const vectorHits: HybridSearchHit<Entity>[] = [];
+    const textIndex = new Bm25Index();
 
     for (const row of allRows) {
       const vector = row[this.vectorPropertyName] as TypedArray;
@@ -298,36 +395,22 @@ export class PostgresVectorStorage<
         ? (row[this.metadataPropertyName] as Metadata)
         : ({} as Metadata);
 
-      if (filter && !this.matchesFilter(metadata, filter)) {
+      if (!matchesVectorFilter(metadata, filter)) {
         continue;
       }
 
-      const vectorScore = cosineSimilarity(query, vector);
-      const metadataText = Object.values(metadata ?? {})
-        .join(" ")
-        .toLowerCase();
-      let textScore = 0;
-      if (queryWords.length > 0) {
-        let matches = 0;
-        for (const word of queryWords) {
-          if (metadataText.includes(word)) {
-            matches++;
-          }
-        }
-        textScore = matches / queryWords.length;
-      }
-
-      const combinedScore = vectorWeight * vectorScore + (1 - vectorWeight) * textScore;
-
-      if (combinedScore >= scoreThreshold) {
-        results.push({ ...row, score: combinedScore } as Entity & { score: number });
-      }
+      const key = hnswNodeId(this.getPrimaryKeyValues(row));
+      vectorHits.push({ key, row, vectorScore: cosineSimilarity(query, vector) });
+      textIndex.add(key, getVectorSearchText(metadata));
     }
+    vectorHits.sort((a, b) => b.vectorScore! - a.vectorScore!);
 
-    results.sort((a, b) => b.score - a.score);
-    const topResults = results.slice(0, topK);
+    const candidates = new Map(vectorHits.map((hit) => [hit.key, hit]));
+    const textHits = textIndex
+      .search(textQuery)
+      .map(({ id, score }) => ({ ...candidates.get(id)!, textScore: score }));
 
-    return topResults;
+    return fuseHybridSearchHits(vectorHits, textHits, options);
   }
 
   private getPrimaryKeyWhereClause(): string {
@@ -339,12 +422,20 @@ export class PostgresVectorStorage<
     return this.primaryKeyNames.map((key) => row[key]);
   }
 
-  private matchesFilter(metadata: Metadata, filter: Partial<Metadata>): boolean {
-    for (const [key, value] of Object.entries(filter)) {
-      if (metadata[key as keyof Metadata] !== value) {
-        return false;
-      }
+  /**
+   * WHERE conditions for a metadata filter, appending bound values to `params`
+   * @throws {StorageValidationError} If the filter is invalid
+   */
+  private buildFilterConditions(
+    filter: VectorSearchOptions<Metadata>["filter"],
+    params: unknown[]
+  ): string[] {
+    const expression = normalizeVectorFilter(filter);
+    if (!expression) return [];
+    if (!this.metadataPropertyName) {
+      // Without a metadata column every row has empty metadata
+      return matchesVectorFilter({} as Metadata, expression) ? [] : ["FALSE"];
     }
-    return true;
+    return [buildPostgresVectorFilter(String(this.metadataPropertyName), expression, params)];
   }
 }
@@ -13,9 +13,22 @@ import type {
   TypedArraySchemaOptions,
 } from "@workglow/util/schema";
 import { cosineSimilarity } from "@workglow/util/schema";
+import type { ValueOptionType } from "../tabular/ITabularStorage";
 import { SqliteTabularStorage } from "../tabular/SqliteTabularStorage";
+import { runSqliteWrite } from "../util/SqliteTransaction";
+import { Bm25Index, getVectorSearchText } from "./Bm25Index";
+import { hnswNodeId } from "./HnswIndex";
+import type { HybridSearchHit } from "./HybridFusion";
+import { fuseHybridSearchHits } from "./HybridFusion";
 import type { HybridSearchOptions, IVectorStorage, VectorSearchOptions } from "./IVectorStorage";
-import { getMetadataProperty, getVectorProperty } from "./IVectorStorage";
+import {
+  getMetadataProperty,
+  getVectorProperty,
+  matchesVectorFilter,
+  normalizeVectorFilter,
+} from "./IVectorStorage";
+import { searchSqliteFullText, setupSqliteFullTextIndex } from "./SqliteFullTextIndex";
+import { buildSqliteVectorFilter } from "./SqliteVectorFilter";
 
 /**
  * Maps TypedArray constructor types to their sqlite-vector encoding function names
@@ -50,18 +63,6 @@ function getVectorTypeOption(vectorCtor: TypedArrayConstructor): string {
   return typeMap[vectorCtor.name] || "FLOAT32";
 }
 
-/**
- * Check if metadata matches filter
- */
-function matchesFilter<Metadata>(metadata: Metadata, filter: Partial<Metadata>): boolean {
-  for (const [key, value] of Object.entries(filter)) {
-    if (metadata[key as keyof Metadata] !== value) {
-      return false;
-    }
-  }
-  return true;
-}
-
 /**
  * Escape a SQL identifier (table/column name) by doubling any backtick characters,
  * then wrapping in backticks. This prevents SQL injection via identifier names.
@@ -80,7 +81,9 @@ function escapeIdentifier(name: string): string {
  * - Extension loaded via db.loadExtension(getExtensionPath())
  *
  * Vectors are stored as BLOBs using sqlite-vector encoding functions (vector_as_f32, etc.)
- * and searched using vector_full_scan for efficient KNN queries.
+ * and searched using vector_full_scan for efficient KNN queries. Hybrid search
+ * ranks the metadata text with an FTS5 table (`${table}_fts`, BM25 over
+ * Porter-stemmed terms) that triggers keep in sync with the table.
  *
  * @template Schema - The schema for the vector storage
  * @template PrimaryKeyNames - The primary key names
@@ -102,6 +105,7 @@ export class SqliteAiVectorStorage<
   private metadataPropertyName: keyof Entity | undefined;
   private vectorTypeSuffix: string;
   private extensionLoaded: boolean = false;
+  private fullTextIndexed: boolean = false;
 
   /**
    * Creates a new SQLite AI vector storage
@@ -183,6 +187,19 @@ export class SqliteAiVectorStorage<
         // vector_init may fail if already initialized, that's OK
       }
     }
+
+    if (this.metadataPropertyName) {
+      this.fullTextIndexed = setupSqliteFullTextIndex(
+        this.database,
+        this.table,
+        String(this.metadataPropertyName),
+        this.primaryKeyColumns() as string[]
+      );
+    }
+  }
+
+  private rowKey(row: Record<string, unknown>): string {
+    return hnswNodeId(this.primaryKeyColumns().map((k) => row[k as string]));
   }
 
   /**
@@ -277,105 +294,109 @@ export class SqliteAiVectorStorage<
       return super.put(entity);
     }
 
-    const db = this.database;
-    const vectorCol = String(this.vectorPropertyName);
-
-    // Handle auto-generated keys (UUID generation)
-    let entityToInsert = entity;
-    if (this.hasAutoGeneratedKey() && this.autoGeneratedKeyName) {
-      const keyName = String(this.autoGeneratedKeyName);
-      const clientProvidedValue = (entity as Record<string, unknown>)[keyName];
-      const hasClientValue = clientProvidedValue !== undefined && clientProvidedValue !== null;
-      const clientProvidedKeys = this.clientProvidedKeys;
-      const autoGeneratedKeyStrategy = this.autoGeneratedKeyStrategy;
-
-      if (
-        autoGeneratedKeyStrategy === "uuid" &&
-        !hasClientValue &&
-        clientProvidedKeys !== "always"
-      ) {
-        const generatedValue = this.generateKeyValue(keyName, "uuid");
-        entityToInsert = { ...entity, [keyName]: generatedValue };
-      }
-    }
+    return await runSqliteWrite(this.database, () => {
+      const db = this.database;
+      const vectorCol = String(this.vectorPropertyName);
 
-    // Build column lists and values
-    const allColumns: string[] = [];
-    const placeholders: string[] = [];
-    const params: any[] = [];
-
-    // Primary key columns
-    const pkColumns = this.primaryKeyColumns() as string[];
-    for (const col of pkColumns) {
-      const autoGeneratedKeyStrategy = this.autoGeneratedKeyStrategy;
-      const isAutoKey = this.isAutoGeneratedKey(col);
-      if (isAutoKey && autoGeneratedKeyStrategy === "autoincrement") {
+      // Handle auto-generated keys (UUID generation)
+      let entityToInsert = entity;
+      if (this.hasAutoGeneratedKey() && this.autoGeneratedKeyName) {
+        const keyName = String(this.autoGeneratedKeyName);
+        const clientProvidedValue = (entity as Record<string, unknown>)[keyName];
+        const hasClientValue = clientProvidedValue !== undefined && clientProvidedValue !== null;
         const clientProvidedKeys = this.clientProvidedKeys;
-        const clientValue = (entityToInsert as Record<string, unknown>)[col];
-        if (clientProvidedKeys === "if-missing" && clientValue != null) {
-          allColumns.push(col);
-          placeholders.push("?");
-          params.push((this as any).jsToSqlValue(col, clientValue));
+        const autoGeneratedKeyStrategy = this.autoGeneratedKeyStrategy;
+
+        if (
+          autoGeneratedKeyStrategy === "uuid" &&
+          !hasClientValue &&
+          clientProvidedKeys !== "always"
+        ) {
+          const generatedValue = this.generateKeyValue(keyName, "uuid");
+          entityToInsert = { ...entity, [keyName]: generatedValue };
         }
-        continue;
       }
-      allColumns.push(col);
-      placeholders.push("?");
-      params.push(this.jsToSqlValue(col, (entityToInsert as Record<string, unknown>)[col] as any));
-    }
 
-    // Value columns
-    const valueColumns = this.valueColumns() as string[];
-    for (const col of valueColumns) {
-      allColumns.push(col);
-      const value = (entityToInsert as Record<string, unknown>)[col];
-
-      if (col === vectorCol && value != null) {
-        // Use vector_as_fXX() for the vector column
-        placeholders.push(`vector_as_${this.vectorTypeSuffix}(?)`);
-        params.push(this.encodeVectorJson(value as TypedArray));
-      } else {
+      // Build column lists and values
+      const allColumns: string[] = [];
+      const placeholders: string[] = [];
+      const params: any[] = [];
+
+      // Primary key columns
+      const pkColumns = this.primaryKeyColumns() as string[];
+      for (const col of pkColumns) {
+        const autoGeneratedKeyStrategy = this.autoGeneratedKeyStrategy;
+        const isAutoKey = this.isAutoGeneratedKey(col);
+        if (isAutoKey && autoGeneratedKeyStrategy === "autoincrement") {
+          const clientProvidedKeys = this.clientProvidedKeys;
+          const clientValue = (entityToInsert as Record<string, unknown>)[col];
+          if (clientProvidedKeys === "if-missing" && clientValue != null) {
+            allColumns.push(col);
+            placeholders.push("?");
+            params.push((this as any).jsToSqlValue(col, clientValue));
+          }
+          continue;
+        }
+        allColumns.push(col);
         placeholders.push("?");
-        params.push(this.jsToSqlValue(col, value as any));
+        params.push(
+          this.jsToSqlValue(col, (entityToInsert as Record<string, unknown>)[col] as any)
+        );
       }
-    }
 
-    const columnList = allColumns.map((c) => `\`${c}\``).join(", ");
-    const placeholderList = placeholders.join(", ");
-
-    const sql = `
-      INSERT OR REPLACE INTO ${escapeIdentifier(this.table)} (${columnList})
-      VALUES (${placeholderList})
-      RETURNING *
-    `;
-
-    // Ensure all params are SQLite-compatible
-    for (let i = 0; i < params.length; i++) {
-      if (params[i] === undefined) {
-        params[i] = null;
-      } else if (params[i] !== null && typeof params[i] === "object") {
-        const p = params[i];
-        if (
-          !(p instanceof Uint8Array) &&
-          (typeof Buffer === "undefined" || !(p instanceof Buffer))
-        ) {
-          params[i] = JSON.stringify(p);
+      // Value columns
+      const valueColumns = this.valueColumns() as string[];
+      for (const col of valueColumns) {
+        allColumns.push(col);
+        const value = (entityToInsert as Record<string, unknown>)[col];
+
+        if (col === vectorCol && value != null) {
+          // Use vector_as_fXX() for the vector column
+          placeholders.push(`vector_as_${this.vectorTypeSuffix}(?)`);
+          params.push(this.encodeVectorJson(value as TypedArray));
+        } else {
+          placeholders.push("?");
+          params.push(this.jsToSqlValue(col, value as any));
         }
       }
-    }
 
-    const stmt = db.prepare(sql);
-    // @ts-ignore - SQLite typing for variadic bindings
-    const updatedEntity = stmt.get(...params) as Entity;
+      const columnList = allColumns.map((c) => `\`${c}\``).join(", ");
+      const placeholderList = placeholders.join(", ");
 
-    // Convert all columns according to schema
-    const updatedRecord = updatedEntity as Record<string, unknown>;
-    for (const k in this.schema.properties) {
-      updatedRecord[k] = this.sqlToJsValue(k, updatedRecord[k] as any);
-    }
+      const sql = `
+        INSERT OR REPLACE INTO ${escapeIdentifier(this.table)} (${columnList})
+        VALUES (${placeholderList})
+        RETURNING *
+      `;
+
+      // Ensure all params are SQLite-compatible
+      for (let i = 0; i < params.length; i++) {
+        if (params[i] === undefined) {
+          params[i] = null;
+        } else if (params[i] !== null && typeof params[i] === "object") {
+          const p = params[i];
+          if (
+            !(p instanceof Uint8Array) &&
+            (typeof Buffer === "undefined" || !(p instanceof Buffer))
+          ) {
+            params[i] = JSON.stringify(p);
+          }
+        }
+      }
+
+      const stmt = db.prepare(sql);
+      // @ts-ignore - SQLite typing for variadic bindings
+      const updatedEntity = stmt.get(...params) as Entity;
+
+      // Convert all columns according to schema
+      const updatedRecord = updatedEntity as Record<string, unknown>;
+      for (const k in this.schema.properties) {
+        updatedRecord[k] = this.sqlToJsValue(k, updatedRecord[k] as any);
+      }
 
-    this.events.emit("put", updatedEntity);
-    return updatedEntity;
+      this.events.emit("put", updatedEntity);
+      return updatedEntity;
+    });
   }
 
   /**
@@ -400,17 +421,26 @@ export class SqliteAiVectorStorage<
         .prepare(`SELECT vector_as_${this.vectorTypeSuffix}(?) as v`)
         .get(queryJson) as { v: Buffer };
 
-      if (filter && Object.keys(filter).length > 0) {
+      const expression = normalizeVectorFilter(filter);
+      if (expression) {
+        if (!metadataCol && !matchesVectorFilter({} as Metadata, expression)) {
+          return [];
+        }
         // When filtering, use streaming mode (no k parameter) so we can filter rows
+        const params: ValueOptionType[] = [];
+        const where = metadataCol
+          ? `WHERE ${buildSqliteVectorFilter(`t.${escapeIdentifier(metadataCol)}`, expression, params)}`
+          : "";
         const sql = `
           SELECT t.*, v.distance
           FROM ${escapeIdentifier(tableName)} AS t
           JOIN vector_full_scan(?, ?, ?) AS v
           ON t.rowid = v.rowid
+          ${where}
           ORDER BY v.distance ASC
         `;
         const stmt = db.prepare(sql);
-        const rows = stmt.all(tableName, vectorCol, queryBlob.v) as Array<
+        const rows = stmt.all(tableName, vectorCol, queryBlob.v, ...params) as Array<
           Record<string, unknown> & { distance: number }
         >;
 
@@ -430,12 +460,6 @@ export class SqliteAiVectorStorage<
             entity[k] = this.sqlToJsValue(k, entity[k] as any);
           }
 
-          // Apply metadata filter (use empty object if no metadata column)
-          const metadata = metadataCol ? (entity[metadataCol] as Metadata) : ({} as Metadata);
-          if (filter && !matchesFilter(metadata, filter)) {
-            continue;
-          }
-
           results.push({ ...entity, score } as Entity & { score: number });
 
           if (results.length >= topK) {
@@ -486,12 +510,12 @@ export class SqliteAiVectorStorage<
   }
 
   /**
-   * Hybrid search combining vector similarity with text relevance.
-   * Uses sqlite-vector for the vector component and keyword matching for text.
-   * Falls back to in-memory search if the extension is unavailable.
+   * Hybrid search combining vector similarity with BM25 text relevance.
+   * Uses sqlite-vector for the vector ranking and the FTS5 index for the text ranking.
+   * Falls back to in-memory vector scoring if the extension is unavailable.
    */
   async hybridSearch(query: TypedArray, options: HybridSearchOptions<Metadata>) {
-    const { topK = 10, filter, scoreThreshold = 0, textQuery, vectorWeight = 0.7 } = options;
+    const { topK = 10, filter, scoreThreshold = 0, textQuery } = options;
 
     if (!textQuery || textQuery.trim().length === 0) {
       return this.similaritySearch(query, { topK, filter, scoreThreshold });
@@ -512,71 +536,91 @@ export class SqliteAiVectorStorage<
         .prepare(`SELECT vector_as_${this.vectorTypeSuffix}(?) as v`)
         .get(queryJson) as { v: Buffer };
 
-      // Use streaming mode for hybrid search to allow text scoring on all results
+      const expression = normalizeVectorFilter(filter);
+      if (expression && !metadataCol && !matchesVectorFilter({} as Metadata, expression)) {
+        return [];
+      }
+      const params: ValueOptionType[] = [];
+      const where =
+        expression && metadataCol
+          ? `WHERE ${buildSqliteVectorFilter(`t.${escapeIdentifier(metadataCol)}`, expression, params)}`
+          : "";
+
+      // Use streaming mode for hybrid search so every filtered row is ranked
       const sql = `
         SELECT t.*, v.distance
         FROM ${escapeIdentifier(tableName)} AS t
         JOIN vector_full_scan(?, ?, ?) AS v
         ON t.rowid = v.rowid
+        ${where}
         ORDER BY v.distance ASC
       `;
       const stmt = db.prepare(sql);
-      const rows = stmt.all(tableName, vectorCol, queryBlob.v) as Array<
+      const rows = stmt.all(tableName, vectorCol, queryBlob.v, ...params) as Array<
         Record<string, unknown> & { distance: number }
       >;
 
-      const queryLower = textQuery.toLowerCase();
-      const queryWords = queryLower.split(/\s+/).filter((w) => w.length > 0);
-      const results: Array<Entity & { score: number }> = [];
-
+      const vectorHits: HybridSearchHit<Entity>[] = [];
       for (const row of rows) {
-        const vectorScore = 1 - row.distance;
-
         const entity = { ...row } as Record<string, unknown>;
         delete entity.distance;
         for (const k in this.schema.properties) {
           entity[k] = this.sqlToJsValue(k, entity[k] as any);
         }
-
-        const metadata = metadataCol ? (entity[metadataCol] as Metadata) : ({} as Metadata);
-
-        // Apply metadata filter
-        if (filter && !matchesFilter(metadata, filter)) {
-          continue;
-        }
-
-        // Calculate text relevance
-        const metadataText = Object.values(metadata ?? {})
-          .join(" ")
-          .toLowerCase();
-        let textScore = 0;
-        if (queryWords.length > 0) {
-          let matches = 0;
-          for (const word of queryWords) {
-            if (metadataText.includes(word)) {
-              matches++;
-            }
-          }
-          textScore = matches / queryWords.length;
-        }
-
-        const combinedScore = vectorWeight * vectorScore + (1 - vectorWeight) * textScore;
-
-        if (combinedScore < scoreThreshold) {
-          continue;
-        }
-
-        results.push({ ...entity, score: combinedScore } as Entity & { score: number });
+        vectorHits.push({
+          key: this.rowKey(entity),
+          row: entity as Entity,
+          vectorScore: 1 - row.distance,
+        });
       }
 
-      results.sort((a, b) => b.score - a.score);
-      return results.slice(0, topK);
+      return this.fuseWithTextRanking(vectorHits, options);
     } catch (error) {
       console.warn("sqlite-vector hybrid query failed, falling back to in-memory search:", error);
       return this.hybridSearchFallback(query, options);
     }
   }
 
+  /**
+   * Ranks the vector candidates by BM25 over their metadata text and fuses
+   * both rankings
+   * @param vectorHits - Every row matching the filter, best vector score first
+   */
+  private fuseWithTextRanking(
+    vectorHits: HybridSearchHit<Entity>[],
+    options: HybridSearchOptions<Metadata>
+  ): Array<Entity & { score: number }> {
+    const candidates = new Map(vectorHits.map((hit) => [hit.key, hit]));
+    const textHits: HybridSearchHit<Entity>[] = [];
+    if (this.fullTextIndexed) {
+      for (const match of searchSqliteFullText(
+        this.database,
+        this.table,
+        this.primaryKeyColumns() as string[],
+        options.textQuery
+      )) {
+        for (const k of this.primaryKeyColumns()) {
+          match[k as string] = this.sqlToJsValue(k as string, match[k as string] as any);
+        }
+        const hit = candidates.get(this.rowKey(match));
+        if (hit) textHits.push({ ...hit, textScore: match.score });
+      }
+    } else {
+      // No FTS5 in this SQLite build: index the candidates for this query
+      const index = new Bm25Index();
+      for (const hit of vectorHits) {
+        const metadata = this.metadataPropertyName
+          ? (hit.row[this.metadataPropertyName] as Record<string, unknown>)
+          : undefined;
+        index.add(hit.key, getVectorSearchText(metadata));
+      }
+      for (const { id, score } of index.search(options.textQuery)) {
+        textHits.push({ ...candidates.get(id)!, textScore: score });
+      }
+    }
+    return fuseHybridSearchHits(vectorHits, textHits, options);
+  }
+
   /**
    * Fallback search using in-memory cosine similarity
    */
@@ -591,7 +635,7 @@ export class SqliteAiVectorStorage<
         ? (row[this.metadataPropertyName] as Metadata)
         : ({} as Metadata);
 
-      if (filter && !matchesFilter(metadata, filter)) {
+      if (!matchesVectorFilter(metadata, filter)) {
         continue;
       }
 
@@ -607,15 +651,13 @@ export class SqliteAiVectorStorage<
   }
 
   /**
-   * Fallback hybrid search using in-memory computation
+   * Fallback hybrid search using in-memory vector scoring
    */
   private async hybridSearchFallback(query: TypedArray, options: HybridSearchOptions<Metadata>) {
-    const { topK = 10, filter, scoreThreshold = 0, textQuery, vectorWeight = 0.7 } = options;
+    const { filter } = options;
 
     const allRows = (await this.getAll()) || [];
-    const results: Array<Entity & { score: number }> = [];
-    const queryLower = textQuery.toLowerCase();
-    const queryWords = queryLower.split(/\s+/).filter((w) => w.length > 0);
+    const vectorHits: HybridSearchHit<Entity>[] = [];
 
     for (const row of allRows) {
       const vector = row[this.vectorPropertyName] as TypedArray;
@@ -623,33 +665,18 @@ export class SqliteAiVectorStorage<
         ? (row[this.metadataPropertyName] as Metadata)
         : ({} as Metadata);
 
-      if (filter && !matchesFilter(metadata, filter)) {
+      if (!matchesVectorFilter(metadata, filter)) {
         continue;
       }
 
-      const vectorScore = cosineSimilarity(query, vector);
-      const metadataText = Object.values(metadata ?? {})
-        .join(" ")
-        .toLowerCase();
-      let textScore = 0;
-      if (queryWords.length > 0) {
-        let matches = 0;
-        for (const word of queryWords) {
-          if (metadataText.includes(word)) {
-            matches++;
-          }
-        }
-        textScore = matches / queryWords.length;
-      }
-
-      const combinedScore = vectorWeight * vectorScore + (1 - vectorWeight) * textScore;
-
-      if (combinedScore >= scoreThreshold) {
-        results.push({ ...row, score: combinedScore } as Entity & { score: number });
-      }
+      vectorHits.push({
+        key: this.rowKey(row as Record<string, unknown>),
+        row,
+        vectorScore: cosineSimilarity(query, vector),
+      });
     }
+    vectorHits.sort((a, b) => b.vectorScore! - a.vectorScore!);
 
-    results.sort((a, b) => b.score - a.score);
-    return results.slice(0, topK);
+    return this.fuseWithTextRanking(vectorHits, options);
   }
 }
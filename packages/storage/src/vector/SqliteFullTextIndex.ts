@@ -0,0 +1,108 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Sqlite } from "@workglow/storage/sqlite";
+import { searchTextWords } from "./Bm25Index";
+
+/**
+ * SQL for the text a row's metadata contributes to lexical search, matching
+ * `getVectorSearchText`: the `text` field when it is a string, otherwise the
+ * top-level string values joined by spaces
+ */
+function searchTextSql(metadata: string): string {
+  return `CASE WHEN json_type(${metadata}, '$.text') = 'text'
+    THEN json_extract(${metadata}, '$.text')
+    ELSE (SELECT group_concat(value, ' ') FROM json_each(${metadata}) WHERE type = 'text')
+  END`;
+}
+
+/**
+ * Creates an FTS5 table `${table}_fts` over the metadata text of each row,
+ * keyed by rowid and kept in sync by triggers, so every write path (put,
+ * putBulk, deletes, other connections) maintains it. Existing rows are
+ * indexed when the FTS table is missing or out of step with the table.
+ *
+ * Terms are lowercased, stripped of diacritics and Porter-stemmed; ranking uses
+ * FTS5's built-in BM25.
+ *
+ * @returns false when the SQLite build has no FTS5 module
+ */
+export function setupSqliteFullTextIndex(
+  db: Sqlite.Database,
+  table: string,
+  metadataColumn: string,
+  primaryKeyColumns: readonly string[]
+): boolean {
+  const fts = `\`${table}_fts\``;
+  const source = `\`${table}\``;
+  const metadata = (row: string) => `${row}.\`${metadataColumn}\``;
+  const samePrimaryKey = primaryKeyColumns.map((k) => `\`${k}\` = new.\`${k}\``).join(" AND ");
+
+  try {
+    db.exec(
+      `CREATE VIRTUAL TABLE IF NOT EXISTS ${fts} USING fts5(text, tokenize = 'porter unicode61 remove_diacritics 2')`
+    );
+  } catch {
+    return false;
+  }
+
+  // INSERT OR REPLACE deletes the replaced row without firing delete
+  // triggers, so drop its entry before the insert
+  db.exec(`
+    CREATE TRIGGER IF NOT EXISTS \`${table}_fts_before_insert\` BEFORE INSERT ON ${source} BEGIN
+      DELETE FROM ${fts} WHERE rowid IN (SELECT rowid FROM ${source} WHERE ${samePrimaryKey});
+    END;
+    CREATE TRIGGER IF NOT EXISTS \`${table}_fts_insert\` AFTER INSERT ON ${source} BEGIN
+      INSERT INTO ${fts} (rowid, text) VALUES (new.rowid, ${searchTextSql(metadata("new"))});
+    END;
+    CREATE TRIGGER IF NOT EXISTS \`${table}_fts_update\` AFTER UPDATE ON ${source} BEGIN
+      DELETE FROM ${fts} WHERE rowid = old.rowid;
+      INSERT INTO ${fts} (rowid, text) VALUES (new.rowid, ${searchTextSql(metadata("new"))});
+    END;
+    CREATE TRIGGER IF NOT EXISTS \`${table}_fts_delete\` AFTER DELETE ON ${source} BEGIN
+      DELETE FROM ${fts} WHERE rowid = old.rowid;
+    END;
+  `);
+
+  const count = (name: string) =>
+    (db.prepare(`SELECT count(*) AS n FROM ${name}`).get() as { n: number }).n;
+  if (count(fts) !== count(source)) {
+    db.exec(`DELETE FROM ${fts}`);
+    db.exec(
+      `INSERT INTO ${fts} (rowid, text) SELECT rowid, ${searchTextSql(metadata("t"))} FROM ${source} AS t`
+    );
+  }
+  return true;
+}
+
+/**
+ * Ranks the rows of `table` whose metadata text matches any word of the query,
+ * using the FTS5 table created by {@link setupSqliteFullTextIndex}
+ *
+ * @returns The primary key columns of each matching row (as stored) and its
+ *   BM25 score, highest first
+ */
+export function searchSqliteFullText(
+  db: Sqlite.Database,
+  table: string,
+  primaryKeyColumns: readonly string[],
+  textQuery: string
+): Array<Record<string, unknown> & { score: number }> {
+  const words = searchTextWords(textQuery);
+  if (words.length === 0) return [];
+  const fts = `\`${table}_fts\``;
+  const columns = primaryKeyColumns.map((k) => `t.\`${k}\``).join(", ");
+  // Words are letters and digits only; quoting makes each a plain term
+  const match = words.map((word) => `"${word}"`).join(" OR ");
+  return db
+    .prepare(
+      `SELECT ${columns}, -bm25(${fts}) AS score
+       FROM ${fts} JOIN \`${table}\` AS t ON t.rowid = ${fts}.rowid
+       WHERE ${fts} MATCH ?
+       ORDER BY score DESC`
+    )
+    .all(match) as Array<Record<string, unknown> & { score: number }>;
+}
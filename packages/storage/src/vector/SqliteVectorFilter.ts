@@ -0,0 +1,109 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ValueOptionType } from "../tabular/ITabularStorage";
+import type { VectorFilterExpression, VectorFilterValue } from "./IVectorStorage";
+
+/**
+ * Translates a (normalized) filter expression into a SQLite boolean expression
+ * over a JSON metadata column, using the JSON1 functions. Bound values are
+ * appended to `params`.
+ *
+ * Values are compared together with their JSON type, so e.g. `"1"` never
+ * equals `1` and `true` never equals `1`, matching the in-memory semantics.
+ *
+ * @param column - The metadata column expression, already escaped
+ * @param expression - A filter expression validated by `normalizeVectorFilter`
+ * @param params - Positional parameter list the bound values are appended to
+ */
+export function buildSqliteVectorFilter(
+  column: string,
+  expression: VectorFilterExpression<any>,
+  params: ValueOptionType[]
+): string {
+  switch (expression.op) {
+    case "and":
+    case "or": {
+      if (expression.filters.length === 0) return expression.op === "and" ? "1" : "0";
+      const joiner = expression.op === "and" ? " AND " : " OR ";
+      return `(${expression.filters
+        .map((child) => buildSqliteVectorFilter(column, child, params))
+        .join(joiner)})`;
+    }
+    case "not":
+      return `(NOT ${buildSqliteVectorFilter(column, expression.filter, params)})`;
+    case "eq":
+    case "ne": {
+      const equals = jsonEquals(
+        jsonType(column, expression.field),
+        jsonValue(column, expression.field),
+        expression.value,
+        params
+      );
+      return expression.op === "eq" ? equals : `(NOT ${equals})`;
+    }
+    case "in": {
+      if (expression.values.length === 0) return "0";
+      const type = jsonType(column, expression.field);
+      const value = jsonValue(column, expression.field);
+      return `(${expression.values.map((candidate) => jsonEquals(type, value, candidate, params)).join(" OR ")})`;
+    }
+    case "exists":
+      return `(COALESCE(${jsonType(column, expression.field)}, 'null') <> 'null')`;
+    case "contains": {
+      const equals = jsonEquals("e.type", "e.value", expression.value, params);
+      return `(${jsonType(column, expression.field)} = 'array' AND EXISTS (SELECT 1 FROM json_each(${column}, '$.${expression.field}') AS e WHERE ${equals}))`;
+    }
+    case "range": {
+      const type = jsonType(column, expression.field);
+      const value = jsonValue(column, expression.field);
+      const conditions: string[] = [];
+      const bounds = [
+        [">", expression.gt],
+        [">=", expression.gte],
+        ["<", expression.lt],
+        ["<=", expression.lte],
+      ] as const;
+      for (const [operator, bound] of bounds) {
+        if (bound === undefined) continue;
+        const types = typeof bound === "number" ? "('integer', 'real')" : "('text')";
+        conditions.push(`COALESCE(${type} IN ${types} AND ${value} ${operator} ?, 0)`);
+        params.push(bound);
+      }
+      return conditions.length > 0 ? `(${conditions.join(" AND ")})` : "1";
+    }
+  }
+}
+
+function jsonType(column: string, field: string): string {
+  return `json_type(${column}, '$.${field}')`;
+}
+
+function jsonValue(column: string, field: string): string {
+  return `json_extract(${column}, '$.${field}')`;
+}
+
+/**
+ * Type-exact equality of a JSON value (given as its `json_type` and SQL value)
+ * and a scalar. Never NULL, so it can be negated safely.
+ */
+function jsonEquals(
+  type: string,
+  value: string,
+  expected: VectorFilterValue,
+  params: ValueOptionType[]
+): string {
+  if (expected === null) return `COALESCE(${type} = 'null', 0)`;
+  if (typeof expected === "boolean") return `COALESCE(${type} = '${expected}', 0)`;
+  if (typeof expected === "object") {
+    // Equality objects may hold arrays or objects: compare the minified JSON
+    params.push(JSON.stringify(expected));
+    return `COALESCE(${type} IN ('object', 'array') AND ${value} = json(?), 0)`;
+  }
+  params.push(expected);
+  const types = typeof expected === "number" ? "('integer', 'real')" : "('text')";
+  return `COALESCE(${type} IN ${types} AND ${value} = ?, 0)`;
+}
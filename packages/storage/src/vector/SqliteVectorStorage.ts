@@ -13,26 +13,34 @@ import type {
   TypedArraySchemaOptions,
 } from "@workglow/util/schema";
 import { cosineSimilarity } from "@workglow/util/schema";
+import type { ValueOptionType } from "../tabular/ITabularStorage";
 import { SqliteTabularStorage } from "../tabular/SqliteTabularStorage";
-import type { HybridSearchOptions, IVectorStorage, VectorSearchOptions } from "./IVectorStorage";
-import { getMetadataProperty, getVectorProperty } from "./IVectorStorage";
-
-/**
- * Check if metadata matches filter
- */
-function matchesFilter<Metadata>(metadata: Metadata, filter: Partial<Metadata>): boolean {
-  for (const [key, value] of Object.entries(filter)) {
-    if (metadata[key as keyof Metadata] !== value) {
-      return false;
-    }
-  }
-  return true;
-}
+import type {
+  HybridSearchOptions,
+  IVectorStorage,
+  VectorFilter,
+  VectorSearchOptions,
+} from "./IVectorStorage";
+import { Bm25Index, getVectorSearchText } from "./Bm25Index";
+import { hnswNodeId } from "./HnswIndex";
+import type { HybridSearchHit } from "./HybridFusion";
+import { fuseHybridSearchHits } from "./HybridFusion";
+import {
+  getMetadataProperty,
+  getVectorProperty,
+  matchesVectorFilter,
+  normalizeVectorFilter,
+} from "./IVectorStorage";
+import { searchSqliteFullText, setupSqliteFullTextIndex } from "./SqliteFullTextIndex";
+import { buildSqliteVectorFilter } from "./SqliteVectorFilter";
 
 /**
  * SQLite vector repository implementation using tabular storage underneath.
  * Stores vectors as JSON-encoded arrays with metadata.
  *
+ * Hybrid search ranks the metadata text with an FTS5 table (`${table}_fts`,
+ * BM25 over Porter-stemmed terms) that triggers keep in sync with the table.
+ *
  * @template Schema - The schema for the vector
  * @template PrimaryKeyNames - The primary key names for the vector
  * @template VectorCtor - Constructor for stored vectors (default {@link typeof Float32Array})
@@ -52,6 +60,7 @@ export class SqliteVectorStorage<
   private readonly vectorCtor: TypedArrayConstructor;
   private vectorPropertyName: keyof Entity;
   private metadataPropertyName: keyof Entity | undefined;
+  private fullTextIndexed = false;
 
   /**
    * Creates a new SQLite vector repository
@@ -91,33 +100,80 @@ export class SqliteVectorStorage<
   }
 
   /**
-   * Deserialize vector from JSON string
+   * Creates the table and, when the schema has a metadata column, its FTS5
+   * full-text index
+   */
+  public override async setupDatabase(): Promise<void> {
+    await super.setupDatabase();
+    if (this.metadataPropertyName) {
+      this.fullTextIndexed = setupSqliteFullTextIndex(
+        this.database,
+        this.table,
+        String(this.metadataPropertyName),
+        this.primaryKeyColumns() as string[]
+      );
+    }
+  }
+
+  private rowKey(row: Record<string, unknown>): string {
+    return hnswNodeId(this.primaryKeyColumns().map((k) => row[k as string]));
+  }
+
+  /**
+   * Deserialize vector from JSON
    * Defaults to Float32Array for compatibility with typical embedding vectors
    */
-  private deserializeVector(vectorJson: string): TypedArray {
-    const array = JSON.parse(vectorJson);
+  private deserializeVector(vectorJson: unknown): TypedArray {
+    // Rows read through the tabular storage have their JSON columns parsed
+    // already; a TypedArray serializes to an object keyed by index
+    const parsed = typeof vectorJson === "string" ? JSON.parse(vectorJson) : vectorJson;
+    const array = Array.isArray(parsed) ? parsed : Object.values(parsed as object);
     // Default to Float32Array for typical use case (embeddings)
     return new this.vectorCtor(array);
   }
 
+  /**
+   * Fetch the rows matching a metadata filter, translating the filter into a
+   * SQL WHERE clause on the JSON metadata column
+   */
+  private async getFiltered(filter: VectorFilter<Metadata> | undefined): Promise<Entity[]> {
+    const expression = normalizeVectorFilter(filter);
+    if (!expression) {
+      return (await this.getAll()) || [];
+    }
+    if (!this.metadataPropertyName) {
+      // Without a metadata column every row has empty metadata
+      return matchesVectorFilter({} as Metadata, expression) ? (await this.getAll()) || [] : [];
+    }
+
+    const params: ValueOptionType[] = [];
+    const where = buildSqliteVectorFilter(
+      `\`${String(this.metadataPropertyName)}\``,
+      expression,
+      params
+    );
+    const stmt = this.database.prepare(`SELECT * FROM \`${this.table}\` WHERE ${where}`);
+    // @ts-ignore
+    const rows = params.length > 0 ? stmt.all(...params) : stmt.all();
+    for (const row of rows) {
+      const record = row as Record<string, unknown>;
+      for (const k in this.schema.properties) {
+        record[k] = this.sqlToJsValue(k, record[k] as ValueOptionType);
+      }
+    }
+    return rows as Entity[];
+  }
+
   async similaritySearch(query: TypedArray, options: VectorSearchOptions<Metadata> = {}) {
     const { topK = 10, filter, scoreThreshold = 0 } = options;
     const results: Array<Entity & { score: number }> = [];
 
-    const allEntities = (await this.getAll()) || [];
+    const allEntities = await this.getFiltered(filter);
 
     for (const entity of allEntities) {
       // SQLite stores vectors as JSON strings, need to deserialize
-      const vectorRaw = entity[this.vectorPropertyName] as unknown as string;
+      const vectorRaw = entity[this.vectorPropertyName];
       const vector = this.deserializeVector(vectorRaw);
-      const metadata = this.metadataPropertyName
-        ? (entity[this.metadataPropertyName] as Metadata)
-        : ({} as Metadata);
-
-      // Apply filter if provided
-      if (filter && !matchesFilter(metadata, filter)) {
-        continue;
-      }
 
       // Calculate similarity
       const score = cosineSimilarity(query, vector);
@@ -141,67 +197,60 @@ export class SqliteVectorStorage<
   }
 
   async hybridSearch(query: TypedArray, options: HybridSearchOptions<Metadata>) {
-    const { topK = 10, filter, scoreThreshold = 0, textQuery, vectorWeight = 0.7 } = options;
+    const { topK = 10, filter, scoreThreshold = 0, textQuery } = options;
 
     if (!textQuery || textQuery.trim().length === 0) {
       // Fall back to regular vector search if no text query
       return this.similaritySearch(query, { topK, filter, scoreThreshold });
     }
 
-    const results: Array<Entity & { score: number }> = [];
-    const allEntities = (await this.getAll()) || [];
-    const queryLower = textQuery.toLowerCase();
-    const queryWords = queryLower.split(/\s+/).filter((w) => w.length > 0);
+    const vectorHits: HybridSearchHit<Entity>[] = [];
+    const allEntities = await this.getFiltered(filter);
 
     for (const entity of allEntities) {
       // SQLite stores vectors as JSON strings, need to deserialize
-      const vectorRaw = entity[this.vectorPropertyName] as unknown as string;
-      const vector = this.deserializeVector(vectorRaw);
-      const metadata = this.metadataPropertyName
-        ? (entity[this.metadataPropertyName] as Metadata)
-        : ({} as Metadata);
-
-      // Apply filter if provided
-      if (filter && !matchesFilter(metadata, filter)) {
-        continue;
-      }
+      const vector = this.deserializeVector(entity[this.vectorPropertyName]);
+      vectorHits.push({
+        key: this.rowKey(entity as Record<string, unknown>),
+        row: entity,
+        vectorScore: cosineSimilarity(query, vector),
+      });
+    }
+    vectorHits.sort((a, b) => b.vectorScore! - a.vectorScore!);
 
-      // Calculate vector similarity
-      const vectorScore = cosineSimilarity(query, vector);
-
-      // Calculate text relevance (simple keyword matching)
-      const metadataText = Object.values(metadata ?? {})
-        .join(" ")
-        .toLowerCase();
-      let textScore = 0;
-      if (queryWords.length > 0) {
-        let matches = 0;
-        for (const word of queryWords) {
-          if (metadataText.includes(word)) {
-            matches++;
-          }
+    // Rank the filtered rows by BM25 over their metadata text
+    const candidates = new Map(vectorHits.map((hit) => [hit.key, hit]));
+    const textHits: HybridSearchHit<Entity>[] = [];
+    if (this.fullTextIndexed) {
+      for (const match of searchSqliteFullText(
+        this.database,
+        this.table,
+        this.primaryKeyColumns() as string[],
+        textQuery
+      )) {
+        for (const k of this.primaryKeyColumns()) {
+          match[k as string] = this.sqlToJsValue(
+            k as string,
+            match[k as string] as ValueOptionType
+          );
         }
-        textScore = matches / queryWords.length;
+        const hit = candidates.get(this.rowKey(match));
+        if (hit) textHits.push({ ...hit, textScore: match.score });
       }
-
-      // Combine scores
-      const combinedScore = vectorWeight * vectorScore + (1 - vectorWeight) * textScore;
-
-      // Apply threshold
-      if (combinedScore < scoreThreshold) {
-        continue;
+    } else {
+      // No FTS5 in this SQLite build: index the candidates for this query
+      const index = new Bm25Index();
+      for (const hit of vectorHits) {
+        const metadata = this.metadataPropertyName
+          ? (hit.row[this.metadataPropertyName] as Record<string, unknown>)
+          : undefined;
+        index.add(hit.key, getVectorSearchText(metadata));
+      }
+      for (const { id, score } of index.search(textQuery)) {
+        textHits.push({ ...candidates.get(id)!, textScore: score });
       }
-
-      results.push({
-        ...entity,
-        score: combinedScore,
-      } as Entity & { score: number });
     }
 
-    // Sort by combined score descending and take top K
-    results.sort((a, b) => b.score - a.score);
-    const topResults = results.slice(0, topK);
-
-    return topResults;
+    return fuseHybridSearchHits(vectorHits, textHits, options);
   }
 }
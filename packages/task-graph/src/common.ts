@@ -12,6 +12,7 @@ export * from "./task-graph/GraphFormatScanner";
 export * from "./task-graph/GraphSchemaUtils";
 export * from "./task-graph/ITaskGraph";
 export * from "./task-graph/TaskGraph";
+export * from "./task-graph/TaskGraphCheckpoint";
 export * from "./task-graph/TaskGraphEvents";
 export * from "./task-graph/TaskGraphRunner";
 
@@ -19,6 +20,7 @@ export * from "./task-graph/Conversions";
 export * from "./task-graph/GraphToWorkflowCode";
 export * from "./task-graph/IWorkflow";
 export * from "./task-graph/Workflow";
+export * from "./task-graph/WorkflowScheduler";
 
 export * from "./task-graph/TransformRegistry";
 export * from "./task-graph/TransformTypes";
@@ -35,6 +37,8 @@ export {
 export * from "./task";
 
 export * from "./storage/TaskGraphRepository";
+export * from "./storage/TaskGraphRunRepository";
+export * from "./storage/TaskGraphRunTabularRepository";
 export * from "./storage/TaskGraphTabularRepository";
 export * from "./storage/TaskOutputRepository";
 export * from "./storage/TaskOutputTabularRepository";
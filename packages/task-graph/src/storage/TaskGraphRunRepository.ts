@@ -0,0 +1,127 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createServiceToken, EventEmitter, EventParameters } from "@workglow/util";
+import type { TaskGraphRunRecord } from "../task-graph/TaskGraphCheckpoint";
+
+/**
+ * Service token for TaskGraphRunRepository
+ */
+export const TASK_GRAPH_RUN_REPOSITORY = createServiceToken<TaskGraphRunRepository>(
+  "taskgraph.taskGraphRunRepository"
+);
+
+export type TaskGraphRunEventListeners = {
+  run_saved: (runId: string) => void;
+  run_retrieved: (runId: string) => void;
+  run_deleted: (runId: string) => void;
+  run_cleared: () => void;
+};
+
+export type TaskGraphRunEvents = keyof TaskGraphRunEventListeners;
+
+export type TaskGraphRunEventListener<Event extends TaskGraphRunEvents> =
+  TaskGraphRunEventListeners[Event];
+
+export type TaskGraphRunEventParameters<Event extends TaskGraphRunEvents> = EventParameters<
+  TaskGraphRunEventListeners,
+  Event
+>;
+
+/**
+ * Abstract class for persisting graph run records (per-task status, inputs,
+ * outputs and dataflow values) so interrupted runs can be resumed with
+ * {@link TaskGraphRunner.resumeRun}.
+ */
+export abstract class TaskGraphRunRepository {
+  /**
+   * The type of the repository
+   */
+  public type = "TaskGraphRunRepository";
+
+  private get events() {
+    if (!this._events) {
+      this._events = new EventEmitter<TaskGraphRunEventListeners>();
+    }
+    return this._events;
+  }
+  private _events: EventEmitter<TaskGraphRunEventListeners> | undefined;
+
+  /**
+   * Registers an event listener for a specific event
+   * @param name The event name to listen for
+   * @param fn The callback function to execute when the event occurs
+   */
+  on<Event extends TaskGraphRunEvents>(name: Event, fn: TaskGraphRunEventListener<Event>) {
+    this.events.on(name, fn);
+  }
+
+  /**
+   * Removes an event listener for a specific event
+   * @param name The event name to stop listening for
+   * @param fn The callback function to remove
+   */
+  off<Event extends TaskGraphRunEvents>(name: Event, fn: TaskGraphRunEventListener<Event>) {
+    this.events.off(name, fn);
+  }
+
+  /**
+   * Returns a promise that resolves when the event is emitted
+   * @param name The event name to listen for
+   * @returns a promise that resolves to the event parameters
+   */
+  waitOn<Event extends TaskGraphRunEvents>(name: Event) {
+    return this.events.waitOn(name) as Promise<TaskGraphRunEventParameters<Event>>;
+  }
+
+  /**
+   * Emits an event (if there are listeners)
+   * @param name The event name to emit
+   * @param args The event parameters
+   */
+  emit<Event extends TaskGraphRunEvents>(name: Event, ...args: TaskGraphRunEventParameters<Event>) {
+    this._events?.emit(name, ...args);
+  }
+
+  /**
+   * Saves (inserts or replaces) a run record
+   * @param record The run record to save
+   * @emits run_saved when the operation completes
+   */
+  abstract saveRun(record: TaskGraphRunRecord): Promise<void>;
+
+  /**
+   * Retrieves a run record
+   * @param runId The id of the run
+   * @returns The run record, or undefined if not found
+   * @emits run_retrieved when the operation completes successfully
+   */
+  abstract getRun(runId: string): Promise<TaskGraphRunRecord | undefined>;
+
+  /**
+   * Deletes a run record
+   * @param runId The id of the run
+   * @emits run_deleted when the operation completes
+   */
+  abstract deleteRun(runId: string): Promise<void>;
+
+  /**
+   * Clears all run records from the repository
+   * @emits run_cleared when the operation completes
+   */
+  abstract clear(): Promise<void>;
+
+  /**
+   * Returns the number of run records stored in the repository
+   */
+  abstract size(): Promise<number>;
+
+  /**
+   * Deletes all run records last updated before the given age
+   * @param olderThanInMs The age in milliseconds
+   */
+  abstract clearOlderThan(olderThanInMs: number): Promise<void>;
+}
@@ -0,0 +1,134 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { BaseTabularStorage } from "@workglow/storage";
+import { DataPortSchemaObject } from "@workglow/util/schema";
+import type { TaskGraphRunRecord } from "../task-graph/TaskGraphCheckpoint";
+import { TaskGraphRunRepository } from "./TaskGraphRunRepository";
+
+export const TaskGraphRunSchema = {
+  type: "object",
+  properties: {
+    runId: { type: "string" },
+    status: { type: "string" },
+    value: { type: "string" },
+    createdAt: { type: "string", format: "date-time" },
+    updatedAt: { type: "string", format: "date-time" },
+  },
+  additionalProperties: false,
+} satisfies DataPortSchemaObject;
+
+export const TaskGraphRunPrimaryKeyNames = ["runId"] as const;
+
+export type TaskGraphRunRepositoryStorage = BaseTabularStorage<
+  typeof TaskGraphRunSchema,
+  typeof TaskGraphRunPrimaryKeyNames
+>;
+
+export type TaskGraphRunRepositoryOptions = {
+  tabularRepository: TaskGraphRunRepositoryStorage;
+};
+
+/**
+ * Run repository backed by a tabular storage. The run record is stored as JSON
+ * in the `value` column; `status` and the timestamps are kept in their own
+ * columns so they can be indexed and searched.
+ */
+export class TaskGraphRunTabularRepository extends TaskGraphRunRepository {
+  /**
+   * The type of the repository
+   */
+  public override type = "TaskGraphRunTabularRepository";
+
+  /**
+   * The tabular repository for the run records
+   */
+  tabularRepository: TaskGraphRunRepositoryStorage;
+
+  /**
+   * Constructor for the TaskGraphRunTabularRepository
+   * @param options The options for the repository
+   */
+  constructor({ tabularRepository }: TaskGraphRunRepositoryOptions) {
+    super();
+    this.tabularRepository = tabularRepository;
+  }
+
+  /**
+   * Sets up the database for the repository.
+   * Must be called before using any other methods.
+   */
+  async setupDatabase(): Promise<void> {
+    await this.tabularRepository.setupDatabase?.();
+  }
+
+  /**
+   * Saves (inserts or replaces) a run record
+   * @param record The run record to save
+   * @emits run_saved when the operation completes
+   */
+  async saveRun(record: TaskGraphRunRecord): Promise<void> {
+    await this.tabularRepository.put({
+      runId: record.runId,
+      status: record.status,
+      value: JSON.stringify(record),
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    });
+    this.emit("run_saved", record.runId);
+  }
+
+  /**
+   * Retrieves a run record
+   * @param runId The id of the run
+   * @returns The run record, or undefined if not found
+   * @emits run_retrieved when the operation completes successfully
+   */
+  async getRun(runId: string): Promise<TaskGraphRunRecord | undefined> {
+    const row = await this.tabularRepository.get({ runId });
+    if (!row?.value) {
+      return undefined;
+    }
+    const record = JSON.parse(row.value) as TaskGraphRunRecord;
+    this.emit("run_retrieved", runId);
+    return record;
+  }
+
+  /**
+   * Deletes a run record
+   * @param runId The id of the run
+   * @emits run_deleted when the operation completes
+   */
+  async deleteRun(runId: string): Promise<void> {
+    await this.tabularRepository.delete({ runId });
+    this.emit("run_deleted", runId);
+  }
+
+  /**
+   * Clears all run records from the repository
+   * @emits run_cleared when the operation completes
+   */
+  async clear(): Promise<void> {
+    await this.tabularRepository.deleteAll();
+    this.emit("run_cleared");
+  }
+
+  /**
+   * Returns the number of run records stored in the repository
+   */
+  async size(): Promise<number> {
+    return await this.tabularRepository.size();
+  }
+
+  /**
+   * Deletes all run records last updated before the given age
+   * @param olderThanInMs The age in milliseconds
+   */
+  async clearOlderThan(olderThanInMs: number): Promise<void> {
+    const date = new Date(Date.now() - olderThanInMs).toISOString();
+    await this.tabularRepository.deleteSearch({ updatedAt: { value: date, operator: "<" } });
+  }
+}
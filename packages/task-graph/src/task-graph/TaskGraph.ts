@@ -7,9 +7,11 @@
 import type { ResourceScope } from "@workglow/util";
 import { EventEmitter, ServiceRegistry, uuid4 } from "@workglow/util";
 import { DirectedAcyclicGraph } from "@workglow/util/graph";
+import type { TaskGraphRunRepository } from "../storage/TaskGraphRunRepository";
 import { TaskOutputRepository } from "../storage/TaskOutputRepository";
 import type { ITask } from "../task/ITask";
 import type { StreamEvent } from "../task/StreamTypes";
+import type { TaskBudget, TaskBudgetTracker } from "../task/TaskBudget";
 import type { TaskEntitlements } from "../task/TaskEntitlements";
 import type { JsonTaskItem, TaskGraphJson, TaskGraphJsonOptions } from "../task/TaskJSON";
 import type { TaskIdType, TaskInput, TaskOutput, TaskStatus } from "../task/TaskTypes";
@@ -20,6 +22,7 @@ import { Dataflow } from "./Dataflow";
 import { computeGraphEntitlements } from "./GraphEntitlementUtils";
 import { addBoundaryNodesToDependencyJson, addBoundaryNodesToGraphJson } from "./GraphSchemaUtils";
 import type { ITaskGraph } from "./ITaskGraph";
+import type { TaskGraphCheckpoint } from "./TaskGraphCheckpoint";
 import {
   EventTaskGraphToDagMapping,
   GraphEventDagEvents,
@@ -85,11 +88,48 @@ export interface TaskGraphRunConfig {
    * as soon as their consumers are done with them).
    */
   runWithPreviews?: boolean;
+  /**
+   * Repository used to checkpoint this run so it can be resumed with
+   * {@link TaskGraphRunner.resumeRun} after an interruption.
+   *  - true  → use the globally registered TaskGraphRunRepository
+   *  - false → do not checkpoint this run (default)
+   *  - TaskGraphRunRepository instance → use this specific repository
+   */
+  runRepository?: TaskGraphRunRepository | boolean;
+  /**
+   * Id under which a checkpointed run is stored. Defaults to a generated uuid;
+   * read it back from {@link TaskGraphRunner.currentRunId}.
+   */
+  runId?: string;
+  /**
+   * Checkpoint scope for this graph. Set by parent runners when running nested
+   * subgraphs so their state is recorded inside the parent's run record.
+   */
+  checkpoint?: TaskGraphCheckpoint;
+  /**
+   * Job queue priority applied to every task in the graph (see
+   * `IRunConfig.priority`). Higher values are claimed first.
+   */
+  priority?: number;
+  /**
+   * Limits on the model calls (count, tokens, cost) and wall-clock time of the
+   * run, including nested subgraphs. When a call would exceed it the run is
+   * aborted with a TaskBudgetExceededError, or paused until
+   * {@link TaskGraphRunner.extendBudget} raises it (`onExceeded: "pause"`).
+   * Parent runners pass their tracker down so subgraphs share one budget.
+   */
+  budget?: TaskBudget | TaskBudgetTracker;
 }
 
 export interface TaskGraphRunPreviewConfig extends Omit<
   TaskGraphRunConfig,
-  "enforceEntitlements" | "timeout"
+  | "enforceEntitlements"
+  | "timeout"
+  | "runRepository"
+  | "runId"
+  | "checkpoint"
+  | "priority"
+  | "budget"
 > {
   /** Optional service registry to use for this task graph */
   registry?: ServiceRegistry;
@@ -163,6 +203,30 @@ export class TaskGraph implements ITaskGraph {
       maxTasks: config?.maxTasks,
       resourceScope: config?.resourceScope,
       runWithPreviews: config?.runWithPreviews,
+      runRepository: config?.runRepository,
+      runId: config?.runId,
+      checkpoint: config?.checkpoint,
+      priority: config?.priority,
+      budget: config?.budget,
+    });
+  }
+
+  /**
+   * Resumes a checkpointed run. When the graph is empty it is rehydrated from
+   * the run record; tasks that completed in the previous attempt are restored
+   * rather than re-executed.
+   * @param runId The id of the run to resume
+   * @param config Configuration for the resumed run
+   * @returns A promise that resolves when all tasks are complete
+   * @throws TaskConfigurationError if no run record exists for the id
+   */
+  public resumeRun<ExecuteOutput extends TaskOutput>(
+    runId: string,
+    config: Omit<TaskGraphRunConfig, "runId" | "checkpoint"> = {}
+  ): Promise<GraphResultArray<ExecuteOutput>> {
+    return this.runner.resumeRun<ExecuteOutput>(runId, {
+      ...config,
+      outputCache: config?.outputCache || this.outputCache,
     });
   }
 
@@ -0,0 +1,191 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ITask } from "../task/ITask";
+import type { TaskGraphJson } from "../task/TaskJSON";
+import { TaskIdType, TaskInput, TaskOutput, TaskStatus } from "../task/TaskTypes";
+import type { Dataflow } from "./Dataflow";
+
+/**
+ * Persisted state of a single task within a checkpointed graph run.
+ */
+export type TaskCheckpointRecord = {
+  status: TaskStatus;
+  /** Resolved input the task ran with */
+  input?: TaskInput;
+  /** Output the task produced (present once COMPLETED) */
+  output?: TaskOutput;
+  /** Error details when the task FAILED */
+  error?: { message: string; type: string };
+  /** Checkpoint of the task's subgraph (GraphAsTask and subclasses) */
+  subGraph?: TaskGraphCheckpointRecord;
+  /** Outputs of completed iterations, keyed by iteration index (MapTask, ReduceTask) */
+  iterations?: Record<string, TaskOutput>;
+  /** Task-specific loop state (e.g. WhileTask chained input/output) */
+  state?: Record<string, unknown>;
+};
+
+/**
+ * Persisted state of a dataflow edge within a checkpointed graph run.
+ */
+export type DataflowCheckpointRecord = {
+  status: TaskStatus;
+  value?: unknown;
+};
+
+/**
+ * Persisted state of a (sub)graph: its tasks and dataflows keyed by id.
+ */
+export type TaskGraphCheckpointRecord = {
+  tasks: Record<string, TaskCheckpointRecord>;
+  dataflows: Record<string, DataflowCheckpointRecord>;
+};
+
+/**
+ * Lifecycle status of a persisted graph run.
+ */
+export type TaskGraphRunStatus = "PROCESSING" | "COMPLETED" | "FAILED" | "ABORTED";
+
+/**
+ * A persisted graph run: enough to rebuild the graph and resume it.
+ */
+export type TaskGraphRunRecord = {
+  runId: string;
+  status: TaskGraphRunStatus;
+  /** Serialized graph, used to rehydrate the graph on resume */
+  graph: TaskGraphJson;
+  /** Input the graph run was started with */
+  input: TaskInput;
+  checkpoint: TaskGraphCheckpointRecord;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export function createEmptyCheckpointRecord(): TaskGraphCheckpointRecord {
+  return { tasks: {}, dataflows: {} };
+}
+
+/**
+ * Checkpoint scope for a single task. Compound tasks use it to checkpoint
+ * their subgraph or their per-iteration progress so an interrupted run can
+ * pick up where it left off.
+ */
+export class TaskCheckpoint {
+  constructor(
+    protected readonly record: TaskCheckpointRecord,
+    protected readonly persist: () => Promise<void>
+  ) {}
+
+  /**
+   * Returns the checkpoint scope for this task's subgraph
+   */
+  public subGraph(): TaskGraphCheckpoint {
+    if (!this.record.subGraph) {
+      this.record.subGraph = createEmptyCheckpointRecord();
+    }
+    return new TaskGraphCheckpoint(this.record.subGraph, this.persist);
+  }
+
+  /**
+   * Returns the recorded output for a completed iteration, if any
+   */
+  public getIteration(index: number): TaskOutput | undefined {
+    return this.record.iterations?.[String(index)];
+  }
+
+  /**
+   * Records the output of a completed iteration and persists the run
+   */
+  public async recordIteration(index: number, output: TaskOutput): Promise<void> {
+    this.record.iterations ??= {};
+    this.record.iterations[String(index)] = output;
+    await this.persist();
+  }
+
+  /**
+   * Returns the task-specific loop state, if any was recorded
+   */
+  public getState<T extends Record<string, unknown>>(): T | undefined {
+    return this.record.state as T | undefined;
+  }
+
+  /**
+   * Records task-specific loop state and persists the run
+   */
+  public async recordState(state: Record<string, unknown>): Promise<void> {
+    this.record.state = state;
+    await this.persist();
+  }
+}
+
+/**
+ * Checkpoint scope for a (sub)graph run. Wraps a {@link TaskGraphCheckpointRecord}
+ * that is part of a root {@link TaskGraphRunRecord}; every mutation calls the
+ * shared `persist` callback so the root record is written back to the
+ * {@link TaskGraphRunRepository}.
+ */
+export class TaskGraphCheckpoint {
+  constructor(
+    public readonly record: TaskGraphCheckpointRecord,
+    protected readonly persist: () => Promise<void>
+  ) {}
+
+  /**
+   * Returns the checkpoint scope for a task, creating its record if needed
+   */
+  public task(id: TaskIdType): TaskCheckpoint {
+    const key = String(id);
+    let record = this.record.tasks[key];
+    if (!record) {
+      record = { status: TaskStatus.PENDING };
+      this.record.tasks[key] = record;
+    }
+    return new TaskCheckpoint(record, this.persist);
+  }
+
+  /**
+   * Returns the record of a task that completed in a previous run, or undefined
+   * if the task has to be (re-)executed.
+   */
+  public getCompletedTask(id: TaskIdType): TaskCheckpointRecord | undefined {
+    const record = this.record.tasks[String(id)];
+    return record?.status === TaskStatus.COMPLETED ? record : undefined;
+  }
+
+  /**
+   * Returns the recorded state of a dataflow, if any
+   */
+  public getDataflow(dataflow: Dataflow): DataflowCheckpointRecord | undefined {
+    return this.record.dataflows[dataflow.id];
+  }
+
+  /**
+   * Records the final state of a task and its outgoing dataflows, then persists the run
+   * @param task The task that finished (completed or failed)
+   * @param dataflows The task's outgoing dataflows
+   */
+  public async recordTask(task: ITask, dataflows: readonly Dataflow[]): Promise<void> {
+    const key = String(task.id);
+    const record: TaskCheckpointRecord = this.record.tasks[key] ?? { status: task.status };
+    record.status = task.status;
+    record.input = task.runInputData;
+    if (task.status === TaskStatus.COMPLETED) {
+      record.output = task.runOutputData;
+      delete record.error;
+    } else if (task.error) {
+      record.error = {
+        message: task.error.message,
+        type: (task.error.constructor as { type?: string }).type ?? "TaskError",
+      };
+    }
+    this.record.tasks[key] = record;
+    for (const dataflow of dataflows) {
+      this.record.dataflows[dataflow.id] = { status: dataflow.status, value: dataflow.value };
+    }
+    await this.persist();
+  }
+}
@@ -6,8 +6,10 @@
 
 import { EventParameters } from "@workglow/util";
 import type { StreamEvent } from "../task/StreamTypes";
+import type { TaskBudgetExceededError } from "../task/TaskBudget";
 import type { TaskEntitlements } from "../task/TaskEntitlements";
 import { TaskIdType } from "../task/TaskTypes";
+import type { TaskUsage } from "../task/TaskUsage";
 import { DataflowIdType } from "./Dataflow";
 
 /**
@@ -27,6 +29,13 @@ export type TaskGraphStatusListeners = {
   task_stream_chunk: (taskId: TaskIdType, event: StreamEvent) => void;
   /** Fired when a task in the graph finishes streaming */
   task_stream_end: (taskId: TaskIdType, output: Record<string, any>) => void;
+  /** Fired when a task in the graph (or one of its subgraphs) reports usage */
+  task_usage: (taskId: TaskIdType, usage: TaskUsage) => void;
+  /**
+   * Fired when a model call would exceed the run's budget: right before the run
+   * aborts, or when it pauses until `TaskGraphRunner.extendBudget()` is called
+   */
+  budget_exceeded: (error: TaskBudgetExceededError) => void;
   /** Fired when the aggregated entitlements of the graph change */
   entitlementChange: (entitlements: TaskEntitlements) => void;
 };
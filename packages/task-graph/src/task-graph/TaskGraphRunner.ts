@@ -17,6 +17,10 @@ import {
   uuid4,
 } from "@workglow/util";
 import { asRefcountable } from "../refcountable";
+import {
+  TASK_GRAPH_RUN_REPOSITORY,
+  TaskGraphRunRepository,
+} from "../storage/TaskGraphRunRepository";
 import { TASK_OUTPUT_REPOSITORY, TaskOutputRepository } from "../storage/TaskOutputRepository";
 import { ConditionalTask } from "../task/ConditionalTask";
 import type { IEntitlementEnforcer } from "../task/EntitlementEnforcer";
@@ -30,6 +34,7 @@ import {
   isTaskStreamable,
 } from "../task/StreamTypes";
 import { Task } from "../task/Task";
+import { createGraphFromGraphJSON } from "../task/TaskJSON";
 import {
   TaskAbortedError,
   TaskConfigurationError,
@@ -38,9 +43,20 @@ import {
   TaskGraphTimeoutError,
 } from "../task/TaskError";
 import { TaskInput, TaskOutput, TaskStatus } from "../task/TaskTypes";
+import type { TaskBudget } from "../task/TaskBudget";
+import { TaskBudgetExceededError, TaskBudgetTracker } from "../task/TaskBudget";
+import type { TaskUsage } from "../task/TaskUsage";
 import { DATAFLOW_ALL_PORTS, DATAFLOW_ERROR_PORT } from "./Dataflow";
 import { computeGraphEntitlements } from "./GraphEntitlementUtils";
 import { TaskGraph, TaskGraphRunConfig, TaskGraphRunPreviewConfig } from "./TaskGraph";
+import {
+  createEmptyCheckpointRecord,
+  TaskCheckpoint,
+  TaskCheckpointRecord,
+  TaskGraphCheckpoint,
+  TaskGraphRunRecord,
+  TaskGraphRunStatus,
+} from "./TaskGraphCheckpoint";
 import { DependencyBasedScheduler, TopologicalScheduler } from "./TaskGraphScheduler";
 
 /**
@@ -128,6 +144,10 @@ export class TaskGraphRunner {
    * See {@link TaskGraphRunConfig.runWithPreviews}.
    */
   protected runWithPreviews: boolean = false;
+  /**
+   * Job queue priority passed to every task run. See {@link TaskGraphRunConfig.priority}.
+   */
+  protected priority?: number;
   /**
    * Service registry for this graph run
    */
@@ -148,6 +168,12 @@ export class TaskGraphRunner {
   protected inProgressFunctions: Map<unknown, Promise<void>> = new Map();
   protected failedTaskErrors: Map<unknown, TaskError> = new Map();
 
+  /**
+   * Usage reported by the tasks of the current (or most recent) run,
+   * including tasks of nested subgraphs. See {@link summarizeTaskUsage}.
+   */
+  public usage: TaskUsage[] = [];
+
   /**
    * Active telemetry span for the current graph run.
    */
@@ -164,12 +190,56 @@ export class TaskGraphRunner {
    */
   protected pendingGraphTimeoutError?: TaskGraphTimeoutError;
 
+  /**
+   * Budget tracker of the current run, shared with subgraph and task runs.
+   * See {@link TaskGraphRunConfig.budget}.
+   */
+  protected budget?: TaskBudgetTracker;
+
+  /**
+   * When the budget aborts the run, this stores the error so the run surfaces
+   * it instead of a plain TaskAbortedError.
+   */
+  protected pendingBudgetError?: TaskBudgetExceededError;
+
+  /**
+   * Timer handle for the budget's `maxDurationMs` in "abort" mode
+   */
+  protected budgetTimer?: ReturnType<typeof setTimeout>;
+
   /**
    * The entitlement enforcer for the current run, if enforcement is enabled.
    * Set during handleStart and cleared after the run completes.
    */
   protected activeEnforcer?: IEntitlementEnforcer;
 
+  /**
+   * Checkpoint scope for the current run. Either owned by this runner (when a
+   * run repository is configured) or handed down by a parent runner for a
+   * nested subgraph.
+   */
+  protected checkpoint?: TaskGraphCheckpoint;
+
+  /**
+   * The run record this runner persists, when it owns the checkpoint.
+   */
+  protected runRecord?: TaskGraphRunRecord;
+
+  /**
+   * Repository the run record is persisted to.
+   */
+  protected runRepository?: TaskGraphRunRepository;
+
+  /**
+   * Serializes run record writes so they land in the order they were issued.
+   */
+  protected persistChain: Promise<void> = Promise.resolve();
+
+  /**
+   * Run record to resume, set by {@link resumeRun} for the duration of handleStart.
+   */
+  protected pendingResume?: { record: TaskGraphRunRecord; repository: TaskGraphRunRepository };
+
   /**
    * Constructor for TaskGraphRunner
    * @param graph The task graph to run
@@ -186,6 +256,8 @@ export class TaskGraphRunner {
     this.graph = graph;
     graph.outputCache = outputCache;
     this.handleProgress = this.handleProgress.bind(this);
+    this.handleUsage = this.handleUsage.bind(this);
+    this.persistRun = this.persistRun.bind(this);
   }
 
   /**
@@ -193,6 +265,14 @@ export class TaskGraphRunner {
    */
   protected runId: string = "";
 
+  /**
+   * Unique ID for the current (or most recent) run. For checkpointed runs this
+   * is the id to pass to {@link resumeRun}.
+   */
+  public get currentRunId(): string {
+    return this.runId;
+  }
+
   // ========================================================================
   // Public methods
   // ========================================================================
@@ -201,7 +281,7 @@ export class TaskGraphRunner {
     input: TaskInput = {} as TaskInput,
     config?: TaskGraphRunConfig
   ): Promise<GraphResultArray<ExecuteOutput>> {
-    await this.handleStart(config);
+    await this.handleStart(config, input);
 
     const results: GraphResultArray<ExecuteOutput> = [];
     let error: TaskError | undefined;
@@ -222,7 +302,18 @@ export class TaskGraphRunner {
 
         const runAsync = async () => {
           let errorRouted = false;
+          let restored = false;
           try {
+            const checkpointed = this.checkpoint?.getCompletedTask(task.id);
+            if (checkpointed) {
+              restored = true;
+              const taskResult = await this.restoreTaskFromCheckpoint(task, checkpointed);
+              if (this.graph.getTargetDataflows(task.id).length === 0) {
+                results.push(taskResult as GraphSingleTaskResult<ExecuteOutput>);
+              }
+              return;
+            }
+
             // Root tasks (no incoming dataflows) receive the graph run input so e.g.
             // InputTask can seed the graph. Downstream tasks rely only on dataflow
             // edges plus task defaults — unless matchAllEmptyInputs is true, in which case
@@ -255,11 +346,17 @@ export class TaskGraphRunner {
             // IMPORTANT: Push status to edges BEFORE notifying scheduler
             // This ensures dataflow statuses (including DISABLED) are set
             // before the scheduler checks which tasks are ready.
-            // Skip normal status push when error routing already set edge statuses.
-            if (!errorRouted) {
+            // Skip normal status push when error routing already set edge statuses,
+            // or when the task was restored from a checkpoint (edges restored too).
+            if (!errorRouted && !restored) {
               this.pushStatusFromNodeToEdges(this.graph, task);
               this.pushErrorFromNodeToEdges(this.graph, task);
             }
+            // Record before notifying the scheduler so downstream tasks only
+            // start once their inputs are durable.
+            if (this.checkpoint && !restored) {
+              await this.checkpoint.recordTask(task, this.graph.getTargetDataflows(task.id));
+            }
             this.processScheduler.onTaskCompleted(task.id);
           }
         };
@@ -286,9 +383,13 @@ export class TaskGraphRunner {
       await this.handleAbort();
       throw this.pendingGraphTimeoutError;
     }
+    if (this.pendingBudgetError) {
+      await this.handleAbort();
+      throw this.pendingBudgetError;
+    }
     if (this.failedTaskErrors.size > 0) {
       const latestError = this.failedTaskErrors.values().next().value!;
-      this.handleError(latestError);
+      await this.handleError(latestError);
       throw latestError;
     }
     if (this.abortController?.signal.aborted) {
@@ -301,6 +402,57 @@ export class TaskGraphRunner {
     return this.filterLeafResults(results);
   }
 
+  /**
+   * Resumes a run that was checkpointed to a {@link TaskGraphRunRepository}.
+   *
+   * If this runner's graph is empty, it is rehydrated from the graph JSON stored
+   * in the run record (task types must be registered). Tasks recorded as
+   * COMPLETED are restored with their recorded inputs, outputs and dataflow
+   * values; everything else is re-executed. Nested subgraphs (GraphAsTask,
+   * MapTask, WhileTask, ...) resume from their own checkpoints.
+   *
+   * @param runId The id of the run to resume
+   * @param config Optional configuration; `runRepository` defaults to the registered repository
+   * @returns The leaf results of the resumed run
+   * @throws TaskConfigurationError if no repository is available or the run is unknown
+   */
+  public async resumeRun<ExecuteOutput extends TaskOutput>(
+    runId: string,
+    config?: Omit<TaskGraphRunConfig, "runId" | "checkpoint">
+  ): Promise<GraphResultArray<ExecuteOutput>> {
+    if (this.running || this.previewRunning) {
+      throw new TaskConfigurationError("Graph is already running");
+    }
+    const registry = config?.registry ?? this.registry;
+    const repository = this.resolveRunRepository(config?.runRepository ?? true, registry);
+    if (!repository) {
+      throw new TaskConfigurationError(
+        "resumeRun requires a TaskGraphRunRepository. Pass runRepository or register one via " +
+          "TASK_GRAPH_RUN_REPOSITORY."
+      );
+    }
+    const record = await repository.getRun(runId);
+    if (!record) {
+      throw new TaskConfigurationError(`No checkpointed run found with id "${runId}"`);
+    }
+
+    if (this.graph.getTasks().length === 0) {
+      const rehydrated = createGraphFromGraphJSON(record.graph, registry);
+      this.graph.addTasks(rehydrated.getTasks());
+      this.graph.addDataflows(rehydrated.getDataflows());
+    }
+
+    this.pendingResume = { record, repository };
+    try {
+      return await this.runGraph<ExecuteOutput>(record.input, {
+        ...config,
+        runRepository: repository,
+      });
+    } finally {
+      this.pendingResume = undefined;
+    }
+  }
+
   /**
    * Runs the task graph in preview mode
    * @param input Optional input to pass to root tasks (tasks with no incoming dataflows)
@@ -449,6 +601,19 @@ export class TaskGraphRunner {
     this.abortController?.abort();
   }
 
+  /**
+   * Raises (or otherwise changes) the limits of the running graph's budget.
+   * Model calls paused on the budget (`onExceeded: "pause"`) resume once it
+   * admits them.
+   * @param budget Limits to merge into the current budget
+   */
+  public extendBudget(budget: Partial<TaskBudget>): void {
+    if (!this.budget) {
+      throw new TaskConfigurationError("Graph is not running with a budget");
+    }
+    this.budget.extend(budget);
+  }
+
   /**
    * Disables the task graph execution
    */
@@ -895,9 +1060,13 @@ export class TaskGraphRunner {
       outputCache: this.outputCache ?? false,
       updateProgress: async (task: ITask, progress: number, message?: string, ...args: any[]) =>
         await this.handleProgress(task, progress, message, ...args),
+      reportUsage: this.handleUsage,
       registry: this.registry,
       resourceScope: this.resourceScope,
       runWithPreviews: this.runWithPreviews,
+      checkpoint: this.taskCheckpoint(task),
+      priority: this.priority,
+      budget: this.budget,
     });
 
     await this.pushOutputFromNodeToEdges(task, results);
@@ -985,9 +1154,13 @@ export class TaskGraphRunner {
         shouldAccumulate,
         updateProgress: async (task: ITask, progress: number, message?: string, ...args: any[]) =>
           await this.handleProgress(task, progress, message, ...args),
+        reportUsage: this.handleUsage,
         registry: this.registry,
         resourceScope: this.resourceScope,
         runWithPreviews: this.runWithPreviews,
+        checkpoint: this.taskCheckpoint(task),
+        priority: this.priority,
+        budget: this.budget,
       });
 
       await this.pushOutputFromNodeToEdges(task, results);
@@ -1093,6 +1266,132 @@ export class TaskGraphRunner {
     }
   }
 
+  /**
+   * Restores a task that completed in a previous attempt of a checkpointed run
+   * instead of executing it again. Outgoing dataflows get their recorded values
+   * and statuses back so conditional branches and error routing stay as they were.
+   */
+  protected async restoreTaskFromCheckpoint<T>(
+    task: ITask,
+    record: TaskCheckpointRecord
+  ): Promise<GraphSingleTaskResult<T>> {
+    const output = (record.output ?? {}) as TaskOutput;
+    task.runInputData = record.input ?? {};
+    task.runOutputData = output;
+    task.progress = 100;
+    task.completedAt = new Date();
+    task.status = TaskStatus.COMPLETED;
+    task.emit("complete");
+    task.emit("status", task.status);
+
+    const dataflows = this.graph.getTargetDataflows(task.id);
+    const saved = dataflows.map((df) => this.checkpoint?.getDataflow(df));
+    if (saved.every((entry) => entry !== undefined)) {
+      dataflows.forEach((df, i) => {
+        df.value = saved[i]!.value;
+        df.setStatus(saved[i]!.status);
+      });
+    } else {
+      await this.pushOutputFromNodeToEdges(task, output);
+      this.pushStatusFromNodeToEdges(this.graph, task);
+    }
+    this.propagateDisabledStatus(this.graph);
+
+    return {
+      id: task.id,
+      type: (task.constructor as any).runtype || (task.constructor as any).type,
+      data: output as T,
+    };
+  }
+
+  /**
+   * Returns the checkpoint scope handed to a task's runner. Only compound tasks
+   * get one; they use it to checkpoint their subgraph or iterations.
+   */
+  protected taskCheckpoint(task: ITask): TaskCheckpoint | undefined {
+    if (!this.checkpoint || !task.hasChildren()) return undefined;
+    return this.checkpoint.task(task.id);
+  }
+
+  /**
+   * Resolves the run repository from a config value
+   * @param value true for the registered repository, false/undefined for none, or an instance
+   */
+  protected resolveRunRepository(
+    value: TaskGraphRunRepository | boolean | undefined,
+    registry: ServiceRegistry = this.registry
+  ): TaskGraphRunRepository | undefined {
+    if (value === true) {
+      return registry.has(TASK_GRAPH_RUN_REPOSITORY)
+        ? registry.get(TASK_GRAPH_RUN_REPOSITORY)
+        : undefined;
+    }
+    return value || undefined;
+  }
+
+  /**
+   * Sets up checkpointing for a run: adopts a parent's checkpoint scope for
+   * nested subgraphs, or creates (or resumes) a run record when a run
+   * repository is configured.
+   */
+  protected async setupCheckpoint(
+    input: TaskInput,
+    config?: TaskGraphRunConfig,
+    resume?: { record: TaskGraphRunRecord; repository: TaskGraphRunRepository }
+  ): Promise<void> {
+    this.checkpoint = config?.checkpoint;
+    if (this.checkpoint) return;
+
+    const repository = resume?.repository ?? this.resolveRunRepository(config?.runRepository);
+    if (!repository) return;
+
+    const now = new Date().toISOString();
+    this.runRecord = resume
+      ? { ...resume.record, status: "PROCESSING", error: undefined, updatedAt: now }
+      : {
+          runId: this.runId,
+          status: "PROCESSING",
+          graph: this.graph.toJSON(),
+          input,
+          checkpoint: createEmptyCheckpointRecord(),
+          createdAt: now,
+          updatedAt: now,
+        };
+    this.runRepository = repository;
+    this.persistChain = Promise.resolve();
+    this.checkpoint = new TaskGraphCheckpoint(this.runRecord.checkpoint, this.persistRun);
+    await this.persistRun();
+  }
+
+  /**
+   * Writes the run record to the run repository. Writes are chained so they
+   * land in order; failures are logged rather than failing the run.
+   */
+  protected persistRun(): Promise<void> {
+    const repository = this.runRepository;
+    const record = this.runRecord;
+    if (!repository || !record) return Promise.resolve();
+    this.persistChain = this.persistChain
+      .then(async () => {
+        record.updatedAt = new Date().toISOString();
+        await repository.saveRun(record);
+      })
+      .catch((error) => {
+        getLogger().warn("Failed to persist graph run checkpoint", { runId: record.runId, error });
+      });
+    return this.persistChain;
+  }
+
+  /**
+   * Records the final status of a checkpointed run
+   */
+  protected async finishCheckpoint(status: TaskGraphRunStatus, error?: string): Promise<void> {
+    if (!this.runRecord) return;
+    this.runRecord.status = status;
+    this.runRecord.error = error;
+    await this.persistRun();
+  }
+
   /**
    * Resets a task
    * @param graph The task graph to reset
@@ -1152,7 +1451,10 @@ export class TaskGraphRunner {
    * Handles the start of task graph execution
    * @param parentSignal Optional abort signal from parent
    */
-  protected async handleStart(config?: TaskGraphRunConfig): Promise<void> {
+  protected async handleStart(
+    config?: TaskGraphRunConfig,
+    input: TaskInput = {} as TaskInput
+  ): Promise<void> {
     // Setup registry - create child from global if not provided
     if (config?.registry !== undefined) {
       this.registry = config.registry;
@@ -1166,6 +1468,7 @@ export class TaskGraphRunner {
 
     this.accumulateLeafOutputs = config?.accumulateLeafOutputs !== false;
     this.runWithPreviews = config?.runWithPreviews === true;
+    this.priority = config?.priority;
 
     if (config?.outputCache !== undefined) {
       if (typeof config.outputCache === "boolean") {
@@ -1186,11 +1489,20 @@ export class TaskGraphRunner {
     }
 
     this.running = true;
+    this.usage = [];
     this.abortController = new AbortController();
     this.abortController.signal.addEventListener("abort", () => {
       this.handleAbort();
     });
 
+    // Consume the pending resume (if any) up front so an early abort below
+    // cannot leak it into the next run.
+    const resume = this.pendingResume;
+    this.pendingResume = undefined;
+    this.checkpoint = undefined;
+    this.runRecord = undefined;
+    this.runRepository = undefined;
+
     // Set up graph-level timeout if configured
     if (config?.timeout !== undefined && config.timeout > 0) {
       this.pendingGraphTimeoutError = undefined;
@@ -1199,6 +1511,7 @@ export class TaskGraphRunner {
         this.abortController?.abort();
       }, config.timeout);
     }
+    this.setupBudget(config?.budget);
 
     // Listen first, then check — addEventListener on an already-aborted signal
     // does not fire, so checking .aborted after ensures we never miss an abort.
@@ -1214,7 +1527,7 @@ export class TaskGraphRunner {
       }
     }
 
-    this.runId = uuid4();
+    this.runId = resume?.record.runId ?? config?.runId ?? uuid4();
     this.resetGraph(this.graph, this.runId); // Reset graph and regenerate sub-graphs, changes task count / entitlements
     this.processScheduler.reset();
     this.inProgressTasks.clear();
@@ -1254,12 +1567,15 @@ export class TaskGraphRunner {
       } else {
         this.activeEnforcer = undefined;
       }
+
+      await this.setupCheckpoint(input, config, resume);
     } catch (err) {
       // Reset running state so the runner is reusable after validation failures
       if (this.graphTimeoutTimer !== undefined) {
         clearTimeout(this.graphTimeoutTimer);
         this.graphTimeoutTimer = undefined;
       }
+      this.clearBudgetTimer();
       this.abortController = undefined;
       this.activeEnforcer = undefined;
       this.running = false;
@@ -1327,10 +1643,60 @@ export class TaskGraphRunner {
       clearTimeout(this.graphTimeoutTimer);
       this.graphTimeoutTimer = undefined;
     }
+    this.clearBudgetTimer();
+  }
+
+  /**
+   * Adopts the budget tracker handed down by a parent runner, or starts one for
+   * a plain budget. The runner that starts the tracker owns it: it announces
+   * exceeded limits and, in "abort" mode, aborts the run (also once
+   * `maxDurationMs` elapses, even if no further call is made).
+   */
+  protected setupBudget(budget: TaskBudget | TaskBudgetTracker | undefined): void {
+    this.pendingBudgetError = undefined;
+    if (budget === undefined || budget instanceof TaskBudgetTracker) {
+      this.budget = budget;
+      return;
+    }
+    const tracker = new TaskBudgetTracker(budget);
+    tracker.onExceeded = (error) => {
+      this.graph.emit("budget_exceeded", error);
+      if (tracker.limits.onExceeded !== "pause" && !this.pendingBudgetError) {
+        this.pendingBudgetError = error;
+        this.abortController?.abort();
+      }
+    };
+    this.budget = tracker;
+    if (budget.maxDurationMs !== undefined && budget.onExceeded !== "pause") {
+      this.budgetTimer = setTimeout(() => {
+        this.budgetTimer = undefined;
+        const limit = tracker.check();
+        if (limit === "maxDurationMs") {
+          tracker.onExceeded?.(
+            new TaskBudgetExceededError(
+              limit,
+              tracker.spent,
+              `Budget exceeded: maxDurationMs (${budget.maxDurationMs})`
+            )
+          );
+        }
+      }, budget.maxDurationMs);
+    }
+  }
+
+  /**
+   * Clears the budget's `maxDurationMs` timer if active.
+   */
+  protected clearBudgetTimer(): void {
+    if (this.budgetTimer !== undefined) {
+      clearTimeout(this.budgetTimer);
+      this.budgetTimer = undefined;
+    }
   }
 
   protected async handleComplete(): Promise<void> {
     this.clearGraphTimeout();
+    await this.finishCheckpoint("COMPLETED");
     this.running = false;
     this.activeEnforcer = undefined;
 
@@ -1359,6 +1725,7 @@ export class TaskGraphRunner {
         }
       })
     );
+    await this.finishCheckpoint("FAILED", error.message);
     this.running = false;
     this.activeEnforcer = undefined;
 
@@ -1388,6 +1755,7 @@ export class TaskGraphRunner {
         }
       })
     );
+    await this.finishCheckpoint("ABORTED");
     this.running = false;
     this.activeEnforcer = undefined;
 
@@ -1420,6 +1788,17 @@ export class TaskGraphRunner {
     this.graph.emit("disabled");
   }
 
+  /**
+   * Collects a usage record reported by a task of this graph (or forwarded
+   * from one of its subgraphs) and re-emits it as `task_usage`
+   * @param task The task that reported the usage
+   * @param usage The usage record
+   */
+  protected handleUsage(task: ITask, usage: TaskUsage): void {
+    this.usage.push(usage);
+    this.graph.emit("task_usage", task.id, usage);
+  }
+
   /**
    * Handles progress updates for the task graph by averaging `progress` across tasks whose class
    * declares its own `execute` ({@link taskPrototypeHasOwnExecute}). Other nodes are ignored.
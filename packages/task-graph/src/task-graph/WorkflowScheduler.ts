@@ -0,0 +1,139 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  AddScheduleOptions,
+  IJobExecuteContext,
+  Job,
+  JobQueueServer,
+  JobScheduleRecord,
+  JobScheduler,
+  JobScheduleRepository,
+  PermanentJobError,
+} from "@workglow/job-queue";
+import { InMemoryQueueStorage, IQueueStorage } from "@workglow/storage";
+import { globalServiceRegistry } from "@workglow/util";
+import { TASK_GRAPH_REPOSITORY, TaskGraphRepository } from "../storage/TaskGraphRepository";
+import type { TaskInput, TaskOutput } from "../task/TaskTypes";
+import type { GraphResultArray } from "./TaskGraphRunner";
+
+/**
+ * Input of a scheduled workflow run: the key of a saved graph and its input
+ */
+export type WorkflowRunJobInput = {
+  readonly graphKey: string;
+  readonly input?: TaskInput;
+};
+
+export type WorkflowRunJobOutput = {
+  readonly results: GraphResultArray<TaskOutput>;
+};
+
+/**
+ * Job that loads a saved graph from a {@link TaskGraphRepository} and runs it.
+ */
+export class WorkflowRunJob extends Job<WorkflowRunJobInput, WorkflowRunJobOutput> {
+  /**
+   * Repository the saved graphs are loaded from. Defaults to the globally
+   * registered TASK_GRAPH_REPOSITORY.
+   */
+  protected getGraphRepository(): TaskGraphRepository {
+    if (!globalServiceRegistry.has(TASK_GRAPH_REPOSITORY)) {
+      throw new PermanentJobError("No TaskGraphRepository registered for scheduled workflows");
+    }
+    return globalServiceRegistry.get(TASK_GRAPH_REPOSITORY);
+  }
+
+  override async execute(
+    input: WorkflowRunJobInput,
+    context: IJobExecuteContext
+  ): Promise<WorkflowRunJobOutput> {
+    const graph = await this.getGraphRepository().getTaskGraph(input.graphKey);
+    if (!graph) {
+      throw new PermanentJobError(`Workflow "${input.graphKey}" not found`);
+    }
+    const results = await graph.run(input.input ?? {}, { parentSignal: context.signal });
+    return { results };
+  }
+}
+
+/**
+ * Options for creating a WorkflowScheduler
+ */
+export interface WorkflowSchedulerOptions {
+  /** Repository the scheduled graphs are loaded from */
+  readonly graphRepository: TaskGraphRepository;
+  readonly scheduleRepository: JobScheduleRepository<WorkflowRunJobInput>;
+  /** Queue storage for the scheduled runs (default in-memory) */
+  readonly storage?: IQueueStorage<WorkflowRunJobInput, WorkflowRunJobOutput>;
+  /** Queue name (default "workflow_schedule") */
+  readonly queueName?: string;
+  /** Number of scheduled runs that can execute at the same time (default 1) */
+  readonly workerCount?: number;
+}
+
+/**
+ * Options for scheduling a saved graph
+ */
+export type AddWorkflowScheduleOptions = Omit<AddScheduleOptions<WorkflowRunJobInput>, "input"> & {
+  readonly input?: TaskInput;
+};
+
+/**
+ * Runs graphs saved in a {@link TaskGraphRepository} on cron or interval
+ * schedules. Owns the job queue the runs execute in, so {@link start} and
+ * {@link stop} also start and stop its workers.
+ */
+export class WorkflowScheduler extends JobScheduler<WorkflowRunJobInput, WorkflowRunJobOutput> {
+  constructor(options: WorkflowSchedulerOptions) {
+    const queueName = options.queueName ?? "workflow_schedule";
+    const graphRepository = options.graphRepository;
+    const server = new JobQueueServer<WorkflowRunJobInput, WorkflowRunJobOutput>(
+      class extends WorkflowRunJob {
+        protected override getGraphRepository(): TaskGraphRepository {
+          return graphRepository;
+        }
+      },
+      {
+        storage: options.storage ?? new InMemoryQueueStorage(queueName),
+        queueName,
+        workerCount: options.workerCount,
+      }
+    );
+    super({ server, repository: options.scheduleRepository });
+  }
+
+  /**
+   * Start the queue workers and begin enqueuing scheduled runs
+   */
+  public override async start(): Promise<this> {
+    await this.storage.setupDatabase();
+    await this.server.start();
+    return await super.start();
+  }
+
+  /**
+   * Stop enqueuing scheduled runs and stop the queue workers
+   */
+  public override async stop(): Promise<this> {
+    await super.stop();
+    await this.server.stop();
+    return this;
+  }
+
+  /**
+   * Schedules runs of a saved graph
+   * @param graphKey The key of the graph in the graph repository
+   * @param options The schedule timing, policies and graph input
+   */
+  public async scheduleWorkflow(
+    graphKey: string,
+    options: AddWorkflowScheduleOptions
+  ): Promise<JobScheduleRecord<WorkflowRunJobInput>> {
+    const { input, ...rest } = options;
+    return await this.addSchedule({ ...rest, input: { graphKey, input } });
+  }
+}
@@ -72,12 +72,14 @@ export class FallbackTaskRunner<
         `Trying alternative ${attemptNumber}/${totalAttempts}: ${alternativeTask.type}`
       );
 
+      // Failed attempts still count: their model calls were made and billed
+      const unsubscribeUsage = alternativeTask.subscribe("usage", this.handleUsage);
       try {
         // Reset the task to PENDING so it can be run
         this.resetTask(alternativeTask);
 
         // Run the individual task with the parent's input
-        const result = await alternativeTask.run(input);
+        const result = await alternativeTask.run(input, { budget: this.budget });
 
         await this.handleProgress(
           100,
@@ -92,6 +94,8 @@ export class FallbackTaskRunner<
         }
         errors.push({ task: alternativeTask, error: error as Error });
         // Continue to next alternative
+      } finally {
+        unsubscribeUsage();
       }
     }
 
@@ -138,6 +142,9 @@ export class FallbackTaskRunner<
       "graph_progress",
       onSubgraphProgress
     );
+    const unsubscribeSubgraphUsage = this.task.subGraph.subscribe("task_usage", (_taskId, usage) =>
+      this.handleUsage(usage)
+    );
 
     try {
       for (let i = 0; i < alternatives.length; i++) {
@@ -166,6 +173,8 @@ export class FallbackTaskRunner<
             parentSignal: this.abortController?.signal,
             outputCache: this.outputCache,
             registry: this.registry,
+            priority: this.priority,
+            budget: this.budget,
           });
 
           const mergedOutput = this.task.subGraph.mergeExecuteOutputsToRunOutput(
@@ -190,6 +199,7 @@ export class FallbackTaskRunner<
       }
     } finally {
       unsubscribeSubgraphProgress();
+      unsubscribeSubgraphUsage();
     }
 
     // All alternatives failed
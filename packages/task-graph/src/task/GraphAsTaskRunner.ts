@@ -33,14 +33,23 @@ export class GraphAsTaskRunner<
         void this.handleProgress(progress, message, ...args);
       }
     );
+    // Usage reported inside the subgraph is counted against this task too, so
+    // it keeps bubbling up to the outermost TaskGraphRunner.
+    const unsubscribeUsage = this.task.subGraph!.subscribe("task_usage", (_taskId, usage) => {
+      this.handleUsage(usage);
+    });
     const results = await this.task.subGraph!.run<Output>(input, {
       parentSignal: this.abortController?.signal,
       outputCache: this.outputCache,
       registry: this.registry,
       resourceScope: this.resourceScope,
       runWithPreviews: this.runWithPreviews,
+      checkpoint: this.checkpoint?.subGraph(),
+      priority: this.priority,
+      budget: this.budget,
     });
     unsubscribe();
+    unsubscribeUsage();
     return results;
   }
   /**
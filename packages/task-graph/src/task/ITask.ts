@@ -7,12 +7,15 @@
 import type { EventEmitter, ResourceScope, ServiceRegistry } from "@workglow/util";
 import type { DataPortSchema } from "@workglow/util/schema";
 import { TaskOutputRepository } from "../storage/TaskOutputRepository";
+import type { TaskCheckpoint } from "../task-graph/TaskGraphCheckpoint";
 import { ITaskGraph } from "../task-graph/ITaskGraph";
 import { IWorkflow } from "../task-graph/IWorkflow";
 import type { TaskGraph } from "../task-graph/TaskGraph";
 import { CompoundMergeStrategy } from "../task-graph/TaskGraphRunner";
 import type { StreamEvent } from "./StreamTypes";
+import type { TaskBudget, TaskBudgetTracker } from "./TaskBudget";
 import type { TaskEntitlements } from "./TaskEntitlements";
+import type { TaskUsage } from "./TaskUsage";
 import { TaskError } from "./TaskError";
 import type {
   TaskEventListener,
@@ -41,6 +44,27 @@ export interface IExecuteContext {
   inputStreams?: Map<string, ReadableStream<StreamEvent>>;
   /** Resource scope for registering heavyweight resource disposers. */
   resourceScope?: ResourceScope;
+  /**
+   * Checkpoint scope for this task when the graph run is checkpointed. Loop
+   * tasks use it to record per-iteration progress so a resumed run can skip
+   * iterations that already completed.
+   */
+  checkpoint?: TaskCheckpoint;
+  /**
+   * Job queue priority for work this task submits to a queue (see
+   * `IRunConfig.priority`). Higher values are claimed first.
+   */
+  priority?: number;
+  /**
+   * Records resource usage (e.g. tokens of an AI provider call) on the task.
+   * Usage bubbles up through subgraphs to the graph runner.
+   */
+  reportUsage?: (usage: TaskUsage) => void;
+  /**
+   * Budget of the run, when one is set. Tasks that make model calls reserve
+   * each call with it before making it (see {@link TaskBudgetTracker.reserve}).
+   */
+  budget?: TaskBudgetTracker;
 }
 
 export type IExecutePreviewContext = Pick<IExecuteContext, "own">;
@@ -91,6 +115,12 @@ export interface IRunConfig {
     ...args: any[]
   ) => Promise<void>;
 
+  /**
+   * Called for every usage record the task reports (see {@link IExecuteContext.reportUsage}).
+   * The graph runner sets this to collect usage across the graph.
+   */
+  reportUsage?: (task: ITask, usage: TaskUsage) => void;
+
   registry?: ServiceRegistry;
 
   /**
@@ -120,6 +150,28 @@ export interface IRunConfig {
    * mode. See TaskGraphRunConfig for semantics.
    */
   runWithPreviews?: boolean;
+
+  /**
+   * Checkpoint scope for this task, set by the graph runner for compound tasks
+   * when the graph run is checkpointed (see `TaskGraphRunConfig.runRepository`).
+   * Forwarded to subgraph runs and to `IExecuteContext.checkpoint`.
+   */
+  checkpoint?: TaskCheckpoint;
+
+  /**
+   * Job queue priority for tasks that submit work to a job queue (e.g. AiTask
+   * with a queued execution strategy). Higher values are claimed first so
+   * interactive work is not stuck behind batch jobs. Defaults to 0.
+   * Forwarded to subgraph runs and to `IExecuteContext.priority`.
+   */
+  priority?: number;
+
+  /**
+   * Limits on the model calls of this run (see `TaskGraphRunConfig.budget`).
+   * A tracker is shared as is; a plain budget starts a new tracker. Forwarded
+   * to subgraph runs, owned tasks and `IExecuteContext.budget`.
+   */
+  budget?: TaskBudget | TaskBudgetTracker;
 }
 
 /**
@@ -195,6 +247,8 @@ export interface ITaskIO<Input extends TaskInput> {
   runInputData: Record<string, any>;
   runOutputData: Record<string, any>;
   runConfig: Partial<IRunConfig>;
+  /** Usage reported during the current (or most recent) run */
+  usage: TaskUsage[];
 
   inputSchema(): DataPortSchema; // gets local access for static inputSchema property
   outputSchema(): DataPortSchema; // gets local access for static outputSchema property
@@ -249,6 +249,19 @@ export class IteratorTaskRunner<
       return undefined;
     }
 
+    // Iterations that completed in a previous attempt of a checkpointed run
+    // are not executed again.
+    const checkpointed = this.checkpoint?.getIteration(index);
+    if (checkpointed !== undefined) {
+      this.task.emit("iteration_start", index, iterationCount);
+      if (this.aggregatingParentMapProgress && this.mapPartialIterationCount > 0) {
+        this.mapPartialProgress[index] = 100;
+        this.emitMapParentProgressFromPartials();
+      }
+      this.task.emit("iteration_complete", index, iterationCount);
+      return checkpointed;
+    }
+
     const graphClone = this.cloneGraph(this.task.subGraph);
 
     this.task.emit("iteration_start", index, iterationCount);
@@ -271,6 +284,9 @@ export class IteratorTaskRunner<
       }
     };
     const unsubscribeGraphProgress = graphClone.subscribe("graph_progress", onGraphProgress);
+    const unsubscribeGraphUsage = graphClone.subscribe("task_usage", (_taskId, usage) => {
+      this.handleUsage(usage);
+    });
 
     try {
       const results = await graphClone.run<TaskOutput>(input as TaskInput, {
@@ -278,18 +294,23 @@ export class IteratorTaskRunner<
         outputCache: this.outputCache,
         registry: this.registry,
         resourceScope: this.resourceScope,
+        priority: this.priority,
+        budget: this.budget,
       });
 
       if (results.length === 0) {
         return undefined;
       }
 
-      return graphClone.mergeExecuteOutputsToRunOutput(
+      const output = graphClone.mergeExecuteOutputsToRunOutput(
         results,
         this.task.compoundMerge
       ) as TaskOutput;
+      await this.checkpoint?.recordIteration(index, output);
+      return output;
     } finally {
       unsubscribeGraphProgress();
+      unsubscribeGraphUsage();
       if (this.aggregatingParentMapProgress && this.mapPartialIterationCount > 0) {
         this.mapPartialProgress[index] = 100;
         this.emitMapParentProgressFromPartials();
@@ -29,6 +29,7 @@ import type { JsonTaskItem, TaskGraphItemJson, TaskGraphJsonOptions } from "./Ta
 import { TaskRunner } from "./TaskRunner";
 import type { TaskConfig, TaskIdType, TaskInput, TaskOutput, TaskTypeName } from "./TaskTypes";
 import { TaskConfigSchema, TaskStatus } from "./TaskTypes";
+import type { TaskUsage } from "./TaskUsage";
 
 /**
  * Base class for all tasks that implements the ITask interface.
@@ -375,6 +376,12 @@ export class Task<
    */
   progress: number = 0;
 
+  /**
+   * Usage reported during the current (or most recent) run, including usage
+   * of subgraph tasks
+   */
+  usage: TaskUsage[] = [];
+
   /**
    * When the task was created
    */
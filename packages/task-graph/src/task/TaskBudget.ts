@@ -0,0 +1,219 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TaskAbortedError } from "./TaskError";
+import type { TaskUsage } from "./TaskUsage";
+
+/**
+ * Limits on the model calls a run may make. Set on `TaskGraphRunConfig.budget`
+ * (or `IRunConfig.budget` for a single task); nested subgraphs, loop iterations
+ * and owned tasks share the budget of the run they belong to.
+ */
+export interface TaskBudget {
+  /** Maximum number of model calls */
+  readonly maxCalls?: number;
+  /** Maximum input plus output tokens, counting the estimated input of the next call */
+  readonly maxTokens?: number;
+  /** Maximum cost, in the currency of the models' price tables */
+  readonly maxCost?: number;
+  /** Maximum wall-clock time of the run */
+  readonly maxDurationMs?: number;
+  /**
+   * What happens when a call would exceed the budget:
+   *  - "abort" (default) → the run is aborted with a {@link TaskBudgetExceededError}
+   *  - "pause" → the call waits until the budget is raised with
+   *    `TaskGraphRunner.extendBudget()`, or the run is aborted
+   */
+  readonly onExceeded?: "abort" | "pause";
+}
+
+/** The budget limit that was hit */
+export type TaskBudgetLimit = "maxCalls" | "maxTokens" | "maxCost" | "maxDurationMs";
+
+/** Estimated size of a call that is about to be made */
+export interface TaskUsageEstimate {
+  /** Estimated prompt tokens (e.g. from the model's tokenizer) */
+  readonly inputTokens?: number;
+}
+
+/** What a budget has been charged so far */
+export interface TaskBudgetSpent {
+  readonly calls: number;
+  readonly tokens: number;
+  readonly cost: number;
+  readonly durationMs: number;
+}
+
+/**
+ * Thrown when a model call would exceed the run's {@link TaskBudget}
+ */
+export class TaskBudgetExceededError extends TaskAbortedError {
+  static override readonly type: string = "TaskBudgetExceededError";
+  constructor(
+    public readonly limit: TaskBudgetLimit,
+    public readonly spent: TaskBudgetSpent,
+    message: string = `Budget exceeded: ${limit}`
+  ) {
+    super(message);
+  }
+}
+
+/** A call admitted by {@link TaskBudgetTracker.reserve} */
+export interface TaskBudgetReservation {
+  /** Charges the call's actual usage and releases its estimate */
+  settle(usage?: TaskUsage): void;
+}
+
+/**
+ * Tracks what a run has spent against its {@link TaskBudget}. Tasks that make
+ * model calls reserve each call through `IExecuteContext.budget` before making
+ * it and settle it with the call's usage afterwards.
+ */
+export class TaskBudgetTracker {
+  protected budget: TaskBudget;
+  protected readonly startedAt = Date.now();
+  protected calls = 0;
+  protected tokens = 0;
+  protected cost = 0;
+  /** Estimated input tokens of calls that were admitted but not settled yet */
+  protected pendingTokens = 0;
+  /** Resolvers of calls waiting in "pause" mode for the budget to be raised */
+  protected waiters = new Set<() => void>();
+
+  /**
+   * Called when a call would exceed the budget (once per call in "abort" mode,
+   * once per pause in "pause" mode). The runner that owns the budget uses it to
+   * abort the run or announce the pause.
+   */
+  public onExceeded?: (error: TaskBudgetExceededError) => void;
+
+  constructor(budget: TaskBudget) {
+    this.budget = budget;
+  }
+
+  /** The current limits */
+  public get limits(): TaskBudget {
+    return this.budget;
+  }
+
+  /** True when the budget limits tokens, so callers should estimate the input of each call */
+  public get limitsTokens(): boolean {
+    return this.budget.maxTokens !== undefined;
+  }
+
+  /** What has been charged so far */
+  public get spent(): TaskBudgetSpent {
+    return {
+      calls: this.calls,
+      tokens: this.tokens,
+      cost: this.cost,
+      durationMs: Date.now() - this.startedAt,
+    };
+  }
+
+  /**
+   * Returns the limit the next call would exceed, if any
+   * @param estimate - Estimated size of the call
+   */
+  public check(estimate?: TaskUsageEstimate): TaskBudgetLimit | undefined {
+    const { maxCalls, maxTokens, maxCost, maxDurationMs } = this.budget;
+    if (maxDurationMs !== undefined && Date.now() - this.startedAt >= maxDurationMs) {
+      return "maxDurationMs";
+    }
+    if (maxCalls !== undefined && this.calls + 1 > maxCalls) return "maxCalls";
+    if (
+      maxTokens !== undefined &&
+      this.tokens + this.pendingTokens + (estimate?.inputTokens ?? 0) > maxTokens
+    ) {
+      return "maxTokens";
+    }
+    if (maxCost !== undefined && this.cost >= maxCost) return "maxCost";
+    return undefined;
+  }
+
+  /**
+   * Admits one model call. In "abort" mode throws a {@link TaskBudgetExceededError}
+   * when the call would exceed the budget; in "pause" mode waits until the budget
+   * is raised enough, or the signal aborts.
+   * @param estimate - Estimated size of the call
+   * @param signal - Abort signal of the calling task
+   */
+  public async reserve(
+    estimate?: TaskUsageEstimate,
+    signal?: AbortSignal
+  ): Promise<TaskBudgetReservation> {
+    let announced = false;
+    for (let limit = this.check(estimate); limit; limit = this.check(estimate)) {
+      const error = this.exceeded(limit);
+      if (this.budget.onExceeded !== "pause") {
+        this.onExceeded?.(error);
+        throw error;
+      }
+      if (!announced) {
+        announced = true;
+        this.onExceeded?.(error);
+      }
+      await this.waitForExtension(signal, error);
+    }
+
+    const pending = estimate?.inputTokens ?? 0;
+    this.calls++;
+    this.pendingTokens += pending;
+    let settled = false;
+    return {
+      settle: (usage?: TaskUsage) => {
+        if (settled) return;
+        settled = true;
+        this.pendingTokens -= pending;
+        if (usage) {
+          this.tokens += usage.inputTokens + usage.outputTokens;
+          this.cost += usage.cost ?? 0;
+        }
+      },
+    };
+  }
+
+  /**
+   * Raises (or otherwise changes) the limits and wakes calls paused on the budget
+   * @param budget - Limits to merge into the current budget
+   */
+  public extend(budget: Partial<TaskBudget>): void {
+    this.budget = { ...this.budget, ...budget };
+    const waiters = [...this.waiters];
+    this.waiters.clear();
+    for (const wake of waiters) wake();
+  }
+
+  protected exceeded(limit: TaskBudgetLimit): TaskBudgetExceededError {
+    return new TaskBudgetExceededError(
+      limit,
+      this.spent,
+      `Budget exceeded: ${limit} (${this.budget[limit]})`
+    );
+  }
+
+  protected waitForExtension(
+    signal: AbortSignal | undefined,
+    error: TaskBudgetExceededError
+  ): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(error);
+        return;
+      }
+      const onAbort = () => {
+        this.waiters.delete(wake);
+        reject(error);
+      };
+      const wake = () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      };
+      this.waiters.add(wake);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+}
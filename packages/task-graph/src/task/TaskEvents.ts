@@ -10,6 +10,7 @@ import type { StreamEvent } from "./StreamTypes";
 import { TaskAbortedError, TaskError } from "./TaskError";
 import type { TaskEntitlements } from "./TaskEntitlements";
 import { TaskStatus } from "./TaskTypes";
+import type { TaskUsage } from "./TaskUsage";
 
 // ========================================================================
 // Event Handling Types
@@ -34,6 +35,9 @@ export type TaskEventListeners = {
   /** Fired when a task is disabled */
   disabled: () => void;
 
+  /** Fired when a task reports resource usage (e.g. tokens of a model call) */
+  usage: (usage: TaskUsage) => void;
+
   /** Fired when a task reports progress */
   progress: (progress: number, message?: string, ...args: any[]) => void;
 
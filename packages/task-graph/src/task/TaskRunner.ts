@@ -14,6 +14,7 @@ import {
   SpanStatusCode,
 } from "@workglow/util";
 import { TASK_OUTPUT_REPOSITORY, TaskOutputRepository } from "../storage/TaskOutputRepository";
+import type { TaskCheckpoint } from "../task-graph/TaskGraphCheckpoint";
 import { getPortCodec } from "@workglow/util";
 import type { Taskish } from "../task-graph/Conversions";
 import { ensureTask } from "../task-graph/Conversions";
@@ -32,6 +33,8 @@ import {
   TaskTimeoutError,
 } from "./TaskError";
 import { TaskConfig, TaskInput, TaskOutput, TaskStatus } from "./TaskTypes";
+import { TaskBudgetTracker } from "./TaskBudget";
+import type { TaskUsage } from "./TaskUsage";
 
 interface SchemaProperties {
   properties?: Record<string, { format?: string }>;
@@ -39,7 +42,7 @@ interface SchemaProperties {
 
 async function serializeOutputPorts(
   output: Record<string, unknown>,
-  schema: SchemaProperties,
+  schema: SchemaProperties
 ): Promise<Record<string, unknown>> {
   if (!schema?.properties) return output;
   const out: Record<string, unknown> = { ...output };
@@ -54,7 +57,7 @@ async function serializeOutputPorts(
 
 async function deserializeOutputPorts(
   output: Record<string, unknown>,
-  schema: SchemaProperties,
+  schema: SchemaProperties
 ): Promise<Record<string, unknown>> {
   if (!schema?.properties) return output;
   const out: Record<string, unknown> = { ...output };
@@ -69,7 +72,7 @@ async function deserializeOutputPorts(
 
 async function normalizeInputsForCacheKey(
   inputs: Record<string, unknown>,
-  schema: SchemaProperties,
+  schema: SchemaProperties
 ): Promise<Record<string, unknown>> {
   if (!schema?.properties) return inputs;
   const out: Record<string, unknown> = { ...inputs };
@@ -165,6 +168,24 @@ export class TaskRunner<
    */
   protected runWithPreviews: boolean = false;
 
+  /**
+   * Checkpoint scope for this task run, read by handleStart from IRunConfig.
+   * Compound task runners forward it to their subgraph runs.
+   */
+  protected checkpoint?: TaskCheckpoint;
+
+  /**
+   * Job queue priority for this task run, read by handleStart from IRunConfig
+   * (falling back to the task's own runConfig).
+   */
+  protected priority?: number;
+
+  /**
+   * Budget tracker for this task run, read by handleStart from IRunConfig.
+   * Forwarded to subgraph runs, owned tasks and the execute context.
+   */
+  protected budget?: TaskBudgetTracker;
+
   /**
    * Active telemetry span for the current task run.
    */
@@ -178,6 +199,7 @@ export class TaskRunner<
     this.task = task;
     this.own = this.own.bind(this);
     this.handleProgress = this.handleProgress.bind(this);
+    this.handleUsage = this.handleUsage.bind(this);
   }
 
   // ========================================================================
@@ -262,7 +284,7 @@ export class TaskRunner<
       const inputsForKey = this.outputCache
         ? await normalizeInputsForCacheKey(
             inputs as Record<string, unknown>,
-            inputSchema as unknown as SchemaProperties,
+            inputSchema as unknown as SchemaProperties
           )
         : inputs;
 
@@ -271,7 +293,7 @@ export class TaskRunner<
         if (cached !== undefined) {
           outputs = (await deserializeOutputPorts(
             cached as Record<string, unknown>,
-            outputSchema as unknown as SchemaProperties,
+            outputSchema as unknown as SchemaProperties
           )) as Output;
           this.telemetrySpan?.addEvent("workglow.task.cache_hit");
           if (isStreamable) {
@@ -293,7 +315,7 @@ export class TaskRunner<
         if (this.task.cacheable && outputs !== undefined) {
           const wireOutputs = await serializeOutputPorts(
             outputs as Record<string, unknown>,
-            outputSchema as unknown as SchemaProperties,
+            outputSchema as unknown as SchemaProperties
           );
           await this.outputCache?.saveOutput(this.task.type, inputsForKey, wireOutputs as Output);
         }
@@ -382,13 +404,16 @@ export class TaskRunner<
   protected own<T extends Taskish<any, any>>(i: T): T {
     const task = ensureTask(i, { isOwned: true });
     this.task.subGraph.addTask(task);
-    // Propagate parent registry and abort signal to owned ITask instances so
-    // that calling task.run() on the returned value inherits this execution context.
+    // Propagate parent registry, abort signal and usage reporting to owned ITask
+    // instances so that calling task.run() on the returned value inherits this
+    // execution context (and its model calls count toward this task's usage).
     if (hasRunConfig(i)) {
       Object.assign(i.runConfig, {
         registry: this.registry,
         signal: this.abortController?.signal,
         resourceScope: this.resourceScope,
+        reportUsage: (_task: ITask, usage: TaskUsage) => this.handleUsage(usage),
+        budget: this.budget,
       });
     }
     // Notify listeners that the entitlement landscape may have changed.
@@ -410,6 +435,10 @@ export class TaskRunner<
       own: this.own,
       registry: this.registry,
       resourceScope: this.resourceScope,
+      checkpoint: this.checkpoint,
+      priority: this.priority,
+      reportUsage: this.handleUsage,
+      budget: this.budget,
     });
     return result;
   }
@@ -471,6 +500,10 @@ export class TaskRunner<
       registry: this.registry,
       resourceScope: this.resourceScope,
       inputStreams: this.inputStreams,
+      checkpoint: this.checkpoint,
+      priority: this.priority,
+      reportUsage: this.handleUsage,
+      budget: this.budget,
     });
 
     for await (const event of stream) {
@@ -596,6 +629,7 @@ export class TaskRunner<
 
     this.task.startedAt = new Date();
     this.task.progress = 0;
+    this.task.usage = [];
     this.task.status = TaskStatus.PROCESSING;
 
     this.abortController = new AbortController();
@@ -616,11 +650,22 @@ export class TaskRunner<
     // shouldAccumulate defaults to true (backward-compatible for standalone runs)
     this.shouldAccumulate = config.shouldAccumulate !== false;
     this.runWithPreviews = config.runWithPreviews === true;
+    this.checkpoint = config.checkpoint;
+    this.priority = config.priority ?? this.task.runConfig?.priority;
+    const budget = config.budget ?? this.task.runConfig?.budget;
+    this.budget =
+      budget === undefined || budget instanceof TaskBudgetTracker
+        ? budget
+        : new TaskBudgetTracker(budget);
 
     if (config.updateProgress) {
       this.updateProgress = config.updateProgress;
     }
 
+    if (config.reportUsage) {
+      this.reportUsage = config.reportUsage;
+    }
+
     if (config.registry) {
       this.registry = config.registry;
     }
@@ -675,6 +720,8 @@ export class TaskRunner<
     ..._args: any[]
   ) => {};
 
+  private reportUsage = (_task: ITask, _usage: TaskUsage) => {};
+
   protected async handleStartPreview(): Promise<void> {
     this.previewRunning = true;
   }
@@ -828,4 +875,14 @@ export class TaskRunner<
     this.task.emit("progress", progress, message, ...args);
     await this.updateProgress(this.task, progress, message, ...args);
   }
+
+  /**
+   * Handles a usage record reported by the task (or forwarded from a subgraph)
+   * @param usage The usage record
+   */
+  protected handleUsage(usage: TaskUsage): void {
+    this.task.usage.push(usage);
+    this.task.emit("usage", usage);
+    this.reportUsage(this.task, usage);
+  }
 }
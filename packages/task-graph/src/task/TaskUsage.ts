@@ -0,0 +1,86 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Resource usage reported by a task for one model call (e.g. one AI provider
+ * request). Tasks report usage through `IExecuteContext.reportUsage`; the
+ * records are kept on `task.usage` and bubble up through subgraphs to the
+ * {@link TaskGraphRunner} running the outermost graph.
+ */
+export interface TaskUsage {
+  /** Provider that served the call (e.g. "OPENAI") */
+  readonly provider: string;
+  /** Model identifier (the model record id when known, else the provider model name) */
+  readonly model: string;
+  /** Type of the task that made the call */
+  readonly taskType?: string;
+  /** Prompt tokens, including cached ones */
+  readonly inputTokens: number;
+  /** Completion tokens */
+  readonly outputTokens: number;
+  /** Prompt tokens served from the provider's prompt cache */
+  readonly cachedInputTokens: number;
+  /** Wall-clock time of the call */
+  readonly latencyMs: number;
+  /** Cost of the call, when the model has a price table */
+  readonly cost?: number;
+  /** Currency of `cost` (e.g. "USD") */
+  readonly currency?: string;
+}
+
+/**
+ * Totals over a set of {@link TaskUsage} records
+ */
+export interface TaskUsageSummary {
+  readonly calls: number;
+  readonly inputTokens: number;
+  readonly outputTokens: number;
+  readonly cachedInputTokens: number;
+  readonly latencyMs: number;
+  /** Sum of the known costs; undefined when no record carries a cost */
+  readonly cost?: number;
+  /** Currency of `cost`; undefined when records use different currencies */
+  readonly currency?: string;
+}
+
+/**
+ * Sums usage records, optionally only those matching a predicate
+ * @param records - Usage records, e.g. `task.usage` or `graph.usage`
+ * @param filter - Optional predicate, e.g. to total a single model
+ */
+export function summarizeTaskUsage(
+  records: readonly TaskUsage[],
+  filter?: (usage: TaskUsage) => boolean
+): TaskUsageSummary {
+  let calls = 0;
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let cachedInputTokens = 0;
+  let latencyMs = 0;
+  let cost: number | undefined;
+  const currencies = new Set<string>();
+  for (const usage of records) {
+    if (filter && !filter(usage)) continue;
+    calls++;
+    inputTokens += usage.inputTokens;
+    outputTokens += usage.outputTokens;
+    cachedInputTokens += usage.cachedInputTokens;
+    latencyMs += usage.latencyMs;
+    if (usage.cost !== undefined) {
+      cost = (cost ?? 0) + usage.cost;
+      if (usage.currency) currencies.add(usage.currency);
+    }
+  }
+  return {
+    calls,
+    inputTokens,
+    outputTokens,
+    cachedInputTokens,
+    latencyMs,
+    cost,
+    currency: currencies.size === 1 ? [...currencies][0] : undefined,
+  };
+}
@@ -43,6 +43,16 @@ export const WHILE_CONTEXT_SCHEMA: DataPortSchema = {
  */
 export type WhileConditionFn<Output> = (output: Output, iteration: number) => boolean;
 
+/**
+ * Loop state recorded after each completed iteration of a checkpointed run.
+ */
+export type WhileTaskCheckpointState<Input, Output> = {
+  /** Index of the next iteration to run */
+  iteration: number;
+  input: Input;
+  output: Output;
+};
+
 export const whileTaskConfigSchema = {
   type: "object",
   properties: {
@@ -392,6 +402,14 @@ export class WhileTask<
     let currentInput: Input = { ...input };
     let currentOutput: Output = {} as Output;
 
+    // Resume from the last completed iteration of a checkpointed run
+    const resumed = context.checkpoint?.getState<WhileTaskCheckpointState<Input, Output>>();
+    if (resumed) {
+      this._currentIteration = resumed.iteration;
+      currentInput = resumed.input;
+      currentOutput = resumed.output;
+    }
+
     // Determine effective max iterations (respect array length if decomposing)
     const effectiveMax = arrayAnalysis
       ? Math.min(this.maxIterations, arrayAnalysis.iterationCount)
@@ -419,6 +437,9 @@ export class WhileTask<
       "graph_progress",
       onInnerGraphProgress
     );
+    const unsubscribeInnerUsage = this.subGraph.subscribe("task_usage", (_taskId, usage) => {
+      context.reportUsage?.(usage);
+    });
 
     try {
       // Execute iterations until condition returns false or max iterations reached
@@ -445,6 +466,8 @@ export class WhileTask<
         // Run the subgraph (it resets itself on each run)
         const results = await this.subGraph.run<Output>(iterationInput, {
           parentSignal: context.signal,
+          priority: context.priority,
+          budget: context.budget,
         });
 
         // Merge results
@@ -487,6 +510,11 @@ export class WhileTask<
         }
 
         this._currentIteration++;
+        await context.checkpoint?.recordState({
+          iteration: this._currentIteration,
+          input: currentInput,
+          output: currentOutput,
+        });
 
         // Boundary emit — coarse signal that iteration N/effectiveMax completed. Capped
         // at 99 since the loop may exit early; the task runner will emit 100 on completion.
@@ -498,6 +526,7 @@ export class WhileTask<
       }
     } finally {
       unsubscribeInnerProgress();
+      unsubscribeInnerUsage();
     }
 
     return currentOutput;
@@ -527,6 +556,14 @@ export class WhileTask<
     let currentInput: Input = { ...input };
     let currentOutput: Output = {} as Output;
 
+    // Resume from the last completed iteration of a checkpointed run
+    const resumed = context.checkpoint?.getState<WhileTaskCheckpointState<Input, Output>>();
+    if (resumed) {
+      this._currentIteration = resumed.iteration;
+      currentInput = resumed.input;
+      currentOutput = resumed.output;
+    }
+
     const effectiveMax = arrayAnalysis
       ? Math.min(this.maxIterations, arrayAnalysis.iterationCount)
       : this.maxIterations;
@@ -546,6 +583,9 @@ export class WhileTask<
       "graph_progress",
       onInnerGraphProgress
     );
+    const unsubscribeInnerUsage = this.subGraph.subscribe("task_usage", (_taskId, usage) => {
+      context.reportUsage?.(usage);
+    });
 
     try {
       while (this._currentIteration < effectiveMax) {
@@ -568,6 +608,8 @@ export class WhileTask<
         // run non-streaming first, then decide after the condition check.
         const results = await this.subGraph.run<Output>(iterationInput, {
           parentSignal: context.signal,
+          priority: context.priority,
+          budget: context.budget,
         });
 
         currentOutput = this.subGraph.mergeExecuteOutputsToRunOutput(
@@ -594,6 +636,11 @@ export class WhileTask<
         }
 
         this._currentIteration++;
+        await context.checkpoint?.recordState({
+          iteration: this._currentIteration,
+          input: currentInput,
+          output: currentOutput,
+        });
 
         const progress = Math.min(Math.round((this._currentIteration / effectiveMax) * 100), 99);
         await context.updateProgress(
@@ -603,6 +650,7 @@ export class WhileTask<
       }
     } finally {
       unsubscribeInnerProgress();
+      unsubscribeInnerUsage();
     }
 
     yield { type: "finish", data: currentOutput } as StreamFinish<Output>;
@@ -33,6 +33,10 @@ export class WhileTaskRunner<
       updateProgress: this.handleProgress.bind(this),
       own: this.own,
       registry: this.registry,
+      checkpoint: this.checkpoint,
+      priority: this.priority,
+      reportUsage: this.handleUsage,
+      budget: this.budget,
     });
 
     return result;
@@ -32,6 +32,8 @@ export * from "./TaskJSON";
 export * from "./TaskQueueRegistry";
 export * from "./TaskRegistry";
 export * from "./TaskTypes";
+export * from "./TaskBudget";
+export * from "./TaskUsage";
 export * from "./WhileTask";
 export * from "./WhileTaskRunner";
 
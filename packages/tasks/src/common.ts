@@ -14,6 +14,15 @@ export * from "./mcp-server/McpServerRepository";
 export * from "./mcp-server/McpServerSchema";
 export * from "./task/adaptive";
 export * from "./task/ArrayTask";
+export * from "./task/audio/AudioConcatTask";
+export * from "./task/audio/AudioDecodeTask";
+export * from "./task/audio/AudioEncodeTask";
+export * from "./task/audio/AudioMixdownTask";
+export * from "./task/audio/AudioNormalizeTask";
+export * from "./task/audio/AudioResampleTask";
+export * from "./task/audio/AudioSilenceSplitTask";
+export * from "./task/audio/AudioTrimTask";
+export * from "./task/audio/AudioTransformTask";
 export * from "./task/browser-control";
 export * from "./task/DateFormatTask";
 export * from "./task/DebugLogTask";
@@ -101,6 +110,14 @@ export * from "./util/SafeFetch";
 export * from "./util/UrlClassifier";
 
 import { TaskRegistry } from "@workglow/task-graph";
+import { AudioConcatTask } from "./task/audio/AudioConcatTask";
+import { AudioDecodeTask } from "./task/audio/AudioDecodeTask";
+import { AudioEncodeTask } from "./task/audio/AudioEncodeTask";
+import { AudioMixdownTask } from "./task/audio/AudioMixdownTask";
+import { AudioNormalizeTask } from "./task/audio/AudioNormalizeTask";
+import { AudioResampleTask } from "./task/audio/AudioResampleTask";
+import { AudioSilenceSplitTask } from "./task/audio/AudioSilenceSplitTask";
+import { AudioTrimTask } from "./task/audio/AudioTrimTask";
 import { registerBrowserTasks } from "./task/browser-control/register";
 import { DateFormatTask } from "./task/DateFormatTask";
 import { DebugLogTask } from "./task/DebugLogTask";
@@ -244,6 +261,14 @@ export let registerCommonTasks = () => {
     ImagePosterizeTask,
     ImageTintTask,
     ImageTextTask,
+    AudioDecodeTask,
+    AudioEncodeTask,
+    AudioResampleTask,
+    AudioMixdownTask,
+    AudioTrimTask,
+    AudioNormalizeTask,
+    AudioSilenceSplitTask,
+    AudioConcatTask,
   ];
   tasks.map(TaskRegistry.registerTask);
   registerBrowserTasks();
@@ -0,0 +1,114 @@
+/**
+ * @license
+ * Copyright 2026 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  CreateWorkflow,
+  type IExecuteContext,
+  Task,
+  type TaskConfig,
+  Workflow,
+} from "@workglow/task-graph";
+import { type AudioBinary, AudioSchema, resampleAudio } from "@workglow/util/media";
+import { mixAudioChannels } from "./AudioMixdownTask";
+import { hydrateAudio } from "./AudioTransformTask";
+
+const inputSchema = {
+  type: "object",
+  properties: {
+    audios: {
+      type: "array",
+      items: AudioSchema({ title: "Audio" }),
+      title: "Audios",
+      description: "Audio clips to join, in order",
+      minItems: 1,
+    },
+    gap: {
+      type: "number",
+      title: "Gap",
+      description: "Seconds of silence inserted between clips",
+      minimum: 0,
+      default: 0,
+    },
+  },
+  required: ["audios"],
+  additionalProperties: false,
+} as const;
+
+const outputSchema = {
+  type: "object",
+  properties: { audio: AudioSchema({ title: "Audio", description: "Joined audio" }) },
+  required: ["audio"],
+  additionalProperties: false,
+} as const;
+
+export interface AudioConcatTaskInput {
+  audios: Array<AudioBinary | string>;
+  gap?: number;
+}
+export interface AudioConcatTaskOutput {
+  audio: AudioBinary;
+}
+
+/**
+ * Joins clips end to end. The result takes the sample rate and channel count
+ * of the first clip; later clips are resampled and remixed to match.
+ */
+export function concatAudio(audios: readonly AudioBinary[], gap: number = 0): AudioBinary {
+  if (audios.length === 0) {
+    throw new Error("concatAudio: at least one clip is required");
+  }
+  const { sampleRate, channels } = audios[0];
+  const clips = audios.map((audio) => resampleAudio(mixAudioChannels(audio, channels), sampleRate));
+  const gapSamples = Math.round(gap * sampleRate) * channels;
+  const length =
+    clips.reduce((sum, clip) => sum + clip.data.length, 0) + gapSamples * (clips.length - 1);
+  const data = new Float32Array(length);
+  let offset = 0;
+  clips.forEach((clip, index) => {
+    if (index > 0) offset += gapSamples;
+    data.set(clip.data, offset);
+    offset += clip.data.length;
+  });
+  return { data, sampleRate, channels };
+}
+
+export class AudioConcatTask extends Task<
+  AudioConcatTaskInput & Record<string, unknown>,
+  AudioConcatTaskOutput & Record<string, unknown>,
+  TaskConfig
+> {
+  static override readonly type = "AudioConcatTask";
+  static override readonly category = "Audio";
+  public static override title = "Concatenate Audio";
+  public static override description = "Joins audio clips end to end";
+
+  static override inputSchema() {
+    return inputSchema as never;
+  }
+  static override outputSchema() {
+    return outputSchema as never;
+  }
+
+  override async execute(
+    input: AudioConcatTaskInput & Record<string, unknown>,
+    _context: IExecuteContext
+  ): Promise<(AudioConcatTaskOutput & Record<string, unknown>) | undefined> {
+    const audios = await Promise.all(input.audios.map(hydrateAudio));
+    return { audio: concatAudio(audios, input.gap ?? 0) };
+  }
+}
+
+declare module "@workglow/task-graph" {
+  interface Workflow {
+    audioConcat: CreateWorkflow<
+      AudioConcatTaskInput & Record<string, unknown>,
+      AudioConcatTaskOutput & Record<string, unknown>,
+      TaskConfig
+    >;
+  }
+}
+
+Workflow.prototype.audioConcat = CreateWorkflow(AudioConcatTask);
@@ -0,0 +1,89 @@
+/**
+ * @license
+ * Copyright 2026 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  CreateWorkflow,
+  type IExecuteContext,
+  Task,
+  type TaskConfig,
+  Workflow,
+} from "@workglow/task-graph";
+import { type AudioBinary, audioDuration, AudioSchema } from "@workglow/util/media";
+import { hydrateAudio } from "./AudioTransformTask";
+
+const inputSchema = {
+  type: "object",
+  properties: {
+    audio: AudioSchema({
+      title: "Audio",
+      description: "Encoded audio as a data URI, e.g. data:audio/wav;base64,…",
+    }),
+  },
+  required: ["audio"],
+  additionalProperties: false,
+} as const;
+
+const outputSchema = {
+  type: "object",
+  properties: {
+    audio: AudioSchema({ title: "Audio", description: "Decoded PCM audio" }),
+    duration: { type: "number", title: "Duration", description: "Duration in seconds" },
+  },
+  required: ["audio", "duration"],
+  additionalProperties: false,
+} as const;
+
+export interface AudioDecodeTaskInput {
+  audio: AudioBinary | string;
+}
+export interface AudioDecodeTaskOutput {
+  audio: AudioBinary;
+  duration: number;
+}
+
+/**
+ * Decodes an audio data URI to raw PCM with the codec registered for its MIME
+ * type (see registerAudioCodec). The sample rate and channel count travel
+ * with the audio; they are not separate ports, which would auto-connect to
+ * the same-named inputs of resample and mixdown tasks.
+ */
+export class AudioDecodeTask extends Task<
+  AudioDecodeTaskInput & Record<string, unknown>,
+  AudioDecodeTaskOutput & Record<string, unknown>,
+  TaskConfig
+> {
+  static override readonly type = "AudioDecodeTask";
+  static override readonly category = "Audio";
+  public static override title = "Decode Audio";
+  public static override description = "Decodes an audio file to raw PCM samples";
+
+  static override inputSchema() {
+    return inputSchema as never;
+  }
+  static override outputSchema() {
+    return outputSchema as never;
+  }
+
+  override async execute(
+    input: AudioDecodeTaskInput & Record<string, unknown>,
+    _context: IExecuteContext
+  ): Promise<(AudioDecodeTaskOutput & Record<string, unknown>) | undefined> {
+    const audio = await hydrateAudio(input.audio);
+    return { audio, duration: audioDuration(audio) };
+  }
+}
+
+declare module "@workglow/task-graph" {
+  interface Workflow {
+    audioDecode: CreateWorkflow<
+      AudioDecodeTaskInput & Record<string, unknown>,
+      AudioDecodeTaskOutput & Record<string, unknown>,
+      TaskConfig
+    >;
+  }
+}
+
+Workflow.prototype.audioDecode = CreateWorkflow(AudioDecodeTask);
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * Copyright 2026 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  CreateWorkflow,
+  type IExecuteContext,
+  Task,
+  type TaskConfig,
+  Workflow,
+} from "@workglow/task-graph";
+import { type AudioBinary, AudioSchema, encodeAudioDataUri } from "@workglow/util/media";
+import { hydrateAudio } from "./AudioTransformTask";
+
+const inputSchema = {
+  type: "object",
+  properties: {
+    audio: AudioSchema({ title: "Audio", description: "Audio to encode" }),
+    mimeType: {
+      type: "string",
+      title: "MIME Type",
+      description: "Output format; a codec must be registered for it",
+      default: "audio/wav",
+    },
+  },
+  required: ["audio"],
+  additionalProperties: false,
+} as const;
+
+const outputSchema = {
+  type: "object",
+  properties: {
+    dataUri: {
+      type: "string",
+      format: "audio:data-uri",
+      title: "Data URI",
+      description: "Encoded audio as a data URI",
+    },
+  },
+  required: ["dataUri"],
+  additionalProperties: false,
+} as const;
+
+export interface AudioEncodeTaskInput {
+  audio: AudioBinary | string;
+  mimeType?: string;
+}
+export interface AudioEncodeTaskOutput {
+  dataUri: string;
+}
+
+/**
+ * Encodes raw PCM audio as a data URI with the codec registered for the
+ * requested MIME type (WAV is built in)
+ */
+export class AudioEncodeTask extends Task<
+  AudioEncodeTaskInput & Record<string, unknown>,
+  AudioEncodeTaskOutput & Record<string, unknown>,
+  TaskConfig
+> {
+  static override readonly type = "AudioEncodeTask";
+  static override readonly category = "Audio";
+  public static override title = "Encode Audio";
+  public static override description = "Encodes raw PCM audio as an audio file data URI";
+
+  static override inputSchema() {
+    return inputSchema as never;
+  }
+  static override outputSchema() {
+    return outputSchema as never;
+  }
+
+  override async execute(
+    input: AudioEncodeTaskInput & Record<string, unknown>,
+    _context: IExecuteContext
+  ): Promise<(AudioEncodeTaskOutput & Record<string, unknown>) | undefined> {
+    const audio = await hydrateAudio(input.audio);
+    return { dataUri: await encodeAudioDataUri(audio, input.mimeType ?? "audio/wav") };
+  }
+}
+
+declare module "@workglow/task-graph" {
+  interface Workflow {
+    audioEncode: CreateWorkflow<
+      AudioEncodeTaskInput & Record<string, unknown>,
+      AudioEncodeTaskOutput & Record<string, unknown>,
+      TaskConfig
+    >;
+  }
+}
+
+Workflow.prototype.audioEncode = CreateWorkflow(AudioEncodeTask);
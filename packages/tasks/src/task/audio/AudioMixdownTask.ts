@@ -0,0 +1,94 @@
+/**
+ * @license
+ * Copyright 2026 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CreateWorkflow, type TaskConfig, Workflow } from "@workglow/task-graph";
+import { type AudioBinary, AudioSchema, audioToMono } from "@workglow/util/media";
+import {
+  AudioTransformTask,
+  type AudioTransformInput,
+  type AudioTransformOutput,
+} from "./AudioTransformTask";
+
+const inputSchema = {
+  type: "object",
+  properties: {
+    audio: AudioSchema({ title: "Audio", description: "Source audio" }),
+    channels: {
+      type: "integer",
+      title: "Channels",
+      description: "Target channel count",
+      minimum: 1,
+      default: 1,
+    },
+  },
+  required: ["audio"],
+  additionalProperties: false,
+} as const;
+
+const outputSchema = {
+  type: "object",
+  properties: { audio: AudioSchema({ title: "Audio", description: "Remixed audio" }) },
+  required: ["audio"],
+  additionalProperties: false,
+} as const;
+
+export interface AudioMixdownTaskInput extends AudioTransformInput {
+  channels?: number;
+}
+export type AudioMixdownTaskOutput = AudioTransformOutput & Record<string, unknown>;
+
+/**
+ * Converts audio to `channels` channels. Mixing down to mono averages all
+ * channels; mono audio is copied into every output channel. Other channel
+ * layouts are first mixed to mono, since there is no general mapping between
+ * them.
+ */
+export function mixAudioChannels(audio: AudioBinary, channels: number): AudioBinary {
+  if (!Number.isInteger(channels) || channels < 1) {
+    throw new Error(`mixAudioChannels: invalid channel count ${channels}`);
+  }
+  if (audio.channels === channels) return audio;
+  const mono = audioToMono(audio);
+  if (channels === 1) return mono;
+  const data = new Float32Array(mono.data.length * channels);
+  for (let frame = 0; frame < mono.data.length; frame++) {
+    data.fill(mono.data[frame], frame * channels, (frame + 1) * channels);
+  }
+  return { data, sampleRate: audio.sampleRate, channels };
+}
+
+export class AudioMixdownTask extends AudioTransformTask<
+  AudioMixdownTaskInput & Record<string, unknown>,
+  AudioMixdownTaskOutput
+> {
+  static override readonly type = "AudioMixdownTask";
+  static override readonly category = "Audio";
+  public static override title = "Mix Down Audio";
+  public static override description = "Mixes audio down to mono, or spreads mono to more channels";
+
+  static override inputSchema() {
+    return inputSchema as never;
+  }
+  static override outputSchema() {
+    return outputSchema as never;
+  }
+
+  protected transform(audio: AudioBinary, input: AudioMixdownTaskInput): AudioBinary {
+    return mixAudioChannels(audio, input.channels ?? 1);
+  }
+}
+
+declare module "@workglow/task-graph" {
+  interface Workflow {
+    audioMixdown: CreateWorkflow<
+      AudioMixdownTaskInput & Record<string, unknown>,
+      AudioMixdownTaskOutput,
+      TaskConfig
+    >;
+  }
+}
+
+Workflow.prototype.audioMixdown = CreateWorkflow(AudioMixdownTask);
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * Copyright 2026 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CreateWorkflow, type TaskConfig, Workflow } from "@workglow/task-graph";
+import { type AudioBinary, AudioSchema } from "@workglow/util/media";
+import {
+  AudioTransformTask,
+  type AudioTransformInput,
+  type AudioTransformOutput,
+} from "./AudioTransformTask";
+
+const inputSchema = {
+  type: "object",
+  properties: {
+    audio: AudioSchema({ title: "Audio", description: "Source audio" }),
+    peak: {
+      type: "number",
+      title: "Peak",
+      description: "Target peak level in dBFS",
+      maximum: 0,
+      default: -1,
+    },
+  },
+  required: ["audio"],
+  additionalProperties: false,
+} as const;
+
+const outputSchema = {
+  type: "object",
+  properties: { audio: AudioSchema({ title: "Audio", description: "Normalized audio" }) },
+  required: ["audio"],
+  additionalProperties: false,
+} as const;
+
+export interface AudioNormalizeTaskInput extends AudioTransformInput {
+  peak?: number;
+}
+export type AudioNormalizeTaskOutput = AudioTransformOutput & Record<string, unknown>;
+
+/**
+ * Scales the audio so its loudest sample reaches `peakDb` dBFS. Silent audio
+ * is returned unchanged.
+ */
+export function normalizeAudio(audio: AudioBinary, peakDb: number = -1): AudioBinary {
+  let max = 0;
+  for (let i = 0; i < audio.data.length; i++) {
+    max = Math.max(max, Math.abs(audio.data[i]));
+  }
+  if (max === 0) return audio;
+  const gain = Math.pow(10, peakDb / 20) / max;
+  const data = new Float32Array(audio.data.length);
+  for (let i = 0; i < data.length; i++) data[i] = audio.data[i] * gain;
+  return { data, sampleRate: audio.sampleRate, channels: audio.channels };
+}
+
+export class AudioNormalizeTask extends AudioTransformTask<
+  AudioNormalizeTaskInput & Record<string, unknown>,
+  AudioNormalizeTaskOutput
+> {
+  static override readonly type = "AudioNormalizeTask";
+  static override readonly category = "Audio";
+  public static override title = "Normalize Audio";
+  public static override description = "Scales audio so its peak reaches a target level";
+
+  static override inputSchema() {
+    return inputSchema as never;
+  }
+  static override outputSchema() {
+    return outputSchema as never;
+  }
+
+  protected transform(audio: AudioBinary, input: AudioNormalizeTaskInput): AudioBinary {
+    return normalizeAudio(audio, input.peak ?? -1);
+  }
+}
+
+declare module "@workglow/task-graph" {
+  interface Workflow {
+    audioNormalize: CreateWorkflow<
+      AudioNormalizeTaskInput & Record<string, unknown>,
+      AudioNormalizeTaskOutput,
+      TaskConfig
+    >;
+  }
+}
+
+Workflow.prototype.audioNormalize = CreateWorkflow(AudioNormalizeTask);
@@ -0,0 +1,74 @@
+/**
+ * @license
+ * Copyright 2026 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CreateWorkflow, type TaskConfig, Workflow } from "@workglow/task-graph";
+import { type AudioBinary, AudioSchema, resampleAudio } from "@workglow/util/media";
+import {
+  AudioTransformTask,
+  type AudioTransformInput,
+  type AudioTransformOutput,
+} from "./AudioTransformTask";
+
+const inputSchema = {
+  type: "object",
+  properties: {
+    audio: AudioSchema({ title: "Audio", description: "Source audio" }),
+    sampleRate: {
+      type: "integer",
+      title: "Sample Rate",
+      description: "Target sample rate in Hz",
+      minimum: 1,
+      default: 16000,
+    },
+  },
+  required: ["audio", "sampleRate"],
+  additionalProperties: false,
+} as const;
+
+const outputSchema = {
+  type: "object",
+  properties: { audio: AudioSchema({ title: "Audio", description: "Resampled audio" }) },
+  required: ["audio"],
+  additionalProperties: false,
+} as const;
+
+export interface AudioResampleTaskInput extends AudioTransformInput {
+  sampleRate: number;
+}
+export type AudioResampleTaskOutput = AudioTransformOutput & Record<string, unknown>;
+
+export class AudioResampleTask extends AudioTransformTask<
+  AudioResampleTaskInput & Record<string, unknown>,
+  AudioResampleTaskOutput
+> {
+  static override readonly type = "AudioResampleTask";
+  static override readonly category = "Audio";
+  public static override title = "Resample Audio";
+  public static override description = "Converts audio to another sample rate";
+
+  static override inputSchema() {
+    return inputSchema as never;
+  }
+  static override outputSchema() {
+    return outputSchema as never;
+  }
+
+  protected transform(audio: AudioBinary, input: AudioResampleTaskInput): AudioBinary {
+    return resampleAudio(audio, input.sampleRate ?? 16000);
+  }
+}
+
+declare module "@workglow/task-graph" {
+  interface Workflow {
+    audioResample: CreateWorkflow<
+      AudioResampleTaskInput & Record<string, unknown>,
+      AudioResampleTaskOutput,
+      TaskConfig
+    >;
+  }
+}
+
+Workflow.prototype.audioResample = CreateWorkflow(AudioResampleTask);
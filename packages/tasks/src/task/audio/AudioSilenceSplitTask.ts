@@ -0,0 +1,163 @@
+/**
+ * @license
+ * Copyright 2026 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  CreateWorkflow,
+  type IExecuteContext,
+  Task,
+  type TaskConfig,
+  Workflow,
+} from "@workglow/task-graph";
+import { type AudioBinary, AudioSchema } from "@workglow/util/media";
+import { trimAudio } from "./AudioTrimTask";
+import { hydrateAudio } from "./AudioTransformTask";
+
+const inputSchema = {
+  type: "object",
+  properties: {
+    audio: AudioSchema({ title: "Audio", description: "Source audio" }),
+    threshold: {
+      type: "number",
+      title: "Threshold",
+      description: "Level in dBFS below which audio counts as silence",
+      maximum: 0,
+      default: -40,
+    },
+    minSilence: {
+      type: "number",
+      title: "Minimum Silence",
+      description: "Shortest pause in seconds that splits the audio",
+      minimum: 0,
+      default: 0.3,
+    },
+  },
+  required: ["audio"],
+  additionalProperties: false,
+} as const;
+
+const outputSchema = {
+  type: "object",
+  properties: {
+    segments: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          start: { type: "number", title: "Start", description: "Start time in seconds" },
+          end: { type: "number", title: "End", description: "End time in seconds" },
+        },
+        required: ["start", "end"],
+        additionalProperties: false,
+      },
+      title: "Segments",
+      description: "Time ranges of the non-silent parts",
+    },
+    clips: {
+      type: "array",
+      items: AudioSchema({ title: "Clip" }),
+      title: "Clips",
+      description: "The non-silent parts as separate audio clips",
+    },
+  },
+  required: ["segments", "clips"],
+  additionalProperties: false,
+} as const;
+
+export interface AudioSegment {
+  start: number;
+  end: number;
+}
+export interface AudioSilenceSplitTaskInput {
+  audio: AudioBinary | string;
+  threshold?: number;
+  minSilence?: number;
+}
+export interface AudioSilenceSplitTaskOutput {
+  segments: AudioSegment[];
+  clips: AudioBinary[];
+}
+
+/** Length of the windows whose RMS level is compared to the threshold */
+const WINDOW_SECONDS = 0.01;
+
+/**
+ * Finds the non-silent parts of the audio. Levels are measured as the RMS over
+ * 10 ms windows across all channels; pauses shorter than `minSilence` seconds
+ * do not split a segment.
+ */
+export function detectAudioSegments(
+  audio: AudioBinary,
+  threshold: number = -40,
+  minSilence: number = 0.3
+): AudioSegment[] {
+  const { data, sampleRate, channels } = audio;
+  const frames = Math.floor(data.length / channels);
+  const window = Math.max(1, Math.round(sampleRate * WINDOW_SECONDS));
+  const minSilenceFrames = minSilence * sampleRate;
+  const level = Math.pow(10, threshold / 20);
+
+  const ranges: Array<{ start: number; end: number }> = [];
+  for (let start = 0; start < frames; start += window) {
+    const end = Math.min(frames, start + window);
+    let sum = 0;
+    for (let i = start * channels; i < end * channels; i++) sum += data[i] * data[i];
+    if (Math.sqrt(sum / ((end - start) * channels)) < level) continue;
+
+    const last = ranges[ranges.length - 1];
+    if (last && start - last.end < minSilenceFrames) {
+      last.end = end;
+    } else {
+      ranges.push({ start, end });
+    }
+  }
+  return ranges.map(({ start, end }) => ({ start: start / sampleRate, end: end / sampleRate }));
+}
+
+/**
+ * Detects silence in audio and splits it into the non-silent clips, e.g. to
+ * feed utterances to speech recognition one at a time
+ */
+export class AudioSilenceSplitTask extends Task<
+  AudioSilenceSplitTaskInput & Record<string, unknown>,
+  AudioSilenceSplitTaskOutput & Record<string, unknown>,
+  TaskConfig
+> {
+  static override readonly type = "AudioSilenceSplitTask";
+  static override readonly category = "Audio";
+  public static override title = "Split Audio on Silence";
+  public static override description = "Finds the non-silent parts of audio and splits them out";
+
+  static override inputSchema() {
+    return inputSchema as never;
+  }
+  static override outputSchema() {
+    return outputSchema as never;
+  }
+
+  override async execute(
+    input: AudioSilenceSplitTaskInput & Record<string, unknown>,
+    _context: IExecuteContext
+  ): Promise<(AudioSilenceSplitTaskOutput & Record<string, unknown>) | undefined> {
+    const audio = await hydrateAudio(input.audio);
+    const segments = detectAudioSegments(audio, input.threshold ?? -40, input.minSilence ?? 0.3);
+    return {
+      segments,
+      clips: segments.map(({ start, end }) => trimAudio(audio, start, end)),
+    };
+  }
+}
+
+declare module "@workglow/task-graph" {
+  interface Workflow {
+    audioSilenceSplit: CreateWorkflow<
+      AudioSilenceSplitTaskInput & Record<string, unknown>,
+      AudioSilenceSplitTaskOutput & Record<string, unknown>,
+      TaskConfig
+    >;
+  }
+}
+
+Workflow.prototype.audioSilenceSplit = CreateWorkflow(AudioSilenceSplitTask);
@@ -0,0 +1,61 @@
+/**
+ * @license
+ * Copyright 2026 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  Task,
+  type IExecuteContext,
+  type IExecutePreviewContext,
+  type TaskConfig,
+} from "@workglow/task-graph";
+import { type AudioBinary, decodeAudioDataUri, isAudioBinary } from "@workglow/util/media";
+
+export interface AudioTransformInput {
+  audio: AudioBinary | string;
+}
+export interface AudioTransformOutput {
+  audio: AudioBinary;
+}
+
+/**
+ * Accepts either wire form of an audio port: a raw AudioBinary passes
+ * through, a data URI is decoded with the codec registered for its MIME type.
+ */
+export async function hydrateAudio(audio: unknown): Promise<AudioBinary> {
+  if (isAudioBinary(audio)) return audio;
+  if (typeof audio === "string" && audio.startsWith("data:")) {
+    return decodeAudioDataUri(audio);
+  }
+  const got =
+    audio && typeof audio === "object" ? (audio.constructor?.name ?? "object") : typeof audio;
+  throw new Error(`Expected audio as an AudioBinary or a data: URI string, got ${got}`);
+}
+
+/**
+ * Base for tasks that map one audio input to one audio output. Subclasses
+ * implement `transform`; decoding of data URI inputs is handled here.
+ */
+export abstract class AudioTransformTask<
+  Input extends AudioTransformInput & Record<string, unknown> = AudioTransformInput &
+    Record<string, unknown>,
+  Output extends AudioTransformOutput & Record<string, unknown> = AudioTransformOutput &
+    Record<string, unknown>,
+  Config extends TaskConfig = TaskConfig,
+> extends Task<Input, Output, Config> {
+  protected abstract transform(audio: AudioBinary, input: Input): AudioBinary;
+
+  override async execute(input: Input, _context: IExecuteContext): Promise<Output | undefined> {
+    const audio = await hydrateAudio(input.audio);
+    return { audio: this.transform(audio, input) } as Output;
+  }
+
+  override async executePreview(
+    input: Input,
+    _context: IExecutePreviewContext
+  ): Promise<Output | undefined> {
+    const audio = await hydrateAudio(input.audio);
+    return { audio: this.transform(audio, input) } as Output;
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * @license
+ * Copyright 2026 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CreateWorkflow, type TaskConfig, Workflow } from "@workglow/task-graph";
+import { type AudioBinary, AudioSchema } from "@workglow/util/media";
+import {
+  AudioTransformTask,
+  type AudioTransformInput,
+  type AudioTransformOutput,
+} from "./AudioTransformTask";
+
+const inputSchema = {
+  type: "object",
+  properties: {
+    audio: AudioSchema({ title: "Audio", description: "Source audio" }),
+    start: {
+      type: "number",
+      title: "Start",
+      description: "Start of the kept range in seconds",
+      minimum: 0,
+      default: 0,
+    },
+    end: {
+      type: "number",
+      title: "End",
+      description: "End of the kept range in seconds (the end of the audio when omitted)",
+      minimum: 0,
+    },
+  },
+  required: ["audio"],
+  additionalProperties: false,
+} as const;
+
+const outputSchema = {
+  type: "object",
+  properties: { audio: AudioSchema({ title: "Audio", description: "Trimmed audio" }) },
+  required: ["audio"],
+  additionalProperties: false,
+} as const;
+
+export interface AudioTrimTaskInput extends AudioTransformInput {
+  start?: number;
+  end?: number;
+}
+export type AudioTrimTaskOutput = AudioTransformOutput & Record<string, unknown>;
+
+/**
+ * Keeps the audio between `start` and `end` seconds. Times are clamped to the
+ * audio; an empty range yields empty audio.
+ */
+export function trimAudio(audio: AudioBinary, start: number = 0, end?: number): AudioBinary {
+  const { data, sampleRate, channels } = audio;
+  const frames = Math.floor(data.length / channels);
+  const toFrame = (seconds: number) =>
+    Math.min(frames, Math.max(0, Math.round(seconds * sampleRate)));
+  const first = toFrame(start);
+  const last = Math.max(first, end === undefined ? frames : toFrame(end));
+  return {
+    data: data.slice(first * channels, last * channels),
+    sampleRate,
+    channels,
+  };
+}
+
+export class AudioTrimTask extends AudioTransformTask<
+  AudioTrimTaskInput & Record<string, unknown>,
+  AudioTrimTaskOutput
+> {
+  static override readonly type = "AudioTrimTask";
+  static override readonly category = "Audio";
+  public static override title = "Trim Audio";
+  public static override description = "Keeps the part of the audio between two times";
+
+  static override inputSchema() {
+    return inputSchema as never;
+  }
+  static override outputSchema() {
+    return outputSchema as never;
+  }
+
+  protected transform(audio: AudioBinary, input: AudioTrimTaskInput): AudioBinary {
+    return trimAudio(audio, input.start ?? 0, input.end);
+  }
+}
+
+declare module "@workglow/task-graph" {
+  interface Workflow {
+    audioTrim: CreateWorkflow<
+      AudioTrimTaskInput & Record<string, unknown>,
+      AudioTrimTaskOutput,
+      TaskConfig
+    >;
+  }
+}
+
+Workflow.prototype.audioTrim = CreateWorkflow(AudioTrimTask);
@@ -0,0 +1,31 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  JobSchedulePrimaryKeyNames,
+  JobScheduleSchema,
+  JobScheduleTabularRepository,
+} from "@workglow/job-queue";
+import { InMemoryTabularStorage } from "@workglow/storage";
+import { createServiceToken } from "@workglow/util";
+
+export const MEMORY_JOB_SCHEDULE_REPOSITORY = createServiceToken<JobScheduleTabularRepository>(
+  "jobqueue.jobScheduleRepository.inMemory"
+);
+
+/**
+ * In-memory implementation of a job schedule repository.
+ * Provides storage and retrieval for recurring schedules.
+ */
+export class InMemoryJobScheduleRepository<
+  Input = unknown,
+> extends JobScheduleTabularRepository<Input> {
+  constructor() {
+    super({
+      tabularRepository: new InMemoryTabularStorage(JobScheduleSchema, JobSchedulePrimaryKeyNames),
+    });
+  }
+}
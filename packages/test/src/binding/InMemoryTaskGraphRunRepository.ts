@@ -0,0 +1,33 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { InMemoryTabularStorage } from "@workglow/storage";
+import {
+  TaskGraphRunPrimaryKeyNames,
+  TaskGraphRunSchema,
+  TaskGraphRunTabularRepository,
+} from "@workglow/task-graph";
+import { createServiceToken } from "@workglow/util";
+
+export const MEMORY_TASK_GRAPH_RUN_REPOSITORY = createServiceToken<TaskGraphRunTabularRepository>(
+  "taskgraph.taskGraphRunRepository.inMemory"
+);
+
+/**
+ * In-memory implementation of a task graph run repository.
+ * Provides storage and retrieval for checkpointed graph runs.
+ */
+export class InMemoryTaskGraphRunRepository extends TaskGraphRunTabularRepository {
+  constructor() {
+    super({
+      tabularRepository: new InMemoryTabularStorage(
+        TaskGraphRunSchema,
+        TaskGraphRunPrimaryKeyNames,
+        ["status", "updatedAt"]
+      ),
+    });
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { SqliteTabularStorage } from "@workglow/storage";
+import {
+  TaskGraphRunPrimaryKeyNames,
+  TaskGraphRunSchema,
+  TaskGraphRunTabularRepository,
+} from "@workglow/task-graph";
+import { createServiceToken } from "@workglow/util";
+
+export const SQLITE_TASK_GRAPH_RUN_REPOSITORY = createServiceToken<SqliteTaskGraphRunRepository>(
+  "taskgraph.taskGraphRunRepository.sqlite"
+);
+
+/**
+ * SQLite implementation of a task graph run repository.
+ * Provides storage and retrieval for checkpointed graph runs using SQLite.
+ */
+export class SqliteTaskGraphRunRepository extends TaskGraphRunTabularRepository {
+  constructor(dbOrPath: string, table: string = "task_graph_runs") {
+    super({
+      tabularRepository: new SqliteTabularStorage(
+        dbOrPath,
+        table,
+        TaskGraphRunSchema,
+        TaskGraphRunPrimaryKeyNames,
+        ["status", "updatedAt"]
+      ),
+    });
+  }
+}
@@ -11,6 +11,8 @@ export * from "./binding/IndexedDbTaskGraphRepository";
 export * from "./binding/PostgresTaskGraphRepository";
 export * from "./binding/SqliteTaskGraphRepository";
 
+export * from "./binding/SqliteTaskGraphRunRepository";
+
 export * from "./binding/FsFolderTaskOutputRepository";
 export * from "./binding/IndexedDbTaskOutputRepository";
 export * from "./binding/PostgresTaskOutputRepository";
@@ -5,4 +5,5 @@
  */
 
 export * from "./binding/InMemoryTaskGraphRepository";
+export * from "./binding/InMemoryTaskGraphRunRepository";
 export * from "./binding/InMemoryTaskOutputRepository";
@@ -283,43 +283,50 @@ export function createSupabaseMockClient(): IClosableSupabaseClient {
             },
 
             select: () => {
+              const runUpdate = async () => {
+                const setClause = Object.entries(data)
+                  .map(([k, v]) => {
+                    if (v === null || v === undefined) return `"${k}" = NULL`;
+                    if (typeof v === "object")
+                      return `"${k}" = '${JSON.stringify(v).replace(/'/g, "''")}'`;
+                    if (typeof v === "string") return `"${k}" = '${v.replace(/'/g, "''")}'`;
+                    return `"${k}" = ${String(v)}`;
+                  })
+                  .join(", ");
+
+                const whereClause = queryBuilder._filters
+                  .map((f) => {
+                    const val = f.value;
+                    if (val === null || val === undefined)
+                      return `"${f.column}" ${f.operator} NULL`;
+                    if (typeof val === "object")
+                      return `"${f.column}" ${f.operator} '${JSON.stringify(val).replace(/'/g, "''")}'`;
+                    if (typeof val === "string")
+                      return `"${f.column}" ${f.operator} '${val.replace(/'/g, "''")}'`;
+                    return `"${f.column}" ${f.operator} ${String(val)}`;
+                  })
+                  .join(" AND ");
+
+                const query = `UPDATE "${queryBuilder._table}" SET ${setClause} WHERE ${whereClause} RETURNING *`;
+                const result = await pglite.query(query);
+                return result.rows;
+              };
               return {
                 single: async () => {
                   try {
-                    const setClause = Object.entries(data)
-                      .map(([k, v]) => {
-                        if (v === null || v === undefined) return `"${k}" = NULL`;
-                        if (typeof v === "object")
-                          return `"${k}" = '${JSON.stringify(v).replace(/'/g, "''")}'`;
-                        if (typeof v === "string") return `"${k}" = '${v.replace(/'/g, "''")}'`;
-                        return `"${k}" = ${String(v)}`;
-                      })
-                      .join(", ");
-
-                    const whereClause = queryBuilder._filters
-                      .map((f) => {
-                        const val = f.value;
-                        if (val === null || val === undefined)
-                          return `"${f.column}" ${f.operator} NULL`;
-                        if (typeof val === "object")
-                          return `"${f.column}" ${f.operator} '${JSON.stringify(val).replace(/'/g, "''")}'`;
-                        if (typeof val === "string")
-                          return `"${f.column}" ${f.operator} '${val.replace(/'/g, "''")}'`;
-                        return `"${f.column}" ${f.operator} ${String(val)}`;
-                      })
-                      .join(" AND ");
-
-                    const query = `UPDATE "${queryBuilder._table}" SET ${setClause} WHERE ${whereClause} RETURNING *`;
-                    const result = await pglite.query(query);
-
-                    return {
-                      data: result.rows[0] || null,
-                      error: null,
-                    };
+                    const rows = await runUpdate();
+                    return { data: rows[0] || null, error: null };
                   } catch (error: any) {
                     return { data: null, error };
                   }
                 },
+                then: async (resolve: any) => {
+                  try {
+                    resolve?.({ data: await runUpdate(), error: null });
+                  } catch (error: any) {
+                    resolve?.({ data: null, error });
+                  }
+                },
               };
             },
             then: async (resolve: any, reject: any) => {
@@ -363,48 +370,7 @@ export function createSupabaseMockClient(): IClosableSupabaseClient {
           return updateBuilder;
         },
 
-        delete: () => {
-          return {
-            eq: (column: string, value: any) => {
-              queryBuilder._filters.push({ column, operator: "=", value });
-              return deleteBuilder;
-            },
-            neq: (column: string, value: any) => {
-              queryBuilder._filters.push({ column, operator: "!=", value });
-              return deleteBuilder;
-            },
-            lt: (column: string, value: any) => {
-              queryBuilder._filters.push({ column, operator: "<", value });
-              return deleteBuilder;
-            },
-            lte: (column: string, value: any) => {
-              queryBuilder._filters.push({ column, operator: "<=", value });
-              return deleteBuilder;
-            },
-            gt: (column: string, value: any) => {
-              queryBuilder._filters.push({ column, operator: ">", value });
-              return deleteBuilder;
-            },
-            gte: (column: string, value: any) => {
-              queryBuilder._filters.push({ column, operator: ">=", value });
-              return deleteBuilder;
-            },
-            not: (column: string, operator: string, value: any) => {
-              if (operator === "is" && value === null) {
-                queryBuilder._filters.push({ column, operator: "IS NOT", value: "NULL" });
-              }
-              return deleteBuilder;
-            },
-            then: async (resolve: any, reject: any) => {
-              try {
-                const result = await executeDelete();
-                resolve(result);
-              } catch (error) {
-                reject?.(error);
-              }
-            },
-          };
-        },
+        delete: () => deleteBuilder,
 
         eq: (column: string, value: any) => {
           queryBuilder._filters.push({ column, operator: "=", value });
@@ -440,6 +406,40 @@ export function createSupabaseMockClient(): IClosableSupabaseClient {
           return queryBuilder;
         },
 
+        in: (column: string, values: readonly any[]) => {
+          queryBuilder._filters.push({ column, operator: "IN", value: values });
+          return queryBuilder;
+        },
+
+        like: (column: string, pattern: string) => {
+          queryBuilder._filters.push({ column, operator: "LIKE", value: pattern });
+          return queryBuilder;
+        },
+
+        ilike: (column: string, pattern: string) => {
+          queryBuilder._filters.push({ column, operator: "ILIKE", value: pattern });
+          return queryBuilder;
+        },
+
+        is: (column: string, value: null) => {
+          queryBuilder._filters.push({ column, operator: "IS NULL", value });
+          return queryBuilder;
+        },
+
+        not: (column: string, operator: string, value: any) => {
+          queryBuilder._filters.push(notFilter(column, operator, value));
+          return queryBuilder;
+        },
+
+        or: (filters: string) => {
+          queryBuilder._filters.push({
+            column: "",
+            operator: "RAW",
+            value: logicToSql(filters, "OR"),
+          });
+          return queryBuilder;
+        },
+
         order: (column: string, options?: { ascending?: boolean }) => {
           queryBuilder._order = { column, ascending: options?.ascending ?? true };
           return queryBuilder;
@@ -481,20 +481,7 @@ export function createSupabaseMockClient(): IClosableSupabaseClient {
           let query = `DELETE FROM "${queryBuilder._table}"`;
 
           if (queryBuilder._filters.length > 0) {
-            const whereClause = queryBuilder._filters
-              .map((f) => {
-                if (f.operator === "IS NOT" && f.value === "NULL") {
-                  return `"${f.column}" IS NOT NULL`;
-                }
-                const val = f.value;
-                if (val === null || val === undefined) return `"${f.column}" ${f.operator} NULL`;
-                if (typeof val === "object")
-                  return `"${f.column}" ${f.operator} '${JSON.stringify(val).replace(/'/g, "''")}'`;
-                if (typeof val === "string")
-                  return `"${f.column}" ${f.operator} '${val.replace(/'/g, "''")}'`;
-                return `"${f.column}" ${f.operator} ${String(val)}`;
-              })
-              .join(" AND ");
+            const whereClause = queryBuilder._filters.map(filterToSql).join(" AND ");
             query += ` WHERE ${whereClause}`;
           }
 
@@ -535,9 +522,31 @@ export function createSupabaseMockClient(): IClosableSupabaseClient {
           return deleteBuilder;
         },
         not: (column: string, operator: string, value: any) => {
-          if (operator === "is" && value === null) {
-            queryBuilder._filters.push({ column, operator: "IS NOT", value: "NULL" });
-          }
+          queryBuilder._filters.push(notFilter(column, operator, value));
+          return deleteBuilder;
+        },
+        in: (column: string, values: readonly any[]) => {
+          queryBuilder._filters.push({ column, operator: "IN", value: values });
+          return deleteBuilder;
+        },
+        like: (column: string, pattern: string) => {
+          queryBuilder._filters.push({ column, operator: "LIKE", value: pattern });
+          return deleteBuilder;
+        },
+        ilike: (column: string, pattern: string) => {
+          queryBuilder._filters.push({ column, operator: "ILIKE", value: pattern });
+          return deleteBuilder;
+        },
+        is: (column: string, value: null) => {
+          queryBuilder._filters.push({ column, operator: "IS NULL", value });
+          return deleteBuilder;
+        },
+        or: (filters: string) => {
+          queryBuilder._filters.push({
+            column: "",
+            operator: "RAW",
+            value: logicToSql(filters, "OR"),
+          });
           return deleteBuilder;
         },
         then: async (resolve: any, reject: any) => {
@@ -552,26 +561,16 @@ export function createSupabaseMockClient(): IClosableSupabaseClient {
 
       const executeQuery = async () => {
         try {
-          let query = `SELECT ${queryBuilder._select} FROM "${queryBuilder._table}"`;
+          const select = selectToSql(queryBuilder._select);
+          let query = `SELECT ${select.columns} FROM "${queryBuilder._table}"`;
 
           if (queryBuilder._filters.length > 0) {
-            const whereClause = queryBuilder._filters
-              .map((f) => {
-                if (f.operator === "IS NOT" && f.value === "NULL") {
-                  return `"${f.column}" IS NOT NULL`;
-                }
-                const val = f.value;
-                if (val === null || val === undefined) return `"${f.column}" ${f.operator} NULL`;
-                if (typeof val === "object")
-                  return `"${f.column}" ${f.operator} '${JSON.stringify(val).replace(/'/g, "''")}'`;
-                if (typeof val === "string")
-                  return `"${f.column}" ${f.operator} '${val.replace(/'/g, "''")}'`;
-                return `"${f.column}" ${f.operator} ${String(val)}`;
-              })
-              .join(" AND ");
+            const whereClause = queryBuilder._filters.map(filterToSql).join(" AND ");
             query += ` WHERE ${whereClause}`;
           }
 
+          query += select.groupBy;
+
           if (queryBuilder._order) {
             query += ` ORDER BY "${queryBuilder._order.column}" ${queryBuilder._order.ascending ? "ASC" : "DESC"}`;
           }
@@ -611,3 +610,132 @@ export function createSupabaseMockClient(): IClosableSupabaseClient {
 
   return mockClient as unknown as IClosableSupabaseClient;
 }
+
+type MockFilter = { column: string; operator: string; value: any };
+
+function sqlLiteral(val: any): string {
+  if (val === null || val === undefined) return "NULL";
+  if (typeof val === "object") return `'${JSON.stringify(val).replace(/'/g, "''")}'`;
+  if (typeof val === "string") return `'${val.replace(/'/g, "''")}'`;
+  return String(val);
+}
+
+function filterToSql(f: MockFilter): string {
+  switch (f.operator) {
+    case "RAW":
+      return f.value;
+    case "IS NULL":
+      return `"${f.column}" IS NULL`;
+    case "IS NOT":
+      if (f.value === "NULL") return `"${f.column}" IS NOT NULL`;
+      break;
+    case "IN":
+      return f.value.length === 0
+        ? "FALSE"
+        : `"${f.column}" IN (${f.value.map(sqlLiteral).join(", ")})`;
+  }
+  return `"${f.column}" ${f.operator} ${sqlLiteral(f.value)}`;
+}
+
+function notFilter(column: string, operator: string, value: any): MockFilter {
+  if (operator === "is" && value === null) {
+    return { column, operator: "IS NOT", value: "NULL" };
+  }
+  return {
+    column: "",
+    operator: "RAW",
+    value: `NOT ${logicToSql(`${column}.${operator}.${value}`, "AND")}`,
+  };
+}
+
+/** Splits a PostgREST filter list on top-level commas, respecting quotes and parentheses */
+function splitTopLevel(input: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let depth = 0;
+  let quoted = false;
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      current += char;
+      if (char === "\\") current += input[++i];
+      else if (char === '"') quoted = false;
+      continue;
+    }
+    if (char === '"') quoted = true;
+    else if (char === "(") depth++;
+    else if (char === ")") depth--;
+    else if (char === "," && depth === 0) {
+      parts.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts;
+}
+
+function unquote(value: string): string {
+  return value.startsWith('"') && value.endsWith('"')
+    ? value.slice(1, -1).replace(/\\(.)/g, "$1")
+    : value;
+}
+
+const LOGIC_OPERATORS: Record<string, string> = {
+  eq: "=",
+  neq: "!=",
+  lt: "<",
+  lte: "<=",
+  gt: ">",
+  gte: ">=",
+  like: "LIKE",
+  ilike: "ILIKE",
+};
+
+/** Translates a PostgREST logic tree such as `a.eq.1,and(b.is.null,c.in.(x,y))` to SQL */
+function logicToSql(filters: string, joiner: "AND" | "OR"): string {
+  const conditions = splitTopLevel(filters).map((part) => {
+    const group = /^(and|or)\((.*)\)$/s.exec(part);
+    if (group) return logicToSql(group[2], group[1].toUpperCase() as "AND" | "OR");
+    const [, column, negate, operator, value] = /^([^.]+)\.(not\.)?([a-z]+)\.(.*)$/s.exec(part)!;
+    let sql: string;
+    if (operator === "is") {
+      sql = `"${column}" IS NULL`;
+    } else if (operator === "in") {
+      const list = value.slice(1, -1);
+      sql =
+        list === ""
+          ? "FALSE"
+          : `"${column}" IN (${splitTopLevel(list)
+              .map((item) => sqlLiteral(unquote(item)))
+              .join(", ")})`;
+    } else {
+      sql = `"${column}" ${LOGIC_OPERATORS[operator]} ${sqlLiteral(unquote(value))}`;
+    }
+    return negate ? `NOT (${sql})` : sql;
+  });
+  return `(${conditions.join(` ${joiner} `)})`;
+}
+
+/**
+ * Translates a select list with PostgREST aggregates, e.g.
+ * `category,n:count(),total:value.sum()`, grouping by the plain columns.
+ */
+function selectToSql(select: string): { columns: string; groupBy: string } {
+  if (!select.includes("(")) return { columns: select, groupBy: "" };
+  const groups: string[] = [];
+  const columns = splitTopLevel(select).map((item) => {
+    const match = /^(?:(\w+):)?(?:(\w+)\.)?(count|sum|avg|min|max)\(\)$/.exec(item);
+    if (!match) {
+      groups.push(`"${item}"`);
+      return `"${item}"`;
+    }
+    const [, alias, column, fn] = match;
+    return `${fn.toUpperCase()}(${column ? `"${column}"` : "*"}) AS "${alias ?? fn}"`;
+  });
+  return {
+    columns: columns.join(", "),
+    groupBy: groups.length > 0 ? ` GROUP BY ${groups.join(", ")}` : "",
+  };
+}
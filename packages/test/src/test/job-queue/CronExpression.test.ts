@@ -0,0 +1,130 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  CronExpression,
+  JobScheduleRecord,
+  planScheduledRun,
+  ScheduleError,
+  validateScheduleTiming,
+} from "@workglow/job-queue";
+import { describe, expect, it } from "vitest";
+
+function next(expression: string, after: string, timezone?: string): string {
+  return new CronExpression(expression, timezone).next(new Date(after)).toISOString();
+}
+
+describe("CronExpression", () => {
+  it("should step through minutes", () => {
+    expect(next("*/15 * * * *", "2025-01-15T10:07:00Z")).toBe("2025-01-15T10:15:00.000Z");
+    expect(next("*/15 * * * *", "2025-01-15T10:15:00Z")).toBe("2025-01-15T10:30:00.000Z");
+    expect(next("5/20 * * * *", "2025-01-15T10:30:00Z")).toBe("2025-01-15T10:45:00.000Z");
+  });
+
+  it("should match weekday names and ranges", () => {
+    // 2025-01-04 is a Saturday
+    expect(next("0 9 * * MON-FRI", "2025-01-04T12:00:00Z")).toBe("2025-01-06T09:00:00.000Z");
+    expect(next("0 9 * * 7", "2025-01-04T12:00:00Z")).toBe("2025-01-05T09:00:00.000Z");
+  });
+
+  it("should match either day field when both are restricted", () => {
+    // Friday 2025-01-03 comes before the 13th
+    expect(next("0 0 13 * FRI", "2025-01-01T00:00:00Z")).toBe("2025-01-03T00:00:00.000Z");
+  });
+
+  it("should expand macros", () => {
+    expect(next("@hourly", "2025-01-15T10:07:00Z")).toBe("2025-01-15T11:00:00.000Z");
+    expect(next("@yearly", "2025-01-15T10:07:00Z")).toBe("2026-01-01T00:00:00.000Z");
+  });
+
+  it("should evaluate in the given timezone", () => {
+    expect(next("0 0 * * *", "2025-01-15T12:00:00Z", "America/New_York")).toBe(
+      "2025-01-16T05:00:00.000Z"
+    );
+    expect(next("0 0 * * *", "2025-07-15T12:00:00Z", "America/New_York")).toBe(
+      "2025-07-16T04:00:00.000Z"
+    );
+  });
+
+  it("should not fire at wall-clock times skipped by daylight saving", () => {
+    // 02:30 does not exist in New York on 2025-03-09
+    expect(next("30 2 * * *", "2025-03-08T12:00:00Z", "America/New_York")).toBe(
+      "2025-03-10T06:30:00.000Z"
+    );
+  });
+
+  it("should reject malformed expressions and timezones", () => {
+    expect(() => new CronExpression("61 * * * *")).toThrow(ScheduleError);
+    expect(() => new CronExpression("* * *")).toThrow(ScheduleError);
+    expect(() => new CronExpression("*/0 * * * *")).toThrow(ScheduleError);
+    expect(() => new CronExpression("0 0 * * *", "Mars/Olympus")).toThrow(ScheduleError);
+    expect(() => new CronExpression("0 0 30 2 *").next(new Date())).toThrow(ScheduleError);
+  });
+
+  it("should require exactly one of cron or interval", () => {
+    expect(() => validateScheduleTiming({})).toThrow(ScheduleError);
+    expect(() => validateScheduleTiming({ cron: "@daily", intervalMs: 1000 })).toThrow(
+      ScheduleError
+    );
+    expect(() => validateScheduleTiming({ intervalMs: -5 })).toThrow(ScheduleError);
+    expect(() => validateScheduleTiming({ cron: "@daily" })).not.toThrow();
+  });
+});
+
+describe("planScheduledRun", () => {
+  const createdAt = "2025-01-15T00:00:00.000Z";
+  const schedule = (
+    missedRunPolicy: JobScheduleRecord["missedRunPolicy"]
+  ): Pick<
+    JobScheduleRecord,
+    "cron" | "intervalMs" | "timezone" | "missedRunPolicy" | "createdAt"
+  > => ({
+    cron: null,
+    intervalMs: 10 * 60_000,
+    timezone: "UTC",
+    missedRunPolicy,
+    createdAt,
+  });
+  // Six ticks (00:10 ... 01:00) came due before 01:05
+  const now = new Date("2025-01-15T01:05:00.000Z");
+
+  it("should plan the next future tick when nothing was missed", () => {
+    const plan = planScheduledRun(schedule("skip"), new Date(createdAt), new Date(createdAt));
+    expect(plan.scheduledFor.toISOString()).toBe("2025-01-15T00:10:00.000Z");
+    expect(plan.runAfter).toEqual(plan.scheduledFor);
+    expect(plan.skipped).toBe(0);
+  });
+
+  it("should skip missed ticks", () => {
+    const plan = planScheduledRun(schedule("skip"), new Date(createdAt), now);
+    expect(plan.scheduledFor.toISOString()).toBe("2025-01-15T01:10:00.000Z");
+    expect(plan.skipped).toBe(6);
+  });
+
+  it("should run once for all missed ticks", () => {
+    const plan = planScheduledRun(schedule("run-once"), new Date(createdAt), now);
+    expect(plan.scheduledFor.toISOString()).toBe("2025-01-15T01:00:00.000Z");
+    expect(plan.runAfter).toEqual(now);
+    expect(plan.skipped).toBe(5);
+  });
+
+  it("should catch up on the oldest missed tick first", () => {
+    const plan = planScheduledRun(schedule("catch-up"), new Date(createdAt), now);
+    expect(plan.scheduledFor.toISOString()).toBe("2025-01-15T00:10:00.000Z");
+    expect(plan.runAfter).toEqual(now);
+    expect(plan.skipped).toBe(0);
+  });
+
+  it("should count missed cron ticks", () => {
+    const plan = planScheduledRun(
+      { ...schedule("skip"), cron: "*/10 * * * *", intervalMs: null },
+      new Date(createdAt),
+      now
+    );
+    expect(plan.scheduledFor.toISOString()).toBe("2025-01-15T01:10:00.000Z");
+    expect(plan.skipped).toBe(6);
+  });
+});
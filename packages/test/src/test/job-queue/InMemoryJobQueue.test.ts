@@ -6,7 +6,7 @@
 
 import { RateLimiter } from "@workglow/job-queue";
 import { InMemoryQueueStorage, InMemoryRateLimiterStorage } from "@workglow/storage";
-import { describe } from "vitest";
+import { describe, expect, it } from "vitest";
 import { runGenericJobQueueTests } from "./genericJobQueueTests";
 import { setLogger } from "@workglow/util";
 import { getTestingLogger } from "../../binding/TestingLogger";
@@ -23,3 +23,48 @@ describe("InMemoryJobQueue", () => {
       })
   );
 });
+
+describe("InMemoryQueueStorage priority aging", () => {
+  it("should let a long-waiting low-priority job overtake newer high-priority jobs", async () => {
+    const storage = new InMemoryQueueStorage<{ name: string }, unknown>("aging-queue", {
+      priorityAgingMs: 1000,
+    });
+    const oldId = await storage.add({
+      input: { name: "old" },
+      run_after: null,
+      completed_at: null,
+    });
+    await storage.add({
+      input: { name: "new" },
+      priority: 3,
+      run_after: null,
+      completed_at: null,
+    });
+    // The low-priority job has been waiting for five aging intervals
+    const oldJob = storage.jobQueue.find((job) => job.id === oldId)!;
+    oldJob.run_after = new Date(Date.now() - 5000).toISOString();
+
+    expect((await storage.next("worker-1"))?.id).toBe(oldId);
+  });
+
+  it("should not age jobs when aging is disabled", async () => {
+    const storage = new InMemoryQueueStorage<{ name: string }, unknown>("no-aging-queue", {
+      priorityAgingMs: 0,
+    });
+    const oldId = await storage.add({
+      input: { name: "old" },
+      run_after: null,
+      completed_at: null,
+    });
+    const newId = await storage.add({
+      input: { name: "new" },
+      priority: 3,
+      run_after: null,
+      completed_at: null,
+    });
+    const oldJob = storage.jobQueue.find((job) => job.id === oldId)!;
+    oldJob.run_after = new Date(Date.now() - 5000).toISOString();
+
+    expect((await storage.next("worker-1"))?.id).toBe(newId);
+  });
+});
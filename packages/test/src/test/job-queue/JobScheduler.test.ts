@@ -0,0 +1,231 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { IJobExecuteContext, Job, JobQueueServer, JobScheduler } from "@workglow/job-queue";
+import { InMemoryQueueStorage, JobStatus } from "@workglow/storage";
+import { setLogger, sleep } from "@workglow/util";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { InMemoryJobScheduleRepository } from "../../binding/InMemoryJobScheduleRepository";
+import { getTestingLogger } from "../../binding/TestingLogger";
+
+type TickInput = { readonly name: string; readonly durationMs?: number };
+
+let running = 0;
+let maxRunning = 0;
+const runs: string[] = [];
+
+class TickJob extends Job<TickInput, { done: boolean }> {
+  override async execute(input: TickInput, _context: IJobExecuteContext) {
+    running++;
+    maxRunning = Math.max(maxRunning, running);
+    runs.push(input.name);
+    try {
+      if (input.durationMs) await sleep(input.durationMs);
+      return { done: true };
+    } finally {
+      running--;
+    }
+  }
+}
+
+async function waitUntil(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error("Timed out waiting for condition");
+    }
+    await sleep(10);
+  }
+}
+
+describe("JobScheduler", () => {
+  setLogger(getTestingLogger());
+  let storage: InMemoryQueueStorage<TickInput, { done: boolean }>;
+  let server: JobQueueServer<TickInput, { done: boolean }>;
+  let repository: InMemoryJobScheduleRepository<TickInput>;
+  let scheduler: JobScheduler<TickInput, { done: boolean }>;
+
+  beforeEach(async () => {
+    running = 0;
+    maxRunning = 0;
+    runs.length = 0;
+    storage = new InMemoryQueueStorage("scheduled");
+    server = new JobQueueServer(TickJob, {
+      storage,
+      queueName: "scheduled",
+      pollIntervalMs: 5,
+      workerCount: 2,
+    });
+    repository = new InMemoryJobScheduleRepository();
+    scheduler = new JobScheduler({ server, repository });
+  });
+
+  afterEach(async () => {
+    await scheduler.stop();
+    await server.stop();
+  });
+
+  it("should enqueue the next cron tick with run_after", async () => {
+    await server.start();
+    await scheduler.start();
+    const record = await scheduler.addSchedule({
+      scheduleId: "new-year",
+      cron: "0 0 1 1 *",
+      input: { name: "new-year" },
+    });
+
+    const nextYear = new Date().getUTCFullYear() + 1;
+    expect(record.nextRunAt).toBe(`${nextYear}-01-01T00:00:00.000Z`);
+    const job = await storage.get(record.lastJobId);
+    expect(job?.status).toBe(JobStatus.PENDING);
+    expect(job?.run_after).toBe(record.nextRunAt);
+    expect(job?.job_run_id).toBe(`new-year:${record.nextRunAt}`);
+  });
+
+  it("should run an interval schedule repeatedly", async () => {
+    await server.start();
+    await scheduler.start();
+    await scheduler.addSchedule({ scheduleId: "tick", intervalMs: 30, input: { name: "tick" } });
+
+    await waitUntil(() => runs.length >= 3);
+    const record = await scheduler.getSchedule("tick");
+    expect(record?.lastStatus).toBe("COMPLETED");
+    expect(record?.lastRunAt).not.toBeNull();
+  });
+
+  it("should not overlap runs of the same schedule", async () => {
+    const skipped: number[] = [];
+    scheduler.on("schedule_skipped", (_id, count) => skipped.push(count));
+    await server.start();
+    await scheduler.start();
+    await scheduler.addSchedule({
+      scheduleId: "slow",
+      intervalMs: 20,
+      input: { name: "slow", durationMs: 100 },
+    });
+
+    await waitUntil(() => runs.length >= 3);
+    expect(maxRunning).toBe(1);
+    expect(skipped.length).toBeGreaterThan(0);
+  });
+
+  it("should overlap runs when allowed", async () => {
+    await server.start();
+    await scheduler.start();
+    await scheduler.addSchedule({
+      scheduleId: "slow",
+      intervalMs: 20,
+      allowOverlap: true,
+      input: { name: "slow", durationMs: 100 },
+    });
+
+    await waitUntil(() => maxRunning >= 2);
+    expect(maxRunning).toBe(2);
+  });
+
+  describe("missed ticks", () => {
+    async function addMissedSchedule(policy: "skip" | "run-once" | "catch-up") {
+      await scheduler.addSchedule({
+        scheduleId: "missed",
+        intervalMs: 60_000,
+        missedRunPolicy: policy,
+        input: { name: "missed" },
+      });
+      // Pretend the schedule was created while the scheduler was down for 5.5 minutes
+      const record = (await repository.getSchedule("missed"))!;
+      record.createdAt = new Date(Date.now() - 330_000).toISOString();
+      await repository.saveSchedule(record);
+    }
+
+    it("should skip missed ticks", async () => {
+      await addMissedSchedule("skip");
+      const skipped: number[] = [];
+      scheduler.on("schedule_skipped", (_id, count) => skipped.push(count));
+      await server.start();
+      await scheduler.start();
+
+      expect(skipped).toEqual([5]);
+      const record = await scheduler.getSchedule("missed");
+      expect(new Date(record!.nextRunAt!).getTime()).toBeGreaterThan(Date.now());
+      await sleep(50);
+      expect(runs).toEqual([]);
+    });
+
+    it("should run once for all missed ticks", async () => {
+      await addMissedSchedule("run-once");
+      await server.start();
+      await scheduler.start();
+
+      await waitUntil(() => runs.length === 1);
+      await sleep(50);
+      expect(runs).toHaveLength(1);
+      const record = await scheduler.getSchedule("missed");
+      expect(new Date(record!.nextRunAt!).getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it("should catch up on every missed tick", async () => {
+      await addMissedSchedule("catch-up");
+      await server.start();
+      await scheduler.start();
+
+      await waitUntil(() => runs.length === 5);
+      await sleep(50);
+      expect(runs).toHaveLength(5);
+    });
+  });
+
+  it("should keep a pending tick across restarts", async () => {
+    await server.start();
+    await scheduler.start();
+    const record = await scheduler.addSchedule({
+      scheduleId: "daily",
+      cron: "@daily",
+      input: { name: "daily" },
+    });
+    await scheduler.stop();
+
+    const restarted = new JobScheduler({ server, repository });
+    await restarted.start();
+    expect((await restarted.getSchedule("daily"))?.lastJobId).toBe(record.lastJobId);
+    expect(await storage.size()).toBe(1);
+    await restarted.stop();
+  });
+
+  it("should enqueue a tick once when schedulers share the queue storage", async () => {
+    await scheduler.addSchedule({
+      scheduleId: "shared",
+      cron: "@hourly",
+      input: { name: "shared" },
+    });
+    const other = new JobScheduler({
+      server,
+      repository: new InMemoryJobScheduleRepository<TickInput>(),
+    });
+    await other.addSchedule({ scheduleId: "shared", cron: "@hourly", input: { name: "shared" } });
+
+    await Promise.all([scheduler.start(), other.start()]);
+    await other.stop();
+
+    expect(await storage.size()).toBe(1);
+    expect((await scheduler.getSchedule("shared"))?.lastJobId).toBe(
+      (await other.getSchedule("shared"))?.lastJobId
+    );
+  });
+
+  it("should delete the pending tick when a schedule is removed", async () => {
+    await server.start();
+    await scheduler.start();
+    const record = await scheduler.addSchedule({
+      scheduleId: "hourly",
+      cron: "@hourly",
+      input: { name: "hourly" },
+    });
+
+    await scheduler.removeSchedule("hourly");
+    expect(await storage.get(record.lastJobId)).toBeUndefined();
+    expect(await scheduler.listSchedules()).toEqual([]);
+  });
+});
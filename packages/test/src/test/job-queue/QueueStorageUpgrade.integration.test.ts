@@ -0,0 +1,172 @@
+/**
+ * @license
+ * Copyright 2026 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PGlite } from "@electric-sql/pglite";
+import { JobStatus } from "@workglow/job-queue";
+import {
+  IQueueStorage,
+  PostgresQueueStorage,
+  SqliteQueueStorage,
+  SupabaseQueueStorage,
+} from "@workglow/storage";
+import { Sqlite } from "@workglow/storage/sqlite";
+import type { Pool } from "pg";
+import { afterAll, describe, expect, it } from "vitest";
+import { createSupabaseMockClient } from "../helpers/SupabaseMockClient";
+
+// The queue table as the first release created it, before priorities, error
+// history, leases and dependencies were added
+const SQLITE_FIRST_LAYOUT = `
+  CREATE TABLE job_queue (
+    id INTEGER PRIMARY KEY,
+    fingerprint text NOT NULL,
+    queue text NOT NULL,
+    job_run_id text NOT NULL,
+    status TEXT NOT NULL default 'PENDING',
+    input TEXT NOT NULL,
+    output TEXT,
+    run_attempts INTEGER default 0,
+    max_retries INTEGER default 23,
+    run_after TEXT NOT NULL,
+    last_ran_at TEXT,
+    created_at TEXT NOT NULL,
+    completed_at TEXT,
+    deadline_at TEXT,
+    error TEXT,
+    error_code TEXT,
+    progress REAL DEFAULT 0,
+    progress_message TEXT DEFAULT '',
+    progress_details TEXT NULL,
+    worker_id TEXT
+  )`;
+
+const POSTGRES_FIRST_LAYOUT = `
+  CREATE TABLE job_queue (
+    id SERIAL NOT NULL,
+    fingerprint text NOT NULL,
+    queue text NOT NULL,
+    job_run_id text NOT NULL,
+    status job_status NOT NULL default 'PENDING',
+    input jsonb NOT NULL,
+    output jsonb,
+    run_attempts integer default 0,
+    max_retries integer default 20,
+    run_after timestamp with time zone DEFAULT now(),
+    last_ran_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT now(),
+    deadline_at timestamp with time zone,
+    completed_at timestamp with time zone,
+    error text,
+    error_code text,
+    progress real DEFAULT 0,
+    progress_message text DEFAULT '',
+    progress_details jsonb,
+    worker_id text
+  )`;
+
+const POSTGRES_JOB_STATUS_TYPE = `CREATE TYPE job_status AS ENUM (${Object.values(JobStatus)
+  .map((status) => `'${status}'`)
+  .join(",")})`;
+
+const QUEUE = "upgrade-queue";
+
+// A job written by the first release; the new columns get their defaults
+const OLD_JOB = `
+  INSERT INTO job_queue (fingerprint, queue, job_run_id, input, run_after, created_at)
+  VALUES ('old-fingerprint', '${QUEUE}', 'old-run', '{"data":"old"}', '2020-01-01T00:00:00.000Z', '2020-01-01T00:00:00.000Z')`;
+
+type UpgradeStorage = IQueueStorage<{ data: string }, unknown>;
+
+/**
+ * `createFirstLayout` must create the first-release table, holding {@link OLD_JOB},
+ * in a fresh database that `createStorage` then opens
+ */
+function runQueueUpgradeTests(
+  createFirstLayout: () => Promise<void>,
+  createStorage: () => UpgradeStorage
+) {
+  it("adds the newer columns to a table created by the first release", async () => {
+    await createFirstLayout();
+    const storage = createStorage();
+    await storage.setupDatabase();
+    await storage.setupDatabase();
+
+    const old = await storage.peek(JobStatus.PENDING);
+    expect(old).toHaveLength(1);
+    expect(old[0]).toMatchObject({ priority: 0, on_dependency_failure: "cancel" });
+
+    const dependent = await storage.add({
+      input: { data: "dependent" },
+      run_after: null,
+      completed_at: null,
+      priority: 5,
+      depends_on: [old[0].id],
+    });
+    expect(await storage.get(dependent)).toMatchObject({
+      priority: 5,
+      depends_on: [old[0].id],
+      on_dependency_failure: "cancel",
+    });
+
+    const claimed = await storage.next("worker-1");
+    expect(claimed?.id).toBe(old[0].id);
+    expect(claimed?.lease_expires_at).toBeTruthy();
+    expect(await storage.reclaimExpiredLeases()).toEqual([]);
+
+    await storage.complete({ ...claimed!, status: JobStatus.FAILED, error: "failed" });
+    expect((await storage.cancelFailedDependents()).map((job) => job.id)).toEqual([dependent]);
+  });
+}
+
+describe("queue storage upgrades", () => {
+  describe("SQLite", async () => {
+    await Sqlite.init();
+    let db: Sqlite.Database;
+
+    runQueueUpgradeTests(
+      async () => {
+        db = new Sqlite.Database(":memory:");
+        db.exec(SQLITE_FIRST_LAYOUT);
+        db.exec(OLD_JOB);
+      },
+      () => new SqliteQueueStorage(db, QUEUE)
+    );
+  });
+
+  describe("PostgreSQL", () => {
+    let db: PGlite;
+    afterAll(async () => {
+      await db?.close();
+    });
+
+    runQueueUpgradeTests(
+      async () => {
+        db = new PGlite();
+        await db.exec(POSTGRES_JOB_STATUS_TYPE);
+        await db.exec(POSTGRES_FIRST_LAYOUT);
+        await db.exec(OLD_JOB);
+      },
+      () => new PostgresQueueStorage(db as unknown as Pool, QUEUE)
+    );
+  });
+
+  describe("Supabase", () => {
+    const client = createSupabaseMockClient();
+    afterAll(async () => {
+      await client.close();
+    });
+
+    runQueueUpgradeTests(
+      async () => {
+        for (const query of [POSTGRES_JOB_STATUS_TYPE, POSTGRES_FIRST_LAYOUT, OLD_JOB]) {
+          const { error } = await client.rpc("exec_sql", { query });
+          if (error) throw error;
+        }
+      },
+      () => new SupabaseQueueStorage(client, QUEUE)
+    );
+  });
+});
@@ -6,12 +6,14 @@
 
 import {
   AbortSignalJobError,
+  ConcurrencyLimiter,
   IJobExecuteContext,
   ILimiter,
   Job,
   JobError,
   JobQueueClient,
   JobQueueServer,
+  JobQueueWorker,
   JobStatus,
   PermanentJobError,
   RetryableJobError,
@@ -95,6 +97,10 @@ export class TestJob extends Job<TInput, TOutput> {
         );
       });
     }
+    if (input.taskType === "slow") {
+      await sleep(100);
+      return { result: "slow" };
+    }
     if (input.taskType === "progress") {
       return new Promise<TOutput>(async (resolve, reject) => {
         context.signal.addEventListener(
@@ -313,6 +319,18 @@ export function runGenericJobQueueTests(
       expect(job4?.output).toEqual({ result: "output2" });
     });
 
+    it("should not run a job before its runAfter time", async () => {
+      const runAfter = new Date(Date.now() + 60_000);
+      const delayed = await client.submit({ taskType: "task1", data: "input1" }, { runAfter });
+      const immediate = await client.submit({ taskType: "task2", data: "input2" });
+      await server.start();
+      await immediate.waitFor();
+
+      const job = await client.getJob(delayed.id);
+      expect(job?.status).toBe(JobStatus.PENDING);
+      expect(job?.runAfter.getTime()).toBe(runAfter.getTime());
+    });
+
     it("should run the queue and get rate limited", async () => {
       const totalJobs = 16;
       const maxAllowed = 4; // limiter: 4 per 60s
@@ -572,6 +590,288 @@ export function runGenericJobQueueTests(
     });
   });
 
+  describe("Priorities", () => {
+    it("should store the priority of a submitted job", async () => {
+      const handle = await client.submit({ taskType: "task1", data: "input1" }, { priority: 5 });
+      const retrievedJob = await client.getJob(handle.id);
+      expect(retrievedJob?.priority).toBe(5);
+    });
+
+    it("should claim the highest-priority job first", async () => {
+      const low = await client.submit({ taskType: "task1", data: "low" });
+      const high = await client.submit({ taskType: "task1", data: "high" }, { priority: 10 });
+      const medium = await client.submit({ taskType: "task1", data: "medium" }, { priority: 5 });
+
+      const first = await storage.next("worker-1");
+      const second = await storage.next("worker-1");
+      const third = await storage.next("worker-1");
+
+      expect(first?.id).toBe(high.id);
+      expect(second?.id).toBe(medium.id);
+      expect(third?.id).toBe(low.id);
+      expect(await storage.next("worker-1")).toBeUndefined();
+    });
+
+    it("should claim jobs of equal priority in submission order", async () => {
+      const first = await client.submit({ taskType: "task1", data: "first" }, { priority: 1 });
+      await sleep(2);
+      const second = await client.submit({ taskType: "task1", data: "second" }, { priority: 1 });
+
+      expect((await storage.next("worker-1"))?.id).toBe(first.id);
+      expect((await storage.next("worker-1"))?.id).toBe(second.id);
+    });
+  });
+
+  describe("Leases", () => {
+    it("should lease claimed jobs to their worker", async () => {
+      const handle = await client.submit({ taskType: "task1", data: "input1" });
+      const claimed = await storage.next("worker-1", 60_000);
+      expect(claimed?.id).toBe(handle.id);
+      const leaseExpiresAt = new Date(claimed!.lease_expires_at!).getTime();
+      expect(leaseExpiresAt).toBeGreaterThan(Date.now() + 30_000);
+
+      expect(await storage.renewLease(handle.id, "worker-2", 60_000)).toBe(false);
+      expect(await storage.renewLease(handle.id, "worker-1", 120_000)).toBe(true);
+      const renewed = await storage.get(handle.id);
+      expect(new Date(renewed!.lease_expires_at!).getTime()).toBeGreaterThan(leaseExpiresAt);
+    });
+
+    it("should reclaim a job whose lease expired as a failed attempt", async () => {
+      const handle = await client.submit({ taskType: "task1", data: "input1" }, { maxRetries: 2 });
+      expect((await storage.next("dead-worker", 1))?.id).toBe(handle.id);
+      await sleep(20);
+
+      expect(await storage.reclaimExpiredLeases()).toEqual([]);
+      const reclaimed = await storage.next("worker-2");
+      expect(reclaimed?.id).toBe(handle.id);
+      expect(reclaimed?.worker_id).toBe("worker-2");
+      expect(reclaimed?.run_attempts).toBe(1);
+      expect(reclaimed?.error_code).toBe("JobLeaseExpiredError");
+      expect(reclaimed?.error_history).toHaveLength(1);
+      expect(reclaimed?.error_history?.[0]).toMatchObject({
+        attempt: 1,
+        error_code: "JobLeaseExpiredError",
+        worker_id: "dead-worker",
+      });
+    });
+
+    it("should fail a job whose lease expired once its retries are exhausted", async () => {
+      const handle = await client.submit({ taskType: "task1", data: "input1" }, { maxRetries: 0 });
+      expect((await storage.next("dead-worker", 1))?.id).toBe(handle.id);
+      await sleep(20);
+
+      const failed = await storage.reclaimExpiredLeases();
+      expect(failed.map((job) => job.id)).toEqual([handle.id]);
+      expect(failed[0].error_code).toBe("MAX_RETRIES_REACHED");
+      expect(await storage.next("worker-2")).toBeUndefined();
+      const failedJob = await client.getJob(handle.id);
+      expect(failedJob?.status).toBe(JobStatus.FAILED);
+      expect(failedJob?.error).toBe("Max retries reached");
+      expect(failedJob?.workerId).toBeNull();
+    });
+
+    it("should reclaim expired leases before processing a job manually", async () => {
+      const handle = await client.submit({ taskType: "task1", data: "input1" }, { maxRetries: 2 });
+      expect((await storage.next("dead-worker", 1))?.id).toBe(handle.id);
+      await sleep(20);
+
+      const worker = new JobQueueWorker<TInput, TOutput>(TestJob, { storage, queueName });
+      expect(await worker.processNext()).toBe(true);
+      const job = await client.getJob(handle.id);
+      expect(job?.status).toBe(JobStatus.COMPLETED);
+      expect(job?.output).toEqual({ result: "output1" });
+      expect(job?.errorHistory?.[0]?.error_code).toBe("JobLeaseExpiredError");
+    });
+
+    it("should not write back a job for a worker that no longer holds it", async () => {
+      const handle = await client.submit({ taskType: "task1", data: "input1" }, { maxRetries: 2 });
+      const stale = await storage.next("dead-worker", 1);
+      await sleep(20);
+      await storage.reclaimExpiredLeases();
+      const current = await storage.next("worker-2");
+      expect(current?.id).toBe(handle.id);
+
+      expect(await storage.saveProgress(handle.id, 50, "stale", null, "dead-worker")).toBe(false);
+      const staleCompleted = await storage.complete(
+        { ...stale!, status: JobStatus.COMPLETED, output: { result: "stale" } },
+        "dead-worker"
+      );
+      expect(staleCompleted).toBe(false);
+      const unchanged = await storage.get(handle.id);
+      expect(unchanged?.status).toBe(JobStatus.PROCESSING);
+      expect(unchanged?.worker_id).toBe("worker-2");
+      expect(unchanged?.progress_message).not.toBe("stale");
+
+      expect(await storage.saveProgress(handle.id, 50, "halfway", null, "worker-2")).toBe(true);
+      const completed = await storage.complete(
+        { ...current!, status: JobStatus.COMPLETED, output: { result: "current" } },
+        "worker-2"
+      );
+      expect(completed).toBe(true);
+      const job = await storage.get(handle.id);
+      expect(job?.status).toBe(JobStatus.COMPLETED);
+      expect(job?.output).toEqual({ result: "current" });
+    });
+
+    it("should keep renewing the lease of a running job", async () => {
+      await server.stop();
+      server = new JobQueueServer<TInput, TOutput, TestJob>(TestJob, {
+        storage,
+        queueName,
+        pollIntervalMs: 1,
+        leaseDurationMs: 60,
+        heartbeatIntervalMs: 10,
+      });
+      client.attach(server);
+
+      const started = client.waitOn("job_start");
+      const handle = await client.submit({ taskType: "long_running", data: "input1" });
+      const waitPromise = handle.waitFor();
+      waitPromise.catch(() => {});
+      await server.start();
+      await started;
+      await sleep(200);
+
+      const job = await client.getJob(handle.id);
+      expect(job?.status).toBe(JobStatus.PROCESSING);
+      expect(job?.runAttempts).toBe(0);
+      expect(server.getWorkerIds()).toContain(job?.workerId);
+
+      await handle.abort();
+      await expect(waitPromise).rejects.toMatchObject({ name: "AbortSignalJobError" });
+    });
+
+    it("should abort a running job whose lease was taken over without writing it back", async () => {
+      await server.stop();
+      server = new JobQueueServer<TInput, TOutput, TestJob>(TestJob, {
+        storage,
+        queueName,
+        pollIntervalMs: 1,
+        leaseDurationMs: 60,
+        heartbeatIntervalMs: 10,
+      });
+      client.attach(server);
+
+      const started = client.waitOn("job_start");
+      const handle = await client.submit({ taskType: "long_running", data: "input1" });
+      handle.waitFor().catch(() => {});
+      await server.start();
+      await started;
+
+      // Another worker took the job over and finished it
+      const running = await storage.get(handle.id);
+      await storage.complete({
+        ...running!,
+        status: JobStatus.COMPLETED,
+        output: { result: "other worker" },
+        progress: 100,
+        completed_at: new Date().toISOString(),
+      });
+      await sleep(100);
+      await server.stop();
+
+      const job = await client.getJob(handle.id);
+      expect(job?.status).toBe(JobStatus.COMPLETED);
+      expect(job?.output).toEqual({ result: "other worker" });
+      expect(server.getStats().failedJobs).toBe(0);
+    });
+
+    it("should not write back a job that finishes after its lease was taken over", async () => {
+      await server.stop();
+      server = new JobQueueServer<TInput, TOutput, TestJob>(TestJob, {
+        storage,
+        queueName,
+        pollIntervalMs: 1,
+        // Keep the worker from claiming the job again, and its heartbeat from noticing in time
+        limiter: new ConcurrencyLimiter(1),
+        heartbeatIntervalMs: 60_000,
+      });
+      client.attach(server);
+
+      const started = client.waitOn("job_start");
+      const handle = await client.submit({ taskType: "slow", data: "input1" });
+      handle.waitFor().catch(() => {});
+      await server.start();
+      await started;
+
+      // The job was put back in the queue and another worker took it over
+      const running = await storage.get(handle.id);
+      await storage.complete({ ...running!, status: JobStatus.PENDING });
+      expect((await storage.next("other-worker"))?.id).toBe(handle.id);
+      await sleep(200);
+      await server.stop();
+
+      const job = await client.getJob(handle.id);
+      expect(job?.status).toBe(JobStatus.PROCESSING);
+      expect(job?.workerId).toBe("other-worker");
+      expect(job?.output ?? null).toBeNull();
+      expect(server.getStats().completedJobs).toBe(0);
+    });
+  });
+
+  describe("Dependencies", () => {
+    it("should not claim a job before its prerequisites complete", async () => {
+      const first = await client.submit({ taskType: "task1", data: "first" });
+      const second = await client.submit(
+        { taskType: "task1", data: "second" },
+        { dependsOn: [first.id], priority: 10 }
+      );
+      expect((await client.getJob(second.id))?.dependsOn).toEqual([first.id]);
+
+      const claimed = await storage.next("worker-1");
+      expect(claimed?.id).toBe(first.id);
+      expect(await storage.next("worker-1")).toBeUndefined();
+
+      await storage.complete({
+        ...claimed!,
+        status: JobStatus.COMPLETED,
+        output: { result: "first" },
+        completed_at: new Date().toISOString(),
+      });
+      expect((await storage.next("worker-1"))?.id).toBe(second.id);
+    });
+
+    it("should cancel jobs that depend on a failed job", async () => {
+      const first = await client.submit({ taskType: "permanent_fail" }, { maxRetries: 0 });
+      const second = await client.submit({ taskType: "task1" }, { dependsOn: [first.id] });
+      const third = await client.submit({ taskType: "task1" }, { dependsOn: [second.id] });
+      const results = Promise.allSettled([first.waitFor(), second.waitFor(), third.waitFor()]);
+      await server.start();
+
+      const [firstResult, secondResult, thirdResult] = await results;
+      expect(firstResult).toMatchObject({ reason: { name: "PermanentJobError" } });
+      expect(secondResult).toMatchObject({ reason: { message: "Job dependency failed" } });
+      expect(thirdResult).toMatchObject({ reason: { message: "Job dependency failed" } });
+      const cancelled = await client.getJob(third.id);
+      expect(cancelled?.status).toBe(JobStatus.FAILED);
+      expect(cancelled?.errorCode).toBe("JobDependencyFailedError");
+      expect(cancelled?.runAttempts).toBe(0);
+    });
+
+    it("should run a job whose policy ignores failed prerequisites", async () => {
+      const first = await client.submit({ taskType: "permanent_fail" }, { maxRetries: 0 });
+      const second = await client.submit(
+        { taskType: "task1", data: "input2" },
+        { dependsOn: [first.id], onDependencyFailure: "run" }
+      );
+      const firstResult = first.waitFor();
+      await server.start();
+
+      await expect(firstResult).rejects.toBeDefined();
+      expect(await second.waitFor()).toEqual({ result: "output2" });
+    });
+
+    it("should cancel a job submitted after its prerequisite failed", async () => {
+      const first = await client.submit({ taskType: "permanent_fail" }, { maxRetries: 0 });
+      const firstResult = first.waitFor();
+      await server.start();
+      await expect(firstResult).rejects.toBeDefined();
+
+      const second = await client.submit({ taskType: "task1" }, { dependsOn: [first.id] });
+      await expect(second.waitFor()).rejects.toThrow("Job dependency failed");
+    });
+  });
+
   describe("Progress Monitoring", () => {
     it("should emit progress events", async () => {
       await server.start();
@@ -949,4 +1249,258 @@ export function runGenericJobQueueTests(
       expect(errorEventError).toContain("Job failed as expected");
     });
   });
+
+  describe("Dead Letter Queue", () => {
+    let deadLetterStorage: IQueueStorage<TInput, TOutput>;
+
+    beforeEach(async () => {
+      deadLetterStorage = storageFactory(`${queueName}-dead-letter`);
+      await deadLetterStorage.setupDatabase();
+
+      await server.stop();
+      const limiter = await limiterFactory?.(queueName, 4, 60);
+      server = new JobQueueServer<TInput, TOutput, TestJob>(TestJob, {
+        storage,
+        queueName,
+        limiter,
+        pollIntervalMs: 1,
+        cleanupIntervalMs: 1000,
+        deadLetterStorage,
+      });
+      client.attach(server);
+    });
+
+    afterEach(async () => {
+      await deadLetterStorage?.deleteAll();
+    });
+
+    async function failAndDeadLetter(
+      input: TInput,
+      maxRetries: number
+    ): Promise<{ jobId: unknown; deadLetterId: unknown }> {
+      const deadLettered = new Promise<{ jobId: unknown; deadLetterId: unknown }>((resolve) => {
+        server.on("job_dead_lettered", (_queueName, jobId, deadLetterId) =>
+          resolve({ jobId, deadLetterId })
+        );
+      });
+      const handle = await client.submit(input, { maxRetries });
+      await server.start();
+      await expect(handle.waitFor()).rejects.toBeDefined();
+      const result = await deadLettered;
+      expect(result.jobId).toBe(handle.id);
+      return result;
+    }
+
+    it("should dead-letter a job whose lease expired with its retries exhausted", async () => {
+      const deadLettered: unknown[] = [];
+      const bothDeadLettered = new Promise<void>((resolve) => {
+        server.on("job_dead_lettered", (_queueName, jobId) => {
+          deadLettered.push(jobId);
+          if (deadLettered.length === 2) resolve();
+        });
+      });
+      const abandoned = await client.submit(
+        { taskType: "task1", data: "abandoned" },
+        { maxRetries: 0 }
+      );
+      const dependent = await client.submit(
+        { taskType: "task1", data: "dependent" },
+        { dependsOn: [abandoned.id] }
+      );
+      // Claimed by a worker that dies; the lease outlasts the startup fixup
+      expect((await storage.next("dead-worker", 200))?.id).toBe(abandoned.id);
+
+      const abandonedFailed = abandoned.waitFor();
+      const dependentFailed = dependent.waitFor();
+      abandonedFailed.catch(() => {});
+      dependentFailed.catch(() => {});
+      await server.start();
+      await expect(abandonedFailed).rejects.toThrow("Max retries reached");
+      await expect(dependentFailed).rejects.toBeDefined();
+      await bothDeadLettered;
+
+      expect(deadLettered).toEqual(expect.arrayContaining([abandoned.id, dependent.id]));
+      expect(await client.getJob(abandoned.id)).toBeUndefined();
+      expect(await client.getJob(dependent.id)).toBeUndefined();
+    });
+
+    it("should move jobs that exhaust their retries to the dead-letter storage", async () => {
+      const { jobId, deadLetterId } = await failAndDeadLetter(
+        { taskType: "failing_retryable", data: "will-retry" },
+        2
+      );
+
+      expect(await client.getJob(jobId)).toBeUndefined();
+      expect(server.getStats().deadLetteredJobs).toBe(1);
+
+      const deadLetter = await client.getDeadLetter(deadLetterId);
+      expect(deadLetter?.status).toBe(JobStatus.FAILED);
+      expect(deadLetter?.input).toEqual({ taskType: "failing_retryable", data: "will-retry" });
+      expect(deadLetter?.error).toBe("Max retries reached");
+      expect(deadLetter?.errorHistory.map((attempt) => attempt.attempt)).toEqual([1, 2, 3]);
+      for (const attempt of deadLetter?.errorHistory ?? []) {
+        expect(attempt.error).toBe("Job failed but can be retried");
+        expect(attempt.error_code).toBe("RetryableJobError");
+        expect(server.getWorkerIds()).toContain(attempt.worker_id);
+      }
+    });
+
+    it("should keep the attempts, creation time and dependencies of a dead-lettered job", async () => {
+      await server.start();
+      const prerequisite = await client.submit({ taskType: "task1", data: "prerequisite" });
+      await prerequisite.waitFor();
+      await server.stop();
+
+      const deadLettered = new Promise<unknown>((resolve) => {
+        server.on("job_dead_lettered", (_queueName, _jobId, deadLetterId) => resolve(deadLetterId));
+      });
+      const handle = await client.submit(
+        { taskType: "failing_retryable", data: "keep" },
+        { maxRetries: 1, dependsOn: [prerequisite.id] }
+      );
+      const original = await storage.get(handle.id);
+      const failed = handle.waitFor();
+      failed.catch(() => {});
+      await server.start();
+      const deadLetterId = await deadLettered;
+      await expect(failed).rejects.toBeDefined();
+
+      const deadLetter = await deadLetterStorage.get(deadLetterId);
+      expect(deadLetter?.status).toBe(JobStatus.FAILED);
+      expect(deadLetter?.run_attempts).toBe(2);
+      expect(new Date(deadLetter!.created_at!).getTime()).toBe(
+        new Date(original!.created_at!).getTime()
+      );
+      expect(deadLetter?.depends_on).toEqual([prerequisite.id]);
+      expect(deadLetter?.job_run_id).toBe(original?.job_run_id);
+    });
+
+    it("should add a finished job to storage as it is", async () => {
+      const id = await deadLetterStorage.addFinished({
+        input: { taskType: "failing", data: "as-is" } as TInput,
+        output: null,
+        status: JobStatus.FAILED,
+        run_attempts: 3,
+        max_retries: 2,
+        created_at: "2025-01-01T00:00:00.000Z",
+        run_after: "2025-01-01T00:00:00.000Z",
+        last_ran_at: "2025-01-01T00:01:00.000Z",
+        completed_at: "2025-01-01T00:02:00.000Z",
+        error: "Max retries reached",
+        error_code: "JobError",
+        progress: 40,
+        progress_message: "stuck",
+        progress_details: { stage: "middle" },
+        depends_on: ["prerequisite"],
+      });
+
+      const job = await deadLetterStorage.get(id);
+      expect(new Date(job!.created_at!).toISOString()).toBe("2025-01-01T00:00:00.000Z");
+      expect(new Date(job!.last_ran_at!).toISOString()).toBe("2025-01-01T00:01:00.000Z");
+      expect(new Date(job!.completed_at!).toISOString()).toBe("2025-01-01T00:02:00.000Z");
+      expect(job).toMatchObject({
+        input: { taskType: "failing", data: "as-is" },
+        status: JobStatus.FAILED,
+        run_attempts: 3,
+        max_retries: 2,
+        error: "Max retries reached",
+        error_code: "JobError",
+        progress: 40,
+        progress_message: "stuck",
+        progress_details: { stage: "middle" },
+        depends_on: ["prerequisite"],
+      });
+      expect(await deadLetterStorage.next("worker")).toBeUndefined();
+    });
+
+    it("should dead-letter permanent failures with their error code", async () => {
+      const { deadLetterId } = await failAndDeadLetter(
+        { taskType: "permanent_fail", data: "no-retry" },
+        2
+      );
+
+      const deadLetters = await client.listDeadLetters();
+      expect(deadLetters.map((job) => job.id)).toEqual([deadLetterId]);
+      expect(deadLetters[0].errorCode).toBe("PermanentJobError");
+      expect(deadLetters[0].errorHistory).toHaveLength(1);
+    });
+
+    it("should not dead-letter aborted jobs", async () => {
+      const started = client.waitOn("job_start");
+      await server.start();
+      const handle = await client.submit({ taskType: "long_running", data: "abort-me" });
+      const waitPromise = handle.waitFor();
+      await started;
+      await handle.abort();
+      await expect(waitPromise).rejects.toMatchObject({ name: "AbortSignalJobError" });
+      await sleep(10);
+
+      expect((await client.getJob(handle.id))?.status).toBe(JobStatus.FAILED);
+      expect(await client.listDeadLetters()).toHaveLength(0);
+    });
+
+    it("should requeue a dead-lettered job with its original input", async () => {
+      const { deadLetterId } = await failAndDeadLetter(
+        { taskType: "permanent_fail", data: "no-retry" },
+        0
+      );
+
+      const handle = await client.requeueDeadLetter(deadLetterId, { priority: 3 });
+      expect(await client.getDeadLetter(deadLetterId)).toBeUndefined();
+
+      const requeued = await client.getJob(handle.id);
+      expect(requeued?.input).toEqual({ taskType: "permanent_fail", data: "no-retry" });
+      expect(requeued?.priority).toBe(3);
+    });
+
+    it("should delete and purge dead-lettered jobs", async () => {
+      const { deadLetterId } = await failAndDeadLetter(
+        { taskType: "permanent_fail", data: "first" },
+        0
+      );
+      await client.deleteDeadLetter(deadLetterId);
+      expect(await client.listDeadLetters()).toHaveLength(0);
+
+      await server.stop();
+      await failAndDeadLetter({ taskType: "permanent_fail", data: "second" }, 0);
+      await client.purgeDeadLetters(60_000);
+      expect(await client.listDeadLetters()).toHaveLength(1);
+      await client.purgeDeadLetters();
+      expect(await client.listDeadLetters()).toHaveLength(0);
+    });
+
+    it("should cancel a job whose prerequisite was dead-lettered", async () => {
+      const { jobId } = await failAndDeadLetter({ taskType: "permanent_fail", data: "first" }, 0);
+      expect(await client.getJob(jobId)).toBeUndefined();
+
+      // Wait on the dependent before a worker can cancel it
+      await server.stop();
+      const dependent = await client.submit(
+        { taskType: "task1", data: "dependent" },
+        { dependsOn: [jobId] }
+      );
+      const cancelled = dependent.waitFor();
+      cancelled.catch(() => {});
+      await server.start();
+      await expect(cancelled).rejects.toThrow("Job dependency failed");
+    });
+
+    it("should run a job whose policy ignores a dead-lettered prerequisite", async () => {
+      const { jobId } = await failAndDeadLetter({ taskType: "permanent_fail", data: "first" }, 0);
+
+      await server.stop();
+      const dependent = await client.submit(
+        { taskType: "task1", data: "input2" },
+        { dependsOn: [jobId], onDependencyFailure: "run" }
+      );
+      const completed = dependent.waitFor();
+      await server.start();
+      expect(await completed).toEqual({ result: "output2" });
+    });
+
+    it("should throw when no dead-letter storage is configured", async () => {
+      const standalone = new JobQueueClient<TInput, TOutput>({ storage, queueName });
+      await expect(standalone.listDeadLetters()).rejects.toThrow("No dead-letter storage");
+    });
+  });
 }
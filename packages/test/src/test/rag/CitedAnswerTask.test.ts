@@ -0,0 +1,162 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AiProviderRunFn, ModelConfig } from "@workglow/ai";
+import { AiProvider, CitedAnswerTask, getAiProviderRegistry, parseCitedClaims } from "@workglow/ai";
+import {
+  createKnowledgeBase,
+  Document,
+  KnowledgeBase,
+  StructuralParser,
+} from "@workglow/knowledge-base";
+import type { ChunkRecord, DocumentNode } from "@workglow/knowledge-base";
+import { uuid4 } from "@workglow/util";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+class FakeAnswerProvider extends AiProvider {
+  override readonly name = "fake-answer";
+  override readonly displayName = "Fake Answer";
+  override readonly isLocal = true;
+  override readonly supportsBrowser = false;
+  override readonly taskTypes = ["TextGenerationTask"] as const;
+}
+
+const model = {
+  model_id: "fake:answer",
+  provider: "fake-answer",
+  provider_config: { model_name: "answer" },
+} as unknown as ModelConfig;
+
+const leaves = (node: DocumentNode): DocumentNode[] =>
+  "children" in node && Array.isArray(node.children)
+    ? (node.children as DocumentNode[]).flatMap(leaves)
+    : [node];
+
+describe("parseCitedClaims", () => {
+  it("collects the markers of each sentence", () => {
+    expect(
+      parseCitedClaims("Paris is the capital [1]. It has 2M people. [2, 3]\n- Rivers [4]")
+    ).toEqual([
+      { text: "Paris is the capital [1].", sources: [1] },
+      { text: "It has 2M people. [2, 3]", sources: [2, 3] },
+      { text: "- Rivers [4]", sources: [4] },
+    ]);
+  });
+
+  it("drops fragments without words", () => {
+    expect(parseCitedClaims("Yes [1].\n\n---\n[2]")).toEqual([{ text: "Yes [1].", sources: [1] }]);
+  });
+});
+
+describe("CitedAnswerTask", () => {
+  let kb: KnowledgeBase;
+  let answer: string;
+  let prompts: string[];
+  let metadata: ChunkRecord[];
+  const markdown =
+    "# France\n\nParis is the capital of France.\n\n# Spain\n\nMadrid is the capital of Spain.";
+
+  beforeEach(async () => {
+    answer = "";
+    prompts = [];
+    const registry = getAiProviderRegistry();
+    registry.registerProvider(new FakeAnswerProvider());
+    const run: AiProviderRunFn<any, any, ModelConfig> = async (input: { prompt: string }) => {
+      prompts.push(input.prompt);
+      return { text: answer };
+    };
+    registry.registerRunFn("fake-answer", "TextGenerationTask", run);
+
+    kb = await createKnowledgeBase({
+      name: `cited-answer-test-${uuid4()}`,
+      vectorDimensions: 3,
+      register: false,
+    });
+    const root = await StructuralParser.parseMarkdown("doc1", markdown, "Capitals");
+    await kb.upsertDocument(new Document(root, { title: "Capitals" }, undefined, "doc1"));
+    metadata = leaves(root).map((leaf) => ({
+      chunkId: uuid4(),
+      doc_id: "doc1",
+      text: leaf.text,
+      nodePath: [root.nodeId, leaf.nodeId],
+      depth: 2,
+      leafNodeId: leaf.nodeId,
+    }));
+  });
+
+  afterEach(() => {
+    getAiProviderRegistry().unregisterProvider("fake-answer");
+    kb.destroy();
+  });
+
+  it("numbers the chunks in the prompt and resolves citations to spans", async () => {
+    answer = "The capital of France is Paris [1]. Madrid is the capital of Spain. [2]";
+    const result = await new CitedAnswerTask().run({
+      knowledgeBase: kb,
+      question: "What are the capitals?",
+      model,
+      metadata,
+      chunk_ids: ["c1", "c2"],
+    });
+
+    expect(prompts[0]).toContain("[1] Paris is the capital of France.");
+    expect(prompts[0]).toContain("[2] Madrid is the capital of Spain.");
+    expect(prompts[0]).toContain("Question: What are the capitals?");
+
+    expect(result.text).toBe(answer);
+    expect(result.hasUnsupportedClaims).toBe(false);
+    expect(result.invalidCitations).toEqual([]);
+    expect(result.citations).toHaveLength(2);
+    const [first, second] = result.citations;
+    expect(first).toMatchObject({
+      source: 1,
+      chunk_id: "c1",
+      doc_id: "doc1",
+      nodeId: metadata[0].leafNodeId,
+      sectionTitles: ["France"],
+      verified: true,
+    });
+    expect(markdown.slice(first.startOffset!, first.endOffset!)).toBe(
+      "Paris is the capital of France."
+    );
+    expect(second.sectionTitles).toEqual(["Spain"]);
+    expect(markdown.slice(second.startOffset!, second.endOffset!)).toBe(
+      "Madrid is the capital of Spain."
+    );
+  });
+
+  it("flags uncited claims and citations of unknown sources", async () => {
+    answer = "Paris is the capital [1]. Berlin is the capital of Germany. Rome too [7].";
+    const result = await new CitedAnswerTask().run({
+      knowledgeBase: kb,
+      question: "Capitals?",
+      model,
+      metadata,
+    });
+
+    expect(result.citations.map((c) => c.source)).toEqual([1]);
+    expect(result.invalidCitations).toEqual([7]);
+    expect(result.hasUnsupportedClaims).toBe(true);
+    expect(result.unsupportedClaims).toEqual([
+      "Berlin is the capital of Germany.",
+      "Rome too [7].",
+    ]);
+  });
+
+  it("does not verify chunks whose text is no longer in the document", async () => {
+    answer = "Lyon is the capital [1].";
+    const result = await new CitedAnswerTask().run({
+      knowledgeBase: kb,
+      question: "Capital?",
+      model,
+      metadata: [{ ...metadata[0], text: "Lyon is the capital of France." }],
+    });
+
+    expect(result.citations[0]).toMatchObject({ source: 1, verified: false });
+    expect(result.citations[0].startOffset).toBeUndefined();
+    expect(result.unsupportedClaims).toEqual(["Lyon is the capital [1]."]);
+  });
+});
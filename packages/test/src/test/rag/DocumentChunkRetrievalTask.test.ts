@@ -180,6 +180,19 @@ describe("ChunkRetrievalTask", () => {
     });
   });
 
+  test("should apply a metadata filter expression", async () => {
+    const queryVector = new Float32Array([1.0, 0.0, 0.0]);
+
+    const result = await chunkRetrieval({
+      knowledgeBase: kb,
+      query: queryVector,
+      topK: 5,
+      filter: { op: "in", field: "doc_id", values: ["doc3", "doc4"] },
+    });
+
+    expect(result.chunk_ids.sort()).toEqual(["doc3_0", "doc4_0"]);
+  });
+
   test("should throw error when query is string without model", async () => {
     await expect(
       // @ts-expect-error - query is string but no model is provided
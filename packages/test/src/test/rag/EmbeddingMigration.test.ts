@@ -0,0 +1,322 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AiProviderRunFn, ModelConfig } from "@workglow/ai";
+import { AiProvider, getAiProviderRegistry, startEmbeddingMigration } from "@workglow/ai";
+import {
+  ChunkVectorPrimaryKey,
+  ChunkVectorStorageSchema,
+  createKnowledgeBase,
+  getGlobalKnowledgeBaseRepository,
+  KnowledgeBase,
+  unregisterKnowledgeBase,
+} from "@workglow/knowledge-base";
+import type { ChunkRecord, ChunkVectorStorage } from "@workglow/knowledge-base";
+import { InMemoryVectorStorage } from "@workglow/storage";
+import {
+  getTaskQueueRegistry,
+  setTaskQueueRegistry,
+  TaskQueueRegistry,
+} from "@workglow/task-graph";
+import { sleep, uuid4 } from "@workglow/util";
+import { afterAll, afterEach, beforeEach, describe, expect, it } from "vitest";
+
+class FakeEmbeddingProvider extends AiProvider {
+  override readonly name = "fake-migration";
+  override readonly displayName = "Fake Migration";
+  override readonly isLocal = true;
+  override readonly supportsBrowser = false;
+  override readonly taskTypes = ["TextEmbeddingTask"] as const;
+}
+
+const modelV2 = {
+  model_id: "fake:embed-v2",
+  provider: "fake-migration",
+  provider_config: { model_name: "embed-v2" },
+} as unknown as ModelConfig;
+
+const metadata = (chunkId: string, text: string): ChunkRecord => ({
+  chunkId,
+  doc_id: "doc1",
+  text,
+  nodePath: ["root"],
+  depth: 1,
+});
+
+/** A deferred promise, resolved from outside */
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+describe("embedding model migration", () => {
+  let kb: KnowledgeBase;
+  let kbId: string;
+  let embedded: string[];
+  let gate: Promise<void> | undefined;
+  let reached: ReturnType<typeof deferred>;
+  let failEmbedding: boolean;
+
+  const newStorage = () =>
+    new InMemoryVectorStorage(
+      ChunkVectorStorageSchema,
+      ChunkVectorPrimaryKey,
+      [],
+      4,
+      Float32Array
+    ) as unknown as ChunkVectorStorage;
+
+  beforeEach(async () => {
+    await setTaskQueueRegistry(new TaskQueueRegistry());
+    embedded = [];
+    gate = undefined;
+    reached = deferred();
+    failEmbedding = false;
+
+    const registry = getAiProviderRegistry();
+    registry.registerProvider(new FakeEmbeddingProvider());
+    const run: AiProviderRunFn<any, any, ModelConfig> = async (input: { text: string[] }) => {
+      reached.resolve();
+      if (gate) await gate;
+      if (failEmbedding) throw new Error("embedding service down");
+      embedded.push(...input.text);
+      return { vector: input.text.map((t) => new Float32Array([t.length, 1, 2, 3])) };
+    };
+    registry.registerRunFn("fake-migration", "TextEmbeddingTask", run);
+
+    kbId = `migration-test-${uuid4()}`;
+    kb = await createKnowledgeBase({
+      name: kbId,
+      vectorDimensions: 3,
+      embeddingModel: "fake:embed-v1",
+    });
+    await kb.upsertChunk({
+      chunk_id: "c1",
+      doc_id: "doc1",
+      vector: new Float32Array([1, 0, 0]),
+      metadata: metadata("c1", "first chunk"),
+    });
+    await kb.upsertChunk({
+      chunk_id: "c2",
+      doc_id: "doc1",
+      vector: new Float32Array([0, 1, 0]),
+      metadata: metadata("c2", "second chunk"),
+    });
+  });
+
+  afterEach(async () => {
+    getAiProviderRegistry().unregisterProvider("fake-migration");
+    await getTaskQueueRegistry().stopQueues();
+    await getTaskQueueRegistry().clearQueues();
+    await unregisterKnowledgeBase(kbId);
+    kb.destroy();
+  });
+
+  afterAll(async () => {
+    await setTaskQueueRegistry(null);
+  });
+
+  it("records the embedding model of a registered knowledge base", async () => {
+    const record = await getGlobalKnowledgeBaseRepository().getKnowledgeBase(kbId);
+    expect(record?.embedding_model).toBe("fake:embed-v1");
+    expect(() => kb.assertEmbeddingModel("fake:embed-v1")).not.toThrow();
+    expect(() => kb.assertEmbeddingModel("fake:other")).toThrow("fake:embed-v1");
+  });
+
+  it("serves the old index while re-embedding, then switches", async () => {
+    const release = deferred();
+    gate = release.promise;
+    const handle = await startEmbeddingMigration(kbId, {
+      model: modelV2,
+      storage: newStorage(),
+      chunkTable: "kb_chunks_v2",
+    });
+    await reached.promise;
+
+    // Still on the old model and vectors
+    expect(kb.embeddingModel).toBe("fake:embed-v1");
+    const results = await kb.similaritySearch(new Float32Array([1, 0, 0]), { topK: 1 });
+    expect(results[0].chunk_id).toBe("c1");
+    expect(() => kb.assertEmbeddingModel("fake:embed-v2")).toThrow("has not completed");
+    const pendingRecord = await getGlobalKnowledgeBaseRepository().getKnowledgeBase(kbId);
+    expect(pendingRecord).toMatchObject({
+      pending_embedding_model: "fake:embed-v2",
+      pending_chunk_table: "kb_chunks_v2",
+      pending_vector_dimensions: 4,
+    });
+
+    // Writes during the migration reach the new storage too
+    await kb.upsertChunk({
+      chunk_id: "c3",
+      doc_id: "doc2",
+      vector: new Float32Array([0, 0, 1]),
+      metadata: { ...metadata("c3", "third"), doc_id: "doc2" },
+    });
+    await kb.deleteChunksForDocument("doc1");
+
+    release.resolve();
+    const output = await handle.waitFor();
+    expect(output).toMatchObject({ kb_id: kbId, embedding_model: "fake:embed-v2", deleted: 2 });
+
+    expect(kb.embeddingModel).toBe("fake:embed-v2");
+    expect(kb.pendingEmbeddingMigration).toBeUndefined();
+    expect(kb.getVectorDimensions()).toBe(4);
+    const chunks = (await kb.getAllChunks()) ?? [];
+    expect(chunks.map((c) => c.chunk_id)).toEqual(["c3"]);
+    expect(Array.from(chunks[0].vector)).toEqual([5, 1, 2, 3]);
+    expect(embedded).toContain("third");
+
+    const record = await getGlobalKnowledgeBaseRepository().getKnowledgeBase(kbId);
+    expect(record).toMatchObject({
+      embedding_model: "fake:embed-v2",
+      chunk_table: "kb_chunks_v2",
+      vector_dimensions: 4,
+    });
+    expect(record?.pending_embedding_model).toBeUndefined();
+    expect(() => kb.assertEmbeddingModel("fake:embed-v1")).toThrow("fake:embed-v2");
+  });
+
+  it("waits for a chunk write in flight before switching", async () => {
+    const release = deferred();
+    gate = release.promise;
+    const handle = await startEmbeddingMigration(kbId, { model: modelV2, storage: newStorage() });
+    await reached.promise;
+
+    // A write that has started on the old storage but not landed yet
+    const oldStorage = kb.vectorStorage;
+    const put = oldStorage.put.bind(oldStorage);
+    const landing = deferred();
+    oldStorage.put = (async (chunk) => {
+      await landing.promise;
+      return put(chunk);
+    }) as typeof oldStorage.put;
+    const write = kb.upsertChunk({
+      chunk_id: "c3",
+      doc_id: "doc1",
+      vector: new Float32Array([0, 0, 1]),
+      metadata: metadata("c3", "third"),
+    });
+
+    release.resolve();
+    await sleep(20);
+    expect(kb.embeddingModel).toBe("fake:embed-v1");
+
+    landing.resolve();
+    await write;
+    await handle.waitFor();
+    expect(kb.embeddingModel).toBe("fake:embed-v2");
+    const chunks = (await kb.getAllChunks()) ?? [];
+    expect(chunks.map((c) => c.chunk_id).sort()).toEqual(["c1", "c2", "c3"]);
+    expect(embedded).toContain("third");
+  });
+
+  it("holds chunk writes back while the switch is recorded", async () => {
+    const repo = getGlobalKnowledgeBaseRepository();
+    const update = repo.updateKnowledgeBase.bind(repo);
+    const recording = deferred();
+    const recorded = deferred();
+    repo.updateKnowledgeBase = (async (record) => {
+      if (record.embedding_model === "fake:embed-v2") {
+        recording.resolve();
+        await recorded.promise;
+      }
+      return update(record);
+    }) as typeof repo.updateKnowledgeBase;
+
+    try {
+      const handle = await startEmbeddingMigration(kbId, { model: modelV2, storage: newStorage() });
+      await recording.promise;
+      const write = kb.upsertChunk({
+        chunk_id: "c3",
+        doc_id: "doc1",
+        vector: new Float32Array([9, 1, 2, 3]),
+        metadata: metadata("c3", "third"),
+      });
+      await sleep(20);
+      expect(kb.embeddingModel).toBe("fake:embed-v1");
+
+      recorded.resolve();
+      await write;
+      await handle.waitFor();
+    } finally {
+      repo.updateKnowledgeBase = update;
+    }
+
+    expect(kb.embeddingModel).toBe("fake:embed-v2");
+    const chunks = (await kb.getAllChunks()) ?? [];
+    expect(chunks.map((c) => c.chunk_id).sort()).toEqual(["c1", "c2", "c3"]);
+  });
+
+  it("destroys the previous storage after switching", async () => {
+    const oldStorage = kb.vectorStorage;
+    let destroyed = false;
+    oldStorage.destroy = () => {
+      destroyed = true;
+    };
+
+    const handle = await startEmbeddingMigration(kbId, { model: modelV2, storage: newStorage() });
+    await handle.waitFor();
+
+    expect(kb.vectorStorage).not.toBe(oldStorage);
+    expect(destroyed).toBe(true);
+  });
+
+  it("stays on the current storage when the switch cannot be recorded", async () => {
+    const repo = getGlobalKnowledgeBaseRepository();
+    const update = repo.updateKnowledgeBase.bind(repo);
+    repo.updateKnowledgeBase = (async (record) => {
+      if (record.embedding_model === "fake:embed-v2") throw new Error("repository down");
+      return update(record);
+    }) as typeof repo.updateKnowledgeBase;
+
+    try {
+      const handle = await startEmbeddingMigration(kbId, { model: modelV2, storage: newStorage() });
+      await expect(handle.waitFor()).rejects.toThrow("repository down");
+    } finally {
+      repo.updateKnowledgeBase = update;
+    }
+
+    expect(kb.embeddingModel).toBe("fake:embed-v1");
+    expect(kb.pendingEmbeddingMigration).toBeUndefined();
+    expect(kb.getVectorDimensions()).toBe(3);
+    const record = await repo.getKnowledgeBase(kbId);
+    expect(record?.embedding_model).toBe("fake:embed-v1");
+    expect(record?.pending_embedding_model).toBeUndefined();
+  });
+
+  it("abandons the migration when embedding fails", async () => {
+    failEmbedding = true;
+    const handle = await startEmbeddingMigration(kbId, { model: modelV2, storage: newStorage() });
+    await expect(handle.waitFor()).rejects.toThrow();
+
+    expect(kb.embeddingModel).toBe("fake:embed-v1");
+    expect(kb.pendingEmbeddingMigration).toBeUndefined();
+    expect(kb.getVectorDimensions()).toBe(3);
+    expect(await kb.chunkCount()).toBe(2);
+    const record = await getGlobalKnowledgeBaseRepository().getKnowledgeBase(kbId);
+    expect(record?.pending_embedding_model).toBeUndefined();
+  });
+
+  it("refuses a second migration or one to the current model", async () => {
+    await expect(
+      startEmbeddingMigration(kbId, {
+        model: { ...modelV2, model_id: "fake:embed-v1" },
+        storage: newStorage(),
+      })
+    ).rejects.toThrow("already uses");
+
+    gate = new Promise(() => {});
+    await startEmbeddingMigration(kbId, { model: modelV2, storage: newStorage() });
+    await expect(
+      startEmbeddingMigration(kbId, {
+        model: { ...modelV2, model_id: "fake:embed-v3" },
+        storage: newStorage(),
+      })
+    ).rejects.toThrow("already migrating");
+    kb.abortEmbeddingMigration();
+  });
+});
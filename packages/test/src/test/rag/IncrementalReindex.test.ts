@@ -0,0 +1,252 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AiProviderRunFn, ModelConfig } from "@workglow/ai";
+import {
+  AiProvider,
+  ChunkVectorReindexTask,
+  DocumentUpsertTask,
+  getAiProviderRegistry,
+} from "@workglow/ai";
+import {
+  createKnowledgeBase,
+  hashChunkText,
+  hashDocumentTree,
+  KnowledgeBase,
+  StructuralParser,
+} from "@workglow/knowledge-base";
+import type { ChunkRecord, DocumentRootNode } from "@workglow/knowledge-base";
+import { uuid4 } from "@workglow/util";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+const makeChunk = (text: string, doc_id = "doc1"): ChunkRecord => ({
+  chunkId: uuid4(),
+  doc_id,
+  text,
+  nodePath: ["root"],
+  depth: 1,
+});
+
+/** Deterministic 3-d "embedding" of a text */
+const embedText = (text: string) =>
+  new Float32Array([text.length, text.charCodeAt(0) || 0, text.charCodeAt(text.length - 1) || 0]);
+
+class FakeEmbeddingProvider extends AiProvider {
+  override readonly name = "fake-embedding";
+  override readonly displayName = "Fake Embedding";
+  override readonly isLocal = true;
+  override readonly supportsBrowser = false;
+  override readonly taskTypes = ["TextEmbeddingTask"] as const;
+}
+
+describe("hashDocumentTree", () => {
+  const parse = (text: string) => StructuralParser.parseMarkdown("doc1", text, "Doc");
+
+  it("hashes every node, ignoring node IDs and offsets", async () => {
+    const a = await hashDocumentTree(await parse("# Intro\n\nFirst.\n\n# Body\n\nSecond."));
+    const b = await hashDocumentTree(await parse("# Intro\n\nFirst!\n\n# Body\n\nSecond."));
+
+    expect(a.contentHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(a.children.every((child) => typeof child.contentHash === "string")).toBe(true);
+    expect(b.contentHash).not.toBe(a.contentHash);
+    // The first section changed, the second kept its hash despite new node IDs
+    expect(b.children[0].contentHash).not.toBe(a.children[0].contentHash);
+    expect(b.children[1].nodeId).not.toBe(a.children[1].nodeId);
+    expect(b.children[1].contentHash).toBe(a.children[1].contentHash);
+  });
+});
+
+describe("KnowledgeBase.reindexDocumentChunks", () => {
+  let kb: KnowledgeBase;
+  let embedded: string[];
+  const embed = async (texts: string[]) => {
+    embedded.push(...texts);
+    return texts.map(embedText);
+  };
+
+  beforeEach(async () => {
+    kb = await createKnowledgeBase({
+      name: `reindex-test-${uuid4()}`,
+      vectorDimensions: 3,
+      register: false,
+    });
+    embedded = [];
+  });
+
+  afterEach(() => {
+    kb.destroy();
+  });
+
+  it("embeds everything on the first run", async () => {
+    const result = await kb.reindexDocumentChunks(
+      "doc1",
+      [makeChunk("alpha"), makeChunk("beta")],
+      embed
+    );
+    expect(result).toMatchObject({ reused: 0, embedded: 2, deleted: 0 });
+    expect(embedded).toEqual(["alpha", "beta"]);
+
+    const stored = await kb.getChunksForDocument("doc1");
+    expect(stored.map((c) => c.metadata.contentHash).sort()).toEqual(
+      [await hashChunkText("alpha"), await hashChunkText("beta")].sort()
+    );
+  });
+
+  it("reuses unchanged chunks, embeds changed ones and deletes orphans", async () => {
+    const first = await kb.reindexDocumentChunks(
+      "doc1",
+      [makeChunk("alpha"), makeChunk("beta"), makeChunk("gamma")],
+      embed
+    );
+    embedded = [];
+
+    const second = await kb.reindexDocumentChunks(
+      "doc1",
+      [makeChunk("alpha"), makeChunk("beta v2"), makeChunk("delta")],
+      embed
+    );
+    expect(second).toMatchObject({ reused: 1, embedded: 2, deleted: 2 });
+    expect(embedded).toEqual(["beta v2", "delta"]);
+    expect(second.chunk_ids[0]).toBe(first.chunk_ids[0]);
+
+    const stored = await kb.getChunksForDocument("doc1");
+    expect(stored.map((c) => c.metadata.text).sort()).toEqual(["alpha", "beta v2", "delta"]);
+    const alpha = stored.find((c) => c.metadata.text === "alpha")!;
+    expect(Array.from(alpha.vector)).toEqual(Array.from(embedText("alpha")));
+  });
+
+  it("updates the metadata of reused chunks", async () => {
+    await kb.reindexDocumentChunks("doc1", [makeChunk("alpha")], embed);
+    const chunk = { ...makeChunk("alpha"), nodePath: ["root", "moved"] };
+    const result = await kb.reindexDocumentChunks("doc1", [chunk], embed);
+
+    expect(result).toMatchObject({ reused: 1, embedded: 0, deleted: 0 });
+    const [stored] = await kb.getChunksForDocument("doc1");
+    expect(stored.metadata.nodePath).toEqual(["root", "moved"]);
+  });
+
+  it("matches duplicate texts one to one", async () => {
+    await kb.reindexDocumentChunks("doc1", [makeChunk("same"), makeChunk("same")], embed);
+    const result = await kb.reindexDocumentChunks("doc1", [makeChunk("same")], embed);
+    expect(result).toMatchObject({ reused: 1, embedded: 0, deleted: 1 });
+    expect(await kb.getChunksForDocument("doc1")).toHaveLength(1);
+  });
+
+  it("matches chunks stored without a content hash by their text", async () => {
+    await kb.upsertChunk({
+      doc_id: "doc1",
+      vector: embedText("legacy"),
+      metadata: makeChunk("legacy"),
+    });
+    const result = await kb.reindexDocumentChunks("doc1", [makeChunk("legacy")], embed);
+    expect(result).toMatchObject({ reused: 1, embedded: 0, deleted: 0 });
+  });
+
+  it("leaves other documents alone and writes nothing when embedding fails", async () => {
+    await kb.reindexDocumentChunks("doc2", [makeChunk("other", "doc2")], embed);
+    await kb.reindexDocumentChunks("doc1", [makeChunk("alpha")], embed);
+
+    const failing = async (): Promise<Float32Array[]> => {
+      throw new Error("embedding failed");
+    };
+    await expect(kb.reindexDocumentChunks("doc1", [makeChunk("beta")], failing)).rejects.toThrow(
+      "embedding failed"
+    );
+    expect((await kb.getChunksForDocument("doc1")).map((c) => c.metadata.text)).toEqual(["alpha"]);
+
+    const result = await kb.reindexDocumentChunks("doc1", [], embed);
+    expect(result).toMatchObject({ chunk_ids: [], deleted: 1 });
+    expect(await kb.getChunksForDocument("doc2")).toHaveLength(1);
+  });
+
+  it("rejects chunks of another document", async () => {
+    await expect(
+      kb.reindexDocumentChunks("doc1", [makeChunk("alpha", "doc2")], embed)
+    ).rejects.toThrow("doc_id");
+  });
+});
+
+describe("ChunkVectorReindexTask", () => {
+  let kb: KnowledgeBase;
+  let embedded: string[];
+  const model = {
+    model_id: "fake:embed",
+    provider: "fake-embedding",
+    provider_config: { model_name: "fake-embed" },
+  } as unknown as ModelConfig;
+
+  beforeEach(async () => {
+    kb = await createKnowledgeBase({
+      name: `reindex-task-test-${uuid4()}`,
+      vectorDimensions: 3,
+      register: false,
+    });
+    embedded = [];
+    const registry = getAiProviderRegistry();
+    registry.registerProvider(new FakeEmbeddingProvider());
+    const run: AiProviderRunFn<any, any, ModelConfig> = async (input: { text: string[] }) => {
+      embedded.push(...input.text);
+      return { vector: input.text.map(embedText) };
+    };
+    registry.registerRunFn("fake-embedding", "TextEmbeddingTask", run);
+  });
+
+  afterEach(() => {
+    getAiProviderRegistry().unregisterProvider("fake-embedding");
+    kb.destroy();
+  });
+
+  it("embeds only the chunks that changed and reports what it did", async () => {
+    const run = (texts: string[]) =>
+      new ChunkVectorReindexTask().run({
+        knowledgeBase: kb,
+        doc_id: "doc1",
+        chunks: texts.map((text) => makeChunk(text)),
+        model,
+        doc_title: "Doc",
+      });
+
+    const first = await run(["alpha", "beta"]);
+    expect(first).toMatchObject({ doc_id: "doc1", count: 2, reused: 0, embedded: 2, deleted: 0 });
+
+    embedded = [];
+    const second = await run(["alpha", "gamma"]);
+    expect(second).toMatchObject({ count: 2, reused: 1, embedded: 1, deleted: 1 });
+    expect(embedded).toEqual(["gamma"]);
+
+    const stored = await kb.getChunksForDocument("doc1");
+    expect(stored.every((c) => c.metadata.doc_title === "Doc")).toBe(true);
+  });
+});
+
+describe("DocumentUpsertTask content hashes", () => {
+  it("stores node hashes and reports whether the content changed", async () => {
+    const kb = await createKnowledgeBase({
+      name: `upsert-hash-test-${uuid4()}`,
+      vectorDimensions: 3,
+      register: false,
+    });
+    const upsert = async (markdown: string) =>
+      new DocumentUpsertTask().run({
+        knowledgeBase: kb,
+        doc_id: "doc1",
+        documentTree: (await StructuralParser.parseMarkdown(
+          "doc1",
+          markdown,
+          "Doc"
+        )) as DocumentRootNode,
+        title: "Doc",
+      });
+
+    expect(await upsert("# A\n\nText.")).toEqual({ doc_id: "doc1", changed: true });
+    const stored = await kb.getDocument("doc1");
+    expect(stored!.root.contentHash).toMatch(/^[0-9a-f]{64}$/);
+
+    expect((await upsert("# A\n\nText.")).changed).toBe(false);
+    expect((await upsert("# A\n\nText, edited.")).changed).toBe(true);
+    kb.destroy();
+  });
+});
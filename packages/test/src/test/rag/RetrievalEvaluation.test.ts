@@ -0,0 +1,180 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { RetrievalEvalQuery } from "@workglow/ai";
+import {
+  evaluateRetrieval,
+  formatRetrievalEvalReport,
+  getAiProviderRegistry,
+  HASHING_EMBEDDING_MODEL,
+  HASHING_EMBEDDING_PROVIDER,
+  hashingEmbedding,
+  ndcgAtK,
+  recallAtK,
+  reciprocalRankAtK,
+  registerHashingEmbeddingProvider,
+  RetrievalEvalQueryPrimaryKey,
+  RetrievalEvalQuerySchema,
+} from "@workglow/ai";
+import {
+  createKnowledgeBase,
+  KnowledgeBase,
+  unregisterKnowledgeBase,
+} from "@workglow/knowledge-base";
+import { InMemoryTabularStorage } from "@workglow/storage";
+import { Workflow } from "@workglow/task-graph";
+import { uuid4 } from "@workglow/util";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+describe("retrieval metrics", () => {
+  const relevant = new Set(["a", "b"]);
+
+  it("computes recall, reciprocal rank and nDCG at k", () => {
+    expect(recallAtK(["x", "a", "y", "b"], relevant, 3)).toBe(0.5);
+    expect(recallAtK(["x", "a", "y", "b"], relevant, 4)).toBe(1);
+    expect(reciprocalRankAtK(["x", "a"], relevant, 5)).toBe(0.5);
+    expect(reciprocalRankAtK(["x", "y", "a"], relevant, 2)).toBe(0);
+    expect(ndcgAtK(["a", "b", "x"], relevant, 3)).toBe(1);
+    expect(ndcgAtK(["x", "a"], relevant, 2)).toBeCloseTo(1 / Math.log2(3) / (1 + 1 / Math.log2(3)));
+    expect(ndcgAtK(["a", "a"], new Set(["a"]), 2)).toBe(1);
+  });
+});
+
+describe("hashingEmbedding", () => {
+  it("is deterministic, normalized and similar for shared words", () => {
+    const a = hashingEmbedding("The cat sat on the mat", 64);
+    expect(Array.from(a)).toEqual(Array.from(hashingEmbedding("the CAT sat on the mat!", 64)));
+    expect(Math.hypot(...a)).toBeCloseTo(1, 5);
+
+    const dot = (x: Float32Array, y: Float32Array) => x.reduce((s, v, i) => s + v * y[i], 0);
+    const near = hashingEmbedding("a cat on a mat", 64);
+    const far = hashingEmbedding("quarterly revenue forecast", 64);
+    expect(dot(a, near)).toBeGreaterThan(dot(a, far));
+  });
+});
+
+describe("evaluateRetrieval", () => {
+  let kb: KnowledgeBase;
+  let kbId: string;
+  const docs: Record<string, string[]> = {
+    cats: ["Cats purr and chase mice.", "A cat sleeps most of the day."],
+    rockets: ["Rockets burn fuel to reach orbit.", "Orbital launches need rockets."],
+    bread: ["Bread dough rises with yeast.", "Bake bread in a hot oven."],
+  };
+
+  const dataset: RetrievalEvalQuery[] = [
+    { query_id: "q1", query: "why do cats purr", relevant_chunk_ids: ["cats-0"] },
+    { query_id: "q2", query: "rockets reach orbit", relevant_doc_ids: ["rockets"] },
+    { query_id: "q3", query: "bake bread with yeast", relevant_chunk_ids: ["bread-0", "bread-1"] },
+  ];
+
+  const retrieval = (topK: number) => (query: string, knowledgeBase?: KnowledgeBase | string) =>
+    new Workflow().chunkRetrieval({
+      knowledgeBase: knowledgeBase!,
+      query,
+      model: HASHING_EMBEDDING_MODEL,
+      topK,
+    });
+
+  beforeEach(async () => {
+    await registerHashingEmbeddingProvider();
+    kbId = `eval-test-${uuid4()}`;
+    kb = await createKnowledgeBase({
+      name: kbId,
+      vectorDimensions: HASHING_EMBEDDING_MODEL.provider_config.native_dimensions,
+    });
+    for (const [doc_id, texts] of Object.entries(docs)) {
+      for (const [i, text] of texts.entries()) {
+        await kb.upsertChunk({
+          doc_id,
+          vector: hashingEmbedding(text),
+          metadata: { chunkId: `${doc_id}-${i}`, doc_id, text, nodePath: [doc_id], depth: 1 },
+        });
+      }
+    }
+  });
+
+  afterEach(async () => {
+    getAiProviderRegistry().unregisterProvider(HASHING_EMBEDDING_PROVIDER);
+    await unregisterKnowledgeBase(kbId);
+    kb.destroy();
+  });
+
+  it("scores each configuration offline and reports them side by side", async () => {
+    const report = await evaluateRetrieval({
+      dataset,
+      knowledgeBase: kbId,
+      k: 2,
+      configurations: [
+        { name: "top-2", workflow: retrieval(2) },
+        { name: "top-1", workflow: retrieval(1) },
+      ],
+    });
+
+    expect(report.k).toBe(2);
+    const [top2, top1] = report.runs;
+    expect(top2).toMatchObject({ name: "top-2", queryCount: 3, failures: 0 });
+    expect(top2.recall).toBe(1);
+    expect(top2.mrr).toBe(1);
+    expect(top2.ndcg).toBeCloseTo(1, 10);
+    // Only one of q3's two relevant chunks fits in the top 1
+    expect(top1.recall).toBeCloseTo((1 + 1 + 0.5) / 3, 10);
+    expect(top1.results.find((r) => r.query_id === "q2")!.retrieved).toEqual(["rockets"]);
+    expect(top2.p95LatencyMs).toBeGreaterThanOrEqual(top2.p50LatencyMs);
+
+    const table = formatRetrievalEvalReport(report);
+    expect(table.split("\n")).toHaveLength(4);
+    expect(table).toContain("| Configuration | Recall@2 | MRR@2 | nDCG@2 |");
+    expect(table).toContain("| top-1 | 0.833 |");
+
+    // Deterministic embeddings give the same rankings on every run
+    const again = await evaluateRetrieval({
+      dataset,
+      knowledgeBase: kbId,
+      k: 2,
+      configurations: [{ name: "top-2", workflow: retrieval(2) }],
+    });
+    expect(again.runs[0].results.map((r) => r.retrieved)).toEqual(
+      top2.results.map((r) => r.retrieved)
+    );
+  });
+
+  it("reads the dataset from tabular storage and records failures", async () => {
+    const storage = new InMemoryTabularStorage(
+      RetrievalEvalQuerySchema,
+      RetrievalEvalQueryPrimaryKey
+    );
+    await storage.setupDatabase();
+    await storage.putBulk(dataset);
+
+    const report = await evaluateRetrieval({
+      dataset: storage,
+      knowledgeBase: kbId,
+      configurations: [
+        {
+          name: "broken",
+          workflow: (query) =>
+            new Workflow().chunkRetrieval({ knowledgeBase: kbId, query, topK: 2 } as any),
+        },
+      ],
+    });
+
+    const [broken] = report.runs;
+    expect(broken.failures).toBe(3);
+    expect(broken.recall).toBe(0);
+    expect(broken.results[0].error).toContain("model");
+  });
+
+  it("rejects queries without relevance judgements", async () => {
+    await expect(
+      evaluateRetrieval({
+        dataset: [{ query_id: "q", query: "anything" }],
+        knowledgeBase: kbId,
+        configurations: [{ name: "top-2", workflow: retrieval(2) }],
+      })
+    ).rejects.toThrow("lists no relevant");
+  });
+});
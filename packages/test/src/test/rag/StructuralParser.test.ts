@@ -5,7 +5,7 @@
  */
 
 import { NodeKind, StructuralParser } from "@workglow/knowledge-base";
-import type { SectionNode } from "@workglow/knowledge-base";
+import type { DocumentNode, SectionNode } from "@workglow/knowledge-base";
 import { describe, expect, it } from "vitest";
 import { setLogger } from "@workglow/util";
 import { getTestingLogger } from "../../binding/TestingLogger";
@@ -64,6 +64,12 @@ Paragraph two.`;
         expect(child.range.endOffset).toBeLessThanOrEqual(markdown.length);
         expect(child.range.endOffset).toBeGreaterThan(child.range.startOffset);
       }
+
+      // Paragraph ranges cover exactly the paragraph text
+      const paragraph = (root.children[0] as SectionNode).children[0];
+      expect(markdown.slice(paragraph.range.startOffset, paragraph.range.endOffset)).toBe(
+        paragraph.text
+      );
     });
 
     it("should handle nested sections correctly", async () => {
@@ -133,6 +139,151 @@ Third paragraph here.`;
     });
   });
 
+  describe("HTML parsing", () => {
+    const html = `<!DOCTYPE html>
+<html>
+<head><title>Page</title><style>p { color: red; }</style></head>
+<body>
+  <header><nav><a href="/">Home</a> | <a href="/docs">Docs</a></nav></header>
+  <main>
+    <article>
+      <header><h1>Guide &amp; Reference</h1></header>
+      <p>Intro <b>text</b> for
+        the guide.</p>
+      <h2>Install</h2>
+      <ul><li>Download<li>Run <code>setup</code>
+        <ol><li>Accept</li><li>Finish</li></ol>
+      </li></ul>
+      <pre><code>npm install
+  workglow</code></pre>
+      <h2>Options</h2>
+      <table><tr><th>Name</th><th>Default</th></tr><tr><td>debug</td><td>false</td></tr></table>
+      <script>track();</script>
+    </article>
+  </main>
+  <footer>Copyright</footer>
+</body>
+</html>`;
+
+    it("should map headings to sections and blocks to paragraphs", async () => {
+      const root = await StructuralParser.parseHtml("doc_html", html, "Guide");
+
+      expect(root.children).toHaveLength(1);
+      const h1 = root.children[0] as SectionNode;
+      expect(h1.kind).toBe(NodeKind.SECTION);
+      expect(h1.level).toBe(1);
+      expect(h1.title).toBe("Guide & Reference");
+      expect(h1.children[0].text).toBe("Intro text for the guide.");
+
+      const [install, options] = h1.children.filter(
+        (c): c is SectionNode => c.kind === NodeKind.SECTION
+      );
+      expect(install.title).toBe("Install");
+      expect(install.children.map((c) => c.text)).toEqual([
+        "- Download\n- Run setup\n  1. Accept\n  2. Finish",
+        "npm install\n  workglow",
+      ]);
+      expect(options.children[0].text).toBe("Name | Default\ndebug | false");
+    });
+
+    it("should strip navigation, scripts, styles and page chrome", async () => {
+      const root = await StructuralParser.parseHtml("doc_html", html, "Guide");
+      const texts: string[] = [];
+      const collect = (node: DocumentNode) => {
+        texts.push(node.text);
+        if ("children" in node) node.children.forEach(collect);
+      };
+      root.children.forEach(collect);
+      const all = texts.join("\n");
+      expect(all).not.toContain("Home");
+      expect(all).not.toContain("track()");
+      expect(all).not.toContain("color");
+      expect(all).not.toContain("Copyright");
+    });
+
+    it("should preserve offsets into the HTML source", async () => {
+      const root = await StructuralParser.parseHtml("doc_html", html, "Guide");
+      const h1 = root.children[0] as SectionNode;
+      expect(html.slice(h1.range.startOffset).startsWith("<h1>")).toBe(true);
+      expect(h1.range.endOffset).toBe(html.length);
+
+      const intro = h1.children[0];
+      expect(html.slice(intro.range.startOffset, intro.range.endOffset)).toBe(
+        "Intro <b>text</b> for\n        the guide."
+      );
+
+      const [install, options] = h1.children.filter(
+        (c): c is SectionNode => c.kind === NodeKind.SECTION
+      );
+      expect(install.range.endOffset).toBe(options.range.startOffset);
+      const table = options.children[0];
+      const source = html.slice(table.range.startOffset, table.range.endOffset);
+      expect(source.startsWith("<table>")).toBe(true);
+      expect(source.endsWith("</table>")).toBe(true);
+    });
+
+    it("should tolerate fragments and unclosed tags", async () => {
+      const root = await StructuralParser.parseHtml(
+        "doc_frag",
+        "<p>One<p>Two &lt;3 &#x263A;<div>Three</div>",
+        "Fragment"
+      );
+      expect(root.children.map((c) => c.text)).toEqual(["One", "Two <3 \u263A", "Three"]);
+    });
+  });
+
+  describe("PDF text parsing", () => {
+    const pdf = [
+      "ACME Report\n1 INTRODUCTION\nThis report describes the re-\nsults of the study.\n\n1.1 Scope\nThe scope is limited\nPage 1",
+      "ACME Report\nto the first quarter.\n\n2 METHODS\nWe used surveys.\nPage 2",
+      "ACME Report\n2.1 Sampling\nSamples were random.\nPage 3",
+    ].join("\f");
+
+    it("should detect headings and nest numbered sections", async () => {
+      const root = await StructuralParser.parsePdf("doc_pdf", pdf, "Report");
+      const top = root.children.filter((c): c is SectionNode => c.kind === NodeKind.SECTION);
+      expect(top.map((s) => s.title)).toEqual(["1 INTRODUCTION", "2 METHODS"]);
+      expect(top[0].children[0].text).toBe("This report describes the results of the study.");
+
+      const scope = top[0].children[1] as SectionNode;
+      expect(scope.level).toBe(2);
+      expect(scope.title).toBe("1.1 Scope");
+      // The paragraph continues across the page break, without the running header
+      expect(scope.children[0].text).toBe("The scope is limited to the first quarter.");
+
+      const sampling = top[1].children[1] as SectionNode;
+      expect(sampling.title).toBe("2.1 Sampling");
+    });
+
+    it("should drop running headers and page numbers and keep offsets", async () => {
+      const root = await StructuralParser.parsePdf("doc_pdf", pdf, "Report");
+      const paragraphs: DocumentNode[] = [];
+      const collect = (node: DocumentNode) => {
+        if (node.kind === NodeKind.PARAGRAPH) paragraphs.push(node);
+        if ("children" in node) node.children.forEach(collect);
+      };
+      root.children.forEach(collect);
+      for (const paragraph of paragraphs) {
+        expect(paragraph.text).not.toContain("ACME Report");
+        expect(paragraph.text).not.toContain("Page");
+      }
+      const methods = paragraphs.find((p) => p.text === "We used surveys.")!;
+      expect(pdf.slice(methods.range.startOffset, methods.range.endOffset)).toBe(
+        "We used surveys."
+      );
+    });
+
+    it("should fall back to page sections when there are no headings", async () => {
+      const root = await StructuralParser.parsePdf(
+        "doc_pages",
+        "First page text.\fSecond page text.",
+        "Pages"
+      );
+      expect(root.children.map((c) => (c as SectionNode).title)).toEqual(["Page 1", "Page 2"]);
+      expect((root.children[1] as SectionNode).children[0].text).toBe("Second page text.");
+    });
+  });
+
   describe("Auto-detect", () => {
     it("should auto-detect markdown", async () => {
       const markdown = "# Header\n\nParagraph.";
@@ -145,6 +296,16 @@ Third paragraph here.`;
       expect(hasSection).toBe(true);
     });
 
+    it("should auto-detect html", async () => {
+      const root = await StructuralParser.parse(
+        "doc_auto_html",
+        "<h2>Header</h2><p>Paragraph.</p>",
+        "Auto"
+      );
+      expect(root.children[0].kind).toBe(NodeKind.SECTION);
+      expect((root.children[0] as SectionNode).children[0].text).toBe("Paragraph.");
+    });
+
     it("should default to plain text when no markdown markers", async () => {
       const text = "Just plain text here.";
       const doc_id = "doc_auto456";
@@ -28,17 +28,20 @@ describe("FsFolderKvStorage", () => {
     } catch {}
   });
 
-  runGenericKvRepositoryTests(async (keyType, valueType) => {
-    // Create a deterministic file extension from the schema type
-    const schemaType =
-      typeof valueType === "object" && valueType !== null && "type" in valueType
-        ? String(valueType.type)
-        : "data";
-    return new FsFolderKvStorage(
-      testDir,
-      (key) => `${String(key)}.${schemaType}`,
-      keyType,
-      valueType
-    );
-  });
+  runGenericKvRepositoryTests(
+    async (keyType, valueType) => {
+      // Create a deterministic file extension from the schema type
+      const schemaType =
+        typeof valueType === "object" && valueType !== null && "type" in valueType
+          ? String(valueType.type)
+          : "data";
+      return new FsFolderKvStorage(
+        testDir,
+        (key) => `${String(key)}.${schemaType}`,
+        keyType,
+        valueType
+      );
+    },
+    { listsEntries: false }
+  );
 });
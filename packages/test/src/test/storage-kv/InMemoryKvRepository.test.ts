@@ -5,9 +5,9 @@
  */
 
 import { InMemoryKvStorage } from "@workglow/storage";
-import { describe } from "vitest";
+import { describe, expect, it } from "vitest";
 import { runGenericKvRepositoryTests } from "./genericKvRepositoryTests";
-import { setLogger } from "@workglow/util";
+import { setLogger, sleep } from "@workglow/util";
 import { getTestingLogger } from "../../binding/TestingLogger";
 
 describe("InMemoryKvStorage", () => {
@@ -16,4 +16,22 @@ describe("InMemoryKvStorage", () => {
   runGenericKvRepositoryTests(
     async (keyType, valueType) => new InMemoryKvStorage(keyType, valueType)
   );
+
+  it("removes expired entries in the background while the sweeper runs", async () => {
+    const storage = new InMemoryKvStorage();
+    const expired: unknown[] = [];
+    storage.on("expired", (key) => expired.push(key));
+    const stop = storage.startExpirySweeper(10);
+    try {
+      await storage.put("short", "soon gone", { ttlMs: 5 });
+      await sleep(50);
+      expect(expired).toEqual(["short"]);
+    } finally {
+      stop();
+    }
+
+    await storage.put("later", "stays", { ttlMs: 5 });
+    await sleep(30);
+    expect(expired).toEqual(["short"]);
+  });
 });
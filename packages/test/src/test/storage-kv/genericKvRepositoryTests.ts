@@ -5,11 +5,16 @@
  */
 
 import { DefaultKeyValueSchema, IKvStorage } from "@workglow/storage";
+import { sleep } from "@workglow/util";
 import { FromSchema, JsonSchema } from "@workglow/util/schema";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
 
 export function runGenericKvRepositoryTests(
-  createRepository: (keyType: JsonSchema, valueType: JsonSchema) => Promise<IKvStorage<any, any>>
+  createRepository: (keyType: JsonSchema, valueType: JsonSchema) => Promise<IKvStorage<any, any>>,
+  options: {
+    /** Whether the storage implements getAll() and size() */
+    readonly listsEntries?: boolean;
+  } = {}
 ) {
   describe("with default schemas (key and value)", () => {
     let repository: IKvStorage<
@@ -131,4 +136,73 @@ export function runGenericKvRepositoryTests(
       }
     });
   });
+
+  describe("with expiring entries", () => {
+    let repository: IKvStorage<string, string>;
+    let expired: string[];
+
+    beforeEach(async () => {
+      repository = await createRepository({ type: "string" }, {});
+      await (repository as any).setupDatabase?.();
+      expired = [];
+      repository.on("expired", (key) => expired.push(key));
+    });
+
+    afterEach(async () => {
+      await repository.deleteAll();
+      await (repository as any).destroy?.();
+    });
+
+    it("returns an entry until its time to live passes, then removes it", async () => {
+      await repository.put("short", "soon gone", { ttlMs: 40 });
+      await repository.put("forever", "stays");
+      expect(await repository.get("short")).toBe("soon gone");
+
+      await sleep(60);
+      expect(await repository.get("short")).toBeUndefined();
+      expect(await repository.get("forever")).toBe("stays");
+      expect(expired).toEqual(["short"]);
+    });
+
+    it("sweeps expired entries without reading them", async () => {
+      await repository.putBulk([
+        { key: "a", value: "1", ttlMs: 20 },
+        { key: "b", value: "2", ttlMs: 20 },
+        { key: "c", value: "3", ttlMs: 60_000 },
+        { key: "d", value: "4" },
+      ]);
+      await sleep(40);
+
+      expect(await repository.sweepExpired()).toBe(2);
+      expect(expired.sort()).toEqual(["a", "b"]);
+      expect(await repository.sweepExpired()).toBe(0);
+      expect(await repository.get("c")).toBe("3");
+      expect(await repository.get("d")).toBe("4");
+    });
+
+    it("clears the expiry when an entry is stored again without a time to live", async () => {
+      await repository.put("key", "first", { ttlMs: 20 });
+      await repository.put("key", "second");
+      await sleep(40);
+      expect(await repository.get("key")).toBe("second");
+      expect(expired).toEqual([]);
+    });
+
+    it("rejects a time to live that is not positive", async () => {
+      await expect(repository.put("key", "value", { ttlMs: 0 })).rejects.toThrow(/ttlMs/);
+      await expect(repository.put("key", "value", { ttlMs: Number.NaN })).rejects.toThrow(/ttlMs/);
+    });
+
+    if (options.listsEntries !== false) {
+      it("leaves expired entries out of getAll() and size()", async () => {
+        await repository.put("short", "soon gone", { ttlMs: 20 });
+        await repository.put("forever", "stays");
+        await sleep(40);
+
+        expect(await repository.size()).toBe(1);
+        expect(await repository.getAll()).toEqual([{ key: "forever", value: "stays" }]);
+        expect(expired).toEqual(["short"]);
+      });
+    }
+  });
 }
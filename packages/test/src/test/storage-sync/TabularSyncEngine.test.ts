@@ -0,0 +1,252 @@
+/**
+ * @license
+ * Copyright 2026 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  InMemoryTabularStorage,
+  remoteWins,
+  SyncConflict,
+  SyncConflictPolicy,
+  TabularSyncEngine,
+} from "@workglow/storage";
+import { DataPortSchemaObject, FromSchema } from "@workglow/util/schema";
+import { afterEach, describe, expect, it } from "vitest";
+
+const NoteSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    title: { type: "string" },
+    body: { type: "string" },
+    updatedAt: { type: "integer" },
+  },
+  required: ["id", "title", "body", "updatedAt"],
+  additionalProperties: false,
+} as const satisfies DataPortSchemaObject;
+const NotePrimaryKeyNames = ["id"] as const;
+
+type Note = FromSchema<typeof NoteSchema>;
+type Notes = InMemoryTabularStorage<typeof NoteSchema, typeof NotePrimaryKeyNames>;
+type Engine = TabularSyncEngine<typeof NoteSchema, typeof NotePrimaryKeyNames>;
+
+/** Remote stand-in that can be made unreachable */
+class FlakyNotes extends InMemoryTabularStorage<typeof NoteSchema, typeof NotePrimaryKeyNames> {
+  unreachable = false;
+
+  override async put(value: Note): Promise<Note> {
+    if (this.unreachable) throw new Error("remote unreachable");
+    return super.put(value);
+  }
+}
+
+const note = (id: string, title: string, updatedAt: number, body = ""): Note => ({
+  id,
+  title,
+  body,
+  updatedAt,
+});
+
+describe("TabularSyncEngine", () => {
+  const engines: Engine[] = [];
+
+  afterEach(() => {
+    for (const engine of engines.splice(0)) engine.stop();
+  });
+
+  function createReplica(
+    remote: Notes,
+    options: { conflictPolicy?: SyncConflictPolicy<Note>; online?: boolean } = {}
+  ): { local: Notes; engine: Engine } {
+    const local = new InMemoryTabularStorage(NoteSchema, NotePrimaryKeyNames);
+    const engine = new TabularSyncEngine(local, remote, NotePrimaryKeyNames, {
+      updatedAtColumn: "updatedAt",
+      ...options,
+    });
+    engines.push(engine);
+    return { local, engine };
+  }
+
+  it("pushes local writes and pulls remote writes while online", async () => {
+    const remote = new InMemoryTabularStorage(NoteSchema, NotePrimaryKeyNames);
+    await remote.put(note("existing", "from the server", 1));
+    const a = createReplica(remote);
+    const b = createReplica(remote);
+    await a.engine.start();
+    await b.engine.start();
+    expect(await a.local.get({ id: "existing" })).toMatchObject({ title: "from the server" });
+
+    await a.local.put(note("n1", "draft", 2));
+    await a.engine.whenIdle();
+    await b.engine.whenIdle();
+    expect(await remote.get({ id: "n1" })).toMatchObject({ title: "draft" });
+    expect(await b.local.get({ id: "n1" })).toMatchObject({ title: "draft" });
+
+    await b.local.delete({ id: "n1" });
+    await b.engine.whenIdle();
+    await a.engine.whenIdle();
+    expect(await remote.get({ id: "n1" })).toBeUndefined();
+    expect(await a.local.get({ id: "n1" })).toBeUndefined();
+    expect(await a.engine.getRowState({ id: "n1" })).toBeUndefined();
+  });
+
+  it("queues writes and deletes while offline and pushes them on reconnect", async () => {
+    const remote = new InMemoryTabularStorage(NoteSchema, NotePrimaryKeyNames);
+    await remote.put(note("old", "to delete", 1));
+    const { local, engine } = createReplica(remote);
+    await engine.start();
+
+    await engine.setOnline(false);
+    await local.put(note("n1", "written offline", 2));
+    await local.put(note("n1", "edited offline", 3));
+    await local.delete({ id: "old" });
+    await engine.whenIdle();
+
+    expect(await engine.pendingCount()).toBe(2);
+    expect(await engine.getRowState({ id: "n1" })).toMatchObject({
+      version: 2,
+      pending: true,
+      deleted: false,
+      base: null,
+    });
+    expect(await engine.getRowState({ id: "old" })).toMatchObject({
+      pending: true,
+      deleted: true,
+    });
+    expect(await remote.get({ id: "n1" })).toBeUndefined();
+    expect(await remote.get({ id: "old" })).toBeDefined();
+
+    await engine.setOnline(true);
+    expect(await engine.pendingCount()).toBe(0);
+    expect(await remote.get({ id: "n1" })).toMatchObject({ title: "edited offline" });
+    expect(await remote.get({ id: "old" })).toBeUndefined();
+    expect(await engine.getRowState({ id: "old" })).toBeUndefined();
+  });
+
+  it("drops a queued write that is undone before it is pushed", async () => {
+    const remote = new InMemoryTabularStorage(NoteSchema, NotePrimaryKeyNames);
+    const { local, engine } = createReplica(remote, { online: false });
+    await engine.start();
+
+    await local.put(note("n1", "scratch", 1));
+    await local.delete({ id: "n1" });
+    await engine.whenIdle();
+    expect(await engine.pendingCount()).toBe(0);
+  });
+
+  it("settles concurrent edits with last-writer-wins by default", async () => {
+    const remote = new InMemoryTabularStorage(NoteSchema, NotePrimaryKeyNames);
+    await remote.put(note("n1", "original", 1));
+    const a = createReplica(remote);
+    const b = createReplica(remote);
+    await a.engine.start();
+    await b.engine.start();
+    await a.engine.setOnline(false);
+    await b.engine.setOnline(false);
+
+    await a.local.put(note("n1", "edited by a", 3));
+    await b.local.put(note("n1", "edited by b", 2));
+    const conflicts: SyncConflict<Note>[] = [];
+    a.engine.on("conflict", (conflict) => conflicts.push(conflict));
+    b.engine.on("conflict", (conflict) => conflicts.push(conflict));
+
+    await a.engine.setOnline(true);
+    await b.engine.setOnline(true);
+    await a.engine.whenIdle();
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({
+      local: { title: "edited by b" },
+      remote: { title: "edited by a" },
+      base: { title: "original" },
+      localUpdatedAt: 2,
+      remoteUpdatedAt: 3,
+    });
+    for (const storage of [remote, a.local, b.local]) {
+      expect(await storage.get({ id: "n1" })).toMatchObject({ title: "edited by a" });
+    }
+  });
+
+  it("settles conflicts with a custom merge policy", async () => {
+    const remote = new InMemoryTabularStorage(NoteSchema, NotePrimaryKeyNames);
+    await remote.put(note("n1", "title", 1, "body"));
+    // Takes each field from whichever side changed it
+    const mergeFields: SyncConflictPolicy<Note> = ({ local, remote, base }) => {
+      if (!local || !remote || !base) return local ?? remote;
+      return {
+        ...remote,
+        title: local.title !== base.title ? local.title : remote.title,
+        body: local.body !== base.body ? local.body : remote.body,
+        updatedAt: Math.max(local.updatedAt, remote.updatedAt),
+      };
+    };
+    const { local, engine } = createReplica(remote, { conflictPolicy: mergeFields });
+    await engine.start();
+
+    await engine.setOnline(false);
+    await local.put(note("n1", "new title", 2, "body"));
+    await remote.put(note("n1", "title", 3, "new body"));
+    await engine.setOnline(true);
+
+    const merged = note("n1", "new title", 3, "new body");
+    expect(await remote.get({ id: "n1" })).toEqual(merged);
+    expect(await local.get({ id: "n1" })).toEqual(merged);
+  });
+
+  it("applies a remote delete unless the row changed locally", async () => {
+    const remote = new InMemoryTabularStorage(NoteSchema, NotePrimaryKeyNames);
+    await remote.putBulk([note("kept", "a", 1), note("gone", "b", 1)]);
+    const { local, engine } = createReplica(remote, { conflictPolicy: remoteWins });
+    await engine.start();
+
+    await engine.setOnline(false);
+    await remote.delete({ id: "kept" });
+    await remote.delete({ id: "gone" });
+    await local.put(note("kept", "edited offline", 2));
+    const resolved: Array<Note | undefined> = [];
+    engine.on("conflict", (_conflict, result) => resolved.push(result));
+    await engine.setOnline(true);
+
+    expect(resolved).toEqual([undefined]);
+    expect(await local.get({ id: "kept" })).toBeUndefined();
+    expect(await local.get({ id: "gone" })).toBeUndefined();
+    expect(await engine.pendingCount()).toBe(0);
+  });
+
+  it("picks up local changes made while stopped", async () => {
+    const remote = new InMemoryTabularStorage(NoteSchema, NotePrimaryKeyNames);
+    const { local, engine } = createReplica(remote);
+    await engine.start();
+    await local.put(note("n1", "synced", 1));
+    await engine.whenIdle();
+
+    engine.stop();
+    await local.put(note("n1", "edited while stopped", 2));
+    await local.put(note("n2", "added while stopped", 2));
+    await engine.start();
+
+    expect(await remote.get({ id: "n1" })).toMatchObject({ title: "edited while stopped" });
+    expect(await remote.get({ id: "n2" })).toMatchObject({ title: "added while stopped" });
+  });
+
+  it("keeps writes pending and reports errors when the remote fails", async () => {
+    const remote = new FlakyNotes(NoteSchema, NotePrimaryKeyNames);
+    const { local, engine } = createReplica(remote);
+    await engine.start();
+    const errors: unknown[] = [];
+    engine.on("error", (error) => errors.push(error));
+
+    remote.unreachable = true;
+    await local.put(note("n1", "unsent", 1));
+    await engine.whenIdle();
+    expect(errors).toHaveLength(1);
+    expect(await engine.pendingCount()).toBe(1);
+    await expect(engine.sync()).rejects.toThrow("remote unreachable");
+
+    remote.unreachable = false;
+    await engine.sync();
+    expect(await engine.pendingCount()).toBe(0);
+    expect(await remote.get({ id: "n1" })).toMatchObject({ title: "unsent" });
+  });
+});
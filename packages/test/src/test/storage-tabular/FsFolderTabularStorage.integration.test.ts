@@ -80,5 +80,45 @@ describe("FsFolderTabularStorage", () => {
         expect(error).toBeDefined();
       }
     });
+
+    test("should query and aggregate by scanning all files", async () => {
+      const storage = new FsFolderTabularStorage<typeof SearchSchema, typeof SearchPrimaryKeyNames>(
+        testDir,
+        SearchSchema,
+        SearchPrimaryKeyNames
+      );
+      const now = new Date().toISOString();
+      for (const [id, category, value] of [
+        ["1", "books", 10],
+        ["2", "books", 30],
+        ["3", "toys", 20],
+      ] as const) {
+        await storage.put({
+          id,
+          category,
+          subcategory: "x",
+          value,
+          createdAt: now,
+          updatedAt: now,
+        });
+      }
+
+      const results = await storage.query(
+        { $or: [{ category: "toys" }, { value: { operator: ">", value: 15 } }] },
+        { orderBy: [{ column: "value", direction: "DESC" }] }
+      );
+      expect(results?.map((r) => r.id)).toEqual(["2", "3"]);
+      expect(
+        await storage.aggregate(
+          { total: { fn: "sum", column: "value" } },
+          { groupBy: ["category"] }
+        )
+      ).toEqual([
+        { category: "books", total: 40 },
+        { category: "toys", total: 20 },
+      ]);
+      expect(await storage.count({ category: { operator: "IN", value: ["books"] } })).toBe(2);
+      storage.destroy();
+    });
   });
 });
@@ -511,9 +511,54 @@ describe("HuggingFaceTabularStorage", () => {
       );
     });
 
-    it("should return undefined when all search values are null or undefined", async () => {
+    it("should scan all rows when no criteria can be pushed down", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          features: [],
+          rows: [
+            { row_idx: 0, row: { id: 1, text: "test", label: null }, truncated_cells: [] },
+            { row_idx: 1, row: { id: 2, text: "test2", label: 1 }, truncated_cells: [] },
+          ],
+          num_rows_total: 2,
+          num_rows_per_page: 100,
+          partial: false,
+        }),
+      });
+
       const result = await storage.query({ label: null } as any);
-      expect(result).toBeUndefined();
+
+      expect(result?.map((entity: any) => entity.id)).toEqual([1]);
+      expect(mockFetch).toHaveBeenCalledWith(expect.stringContaining("/rows?"), expect.any(Object));
+    });
+
+    it("should apply operators the API cannot express after the equality pushdown", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          features: [],
+          rows: [
+            { row_idx: 0, row: { id: 1, text: "apple", label: 1 }, truncated_cells: [] },
+            { row_idx: 1, row: { id: 2, text: "banana", label: 1 }, truncated_cells: [] },
+            { row_idx: 2, row: { id: 3, text: "avocado", label: 1 }, truncated_cells: [] },
+          ],
+          num_rows_total: 3,
+          num_rows_per_page: 100,
+          partial: false,
+        }),
+      });
+
+      const result = await storage.query({
+        label: 1,
+        text: { operator: "STARTS WITH", value: "a" },
+        id: { operator: "!=", value: 3 },
+      } as any);
+
+      expect(result?.map((entity: any) => entity.id)).toEqual([1]);
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining("where=label%3D1&"),
+        expect.any(Object)
+      );
     });
 
     it("should get dataset size", async () => {
@@ -12,6 +12,7 @@ import { afterEach, beforeEach, describe, expect, it } from "vitest";
 
 import { getTestingLogger } from "../../binding/TestingLogger";
 import { runGenericTabularStorageSubscriptionTests } from "./genericTabularStorageSubscriptionTests";
+import { runGenericTabularMigrationTests } from "./genericTabularMigrationTests";
 import {
   AllTypesPrimaryKeyNames,
   AllTypesSchema,
@@ -354,4 +355,8 @@ describe("IndexedDbTabularStorage", () => {
         UuidPrimaryKeyNames
       )
   );
+
+  runGenericTabularMigrationTests(
+    async (table, schema) => new IndexedDbTabularStorage(table, schema, ["id"] as const)
+  );
 });
@@ -10,6 +10,7 @@ import { setLogger, uuid4 } from "@workglow/util";
 import type { Pool } from "pg";
 import { afterAll, describe } from "vitest";
 import { getTestingLogger } from "../../binding/TestingLogger";
+import { runGenericTabularMigrationTests } from "./genericTabularMigrationTests";
 import {
   AllTypesPrimaryKeyNames,
   AllTypesSchema,
@@ -82,4 +83,8 @@ describe("PostgresTabularStorage", () => {
         UuidPrimaryKeyNames
       )
   );
+
+  runGenericTabularMigrationTests(
+    async (table, schema) => new PostgresTabularStorage(db, table, schema, ["id"] as const)
+  );
 });
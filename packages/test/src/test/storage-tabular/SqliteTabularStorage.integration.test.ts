@@ -9,6 +9,7 @@ import { Sqlite } from "@workglow/storage/sqlite";
 import { setLogger, uuid4 } from "@workglow/util";
 import { describe } from "vitest";
 import { getTestingLogger } from "../../binding/TestingLogger";
+import { runGenericTabularMigrationTests } from "./genericTabularMigrationTests";
 import {
   AllTypesPrimaryKeyNames,
   AllTypesSchema,
@@ -72,4 +73,9 @@ describe("SqliteTabularStorage", async () => {
         UuidPrimaryKeyNames
       )
   );
+
+  const migrationDb = new Sqlite.Database(":memory:");
+  runGenericTabularMigrationTests(
+    async (table, schema) => new SqliteTabularStorage(migrationDb, table, schema, ["id"] as const)
+  );
 });
@@ -0,0 +1,147 @@
+/**
+ * @license
+ * Copyright 2026 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { BaseTabularStorage, TabularMigration } from "@workglow/storage";
+import { uuid4 } from "@workglow/util";
+import { DataPortSchemaObject } from "@workglow/util/schema";
+import { describe, expect, it } from "vitest";
+
+export const MigrationV1Schema = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    name: { type: "string" },
+  },
+  required: ["id", "name"],
+  additionalProperties: false,
+} as const satisfies DataPortSchemaObject;
+
+export const MigrationV2Schema = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    title: { type: "string" },
+    status: { type: "string", default: "active" },
+    length: { type: "number" },
+  },
+  required: ["id", "title", "status"],
+  additionalProperties: false,
+} as const satisfies DataPortSchemaObject;
+
+type MigrationTestStorage = BaseTabularStorage<any, any, any, any, any, any>;
+
+/**
+ * Tests for versioned migrations. `createStorage` must return storages for
+ * the same table name that share one underlying database.
+ */
+export function runGenericTabularMigrationTests(
+  createStorage: (
+    table: string,
+    schema: typeof MigrationV1Schema | typeof MigrationV2Schema
+  ) => Promise<MigrationTestStorage>
+) {
+  describe("schema migrations", () => {
+    const newTable = () => `migration_test_${uuid4().replace(/-/g, "_")}`;
+
+    function v2Migrations(calls: number[]): TabularMigration<MigrationTestStorage>[] {
+      return [
+        { version: 1, description: "rename name to title", renameColumns: { name: "title" } },
+        {
+          version: 2,
+          description: "backfill length",
+          up: async ({ storage, fromVersion }) => {
+            calls.push(fromVersion);
+            for (const row of (await storage.getAll()) ?? []) {
+              await storage.put({ ...row, length: row.title.length });
+            }
+          },
+        },
+      ];
+    }
+
+    it("renames, adds and backfills columns of an existing table", async () => {
+      const table = newTable();
+      const v1 = await createStorage(table, MigrationV1Schema);
+      await v1.setupDatabase();
+      await v1.put({ id: "a", name: "alpha" });
+      await v1.put({ id: "b", name: "be" });
+      expect(await v1.appliedMigrationVersions()).toEqual([]);
+      v1.destroy();
+
+      const calls: number[] = [];
+      const v2 = (await createStorage(table, MigrationV2Schema)).withMigrations(
+        v2Migrations(calls)
+      );
+      expect(v2.schemaVersion).toBe(2);
+      await v2.setupDatabase();
+      expect(calls).toEqual([0]);
+      expect(await v2.get({ id: "a" })).toEqual({
+        id: "a",
+        title: "alpha",
+        status: "active",
+        length: 5,
+      });
+      expect(await v2.get({ id: "b" })).toMatchObject({ title: "be", length: 2 });
+      expect(await v2.appliedMigrationVersions()).toEqual([1, 2]);
+
+      // Rows written after the migration use the new columns directly
+      await v2.put({ id: "c", title: "gamma", status: "done" });
+      expect(await v2.get({ id: "c" })).toMatchObject({ title: "gamma", status: "done" });
+      v2.destroy();
+
+      const again = (await createStorage(table, MigrationV2Schema)).withMigrations(
+        v2Migrations(calls)
+      );
+      await again.setupDatabase();
+      expect(calls).toEqual([0]);
+      expect(await again.size()).toBe(3);
+      again.destroy();
+    });
+
+    it("records migrations of a new table without running them", async () => {
+      const calls: number[] = [];
+      const storage = (await createStorage(newTable(), MigrationV2Schema)).withMigrations(
+        v2Migrations(calls)
+      );
+      await storage.setupDatabase();
+      expect(calls).toEqual([]);
+      expect(await storage.appliedMigrationVersions()).toEqual([1, 2]);
+      storage.destroy();
+    });
+
+    it("runs only migrations added since the last setup", async () => {
+      const table = newTable();
+      const calls: number[] = [];
+      const [rename, backfill] = v2Migrations(calls);
+      const first = (await createStorage(table, MigrationV2Schema)).withMigrations([rename]);
+      await first.setupDatabase();
+      await first.put({ id: "a", title: "alpha", status: "active" });
+      first.destroy();
+
+      const second = (await createStorage(table, MigrationV2Schema)).withMigrations([
+        rename,
+        backfill,
+      ]);
+      await second.setupDatabase();
+      expect(calls).toEqual([1]);
+      expect(await second.get({ id: "a" })).toMatchObject({ length: 5 });
+      expect(await second.appliedMigrationVersions()).toEqual([1, 2]);
+      second.destroy();
+    });
+
+    it("rejects invalid migration versions", async () => {
+      const storage = await createStorage(newTable(), MigrationV2Schema);
+      expect(() => storage.withMigrations([{ version: 0 }])).toThrow(/positive integer/);
+      expect(() => storage.withMigrations([{ version: 1 }, { version: 1 }])).toThrow(
+        /registered twice/
+      );
+      expect(() =>
+        storage.withMigrations([{ version: 1, renameColumns: { name: "bad name" } }])
+      ).toThrow(/invalid column name/);
+      storage.destroy();
+    });
+  });
+}
@@ -1099,6 +1099,183 @@ export function runGenericTabularStorageTests(
       });
     });
 
+    describe("query operators and aggregates", () => {
+      let repository: ITabularStorage<typeof SearchSchema, typeof SearchPrimaryKeyNames>;
+
+      const ids = (entities: Array<{ id: string }> | undefined) =>
+        (entities ?? []).map((e) => e.id).sort();
+
+      beforeEach(async () => {
+        repository = await createSearchableRepository();
+        await repository.setupDatabase?.();
+        const now = new Date().toISOString();
+        const rows = [
+          { id: "1", category: "electronics", subcategory: "phones", kind: "Gadget", value: 100 },
+          {
+            id: "2",
+            category: "electronics",
+            subcategory: "laptops",
+            kind: "gadget_pro",
+            value: 200,
+          },
+          { id: "3", category: "books", subcategory: "fiction", value: 50 },
+          { id: "4", category: "books", subcategory: "fantasy", value: 150 },
+          { id: "5", category: "toys", subcategory: "blocks", kind: "100%", value: 25 },
+        ];
+        for (const row of rows) {
+          await repository.put({ ...row, createdAt: now, updatedAt: now });
+        }
+      });
+
+      afterEach(async () => {
+        await repository.deleteAll();
+        repository.destroy();
+      });
+
+      it("should match IN and NOT IN lists", async () => {
+        expect(
+          ids(
+            await repository.query({ category: { operator: "IN", value: ["electronics", "toys"] } })
+          )
+        ).toEqual(["1", "2", "5"]);
+        expect(
+          ids(await repository.query({ category: { operator: "NOT IN", value: ["books"] } }))
+        ).toEqual(["1", "2", "5"]);
+        expect(await repository.query({ category: { operator: "IN", value: [] } })).toBeUndefined();
+        // Like SQL, NOT IN never matches NULL
+        expect(
+          ids(await repository.query({ kind: { operator: "NOT IN", value: ["Gadget"] } }))
+        ).toEqual(["2", "5"]);
+      });
+
+      it("should match LIKE patterns case-insensitively", async () => {
+        expect(
+          ids(await repository.query({ subcategory: { operator: "LIKE", value: "%TOP%" } }))
+        ).toEqual(["2"]);
+        expect(
+          ids(await repository.query({ subcategory: { operator: "LIKE", value: "f%" } }))
+        ).toEqual(["3", "4"]);
+        expect(
+          ids(await repository.query({ kind: { operator: "LIKE", value: "gadget\\_%" } }))
+        ).toEqual(["2"]);
+        expect(
+          ids(await repository.query({ kind: { operator: "LIKE", value: "100\\%" } }))
+        ).toEqual(["5"]);
+      });
+
+      it("should match STARTS WITH prefixes case-sensitively and literally", async () => {
+        expect(
+          ids(await repository.query({ kind: { operator: "STARTS WITH", value: "gadget" } }))
+        ).toEqual(["2"]);
+        expect(
+          ids(await repository.query({ kind: { operator: "STARTS WITH", value: "100%" } }))
+        ).toEqual(["5"]);
+        expect(
+          await repository.query({ kind: { operator: "STARTS WITH", value: "1_0" } })
+        ).toBeUndefined();
+      });
+
+      it("should match IS NULL and IS NOT NULL", async () => {
+        expect(ids(await repository.query({ kind: { operator: "IS NULL" } }))).toEqual(["3", "4"]);
+        expect(ids(await repository.query({ kind: { operator: "IS NOT NULL" } }))).toEqual([
+          "1",
+          "2",
+          "5",
+        ]);
+      });
+
+      it("should match $or groups combined with other criteria", async () => {
+        expect(
+          ids(
+            await repository.query({
+              category: "electronics",
+              $or: [{ value: { operator: "<", value: 150 } }, { kind: { operator: "IS NULL" } }],
+            })
+          )
+        ).toEqual(["1"]);
+
+        const results = await repository.query(
+          {
+            $or: [
+              { category: "toys" },
+              { category: "books", value: { operator: ">", value: 100 } },
+              { $or: [{ subcategory: "laptops" }, { kind: { operator: "LIKE", value: "x%" } }] },
+            ],
+          },
+          { orderBy: [{ column: "value", direction: "ASC" }] }
+        );
+        expect(results?.map((r) => r.id)).toEqual(["5", "4", "2"]);
+      });
+
+      it("should delete using the extended criteria", async () => {
+        await repository.deleteSearch({
+          $or: [
+            { category: { operator: "IN", value: ["toys"] } },
+            { kind: { operator: "IS NULL" } },
+          ],
+        });
+        expect(ids(await repository.getAll())).toEqual(["1", "2"]);
+      });
+
+      it("should reject malformed criteria", async () => {
+        await expect(
+          repository.query({ category: { operator: "IN", value: "books" as any } })
+        ).rejects.toThrow();
+        await expect(repository.query({ $or: [] })).rejects.toThrow();
+        await expect(repository.query({ $or: [{}] })).rejects.toThrow();
+      });
+
+      it("should aggregate by group", async () => {
+        const rows = await repository.aggregate(
+          {
+            n: { fn: "count" },
+            kinds: { fn: "count", column: "kind" },
+            total: { fn: "sum", column: "value" },
+            top: { fn: "max", column: "value" },
+            first: { fn: "min", column: "subcategory" },
+          },
+          { groupBy: ["category"] }
+        );
+        expect(rows).toEqual([
+          { category: "books", n: 2, kinds: 0, total: 200, top: 150, first: "fantasy" },
+          { category: "electronics", n: 2, kinds: 2, total: 300, top: 200, first: "laptops" },
+          { category: "toys", n: 1, kinds: 1, total: 25, top: 25, first: "blocks" },
+        ]);
+      });
+
+      it("should aggregate with criteria and without groups", async () => {
+        expect(
+          await repository.aggregate(
+            { mean: { fn: "avg", column: "value" } },
+            { criteria: { category: "electronics" } }
+          )
+        ).toEqual([{ mean: 150 }]);
+        expect(
+          await repository.aggregate(
+            { n: { fn: "count" }, total: { fn: "sum", column: "value" } },
+            { criteria: { category: "garden" } }
+          )
+        ).toEqual([{ n: 0, total: null }]);
+      });
+
+      it("should count all or matching entries", async () => {
+        expect(await repository.count()).toBe(5);
+        expect(
+          await repository.count({ category: { operator: "IN", value: ["books", "toys"] } })
+        ).toBe(3);
+        expect(await repository.count({ category: "garden" })).toBe(0);
+      });
+
+      it("should reject malformed aggregates", async () => {
+        await expect(repository.aggregate({})).rejects.toThrow();
+        await expect(repository.aggregate({ value: { fn: "count" } })).rejects.toThrow();
+        await expect(repository.aggregate({ total: { fn: "sum" } })).rejects.toThrow();
+        await expect(
+          repository.aggregate({ n: { fn: "count" } }, { groupBy: ["missing" as any] })
+        ).rejects.toThrow();
+      });
+    });
+
     describe("return value tests with timestamps", () => {
       let repository: ITabularStorage<typeof SearchSchema, typeof SearchPrimaryKeyNames>;
 
@@ -0,0 +1,297 @@
+/**
+ * @license
+ * Copyright 2026 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PGlite } from "@electric-sql/pglite";
+import {
+  InMemoryQueueStorage,
+  InMemoryTabularStorage,
+  IQueueStorage,
+  IKvStorage,
+  ITabularStorage,
+  PostgresKvStorage,
+  PostgresQueueStorage,
+  PostgresTabularStorage,
+  SqliteKvStorage,
+  SqliteQueueStorage,
+  SqliteTabularStorage,
+} from "@workglow/storage";
+import { Sqlite } from "@workglow/storage/sqlite";
+import { uuid4 } from "@workglow/util";
+import { DataPortSchemaObject } from "@workglow/util/schema";
+import type { Pool } from "pg";
+import { afterAll, describe, expect, it } from "vitest";
+
+const DocumentSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    status: { type: "string" },
+  },
+  required: ["id", "status"],
+  additionalProperties: false,
+} as const satisfies DataPortSchemaObject;
+const DocumentPrimaryKeyNames = ["id"] as const;
+
+type Documents = ITabularStorage<typeof DocumentSchema, typeof DocumentPrimaryKeyNames>;
+
+interface TransactionStorages {
+  documents: Documents;
+  settings: IKvStorage<string, string>;
+  queue: IQueueStorage<{ document: string }, unknown>;
+}
+
+const newName = (prefix: string) => `${prefix}_${uuid4().replace(/-/g, "_")}`;
+
+function runSharedConnectionTransactionTests(createStorages: () => Promise<TransactionStorages>) {
+  it("commits tabular, KV and queue writes together", async () => {
+    const { documents, settings, queue } = await createStorages();
+    await documents.put({ id: "doc", status: "pending" });
+
+    const result = await documents.withTransaction(async () => {
+      await documents.put({ id: "doc", status: "done" });
+      await settings.put("last", "doc");
+      await queue.add({ input: { document: "doc" }, run_after: null, completed_at: null });
+      return "ok";
+    });
+
+    expect(result).toBe("ok");
+    expect(await documents.get({ id: "doc" })).toEqual({ id: "doc", status: "done" });
+    expect(await settings.get("last")).toBe("doc");
+    expect(await queue.size()).toBe(1);
+  });
+
+  it("rolls back every storage on the connection when the callback throws", async () => {
+    const { documents, settings, queue } = await createStorages();
+    await documents.put({ id: "doc", status: "pending" });
+
+    await expect(
+      queue.withTransaction(async () => {
+        await documents.put({ id: "doc", status: "done" });
+        await settings.put("last", "doc");
+        await queue.add({ input: { document: "doc" }, run_after: null, completed_at: null });
+        throw new Error("crash before commit");
+      })
+    ).rejects.toThrow("crash before commit");
+
+    expect(await documents.get({ id: "doc" })).toEqual({ id: "doc", status: "pending" });
+    expect(await settings.get("last")).toBeUndefined();
+    expect(await queue.size()).toBe(0);
+  });
+
+  it("joins an open transaction instead of nesting", async () => {
+    const { documents, settings } = await createStorages();
+
+    await expect(
+      documents.withTransaction(async () => {
+        await settings.withTransaction(async () => {
+          await settings.put("inner", "yes");
+        });
+        await documents.put({ id: "outer", status: "done" });
+        throw new Error("outer fails");
+      })
+    ).rejects.toThrow("outer fails");
+
+    expect(await settings.get("inner")).toBeUndefined();
+    expect(await documents.get({ id: "outer" })).toBeUndefined();
+  });
+
+  it("runs an overlapping transaction after the open one instead of joining it", async () => {
+    const { documents } = await createStorages();
+    let releaseFirst!: () => void;
+    const firstMayCommit = new Promise<void>((resolve) => (releaseFirst = resolve));
+    let firstWrote!: () => void;
+    const firstHasWritten = new Promise<void>((resolve) => (firstWrote = resolve));
+
+    const first = documents.withTransaction(async () => {
+      await documents.put({ id: "first", status: "done" });
+      firstWrote();
+      await firstMayCommit;
+    });
+    await firstHasWritten;
+    const second = documents.withTransaction(async () => {
+      await documents.put({ id: "second", status: "done" });
+      throw new Error("second fails");
+    });
+    releaseFirst();
+
+    await first;
+    await expect(second).rejects.toThrow("second fails");
+    expect(await documents.get({ id: "first" })).toEqual({ id: "first", status: "done" });
+    expect(await documents.get({ id: "second" })).toBeUndefined();
+  });
+
+  it("keeps writes from outside an open transaction out of its rollback", async () => {
+    const { documents, settings } = await createStorages();
+    let releaseTransaction!: () => void;
+    const transactionMayFail = new Promise<void>((resolve) => (releaseTransaction = resolve));
+    let transactionWrote!: () => void;
+    const transactionHasWritten = new Promise<void>((resolve) => (transactionWrote = resolve));
+
+    const transaction = documents.withTransaction(async () => {
+      await documents.put({ id: "inside", status: "done" });
+      transactionWrote();
+      await transactionMayFail;
+      throw new Error("transaction fails");
+    });
+    await transactionHasWritten;
+    const outside = settings.put("outside", "yes");
+    releaseTransaction();
+
+    await expect(transaction).rejects.toThrow("transaction fails");
+    await outside;
+    expect(await documents.get({ id: "inside" })).toBeUndefined();
+    expect(await settings.get("outside")).toBe("yes");
+  });
+
+  it("runs bulk writes inside a transaction", async () => {
+    const { documents } = await createStorages();
+    await expect(
+      documents.withTransaction(async () => {
+        await documents.putBulk([
+          { id: "a", status: "new" },
+          { id: "b", status: "new" },
+        ]);
+        expect(await documents.size()).toBe(2);
+        throw new Error("undo");
+      })
+    ).rejects.toThrow("undo");
+    expect(await documents.size()).toBe(0);
+  });
+}
+
+describe("storage transactions", () => {
+  describe("SQLite", async () => {
+    await Sqlite.init();
+    const db = new Sqlite.Database(":memory:");
+
+    runSharedConnectionTransactionTests(async () => {
+      const documents = new SqliteTabularStorage(
+        db,
+        newName("documents"),
+        DocumentSchema,
+        DocumentPrimaryKeyNames
+      );
+      const settings = new SqliteKvStorage(db, newName("settings"));
+      const queue = new SqliteQueueStorage<{ document: string }, unknown>(db, newName("queue"));
+      await Promise.all([
+        documents.setupDatabase(),
+        settings.setupDatabase(),
+        queue.setupDatabase(),
+      ]);
+      await queue.deleteAll();
+      return { documents, settings, queue };
+    });
+  });
+
+  describe("PostgreSQL", () => {
+    const db = new PGlite() as unknown as Pool;
+    afterAll(async () => {
+      await (db as unknown as PGlite).close();
+    });
+
+    runSharedConnectionTransactionTests(async () => {
+      const documents = new PostgresTabularStorage(
+        db,
+        newName("documents"),
+        DocumentSchema,
+        DocumentPrimaryKeyNames
+      );
+      const settings = new PostgresKvStorage(db, newName("settings"));
+      const queue = new PostgresQueueStorage<{ document: string }, unknown>(db, newName("queue"));
+      await documents.setupDatabase();
+      await settings.setupDatabase();
+      await queue.setupDatabase();
+      await queue.deleteAll();
+      return { documents, settings, queue };
+    });
+  });
+
+  describe("in-memory", () => {
+    it("restores the entries of each storage whose transaction rejects", async () => {
+      const documents = new InMemoryTabularStorage(DocumentSchema, DocumentPrimaryKeyNames);
+      const queue = new InMemoryQueueStorage<{ document: string }, unknown>(newName("queue"));
+      await documents.put({ id: "doc", status: "pending" });
+
+      await expect(
+        documents.withTransaction(() =>
+          queue.withTransaction(async () => {
+            await documents.put({ id: "doc", status: "done" });
+            await queue.add({ input: { document: "doc" }, run_after: null, completed_at: null });
+            throw new Error("crash before commit");
+          })
+        )
+      ).rejects.toThrow("crash before commit");
+
+      expect(await documents.get({ id: "doc" })).toEqual({ id: "doc", status: "pending" });
+      expect(await queue.size()).toBe(0);
+    });
+
+    it("keeps writes from outside an open transaction out of its rollback", async () => {
+      const documents = new InMemoryTabularStorage(DocumentSchema, DocumentPrimaryKeyNames);
+      const queue = new InMemoryQueueStorage<{ document: string }, unknown>(newName("queue"));
+      let releaseTransaction!: () => void;
+      const transactionMayFail = new Promise<void>((resolve) => (releaseTransaction = resolve));
+      let transactionWrote!: () => void;
+      const transactionHasWritten = new Promise<void>((resolve) => (transactionWrote = resolve));
+
+      const transaction = documents.withTransaction(() =>
+        queue.withTransaction(async () => {
+          await documents.put({ id: "inside", status: "done" });
+          await queue.add({ input: { document: "inside" }, run_after: null, completed_at: null });
+          transactionWrote();
+          await transactionMayFail;
+          throw new Error("transaction fails");
+        })
+      );
+      await transactionHasWritten;
+      const outside = Promise.all([
+        documents.put({ id: "outside", status: "done" }),
+        queue.add({ input: { document: "outside" }, run_after: null, completed_at: null }),
+      ]);
+      releaseTransaction();
+
+      await expect(transaction).rejects.toThrow("transaction fails");
+      await outside;
+      expect(await documents.get({ id: "inside" })).toBeUndefined();
+      expect(await documents.get({ id: "outside" })).toEqual({ id: "outside", status: "done" });
+      const jobs = await queue.peek();
+      expect(jobs.map((job) => job.input.document)).toEqual(["outside"]);
+    });
+
+    it("runs an overlapping transaction after the open one instead of joining it", async () => {
+      const documents = new InMemoryTabularStorage(DocumentSchema, DocumentPrimaryKeyNames);
+      let releaseFirst!: () => void;
+      const firstMayCommit = new Promise<void>((resolve) => (releaseFirst = resolve));
+      let firstWrote!: () => void;
+      const firstHasWritten = new Promise<void>((resolve) => (firstWrote = resolve));
+
+      const first = documents.withTransaction(async () => {
+        await documents.put({ id: "first", status: "done" });
+        firstWrote();
+        await firstMayCommit;
+      });
+      await firstHasWritten;
+      const second = documents.withTransaction(async () => {
+        await documents.put({ id: "second", status: "done" });
+        throw new Error("second fails");
+      });
+      releaseFirst();
+
+      await first;
+      await expect(second).rejects.toThrow("second fails");
+      expect(await documents.get({ id: "first" })).toEqual({ id: "first", status: "done" });
+      expect(await documents.get({ id: "second" })).toBeUndefined();
+    });
+
+    it("keeps the writes of a transaction that resolves", async () => {
+      const documents = new InMemoryTabularStorage(DocumentSchema, DocumentPrimaryKeyNames);
+      await documents.withTransaction(async () => {
+        await documents.put({ id: "doc", status: "done" });
+      });
+      expect(await documents.size()).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { JobScheduleRunStatus } from "@workglow/job-queue";
+import { InMemoryQueueStorage } from "@workglow/storage";
+import {
+  TaskGraph,
+  TaskRegistry,
+  WorkflowRunJobInput,
+  WorkflowRunJobOutput,
+  WorkflowScheduler,
+} from "@workglow/task-graph";
+import { setLogger } from "@workglow/util";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { InMemoryJobScheduleRepository } from "../../binding/InMemoryJobScheduleRepository";
+import { InMemoryTaskGraphRepository } from "../../binding/InMemoryTaskGraphRepository";
+import { getTestingLogger } from "../../binding/TestingLogger";
+import { TestSquareTask } from "../task/TestTasks";
+
+describe("WorkflowScheduler", () => {
+  setLogger(getTestingLogger());
+  let graphRepository: InMemoryTaskGraphRepository;
+  let storage: InMemoryQueueStorage<WorkflowRunJobInput, WorkflowRunJobOutput>;
+  let scheduler: WorkflowScheduler;
+
+  beforeEach(async () => {
+    TaskRegistry.registerTask(TestSquareTask);
+    graphRepository = new InMemoryTaskGraphRepository();
+    storage = new InMemoryQueueStorage("workflow_schedule");
+    scheduler = new WorkflowScheduler({
+      graphRepository,
+      scheduleRepository: new InMemoryJobScheduleRepository(),
+      storage,
+    });
+
+    const graph = new TaskGraph();
+    graph.addTask(new TestSquareTask({ id: "square" }));
+    await graphRepository.saveTaskGraph("square", graph);
+  });
+
+  afterEach(async () => {
+    await scheduler.stop();
+  });
+
+  function waitForRun(): Promise<{ jobId: unknown; status: JobScheduleRunStatus }> {
+    return new Promise((resolve) => {
+      const listener = (_scheduleId: string, jobId: unknown, status: JobScheduleRunStatus) => {
+        scheduler.off("schedule_run_finished", listener);
+        resolve({ jobId, status });
+      };
+      scheduler.on("schedule_run_finished", listener);
+    });
+  }
+
+  it("should run a saved graph on schedule", async () => {
+    await scheduler.start();
+    const finished = waitForRun();
+    await scheduler.scheduleWorkflow("square", { intervalMs: 20, input: { input: 7 } });
+
+    const { jobId, status } = await finished;
+    expect(status).toBe("COMPLETED");
+    const job = await storage.get(jobId);
+    expect(job?.output?.results).toEqual([
+      { id: "square", type: "TestSquareTask", data: { output: 49 } },
+    ]);
+  });
+
+  it("should record a failed run when the graph does not exist", async () => {
+    await scheduler.start();
+    const finished = waitForRun();
+    const record = await scheduler.scheduleWorkflow("missing", { intervalMs: 20 });
+
+    expect((await finished).status).toBe("FAILED");
+    const updated = await scheduler.getSchedule(record.scheduleId);
+    expect(updated?.lastError).toContain('Workflow "missing" not found');
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { IExecuteContext, TaskUsage } from "@workglow/task-graph";
+import {
+  MapTask,
+  Task,
+  TaskBudgetExceededError,
+  TaskBudgetTracker,
+  TaskGraph,
+  WhileTask,
+} from "@workglow/task-graph";
+import { setLogger, sleep } from "@workglow/util";
+import type { DataPortSchema } from "@workglow/util/schema";
+import { beforeEach, describe, expect, it } from "vitest";
+import { getTestingLogger } from "../../binding/TestingLogger";
+
+type CallInput = { value?: number; prompt?: string };
+
+/**
+ * Makes one "model call" per run: reserves it against the budget, then charges
+ * the prompt length as input tokens plus ten output tokens, as an AI task does.
+ */
+class BudgetCallTask extends Task<CallInput, { value: number }> {
+  static override readonly type = "BudgetCallTask";
+  static override readonly cacheable = false;
+  static calls = 0;
+  static override inputSchema(): DataPortSchema {
+    return {
+      type: "object",
+      properties: { value: { type: "number" }, prompt: { type: "string" } },
+      additionalProperties: true,
+    } as const satisfies DataPortSchema;
+  }
+  static override outputSchema(): DataPortSchema {
+    return {
+      type: "object",
+      properties: { value: { type: "number" } },
+      additionalProperties: true,
+    } as const satisfies DataPortSchema;
+  }
+  override async execute(input: CallInput, context: IExecuteContext) {
+    const prompt = input.prompt ?? "";
+    const reservation = await context.budget?.reserve(
+      { inputTokens: prompt.length },
+      context.signal
+    );
+    BudgetCallTask.calls++;
+    const usage: TaskUsage = {
+      provider: "fake",
+      model: "fake-model",
+      inputTokens: prompt.length,
+      outputTokens: 10,
+      cachedInputTokens: 0,
+      latencyMs: 1,
+      cost: 0.25,
+    };
+    context.reportUsage?.(usage);
+    reservation?.settle(usage);
+    return { value: (input.value ?? 0) + 1 };
+  }
+}
+
+function loop(prompt = ""): WhileTask {
+  const task = new WhileTask({ condition: () => true, maxIterations: "unbounded" });
+  const subGraph = new TaskGraph();
+  subGraph.addTask(new BudgetCallTask({ defaults: { prompt } }));
+  task.subGraph = subGraph;
+  return task;
+}
+
+describe("TaskBudget", () => {
+  setLogger(getTestingLogger());
+
+  beforeEach(() => {
+    BudgetCallTask.calls = 0;
+  });
+
+  it("aborts an unbounded WhileTask loop at maxCalls", async () => {
+    const graph = new TaskGraph();
+    graph.addTask(loop());
+    const exceeded: TaskBudgetExceededError[] = [];
+    graph.subscribe("budget_exceeded", (error) => exceeded.push(error));
+
+    const error = await graph.run({}, { budget: { maxCalls: 3 } }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TaskBudgetExceededError);
+    expect(error.limit).toBe("maxCalls");
+    expect(error.spent.calls).toBe(3);
+    expect(BudgetCallTask.calls).toBe(3);
+    expect(exceeded).toHaveLength(1);
+    expect(graph.runner.usage).toHaveLength(3);
+  });
+
+  it("bounds a MapTask fan-out by maxCalls", async () => {
+    const map = new MapTask({ maxIterations: "unbounded" });
+    const subGraph = new TaskGraph();
+    subGraph.addTask(new BudgetCallTask());
+    map.subGraph = subGraph;
+    const graph = new TaskGraph();
+    graph.addTask(map);
+
+    const error = await graph
+      .run({ value: [1, 2, 3, 4, 5, 6, 7, 8] }, { budget: { maxCalls: 4 } })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(TaskBudgetExceededError);
+    expect(BudgetCallTask.calls).toBe(4);
+  });
+
+  it("counts pending token estimates and charged usage against maxTokens", async () => {
+    const graph = new TaskGraph();
+    graph.addTask(loop("x".repeat(50)));
+
+    // 50 estimated → 60 charged; 60 + 50 → 120 charged; 120 + 50 exceeds 120
+    const error = await graph.run({}, { budget: { maxTokens: 120 } }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TaskBudgetExceededError);
+    expect(error.limit).toBe("maxTokens");
+    expect(error.spent.tokens).toBe(120);
+    expect(BudgetCallTask.calls).toBe(2);
+  });
+
+  it("aborts on maxCost once the charged cost reaches it", async () => {
+    const graph = new TaskGraph();
+    graph.addTask(loop());
+
+    const error = await graph.run({}, { budget: { maxCost: 1 } }).catch((e) => e);
+
+    expect(error.limit).toBe("maxCost");
+    expect(BudgetCallTask.calls).toBe(4);
+  });
+
+  it("aborts a run that outlives maxDurationMs without further calls", async () => {
+    class SlowTask extends Task<{}, {}> {
+      static override readonly type = "BudgetSlowTask";
+      static override readonly cacheable = false;
+      override async execute(_input: {}, context: IExecuteContext) {
+        await Promise.race([
+          sleep(500),
+          new Promise((resolve) => context.signal.addEventListener("abort", resolve)),
+        ]);
+        return {};
+      }
+    }
+    const graph = new TaskGraph();
+    graph.addTask(new SlowTask());
+
+    const start = Date.now();
+    const error = await graph.run({}, { budget: { maxDurationMs: 30 } }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TaskBudgetExceededError);
+    expect(error.limit).toBe("maxDurationMs");
+    expect(Date.now() - start).toBeLessThan(500);
+  });
+
+  it("pauses calls until the budget is extended", async () => {
+    const graph = new TaskGraph();
+    graph.addTasks([
+      new BudgetCallTask(),
+      new BudgetCallTask(),
+      new BudgetCallTask(),
+      new BudgetCallTask(),
+    ]);
+    const exceeded: TaskBudgetExceededError[] = [];
+    graph.subscribe("budget_exceeded", (error) => {
+      exceeded.push(error);
+      setTimeout(() => graph.runner.extendBudget({ maxCalls: 4 }), 10);
+    });
+
+    await graph.run({}, { budget: { maxCalls: 2, onExceeded: "pause" } });
+
+    expect(exceeded.length).toBeGreaterThanOrEqual(1);
+    expect(BudgetCallTask.calls).toBe(4);
+  });
+
+  it("releases paused calls with the budget error when the run is aborted", async () => {
+    const graph = new TaskGraph();
+    graph.addTask(loop());
+    graph.subscribe("budget_exceeded", () => {
+      setTimeout(() => graph.abort(), 10);
+    });
+
+    const error = await graph
+      .run({}, { budget: { maxCalls: 1, onExceeded: "pause" } })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(TaskBudgetExceededError);
+    expect(BudgetCallTask.calls).toBe(1);
+  });
+
+  it("shares one tracker between runs", async () => {
+    const budget = new TaskBudgetTracker({ maxCalls: 3 });
+    await new BudgetCallTask().run({}, { budget });
+    await new BudgetCallTask().run({}, { budget });
+    expect(budget.spent.calls).toBe(2);
+    expect(budget.spent.cost).toBe(0.5);
+    expect(budget.check()).toBeUndefined();
+
+    await new BudgetCallTask().run({}, { budget });
+    expect(budget.check()).toBe("maxCalls");
+    await expect(new BudgetCallTask().run({}, { budget })).rejects.toBeInstanceOf(
+      TaskBudgetExceededError
+    );
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  Dataflow,
+  GraphAsTask,
+  MapTask,
+  Task,
+  TaskConfigurationError,
+  TaskGraph,
+  TaskRegistry,
+  TaskStatus,
+  Workflow,
+} from "@workglow/task-graph";
+import { setLogger } from "@workglow/util";
+import type { DataPortSchema } from "@workglow/util/schema";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { InMemoryTaskGraphRunRepository } from "../../binding/InMemoryTaskGraphRunRepository";
+import { getTestingLogger } from "../../binding/TestingLogger";
+
+const executions: string[] = [];
+let failuresLeft = 0;
+
+const valueSchema = {
+  type: "object",
+  properties: {
+    value: { type: "number" },
+  },
+  additionalProperties: false,
+} as const satisfies DataPortSchema;
+
+class CheckpointDoubleTask extends Task<{ value: number }, { value: number }> {
+  static override readonly type = "CheckpointDoubleTask";
+  static override inputSchema(): DataPortSchema {
+    return valueSchema;
+  }
+  static override outputSchema(): DataPortSchema {
+    return valueSchema;
+  }
+  override async execute(input: { value: number }): Promise<{ value: number }> {
+    executions.push(String(this.id));
+    return { value: input.value * 2 };
+  }
+}
+
+class CheckpointFlakyTask extends Task<{ value: number }, { value: number }> {
+  static override readonly type = "CheckpointFlakyTask";
+  static override inputSchema(): DataPortSchema {
+    return valueSchema;
+  }
+  static override outputSchema(): DataPortSchema {
+    return valueSchema;
+  }
+  override async execute(input: { value: number }): Promise<{ value: number }> {
+    executions.push(String(this.id));
+    if (failuresLeft > 0) {
+      failuresLeft--;
+      throw new Error("simulated crash");
+    }
+    return { value: input.value + 1 };
+  }
+}
+
+class CheckpointItemTask extends Task<{ item: number }, { processed: number }> {
+  static override readonly type = "CheckpointItemTask";
+  static override inputSchema(): DataPortSchema {
+    return {
+      type: "object",
+      properties: { item: { type: "number" } },
+      required: ["item"],
+      additionalProperties: true,
+    } as const satisfies DataPortSchema;
+  }
+  static override outputSchema(): DataPortSchema {
+    return {
+      type: "object",
+      properties: { processed: { type: "number" } },
+      required: ["processed"],
+      additionalProperties: false,
+    } as const satisfies DataPortSchema;
+  }
+  override async execute(input: { item: number }): Promise<{ processed: number }> {
+    executions.push(`item:${input.item}`);
+    if (input.item === 3 && failuresLeft > 0) {
+      failuresLeft--;
+      throw new Error("simulated crash");
+    }
+    return { processed: input.item * 10 };
+  }
+}
+
+describe("TaskGraph checkpoint and resume", () => {
+  setLogger(getTestingLogger());
+  let repository: InMemoryTaskGraphRunRepository;
+
+  beforeEach(() => {
+    executions.length = 0;
+    failuresLeft = 0;
+    repository = new InMemoryTaskGraphRunRepository();
+    TaskRegistry.registerTask(CheckpointDoubleTask);
+    TaskRegistry.registerTask(CheckpointFlakyTask);
+    TaskRegistry.registerTask(CheckpointItemTask);
+    TaskRegistry.registerTask(GraphAsTask);
+    TaskRegistry.registerTask(MapTask);
+  });
+
+  afterEach(async () => {
+    await repository.clear();
+  });
+
+  function createChain(): TaskGraph {
+    const graph = new TaskGraph();
+    graph.addTasks([
+      new CheckpointDoubleTask({ id: "a", defaults: { value: 2 } }),
+      new CheckpointDoubleTask({ id: "b" }),
+      new CheckpointFlakyTask({ id: "c" }),
+    ]);
+    graph.addDataflows([
+      new Dataflow("a", "value", "b", "value"),
+      new Dataflow("b", "value", "c", "value"),
+    ]);
+    return graph;
+  }
+
+  it("persists a run record with per-task state", async () => {
+    const graph = createChain();
+    await graph.run({}, { runRepository: repository, runId: "run-1" });
+
+    const record = await repository.getRun("run-1");
+    expect(record?.status).toBe("COMPLETED");
+    expect(record?.checkpoint.tasks["a"]).toMatchObject({
+      status: TaskStatus.COMPLETED,
+      output: { value: 4 },
+    });
+    expect(record?.checkpoint.tasks["c"].output).toEqual({ value: 9 });
+    expect(record?.checkpoint.dataflows["a[value] ==> b[value]"]).toEqual({
+      status: TaskStatus.COMPLETED,
+      value: 4,
+    });
+    expect(record?.graph.tasks).toHaveLength(3);
+  });
+
+  it("does not checkpoint without a run repository", async () => {
+    const graph = createChain();
+    await graph.run();
+    expect(await repository.size()).toBe(0);
+  });
+
+  it("resumes a failed run and only re-executes incomplete tasks", async () => {
+    failuresLeft = 1;
+    const graph = createChain();
+    await expect(graph.run({}, { runRepository: repository })).rejects.toThrow("simulated crash");
+    const runId = graph.runner.currentRunId;
+
+    const failed = await repository.getRun(runId);
+    expect(failed?.status).toBe("FAILED");
+    expect(failed?.checkpoint.tasks["b"].status).toBe(TaskStatus.COMPLETED);
+    expect(failed?.checkpoint.tasks["c"].status).toBe(TaskStatus.FAILED);
+
+    executions.length = 0;
+    const resumedGraph = new TaskGraph();
+    const results = await resumedGraph.resumeRun(runId, { runRepository: repository });
+
+    expect(executions).toEqual(["c"]);
+    expect(results).toEqual([{ id: "c", type: "CheckpointFlakyTask", data: { value: 9 } }]);
+    expect(resumedGraph.getTask("a")?.status).toBe(TaskStatus.COMPLETED);
+    expect(resumedGraph.getTask("a")?.runOutputData).toEqual({ value: 4 });
+    expect((await repository.getRun(runId))?.status).toBe("COMPLETED");
+  });
+
+  it("resumes inside a GraphAsTask subgraph", async () => {
+    failuresLeft = 1;
+    const group = new GraphAsTask({ id: "group" });
+    group.subGraph.addTasks([
+      new CheckpointDoubleTask({ id: "inner-a", defaults: { value: 5 } }),
+      new CheckpointFlakyTask({ id: "inner-b" }),
+    ]);
+    group.subGraph.addDataflow(new Dataflow("inner-a", "value", "inner-b", "value"));
+    const graph = new TaskGraph();
+    graph.addTask(group);
+
+    await expect(graph.run({}, { runRepository: repository, runId: "nested" })).rejects.toThrow(
+      "simulated crash"
+    );
+    expect(executions).toEqual(["inner-a", "inner-b"]);
+
+    const record = await repository.getRun("nested");
+    expect(record?.checkpoint.tasks["group"].subGraph?.tasks["inner-a"].status).toBe(
+      TaskStatus.COMPLETED
+    );
+
+    executions.length = 0;
+    const resumedGraph = new TaskGraph();
+    await resumedGraph.resumeRun("nested", { runRepository: repository });
+    expect(executions).toEqual(["inner-b"]);
+    expect(resumedGraph.getTask("group")?.runOutputData).toEqual({ value: 11 });
+  });
+
+  it("skips MapTask iterations that completed before the interruption", async () => {
+    failuresLeft = 1;
+    const workflow = new Workflow();
+    workflow
+      .map({ maxIterations: "unbounded", concurrencyLimit: 1 })
+      .addTask(CheckpointItemTask)
+      .endMap();
+
+    await expect(
+      workflow.graph.run({ item: [1, 2, 3] }, { runRepository: repository, runId: "map" })
+    ).rejects.toThrow("simulated crash");
+    expect(executions).toEqual(["item:1", "item:2", "item:3"]);
+
+    executions.length = 0;
+    const resumedGraph = new TaskGraph();
+    const results = await resumedGraph.resumeRun("map", { runRepository: repository });
+    expect(executions).toEqual(["item:3"]);
+    expect(results[0].data).toEqual({ processed: [10, 20, 30] });
+  });
+
+  it("throws when resuming an unknown run", async () => {
+    await expect(
+      new TaskGraph().resumeRun("missing", { runRepository: repository })
+    ).rejects.toBeInstanceOf(TaskConfigurationError);
+  });
+});
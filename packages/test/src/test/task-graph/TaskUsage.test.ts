@@ -0,0 +1,143 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { IExecuteContext, TaskUsage } from "@workglow/task-graph";
+import { GraphAsTask, summarizeTaskUsage, Task, TaskGraph } from "@workglow/task-graph";
+import { setLogger } from "@workglow/util";
+import type { DataPortSchema } from "@workglow/util/schema";
+import { describe, expect, it } from "vitest";
+import { getTestingLogger } from "../../binding/TestingLogger";
+
+function usage(model: string, inputTokens: number, outputTokens: number, cost?: number): TaskUsage {
+  return {
+    provider: "fake",
+    model,
+    inputTokens,
+    outputTokens,
+    cachedInputTokens: 0,
+    latencyMs: 10,
+    ...(cost !== undefined ? { cost, currency: "USD" } : {}),
+  };
+}
+
+const schema = {
+  type: "object",
+  properties: { calls: { type: "number" } },
+  additionalProperties: true,
+} as const satisfies DataPortSchema;
+
+/** Reports one usage record per call, as an AI task does per provider request */
+class MeteredTask extends Task<{ calls?: number }, { done: boolean }> {
+  static override readonly type = "MeteredTask";
+  static override readonly cacheable = false;
+  static override inputSchema(): DataPortSchema {
+    return schema;
+  }
+  static override outputSchema(): DataPortSchema {
+    return {
+      type: "object",
+      properties: { done: { type: "boolean" } },
+      additionalProperties: false,
+    } as const satisfies DataPortSchema;
+  }
+  override async execute(input: { calls?: number }, context: IExecuteContext) {
+    for (let i = 0; i < (input.calls ?? 1); i++) {
+      context.reportUsage?.(usage("model-a", 100, 20, 0.5));
+    }
+    return { done: true };
+  }
+}
+
+describe("TaskUsage", () => {
+  setLogger(getTestingLogger());
+
+  it("collects usage on the task and emits usage events", async () => {
+    const task = new MeteredTask({ defaults: { calls: 2 } });
+    const events: TaskUsage[] = [];
+    task.on("usage", (u) => events.push(u));
+    await task.run();
+    expect(task.usage).toHaveLength(2);
+    expect(events).toEqual(task.usage);
+
+    // A new run starts a fresh record
+    await task.run({ calls: 1 });
+    expect(task.usage).toHaveLength(1);
+  });
+
+  it("aggregates usage of all tasks on the graph runner", async () => {
+    const graph = new TaskGraph();
+    const a = new MeteredTask({ defaults: { calls: 1 } });
+    const b = new MeteredTask({ defaults: { calls: 3 } });
+    graph.addTasks([a, b]);
+    const reported: string[] = [];
+    graph.subscribe("task_usage", (taskId) => reported.push(String(taskId)));
+
+    await graph.run();
+
+    expect(graph.runner.usage).toHaveLength(4);
+    expect(reported.filter((id) => id === String(b.id))).toHaveLength(3);
+    expect(summarizeTaskUsage(graph.runner.usage)).toEqual({
+      calls: 4,
+      inputTokens: 400,
+      outputTokens: 80,
+      cachedInputTokens: 0,
+      latencyMs: 40,
+      cost: 2,
+      currency: "USD",
+    });
+  });
+
+  it("bubbles usage up through GraphAsTask", async () => {
+    const inner = new TaskGraph();
+    inner.addTasks([
+      new MeteredTask({ defaults: { calls: 2 } }),
+      new MeteredTask({ defaults: { calls: 1 } }),
+    ]);
+    const compound = new GraphAsTask();
+    compound.subGraph = inner;
+
+    const outer = new TaskGraph();
+    outer.addTasks([compound, new MeteredTask({ defaults: { calls: 1 } })]);
+    await outer.run();
+
+    expect(compound.usage).toHaveLength(3);
+    expect(outer.runner.usage).toHaveLength(4);
+  });
+
+  it("counts usage of owned tasks toward the owner", async () => {
+    class OwnerTask extends Task<{}, { done: boolean }> {
+      static override readonly type = "UsageOwnerTask";
+      static override readonly cacheable = false;
+      override async execute(_input: {}, context: IExecuteContext) {
+        await context.own(new MeteredTask({ defaults: { calls: 2 } })).run();
+        return { done: true };
+      }
+    }
+    const graph = new TaskGraph();
+    const owner = new OwnerTask();
+    graph.addTask(owner);
+    await graph.run();
+
+    expect(owner.usage).toHaveLength(2);
+    expect(graph.runner.usage).toHaveLength(2);
+  });
+
+  it("summarizes a filtered subset and drops mixed currencies", () => {
+    const records = [
+      usage("model-a", 10, 1, 1),
+      usage("model-b", 20, 2),
+      { ...usage("model-a", 30, 3, 2), currency: "EUR" },
+    ];
+    const a = summarizeTaskUsage(records, (u) => u.model === "model-a");
+    expect(a.calls).toBe(2);
+    expect(a.inputTokens).toBe(40);
+    expect(a.cost).toBe(3);
+    expect(a.currency).toBeUndefined();
+
+    const b = summarizeTaskUsage(records, (u) => u.model === "model-b");
+    expect(b.cost).toBeUndefined();
+  });
+});
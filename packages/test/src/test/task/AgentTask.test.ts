@@ -0,0 +1,271 @@
+/**
+ * @license
+ * Copyright 2026 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  AgentTaskOutput,
+  AiProviderStreamFn,
+  ModelConfig,
+  ToolCall,
+  ToolDefinition,
+} from "@workglow/ai";
+import { AgentTask, AiProvider, getAiProviderRegistry, registerAiTasks } from "@workglow/ai";
+import type { IExecuteContext, TaskEntitlements } from "@workglow/task-graph";
+import {
+  createPolicyEnforcer,
+  EMPTY_POLICY,
+  ENTITLEMENT_ENFORCER,
+  Entitlements,
+  Task,
+  TaskRegistry,
+} from "@workglow/task-graph";
+import { Container, ServiceRegistry } from "@workglow/util";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { TestSquareTask } from "./TestTasks";
+
+class NetworkSquareTask extends Task<{ input: number }, { output: number }> {
+  static override readonly type = "NetworkSquareTask";
+  static override inputSchema = TestSquareTask.inputSchema;
+  static override outputSchema = TestSquareTask.outputSchema;
+  public static override entitlements(): TaskEntitlements {
+    return { entitlements: [{ id: Entitlements.NETWORK_HTTP, reason: "Calls the network" }] };
+  }
+  override async execute(input: { input: number }) {
+    return { output: input.input * input.input };
+  }
+}
+
+class FakeAgentProvider extends AiProvider {
+  override readonly name = "fake-agent";
+  override readonly displayName = "Fake Agent";
+  override readonly isLocal = true;
+  override readonly supportsBrowser = false;
+  override readonly taskTypes = ["ToolCallingTask"] as const;
+}
+
+type Turn = { readonly text?: string; readonly toolCalls?: ToolCall[] };
+
+/** Registers a provider that answers each model turn with the next scripted turn. */
+function registerScriptedProvider(turns: Turn[], seen: unknown[][] = []): () => void {
+  const registry = getAiProviderRegistry();
+  registry.registerProvider(new FakeAgentProvider());
+  const stream: AiProviderStreamFn<any, any, ModelConfig> = async function* (input) {
+    seen.push([...(input.messages ?? [])]);
+    const turn = turns.shift() ?? { text: "out of script" };
+    if (turn.text) yield { type: "text-delta", port: "text", textDelta: turn.text };
+    if (turn.toolCalls)
+      yield { type: "object-delta", port: "toolCalls", objectDelta: turn.toolCalls };
+    yield { type: "finish", data: { text: "", toolCalls: [] } as any };
+  };
+  registry.registerStreamFn("fake-agent", "ToolCallingTask", stream);
+  return () => registry.unregisterProvider("fake-agent");
+}
+
+function mkContext(registry = new ServiceRegistry(new Container())): IExecuteContext {
+  return {
+    signal: new AbortController().signal,
+    updateProgress: async () => {},
+    own: <T>(i: T) => i,
+    registry,
+  } as unknown as IExecuteContext;
+}
+
+const model = { provider: "fake-agent", model: "fake-model" } as unknown as ModelConfig;
+
+const squareTool: ToolDefinition = {
+  name: "TestSquareTask",
+  description: "Squares a number",
+  inputSchema: TestSquareTask.inputSchema() as ToolDefinition["inputSchema"],
+};
+
+function squareCall(id: string, input: number, name = "TestSquareTask"): ToolCall {
+  return { id, name, input: { input } };
+}
+
+describe("AgentTask", () => {
+  let unregister: (() => void) | undefined;
+
+  beforeEach(() => {
+    TaskRegistry.registerTask(TestSquareTask);
+    TaskRegistry.registerTask(NetworkSquareTask);
+  });
+
+  afterEach(() => {
+    unregister?.();
+    unregister = undefined;
+  });
+
+  it("registers via registerAiTasks()", () => {
+    registerAiTasks();
+    expect(TaskRegistry.all.get("AgentTask")).toBe(AgentTask);
+    expect(AgentTask.runtype).toBe("ToolCallingTask");
+  });
+
+  it("calls tools until the model answers and returns the transcript", async () => {
+    const seen: unknown[][] = [];
+    unregister = registerScriptedProvider(
+      [{ toolCalls: [squareCall("call_1", 3), squareCall("call_2", 4)] }, { text: "9 and 16" }],
+      seen
+    );
+
+    const result = await new AgentTask().execute(
+      { model, prompt: "Square 3 and 4", tools: [squareTool] },
+      mkContext()
+    );
+
+    expect(result?.text).toBe("9 and 16");
+    expect(result?.iterations).toBe(2);
+    expect(result?.stopReason).toBe("done");
+    expect(result?.messages.map((m) => m.role)).toEqual(["user", "assistant", "tool", "assistant"]);
+    expect(result?.messages[2].content).toEqual([
+      {
+        type: "tool_result",
+        tool_use_id: "call_1",
+        content: [{ type: "text", text: '{"output":9}' }],
+        is_error: false,
+      },
+      {
+        type: "tool_result",
+        tool_use_id: "call_2",
+        content: [{ type: "text", text: '{"output":16}' }],
+        is_error: false,
+      },
+    ]);
+    // The second turn sees the tool results
+    expect(seen[1]).toHaveLength(3);
+  });
+
+  it("returns the text it streamed over several turns", async () => {
+    unregister = registerScriptedProvider([
+      { text: "Squaring 3.", toolCalls: [squareCall("call_1", 3)] },
+      { text: "It is 9." },
+    ]);
+
+    let streamed = "";
+    let finished: AgentTaskOutput | undefined;
+    for await (const event of new AgentTask().executeStream(
+      { model, prompt: "Square 3", tools: [squareTool] },
+      mkContext()
+    )) {
+      if (event.type === "text-delta" && event.port === "text") streamed += event.textDelta;
+      if (event.type === "finish") finished = event.data as AgentTaskOutput;
+    }
+
+    expect(streamed).toBe("Squaring 3.\n\nIt is 9.");
+    expect(finished?.text).toBe(streamed);
+    expect(finished?.iterations).toBe(2);
+  });
+
+  it("runs function tools and sub-graph tools", async () => {
+    unregister = registerScriptedProvider([
+      {
+        toolCalls: [
+          { id: "call_1", name: "echo", input: { value: "hi" } },
+          squareCall("call_2", 5, "square_graph"),
+        ],
+      },
+      { text: "done" },
+    ]);
+    const tools: ToolDefinition[] = [
+      {
+        name: "echo",
+        description: "Echoes its input",
+        inputSchema: { type: "object" },
+        execute: async (input) => ({ echoed: input.value }),
+      },
+      {
+        name: "square_graph",
+        description: "Squares a number in a sub-graph",
+        inputSchema: { type: "object" },
+        type: "graph",
+        graph: { tasks: [{ id: "square", type: "TestSquareTask" }], dataflows: [] },
+      },
+    ];
+
+    const result = await new AgentTask().execute({ model, prompt: "go", tools }, mkContext());
+
+    const toolMessage = result!.messages[2];
+    expect(toolMessage.content.map((block: any) => block.content[0].text)).toEqual([
+      '{"echoed":"hi"}',
+      '{"output":25}',
+    ]);
+  });
+
+  it("reports tool errors and unknown tools to the model", async () => {
+    unregister = registerScriptedProvider([
+      { toolCalls: [{ id: "call_1", name: "missing", input: {} }] },
+      { text: "sorry" },
+    ]);
+
+    const result = await new AgentTask().execute(
+      { model, prompt: "go", tools: [squareTool] },
+      mkContext()
+    );
+
+    expect(result?.stopReason).toBe("done");
+    const block = result!.messages[2].content[0] as any;
+    expect(block.is_error).toBe(true);
+    expect(block.content[0].text).toContain('Unknown tool "missing"');
+  });
+
+  it("does not run tools whose entitlements are denied", async () => {
+    unregister = registerScriptedProvider([
+      { toolCalls: [squareCall("call_1", 2, "NetworkSquareTask")] },
+      { text: "denied" },
+    ]);
+    const registry = new ServiceRegistry(new Container());
+    registry.registerInstance(ENTITLEMENT_ENFORCER, createPolicyEnforcer(EMPTY_POLICY));
+    const tools: ToolDefinition[] = [{ ...squareTool, name: "NetworkSquareTask" }];
+
+    const result = await new AgentTask().execute(
+      { model, prompt: "go", tools },
+      mkContext(registry)
+    );
+
+    const block = result!.messages[2].content[0] as any;
+    expect(block.is_error).toBe(true);
+    expect(block.content[0].text).toContain("denied entitlements");
+  });
+
+  it("includes the entitlements of its tools", () => {
+    const task = new AgentTask({
+      defaults: { tools: [{ ...squareTool, name: "NetworkSquareTask" }] },
+    });
+    const ids = task.entitlements().entitlements.map((e) => e.id);
+    expect(ids).toContain(Entitlements.AI_INFERENCE);
+    expect(ids).toContain(Entitlements.NETWORK_HTTP);
+  });
+
+  it("stops at maxIterations", async () => {
+    unregister = registerScriptedProvider([
+      { toolCalls: [squareCall("call_1", 1)] },
+      { toolCalls: [squareCall("call_2", 2)] },
+      { toolCalls: [squareCall("call_3", 3)] },
+    ]);
+
+    const result = await new AgentTask().execute(
+      { model, prompt: "loop", tools: [squareTool], maxIterations: 2 },
+      mkContext()
+    );
+
+    expect(result?.iterations).toBe(2);
+    expect(result?.stopReason).toBe("max-iterations");
+  });
+
+  it("stops when the transcript exceeds the token budget", async () => {
+    unregister = registerScriptedProvider([
+      { text: "x".repeat(400), toolCalls: [squareCall("call_1", 1)] },
+      { text: "unreachable" },
+    ]);
+
+    const result = await new AgentTask().execute(
+      { model, prompt: "go", tools: [squareTool], tokenBudget: 50 },
+      mkContext()
+    );
+
+    expect(result?.iterations).toBe(1);
+    expect(result?.stopReason).toBe("token-budget");
+  });
+});
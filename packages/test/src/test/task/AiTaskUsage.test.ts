@@ -0,0 +1,166 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AiProviderRunFn, AiProviderStreamFn, ModelConfig } from "@workglow/ai";
+import {
+  AiProvider,
+  computeUsageCost,
+  CountTokensTask,
+  getAiProviderRegistry,
+  getModelPricing,
+  TextGenerationTask,
+  withAiUsage,
+} from "@workglow/ai";
+import type { IExecuteContext, StreamEvent, TaskUsage } from "@workglow/task-graph";
+import { TaskBudgetExceededError, TaskBudgetTracker } from "@workglow/task-graph";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+class FakeMeteredProvider extends AiProvider {
+  override readonly name = "fake-metered";
+  override readonly displayName = "Fake Metered";
+  override readonly isLocal = true;
+  override readonly supportsBrowser = false;
+  override readonly taskTypes = ["TextGenerationTask"] as const;
+}
+
+function mkContext(reported: TaskUsage[], budget?: TaskBudgetTracker): IExecuteContext {
+  return {
+    signal: new AbortController().signal,
+    updateProgress: async () => {},
+    own: <T>(i: T) => i,
+    reportUsage: (usage: TaskUsage) => reported.push(usage),
+    budget,
+  } as unknown as IExecuteContext;
+}
+
+function mkModel(metadata: Record<string, unknown> = {}): ModelConfig {
+  return {
+    model_id: "fake:model",
+    provider: "fake-metered",
+    provider_config: { model_name: "fake-model" },
+    metadata,
+  } as unknown as ModelConfig;
+}
+
+const pricing = {
+  inputPerMillion: 2,
+  outputPerMillion: 8,
+  cachedInputPerMillion: 0.5,
+};
+
+describe("AI task usage", () => {
+  beforeEach(() => {
+    const registry = getAiProviderRegistry();
+    registry.registerProvider(new FakeMeteredProvider());
+    const run: AiProviderRunFn<any, any, ModelConfig> = async () =>
+      withAiUsage(
+        { text: "hello" },
+        { inputTokens: 1_000, outputTokens: 500, cachedInputTokens: 400 }
+      );
+    const stream: AiProviderStreamFn<any, any, ModelConfig> = async function* () {
+      yield { type: "text-delta", port: "text", textDelta: "hel" };
+      yield { type: "text-delta", port: "text", textDelta: "lo" };
+      yield { type: "finish", data: withAiUsage({} as any, { inputTokens: 12, outputTokens: 2 }) };
+    };
+    registry.registerRunFn("fake-metered", "TextGenerationTask", run);
+    registry.registerRunFn("fake-metered", "CountTokensTask", async () => ({ count: 42 }));
+    registry.registerStreamFn("fake-metered", "TextGenerationTask", stream);
+  });
+
+  afterEach(() => {
+    getAiProviderRegistry().unregisterProvider("fake-metered");
+  });
+
+  it("strips provider usage from the output and reports a priced record", async () => {
+    const reported: TaskUsage[] = [];
+    const model = mkModel({ pricing });
+    const output = await new TextGenerationTask().execute(
+      { model, prompt: "hi" } as any,
+      mkContext(reported)
+    );
+
+    expect(output).toEqual({ text: "hello" });
+    expect(reported).toHaveLength(1);
+    const [usage] = reported;
+    expect(usage).toMatchObject({
+      provider: "fake-metered",
+      model: "fake:model",
+      taskType: "TextGenerationTask",
+      inputTokens: 1_000,
+      outputTokens: 500,
+      cachedInputTokens: 400,
+      currency: "USD",
+    });
+    // 600 uncached * 2 + 400 cached * 0.5 + 500 output * 8, per million
+    expect(usage.cost).toBeCloseTo(0.0054, 10);
+    expect(usage.latencyMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("reports usage from the stream finish event", async () => {
+    const reported: TaskUsage[] = [];
+    const events: StreamEvent<any>[] = [];
+    for await (const event of new TextGenerationTask().executeStream(
+      { model: mkModel(), prompt: "hi" } as any,
+      mkContext(reported)
+    )) {
+      events.push(event);
+    }
+
+    const finish = events.find((e) => e.type === "finish") as { data: Record<string, unknown> };
+    expect(finish.data).toEqual({});
+    expect(reported).toHaveLength(1);
+    expect(reported[0]).toMatchObject({ inputTokens: 12, outputTokens: 2, cachedInputTokens: 0 });
+    // No price table, no cost
+    expect(reported[0].cost).toBeUndefined();
+  });
+
+  it("aggregates usage on the task when run", async () => {
+    const task = new TextGenerationTask({
+      defaults: { model: mkModel({ pricing }), prompt: "hi" } as any,
+    });
+    await task.run();
+    expect(task.usage).toHaveLength(1);
+    expect(task.usage[0].model).toBe("fake:model");
+  });
+
+  it("reserves calls against the budget, estimating with the provider tokenizer", async () => {
+    const model = mkModel();
+    const tooSmall = new TaskBudgetTracker({ maxTokens: 41 });
+    await expect(
+      new TextGenerationTask().execute({ model, prompt: "hi" } as any, mkContext([], tooSmall))
+    ).rejects.toBeInstanceOf(TaskBudgetExceededError);
+    expect(tooSmall.spent.calls).toBe(0);
+
+    const budget = new TaskBudgetTracker({ maxTokens: 10_000, maxCalls: 1 });
+    await new TextGenerationTask().execute({ model, prompt: "hi" } as any, mkContext([], budget));
+    expect(budget.spent).toMatchObject({ calls: 1, tokens: 1_500 });
+    const error = await new TextGenerationTask()
+      .execute({ model, prompt: "hi" } as any, mkContext([], budget))
+      .catch((e) => e);
+    expect(error.limit).toBe("maxCalls");
+
+    // Tokenizer calls are not metered
+    const reported: TaskUsage[] = [];
+    const output = await new CountTokensTask().execute(
+      { model, text: "hi" } as any,
+      mkContext(reported, budget)
+    );
+    expect(output).toEqual({ count: 42 });
+    expect(reported).toHaveLength(0);
+  });
+
+  it("reads price tables from model metadata", () => {
+    expect(getModelPricing(mkModel())).toBeUndefined();
+    expect(getModelPricing(mkModel({ pricing: { inputPerMillion: 1 } }))).toBeUndefined();
+    expect(getModelPricing(mkModel({ pricing }))).toEqual(pricing);
+    expect(
+      computeUsageCost(
+        { inputTokens: 2_000_000, outputTokens: 0, cachedInputTokens: 0 },
+        { inputPerMillion: 3, outputPerMillion: 15 }
+      )
+    ).toBe(6);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * @license
+ * Copyright 2026 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Workflow } from "@workglow/task-graph";
+import {
+  AudioConcatTask,
+  AudioDecodeTask,
+  AudioEncodeTask,
+  AudioMixdownTask,
+  AudioNormalizeTask,
+  AudioResampleTask,
+  AudioSilenceSplitTask,
+  AudioTrimTask,
+  detectAudioSegments,
+} from "@workglow/tasks";
+import type { AudioBinary, AudioCodec } from "@workglow/util/media";
+import {
+  audioBinaryToWavDataUri,
+  decodeAudioDataUri,
+  encodeAudioDataUri,
+  getAudioCodec,
+  hasAudioCodec,
+  registerAudioCodec,
+} from "@workglow/util/media";
+import { describe, expect, it } from "vitest";
+
+function constant(values: number[], sampleRate = 100, channels = 1): AudioBinary {
+  return { data: new Float32Array(values), sampleRate, channels };
+}
+
+/** `seconds` of samples at a constant level, at 1 kHz */
+function burst(level: number, seconds: number): number[] {
+  return new Array(Math.round(seconds * 1000)).fill(level);
+}
+
+describe("audio codec registry", () => {
+  it("decodes and encodes WAV data URIs out of the box", async () => {
+    expect(hasAudioCodec("audio/WAV")).toBe(true);
+    const audio = constant([0, 0.5, -0.5, 0]);
+    const uri = await encodeAudioDataUri(audio);
+    expect(uri).toBe(audioBinaryToWavDataUri(audio));
+    const decoded = await decodeAudioDataUri(uri);
+    expect(decoded.sampleRate).toBe(100);
+    expect(decoded.data[1]).toBeCloseTo(0.5, 4);
+  });
+
+  it("dispatches to registered codecs and names the supported types otherwise", async () => {
+    const codec: AudioCodec = {
+      mimeTypes: ["audio/x-test"],
+      decode: async (bytes) => constant(Array.from(bytes, (b) => b / 255)),
+      encode: async (audio) => Uint8Array.from(audio.data, (v) => Math.round(v * 255)),
+    };
+    registerAudioCodec(codec);
+    expect(getAudioCodec("audio/x-test")).toBe(codec);
+    const uri = await encodeAudioDataUri(constant([0, 1]), "audio/x-test");
+    expect(uri.startsWith("data:audio/x-test;base64,")).toBe(true);
+    expect(Array.from((await decodeAudioDataUri(uri)).data)).toEqual([0, 1]);
+
+    await expect(decodeAudioDataUri("data:audio/flac;base64,AAAA")).rejects.toThrow(
+      /audio\/flac.*audio\/wav/
+    );
+  });
+});
+
+describe("audio tasks", () => {
+  it("decodes a data URI and reports its duration", async () => {
+    const uri = audioBinaryToWavDataUri(constant(new Array(200).fill(0), 100, 2));
+    const output = await new AudioDecodeTask().run({ audio: uri });
+    expect(output.duration).toBe(1);
+    expect(output.audio).toMatchObject({ sampleRate: 100, channels: 2 });
+    expect(output.audio.data.length).toBe(200);
+  });
+
+  it("encodes audio to a WAV data URI", async () => {
+    const output = await new AudioEncodeTask().run({ audio: constant([0, 0.25]) });
+    expect(output.dataUri.startsWith("data:audio/wav;base64,")).toBe(true);
+  });
+
+  it("mixes down to mono and spreads mono to stereo", async () => {
+    const stereo = constant([1, 0, 0.5, 0.5], 100, 2);
+    const mono = await new AudioMixdownTask().run({ audio: stereo });
+    expect(mono.audio).toMatchObject({ channels: 1 });
+    expect(Array.from(mono.audio.data)).toEqual([0.5, 0.5]);
+
+    const spread = await new AudioMixdownTask().run({ audio: mono.audio, channels: 2 });
+    expect(Array.from(spread.audio.data)).toEqual([0.5, 0.5, 0.5, 0.5]);
+  });
+
+  it("trims to a time range", async () => {
+    const audio = constant([0, 1, 2, 3, 4, 5, 6, 7, 8, 9], 10);
+    const output = await new AudioTrimTask().run({ audio, start: 0.2, end: 0.5 });
+    expect(Array.from(output.audio.data)).toEqual([2, 3, 4]);
+    const tail = await new AudioTrimTask().run({ audio, start: 0.8 });
+    expect(Array.from(tail.audio.data)).toEqual([8, 9]);
+    const empty = await new AudioTrimTask().run({ audio, start: 2 });
+    expect(empty.audio.data.length).toBe(0);
+  });
+
+  it("normalizes the peak level", async () => {
+    const output = await new AudioNormalizeTask().run({
+      audio: constant([0.1, -0.25, 0.05]),
+      peak: 0,
+    });
+    expect(output.audio.data[1]).toBeCloseTo(-1, 6);
+    expect(output.audio.data[0]).toBeCloseTo(0.4, 6);
+
+    const silent = constant([0, 0]);
+    expect((await new AudioNormalizeTask().run({ audio: silent })).audio).toBe(silent);
+  });
+
+  it("detects silence and splits around it", async () => {
+    const audio = constant(
+      [
+        ...burst(0, 0.2),
+        ...burst(0.5, 0.3),
+        ...burst(0, 0.1), // too short to split
+        ...burst(0.5, 0.2),
+        ...burst(0, 0.5),
+        ...burst(0.5, 0.1),
+      ],
+      1000
+    );
+    const output = await new AudioSilenceSplitTask().run({ audio, minSilence: 0.3 });
+    expect(output.segments).toEqual([
+      { start: 0.2, end: 0.8 },
+      { start: 1.3, end: 1.4 },
+    ]);
+    expect(output.clips.map((clip) => clip.data.length)).toEqual([600, 100]);
+    expect(detectAudioSegments(audio, -3)).toEqual([]);
+  });
+
+  it("concatenates clips in the format of the first", async () => {
+    const output = await new AudioConcatTask().run({
+      audios: [constant([1, 1], 10), constant([0.5, 0.5, 0.25, 0.25], 10, 2)],
+      gap: 0.1,
+    });
+    expect(output.audio).toMatchObject({ sampleRate: 10, channels: 1 });
+    expect(Array.from(output.audio.data)).toEqual([1, 1, 0, 0.5, 0.25]);
+  });
+
+  it("preprocesses audio for speech recognition in a workflow", async () => {
+    const stereo = constant(new Array(96000).fill(0.1), 48000, 2);
+    const output = await new Workflow()
+      .audioDecode({ audio: audioBinaryToWavDataUri(stereo) })
+      .audioMixdown({ channels: 1 })
+      .audioResample({ sampleRate: 16000 })
+      .audioNormalize({ peak: -1 })
+      .run();
+    const audio = output.audio as AudioBinary;
+    expect(audio).toMatchObject({ sampleRate: 16000, channels: 1 });
+    expect(audio.data.length).toBe(16000);
+    expect(audio.data[0]).toBeCloseTo(Math.pow(10, -1 / 20), 4);
+  });
+
+  it("resamples", async () => {
+    const output = await new AudioResampleTask().run({
+      audio: constant([0, 1, 0, -1], 4),
+      sampleRate: 8,
+    });
+    expect(output.audio.sampleRate).toBe(8);
+    expect(output.audio.data.length).toBe(8);
+  });
+});
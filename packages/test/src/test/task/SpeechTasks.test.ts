@@ -0,0 +1,121 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AiProviderRunFn, AiProviderStreamFn, ModelConfig } from "@workglow/ai";
+import {
+  AiProvider,
+  AutomaticSpeechRecognitionTask,
+  getAiProviderRegistry,
+  TextToSpeechTask,
+} from "@workglow/ai";
+import type { StreamEvent } from "@workglow/task-graph";
+import { Workflow } from "@workglow/task-graph";
+import type { AudioBinary } from "@workglow/util/media";
+import { audioBinaryToWavDataUri, isAudioBinary } from "@workglow/util/media";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+const PROVIDER = "fake-speech";
+
+class FakeSpeechProvider extends AiProvider {
+  override readonly name = PROVIDER;
+  override readonly displayName = "Fake Speech";
+  override readonly isLocal = true;
+  override readonly supportsBrowser = true;
+  override readonly taskTypes = ["AutomaticSpeechRecognitionTask", "TextToSpeechTask"] as const;
+}
+
+const model = {
+  model_id: "fake-speech:model",
+  provider: PROVIDER,
+  tasks: ["AutomaticSpeechRecognitionTask", "TextToSpeechTask"],
+  provider_config: {},
+} as unknown as ModelConfig;
+
+const audio: AudioBinary = {
+  data: new Float32Array(160).fill(0.1),
+  sampleRate: 16000,
+  channels: 1,
+};
+
+describe("speech tasks", () => {
+  let received: unknown[];
+
+  beforeEach(() => {
+    received = [];
+    const registry = getAiProviderRegistry();
+    registry.registerProvider(new FakeSpeechProvider());
+
+    const transcribe: AiProviderRunFn<any, any, ModelConfig> = async (input) => {
+      received.push(input.audio);
+      return { text: "hello world", segments: [{ text: "hello world", start: 0, end: 0.1 }] };
+    };
+    const stream: AiProviderStreamFn<any, any, ModelConfig> = async function* (input) {
+      received.push(input.audio);
+      yield { type: "text-delta", port: "text", textDelta: "hello" };
+      yield { type: "text-delta", port: "text", textDelta: " world" };
+      yield {
+        type: "finish",
+        data: { segments: [{ text: "hello world", start: 0, end: 0.1 }] },
+      };
+    };
+    const speak: AiProviderRunFn<any, any, ModelConfig> = async (input) => ({
+      audio: { data: new Float32Array(input.text.length), sampleRate: 24000, channels: 1 },
+    });
+    registry.registerRunFn(PROVIDER, "AutomaticSpeechRecognitionTask", transcribe);
+    registry.registerStreamFn(PROVIDER, "AutomaticSpeechRecognitionTask", stream);
+    registry.registerRunFn(PROVIDER, "TextToSpeechTask", speak);
+  });
+
+  afterEach(() => {
+    getAiProviderRegistry().unregisterProvider(PROVIDER);
+  });
+
+  it("streams partial transcripts and returns the timed segments", async () => {
+    const task = new AutomaticSpeechRecognitionTask();
+    const deltas: string[] = [];
+    task.on("stream_chunk", (event: StreamEvent) => {
+      if (event.type === "text-delta") deltas.push(event.textDelta);
+    });
+
+    const output = await task.run({ audio, model });
+
+    expect(deltas).toEqual(["hello", " world"]);
+    expect(output).toEqual({
+      text: "hello world",
+      segments: [{ text: "hello world", start: 0, end: 0.1 }],
+    });
+    // The samples reach the provider as a Float32Array
+    expect(isAudioBinary(received[0])).toBe(true);
+    expect(Array.from((received[0] as AudioBinary).data)).toEqual(Array.from(audio.data));
+  });
+
+  it("accepts WAV data URIs", async () => {
+    const uri = audioBinaryToWavDataUri(audio);
+    const output = await new AutomaticSpeechRecognitionTask().run({ audio: uri, model });
+    expect(output.text).toBe("hello world");
+    expect(received[0]).toBe(uri);
+  });
+
+  it("synthesizes PCM audio in a workflow", async () => {
+    const output = await new Workflow().textToSpeech({ text: "hello", model }).run();
+    expect(isAudioBinary(output.audio)).toBe(true);
+    expect(output.audio).toMatchObject({ sampleRate: 24000, channels: 1 });
+    expect((output.audio as AudioBinary).data.length).toBe(5);
+  });
+
+  it("declares the audio port schemas", () => {
+    const input = AutomaticSpeechRecognitionTask.inputSchema() as any;
+    expect(input.properties.audio.oneOf.map((s: any) => s.format)).toEqual([
+      "audio:data-uri",
+      "audio:pcm",
+    ]);
+    expect((TextToSpeechTask.outputSchema() as any).properties.audio.required).toEqual([
+      "data",
+      "sampleRate",
+      "channels",
+    ]);
+  });
+});
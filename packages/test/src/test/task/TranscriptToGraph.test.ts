@@ -0,0 +1,134 @@
+/**
+ * @license
+ * Copyright 2026 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ChatMessage, ContentBlockToolResult } from "@workglow/ai";
+import { saveTranscriptAsGraph, transcriptToGraph, transcriptToWorkflowCode } from "@workglow/ai";
+import { TaskConfigurationError, TaskRegistry } from "@workglow/task-graph";
+import { beforeEach, describe, expect, it } from "vitest";
+import { InMemoryTaskGraphRepository } from "../../binding/InMemoryTaskGraphRepository";
+import { TestSquareTask } from "./TestTasks";
+
+function toolUse(id: string, input: Record<string, unknown>, name = "TestSquareTask") {
+  return { type: "tool_use" as const, id, name, input };
+}
+
+function toolResult(id: string, output: unknown, isError = false): ContentBlockToolResult {
+  return {
+    type: "tool_result",
+    tool_use_id: id,
+    content: [{ type: "text", text: isError ? String(output) : JSON.stringify(output) }],
+    is_error: isError,
+  };
+}
+
+/** Square 3, then square the result, then square 2 independently. */
+const transcript: ChatMessage[] = [
+  { role: "user", content: [{ type: "text", text: "Square 3 twice, and square 2" }] },
+  { role: "assistant", content: [toolUse("call_1", { input: 3 })] },
+  { role: "tool", content: [toolResult("call_1", { output: 9 })] },
+  {
+    role: "assistant",
+    content: [toolUse("call_2", { input: 9 }), toolUse("call_3", { input: 2 })],
+  },
+  {
+    role: "tool",
+    content: [toolResult("call_2", { output: 81 }), toolResult("call_3", { output: 4 })],
+  },
+  { role: "assistant", content: [{ type: "text", text: "81 and 4" }] },
+];
+
+describe("transcriptToGraph", () => {
+  beforeEach(() => {
+    TaskRegistry.registerTask(TestSquareTask);
+  });
+
+  it("creates a task per tool call and links outputs that fed later inputs", () => {
+    const graph = transcriptToGraph(transcript);
+
+    expect(graph.getTasks().map((task) => task.id)).toEqual(["call_1", "call_2", "call_3"]);
+    expect(graph.getTask("call_1")?.defaults).toEqual({ input: 3 });
+    expect(graph.getTask("call_2")?.defaults).toEqual({});
+    expect(graph.getTask("call_3")?.defaults).toEqual({ input: 2 });
+    expect(
+      graph
+        .getDataflows()
+        .map((df) => [df.sourceTaskId, df.sourceTaskPortId, df.targetTaskId, df.targetTaskPortId])
+    ).toEqual([["call_1", "output", "call_2", "input"]]);
+  });
+
+  it("replays the calls without the model", async () => {
+    const results = await transcriptToGraph(transcript).run();
+    expect(results).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ id: "call_2", data: { output: 81 } }),
+        expect.objectContaining({ id: "call_3", data: { output: 4 } }),
+      ])
+    );
+  });
+
+  it("maps tool names to the task types and config they were called with", () => {
+    const graph = transcriptToGraph(
+      [
+        { role: "assistant", content: [toolUse("call_1", { input: 5 }, "square")] },
+        { role: "tool", content: [toolResult("call_1", { output: 25 })] },
+      ],
+      {
+        tools: [
+          {
+            name: "square",
+            description: "Squares a number",
+            inputSchema: {},
+            taskType: "TestSquareTask",
+            config: { title: "Square it" },
+          } as any,
+        ],
+      }
+    );
+
+    const task = graph.getTask("call_1")!;
+    expect(task.type).toBe("TestSquareTask");
+    expect(task.config.title).toBe("Square it");
+  });
+
+  it("leaves out failed calls unless asked to keep them", () => {
+    const withFailure: ChatMessage[] = [
+      { role: "assistant", content: [toolUse("call_1", { input: "x" })] },
+      { role: "tool", content: [toolResult("call_1", "bad input", true)] },
+      { role: "assistant", content: [toolUse("call_2", { input: 4 })] },
+      { role: "tool", content: [toolResult("call_2", { output: 16 })] },
+    ];
+
+    expect(
+      transcriptToGraph(withFailure)
+        .getTasks()
+        .map((task) => task.id)
+    ).toEqual(["call_2"]);
+    expect(transcriptToGraph(withFailure, { includeFailedCalls: true }).getTasks().length).toBe(2);
+  });
+
+  it("rejects calls to function tools", () => {
+    expect(() =>
+      transcriptToGraph([{ role: "assistant", content: [toolUse("call_1", {}, "echo")] }], {
+        tools: [
+          { name: "echo", description: "", inputSchema: {}, execute: async (input) => input },
+        ],
+      })
+    ).toThrow(TaskConfigurationError);
+  });
+
+  it("emits Workflow code and saves the graph", async () => {
+    const code = transcriptToWorkflowCode(transcript);
+    expect(code).toContain("new Workflow()");
+    expect(code).toContain("TestSquareTask");
+
+    const repository = new InMemoryTaskGraphRepository();
+    await repository.setupDatabase();
+    await saveTranscriptAsGraph(repository, "squares", transcript);
+    const saved = await repository.getTaskGraph("squares");
+    expect(saved?.getTasks()).toHaveLength(3);
+    expect(saved?.getDataflows()).toHaveLength(1);
+  });
+});
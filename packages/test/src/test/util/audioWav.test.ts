@@ -0,0 +1,109 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AudioBinary } from "@workglow/util/media";
+import {
+  audioBinaryToWavDataUri,
+  audioDuration,
+  audioToMono,
+  decodeWav,
+  encodeWav,
+  isAudioBinary,
+  resampleAudio,
+  wavDataUriToAudioBinary,
+} from "@workglow/util/media";
+import { describe, expect, it } from "vitest";
+
+function tone(frames: number, sampleRate = 8000, channels = 1): AudioBinary {
+  const data = new Float32Array(frames * channels);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = 0.5 * Math.sin((2 * Math.PI * 440 * Math.floor(i / channels)) / sampleRate);
+  }
+  return { data, sampleRate, channels };
+}
+
+describe("WAV encoding", () => {
+  it("round-trips 16-bit PCM within quantization error", () => {
+    const audio = tone(800, 8000, 2);
+    const bytes = encodeWav(audio);
+    expect(bytes.byteLength).toBe(44 + audio.data.length * 2);
+
+    const decoded = decodeWav(bytes);
+    expect(decoded.sampleRate).toBe(8000);
+    expect(decoded.channels).toBe(2);
+    expect(decoded.data.length).toBe(audio.data.length);
+    for (let i = 0; i < audio.data.length; i++) {
+      expect(Math.abs(decoded.data[i] - audio.data[i])).toBeLessThan(2 / 0x7fff);
+    }
+  });
+
+  it("round-trips 32-bit float exactly and clamps PCM", () => {
+    const audio: AudioBinary = {
+      data: new Float32Array([0, 0.25, -1.5, 2]),
+      sampleRate: 16000,
+      channels: 1,
+    };
+    expect(Array.from(decodeWav(encodeWav(audio, "float32")).data)).toEqual(Array.from(audio.data));
+
+    const clamped = decodeWav(encodeWav(audio)).data;
+    expect(clamped[2]).toBe(-1);
+    expect(clamped[3]).toBeCloseTo(1, 4);
+  });
+
+  it("decodes 8-bit unsigned PCM and skips unknown chunks", () => {
+    const bytes = encodeWav({ data: new Float32Array(4), sampleRate: 8000, channels: 1 });
+    // Rewrite as 8-bit: 4 samples of 1 byte, with a LIST chunk before the data
+    const view = new DataView(bytes.buffer);
+    view.setUint16(32, 1, true);
+    view.setUint16(34, 8, true);
+    const header = bytes.slice(0, 36);
+    const list = new Uint8Array([0x4c, 0x49, 0x53, 0x54, 2, 0, 0, 0, 0, 0]);
+    const data = new Uint8Array([0x64, 0x61, 0x74, 0x61, 4, 0, 0, 0, 0, 128, 255, 64]);
+    const wav = new Uint8Array([...header, ...list, ...data]);
+
+    expect(Array.from(decodeWav(wav).data)).toEqual([-1, 0, 127 / 128, -0.5]);
+  });
+
+  it("rejects non-WAV input", () => {
+    expect(() => decodeWav(new Uint8Array(16))).toThrow("not a RIFF/WAVE file");
+    expect(() => wavDataUriToAudioBinary("data:audio/mpeg;base64,AAAA")).toThrow("WAV");
+  });
+
+  it("round-trips through a data URI", () => {
+    const audio = tone(100);
+    const uri = audioBinaryToWavDataUri(audio);
+    expect(uri.startsWith("data:audio/wav;base64,")).toBe(true);
+    const decoded = wavDataUriToAudioBinary(uri);
+    expect(isAudioBinary(decoded)).toBe(true);
+    expect(audioDuration(decoded)).toBeCloseTo(100 / 8000, 10);
+  });
+});
+
+describe("audio helpers", () => {
+  it("mixes channels down to mono", () => {
+    const stereo: AudioBinary = {
+      data: new Float32Array([1, 0, 0.5, -0.5]),
+      sampleRate: 8000,
+      channels: 2,
+    };
+    const mono = audioToMono(stereo);
+    expect(mono.channels).toBe(1);
+    expect(Array.from(mono.data)).toEqual([0.5, 0]);
+  });
+
+  it("resamples by linear interpolation", () => {
+    const audio: AudioBinary = {
+      data: new Float32Array([0, 1, 0, -1]),
+      sampleRate: 4,
+      channels: 1,
+    };
+    const up = resampleAudio(audio, 8);
+    expect(up.sampleRate).toBe(8);
+    expect(Array.from(up.data)).toEqual([0, 0.5, 1, 0.5, 0, -0.5, -1, -1]);
+    expect(resampleAudio(tone(48000, 48000), 16000).data.length).toBe(16000);
+    expect(() => resampleAudio(audio, 0)).toThrow("invalid sample rate");
+  });
+});
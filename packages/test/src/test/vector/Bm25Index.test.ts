@@ -0,0 +1,132 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  Bm25Index,
+  fuseHybridSearchHits,
+  getVectorSearchText,
+  stemWord,
+  tokenizeSearchText,
+} from "@workglow/storage";
+import { describe, expect, it } from "vitest";
+
+describe("Bm25Index", () => {
+  it("stems words with the Porter algorithm", () => {
+    const stems = Object.fromEntries(
+      [
+        "caresses",
+        "ponies",
+        "cats",
+        "plastered",
+        "motoring",
+        "hopping",
+        "happy",
+        "relational",
+        "conditional",
+        "hopefulness",
+        "electrical",
+        "adjustment",
+        "generalization",
+        "controlling",
+        "yelling",
+      ].map((word) => [word, stemWord(word)])
+    );
+    expect(stems).toEqual({
+      caresses: "caress",
+      ponies: "poni",
+      cats: "cat",
+      plastered: "plaster",
+      motoring: "motor",
+      hopping: "hop",
+      happy: "happi",
+      relational: "relat",
+      conditional: "condit",
+      hopefulness: "hope",
+      electrical: "electr",
+      adjustment: "adjust",
+      generalization: "gener",
+      controlling: "control",
+      yelling: "yell",
+    });
+  });
+
+  it("tokenizes without case, diacritics, punctuation or stopwords", () => {
+    expect(tokenizeSearchText("The Café's INDEXES, and 42 résumés!")).toEqual([
+      "cafe",
+      "s",
+      "index",
+      "42",
+      "resum",
+    ]);
+  });
+
+  it("ranks rare terms and short documents higher", () => {
+    const index = new Bm25Index();
+    index.add("a", "data data pipelines");
+    index.add("b", "a zebra in the data center");
+    index.add("c", "data lakes and data warehouses and more data");
+    index.add("d", "zebra");
+
+    const hits = index.search("zebra data");
+    expect(hits.map((h) => h.id)).toEqual(["b", "d", "a", "c"]);
+    // Only documents with a query term are returned
+    expect(index.search("giraffe")).toEqual([]);
+  });
+
+  it("updates and removes documents", () => {
+    const index = new Bm25Index();
+    index.add("a", "vector search");
+    index.add("b", "lexical search");
+    index.add("a", "hybrid retrieval");
+    expect(index.size).toBe(2);
+    expect(index.search("vector")).toEqual([]);
+    expect(index.search("retrieval").map((h) => h.id)).toEqual(["a"]);
+
+    index.remove("b");
+    expect(index.search("search")).toEqual([]);
+    expect(index.search("search lexical hybrid", (id) => id !== "a")).toEqual([]);
+  });
+
+  it("indexes the text field of metadata, or its string values", () => {
+    expect(getVectorSearchText({ text: "chunk text", title: "ignored" })).toBe("chunk text");
+    expect(getVectorSearchText({ title: "Title", year: 2024, summary: "Summary" })).toBe(
+      "Title Summary"
+    );
+  });
+});
+
+describe("fuseHybridSearchHits", () => {
+  const hit = (key: string, vectorScore?: number, textScore?: number) => ({
+    key,
+    row: { id: key },
+    vectorScore,
+    textScore,
+  });
+
+  it("normalizes text scores for weighted fusion", () => {
+    const results = fuseHybridSearchHits(
+      [hit("a", 0.9), hit("b", 0.5)],
+      [hit("b", 0.5, 8), hit("c", 0.1, 4)],
+      { vectorWeight: 0.5 }
+    );
+    expect(results.map((r) => r.id)).toEqual(["b", "a", "c"]);
+    expect(results[0].score).toBeCloseTo(0.25 + 0.5, 10);
+    expect(results[1].score).toBeCloseTo(0.45, 10);
+    // c is missing from the vector ranking, so its own vector score is used
+    expect(results[2].score).toBeCloseTo(0.05 + 0.25, 10);
+  });
+
+  it("sums reciprocal ranks for rrf fusion", () => {
+    const results = fuseHybridSearchHits([hit("a"), hit("b"), hit("c")], [hit("c"), hit("b")], {
+      fusion: "rrf",
+      rrfK: 10,
+      topK: 2,
+    });
+    expect(results.map((r) => r.id)).toEqual(["c", "b"]);
+    expect(results[0].score).toBeCloseTo(1 / 13 + 1 / 11, 10);
+    expect(results[1].score).toBeCloseTo(1 / 12 + 1 / 12, 10);
+  });
+});
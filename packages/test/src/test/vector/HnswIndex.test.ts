@@ -0,0 +1,117 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { HnswIndex } from "@workglow/storage";
+import { cosineSimilarity } from "@workglow/util/schema";
+import { describe, expect, it } from "vitest";
+import { randomVectors } from "./genericVectorIndexTests";
+
+function bruteForce(vectors: Map<string, Float32Array>, query: Float32Array, k: number): string[] {
+  return [...vectors.entries()]
+    .map(([id, vector]) => ({ id, score: cosineSimilarity(query, vector) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .map((r) => r.id);
+}
+
+function recallAt(
+  index: HnswIndex,
+  vectors: Map<string, Float32Array>,
+  queries: Float32Array[],
+  k: number
+): number {
+  let found = 0;
+  for (const query of queries) {
+    const expected = new Set(bruteForce(vectors, query, k));
+    found += index.search(query, k).filter((hit) => expected.has(hit.id)).length;
+  }
+  return found / (queries.length * k);
+}
+
+describe("HnswIndex", () => {
+  const dimensions = 24;
+  const vectors = new Map<string, Float32Array>(
+    randomVectors(2000, dimensions, 1).map((vector, i) => [`v${i}`, vector] as const)
+  );
+  const queries = randomVectors(50, dimensions, 2);
+
+  function buildIndex(): HnswIndex {
+    const index = new HnswIndex({ m: 12, efConstruction: 100, efSearch: 64 });
+    for (const [id, vector] of vectors) {
+      index.add(id, vector);
+    }
+    return index;
+  }
+
+  it("finds the brute-force neighbours with high recall", () => {
+    const index = buildIndex();
+    expect(index.size).toBe(vectors.size);
+    expect(recallAt(index, vectors, queries, 10)).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it("returns cosine scores sorted highest first", () => {
+    const index = buildIndex();
+    const hits = index.search(queries[0], 5);
+    expect(hits).toHaveLength(5);
+    for (let i = 1; i < hits.length; i++) {
+      expect(hits[i - 1].score).toBeGreaterThanOrEqual(hits[i].score);
+    }
+    expect(hits[0].score).toBeCloseTo(cosineSimilarity(queries[0], vectors.get(hits[0].id)!), 5);
+  });
+
+  it("keeps recall after removing a third of the nodes", () => {
+    const index = buildIndex();
+    const remaining = new Map(vectors);
+    for (const id of [...vectors.keys()].filter((_, i) => i % 3 === 0)) {
+      index.remove(id);
+      remaining.delete(id);
+    }
+    expect(index.size).toBe(remaining.size);
+    for (const query of queries) {
+      for (const hit of index.search(query, 10)) {
+        expect(remaining.has(hit.id)).toBe(true);
+      }
+    }
+    expect(recallAt(index, remaining, queries, 10)).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it("replaces the vector when an id is added again", () => {
+    const index = new HnswIndex();
+    index.add("a", new Float32Array([1, 0]));
+    index.add("b", new Float32Array([0, 1]));
+    index.add("a", new Float32Array([0, -1]));
+    expect(index.size).toBe(2);
+    expect(index.search(new Float32Array([0, -1]), 1)[0]).toEqual({ id: "a", score: 1 });
+  });
+
+  it("handles an empty index and removing every node", () => {
+    const index = new HnswIndex();
+    expect(index.search(new Float32Array([1, 0]), 3)).toEqual([]);
+    index.add("a", new Float32Array([1, 0]));
+    index.remove("a");
+    index.remove("missing");
+    expect(index.size).toBe(0);
+    expect(index.search(new Float32Array([1, 0]), 3)).toEqual([]);
+  });
+
+  it("round-trips through records and tracks changes", () => {
+    const index = buildIndex();
+    const initial = index.takeChanges();
+    expect(initial.upserted).toHaveLength(vectors.size);
+    expect(initial.removed).toEqual([]);
+
+    const restored = HnswIndex.fromRecords(index.records(), index.state(), { efSearch: 64 });
+    expect(restored.size).toBe(index.size);
+    expect(restored.search(queries[0], 10)).toEqual(index.search(queries[0], 10));
+
+    index.remove("v1");
+    const changes = index.takeChanges();
+    expect(changes.removed).toEqual(["v1"]);
+    expect(changes.upserted.length).toBeGreaterThan(0);
+    expect(changes.upserted.every((record) => record.id !== "v1")).toBe(true);
+    expect(index.takeChanges().upserted).toEqual([]);
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { InMemoryVectorStorage } from "@workglow/storage";
+import type { VectorStorageOptions } from "@workglow/storage";
+import { describe, expect, it } from "vitest";
+import { runGenericHybridSearchTests } from "./genericHybridSearchTests";
+import {
+  FilterVectorPrimaryKey,
+  FilterVectorSchema,
+  FilterVectorStorage,
+  runGenericVectorFilterTests,
+} from "./genericVectorFilterTests";
+import {
+  benchmarkVectorSearch,
+  fillVectorStorage,
+  randomVectors,
+  runGenericVectorIndexTests,
+} from "./genericVectorIndexTests";
+
+async function createStorage(
+  dimensions: number,
+  options?: VectorStorageOptions
+): Promise<FilterVectorStorage> {
+  const storage = new InMemoryVectorStorage(
+    FilterVectorSchema,
+    FilterVectorPrimaryKey,
+    [],
+    dimensions,
+    Float32Array,
+    options
+  );
+  await storage.setupDatabase();
+  return storage as unknown as FilterVectorStorage;
+}
+
+describe("InMemoryVectorStorage", () => {
+  runGenericVectorFilterTests(() => createStorage(3));
+  runGenericHybridSearchTests(() => createStorage(3));
+
+  describe("with an HNSW index", () => {
+    runGenericVectorFilterTests(() => createStorage(3, { index: { type: "hnsw" } }));
+    runGenericVectorIndexTests(
+      () => createStorage(16),
+      () => createStorage(16, { index: { type: "hnsw", m: 12, efConstruction: 100 } })
+    );
+
+    it("searches faster than a flat scan on larger collections", async () => {
+      const flat = await createStorage(32);
+      const indexed = await createStorage(32, { index: { type: "hnsw", efConstruction: 64 } });
+      await fillVectorStorage([flat, indexed], randomVectors(5000, 32, 5));
+      const result = await benchmarkVectorSearch(flat, indexed, randomVectors(20, 32, 6), 10);
+      expect(result.recall).toBeGreaterThanOrEqual(0.8);
+      expect(result.indexedMs).toBeLessThan(result.flatMs);
+    }, 60_000);
+  });
+});
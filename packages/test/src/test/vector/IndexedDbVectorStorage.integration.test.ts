@@ -6,11 +6,24 @@
 
 import "fake-indexeddb/auto";
 
-import { IndexedDbVectorStorage } from "@workglow/storage";
+import type { VectorStorageOptions } from "@workglow/storage";
+import { dropIndexedDbTable, IndexedDbVectorStorage } from "@workglow/storage";
 import { setLogger, uuid4 } from "@workglow/util";
 import type { DataPortSchemaObject } from "@workglow/util/schema";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
 import { getTestingLogger } from "../../binding/TestingLogger";
+import { runGenericHybridSearchTests } from "./genericHybridSearchTests";
+import {
+  FilterVectorPrimaryKey,
+  FilterVectorSchema,
+  FilterVectorStorage,
+  runGenericVectorFilterTests,
+} from "./genericVectorFilterTests";
+import {
+  fillVectorStorage,
+  randomVectors,
+  runGenericVectorIndexTests,
+} from "./genericVectorIndexTests";
 
 const VectorSchema = {
   type: "object",
@@ -345,4 +358,73 @@ describe("IndexedDbVectorStorage", () => {
       expect(results.length).toBeLessThanOrEqual(2);
     });
   });
+
+  async function createFilterStorage(
+    dimensions: number,
+    options?: VectorStorageOptions,
+    table: string = `${dbName}_filter_${Date.now()}_${Math.random().toString(36).slice(2)}`
+  ) {
+    const filterStorage = new IndexedDbVectorStorage(
+      table,
+      FilterVectorSchema,
+      FilterVectorPrimaryKey,
+      [],
+      dimensions,
+      Float32Array,
+      {},
+      "if-missing",
+      options
+    );
+    await filterStorage.setupDatabase();
+    return filterStorage as unknown as FilterVectorStorage & { destroy(): void };
+  }
+
+  runGenericVectorFilterTests(() => createFilterStorage(3));
+  runGenericHybridSearchTests(() => createFilterStorage(3));
+
+  describe("with an HNSW index", () => {
+    runGenericVectorFilterTests(() => createFilterStorage(3, { index: { type: "hnsw" } }));
+    runGenericVectorIndexTests(
+      () => createFilterStorage(16),
+      () => createFilterStorage(16, { index: { type: "hnsw", m: 12, efConstruction: 100 } })
+    );
+
+    it("persists the index and rebuilds it when out of date", async () => {
+      const table = `${dbName}_hnsw_${uuid4().replace(/-/g, "_")}`;
+      const options: VectorStorageOptions = { index: { type: "hnsw" } };
+      const vectors = randomVectors(200, 8, 7);
+      const query = vectors[42];
+
+      const first = await createFilterStorage(8, options, table);
+      await fillVectorStorage([first], vectors);
+      await first.delete({ chunk_id: "c0" });
+      const before = await first.similaritySearch(query, { topK: 5 });
+      first.destroy();
+
+      // Reopening loads the persisted graph
+      const second = await createFilterStorage(8, options, table);
+      const after = await second.similaritySearch(query, { topK: 5 });
+      expect(after.map((r: { chunk_id: string }) => r.chunk_id)).toEqual(
+        before.map((r: { chunk_id: string }) => r.chunk_id)
+      );
+      expect(after[0].chunk_id).toBe("c42");
+      second.destroy();
+
+      // Rows written without the index are picked up by a rebuild
+      const flat = await createFilterStorage(8, undefined, table);
+      await flat.put({
+        chunk_id: "extra",
+        doc_id: "doc-extra",
+        vector: query,
+        metadata: { doc_id: "doc-extra", year: 2000, published: "", tags: [], draft: false },
+      });
+      flat.destroy();
+      const third = await createFilterStorage(8, options, table);
+      const rebuilt = await third.similaritySearch(query, { topK: 2 });
+      expect(rebuilt.map((r: { chunk_id: string }) => r.chunk_id).sort()).toEqual(["c42", "extra"]);
+      third.destroy();
+      await dropIndexedDbTable(table);
+      await dropIndexedDbTable(`${table}_hnsw`);
+    });
+  });
 });
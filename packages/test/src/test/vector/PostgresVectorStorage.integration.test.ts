@@ -0,0 +1,56 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PGlite } from "@electric-sql/pglite";
+import { vector } from "@electric-sql/pglite/vector";
+import { PostgresVectorStorage } from "@workglow/storage";
+import { uuid4 } from "@workglow/util";
+import type { Pool } from "pg";
+import { afterAll, afterEach, beforeAll, describe, expect, vi } from "vitest";
+import { runGenericHybridSearchTests } from "./genericHybridSearchTests";
+import {
+  FilterVectorPrimaryKey,
+  FilterVectorSchema,
+  FilterVectorStorage,
+  runGenericVectorFilterTests,
+} from "./genericVectorFilterTests";
+
+const db = new PGlite({ extensions: { vector } });
+
+describe("PostgresVectorStorage", () => {
+  // pgvector failures fall back to in-memory search with a console.error;
+  // fail instead so the tests cover the SQL translation
+  const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+  beforeAll(async () => {
+    await db.query("CREATE EXTENSION IF NOT EXISTS vector");
+  });
+
+  afterEach(() => {
+    expect(errorSpy).not.toHaveBeenCalled();
+  });
+
+  afterAll(async () => {
+    errorSpy.mockRestore();
+    await db.close();
+  });
+
+  async function createStorage(): Promise<FilterVectorStorage> {
+    const storage = new PostgresVectorStorage(
+      db as unknown as Pool,
+      `vec_test_${uuid4().replace(/-/g, "_")}`,
+      FilterVectorSchema,
+      FilterVectorPrimaryKey,
+      [],
+      3
+    );
+    await storage.setupDatabase();
+    return storage as unknown as FilterVectorStorage;
+  }
+
+  runGenericVectorFilterTests(createStorage);
+  runGenericHybridSearchTests(createStorage);
+});
@@ -10,6 +10,13 @@ import { setLogger } from "@workglow/util";
 import type { DataPortSchemaObject } from "@workglow/util/schema";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
 import { getTestingLogger } from "../../binding/TestingLogger";
+import { runGenericHybridSearchTests } from "./genericHybridSearchTests";
+import {
+  FilterVectorPrimaryKey,
+  FilterVectorSchema,
+  FilterVectorStorage,
+  runGenericVectorFilterTests,
+} from "./genericVectorFilterTests";
 
 let sqliteVectorAvailable = false;
 try {
@@ -350,4 +357,30 @@ describe.skipIf(!sqliteVectorAvailable)("SqliteAiVectorStorage", async () => {
       expect(results.length).toBeLessThanOrEqual(2);
     });
   });
+
+  runGenericVectorFilterTests(async () => {
+    const filterStorage = new SqliteAiVectorStorage(
+      db,
+      "filter_vectors",
+      FilterVectorSchema,
+      FilterVectorPrimaryKey,
+      [],
+      3
+    );
+    await filterStorage.setupDatabase();
+    return filterStorage as unknown as FilterVectorStorage;
+  });
+
+  runGenericHybridSearchTests(async () => {
+    const hybridStorage = new SqliteAiVectorStorage(
+      db,
+      "hybrid_vectors",
+      FilterVectorSchema,
+      FilterVectorPrimaryKey,
+      [],
+      3
+    );
+    await hybridStorage.setupDatabase();
+    return hybridStorage as unknown as FilterVectorStorage;
+  });
 });
@@ -0,0 +1,46 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { SqliteVectorStorage } from "@workglow/storage";
+import { Sqlite } from "@workglow/storage/sqlite";
+import { describe } from "vitest";
+import { runGenericHybridSearchTests } from "./genericHybridSearchTests";
+import {
+  FilterVectorPrimaryKey,
+  FilterVectorSchema,
+  FilterVectorStorage,
+  runGenericVectorFilterTests,
+} from "./genericVectorFilterTests";
+
+describe("SqliteVectorStorage", async () => {
+  await Sqlite.init();
+
+  runGenericVectorFilterTests(async () => {
+    const storage = new SqliteVectorStorage(
+      ":memory:",
+      "vectors",
+      FilterVectorSchema,
+      FilterVectorPrimaryKey,
+      [],
+      3
+    );
+    await storage.setupDatabase();
+    return storage as unknown as FilterVectorStorage;
+  });
+
+  runGenericHybridSearchTests(async () => {
+    const storage = new SqliteVectorStorage(
+      ":memory:",
+      "vectors",
+      FilterVectorSchema,
+      FilterVectorPrimaryKey,
+      [],
+      3
+    );
+    await storage.setupDatabase();
+    return storage as unknown as FilterVectorStorage;
+  });
+});
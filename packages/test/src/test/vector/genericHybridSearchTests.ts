@@ -0,0 +1,118 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { HybridSearchOptions } from "@workglow/storage";
+import { beforeEach, describe, expect, it } from "vitest";
+import type { FilterMetadata, FilterVectorStorage } from "./genericVectorFilterTests";
+
+const chunks = [
+  { chunk_id: "h1", vector: [1, 0, 0], text: "Cooking pasta at home" },
+  {
+    chunk_id: "h2",
+    vector: [0.9, 0.1, 0],
+    text: "Indexing a relational database for faster queries",
+  },
+  { chunk_id: "h3", vector: [0.8, 0.2, 0], text: "Databases store indexed data" },
+  { chunk_id: "h4", vector: [0, 1, 0], text: "A zebra is a striped animal" },
+  { chunk_id: "h5", vector: [0, 0, 1], text: "Data pipelines move data around" },
+];
+
+/**
+ * Hybrid (vector + lexical) search behavior shared by every vector storage
+ * that implements `hybridSearch`
+ */
+export function runGenericHybridSearchTests(createStorage: () => Promise<FilterVectorStorage>) {
+  describe("hybrid search", () => {
+    let storage: FilterVectorStorage;
+
+    function put(chunk_id: string, vector: number[], text: string) {
+      const doc_id = `doc-${chunk_id}`;
+      return storage.put({
+        chunk_id,
+        doc_id,
+        vector: new Float32Array(vector),
+        metadata: { doc_id, text } as any,
+      });
+    }
+
+    async function search(
+      vector: number[],
+      options: HybridSearchOptions<FilterMetadata>
+    ): Promise<Array<{ chunk_id: string; score: number }>> {
+      return storage.hybridSearch!(new Float32Array(vector), { topK: 10, ...options });
+    }
+
+    beforeEach(async () => {
+      storage = await createStorage();
+      await storage.deleteAll();
+      for (const chunk of chunks) await put(chunk.chunk_id, chunk.vector, chunk.text);
+    });
+
+    it("matches stemmed terms", async () => {
+      const results = await search([1, 0, 0], {
+        textQuery: "database indexes",
+        vectorWeight: 0,
+        topK: 2,
+      });
+      expect(results.map((r) => r.chunk_id).sort()).toEqual(["h2", "h3"]);
+      expect(results[1].score).toBeGreaterThan(0);
+    });
+
+    it("weighs vector similarity against text relevance", async () => {
+      const textFirst = await search([0, 1, 0], { textQuery: "pasta", vectorWeight: 0.3 });
+      expect(textFirst[0].chunk_id).toBe("h1");
+      expect(textFirst[0].score).toBeCloseTo(0.7, 5);
+
+      const vectorFirst = await search([0, 1, 0], { textQuery: "pasta", vectorWeight: 0.9 });
+      expect(vectorFirst[0].chunk_id).toBe("h4");
+    });
+
+    it("fuses rankings with reciprocal rank fusion", async () => {
+      const results = await search([1, 0, 0], { textQuery: "indexed database", fusion: "rrf" });
+      // h2 and h3 rank 2nd and 3rd by vector and 1st and 2nd by text; h1 ranks
+      // 1st by vector only
+      expect(
+        results
+          .slice(0, 2)
+          .map((r) => r.chunk_id)
+          .sort()
+      ).toEqual(["h2", "h3"]);
+      expect(results[2].chunk_id).toBe("h1");
+      expect(results[2].score).toBeCloseTo(1 / 61, 8);
+      expect(results[0].score + results[1].score).toBeCloseTo(1 / 61 + 2 / 62 + 1 / 63, 8);
+
+      const flat = await search([1, 0, 0], {
+        textQuery: "indexed database",
+        fusion: "rrf",
+        rrfK: 1,
+      });
+      expect(flat.find((r) => r.chunk_id === "h1")!.score).toBeCloseTo(1 / 2, 8);
+    });
+
+    it("applies the metadata filter to text matches", async () => {
+      const results = await search([1, 0, 0], {
+        textQuery: "database",
+        vectorWeight: 0,
+        filter: { op: "ne", field: "doc_id", value: "doc-h3" },
+      });
+      expect(results.map((r) => r.chunk_id)).not.toContain("h3");
+      expect(results[0].chunk_id).toBe("h2");
+    });
+
+    it("keeps the text index in step with puts and deletes", async () => {
+      await put("h2", [0.9, 0.1, 0], "Gardening tips");
+      let results = await search([1, 0, 0], { textQuery: "relational", vectorWeight: 0 });
+      expect(results.find((r) => r.chunk_id === "h2")!.score).toBe(0);
+      results = await search([1, 0, 0], { textQuery: "gardening", vectorWeight: 0 });
+      expect(results[0].chunk_id).toBe("h2");
+
+      await storage.delete({ chunk_id: "h2" });
+      results = await search([1, 0, 0], { textQuery: "gardening", vectorWeight: 0 });
+      expect(results.map((r) => r.chunk_id)).not.toContain("h2");
+      expect(results.every((r) => r.score === 0)).toBe(true);
+    });
+  });
+}
@@ -0,0 +1,205 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { IVectorStorage, VectorFilter } from "@workglow/storage";
+import { StorageValidationError } from "@workglow/storage";
+import type { DataPortSchemaObject } from "@workglow/util/schema";
+import { beforeEach, describe, expect, it } from "vitest";
+
+export const FilterVectorSchema = {
+  type: "object",
+  properties: {
+    chunk_id: { type: "string" },
+    doc_id: { type: "string" },
+    vector: { type: "array", items: { type: "number" }, format: "TypedArray" },
+    metadata: { type: "object", format: "metadata", additionalProperties: true },
+  },
+  required: ["chunk_id", "doc_id", "vector", "metadata"],
+  additionalProperties: false,
+} as const satisfies DataPortSchemaObject;
+
+export const FilterVectorPrimaryKey = ["chunk_id"] as const;
+
+export type FilterMetadata = {
+  doc_id: string;
+  year: number;
+  published: string;
+  tags: string[];
+  draft: boolean;
+  summary?: string | null;
+};
+
+export type FilterVectorStorage = IVectorStorage<
+  FilterMetadata,
+  typeof FilterVectorSchema,
+  any,
+  typeof FilterVectorPrimaryKey
+>;
+
+const chunks: Array<{ chunk_id: string; metadata: FilterMetadata }> = [
+  {
+    chunk_id: "c1",
+    metadata: {
+      doc_id: "doc1",
+      year: 2023,
+      published: "2023-06-01",
+      tags: ["ai", "ml"],
+      draft: false,
+      summary: "About AI",
+    },
+  },
+  {
+    chunk_id: "c2",
+    metadata: {
+      doc_id: "doc2",
+      year: 2024,
+      published: "2024-02-15",
+      tags: ["cooking"],
+      draft: true,
+      summary: null,
+    },
+  },
+  {
+    chunk_id: "c3",
+    metadata: { doc_id: "doc3", year: 2024, published: "2024-11-30", tags: ["ai"], draft: false },
+  },
+  {
+    chunk_id: "c4",
+    metadata: {
+      doc_id: "doc4",
+      year: 2025,
+      published: "2025-01-10",
+      tags: [],
+      draft: false,
+      summary: "About travel",
+    },
+  },
+];
+
+export function runGenericVectorFilterTests(createStorage: () => Promise<FilterVectorStorage>) {
+  describe("metadata filter expressions", () => {
+    let storage: FilterVectorStorage;
+
+    beforeEach(async () => {
+      storage = await createStorage();
+      for (const [i, chunk] of chunks.entries()) {
+        const vector = new Float32Array([1, i / 10, 0]);
+        await storage.put({ ...chunk, doc_id: chunk.metadata.doc_id, vector });
+      }
+    });
+
+    async function search(filter: VectorFilter<FilterMetadata>): Promise<string[]> {
+      const results = await storage.similaritySearch(new Float32Array([1, 0, 0]), {
+        topK: 10,
+        filter,
+      });
+      return results.map((r: { chunk_id: string }) => r.chunk_id).sort();
+    }
+
+    it("matches eq and ne", async () => {
+      expect(await search({ op: "eq", field: "doc_id", value: "doc2" })).toEqual(["c2"]);
+      expect(await search({ op: "eq", field: "draft", value: false })).toEqual(["c1", "c3", "c4"]);
+      expect(await search({ op: "eq", field: "year", value: 2024 })).toEqual(["c2", "c3"]);
+      // Values only match values of the same type
+      expect(await search({ op: "eq", field: "year", value: "2024" })).toEqual([]);
+      expect(await search({ op: "ne", field: "year", value: 2024 })).toEqual(["c1", "c4"]);
+    });
+
+    it("treats a missing field as not equal", async () => {
+      expect(await search({ op: "ne", field: "summary", value: "About AI" })).toEqual([
+        "c2",
+        "c3",
+        "c4",
+      ]);
+      expect(await search({ op: "eq", field: "summary", value: null })).toEqual(["c2"]);
+    });
+
+    it("matches in", async () => {
+      expect(await search({ op: "in", field: "doc_id", values: ["doc1", "doc3", "nope"] })).toEqual(
+        ["c1", "c3"]
+      );
+      expect(await search({ op: "in", field: "doc_id", values: [] })).toEqual([]);
+    });
+
+    it("matches numeric and string ranges", async () => {
+      expect(await search({ op: "range", field: "year", gte: 2024, lt: 2025 })).toEqual([
+        "c2",
+        "c3",
+      ]);
+      expect(await search({ op: "range", field: "year", gt: 2024 })).toEqual(["c4"]);
+      expect(
+        await search({ op: "range", field: "published", gte: "2024-01-01", lte: "2024-12-31" })
+      ).toEqual(["c2", "c3"]);
+      // A string bound never matches a number field
+      expect(await search({ op: "range", field: "year", gte: "2000" })).toEqual([]);
+    });
+
+    it("matches exists", async () => {
+      expect(await search({ op: "exists", field: "summary" })).toEqual(["c1", "c4"]);
+    });
+
+    it("matches contains on arrays", async () => {
+      expect(await search({ op: "contains", field: "tags", value: "ai" })).toEqual(["c1", "c3"]);
+      expect(await search({ op: "contains", field: "doc_id", value: "doc1" })).toEqual([]);
+    });
+
+    it("combines expressions with and, or and not", async () => {
+      expect(
+        await search({
+          op: "and",
+          filters: [
+            { op: "contains", field: "tags", value: "ai" },
+            { op: "range", field: "published", gte: "2024-01-01" },
+          ],
+        })
+      ).toEqual(["c3"]);
+      expect(
+        await search({
+          op: "or",
+          filters: [
+            { op: "eq", field: "draft", value: true },
+            { op: "eq", field: "year", value: 2025 },
+          ],
+        })
+      ).toEqual(["c2", "c4"]);
+      expect(await search({ op: "not", filter: { op: "exists", field: "summary" } })).toEqual([
+        "c2",
+        "c3",
+      ]);
+      expect(await search({ op: "and", filters: [] })).toEqual(["c1", "c2", "c3", "c4"]);
+      expect(await search({ op: "or", filters: [] })).toEqual([]);
+    });
+
+    it("still accepts equality objects", async () => {
+      expect(await search({ year: 2024, draft: false })).toEqual(["c3"]);
+      expect(await search({})).toEqual(["c1", "c2", "c3", "c4"]);
+    });
+
+    it("applies the filter before topK", async () => {
+      const results = await storage.similaritySearch(new Float32Array([1, 0, 0]), {
+        topK: 1,
+        filter: { op: "eq", field: "year", value: 2025 },
+      });
+      expect(results.map((r: { chunk_id: string }) => r.chunk_id)).toEqual(["c4"]);
+    });
+
+    it("filters hybrid search", async () => {
+      if (!storage.hybridSearch) return;
+      const results = await storage.hybridSearch(new Float32Array([1, 0, 0]), {
+        textQuery: "about",
+        topK: 10,
+        filter: { op: "in", field: "doc_id", values: ["doc1", "doc2"] },
+      });
+      expect(results.map((r: { chunk_id: string }) => r.chunk_id).sort()).toEqual(["c1", "c2"]);
+    });
+
+    it("rejects unsafe field names", async () => {
+      await expect(search({ op: "eq", field: "x' OR '1'='1" as any, value: "a" })).rejects.toThrow(
+        StorageValidationError
+      );
+    });
+  });
+}
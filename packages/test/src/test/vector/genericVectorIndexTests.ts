@@ -0,0 +1,170 @@
+/**
+ * @license
+ * Copyright 2025 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { getLogger } from "@workglow/util";
+import { beforeAll, describe, expect, it } from "vitest";
+import type { FilterVectorStorage } from "./genericVectorFilterTests";
+
+/** Deterministic PRNG (mulberry32) so recall numbers are reproducible */
+function seededRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function randomVectors(count: number, dimensions: number, seed: number): Float32Array[] {
+  const random = seededRandom(seed);
+  return Array.from({ length: count }, () =>
+    Float32Array.from({ length: dimensions }, () => random() * 2 - 1)
+  );
+}
+
+export interface SearchBenchmark {
+  /** Mean recall@k of the indexed storage against the flat storage */
+  readonly recall: number;
+  /** Mean milliseconds per query */
+  readonly flatMs: number;
+  readonly indexedMs: number;
+}
+
+/**
+ * Runs the same queries against a flat (brute-force) and an indexed storage
+ * holding the same rows
+ */
+export async function benchmarkVectorSearch(
+  flat: FilterVectorStorage,
+  indexed: FilterVectorStorage,
+  queries: Float32Array[],
+  topK: number
+): Promise<SearchBenchmark> {
+  let found = 0;
+  let flatMs = 0;
+  let indexedMs = 0;
+  for (const query of queries) {
+    let start = performance.now();
+    const expected = await flat.similaritySearch(query, { topK });
+    flatMs += performance.now() - start;
+    start = performance.now();
+    const actual = await indexed.similaritySearch(query, { topK });
+    indexedMs += performance.now() - start;
+    const ids = new Set(expected.map((r: { chunk_id: string }) => r.chunk_id));
+    found += actual.filter((r: { chunk_id: string }) => ids.has(r.chunk_id)).length;
+  }
+  return {
+    recall: found / (queries.length * topK),
+    flatMs: flatMs / queries.length,
+    indexedMs: indexedMs / queries.length,
+  };
+}
+
+export async function fillVectorStorage(
+  storages: FilterVectorStorage[],
+  vectors: Float32Array[]
+): Promise<void> {
+  for (const [i, vector] of vectors.entries()) {
+    const entity = {
+      chunk_id: `c${i}`,
+      doc_id: `doc${i % 10}`,
+      vector,
+      metadata: {
+        doc_id: `doc${i % 10}`,
+        year: 2000 + (i % 25),
+        published: "",
+        tags: [],
+        draft: false,
+      },
+    };
+    for (const storage of storages) {
+      await storage.put(entity);
+    }
+  }
+}
+
+export function runGenericVectorIndexTests(
+  createFlatStorage: () => Promise<FilterVectorStorage>,
+  createIndexedStorage: () => Promise<FilterVectorStorage>
+) {
+  describe("HNSW index", () => {
+    const dimensions = 16;
+    const vectors = randomVectors(1000, dimensions, 3);
+    const queries = randomVectors(25, dimensions, 4);
+    let flat: FilterVectorStorage;
+    let indexed: FilterVectorStorage;
+
+    beforeAll(async () => {
+      flat = await createFlatStorage();
+      indexed = await createIndexedStorage();
+      await fillVectorStorage([flat, indexed], vectors);
+    });
+
+    it("matches brute-force results with high recall", async () => {
+      const result = await benchmarkVectorSearch(flat, indexed, queries, 10);
+      getLogger().info("HNSW recall@10", { ...result });
+      expect(result.recall).toBeGreaterThanOrEqual(0.9);
+    });
+
+    it("returns full rows with cosine scores", async () => {
+      const [expected] = await flat.similaritySearch(vectors[7], { topK: 1 });
+      const [actual] = await indexed.similaritySearch(vectors[7], { topK: 1 });
+      expect(actual.chunk_id).toBe("c7");
+      expect(actual.metadata.doc_id).toBe("doc7");
+      expect(actual.score).toBeCloseTo(expected.score, 5);
+    });
+
+    it("applies metadata filters and score thresholds", async () => {
+      const filtered = await indexed.similaritySearch(queries[0], {
+        topK: 5,
+        filter: { op: "eq", field: "year", value: 2003 },
+      });
+      const expected = await flat.similaritySearch(queries[0], {
+        topK: 5,
+        filter: { op: "eq", field: "year", value: 2003 },
+      });
+      expect(filtered).toHaveLength(5);
+      expect(filtered.every((r: any) => r.metadata.year === 2003)).toBe(true);
+      expect(filtered[0].chunk_id).toBe(expected[0].chunk_id);
+
+      const thresholded = await indexed.similaritySearch(queries[0], {
+        topK: 50,
+        scoreThreshold: 0.5,
+      });
+      expect(thresholded.every((r: any) => r.score >= 0.5)).toBe(true);
+    });
+
+    it("tracks puts and deletes incrementally", async () => {
+      const query = new Float32Array(dimensions).fill(1);
+      const newcomer = {
+        chunk_id: "newcomer",
+        doc_id: "doc-new",
+        vector: query,
+        metadata: { doc_id: "doc-new", year: 1999, published: "", tags: [], draft: true },
+      };
+      await indexed.put(newcomer);
+      expect((await indexed.similaritySearch(query, { topK: 1 }))[0].chunk_id).toBe("newcomer");
+
+      // Replacing the vector moves the row in the graph
+      await indexed.put({ ...newcomer, vector: query.map((v) => -v) });
+      expect((await indexed.similaritySearch(query, { topK: 1 }))[0].chunk_id).not.toBe("newcomer");
+
+      await indexed.delete({ chunk_id: "newcomer" });
+      const results = await indexed.similaritySearch(
+        query.map((v) => -v),
+        { topK: 10 }
+      );
+      expect(results.map((r: { chunk_id: string }) => r.chunk_id)).not.toContain("newcomer");
+
+      await indexed.deleteSearch({ doc_id: "doc1" });
+      const rest = await indexed.similaritySearch(vectors[1], { topK: 10 });
+      expect(rest.some((r: { doc_id: string }) => r.doc_id === "doc1")).toBe(false);
+
+      await indexed.deleteAll();
+      expect(await indexed.similaritySearch(vectors[1], { topK: 10 })).toEqual([]);
+    });
+  });
+}
@@ -7,6 +7,10 @@
 import "./media/imageCacheCodec";
 import "./media/imageHydrationResolver";
 
+export * from "./media/audioCodecRegistry";
+export { AudioSchema } from "./media/audioSchema";
+export * from "./media/audioTypes";
+export * from "./media/audioWav";
 export * from "./media/color";
 export { CpuImage } from "./media/cpuImage";
 export {
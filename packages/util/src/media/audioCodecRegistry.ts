@@ -0,0 +1,86 @@
+/**
+ * @license
+ * Copyright 2026 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AudioBinary } from "./audioTypes";
+import { decodeWav, encodeWav } from "./audioWav";
+import { parseDataUri } from "./imageTypes";
+
+export interface AudioCodec {
+  /** MIME types this codec reads and writes, e.g. `["audio/wav"]` */
+  readonly mimeTypes: readonly string[];
+  decode(bytes: Uint8Array, mimeType: string): Promise<AudioBinary>;
+  encode(audio: AudioBinary, mimeType: string): Promise<Uint8Array>;
+}
+
+// Cross-bundle singleton, shared through globalThis for the same reason as
+// the image raster codec: app and worker bundles may each inline a copy of
+// this file, and a codec registered in one must be visible to the other.
+const GLOBAL_CODECS_KEY = Symbol.for("@workglow/util/media/audioCodecs");
+const _g = globalThis as Record<symbol, unknown>;
+
+if (!_g[GLOBAL_CODECS_KEY]) {
+  _g[GLOBAL_CODECS_KEY] = new Map<string, AudioCodec>();
+}
+const codecs = _g[GLOBAL_CODECS_KEY] as Map<string, AudioCodec>;
+
+/**
+ * Registers a codec for each of its MIME types, replacing any codec
+ * previously registered for them.
+ */
+export function registerAudioCodec(codec: AudioCodec): void {
+  for (const mimeType of codec.mimeTypes) {
+    codecs.set(mimeType.toLowerCase(), codec);
+  }
+}
+
+export function hasAudioCodec(mimeType: string): boolean {
+  return codecs.has(mimeType.toLowerCase());
+}
+
+export function getAudioCodec(mimeType: string): AudioCodec {
+  const codec = codecs.get(mimeType.toLowerCase());
+  if (!codec) {
+    throw new Error(
+      `No audio codec is registered for ${mimeType}. Supported types: ${[...codecs.keys()].join(", ")}. Call registerAudioCodec() during startup to add one.`
+    );
+  }
+  return codec;
+}
+
+/**
+ * Decodes a `data:audio/…;base64,…` URI with the codec registered for its
+ * MIME type
+ */
+export async function decodeAudioDataUri(dataUri: string): Promise<AudioBinary> {
+  const { mimeType, base64 } = parseDataUri(dataUri);
+  const decoded = atob(base64);
+  const bytes = new Uint8Array(decoded.length);
+  for (let i = 0; i < decoded.length; i++) bytes[i] = decoded.charCodeAt(i);
+  return getAudioCodec(mimeType).decode(bytes, mimeType);
+}
+
+/**
+ * Encodes audio as a `data:<mimeType>;base64,…` URI with the codec registered
+ * for that MIME type
+ */
+export async function encodeAudioDataUri(
+  audio: AudioBinary,
+  mimeType: string = "audio/wav"
+): Promise<string> {
+  const bytes = await getAudioCodec(mimeType).encode(audio, mimeType);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return `data:${mimeType};base64,${btoa(binary)}`;
+}
+
+/** Built-in WAV codec; writes 16-bit PCM */
+export const wavAudioCodec: AudioCodec = {
+  mimeTypes: ["audio/wav", "audio/x-wav", "audio/wave"],
+  decode: async (bytes) => decodeWav(bytes),
+  encode: async (audio) => encodeWav(audio),
+};
+
+registerAudioCodec(wavAudioCodec);
@@ -0,0 +1,23 @@
+/**
+ * @license
+ * Copyright 2026 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { DataPortSchema } from "../json-schema/DataPortSchema";
+
+/**
+ * Port schema for audio values. Like GpuImageSchema it accepts both wire
+ * forms — a data URI string or a raw AudioBinary object — and the receiving
+ * task decodes strings through the audio codec registry.
+ */
+export function AudioSchema(annotations: Record<string, unknown> = {}): DataPortSchema {
+  return {
+    type: ["string", "object"],
+    properties: {},
+    title: "Audio",
+    description: "Audio as a data URI or raw PCM samples",
+    ...annotations,
+    format: "audio",
+  } as unknown as DataPortSchema;
+}
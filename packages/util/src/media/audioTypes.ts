@@ -0,0 +1,76 @@
+/**
+ * @license
+ * Copyright 2026 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Raw PCM audio. Samples are interleaved by channel (`L R L R …` for stereo)
+ * and normalized to [-1, 1].
+ */
+export interface AudioBinary {
+  data: Float32Array;
+  sampleRate: number;
+  channels: number;
+}
+
+export function isAudioBinary(value: unknown): value is AudioBinary {
+  if (!value || typeof value !== "object") return false;
+  const audio = value as Partial<AudioBinary>;
+  return (
+    audio.data instanceof Float32Array &&
+    typeof audio.sampleRate === "number" &&
+    typeof audio.channels === "number"
+  );
+}
+
+/** Duration of the audio in seconds */
+export function audioDuration(audio: AudioBinary): number {
+  return audio.data.length / audio.channels / audio.sampleRate;
+}
+
+/**
+ * Mixes all channels down to one by averaging them
+ */
+export function audioToMono(audio: AudioBinary): AudioBinary {
+  const { data, channels, sampleRate } = audio;
+  if (channels === 1) return audio;
+  const frames = Math.floor(data.length / channels);
+  const mono = new Float32Array(frames);
+  for (let frame = 0; frame < frames; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < channels; channel++) {
+      sum += data[frame * channels + channel];
+    }
+    mono[frame] = sum / channels;
+  }
+  return { data: mono, sampleRate, channels: 1 };
+}
+
+/**
+ * Resamples audio to `sampleRate` by linear interpolation. Good enough for
+ * feeding speech models; no anti-aliasing filter is applied when downsampling.
+ */
+export function resampleAudio(audio: AudioBinary, sampleRate: number): AudioBinary {
+  if (!(sampleRate > 0)) {
+    throw new Error(`resampleAudio: invalid sample rate ${sampleRate}`);
+  }
+  const { data, channels } = audio;
+  if (audio.sampleRate === sampleRate) return audio;
+  const frames = Math.floor(data.length / channels);
+  const outFrames = Math.max(0, Math.round((frames * sampleRate) / audio.sampleRate));
+  const out = new Float32Array(outFrames * channels);
+  const step = audio.sampleRate / sampleRate;
+  for (let frame = 0; frame < outFrames; frame++) {
+    const position = frame * step;
+    const left = Math.min(Math.floor(position), frames - 1);
+    const right = Math.min(left + 1, frames - 1);
+    const t = position - left;
+    for (let channel = 0; channel < channels; channel++) {
+      const a = data[left * channels + channel];
+      const b = data[right * channels + channel];
+      out[frame * channels + channel] = a + (b - a) * t;
+    }
+  }
+  return { data: out, sampleRate, channels };
+}
@@ -0,0 +1,181 @@
+/**
+ * @license
+ * Copyright 2026 Steven Roussey <sroussey@gmail.com>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AudioBinary } from "./audioTypes";
+import { parseDataUri } from "./imageTypes";
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+export type WavSampleFormat = "pcm16" | "float32";
+
+function fourCC(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
+
+/**
+ * Decodes a RIFF/WAVE file holding integer PCM (8, 16, 24 or 32 bit) or
+ * IEEE float (32 or 64 bit) samples.
+ *
+ * @throws Error if the bytes are not a WAV file or use another encoding
+ */
+export function decodeWav(bytes: Uint8Array): AudioBinary {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.byteLength < 12 || fourCC(view, 0) !== "RIFF" || fourCC(view, 8) !== "WAVE") {
+    throw new Error("decodeWav: not a RIFF/WAVE file");
+  }
+
+  let format: { code: number; channels: number; sampleRate: number; bits: number } | undefined;
+  let offset = 12;
+  while (offset + 8 <= bytes.byteLength) {
+    const id = fourCC(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (id === "fmt ") {
+      let code = view.getUint16(body, true);
+      if (code === WAVE_FORMAT_EXTENSIBLE && size >= 26) {
+        // The sub-format GUID starts with the actual format code
+        code = view.getUint16(body + 24, true);
+      }
+      format = {
+        code,
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bits: view.getUint16(body + 14, true),
+      };
+    } else if (id === "data") {
+      if (!format) throw new Error("decodeWav: data chunk before fmt chunk");
+      const length = Math.min(size, bytes.byteLength - body);
+      return {
+        data: decodeSamples(view, body, length, format.code, format.bits),
+        sampleRate: format.sampleRate,
+        channels: format.channels,
+      };
+    }
+    // Chunks are padded to an even size
+    offset = body + size + (size % 2);
+  }
+  throw new Error("decodeWav: no data chunk");
+}
+
+function decodeSamples(
+  view: DataView,
+  offset: number,
+  length: number,
+  code: number,
+  bits: number
+): Float32Array {
+  const bytesPerSample = bits / 8;
+  const count = Math.floor(length / bytesPerSample);
+  const out = new Float32Array(count);
+  if (code === WAVE_FORMAT_IEEE_FLOAT && (bits === 32 || bits === 64)) {
+    for (let i = 0; i < count; i++) {
+      const at = offset + i * bytesPerSample;
+      out[i] = bits === 32 ? view.getFloat32(at, true) : view.getFloat64(at, true);
+    }
+    return out;
+  }
+  if (code !== WAVE_FORMAT_PCM) {
+    throw new Error(`decodeWav: unsupported format code ${code}`);
+  }
+  for (let i = 0; i < count; i++) {
+    const at = offset + i * bytesPerSample;
+    switch (bits) {
+      case 8:
+        // 8-bit WAV is unsigned
+        out[i] = (view.getUint8(at) - 128) / 128;
+        break;
+      case 16:
+        out[i] = view.getInt16(at, true) / 0x8000;
+        break;
+      case 24: {
+        const value =
+          view.getUint8(at) | (view.getUint8(at + 1) << 8) | (view.getInt8(at + 2) << 16);
+        out[i] = value / 0x800000;
+        break;
+      }
+      case 32:
+        out[i] = view.getInt32(at, true) / 0x80000000;
+        break;
+      default:
+        throw new Error(`decodeWav: unsupported PCM bit depth ${bits}`);
+    }
+  }
+  return out;
+}
+
+/**
+ * Encodes audio as a WAV file, as 16-bit PCM (default) or 32-bit float.
+ * PCM samples are clamped to [-1, 1].
+ */
+export function encodeWav(audio: AudioBinary, sampleFormat: WavSampleFormat = "pcm16"): Uint8Array {
+  const { data, sampleRate, channels } = audio;
+  const bytesPerSample = sampleFormat === "float32" ? 4 : 2;
+  const dataSize = data.length * bytesPerSample;
+  const bytes = new Uint8Array(44 + dataSize);
+  const view = new DataView(bytes.buffer);
+  const writeFourCC = (offset: number, id: string) => {
+    for (let i = 0; i < 4; i++) view.setUint8(offset + i, id.charCodeAt(i));
+  };
+
+  writeFourCC(0, "RIFF");
+  view.setUint32(4, 36 + dataSize, true);
+  writeFourCC(8, "WAVE");
+  writeFourCC(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, sampleFormat === "float32" ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channels * bytesPerSample, true);
+  view.setUint16(32, channels * bytesPerSample, true);
+  view.setUint16(34, bytesPerSample * 8, true);
+  writeFourCC(36, "data");
+  view.setUint32(40, dataSize, true);
+
+  for (let i = 0; i < data.length; i++) {
+    const at = 44 + i * bytesPerSample;
+    if (sampleFormat === "float32") {
+      view.setFloat32(at, data[i], true);
+    } else {
+      const sample = Math.max(-1, Math.min(1, data[i]));
+      view.setInt16(at, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+    }
+  }
+  return bytes;
+}
+
+/**
+ * Decodes a `data:audio/wav;base64,…` URI
+ */
+export function wavDataUriToAudioBinary(dataUri: string): AudioBinary {
+  const { mimeType, base64 } = parseDataUri(dataUri);
+  if (!/^audio\/(x-)?wav(e)?$/.test(mimeType)) {
+    throw new Error(`wavDataUriToAudioBinary: expected a WAV data URI, got ${mimeType}`);
+  }
+  const decoded = atob(base64);
+  const bytes = new Uint8Array(decoded.length);
+  for (let i = 0; i < decoded.length; i++) bytes[i] = decoded.charCodeAt(i);
+  return decodeWav(bytes);
+}
+
+/**
+ * Encodes audio as a `data:audio/wav;base64,…` URI
+ */
+export function audioBinaryToWavDataUri(
+  audio: AudioBinary,
+  sampleFormat: WavSampleFormat = "pcm16"
+): string {
+  const bytes = encodeWav(audio, sampleFormat);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return `data:audio/wav;base64,${btoa(binary)}`;
+}
@@ -79,6 +79,7 @@ const SECTION_DIRS: Record<Section, string[]> = {
   task: [join(TEST_BASE, "task")],
   storage: [
     join(TEST_BASE, "storage-kv"),
+    join(TEST_BASE, "storage-sync"),
     join(TEST_BASE, "storage-tabular"),
     join(TEST_BASE, "storage-util"),
     join(TEST_BASE, "vector"),